@@ -1,44 +1,125 @@
-export type Money = { cents: bigint; currency: 'USD' | 'USDC' };
+// ISO 4217 codes and token symbols. Amounts are integers in minor units of
+// `decimals` places, so 12.34 EUR is { amount: 1234n, currency: 'EUR', decimals: 2 }.
+export type Currency = string;
+
+export type Money = { amount: bigint; currency: Currency; decimals: number };
+
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  USD: 2,
+  EUR: 2,
+  BRL: 2,
+  GBP: 2,
+  CAD: 2,
+  JPY: 0,
+  USDC: 6,
+  USDT: 6,
+  DAI: 18,
+  ETH: 18,
+};
+
+export const decimalsFor = (currency: Currency): number => {
+  const decimals = CURRENCY_DECIMALS[currency.toUpperCase()];
+  if (decimals === undefined) throw new Error(`Unknown currency ${currency}`);
+  return decimals;
+};
+
+export const money = (amount: bigint, currency: Currency, decimals: number = decimalsFor(currency)): Money => ({
+  amount,
+  currency: currency.toUpperCase(),
+  decimals
+});
+
+// Finance tables store `*Cents` columns: hundredths of the row's currency
+export const fromCents = (cents: bigint, currency: Currency = 'USD'): Money => money(cents, currency, 2);
 
 export const toCents = (n: number): bigint => BigInt(Math.round(n * 100));
 
-export const add = (a: Money, b: Money): Money => {
-  if (a.currency !== b.currency) throw new Error('Currency mismatch');
-  return { cents: a.cents + b.cents, currency: a.currency };
+// Exact parse of a decimal string such as "1234.56" or "-0.5"
+export const parseMoney = (value: string, currency: Currency, decimals: number = decimalsFor(currency)): Money => {
+  const match = value.trim().match(/^(-)?(\d+)(?:\.(\d+))?$/);
+  if (!match) throw new Error(`Invalid amount "${value}"`);
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.length > decimals) throw new Error(`Amount "${value}" has more than ${decimals} decimals for ${currency}`);
+  const amount = BigInt(whole! + fraction.padEnd(decimals, '0'));
+  return money(sign ? -amount : amount, currency, decimals);
+};
+
+export const toDecimalString = (m: Money): string => {
+  const abs = m.amount < 0n ? -m.amount : m.amount;
+  const digits = abs.toString().padStart(m.decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - m.decimals);
+  const fraction = m.decimals > 0 ? `.${digits.slice(-m.decimals)}` : '';
+  return `${m.amount < 0n ? '-' : ''}${whole}${fraction}`;
 };
 
-export const subtract = (a: Money, b: Money): Money => {
-  if (a.currency !== b.currency) throw new Error('Currency mismatch');
-  return { cents: a.cents - b.cents, currency: a.currency };
+// Rounds half away from zero when dropping decimals
+export const rescale = (m: Money, decimals: number): Money => {
+  if (decimals >= m.decimals) {
+    return { ...m, amount: m.amount * 10n ** BigInt(decimals - m.decimals), decimals };
+  }
+  return { ...m, amount: divideRounded(m.amount, 10n ** BigInt(m.decimals - decimals)), decimals };
 };
 
-export const multiply = (money: Money, factor: number): Money => {
-  return { cents: money.cents * BigInt(Math.round(factor * 100)) / BigInt(100), currency: money.currency };
+/**
+ * Convert at `rate` units of `currency` per unit of `m.currency`. The rate is a
+ * decimal string so snapshots stored with the document convert exactly.
+ */
+export const convert = (m: Money, rate: string, currency: Currency, decimals: number = decimalsFor(currency)): Money => {
+  const match = rate.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) throw new Error(`Invalid FX rate "${rate}"`);
+  const [, whole, fraction = ''] = match;
+  const numerator = m.amount * BigInt(whole! + fraction) * 10n ** BigInt(decimals);
+  const denominator = 10n ** BigInt(fraction.length + m.decimals);
+  return money(divideRounded(numerator, denominator), currency, decimals);
 };
 
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  const decimals = Math.max(a.decimals, b.decimals);
+  return { amount: rescale(a, decimals).amount + rescale(b, decimals).amount, currency: a.currency, decimals };
+};
+
+export const subtract = (a: Money, b: Money): Money => add(a, { ...b, amount: -b.amount });
+
+export const multiply = (m: Money, factor: number): Money => {
+  return { ...m, amount: m.amount * BigInt(Math.round(factor * 100)) / BigInt(100) };
+};
+
+export const sum = (amounts: Money[], currency: Currency, decimals: number = decimalsFor(currency)): Money =>
+  amounts.reduce((total, m) => add(total, m), money(0n, currency, decimals));
+
 export const formatUSD = (cents: bigint): string => (Number(cents) / 100).toFixed(2);
 
-export const formatMoney = (money: Money): string => {
-  const amount = formatUSD(money.cents);
-  return money.currency === 'USDC' ? `${amount} USDC` : `$${amount}`;
+export const formatMoney = (m: Money): string => {
+  const amount = toDecimalString(rescale(m, Math.min(m.decimals, 2)));
+  return m.currency === 'USD' ? `$${amount}` : `${amount} ${m.currency}`;
 };
 
-export const fromDollars = (amount: number, currency: 'USD' | 'USDC' = 'USD'): Money => ({
-  cents: toCents(amount),
-  currency
-});
+export const fromDollars = (amount: number, currency: Currency = 'USD'): Money => fromCents(toCents(amount), currency);
 
-export const toDollars = (money: Money): number => Number(money.cents) / 100;
+export const toDollars = (m: Money): number => Number(toDecimalString(m));
 
-export const isPositive = (money: Money): boolean => money.cents > BigInt(0);
+export const isPositive = (m: Money): boolean => m.amount > BigInt(0);
 
-export const isNegative = (money: Money): boolean => money.cents < BigInt(0);
+export const isNegative = (m: Money): boolean => m.amount < BigInt(0);
 
-export const isZero = (money: Money): boolean => money.cents === BigInt(0);
+export const isZero = (m: Money): boolean => m.amount === BigInt(0);
 
 export const compare = (a: Money, b: Money): number => {
-  if (a.currency !== b.currency) throw new Error('Currency mismatch');
-  if (a.cents > b.cents) return 1;
-  if (a.cents < b.cents) return -1;
+  const difference = subtract(a, b).amount;
+  if (difference > 0n) return 1;
+  if (difference < 0n) return -1;
   return 0;
-};
\ No newline at end of file
+};
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+}
+
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const abs = remainder < 0n ? -remainder : remainder;
+  if (abs * 2n < denominator) return quotient;
+  return numerator < 0n ? quotient - 1n : quotient + 1n;
+}
@@ -0,0 +1,145 @@
+export type AccountingExportFormat = 'QUICKBOOKS_IIF' | 'XERO_CSV' | 'GL_CSV';
+
+export interface ExportLine {
+  accountCode: string;
+  accountName?: string;
+  subledger?: string;
+  debitCents: bigint;
+  creditCents: bigint;
+  description: string;
+}
+
+/**
+ * One balanced journal for the accounting system: an approved invoice
+ * (expense by WBS against the vendor's AP) or a reconciled disbursement
+ * (AP against cash)
+ */
+export interface ExportJournal {
+  journalId: string;
+  sourceType: 'INVOICE' | 'DISBURSEMENT';
+  sourceId: number;
+  date: Date;
+  reference: string;
+  memo: string;
+  lines: ExportLine[];
+}
+
+export interface RenderedExport {
+  content: string;
+  extension: string;
+  contentType: string;
+}
+
+export function renderAccountingExport(format: AccountingExportFormat, journals: ExportJournal[]): RenderedExport {
+  switch (format) {
+    case 'QUICKBOOKS_IIF':
+      return { content: renderIif(journals), extension: 'iif', contentType: 'text/plain' };
+    case 'XERO_CSV':
+      return { content: renderXeroCsv(journals), extension: 'csv', contentType: 'text/csv' };
+    case 'GL_CSV':
+      return { content: renderGlCsv(journals), extension: 'csv', contentType: 'text/csv' };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+// QuickBooks Desktop import: tab-separated general journal transactions where
+// the first line is TRNS, the rest SPL, and credits are negative amounts
+function renderIif(journals: ExportJournal[]): string {
+  const columns = ['TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const rows = [
+    ['!TRNS', 'TRNSID', ...columns],
+    ['!SPL', 'SPLID', ...columns],
+    ['!ENDTRNS'],
+  ];
+
+  for (const journal of journals) {
+    journal.lines.forEach((line, index) => {
+      rows.push([
+        index === 0 ? 'TRNS' : 'SPL',
+        '',
+        'GENERAL JOURNAL',
+        formatUsDate(journal.date),
+        line.accountName ?? line.accountCode,
+        line.subledger ?? '',
+        formatCents(line.debitCents - line.creditCents),
+        journal.reference,
+        line.description,
+      ]);
+    });
+    rows.push(['ENDTRNS']);
+  }
+
+  return rows.map(row => row.map(iifField).join('\t')).join('\r\n') + '\r\n';
+}
+
+// Xero manual journal import template. Lines sharing a narration and date
+// become one journal, so the narration leads with the journal id.
+function renderXeroCsv(journals: ExportJournal[]): string {
+  const rows = [['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount']];
+
+  for (const journal of journals) {
+    for (const line of journal.lines) {
+      rows.push([
+        `${journal.journalId} ${journal.memo}`,
+        formatUsDate(journal.date),
+        line.subledger ? `${line.description} (${line.subledger})` : line.description,
+        line.accountCode,
+        'Tax Exempt',
+        formatCents(line.debitCents - line.creditCents),
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+function renderGlCsv(journals: ExportJournal[]): string {
+  const rows = [[
+    'journal_id', 'date', 'account_code', 'account_name', 'subledger',
+    'debit', 'credit', 'description', 'reference', 'source_type', 'source_id',
+  ]];
+
+  for (const journal of journals) {
+    for (const line of journal.lines) {
+      rows.push([
+        journal.journalId,
+        journal.date.toISOString().slice(0, 10),
+        line.accountCode,
+        line.accountName ?? '',
+        line.subledger ?? '',
+        line.debitCents > 0n ? formatCents(line.debitCents) : '',
+        line.creditCents > 0n ? formatCents(line.creditCents) : '',
+        line.description,
+        journal.reference,
+        journal.sourceType,
+        journal.sourceId.toString(),
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+export function formatCents(cents: bigint): string {
+  const sign = cents < 0n ? '-' : '';
+  const abs = cents < 0n ? -cents : cents;
+  return `${sign}${abs / 100n}.${(abs % 100n).toString().padStart(2, '0')}`;
+}
+
+function formatUsDate(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${month}/${day}/${date.getUTCFullYear()}`;
+}
+
+// IIF has no quoting, so separators inside a field are flattened to spaces
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n"]+/g, ' ');
+}
+
+function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row.map(value => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)).join(','))
+    .join('\r\n') + '\r\n';
+}
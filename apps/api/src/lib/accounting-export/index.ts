@@ -0,0 +1,308 @@
+import { PrismaClient, AccountMapping, InvoiceStatus } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import {
+  AccountingExportFormat,
+  ExportJournal,
+  ExportLine,
+  renderAccountingExport,
+  formatCents,
+} from './formats';
+
+export { renderAccountingExport, formatCents };
+export type { AccountingExportFormat, ExportJournal, ExportLine };
+
+export type AccountMappingType = 'WBS' | 'VENDOR' | 'DEFAULT';
+export type DefaultAccount = 'EXPENSE' | 'ACCOUNTS_PAYABLE' | 'CASH';
+
+export interface AccountMappingInput {
+  mappingType: AccountMappingType;
+  sourceKey: string;
+  accountCode: string;
+  accountName?: string;
+  subledger?: string;
+}
+
+export interface AccountingExportRequest {
+  projectId: number;
+  format: AccountingExportFormat;
+  periodStart: Date;
+  periodEnd: Date;
+  exportedBy: string;
+  dryRun?: boolean; // Render the file without marking entries as exported
+}
+
+const DEFAULT_ACCOUNTS: DefaultAccount[] = ['EXPENSE', 'ACCOUNTS_PAYABLE', 'CASH'];
+
+// Invoice states at or after approval, i.e. bills the accountants should see
+const POSTED_INVOICE_STATUSES: InvoiceStatus[] = ['APPROVED', 'SCHEDULED', 'PAID', 'CLOSED'];
+
+/**
+ * Builds period journal files for the accounting system from approved invoices
+ * (Dr WBS expense, Cr vendor AP) and reconciled disbursements (Dr vendor AP,
+ * Cr cash). Each invoice or disbursement is exported once; later exports for
+ * an overlapping period skip what was already sent.
+ */
+export class AccountingExportService {
+  constructor(private prisma: PrismaClient) {}
+
+  async listAccountMappings(projectId: number): Promise<AccountMapping[]> {
+    return this.prisma.accountMapping.findMany({
+      where: { projectId },
+      orderBy: [{ mappingType: 'asc' }, { sourceKey: 'asc' }],
+    });
+  }
+
+  /**
+   * Replace a project's chart-of-accounts mapping
+   */
+  async setAccountMappings(projectId: number, mappings: AccountMappingInput[], updatedBy: string): Promise<AccountMapping[]> {
+    for (const mapping of mappings) {
+      if (mapping.mappingType === 'DEFAULT' && !DEFAULT_ACCOUNTS.includes(mapping.sourceKey as DefaultAccount)) {
+        throw new Error(`Unknown default account ${mapping.sourceKey}; expected one of ${DEFAULT_ACCOUNTS.join(', ')}`);
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.accountMapping.deleteMany({ where: { projectId } });
+      await tx.accountMapping.createMany({
+        data: mappings.map(mapping => ({ projectId, ...mapping, updatedBy })),
+      });
+    });
+
+    logger.info(`Updated account mappings for project ${projectId}`, { projectId, count: mappings.length, updatedBy });
+
+    return this.listAccountMappings(projectId);
+  }
+
+  async createExport(request: AccountingExportRequest) {
+    const { projectId, format, periodStart, periodEnd } = request;
+    if (periodEnd < periodStart) {
+      throw new Error('Export period ends before it starts');
+    }
+
+    const candidates = await this.buildJournals(projectId, periodStart, periodEnd);
+    const exported = await this.prisma.accountingExportItem.findMany({
+      where: {
+        OR: [
+          { sourceType: 'INVOICE', sourceId: { in: candidates.filter(j => j.sourceType === 'INVOICE').map(j => j.sourceId) } },
+          { sourceType: 'DISBURSEMENT', sourceId: { in: candidates.filter(j => j.sourceType === 'DISBURSEMENT').map(j => j.sourceId) } },
+        ],
+      },
+      select: { sourceType: true, sourceId: true },
+    });
+    const alreadyExported = new Set(exported.map(item => `${item.sourceType}:${item.sourceId}`));
+    const journals = candidates.filter(journal => !alreadyExported.has(`${journal.sourceType}:${journal.sourceId}`));
+
+    if (journals.length === 0) {
+      throw new Error(
+        `No unexported entries for project ${projectId} between ${isoDate(periodStart)} and ${isoDate(periodEnd)}` +
+        (alreadyExported.size > 0 ? ` (${alreadyExported.size} already exported)` : '')
+      );
+    }
+
+    const rendered = renderAccountingExport(format, journals);
+    const fileName = `project-${projectId}-${isoDate(periodStart)}-${isoDate(periodEnd)}-${format.toLowerCase()}.${rendered.extension}`;
+
+    if (request.dryRun) {
+      return { export: null, fileName, ...rendered, journals, skippedCount: alreadyExported.size };
+    }
+
+    let accountingExport;
+    try {
+      accountingExport = await this.prisma.accountingExport.create({
+        data: {
+          projectId,
+          format,
+          periodStart,
+          periodEnd,
+          fileName,
+          content: rendered.content,
+          entryCount: journals.length,
+          exportedBy: request.exportedBy,
+          items: {
+            create: journals.map(journal => ({
+              sourceType: journal.sourceType,
+              sourceId: journal.sourceId,
+              journalId: journal.journalId,
+              amountCents: journal.lines.reduce((sum, line) => sum + line.debitCents, 0n),
+            })),
+          },
+        },
+      });
+    } catch (error) {
+      // Another export claimed some of these entries first
+      if ((error as any)?.code === 'P2002') {
+        throw new Error(`Entries for project ${projectId} in this period have already been exported; retry to export the remainder`);
+      }
+      throw error;
+    }
+
+    logger.info(`Exported ${journals.length} journals for project ${projectId}`, {
+      projectId,
+      exportId: accountingExport.id,
+      format,
+      skippedCount: alreadyExported.size,
+      exportedBy: request.exportedBy,
+    });
+
+    return { export: accountingExport, fileName, ...rendered, journals, skippedCount: alreadyExported.size };
+  }
+
+  async getExport(exportId: number) {
+    return this.prisma.accountingExport.findUnique({
+      where: { id: exportId },
+      include: { items: true },
+    });
+  }
+
+  async listExports(projectId: number, options: { limit?: number; offset?: number } = {}) {
+    const [exports, total] = await Promise.all([
+      this.prisma.accountingExport.findMany({
+        where: { projectId },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+        skip: options.offset ?? 0,
+      }),
+      this.prisma.accountingExport.count({ where: { projectId } }),
+    ]);
+    return { exports, total };
+  }
+
+  private async buildJournals(projectId: number, periodStart: Date, periodEnd: Date): Promise<ExportJournal[]> {
+    const [mappings, invoices, disbursements] = await Promise.all([
+      this.listAccountMappings(projectId),
+      this.prisma.invoice.findMany({
+        where: {
+          contract: { projectId },
+          status: { in: POSTED_INVOICE_STATUSES },
+          approvedAt: { gte: periodStart, lte: periodEnd },
+        },
+        include: {
+          vendor: true,
+          invoiceCoding: { include: { budgetLine: true } },
+        },
+        orderBy: { approvedAt: 'asc' },
+      }),
+      this.prisma.disbursement.findMany({
+        where: {
+          invoice: { contract: { projectId } },
+          status: 'RECONCILED',
+          reconciledDate: { gte: periodStart, lte: periodEnd },
+        },
+        include: {
+          invoice: { include: { vendor: true } },
+        },
+        orderBy: { reconciledDate: 'asc' },
+      }),
+    ]);
+
+    const accounts = new AccountResolver(projectId, mappings);
+    const journals: ExportJournal[] = [];
+
+    for (const invoice of invoices) {
+      if (invoice.invoiceCoding.length === 0) {
+        throw new Error(`Invoice ${invoice.invoiceNumber} has not been coded to WBS`);
+      }
+
+      const payable = accounts.payable(invoice.vendor);
+      const expenseLines: ExportLine[] = invoice.invoiceCoding.map(coding => ({
+        ...accounts.expense(coding.budgetLine.wbsCode, coding.accountCode),
+        debitCents: coding.amountCents,
+        creditCents: 0n,
+        description: coding.description ?? `${coding.budgetLine.wbsCode} ${coding.budgetLine.description ?? ''}`.trim(),
+      }));
+      const total = expenseLines.reduce((sum, line) => sum + line.debitCents, 0n);
+
+      journals.push({
+        journalId: `INV-${invoice.id}`,
+        sourceType: 'INVOICE',
+        sourceId: invoice.id,
+        date: invoice.approvedAt!,
+        reference: invoice.invoiceNumber,
+        memo: `Invoice ${invoice.invoiceNumber} from ${invoice.vendor.name}`,
+        lines: [
+          ...expenseLines,
+          { ...payable, debitCents: 0n, creditCents: total, description: `Invoice ${invoice.invoiceNumber}` },
+        ],
+      });
+    }
+
+    for (const disbursement of disbursements) {
+      const payable = accounts.payable(disbursement.invoice.vendor);
+      const cash = accounts.default('CASH');
+
+      journals.push({
+        journalId: `DISB-${disbursement.id}`,
+        sourceType: 'DISBURSEMENT',
+        sourceId: disbursement.id,
+        date: disbursement.reconciledDate!,
+        reference: disbursement.disbursementNumber,
+        memo: `Payment ${disbursement.disbursementNumber} for invoice ${disbursement.invoice.invoiceNumber}`,
+        lines: [
+          { ...payable, debitCents: disbursement.amountCents, creditCents: 0n, description: `Payment ${disbursement.disbursementNumber}` },
+          { ...cash, debitCents: 0n, creditCents: disbursement.amountCents, description: `Payment ${disbursement.disbursementNumber}` },
+        ],
+      });
+    }
+
+    accounts.assertComplete();
+    return journals;
+  }
+}
+
+/**
+ * Resolves GL accounts from a project's mapping, collecting every missing
+ * mapping so they can be reported together rather than one export at a time
+ */
+class AccountResolver {
+  private missing = new Set<string>();
+
+  constructor(private projectId: number, private mappings: AccountMapping[]) {}
+
+  // An account code entered while coding the invoice wins over the WBS mapping
+  expense(wbsCode: string, codedAccount?: string | null): Omit<ExportLine, 'debitCents' | 'creditCents' | 'description'> {
+    if (codedAccount) {
+      return { accountCode: codedAccount };
+    }
+    const mapping = this.find('WBS', wbsCode) ?? this.find('DEFAULT', 'EXPENSE');
+    if (!mapping) {
+      this.missing.add(`WBS ${wbsCode}`);
+    }
+    return this.toAccount(mapping);
+  }
+
+  payable(vendor: { id: number; name: string }): Omit<ExportLine, 'debitCents' | 'creditCents' | 'description'> {
+    const vendorMapping = this.find('VENDOR', vendor.id.toString());
+    const mapping = vendorMapping ?? this.find('DEFAULT', 'ACCOUNTS_PAYABLE');
+    if (!mapping) {
+      this.missing.add('DEFAULT ACCOUNTS_PAYABLE');
+    }
+    return { ...this.toAccount(mapping), subledger: vendorMapping?.subledger ?? vendor.name };
+  }
+
+  default(account: DefaultAccount): Omit<ExportLine, 'debitCents' | 'creditCents' | 'description'> {
+    const mapping = this.find('DEFAULT', account);
+    if (!mapping) {
+      this.missing.add(`DEFAULT ${account}`);
+    }
+    return this.toAccount(mapping);
+  }
+
+  assertComplete(): void {
+    if (this.missing.size > 0) {
+      throw new Error(`Missing account mappings for project ${this.projectId}: ${[...this.missing].join(', ')}`);
+    }
+  }
+
+  private find(mappingType: AccountMappingType, sourceKey: string): AccountMapping | undefined {
+    return this.mappings.find(m => m.mappingType === mappingType && m.sourceKey === sourceKey);
+  }
+
+  private toAccount(mapping: AccountMapping | undefined) {
+    return { accountCode: mapping?.accountCode ?? '', accountName: mapping?.accountName ?? undefined };
+  }
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,276 @@
+// apps/api/src/lib/api-tokens.ts
+import { FastifyInstance } from 'fastify';
+import { createHash, randomBytes } from 'crypto';
+import type { ApiToken } from '@orenna/db';
+import { AuditTrailService } from './audit-trail.js';
+import type { Permission } from './rbac.js';
+import { getEnv } from '../types/env.js';
+
+/** Scopes a token can carry. `admin` implies every other scope. */
+export const API_SCOPES = {
+  'read': 'Read projects, lift tokens, verification results and analytics',
+  'write': 'Create and update projects and lift tokens',
+  'verify': 'Submit evidence and run verifications',
+  'mint:request': 'Create and submit mint requests',
+  'mint:approve': 'Approve mint requests and issue lift tokens',
+  'finance:read': 'Read payments, invoices and disbursements',
+  'finance:pay': 'Initiate payments and disbursements',
+  'marketplace:trade': 'Create listings and fill orders on the marketplace',
+  'admin': 'Every scope, including platform administration endpoints'
+} as const;
+
+export type ApiScope = keyof typeof API_SCOPES;
+
+/**
+ * RBAC permission behind each privileged scope. Sessions carry no scopes and
+ * tokens can outlive their owner's roles, so the owning wallet must hold the
+ * permission both when a token is created and whenever the scope is used.
+ * Other scopes are left to the route's own checks.
+ */
+export const SCOPE_PERMISSIONS: Partial<Record<ApiScope, Permission>> = {
+  'mint:approve': 'canApproveMints',
+  'finance:pay': 'canReleasePayments',
+  'admin': 'canConfigureGlobalSettings'
+};
+export type ApiTokenKind = 'PERSONAL' | 'SERVICE';
+
+const TOKEN_PREFIXES: Record<ApiTokenKind, string> = {
+  PERSONAL: 'orn_pat_',
+  SERVICE: 'orn_sk_'
+};
+
+// Characters of the token kept in clear for listings, after the kind prefix
+const DISPLAY_PREFIX_LENGTH = 4;
+
+// lastUsedAt is written at most this often per token
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface ApiTokenServiceOptions {
+  audit?: Pick<AuditTrailService, 'recordEvent'>;
+  defaultTtlDays?: number;
+  maxTtlDays?: number;
+}
+
+export interface MintApiTokenInput {
+  userId: number;
+  kind: ApiTokenKind;
+  name: string;
+  scopes: ApiScope[];
+  projectIds?: number[];
+  /** Days until expiry; null only for service keys that never expire */
+  expiresInDays?: number | null;
+  createdBy: string;
+}
+
+/** Token row without its hash, safe to return to the owner */
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'>;
+
+export type ApiTokenAuthResult =
+  | { valid: true; token: ApiTokenSummary; user: { id: number; address: string } }
+  | { valid: false; reason: 'malformed' | 'not_found' | 'revoked' | 'expired' };
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** Bearer values in API token format, as opposed to session JWTs */
+export function isApiToken(value: string): boolean {
+  return Object.values(TOKEN_PREFIXES).some(prefix => value.startsWith(prefix));
+}
+
+export function isApiScope(value: string): value is ApiScope {
+  return Object.prototype.hasOwnProperty.call(API_SCOPES, value);
+}
+
+/**
+ * Required scopes the token does not grant. Empty when the token satisfies
+ * all of them.
+ */
+export function missingScopes(granted: readonly string[], required: readonly string[]): string[] {
+  if (granted.includes('admin')) {
+    return [];
+  }
+  return required.filter(scope => !granted.includes(scope));
+}
+
+/** RBAC permissions the wallet needs to hold for the scopes */
+export function scopePermissionsFor(scopes: readonly ApiScope[]): Permission[] {
+  return [...new Set(scopes.flatMap(scope => SCOPE_PERMISSIONS[scope] ?? []))];
+}
+
+/**
+ * Whether a token may act on the project. Unrestricted tokens (no project ids)
+ * may act anywhere; restricted tokens only on a project the route resolved.
+ */
+export function allowsProject(token: Pick<ApiToken, 'projectIds'>, projectId: number | undefined): boolean {
+  if (token.projectIds.length === 0) {
+    return true;
+  }
+  return projectId !== undefined && token.projectIds.includes(projectId);
+}
+
+/**
+ * Personal access tokens and service API keys. Tokens are shown once at
+ * creation; only their SHA-256 is stored, so a lost token must be revoked
+ * and replaced.
+ */
+export class ApiTokenService {
+  private audit: NonNullable<ApiTokenServiceOptions['audit']>;
+  private defaultTtlDays: number;
+  private maxTtlDays: number;
+
+  constructor(private app: FastifyInstance, options: ApiTokenServiceOptions = {}) {
+    const env = getEnv();
+    this.audit = options.audit ?? new AuditTrailService(app);
+    this.defaultTtlDays = options.defaultTtlDays ?? env.API_TOKEN_DEFAULT_TTL_DAYS;
+    this.maxTtlDays = options.maxTtlDays ?? env.API_TOKEN_MAX_TTL_DAYS;
+  }
+
+  /**
+   * Create a token and return its plaintext value, which is not recoverable
+   * afterwards
+   */
+  async mintToken(input: MintApiTokenInput): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const scopes = [...new Set(input.scopes)];
+    if (scopes.length === 0) {
+      throw new Error('At least one scope is required');
+    }
+    const unknown = scopes.filter(scope => !isApiScope(scope));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown scopes: ${unknown.join(', ')}`);
+    }
+
+    let expiresInDays = input.expiresInDays === undefined ? this.defaultTtlDays : input.expiresInDays;
+    if (expiresInDays === null && input.kind !== 'SERVICE') {
+      throw new Error('Personal access tokens must expire');
+    }
+    if (expiresInDays !== null) {
+      if (!(expiresInDays > 0)) {
+        throw new Error('Token expiry must be in the future');
+      }
+      if (expiresInDays > this.maxTtlDays) {
+        throw new Error(`Token expiry cannot exceed ${this.maxTtlDays} days`);
+      }
+    }
+
+    const prefix = TOKEN_PREFIXES[input.kind];
+    const token = prefix + randomBytes(32).toString('base64url');
+
+    const created = await this.app.prisma.apiToken.create({
+      data: {
+        userId: input.userId,
+        kind: input.kind,
+        name: input.name,
+        prefix: token.slice(0, prefix.length + DISPLAY_PREFIX_LENGTH),
+        tokenHash: hashApiToken(token),
+        scopes,
+        projectIds: [...new Set(input.projectIds ?? [])],
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      }
+    });
+
+    await this.audit.recordEvent({
+      eventType: 'API_TOKEN_CREATED',
+      action: 'CREATE',
+      entityType: 'ApiToken',
+      entityId: String(created.id),
+      actor: input.createdBy,
+      source: 'api-tokens',
+      details: {
+        kind: created.kind,
+        name: created.name,
+        prefix: created.prefix,
+        scopes: created.scopes,
+        projectIds: created.projectIds,
+        expiresAt: created.expiresAt
+      }
+    });
+
+    this.app.log.info({ tokenId: created.id, userId: input.userId, kind: input.kind, scopes }, 'API token created');
+    return { token, apiToken: toSummary(created) };
+  }
+
+  /**
+   * Resolve a bearer token to its owner. Revoked and expired tokens are
+   * rejected; lastUsedAt is refreshed at most once a minute.
+   */
+  async authenticate(token: string, clientIp?: string): Promise<ApiTokenAuthResult> {
+    if (!isApiToken(token)) {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    const record = await this.app.prisma.apiToken.findUnique({
+      where: { tokenHash: hashApiToken(token) },
+      include: { user: { select: { id: true, address: true } } }
+    });
+
+    if (!record) {
+      return { valid: false, reason: 'not_found' };
+    }
+
+    if (record.revokedAt) {
+      return { valid: false, reason: 'revoked' };
+    }
+
+    const now = new Date();
+    if (record.expiresAt && record.expiresAt <= now) {
+      return { valid: false, reason: 'expired' };
+    }
+
+    const lastUsedAt = record.lastUsedAt?.getTime() ?? 0;
+    if (now.getTime() - lastUsedAt > TOUCH_INTERVAL_MS) {
+      await this.app.prisma.apiToken.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now, lastUsedIp: clientIp }
+      }).catch((error) => this.app.log.warn({ error, tokenId: record.id }, 'Failed to record API token use'));
+    }
+
+    const { user, ...apiToken } = record;
+    return { valid: true, token: toSummary(apiToken), user };
+  }
+
+  async listTokens(userId: number, options: { includeRevoked?: boolean } = {}): Promise<ApiTokenSummary[]> {
+    const tokens = await this.app.prisma.apiToken.findMany({
+      where: {
+        userId,
+        ...(!options.includeRevoked && { revokedAt: null })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return tokens.map(toSummary);
+  }
+
+  /**
+   * Revoke a token owned by the user. Returns false if the token does not
+   * exist, belongs to someone else or is already revoked.
+   */
+  async revokeToken(userId: number, tokenId: number, revokedBy: string): Promise<boolean> {
+    const result = await this.app.prisma.apiToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedBy: userId }
+    });
+
+    if (result.count !== 1) {
+      return false;
+    }
+
+    await this.audit.recordEvent({
+      eventType: 'API_TOKEN_REVOKED',
+      action: 'REVOKE',
+      entityType: 'ApiToken',
+      entityId: String(tokenId),
+      actor: revokedBy,
+      source: 'api-tokens',
+      details: { userId }
+    });
+
+    this.app.log.info({ tokenId, userId }, 'API token revoked');
+    return true;
+  }
+}
+
+function toSummary(token: ApiToken): ApiTokenSummary {
+  const { tokenHash: _tokenHash, ...summary } = token;
+  return summary;
+}
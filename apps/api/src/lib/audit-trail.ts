@@ -1,5 +1,11 @@
 import { FastifyInstance } from 'fastify';
 import crypto from 'crypto';
+import type { AuditAnchorBatch } from '@orenna/db';
+import { Hash } from 'viem';
+import { IPFSClient, createIPFSClient } from './ipfs-client.js';
+import { BlockchainService, blockchainService } from './blockchain.js';
+import { buildMerkleTree, getMerkleProof, verifyMerkleProof, MerkleProofStep } from './merkle.js';
+import { getEnv } from '../types/env.js';
 
 export interface AuditEvent {
   id: string;
@@ -8,6 +14,7 @@ export interface AuditEvent {
   action: string;
   entityType: string;
   entityId: string;
+  sequence?: number;
   actor: string;
   source: string;
   details: Record<string, any>;
@@ -16,8 +23,46 @@ export interface AuditEvent {
   previousEventHash?: string;
   eventHash: string;
   signature?: string;
+  anchor?: AuditEventAnchorProof;
 }
 
+/**
+ * Inclusion proof tying an event hash to the Merkle root of its anchor batch.
+ * The root is pinned to IPFS (with the full leaf list) and written on-chain.
+ */
+export interface AuditEventAnchorProof {
+  batchId: number;
+  status: string;
+  merkleRoot: string;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+  ipfsCid?: string;
+  chainId?: number;
+  txHash?: string;
+  anchoredAt?: Date;
+}
+
+/** Document pinned to IPFS for each anchor batch */
+export interface AuditAnchorManifest {
+  version: 1;
+  batchId: number;
+  merkleRoot: string;
+  leaves: Array<{ eventId: string; eventHash: string }>;
+  createdAt: string;
+}
+
+export interface AuditTrailOptions {
+  ipfsClient?: IPFSClient;
+  blockchain?: Pick<BlockchainService, 'anchorMerkleRoot' | 'getAnchoredMerkleRoot' | 'waitForTransaction'>;
+  anchorChainId?: number;
+  anchorBatchSize?: number;
+  anchorIntervalMs?: number;
+}
+
+// Attempts to append to an entity's chain when a concurrent writer takes the
+// same sequence number
+const MAX_APPEND_ATTEMPTS = 5;
+
 export interface ImmutableAuditChain {
   chainId: string;
   genesisHash: string;
@@ -58,15 +103,44 @@ export interface AuditTrailExport {
 }
 
 export class AuditTrailService {
-  constructor(private app: FastifyInstance) {}
+  private ipfsClient: IPFSClient;
+  private blockchain: NonNullable<AuditTrailOptions['blockchain']>;
+  private anchorChainId: number;
+  private anchorBatchSize: number;
+  private anchorIntervalMs: number;
+  private anchorIntervalId?: NodeJS.Timeout;
+  private anchoring = false;
+
+  constructor(private app: FastifyInstance, options: AuditTrailOptions = {}) {
+    const env = getEnv();
+    this.ipfsClient = options.ipfsClient ?? createIPFSClient(app.log);
+    this.blockchain = options.blockchain ?? blockchainService;
+    this.anchorChainId = options.anchorChainId ?? env.AUDIT_ANCHOR_CHAIN_ID;
+    this.anchorBatchSize = options.anchorBatchSize ?? env.AUDIT_ANCHOR_BATCH_SIZE;
+    this.anchorIntervalMs = options.anchorIntervalMs ?? env.AUDIT_ANCHOR_INTERVAL_MS;
+  }
 
-  async recordEvent(event: Omit<AuditEvent, 'id' | 'timestamp' | 'eventHash' | 'previousEventHash'>): Promise<AuditEvent> {
+  async recordEvent(event: Omit<AuditEvent, 'id' | 'timestamp' | 'eventHash' | 'previousEventHash' | 'sequence'>): Promise<AuditEvent> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.appendEvent(event);
+      } catch (error: any) {
+        // Another writer extended the chain first; relink to the new head
+        if (error?.code !== 'P2002' || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async appendEvent(event: Omit<AuditEvent, 'id' | 'timestamp' | 'eventHash' | 'previousEventHash' | 'sequence'>): Promise<AuditEvent> {
     const eventId = `AE-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`;
     const timestamp = new Date();
 
     // Get the previous event hash for chain linking
     const previousEvent = await this.getLatestEvent(event.entityType, event.entityId);
     const previousEventHash = previousEvent?.eventHash || null;
+    const sequence = previousEvent ? previousEvent.sequence! + 1 : 0;
 
     // Create event hash for integrity
     const eventData = {
@@ -87,6 +161,7 @@ export class AuditTrailService {
     const auditEvent: AuditEvent = {
       ...eventData,
       timestamp,
+      sequence,
       eventHash,
       previousEventHash: previousEventHash || undefined,
       blockchainTxHash: event.blockchainTxHash,
@@ -94,31 +169,10 @@ export class AuditTrailService {
       signature: event.signature
     };
 
-    // Store in database
+    // Store in database and queue for the next Merkle batch; IPFS pinning and
+    // on-chain anchoring happen per batch in processAnchorQueue
     await this.storeAuditEvent(auditEvent);
 
-    // Backup to IPFS for immutable storage
-    if (this.shouldBackupToIPFS(event.eventType)) {
-      try {
-        const ipfsHash = await this.backupEventToIPFS(auditEvent);
-        auditEvent.ipfsHash = ipfsHash;
-        await this.updateEventIPFSHash(eventId, ipfsHash);
-      } catch (error) {
-        this.app.log.warn({ eventId, error }, 'Failed to backup event to IPFS');
-      }
-    }
-
-    // Anchor to blockchain for high-priority events
-    if (this.shouldAnchorToBlockchain(event.eventType)) {
-      try {
-        const txHash = await this.anchorEventToBlockchain(auditEvent);
-        auditEvent.blockchainTxHash = txHash;
-        await this.updateEventBlockchainHash(eventId, txHash);
-      } catch (error) {
-        this.app.log.warn({ eventId, error }, 'Failed to anchor event to blockchain');
-      }
-    }
-
     return auditEvent;
   }
 
@@ -194,7 +248,7 @@ export class AuditTrailService {
     };
 
     // Verify chain linkage if this isn't the genesis event
-    if (event.previousEventHash) {
+    if (event.sequence || event.previousEventHash) {
       const previousEvent = await this.getPreviousEvent(event);
       if (!previousEvent) {
         issues.push('Previous event in chain not found');
@@ -207,31 +261,49 @@ export class AuditTrailService {
       };
     }
 
-    // Verify IPFS backup if exists
-    if (event.ipfsHash) {
-      try {
-        const ipfsValid = await this.verifyIPFSBackup(event);
-        if (!ipfsValid) {
-          issues.push('IPFS backup verification failed');
+    // Verify Merkle inclusion in the anchor batch once the event has been batched
+    const anchor = event.anchor;
+    if (!anchor) {
+      verificationDetails.merkleInclusion = { status: 'PENDING' };
+    } else {
+      const included = verifyMerkleProof(calculatedHash, anchor.proof, anchor.merkleRoot);
+      if (!included) {
+        issues.push('Merkle inclusion proof does not match the batch root');
+      }
+      verificationDetails.merkleInclusion = {
+        batchId: anchor.batchId,
+        merkleRoot: anchor.merkleRoot,
+        leafIndex: anchor.leafIndex,
+        proof: anchor.proof,
+        valid: included
+      };
+
+      // Verify the pinned batch manifest commits to the same root and event
+      if (anchor.ipfsCid) {
+        try {
+          const ipfsValid = await this.verifyIPFSBackup(event, anchor);
+          if (!ipfsValid) {
+            issues.push('IPFS backup verification failed');
+          }
+          verificationDetails.ipfsBackup = { cid: anchor.ipfsCid, valid: ipfsValid };
+        } catch (error) {
+          issues.push('Unable to verify IPFS backup');
+          verificationDetails.ipfsBackup = { cid: anchor.ipfsCid, error: (error as Error).message };
         }
-        verificationDetails.ipfsBackup = { valid: ipfsValid };
-      } catch (error) {
-        issues.push('Unable to verify IPFS backup');
-        verificationDetails.ipfsBackup = { error: (error as Error).message };
       }
-    }
 
-    // Verify blockchain anchor if exists
-    if (event.blockchainTxHash) {
-      try {
-        const blockchainValid = await this.verifyBlockchainAnchor(event);
-        if (!blockchainValid) {
-          issues.push('Blockchain anchor verification failed');
+      // Verify the batch root was written on-chain
+      if (anchor.txHash && anchor.chainId) {
+        try {
+          const blockchainValid = await this.verifyBlockchainAnchor(anchor);
+          if (!blockchainValid) {
+            issues.push('Blockchain anchor verification failed');
+          }
+          verificationDetails.blockchainAnchor = { chainId: anchor.chainId, txHash: anchor.txHash, valid: blockchainValid };
+        } catch (error) {
+          issues.push('Unable to verify blockchain anchor');
+          verificationDetails.blockchainAnchor = { chainId: anchor.chainId, txHash: anchor.txHash, error: (error as Error).message };
         }
-        verificationDetails.blockchainAnchor = { valid: blockchainValid };
-      } catch (error) {
-        issues.push('Unable to verify blockchain anchor');
-        verificationDetails.blockchainAnchor = { error: (error as Error).message };
       }
     }
 
@@ -248,6 +320,7 @@ export class AuditTrailService {
     eventHashes: string[];
     blockchainAnchors: string[];
     ipfsBackups: string[];
+    inclusionProofs: Array<{ eventId: string; eventHash: string; valid: boolean } & Partial<AuditEventAnchorProof>>;
     generatedAt: string;
   }> {
     const events = await this.queryAuditEvents({
@@ -258,16 +331,25 @@ export class AuditTrailService {
 
     // Generate Merkle tree of event hashes
     const eventHashes = events.map(e => e.eventHash);
-    const merkleRoot = this.calculateMerkleRoot(eventHashes);
+    const merkleRoot = eventHashes.length > 0 ? buildMerkleTree(eventHashes).root : '';
+
+    // Each anchored event carries its own proof against its batch root, which
+    // can be checked against the IPFS manifest and the anchor transaction
+    const inclusionProofs = events.map(event => ({
+      eventId: event.id,
+      eventHash: event.eventHash,
+      ...event.anchor,
+      valid: event.anchor ? verifyMerkleProof(event.eventHash, event.anchor.proof, event.anchor.merkleRoot) : false
+    }));
 
     // Collect blockchain anchors and IPFS backups
-    const blockchainAnchors = events
+    const blockchainAnchors = [...new Set(events
       .filter(e => e.blockchainTxHash)
-      .map(e => e.blockchainTxHash!);
+      .map(e => e.blockchainTxHash!))];
 
-    const ipfsBackups = events
+    const ipfsBackups = [...new Set(events
       .filter(e => e.ipfsHash)
-      .map(e => e.ipfsHash!);
+      .map(e => e.ipfsHash!))];
 
     // Generate comprehensive chain proof
     const chainProof = crypto
@@ -290,10 +372,195 @@ export class AuditTrailService {
       eventHashes,
       blockchainAnchors,
       ipfsBackups,
+      inclusionProofs,
       generatedAt: new Date().toISOString()
     };
   }
 
+  /**
+   * Seal queued events into a new Merkle batch, then pin and anchor it.
+   * Batches left incomplete by an earlier failure are retried first.
+   */
+  async processAnchorQueue(): Promise<AuditAnchorBatch[]> {
+    const staleBefore = new Date(Date.now() - this.anchorIntervalMs);
+    const incomplete = await this.app.prisma.auditAnchorBatch.findMany({
+      where: { status: { not: 'ANCHORED' }, updatedAt: { lt: staleBefore } },
+      orderBy: { id: 'asc' }
+    });
+
+    const processed: AuditAnchorBatch[] = [];
+    for (const batch of incomplete) {
+      // Another instance may have picked the batch up since we read it
+      const { count } = await this.app.prisma.auditAnchorBatch.updateMany({
+        where: { id: batch.id, updatedAt: batch.updatedAt },
+        data: { error: null }
+      });
+      if (count === 0) continue;
+
+      const sealed = batch.merkleRoot ? batch : await this.sealAnchorBatch(batch.id);
+      if (sealed) {
+        processed.push(await this.publishAnchorBatch(sealed));
+      }
+    }
+
+    const batch = await this.createAnchorBatch();
+    if (batch) {
+      processed.push(await this.publishAnchorBatch(batch));
+    }
+
+    return processed;
+  }
+
+  startPeriodicAnchoring(intervalMs: number = this.anchorIntervalMs): void {
+    this.stopPeriodicAnchoring();
+
+    this.anchorIntervalId = setInterval(async () => {
+      if (this.anchoring) return;
+      this.anchoring = true;
+      try {
+        await this.processAnchorQueue();
+      } catch (error) {
+        this.app.log.error({ error }, 'Audit anchoring run failed');
+      } finally {
+        this.anchoring = false;
+      }
+    }, intervalMs);
+  }
+
+  stopPeriodicAnchoring(): void {
+    if (this.anchorIntervalId) {
+      clearInterval(this.anchorIntervalId);
+      this.anchorIntervalId = undefined;
+    }
+  }
+
+  private async createAnchorBatch(): Promise<AuditAnchorBatch | null> {
+    const queued = await this.app.prisma.auditEventAnchor.findMany({
+      where: { batchId: null },
+      orderBy: { id: 'asc' },
+      take: this.anchorBatchSize,
+      select: { id: true }
+    });
+    if (queued.length === 0) return null;
+
+    const batch = await this.app.prisma.auditAnchorBatch.create({ data: {} });
+
+    // Claim only rows no concurrent run has taken
+    await this.app.prisma.auditEventAnchor.updateMany({
+      where: { id: { in: queued.map(row => row.id) }, batchId: null },
+      data: { batchId: batch.id }
+    });
+
+    return this.sealAnchorBatch(batch.id);
+  }
+
+  /** Build the Merkle tree over a batch's events and store each inclusion proof */
+  private async sealAnchorBatch(batchId: number): Promise<AuditAnchorBatch | null> {
+    const leaves = await this.app.prisma.auditEventAnchor.findMany({
+      where: { batchId },
+      orderBy: { id: 'asc' }
+    });
+
+    if (leaves.length === 0) {
+      await this.app.prisma.auditAnchorBatch.delete({ where: { id: batchId } });
+      return null;
+    }
+
+    const tree = buildMerkleTree(leaves.map(leaf => leaf.eventHash));
+
+    const [batch] = await this.app.prisma.$transaction([
+      this.app.prisma.auditAnchorBatch.update({
+        where: { id: batchId },
+        data: { merkleRoot: tree.root, leafCount: leaves.length }
+      }),
+      ...leaves.map((leaf, leafIndex) => this.app.prisma.auditEventAnchor.update({
+        where: { id: leaf.id },
+        data: { leafIndex, merkleProof: getMerkleProof(tree, leafIndex) as any }
+      }))
+    ]);
+
+    return batch as AuditAnchorBatch;
+  }
+
+  /** Pin the batch manifest to IPFS and anchor its root on-chain */
+  private async publishAnchorBatch(batch: AuditAnchorBatch): Promise<AuditAnchorBatch> {
+    const prisma = this.app.prisma;
+    let current = batch;
+
+    try {
+      if (!current.ipfsCid) {
+        const leaves = await prisma.auditEventAnchor.findMany({
+          where: { batchId: batch.id },
+          orderBy: { leafIndex: 'asc' },
+          select: { eventId: true, eventHash: true }
+        });
+        const manifest: AuditAnchorManifest = {
+          version: 1,
+          batchId: batch.id,
+          merkleRoot: batch.merkleRoot!,
+          leaves,
+          createdAt: batch.createdAt.toISOString()
+        };
+
+        const upload = await this.ipfsClient.uploadEvidenceFile(
+          Buffer.from(JSON.stringify(manifest)),
+          `audit-batch-${batch.id}.json`
+        );
+        current = await prisma.auditAnchorBatch.update({
+          where: { id: batch.id },
+          data: { ipfsCid: upload.cid, status: 'PINNED' }
+        });
+      }
+
+      // Reuse a transaction sent before a crash unless it is known to have failed
+      let txHash = current.txHash as Hash | null;
+      const chainId = current.chainId ?? this.anchorChainId;
+      if (txHash) {
+        const receipt = await this.blockchain.waitForTransaction(txHash, chainId);
+        if (receipt.status !== 'success') txHash = null;
+      }
+
+      if (!txHash) {
+        txHash = await this.blockchain.anchorMerkleRoot(current.merkleRoot!, chainId);
+        current = await prisma.auditAnchorBatch.update({
+          where: { id: batch.id },
+          data: { txHash, chainId }
+        });
+      }
+
+      const receipt = await this.blockchain.waitForTransaction(txHash, chainId);
+      if (receipt.status !== 'success') {
+        throw new Error(`Anchor transaction ${txHash} reverted`);
+      }
+
+      current = await prisma.auditAnchorBatch.update({
+        where: { id: batch.id },
+        data: {
+          status: 'ANCHORED',
+          blockNumber: receipt.blockNumber,
+          anchoredAt: new Date(),
+          error: null
+        }
+      });
+
+      this.app.log.info({
+        batchId: batch.id,
+        merkleRoot: current.merkleRoot,
+        leafCount: current.leafCount,
+        ipfsCid: current.ipfsCid,
+        txHash
+      }, 'Anchored audit event batch');
+    } catch (error) {
+      this.app.log.warn({ batchId: batch.id, error }, 'Failed to publish audit anchor batch');
+      current = await prisma.auditAnchorBatch.update({
+        where: { id: batch.id },
+        data: { error: (error as Error).message }
+      });
+    }
+
+    return current;
+  }
+
   async detectAnomalies(query: AuditTrailQuery): Promise<{
     anomalies: Array<{
       type: string;
@@ -397,73 +664,37 @@ export class AuditTrailService {
   private async getLatestEvent(entityType: string, entityId: string): Promise<AuditEvent | null> {
     const result = await this.app.prisma.auditEvent.findFirst({
       where: { entityType, entityId },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { sequence: 'desc' }
     });
 
     return result ? this.mapDatabaseEventToAuditEvent(result) : null;
   }
 
   private async storeAuditEvent(event: AuditEvent): Promise<void> {
-    await this.app.prisma.auditEvent.create({
-      data: {
-        eventType: event.eventType,
-        entityType: event.entityType,
-        entityId: event.entityId,
-        userId: event.actor?.userId || null,
-        userAddress: event.actor?.address || null,
-        details: event.details,
-        ipAddress: event.source?.ipAddress || null,
-        userAgent: event.source?.userAgent || null,
-        sessionId: event.source?.sessionId || null
-      }
-    });
-  }
-
-  private shouldBackupToIPFS(eventType: string): boolean {
-    const criticalEvents = [
-      'VERIFICATION_APPROVED',
-      'VERIFICATION_REJECTED',
-      'LIFT_UNIT_ISSUED',
-      'LIFT_UNIT_RETIRED',
-      'PAYMENT_PROCESSED'
-    ];
-    return criticalEvents.includes(eventType);
-  }
-
-  private shouldAnchorToBlockchain(eventType: string): boolean {
-    const blockchainEvents = [
-      'VERIFICATION_APPROVED',
-      'LIFT_UNIT_ISSUED',
-      'LIFT_UNIT_RETIRED'
-    ];
-    return blockchainEvents.includes(eventType);
-  }
-
-  private async backupEventToIPFS(event: AuditEvent): Promise<string> {
-    // This would integrate with IPFS client
-    const eventData = JSON.stringify(event);
-    // Simulated IPFS hash
-    return `Qm${crypto.randomBytes(32).toString('hex')}`;
-  }
-
-  private async anchorEventToBlockchain(event: AuditEvent): Promise<string> {
-    // This would integrate with blockchain service
-    // Simulated transaction hash
-    return `0x${crypto.randomBytes(32).toString('hex')}`;
-  }
-
-  private async updateEventIPFSHash(eventId: string, ipfsHash: string): Promise<void> {
-    await this.app.prisma.auditEvent.update({
-      where: { eventId },
-      data: { ipfsHash }
-    });
-  }
-
-  private async updateEventBlockchainHash(eventId: string, blockchainTxHash: string): Promise<void> {
-    await this.app.prisma.auditEvent.update({
-      where: { eventId },
-      data: { blockchainTxHash }
-    });
+    await this.app.prisma.$transaction([
+      this.app.prisma.auditEvent.create({
+        data: {
+          eventId: event.id,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          sequence: event.sequence!,
+          eventType: event.eventType,
+          action: event.action,
+          actor: event.actor,
+          source: event.source,
+          details: event.details,
+          eventHash: event.eventHash,
+          previousEventHash: event.previousEventHash ?? null,
+          signature: event.signature,
+          blockchainTxHash: event.blockchainTxHash,
+          ipfsHash: event.ipfsHash,
+          timestamp: event.timestamp
+        }
+      }),
+      this.app.prisma.auditEventAnchor.create({
+        data: { eventId: event.id, eventHash: event.eventHash }
+      })
+    ]);
   }
 
   private async queryAuditEvents(query: AuditTrailQuery): Promise<AuditEvent[]> {
@@ -481,40 +712,89 @@ export class AuditTrailService {
 
     const events = await this.app.prisma.auditEvent.findMany({
       where,
-      orderBy: { timestamp: 'asc' }
+      orderBy: [{ timestamp: 'asc' }, { sequence: 'asc' }]
     });
 
-    return events.map(this.mapDatabaseEventToAuditEvent);
+    return this.attachAnchors(events.map(this.mapDatabaseEventToAuditEvent));
   }
 
   private async getAuditEvent(eventId: string): Promise<AuditEvent | null> {
     const result = await this.app.prisma.auditEvent.findUnique({
       where: { eventId }
     });
+    if (!result) return null;
 
-    return result ? this.mapDatabaseEventToAuditEvent(result) : null;
+    const [event] = await this.attachAnchors([this.mapDatabaseEventToAuditEvent(result)]);
+    return event ?? null;
+  }
+
+  private async attachAnchors(events: AuditEvent[]): Promise<AuditEvent[]> {
+    if (events.length === 0) return events;
+
+    const anchors = await this.app.prisma.auditEventAnchor.findMany({
+      where: { eventId: { in: events.map(e => e.id) }, batchId: { not: null } },
+      include: { batch: true }
+    });
+    const byEventId = new Map(anchors.map(anchor => [anchor.eventId, anchor]));
+
+    return events.map(event => {
+      const row = byEventId.get(event.id);
+      if (!row?.batch?.merkleRoot || row.leafIndex === null || !row.merkleProof) {
+        return event;
+      }
+
+      const anchor: AuditEventAnchorProof = {
+        batchId: row.batch.id,
+        status: row.batch.status,
+        merkleRoot: row.batch.merkleRoot,
+        leafIndex: row.leafIndex,
+        proof: row.merkleProof as unknown as MerkleProofStep[],
+        ipfsCid: row.batch.ipfsCid ?? undefined,
+        chainId: row.batch.chainId ?? undefined,
+        txHash: row.batch.status === 'ANCHORED' ? row.batch.txHash ?? undefined : undefined,
+        anchoredAt: row.batch.anchoredAt ?? undefined
+      };
+
+      return {
+        ...event,
+        anchor,
+        ipfsHash: anchor.ipfsCid ?? event.ipfsHash,
+        blockchainTxHash: anchor.txHash ?? event.blockchainTxHash
+      };
+    });
   }
 
   private async getPreviousEvent(event: AuditEvent): Promise<AuditEvent | null> {
-    if (!event.previousEventHash) return null;
+    if (!event.sequence) return null;
 
-    const result = await this.app.prisma.auditEvent.findFirst({
-      where: { eventHash: event.previousEventHash }
+    const result = await this.app.prisma.auditEvent.findUnique({
+      where: {
+        entityType_entityId_sequence: {
+          entityType: event.entityType,
+          entityId: event.entityId,
+          sequence: event.sequence - 1
+        }
+      }
     });
 
     return result ? this.mapDatabaseEventToAuditEvent(result) : null;
   }
 
-  private async verifyIPFSBackup(event: AuditEvent): Promise<boolean> {
-    // This would verify the event data against IPFS backup
-    // Simulated verification
-    return true;
+  private async verifyIPFSBackup(event: AuditEvent, anchor: AuditEventAnchorProof): Promise<boolean> {
+    const { content } = await this.ipfsClient.retrieveEvidenceFile(anchor.ipfsCid!);
+    const manifest = JSON.parse(content.toString('utf8')) as AuditAnchorManifest;
+
+    // The pinned leaves must rebuild the same root and list this event at its proof index
+    const leaf = manifest.leaves?.[anchor.leafIndex];
+    return manifest.merkleRoot === anchor.merkleRoot &&
+      leaf?.eventId === event.id &&
+      leaf.eventHash === event.eventHash &&
+      buildMerkleTree(manifest.leaves.map(l => l.eventHash)).root === anchor.merkleRoot;
   }
 
-  private async verifyBlockchainAnchor(event: AuditEvent): Promise<boolean> {
-    // This would verify the event hash is anchored on blockchain
-    // Simulated verification
-    return true;
+  private async verifyBlockchainAnchor(anchor: AuditEventAnchorProof): Promise<boolean> {
+    const anchored = await this.blockchain.getAnchoredMerkleRoot(anchor.txHash! as Hash, anchor.chainId!);
+    return anchored?.merkleRoot === anchor.merkleRoot;
   }
 
   private async calculateChainHash(events: AuditEvent[]): Promise<string> {
@@ -535,6 +815,7 @@ export class AuditTrailService {
     let eventHashesValid = true;
     let blockchainAnchored = false;
     let ipfsBackupExists = false;
+    const lastEventByChain = new Map<string, AuditEvent>();
 
     for (let i = 0; i < events.length; i++) {
       const event = events[i];
@@ -558,13 +839,17 @@ export class AuditTrailService {
         eventHashesValid = false;
       }
 
-      // Verify chain linkage
-      if (i > 0) {
-        const previousEvent = events[i - 1];
-        if (previousEvent && event.previousEventHash !== previousEvent.eventHash) {
-          chainValid = false;
-        }
+      // Verify chain linkage within each entity's chain; filtered queries may
+      // skip events, so only adjacent sequence numbers are compared
+      const chainKey = `${event.entityType}:${event.entityId}`;
+      const previousEvent = lastEventByChain.get(chainKey);
+      if (event.sequence === 0 && event.previousEventHash) {
+        chainValid = false;
+      } else if (previousEvent && previousEvent.sequence === event.sequence! - 1 &&
+                 event.previousEventHash !== previousEvent.eventHash) {
+        chainValid = false;
       }
+      lastEventByChain.set(chainKey, event);
 
       if (event.blockchainTxHash) blockchainAnchored = true;
       if (event.ipfsHash) ipfsBackupExists = true;
@@ -578,21 +863,6 @@ export class AuditTrailService {
     };
   }
 
-  private calculateMerkleRoot(hashes: string[]): string {
-    if (hashes.length === 0) return '';
-    if (hashes.length === 1) return hashes[0] || '';
-
-    const nextLevel: string[] = [];
-    for (let i = 0; i < hashes.length; i += 2) {
-      const left = hashes[i] || '';
-      const right = hashes[i + 1] || left || ''; // Duplicate if odd number
-      const combined = crypto.createHash('sha256').update(left + right).digest('hex');
-      nextLevel.push(combined);
-    }
-
-    return this.calculateMerkleRoot(nextLevel);
-  }
-
   private mapDatabaseEventToAuditEvent(dbEvent: any): AuditEvent {
     return {
       id: dbEvent.eventId || '',
@@ -601,6 +871,7 @@ export class AuditTrailService {
       action: dbEvent.action,
       entityType: dbEvent.entityType,
       entityId: dbEvent.entityId,
+      sequence: dbEvent.sequence,
       actor: dbEvent.actor,
       source: dbEvent.source,
       details: dbEvent.details,
@@ -1,6 +1,6 @@
 // apps/api/src/lib/authorization.ts
 import { blockchainService } from './blockchain.js';
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply, RouteGenericInterface } from 'fastify';
 
 // Authorization configuration
 const MINT_REQUEST_CONFIG = {
@@ -26,11 +26,13 @@ interface AuthorizationResult {
   isProjectOwner?: boolean;
 }
 
-// Simple auth middleware for routes that need basic authentication
-export async function requireAuth(request: FastifyRequest, reply: FastifyReply) {
-  // For now, just return - authentication will be handled by specific services
-  // This is a placeholder to prevent TypeScript errors
-  return;
+// Session authentication for routes that only need a signed-in wallet; sets
+// request.user. Use as a route preHandler or a plugin-wide preHandler hook.
+export async function requireAuth<RouteGeneric extends RouteGenericInterface>(
+  request: FastifyRequest<RouteGeneric>,
+  reply: FastifyReply
+) {
+  return (request.server as any).authenticate(request, reply);
 }
 
 export class MintAuthorizationService {
@@ -0,0 +1,154 @@
+import { BankStatement } from '../reconciliation';
+
+/**
+ * BAI2 cash management balance reporting
+ *
+ * Records are comma-delimited and end with '/'. Continuation records (88) extend
+ * the preceding record. Transaction details (16) inherit the as-of date from the
+ * group header (02) and the account number from the account identifier (03).
+ */
+
+// BAI2 type codes 100-399 are credits, 400-699 debits
+const RETURN_TYPE_CODES = new Set([
+  '257', // Individual ACH Return Item
+  '555', // Deposited Item Returned
+]);
+
+export function parseBAI2(contents: string): BankStatement[] {
+  const records = joinContinuations(contents);
+  if (records[0]?.code !== '01') {
+    throw new Error('Not a BAI2 file: missing file header (01) record');
+  }
+
+  const statements: BankStatement[] = [];
+  let asOfDate: Date | null = null;
+  let accountNumber: string | null = null;
+  let sequence = 0;
+
+  for (const { code, fields, line } of records) {
+    switch (code) {
+      case '02':
+        asOfDate = parseDate(fields[4], fields[5], line);
+        break;
+
+      case '03':
+        accountNumber = fields[1] ?? null;
+        sequence = 0;
+        break;
+
+      case '16': {
+        if (!asOfDate || !accountNumber) {
+          throw new Error(`Transaction detail outside an account at line ${line}`);
+        }
+
+        const typeCode = fields[1] ?? '';
+        const type = Number(typeCode);
+        if (!(type >= 100 && type < 700)) {
+          continue; // Loan and custom type codes are not cash movements
+        }
+
+        const amount = fields[2] ?? '';
+        if (!/^\d+$/.test(amount)) {
+          throw new Error(`Invalid amount "${amount}" at line ${line}`);
+        }
+
+        // Funds type decides how many availability fields precede the references
+        let index = 4;
+        let date = asOfDate;
+        switch (fields[3]) {
+          case 'V':
+            date = parseDate(fields[4], fields[5], line);
+            index = 6;
+            break;
+          case 'S':
+            index = 7;
+            break;
+          case 'D':
+            index = 5 + 2 * Number(fields[4] ?? 0);
+            break;
+        }
+
+        const bankReference = fields[index] ?? '';
+        const customerReference = fields[index + 1] ?? '';
+        // Text is the remainder of the record and may itself contain commas
+        const text = fields.slice(index + 2).join(',').trim();
+
+        sequence++;
+        statements.push({
+          transactionId: bankReference || `${accountNumber}-${formatDate(asOfDate)}-${sequence}`,
+          date,
+          amount: Number(amount) / 100,
+          description: text,
+          reference: customerReference || undefined,
+          accountNumber,
+          type: type < 400 ? 'CREDIT' : 'DEBIT',
+          status: RETURN_TYPE_CODES.has(typeCode) ? 'RETURNED' : 'CLEARED',
+        });
+        break;
+      }
+
+      case '49':
+        accountNumber = null;
+        break;
+
+      case '98':
+        asOfDate = null;
+        break;
+    }
+  }
+
+  return statements;
+}
+
+function joinContinuations(contents: string): { code: string; fields: string[]; line: number }[] {
+  const records: { code: string; fields: string[]; line: number }[] = [];
+
+  contents.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const fields = line.split(',');
+    const code = fields[0]!;
+
+    if (code === '88') {
+      const previous = records[records.length - 1];
+      if (!previous) {
+        throw new Error(`Continuation record without a preceding record at line ${index + 1}`);
+      }
+      // A continuation picks up where the previous record's '/' would have been
+      const last = previous.fields.length - 1;
+      previous.fields[last] = previous.fields[last]!.replace(/\/$/, '');
+      previous.fields.push(...fields.slice(1));
+      return;
+    }
+
+    records.push({ code, fields, line: index + 1 });
+  });
+
+  for (const record of records) {
+    const last = record.fields.length - 1;
+    record.fields[last] = record.fields[last]!.replace(/\/$/, '');
+  }
+
+  return records;
+}
+
+function parseDate(date: string | undefined, time: string | undefined, line: number): Date {
+  if (!date || !/^\d{6}$/.test(date)) {
+    throw new Error(`Invalid date "${date ?? ''}" at line ${line}`);
+  }
+
+  // 9999 marks end of day; BAI2 times are otherwise HHMM
+  const hhmm = time && /^\d{4}$/.test(time) && time !== '9999' && time !== '2400' ? time : '0000';
+  return new Date(Date.UTC(
+    2000 + Number(date.slice(0, 2)),
+    Number(date.slice(2, 4)) - 1,
+    Number(date.slice(4, 6)),
+    Number(hhmm.slice(0, 2)),
+    Number(hhmm.slice(2, 4))
+  ));
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
@@ -0,0 +1,87 @@
+import { BankStatement } from '../reconciliation';
+import { XmlElement, child, children, parseXml, text } from '../xml';
+
+/**
+ * ISO 20022 camt.053 bank-to-customer statement
+ *
+ * Each Stmt/Ntry becomes a statement line. Batched entries that carry more than
+ * one TxDtls are split so every underlying payment can be matched on its own.
+ */
+
+export function parseCamt053(contents: string): BankStatement[] {
+  const document = parseXml(contents);
+  const report = child(document, 'BkToCstmrStmt');
+  if (document.name !== 'Document' || !report) {
+    throw new Error('Not a camt.053 file: missing BkToCstmrStmt');
+  }
+
+  const statements: BankStatement[] = [];
+
+  for (const stmt of children(report, 'Stmt')) {
+    const stmtId = text(stmt, 'Id') ?? 'STMT';
+    const account = child(stmt, 'Acct');
+    const accountNumber = text(account, 'Id', 'IBAN') ?? text(account, 'Id', 'Othr', 'Id');
+    if (!accountNumber) {
+      throw new Error(`Statement ${stmtId} has no account identification`);
+    }
+
+    children(stmt, 'Ntry').forEach((entry, entryIndex) => {
+      const entryAmount = amount(child(entry, 'Amt'), stmtId);
+      const type = text(entry, 'CdtDbtInd') === 'CRDT' ? 'CREDIT' : 'DEBIT';
+      // Sts is a plain code before camt.053.001.08 and a Cd element after
+      const entryStatus = text(entry, 'Sts', 'Cd') ?? text(entry, 'Sts');
+      const reversed = text(entry, 'RvslInd') === 'true';
+      const date = parseDate(
+        text(entry, 'BookgDt', 'Dt') ?? text(entry, 'BookgDt', 'DtTm') ??
+        text(entry, 'ValDt', 'Dt') ?? text(entry, 'ValDt', 'DtTm'),
+        stmtId
+      );
+
+      const details = child(entry, 'NtryDtls') ? children(child(entry, 'NtryDtls')!, 'TxDtls') : [];
+      const transactions = details.length > 0 ? details : [null];
+
+      transactions.forEach((tx, txIndex) => {
+        const refs = tx && child(tx, 'Refs');
+        const endToEndId = text(refs, 'EndToEndId');
+        const returned = reversed || Boolean(tx && child(tx, 'RtrInf'));
+        const unstructured = tx ? children(child(tx, 'RmtInf'), 'Ustrd').map(node => node.text) : [];
+
+        const txAmount = details.length > 1 && tx
+          ? amount(child(tx, 'Amt') ?? child(child(child(tx, 'AmtDtls'), 'TxAmt'), 'Amt'), stmtId)
+          : entryAmount;
+
+        statements.push({
+          transactionId:
+            text(refs, 'AcctSvcrRef') ??
+            (details.length > 1 ? undefined : text(entry, 'AcctSvcrRef') ?? text(entry, 'NtryRef')) ??
+            `${stmtId}-${entryIndex + 1}${details.length > 1 ? `-${txIndex + 1}` : ''}`,
+          date,
+          amount: txAmount,
+          description: unstructured.join(' ') || text(tx, 'AddtlTxInf') || text(entry, 'AddtlNtryInf') || '',
+          reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined) ??
+            text(refs, 'InstrId') ?? text(refs, 'PmtInfId'),
+          accountNumber,
+          type,
+          status: returned ? 'RETURNED' : entryStatus === 'BOOK' ? 'CLEARED' : 'PENDING',
+        });
+      });
+    });
+  }
+
+  return statements;
+}
+
+function amount(node: XmlElement | undefined, stmtId: string): number {
+  if (!node || !/^\d+(\.\d+)?$/.test(node.text)) {
+    throw new Error(`Statement ${stmtId} has an entry without a valid amount`);
+  }
+  return Number(node.text);
+}
+
+function parseDate(value: string | undefined, stmtId: string): Date {
+  const date = value ? new Date(value.length === 10 ? `${value}T00:00:00Z` : value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`Statement ${stmtId} has an entry without a booking or value date`);
+  }
+  return date;
+}
@@ -0,0 +1,114 @@
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import { BankStatement } from '../reconciliation';
+
+/**
+ * Column mapping for banks that only offer a CSV export. Amounts come either
+ * from one signed column (negative = debit, unless a type column says
+ * otherwise) or from separate debit and credit columns.
+ */
+export interface CsvStatementMapping {
+  delimiter?: string;
+  decimalSeparator?: '.' | ',';
+  dateColumn: string;
+  dateFormat?: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+  descriptionColumn: string;
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  typeColumn?: string;
+  debitIndicators?: string[];
+  referenceColumn?: string;
+  transactionIdColumn?: string;
+  accountNumberColumn?: string;
+  accountNumber?: string; // For exports that cover a single account
+  statusColumn?: string;
+}
+
+export async function parseStatementCsv(contents: string, mapping: CsvStatementMapping): Promise<BankStatement[]> {
+  if (!mapping.amountColumn && !(mapping.debitColumn && mapping.creditColumn)) {
+    throw new Error('CSV mapping needs an amount column or both debit and credit columns');
+  }
+  if (!mapping.accountNumberColumn && !mapping.accountNumber) {
+    throw new Error('CSV mapping needs an account number column or a fixed account number');
+  }
+
+  const rows = await readRows(contents, mapping.delimiter ?? ',');
+  const debitIndicators = (mapping.debitIndicators ?? ['D', 'DR', 'DEBIT']).map(value => value.toUpperCase());
+
+  return rows.map((row, index) => {
+    const line = index + 2; // Header is line 1
+    const column = (name: string | undefined) => (name ? row[name]?.trim() ?? '' : '');
+    const toAmount = (value: string) => parseAmount(value, mapping.decimalSeparator ?? '.', line);
+
+    let amount: number;
+    let type: BankStatement['type'];
+    if (mapping.amountColumn) {
+      amount = toAmount(column(mapping.amountColumn));
+      type = mapping.typeColumn
+        ? debitIndicators.includes(column(mapping.typeColumn).toUpperCase()) ? 'DEBIT' : 'CREDIT'
+        : amount < 0 ? 'DEBIT' : 'CREDIT';
+    } else {
+      const debit = column(mapping.debitColumn);
+      amount = toAmount(debit || column(mapping.creditColumn));
+      type = debit ? 'DEBIT' : 'CREDIT';
+    }
+
+    const accountNumber = column(mapping.accountNumberColumn) || mapping.accountNumber!;
+    const date = parseDate(column(mapping.dateColumn), mapping.dateFormat ?? 'YYYY-MM-DD', line);
+    const status = column(mapping.statusColumn);
+
+    return {
+      transactionId: column(mapping.transactionIdColumn) || `${accountNumber}-${date.toISOString().slice(0, 10)}-${line}`,
+      date,
+      amount: Math.abs(amount),
+      description: column(mapping.descriptionColumn),
+      reference: column(mapping.referenceColumn) || undefined,
+      accountNumber,
+      type,
+      status: /return/i.test(status) ? 'RETURNED' : /pend/i.test(status) ? 'PENDING' : 'CLEARED',
+    };
+  });
+}
+
+function readRows(contents: string, separator: string): Promise<Record<string, string>[]> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, string>[] = [];
+    Readable.from([contents])
+      .pipe(csv({ separator, mapHeaders: ({ header }) => header.trim() }))
+      .on('data', row => rows.push(row))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
+
+// Accepts "1,234.56", "$1234.56", "-12.00", accounting-style "(12.00)" and,
+// with a ',' decimal separator, "1.234,56"
+function parseAmount(value: string, decimalSeparator: '.' | ',', line: number): number {
+  const negative = /^\(.*\)$/.test(value) || value.startsWith('-');
+  const grouping = decimalSeparator === '.' ? /[()$€£,\s-]/g : /[()$€£.\s-]/g;
+  const cleaned = value.replace(grouping, '').replace(',', '.');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) {
+    throw new Error(`Invalid amount "${value}" at line ${line}`);
+  }
+  return negative ? -Number(cleaned) : Number(cleaned);
+}
+
+function parseDate(value: string, format: NonNullable<CsvStatementMapping['dateFormat']>, line: number): Date {
+  const parts = value.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})$/);
+  if (!parts) {
+    throw new Error(`Invalid date "${value}" at line ${line}`);
+  }
+
+  const [first, second, third] = parts.slice(1).map(Number) as [number, number, number];
+  const [year, month, day] =
+    format === 'YYYY-MM-DD' ? [first, second, third] :
+    format === 'MM/DD/YYYY' ? [third, first, second] :
+    [third, second, first];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid date "${value}" at line ${line}`);
+  }
+  return date;
+}
@@ -0,0 +1,32 @@
+import { BankStatement } from '../reconciliation';
+import { parseBAI2 } from './bai2';
+import { parseCamt053 } from './camt053';
+import { parseStatementCsv, CsvStatementMapping } from './csv';
+
+export { parseBAI2, parseCamt053, parseStatementCsv };
+export type { CsvStatementMapping };
+
+export type BankStatementFormat = 'BAI2' | 'CAMT053' | 'CSV';
+
+/**
+ * Normalize a bank statement export into BankStatement lines for reconciliation
+ */
+export async function parseBankStatementFile(
+  format: BankStatementFormat,
+  contents: string,
+  options: { csvMapping?: CsvStatementMapping } = {}
+): Promise<BankStatement[]> {
+  switch (format) {
+    case 'BAI2':
+      return parseBAI2(contents);
+    case 'CAMT053':
+      return parseCamt053(contents);
+    case 'CSV':
+      if (!options.csvMapping) {
+        throw new Error('CSV statements require a column mapping');
+      }
+      return parseStatementCsv(contents, options.csvMapping);
+    default:
+      throw new Error(`Unsupported statement format: ${format}`);
+  }
+}
@@ -1,26 +1,35 @@
-import { createPublicClient, createWalletClient, http, parseAbi, getContract, Address, Hash } from 'viem';
-import { mainnet, sepolia, polygon, arbitrum } from 'viem/chains';
+import { createPublicClient, createWalletClient, http, parseAbi, getContract, hashMessage, isErc6492Signature, Address, Chain, Hash, Hex } from 'viem';
+import { mainnet, sepolia, polygon, arbitrum, foundry } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { getEnv } from '../types/env.js';
 
 const env = getEnv();
 
 // Chain configuration
-const chains = {
+const chains: Record<number, Chain> = {
   1: mainnet,
   11155111: sepolia,
   137: polygon,
   42161: arbitrum,
 };
 
+// Local development chain (anvil), only enabled when an RPC URL is configured
+if (env.RPC_URL_LOCAL) {
+  chains[31337] = foundry;
+}
+
 // RPC URLs configuration
-const rpcUrls = {
+const rpcUrls: Record<number, string | undefined> = {
   1: env.RPC_URL_MAINNET || 'https://eth.llamarpc.com',
   11155111: env.RPC_URL_SEPOLIA || 'https://eth-sepolia.g.alchemy.com/v2/demo',
   137: env.RPC_URL_POLYGON || 'https://polygon-rpc.com',
   42161: env.RPC_URL_ARBITRUM || 'https://arb1.arbitrum.io/rpc',
+  31337: env.RPC_URL_LOCAL,
 };
 
+// Calldata prefix for audit anchor transactions ("ORNA-AUDIT" in hex)
+export const AUDIT_ANCHOR_PREFIX = '0x4f524e412d4155444954';
+
 // Contract ABIs
 export const ORNA_ABI = parseAbi([
   'function name() view returns (string)',
@@ -44,11 +53,29 @@ export const LIFT_TOKENS_ABI = parseAbi([
   'function mint(address to, uint256 id, uint256 amount, bytes data)',
   'function mintBatch(address to, uint256[] ids, uint256[] amounts, bytes data)',
   'function hasRole(bytes32 role, address account) view returns (bool)',
+  'function issuanceConfigs(uint256 projectId) view returns (bytes32 methodId, bytes32 methodHash, uint256 targetTokens, uint256 minTokens, uint256 maxTokens, address allocationEscrow, uint256 nonce, bool issuanceCertified, bool configured)',
   'event TokenCreated(uint256 indexed id, uint256 maxSupply, string uri)',
   'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
   'event URI(string value, uint256 indexed id)',
+  'event VerifiedIssuance(uint256 indexed projectId, bytes32 certificateCid, uint256[] tokenIds, uint256[] amounts, uint256 totalIssued)',
+  'event Retired(uint256 indexed tokenId, uint256 amount, address indexed retiree, bytes32 retirementNoteCid)',
+  'event VerificationSubmitted(uint256 indexed projectId, bytes32 indexed methodId, address indexed validator, bytes32 evidenceHash)',
+  'event VerificationCompleted(uint256 indexed projectId, bytes32 indexed methodId, bool verified, uint256 confidenceScore)',
 ]);
 
+export const PROJECT_NFT_ABI = parseAbi([
+  'function linkForward(uint256 projectId, bytes32 forwardId)',
+  'event ForwardLinked(uint256 indexed projectId, bytes32 forwardId)',
+]);
+
+// EIP-1271 smart-contract wallet signature validation (Safe, Argent, etc.)
+export const EIP1271_ABI = parseAbi([
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+]);
+
+const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
 export class BlockchainService {
   private publicClients: Map<number, any> = new Map();
   private walletClients: Map<number, any> = new Map();
@@ -57,7 +84,7 @@ export class BlockchainService {
     // Initialize clients for supported chains
     Object.entries(chains).forEach(([chainId, chain]) => {
       const id = Number(chainId);
-      const rpcUrl = rpcUrls[id as keyof typeof rpcUrls];
+      const rpcUrl = rpcUrls[id];
       
       // Public client for reading
       this.publicClients.set(id, createPublicClient({
@@ -93,6 +120,44 @@ export class BlockchainService {
     return client;
   }
 
+  getSupportedChainIds(): number[] {
+    return Array.from(this.publicClients.keys());
+  }
+
+  // Smart-contract wallet signatures
+  async verifyContractWalletSignature(
+    address: Address,
+    message: string,
+    signature: Hex,
+    chainId: number
+  ): Promise<boolean> {
+    const publicClient = this.getPublicClient(chainId);
+
+    // EIP-6492 wrapped signature from a counterfactual wallet: viem simulates
+    // the factory deployment before calling isValidSignature
+    if (isErc6492Signature(signature)) {
+      return await publicClient.verifyMessage({ address, message, signature });
+    }
+
+    const code = await publicClient.getCode({ address });
+    if (!code || code === '0x') {
+      return false;
+    }
+
+    try {
+      const result = await publicClient.readContract({
+        address,
+        abi: EIP1271_ABI,
+        functionName: 'isValidSignature',
+        args: [hashMessage(message), signature],
+      });
+      return result === EIP1271_MAGIC_VALUE;
+    } catch {
+      // Reverting wallets are treated as rejecting the signature
+      return false;
+    }
+  }
+
   // ORNA Token Methods
   async getOrnaTokenInfo(chainId: number) {
     if (!env.ORNA_TOKEN_ADDRESS) {
@@ -323,6 +388,65 @@ export class BlockchainService {
     return hash;
   }
 
+  // Project NFT
+  async linkProjectForward(projectNftId: number, forwardRef: Hex, chainId: number): Promise<Hash> {
+    if (!env.PROJECT_NFT_ADDRESS) {
+      throw new Error('PROJECT_NFT_ADDRESS not configured');
+    }
+
+    const walletClient = this.getWalletClient(chainId);
+
+    return await walletClient.writeContract({
+      address: env.PROJECT_NFT_ADDRESS as Address,
+      abi: PROJECT_NFT_ABI,
+      functionName: 'linkForward',
+      args: [BigInt(projectNftId), forwardRef],
+    });
+  }
+
+  // Audit Anchoring
+  /**
+   * Anchor a Merkle root on-chain as the calldata of a zero-value transaction
+   * the anchoring account sends to itself.
+   */
+  async anchorMerkleRoot(merkleRoot: string, chainId: number): Promise<Hash> {
+    const walletClient = this.getWalletClient(chainId);
+    const root = merkleRoot.toLowerCase().replace(/^0x/, '');
+    if (!/^[0-9a-f]{64}$/.test(root)) {
+      throw new Error('Merkle root must be a 32-byte hex string');
+    }
+
+    return await walletClient.sendTransaction({
+      to: walletClient.account.address,
+      value: 0n,
+      data: `${AUDIT_ANCHOR_PREFIX}${root}` as Hex,
+    });
+  }
+
+  /**
+   * Read back the Merkle root anchored by a transaction. Returns null when the
+   * transaction failed or is not an audit anchor.
+   */
+  async getAnchoredMerkleRoot(txHash: Hash, chainId: number): Promise<{ merkleRoot: string; blockNumber: bigint; from: Address } | null> {
+    const publicClient = this.getPublicClient(chainId);
+    const [transaction, receipt] = await Promise.all([
+      publicClient.getTransaction({ hash: txHash }),
+      publicClient.getTransactionReceipt({ hash: txHash }),
+    ]);
+
+    const input = (transaction.input as string).toLowerCase();
+    if (receipt.status !== 'success' || !input.startsWith(AUDIT_ANCHOR_PREFIX) ||
+        transaction.to?.toLowerCase() !== transaction.from.toLowerCase()) {
+      return null;
+    }
+
+    return {
+      merkleRoot: input.slice(AUDIT_ANCHOR_PREFIX.length),
+      blockNumber: receipt.blockNumber,
+      from: transaction.from,
+    };
+  }
+
   // Utility Methods
   async waitForTransaction(hash: Hash, chainId: number) {
     const publicClient = this.getPublicClient(chainId);
@@ -1,5 +1,6 @@
 import { PrismaClient, FinanceContract, ChangeOrder, ContractType, ContractStatus, ApprovalStatus, ChangeOrderReason, ChangeOrderCategory, ChangeOrderStatus } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { LedgerService } from './ledger';
 
 export interface ContractCreateRequest {
   projectId: number;
@@ -316,7 +317,8 @@ export class ContractService {
 
       // Check funds availability
       const totalDelta = budgetImpact.reduce((sum, b) => sum + b.deltaAllocation, 0n);
-      const fundsAvailable = contract.fundingBucket.availableCents >= totalDelta;
+      const { availableCents } = await new LedgerService(this.prisma).getBucketBalances(contract.fundingBucketId);
+      const fundsAvailable = availableCents >= totalDelta;
 
       // Determine approval requirements based on amount
       const approvalRequired: string[] = [];
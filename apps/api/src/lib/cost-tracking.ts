@@ -1,4 +1,7 @@
 import { PrismaClient } from '@prisma/client';
+import { fromCents, sum, Currency } from '../adapters/finance';
+import { FxRateService } from './fx-rates';
+import { getEnv } from '../types/env.js';
 
 /**
  * Simplified Cost Tracking Service for Lift Token Pricing
@@ -9,6 +12,7 @@ import { PrismaClient } from '@prisma/client';
 
 export interface ProjectCostSummary {
   projectId: number;
+  currency: Currency; // Currency of the *Cents totals
   totalCostCents: bigint;
   totalPaidCents: bigint;
   outstandingCostCents: bigint;
@@ -36,9 +40,13 @@ export class CostTrackingService {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Get project cost summary for lift token pricing
+   * Get project cost summary for lift token pricing. Invoices in other
+   * currencies convert at the rate snapshotted when they were billed.
    */
-  async getProjectCostSummary(projectId: number): Promise<ProjectCostSummary> {
+  async getProjectCostSummary(projectId: number, options: { currency?: Currency } = {}): Promise<ProjectCostSummary> {
+    const currency = (options.currency ?? getEnv().FINANCE_BASE_CURRENCY).toUpperCase();
+    const fx = new FxRateService(this.prisma);
+
     // Get all invoices for the project through contracts
     const invoices = await this.prisma.invoice.findMany({
       where: {
@@ -57,11 +65,15 @@ export class CostTrackingService {
     });
 
     // Calculate cost totals
-    const totalCostCents = invoices.reduce((sum, invoice) => sum + invoice.totalCents, BigInt(0));
-    const totalPaidCents = invoices.reduce((sum, invoice) => {
-      const paidAmount = invoice.paidAmount || BigInt(0);
-      return sum + paidAmount;
-    }, BigInt(0));
+    const inCurrency = async (cents: (invoice: typeof invoices[number]) => bigint) => sum(
+      await Promise.all(invoices.map(invoice =>
+        fx.convert(fromCents(cents(invoice), invoice.currency), currency, invoice.billingDate, invoice)
+      )),
+      currency,
+      2
+    ).amount;
+    const totalCostCents = await inCurrency(invoice => invoice.totalCents);
+    const totalPaidCents = await inCurrency(invoice => invoice.paidAmount || BigInt(0));
     const outstandingCostCents = totalCostCents - totalPaidCents;
 
     // Get lift token count for this project
@@ -76,6 +88,7 @@ export class CostTrackingService {
 
     return {
       projectId,
+      currency,
       totalCostCents,
       totalPaidCents,
       outstandingCostCents,
@@ -0,0 +1,223 @@
+// apps/api/src/lib/cron.ts
+// Minimal five-field cron evaluator (minute hour day-of-month month day-of-week)
+// supporting *, lists, ranges and steps, evaluated in an IANA timezone.
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7]   // day of week (0 and 7 are Sunday)
+];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Upper bound for nextCronRun; long enough to reach a Feb 29 schedule
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+function parseValue(token: string, fieldIndex: number, expression: string): number {
+  const lower = token.toLowerCase();
+  if (fieldIndex === 3 && MONTH_NAMES.includes(lower)) {
+    return MONTH_NAMES.indexOf(lower) + 1;
+  }
+  if (fieldIndex === 4 && DAY_NAMES.includes(lower)) {
+    return DAY_NAMES.indexOf(lower);
+  }
+
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(expression, `"${token}" is not a number`);
+  }
+
+  const value = Number(token);
+  const [min, max] = FIELD_RANGES[fieldIndex]!;
+  if (value < min || value > max) {
+    throw new CronParseError(expression, `${value} is outside ${min}-${max}`);
+  }
+
+  return value;
+}
+
+function parseField(field: string, fieldIndex: number, expression: string): Set<number> {
+  const [min, max] = FIELD_RANGES[fieldIndex]!;
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!rangePart || !Number.isInteger(step) || step < 1) {
+      throw new CronParseError(expression, `invalid step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from!, fieldIndex, expression);
+      end = parseValue(to!, fieldIndex, expression);
+      if (start > end) {
+        throw new CronParseError(expression, `range "${rangePart}" is reversed`);
+      }
+    } else {
+      start = parseValue(rangePart, fieldIndex, expression);
+      end = stepPart === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Normalise Sunday
+      values.add(fieldIndex === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError(expression, `expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, index, expression)
+  );
+
+  return {
+    expression,
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday!.toLowerCase())
+  };
+}
+
+function matchesDay(schedule: CronSchedule, parts: ZonedParts): boolean {
+  if (!schedule.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeekMatches = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Whether the minute containing `date` is a scheduled minute
+ */
+export function matchesCron(schedule: CronSchedule, date: Date, timezone: string = 'UTC'): boolean {
+  const parts = getZonedParts(date, timezone);
+
+  return schedule.minutes.has(parts.minute) &&
+    schedule.hours.has(parts.hour) &&
+    matchesDay(schedule, parts);
+}
+
+/**
+ * First scheduled minute strictly after `after`, or null if none within the lookahead
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timezone: string = 'UTC'): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setTime(candidate.getTime() + 60_000);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  while (candidate.getTime() <= limit) {
+    const parts = getZonedParts(candidate, timezone);
+
+    // Skip to the next hour boundary when the hour can't match. Never jump
+    // further than that so DST transitions can't skip a scheduled minute.
+    if (!schedule.hours.has(parts.hour) || !matchesDay(schedule, parts)) {
+      candidate.setTime(candidate.getTime() + (60 - parts.minute) * 60_000);
+      continue;
+    }
+
+    if (schedule.minutes.has(parts.minute)) {
+      return candidate;
+    }
+
+    candidate.setTime(candidate.getTime() + 60_000);
+  }
+
+  return null;
+}
@@ -1,5 +1,12 @@
 import { PrismaClient, Disbursement, DisbursementStatus, PaymentMethod } from '@prisma/client';
+import type { Address } from 'viem';
 import { logger } from '../utils/logger';
+import { FxRateService } from './fx-rates';
+import { getEnv } from '../types/env.js';
+import { ACHProvider, ACHBatchResponse, ACHFileOptions, ACHStatus, ACHTransferRequest } from './payment-rails/ach-provider';
+import type { SafeExecution, SafePaymentContext } from './safe-proposals';
+import { openBankDetails, sealBankDetails } from './vendor';
+import { SanctionsScreeningError, SanctionsScreeningService } from './sanctions';
 
 export interface PaymentData {
   paymentMethod: PaymentMethod;
@@ -46,6 +53,22 @@ export interface ACHResult {
   error?: string;
 }
 
+export interface ACHFileResult {
+  paymentRunId: string;
+  disbursementIds: number[];
+  heldDisbursementIds: number[]; // Left out of the file by sanctions screening
+  batch: ACHBatchResponse;
+  contents: string;
+}
+
+export interface ACHReturnResult {
+  traceNumber: string;
+  disbursementId?: number;
+  status: ACHStatus['status'];
+  applied: boolean;
+  error?: string;
+}
+
 export interface CryptoResult {
   disbursementId: number;
   success: boolean;
@@ -111,8 +134,16 @@ export interface DateRange {
   endDate: Date;
 }
 
+export interface DisbursementServiceOptions {
+  screening?: Pick<SanctionsScreeningService, 'screen'>;
+}
+
 export class DisbursementService {
-  constructor(private prisma: PrismaClient) {}
+  private screening?: DisbursementServiceOptions['screening'];
+
+  constructor(private prisma: PrismaClient, options: DisbursementServiceOptions = {}) {
+    this.screening = options.screening;
+  }
 
   // Payment execution
   async createDisbursement(invoiceId: number, paymentData: PaymentData): Promise<Disbursement> {
@@ -142,6 +173,9 @@ export class DisbursementService {
       // Validate payment method against vendor preferences
       await this.validatePaymentMethod(invoice.contract.vendorId, paymentData.paymentMethod);
 
+      // Pay in the invoice's currency at the rate in effect when the payment is scheduled
+      const fxSnapshot = await new FxRateService(this.prisma).snapshot(invoice.currency, getEnv().FINANCE_BASE_CURRENCY);
+
       // Create disbursement record
       const disbursement = await this.prisma.disbursement.create({
         data: {
@@ -149,7 +183,8 @@ export class DisbursementService {
           vendorId: invoice.vendorId,
           disbursementNumber: `DISB-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
           amountCents: invoice.totalCents,
-          currency: "USD", // Default currency - TODO: get from funding bucket
+          currency: invoice.currency,
+          ...fxSnapshot,
           paymentMethod: paymentData.paymentMethod,
           // Note: Bank and Safe details would need additional schema fields if required
           status: DisbursementStatus.PENDING,
@@ -171,7 +206,10 @@ export class DisbursementService {
     }
   }
 
-  async executeBatchPayments(paymentRunId: string): Promise<BatchResult> {
+  async executeBatchPayments(
+    paymentRunId: string,
+    options: { safe?: SafePaymentContext } = {}
+  ): Promise<BatchResult> {
     try {
       logger.info('Executing batch payments', { paymentRunId });
 
@@ -232,7 +270,10 @@ export class DisbursementService {
               break;
 
             case PaymentMethod.SAFE_MULTISIG:
-              const safeResult = await this.processSafeMultisigPayment(disbursement.id);
+              if (!options.safe) {
+                throw new Error('No treasury Safe configured for Safe multisig payments');
+              }
+              const safeResult = await this.processSafeMultisigPayment(disbursement.id, options.safe);
               result = {
                 disbursementId: disbursement.id,
                 success: safeResult.success,
@@ -315,6 +356,8 @@ export class DisbursementService {
         throw new Error(`Disbursement ${disbursementId} is not an ACH payment`);
       }
 
+      await this.screenDisbursement(disbursement);
+
       // Update status to processing
       await this.prisma.disbursement.update({
         where: { id: disbursementId },
@@ -385,14 +428,130 @@ export class DisbursementService {
     } catch (error) {
       logger.error('Failed to process ACH payment', { error, disbursementId });
 
-      await this.prisma.disbursement.update({
-        where: { id: disbursementId },
-        data: {
-          status: DisbursementStatus.FAILED,
-          failureReason: error instanceof Error ? error.message : String(error),
+      // A screening hit has already put the disbursement on hold or blocked it
+      if (!(error instanceof SanctionsScreeningError)) {
+        await this.prisma.disbursement.update({
+          where: { id: disbursementId },
+          data: {
+            status: DisbursementStatus.FAILED,
+            failureReason: error instanceof Error ? error.message : String(error),
+          },
+        }).catch(() => {}); // Ignore update errors
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Write the pending ACH disbursements of a payment run to a NACHA file for upload.
+   * Each disbursement keeps its entry's trace number as the bank reference so that
+   * return and NOC files can be matched back to it.
+   */
+  async exportACHFile(
+    paymentRunId: string,
+    achProvider: ACHProvider,
+    { effectiveDate, ...options }: ACHFileOptions & { effectiveDate?: Date } = {}
+  ): Promise<ACHFileResult> {
+    try {
+      logger.info('Exporting ACH file', { paymentRunId });
+
+      const disbursements = await this.prisma.disbursement.findMany({
+        where: {
+          paymentRunId,
+          paymentMethod: PaymentMethod.ACH,
+          status: DisbursementStatus.PENDING,
         },
-      }).catch(() => {}); // Ignore update errors
+        include: {
+          invoice: {
+            include: {
+              contract: {
+                include: {
+                  vendor: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { id: 'asc' },
+      });
+
+      if (disbursements.length === 0) {
+        throw new Error(`No pending ACH disbursements found for payment run ${paymentRunId}`);
+      }
+
+      // Held or blocked payees are left out; the rest of the run still goes
+      const cleared: typeof disbursements = [];
+      const heldDisbursementIds: number[] = [];
+      for (const disbursement of disbursements) {
+        try {
+          await this.screenDisbursement(disbursement);
+          cleared.push(disbursement);
+        } catch (error) {
+          if (!(error instanceof SanctionsScreeningError)) throw error;
+          heldDisbursementIds.push(disbursement.id);
+        }
+      }
+
+      if (cleared.length === 0) {
+        throw new Error(`All ACH disbursements in payment run ${paymentRunId} are held by sanctions screening`);
+      }
+
+      const transactions: ACHTransferRequest[] = cleared.map(disbursement => {
+        const vendor = disbursement.invoice.contract.vendor;
+        const bankDetails = openBankDetails(vendor.bankDetails);
+        if (!bankDetails?.routingNumber || !bankDetails?.accountNumber) {
+          throw new Error(`Vendor ${vendor.id} does not have ACH details configured`);
+        }
+
+        return {
+          recipientName: vendor.name,
+          bankDetails: {
+            routingNumber: bankDetails.routingNumber,
+            accountNumber: bankDetails.accountNumber,
+            accountType: bankDetails.accountType ?? 'CHECKING',
+            bankName: bankDetails.bankName ?? '',
+          },
+          amount: disbursement.amountCents,
+          currency: disbursement.currency,
+          reference: String(disbursement.id),
+        };
+      });
 
+      const batch = await achProvider.submitBatch({
+        batchId: paymentRunId,
+        transactions,
+        totalAmount: transactions.reduce((sum, tx) => sum + tx.amount, BigInt(0)),
+        effectiveDate: effectiveDate ?? new Date(Date.now() + 24 * 60 * 60 * 1000), // Next business day
+        status: 'CREATED',
+      }, options);
+
+      for (const entry of batch.transactions) {
+        await this.prisma.disbursement.update({
+          where: { id: Number(entry.reference) },
+          data: {
+            status: DisbursementStatus.PROCESSING,
+            bankReference: entry.transactionId,
+            executedDate: new Date(),
+          },
+        });
+      }
+
+      logger.info('ACH file exported', {
+        paymentRunId,
+        entryCount: batch.submittedCount,
+        totalAmount: batch.totalAmount.toString(),
+      });
+
+      return {
+        paymentRunId,
+        disbursementIds: cleared.map(d => d.id),
+        heldDisbursementIds,
+        batch,
+        contents: batch.file!.contents,
+      };
+    } catch (error) {
+      logger.error('Failed to export ACH file', { error, paymentRunId });
       throw error;
     }
   }
@@ -428,6 +587,8 @@ export class DisbursementService {
         throw new Error(`No crypto address specified for vendor for USDC payment`);
       }
 
+      await this.screenDisbursement(disbursement);
+
       // Update status to processing
       await this.prisma.disbursement.update({
         where: { id: disbursementId },
@@ -500,19 +661,27 @@ export class DisbursementService {
     } catch (error) {
       logger.error('Failed to process USDC payment', { error, disbursementId });
 
-      await this.prisma.disbursement.update({
-        where: { id: disbursementId },
-        data: {
-          status: DisbursementStatus.FAILED,
-          failureReason: error instanceof Error ? error.message : String(error),
-        },
-      }).catch(() => {}); // Ignore update errors
+      // A screening hit has already put the disbursement on hold or blocked it
+      if (!(error instanceof SanctionsScreeningError)) {
+        await this.prisma.disbursement.update({
+          where: { id: disbursementId },
+          data: {
+            status: DisbursementStatus.FAILED,
+            failureReason: error instanceof Error ? error.message : String(error),
+          },
+        }).catch(() => {}); // Ignore update errors
+      }
 
       throw error;
     }
   }
 
-  async processSafeMultisigPayment(disbursementId: number): Promise<SafeResult> {
+  /**
+   * Propose a USDC transfer from the treasury Safe to the vendor. The disbursement
+   * stays PROCESSING while owners sign; completeSafeMultisigPayment advances it
+   * once the indexer sees the Safe transaction executed.
+   */
+  async processSafeMultisigPayment(disbursementId: number, safe: SafePaymentContext): Promise<SafeResult> {
     try {
       logger.info('Processing Safe multisig payment', { disbursementId });
 
@@ -539,12 +708,13 @@ export class DisbursementService {
         throw new Error(`Disbursement ${disbursementId} is not a Safe multisig payment`);
       }
 
-      // For Safe multisig, address would be stored in vendor's metadata or bankDetails
-      const safeDetails = disbursement.invoice.contract.vendor.metadata as any;
-      if (!safeDetails?.safeAddress) {
-        throw new Error(`No Safe address specified for vendor for multisig payment`);
+      const recipientAddress = disbursement.invoice.contract.vendor.cryptoAddress;
+      if (!recipientAddress) {
+        throw new Error(`No crypto address specified for vendor for multisig payment`);
       }
 
+      await this.screenDisbursement(disbursement);
+
       // Update status to processing
       await this.prisma.disbursement.update({
         where: { id: disbursementId },
@@ -554,78 +724,120 @@ export class DisbursementService {
         },
       });
 
-      // Simulate Safe transaction creation and execution
-      const safeTransactionHash = this.generateTransactionHash();
-      const requiredSignatures = safeDetails?.safeThreshold || 2;
-      const signatures = Math.floor(Math.random() * (requiredSignatures + 2));
-      const executed = signatures >= requiredSignatures;
+      const safeInfo = await safe.adapter.getSafeInfo(safe.safeAddress, safe.chainId);
+      const response = await safe.adapter.submitTransfer({
+        safeAddress: safe.safeAddress,
+        recipientAddress: recipientAddress as Address,
+        tokenAddress: safe.tokenAddress,
+        amount: disbursement.amountCents * BigInt(10_000), // Cents to USDC base units (6 decimals)
+        chainId: safe.chainId,
+        reference: disbursement.disbursementNumber,
+      });
 
-      if (executed) {
-        await this.prisma.disbursement.update({
-          where: { id: disbursementId },
-          data: {
-            status: DisbursementStatus.CONFIRMED,
-            txHash: safeTransactionHash,
-            executedDate: new Date(),
-          },
-        });
+      if (response.status === 'FAILED') {
+        throw new Error(response.error || 'Safe transaction proposal failed');
+      }
 
-        // Update invoice status
-        await this.prisma.invoice.update({
-          where: { id: disbursement.invoiceId },
-          data: {
-            status: 'PAID',
-            paidDate: new Date(),
-          },
-        });
+      const proposal = await safe.tracker.trackProposal({
+        safeInfo,
+        safeTransactionHash: response.safeTransactionHash,
+        nonce: response.nonce,
+        reference: response.reference,
+        disbursementIds: [disbursementId],
+        proposer: response.proposer,
+      });
 
-        logger.info('Safe multisig payment executed successfully', {
-          disbursementId,
-          safeTransactionHash,
-          signatures,
-          requiredSignatures,
+      // A 1-of-n Safe executes at submission; the indexer will see it again later
+      if (response.status === 'EXECUTED' && response.transactionHash) {
+        await safe.tracker.recordExecution(response.safeTransactionHash, {
+          success: true,
+          transactionHash: response.transactionHash,
         });
+      }
 
-        return {
-          disbursementId,
-          success: true,
-          safeTransactionHash,
-          signatures,
-          requiredSignatures,
-          executed: true,
-        };
-      } else {
+      logger.info('Safe multisig payment proposed', {
+        disbursementId,
+        safeTransactionHash: response.safeTransactionHash,
+        signatures: proposal.confirmations.length,
+        requiredSignatures: proposal.threshold,
+        pendingSigners: proposal.pendingSigners,
+      });
+
+      return {
+        disbursementId,
+        success: true,
+        safeTransactionHash: response.safeTransactionHash,
+        signatures: proposal.confirmations.length,
+        requiredSignatures: proposal.threshold,
+        executed: response.status === 'EXECUTED',
+      };
+    } catch (error) {
+      logger.error('Failed to process Safe multisig payment', { error, disbursementId });
+
+      // A screening hit has already put the disbursement on hold or blocked it
+      if (!(error instanceof SanctionsScreeningError)) {
         await this.prisma.disbursement.update({
           where: { id: disbursementId },
           data: {
-            status: DisbursementStatus.PENDING,
-            txHash: safeTransactionHash,
+            status: DisbursementStatus.FAILED,
+            failureReason: error instanceof Error ? error.message : String(error),
           },
-        });
-
-        return {
-          disbursementId,
-          success: false,
-          safeTransactionHash,
-          signatures,
-          requiredSignatures,
-          executed: false,
-          error: `Insufficient signatures: ${signatures}/${requiredSignatures}`,
-        };
+        }).catch(() => {}); // Ignore update errors
       }
-    } catch (error) {
-      logger.error('Failed to process Safe multisig payment', { error, disbursementId });
 
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a Safe multisig disbursement once its Safe transaction has executed
+   * (or reverted). Disbursements that are no longer PROCESSING are left alone.
+   */
+  async completeSafeMultisigPayment(disbursementId: number, execution: SafeExecution): Promise<void> {
+    const disbursement = await this.prisma.disbursement.findUnique({ where: { id: disbursementId } });
+
+    if (!disbursement || disbursement.status !== DisbursementStatus.PROCESSING) {
+      logger.warn('Skipping Safe execution for disbursement', {
+        disbursementId,
+        status: disbursement?.status,
+      });
+      return;
+    }
+
+    if (execution.success) {
       await this.prisma.disbursement.update({
         where: { id: disbursementId },
         data: {
-          status: DisbursementStatus.FAILED,
-          failureReason: error instanceof Error ? error.message : String(error),
+          status: DisbursementStatus.CONFIRMED,
+          txHash: execution.transactionHash,
+          executedDate: execution.executedAt ?? new Date(),
         },
-      }).catch(() => {}); // Ignore update errors
+      });
 
-      throw error;
+      // Update invoice status
+      await this.prisma.invoice.update({
+        where: { id: disbursement.invoiceId },
+        data: {
+          status: 'PAID',
+          paidDate: new Date(),
+        },
+      });
+    } else {
+      await this.prisma.disbursement.update({
+        where: { id: disbursementId },
+        data: {
+          status: DisbursementStatus.FAILED,
+          txHash: execution.transactionHash,
+          failureReason: 'Safe transaction executed but the transfer reverted',
+        },
+      });
     }
+
+    logger.info('Safe multisig payment completed', {
+      disbursementId,
+      success: execution.success,
+      transactionHash: execution.transactionHash,
+    });
   }
 
   // Reconciliation
@@ -661,6 +873,110 @@ export class DisbursementService {
     }
   }
 
+  /**
+   * Apply status updates parsed from a bank return/NOC file. Returned entries fail
+   * the disbursement and reopen its invoice; NOCs correct the vendor's bank details.
+   * Re-applying the same file is a no-op.
+   */
+  async applyACHStatusUpdates(updates: ACHStatus[]): Promise<ACHReturnResult[]> {
+    const results: ACHReturnResult[] = [];
+
+    for (const update of updates) {
+      const traceNumber = update.traceNumber ?? update.transactionId;
+
+      try {
+        const disbursement = await this.prisma.disbursement.findFirst({
+          where: {
+            bankReference: traceNumber,
+            paymentMethod: PaymentMethod.ACH,
+          },
+          include: {
+            invoice: {
+              include: {
+                contract: {
+                  include: {
+                    vendor: true,
+                  },
+                },
+              },
+            },
+          },
+        });
+
+        if (!disbursement) {
+          logger.warn('No disbursement matches ACH trace number', { traceNumber, status: update.status });
+          results.push({ traceNumber, status: update.status, applied: false, error: 'No matching disbursement' });
+          continue;
+        }
+
+        if (update.status === 'RETURNED') {
+          if (disbursement.status === DisbursementStatus.FAILED) {
+            results.push({ traceNumber, disbursementId: disbursement.id, status: update.status, applied: false });
+            continue;
+          }
+
+          await this.prisma.disbursement.update({
+            where: { id: disbursement.id },
+            data: {
+              status: DisbursementStatus.FAILED,
+              failureReason: `ACH return ${update.returnCode}: ${update.returnReason}`,
+            },
+          });
+
+          if (disbursement.invoice.status === 'PAID') {
+            await this.prisma.invoice.update({
+              where: { id: disbursement.invoiceId },
+              data: {
+                status: 'APPROVED',
+                paidDate: null,
+              },
+            });
+          }
+
+          logger.warn('ACH payment returned', {
+            disbursementId: disbursement.id,
+            traceNumber,
+            returnCode: update.returnCode,
+          });
+        } else if (update.correction) {
+          const vendor = disbursement.invoice.contract.vendor;
+          const { routingNumber, accountNumber, accountType } = update.correction;
+          const corrected = Object.fromEntries(
+            Object.entries({ routingNumber, accountNumber, accountType }).filter(([, value]) => value !== undefined)
+          );
+
+          if (Object.keys(corrected).length > 0) {
+            await this.prisma.vendor.update({
+              where: { id: vendor.id },
+              data: {
+                bankDetails: sealBankDetails({ ...openBankDetails(vendor.bankDetails), ...corrected }) as any,
+              },
+            });
+          }
+
+          logger.info('Applied ACH notification of change', {
+            disbursementId: disbursement.id,
+            vendorId: vendor.id,
+            changeCode: update.changeCode,
+            fields: Object.keys(corrected),
+          });
+        }
+
+        results.push({ traceNumber, disbursementId: disbursement.id, status: update.status, applied: true });
+      } catch (error) {
+        logger.error('Failed to apply ACH status update', { error, traceNumber });
+        results.push({
+          traceNumber,
+          status: update.status,
+          applied: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return results;
+  }
+
   async matchBlockchainTransaction(disbursementId: number, txHash: string): Promise<void> {
     try {
       logger.info('Matching blockchain transaction', { disbursementId, txHash });
@@ -899,6 +1215,40 @@ export class DisbursementService {
   }
 
   // Helper methods
+
+  /**
+   * Screen the payee's names and wallet before money moves. A hit puts the
+   * disbursement ON_HOLD (name match) or BLOCKED (listed address) until a
+   * reviewer decides; without a screening service nothing is paid.
+   */
+  private async screenDisbursement(disbursement: Disbursement & { invoice: { contract: { vendor: any } } }): Promise<void> {
+    if (!this.screening) {
+      throw new Error('Sanctions screening is not configured');
+    }
+
+    const vendor = disbursement.invoice.contract.vendor;
+    const subject = {
+      subjectType: 'DISBURSEMENT' as const,
+      subjectRef: String(disbursement.id),
+      names: [vendor.name, vendor.legalName],
+      addresses: disbursement.paymentMethod === PaymentMethod.ACH ? [] : [vendor.cryptoAddress],
+      actor: disbursement.initiatedBy,
+    };
+    const result = await this.screening.screen(subject);
+    if (result.decision === 'CLEAR') {
+      return;
+    }
+
+    await this.prisma.disbursement.update({
+      where: { id: disbursement.id },
+      data: {
+        status: result.decision === 'BLOCK' ? DisbursementStatus.BLOCKED : DisbursementStatus.ON_HOLD,
+        failureReason: `Sanctions screening ${result.decision === 'BLOCK' ? 'block' : 'hold'}: hits ${result.hits.map(hit => hit.id).join(', ')}`,
+      },
+    });
+    throw new SanctionsScreeningError(subject, result);
+  }
+
   private async validatePaymentMethod(vendorId: number, paymentMethod: PaymentMethod): Promise<void> {
     const vendor = await this.prisma.vendor.findUnique({
       where: { id: vendorId },
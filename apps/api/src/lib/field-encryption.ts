@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { getEnv } from '../types/env.js';
+
+// Versioned so the key or cipher can be rotated without losing older values
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+/**
+ * Encrypt a sensitive column value (TIN, bank account number) with
+ * AES-256-GCM. The result is a self-describing string safe to store as text.
+ */
+export function encryptField(plaintext: string, key: Buffer = encryptionKey()): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return `${PREFIX}${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+export function decryptField(value: string, key: Buffer = encryptionKey()): string {
+  if (!isEncryptedField(value)) {
+    throw new Error('Value is not an encrypted field');
+  }
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Encrypted field is malformed');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+export function isEncryptedField(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export function encryptionKey(): Buffer {
+  const configured = getEnv().FIELD_ENCRYPTION_KEY;
+  if (!configured) {
+    throw new Error('FIELD_ENCRYPTION_KEY is not configured');
+  }
+
+  const key = Buffer.from(configured, 'base64');
+  if (key.length !== 32) {
+    throw new Error('FIELD_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  return key;
+}
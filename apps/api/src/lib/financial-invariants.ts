@@ -1,15 +1,21 @@
 import { prisma } from '@orenna/db';
-import { fromDollars, add, subtract, isPositive, Money } from '../adapters/finance';
+import { fromCents, subtract, isPositive, formatMoney, sum, Money, Currency } from '../adapters/finance';
+import { LedgerService, BucketBalances } from './ledger';
+import { FxRateService } from './fx-rates';
+import { getEnv } from '../types/env.js';
 
 export interface FinancialSummary {
   projectId: number;
+  currency: Currency; // Every amount below is converted into this currency
   depositsTotal: Money;
   contractsTotal: Money;
   invoicesTotal: Money;
   disbursementsTotal: Money;
+  fundedTotal: Money;
   liftTokensIssued: string;
   liftTokensRetired: string;
   balanceAvailable: Money;
+  balanceReserved: Money;
   balanceCommitted: Money;
   balanceEncumbered: Money;
   balanceDisbursed: Money;
@@ -26,10 +32,10 @@ export interface InvariantCheck {
 
 // MVP Financial Invariants per hybrid plan
 export const FINANCIAL_INVARIANTS = {
-  // 1. Deposits >= Disbursements + Available + Encumbered
+  // 1. Journal funding = Available + Reserved + Committed + Encumbered + Disbursed
   BALANCE_CONSERVATION: 'Balance Conservation',
   
-  // 2. Available + Committed + Encumbered + Disbursed = Total Deposits
+  // 2. Every completed deposit is posted to the journal
   BUCKET_COMPLETENESS: 'Bucket Completeness',
   
   // 3. Contract amounts = sum of related invoices
@@ -43,9 +49,18 @@ export const FINANCIAL_INVARIANTS = {
 } as const;
 
 /**
- * Calculate financial summary for a project
+ * Calculate financial summary for a project. Deposits, contracts, invoices and
+ * disbursements convert at the rate snapshotted when they were recorded, bucket
+ * balances at the latest rate.
  */
-export async function calculateFinancialSummary(projectId: number): Promise<FinancialSummary> {
+export async function calculateFinancialSummary(
+  projectId: number,
+  options: { currency?: Currency } = {}
+): Promise<FinancialSummary> {
+  const currency = (options.currency ?? getEnv().FINANCE_BASE_CURRENCY).toUpperCase();
+  const fx = new FxRateService(prisma);
+  const now = new Date();
+
   // Get all deposits for the project
   const deposits = await prisma.deposit.findMany({
     where: { projectId, status: 'COMPLETED' },
@@ -83,46 +98,53 @@ export async function calculateFinancialSummary(projectId: number): Promise<Fina
   });
 
   // Calculate totals
-  const depositsTotal = deposits.reduce(
-    (sum: Money, d: any) => add(sum, fromDollars(Number(d.amountCents) / 100)),
-    fromDollars(0)
+  const total = async <T>(rows: T[], amount: (row: T) => Money, asOf: (row: T) => Date, snapshot?: (row: T) => any) =>
+    sum(await Promise.all(rows.map(row => fx.convert(amount(row), currency, asOf(row), snapshot?.(row)))), currency, 2);
+
+  const depositsTotal = await total(
+    deposits,
+    (d: any) => fromCents(d.amountCents, d.currency),
+    (d: any) => d.depositedAt,
+    (d: any) => d
   );
 
-  const contractsTotal = contracts.reduce(
-    (sum: Money, c: any) => add(sum, fromDollars(Number(c.currentAmount) / 100)),
-    fromDollars(0)
+  const contractsTotal = await total(
+    contracts,
+    (c: any) => fromCents(BigInt(c.currentAmount), c.currency),
+    (c: any) => c.createdAt
   );
 
-  const invoicesTotal = invoices.reduce(
-    (sum: Money, i: any) => add(sum, fromDollars(Number(i.totalCents) / 100)),
-    fromDollars(0)
+  const invoicesTotal = await total(
+    invoices,
+    (i: any) => fromCents(i.totalCents, i.currency),
+    (i: any) => i.billingDate,
+    (i: any) => i
   );
 
-  const disbursementsTotal = disbursements.reduce(
-    (sum: Money, d: any) => add(sum, fromDollars(Number(d.amountCents) / 100)),
-    fromDollars(0)
+  const disbursementsTotal = await total(
+    disbursements,
+    (d: any) => fromCents(d.amountCents, d.currency),
+    (d: any) => d.createdAt,
+    (d: any) => d
   );
 
-  // Calculate bucket balances
-  const balanceAvailable = fundingBuckets.reduce(
-    (sum: Money, b: any) => add(sum, fromDollars(Number(b.availableCents) / 100)),
-    fromDollars(0)
+  // Bucket balances are projections over the journal
+  const ledger = new LedgerService(prisma);
+  const bucketBalances = await Promise.all(
+    fundingBuckets.map(async (bucket: any) => ({ bucket, balances: await ledger.getBucketBalances(bucket.id) }))
   );
-
-  const balanceCommitted = fundingBuckets.reduce(
-    (sum: Money, b: any) => add(sum, fromDollars(Number(b.committedCents) / 100)),
-    fromDollars(0)
+  const sumBalances = (pick: (b: BucketBalances) => bigint) => total(
+    bucketBalances,
+    ({ bucket, balances }: any) => fromCents(pick(balances), bucket.currency),
+    () => now
   );
 
-  const balanceEncumbered = fundingBuckets.reduce(
-    (sum: Money, b: any) => add(sum, fromDollars(Number(b.encumberedCents) / 100)),
-    fromDollars(0)
-  );
-
-  const balanceDisbursed = fundingBuckets.reduce(
-    (sum: Money, b: any) => add(sum, fromDollars(Number(b.disbursedCents) / 100)),
-    fromDollars(0)
-  );
+  const fundedTotal = await sumBalances(b => b.fundedCents);
+  const balanceAvailable = await sumBalances(b => b.availableCents);
+  const balanceReserved = await sumBalances(b => b.reservedCents);
+  const balanceCommitted = await sumBalances(b => b.committedCents);
+  const balanceEncumbered = await sumBalances(b => b.encumberedCents);
+  const balanceDisbursed = await sumBalances(b => b.disbursedCents);
 
   // Calculate lift token quantities
   const liftTokensIssued = liftTokens
@@ -137,13 +159,16 @@ export async function calculateFinancialSummary(projectId: number): Promise<Fina
 
   return {
     projectId,
+    currency,
     depositsTotal,
     contractsTotal,
     invoicesTotal,
     disbursementsTotal,
+    fundedTotal,
     liftTokensIssued,
     liftTokensRetired,
     balanceAvailable,
+    balanceReserved,
     balanceCommitted,
     balanceEncumbered,
     balanceDisbursed,
@@ -157,37 +182,10 @@ export async function checkFinancialInvariants(projectId: number): Promise<Invar
   const summary = await calculateFinancialSummary(projectId);
   const checks: InvariantCheck[] = [];
 
-  // 1. Balance Conservation: Deposits >= Disbursements + Available + Encumbered
-  const totalAllocated = add(
-    add(summary.disbursementsTotal, summary.balanceAvailable),
-    summary.balanceEncumbered
-  );
-  
-  checks.push({
-    name: FINANCIAL_INVARIANTS.BALANCE_CONSERVATION,
-    passed: summary.depositsTotal.cents >= totalAllocated.cents,
-    expected: `Deposits (${summary.depositsTotal.cents}) >= Allocated (${totalAllocated.cents})`,
-    actual: `Deposits: ${summary.depositsTotal.cents}, Allocated: ${totalAllocated.cents}`,
-    message: 'Total deposits must be greater than or equal to all allocated funds',
-  });
-
-  // 2. Bucket Completeness: Available + Committed + Encumbered + Disbursed = Total Deposits
-  const totalBucketBalance = add(
-    add(
-      add(summary.balanceAvailable, summary.balanceCommitted),
-      summary.balanceEncumbered
-    ),
-    summary.balanceDisbursed
-  );
-
-  checks.push({
-    name: FINANCIAL_INVARIANTS.BUCKET_COMPLETENESS,
-    passed: summary.depositsTotal.cents === totalBucketBalance.cents,
-    expected: summary.depositsTotal.cents.toString(),
-    actual: totalBucketBalance.cents.toString(),
-    tolerance: '100', // Allow $1 tolerance for rounding
-    message: 'All deposited funds must be accounted for in bucket balances',
-  });
+  // 1-2. Balance Conservation and Bucket Completeness, per bucket in the
+  // bucket's own currency so FX conversion cannot hide a difference
+  const bucketChecks = await checkBucketBalances(projectId);
+  checks.push(...bucketChecks);
 
   // 3. Contract-Invoice Consistency: Check a few contracts
   const contractInvoiceChecks = await checkContractInvoiceConsistency(projectId);
@@ -198,7 +196,7 @@ export async function checkFinancialInvariants(projectId: number): Promise<Invar
   checks.push(...invoiceDisbursementChecks);
 
   // 5. Lift Token Budget Constraint: Lift tokens <= available budget
-  const availableBudget = Number(summary.balanceAvailable.cents);
+  const availableBudget = Number(summary.balanceAvailable.amount);
   const liftTokenValue = Number(summary.liftTokensIssued) * 100; // Assuming $1 per lift token
   
   checks.push({
@@ -212,6 +210,60 @@ export async function checkFinancialInvariants(projectId: number): Promise<Invar
   return checks;
 }
 
+/**
+ * Check that each bucket's journal funding sits in exactly one of its
+ * positions and matches the completed deposits posted to it
+ */
+async function checkBucketBalances(projectId: number): Promise<InvariantCheck[]> {
+  const checks: InvariantCheck[] = [];
+  const ledger = new LedgerService(prisma);
+  const fx = new FxRateService(prisma);
+
+  const fundingBuckets = await prisma.fundingBucket.findMany({
+    where: { projectId, active: true },
+    include: {
+      deposits: { where: { status: 'COMPLETED' } },
+    },
+  });
+
+  for (const bucket of fundingBuckets) {
+    const balances = await ledger.getBucketBalances(bucket.id);
+    const funded = fromCents(balances.fundedCents, bucket.currency);
+    const positions = fromCents(
+      balances.availableCents + balances.reservedCents + balances.committedCents +
+        balances.encumberedCents + balances.disbursedCents,
+      bucket.currency
+    );
+
+    checks.push({
+      name: `${FINANCIAL_INVARIANTS.BALANCE_CONSERVATION} (Bucket ${bucket.id})`,
+      passed: funded.amount === positions.amount,
+      expected: funded.amount.toString(),
+      actual: positions.amount.toString(),
+      message: 'Funds posted to buckets must equal available + reserved + committed + encumbered + disbursed',
+    });
+
+    // Deposits were posted in the bucket's currency at the rate on the deposit date
+    const deposited = sum(
+      await Promise.all(bucket.deposits.map((deposit: any) =>
+        fx.convert(fromCents(deposit.amountCents, deposit.currency), bucket.currency, deposit.depositedAt)
+      )),
+      bucket.currency,
+      2
+    );
+
+    checks.push({
+      name: `${FINANCIAL_INVARIANTS.BUCKET_COMPLETENESS} (Bucket ${bucket.id})`,
+      passed: deposited.amount === funded.amount,
+      expected: deposited.amount.toString(),
+      actual: funded.amount.toString(),
+      message: 'All completed deposits must be posted to the general ledger',
+    });
+  }
+
+  return checks;
+}
+
 /**
  * Check contract-invoice consistency
  */
@@ -305,17 +357,19 @@ export async function generateFinancialIntegrityReport(projectId: number) {
     generatedAt: new Date().toISOString(),
     healthScore,
     summary: {
-      depositsTotal: `$${(Number(summary.depositsTotal.cents) / 100).toFixed(2)}`,
-      contractsTotal: `$${(Number(summary.contractsTotal.cents) / 100).toFixed(2)}`,
-      invoicesTotal: `$${(Number(summary.invoicesTotal.cents) / 100).toFixed(2)}`,
-      disbursementsTotal: `$${(Number(summary.disbursementsTotal.cents) / 100).toFixed(2)}`,
+      currency: summary.currency,
+      depositsTotal: formatMoney(summary.depositsTotal),
+      contractsTotal: formatMoney(summary.contractsTotal),
+      invoicesTotal: formatMoney(summary.invoicesTotal),
+      disbursementsTotal: formatMoney(summary.disbursementsTotal),
       liftTokensIssued: summary.liftTokensIssued,
       liftTokensRetired: summary.liftTokensRetired,
       balances: {
-        available: `$${(Number(summary.balanceAvailable.cents) / 100).toFixed(2)}`,
-        committed: `$${(Number(summary.balanceCommitted.cents) / 100).toFixed(2)}`,
-        encumbered: `$${(Number(summary.balanceEncumbered.cents) / 100).toFixed(2)}`,
-        disbursed: `$${(Number(summary.balanceDisbursed.cents) / 100).toFixed(2)}`,
+        available: formatMoney(summary.balanceAvailable),
+        reserved: formatMoney(summary.balanceReserved),
+        committed: formatMoney(summary.balanceCommitted),
+        encumbered: formatMoney(summary.balanceEncumbered),
+        disbursed: formatMoney(summary.balanceDisbursed),
       },
     },
     invariantChecks: {
@@ -338,12 +392,12 @@ function generateRecommendations(failedChecks: InvariantCheck[]): string[] {
     switch (check.name) {
       case FINANCIAL_INVARIANTS.BALANCE_CONSERVATION:
         recommendations.push(
-          'Review deposit records and ensure all funds are properly allocated to funding buckets'
+          'Run a trial balance and review journal entries for the affected funding buckets'
         );
         break;
       case FINANCIAL_INVARIANTS.BUCKET_COMPLETENESS:
         recommendations.push(
-          'Reconcile funding bucket balances to ensure all deposited funds are accounted for'
+          'Post any completed deposits that are missing from the general ledger'
         );
         break;
       case FINANCIAL_INVARIANTS.LIFT_TOKEN_BUDGET_CONSTRAINT:
@@ -0,0 +1,207 @@
+import { PrismaClient, Prisma, FxRate } from '@prisma/client';
+import csv from 'csv-parser';
+import { Readable } from 'stream';
+import { Money, Currency, convert, decimalsFor } from '../adapters/finance';
+import { logger } from '../utils/logger';
+
+export interface FxRateInput {
+  baseCurrency: Currency;
+  quoteCurrency: Currency;
+  rate: string; // Units of quote currency per unit of base currency
+  effectiveDate: Date;
+}
+
+/**
+ * Rate recorded on a deposit, invoice or disbursement when it is created, so
+ * later reports convert it the way it was booked
+ */
+export interface FxSnapshot {
+  fxRate: string;
+  fxBaseCurrency: Currency;
+  fxRateDate: Date;
+}
+
+export interface ResolvedRate {
+  rate: string;
+  effectiveDate: Date;
+}
+
+export class FxRateService {
+  constructor(private prisma: PrismaClient) {}
+
+  async setRate(input: FxRateInput, options: { source?: 'MANUAL' | 'CSV'; createdBy: string }): Promise<FxRate> {
+    const rate = normalizeRate(input);
+
+    return this.prisma.fxRate.upsert({
+      where: {
+        baseCurrency_quoteCurrency_effectiveDate: {
+          baseCurrency: rate.baseCurrency,
+          quoteCurrency: rate.quoteCurrency,
+          effectiveDate: rate.effectiveDate,
+        },
+      },
+      create: { ...rate, source: options.source ?? 'MANUAL', createdBy: options.createdBy },
+      update: { rate: rate.rate, source: options.source ?? 'MANUAL', createdBy: options.createdBy },
+    });
+  }
+
+  /**
+   * Import rates from a CSV with date, base, quote and rate columns. Rows for
+   * a pair and date that already exist replace the earlier rate.
+   */
+  async importRatesCsv(contents: string, createdBy: string): Promise<FxRate[]> {
+    const rows = await readRows(contents);
+    const inputs = rows.map((row, index) => {
+      const line = index + 2; // Header is line 1
+      const effectiveDate = new Date(`${row.date}T00:00:00Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date ?? '') || Number.isNaN(effectiveDate.getTime())) {
+        throw new Error(`Invalid date "${row.date ?? ''}" at line ${line}`);
+      }
+      try {
+        return normalizeRate({
+          baseCurrency: row.base ?? '',
+          quoteCurrency: row.quote ?? '',
+          rate: row.rate ?? '',
+          effectiveDate,
+        });
+      } catch (error) {
+        throw new Error(`${error instanceof Error ? error.message : String(error)} at line ${line}`);
+      }
+    });
+
+    const rates = await this.prisma.$transaction(async (tx) => {
+      const saved: FxRate[] = [];
+      for (const input of inputs) {
+        saved.push(await tx.fxRate.upsert({
+          where: {
+            baseCurrency_quoteCurrency_effectiveDate: {
+              baseCurrency: input.baseCurrency,
+              quoteCurrency: input.quoteCurrency,
+              effectiveDate: input.effectiveDate,
+            },
+          },
+          create: { ...input, source: 'CSV', createdBy },
+          update: { rate: input.rate, source: 'CSV', createdBy },
+        }));
+      }
+      return saved;
+    });
+
+    logger.info('Imported FX rates', { count: rates.length, createdBy });
+    return rates;
+  }
+
+  async listRates(filter: { baseCurrency?: Currency; quoteCurrency?: Currency; limit?: number } = {}): Promise<FxRate[]> {
+    return this.prisma.fxRate.findMany({
+      where: {
+        baseCurrency: filter.baseCurrency?.toUpperCase(),
+        quoteCurrency: filter.quoteCurrency?.toUpperCase(),
+      },
+      orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+      take: filter.limit ?? 100,
+    });
+  }
+
+  /**
+   * Latest rate effective on or before `asOf`, using the inverse of the
+   * opposite pair when only that one was entered
+   */
+  async findRate(from: Currency, to: Currency, asOf: Date): Promise<ResolvedRate | null> {
+    const base = from.toUpperCase();
+    const quote = to.toUpperCase();
+    if (base === quote) {
+      return { rate: '1', effectiveDate: asOf };
+    }
+
+    const [direct, inverse] = await Promise.all([
+      this.prisma.fxRate.findFirst({
+        where: { baseCurrency: base, quoteCurrency: quote, effectiveDate: { lte: asOf } },
+        orderBy: { effectiveDate: 'desc' },
+      }),
+      this.prisma.fxRate.findFirst({
+        where: { baseCurrency: quote, quoteCurrency: base, effectiveDate: { lte: asOf } },
+        orderBy: { effectiveDate: 'desc' },
+      }),
+    ]);
+
+    // Prefer whichever was entered for the more recent date
+    if (direct && (!inverse || direct.effectiveDate >= inverse.effectiveDate)) {
+      return { rate: new Prisma.Decimal(direct.rate).toFixed(), effectiveDate: direct.effectiveDate };
+    }
+    if (inverse) {
+      return {
+        rate: new Prisma.Decimal(1).div(inverse.rate).toDecimalPlaces(12, Prisma.Decimal.ROUND_HALF_UP).toFixed(),
+        effectiveDate: inverse.effectiveDate,
+      };
+    }
+    return null;
+  }
+
+  async getRate(from: Currency, to: Currency, asOf: Date): Promise<ResolvedRate> {
+    const rate = await this.findRate(from, to, asOf);
+    if (!rate) {
+      throw new Error(`No FX rate from ${from.toUpperCase()} to ${to.toUpperCase()} on or before ${asOf.toISOString().slice(0, 10)}`);
+    }
+    return rate;
+  }
+
+  async snapshot(currency: Currency, baseCurrency: Currency, asOf: Date = new Date()): Promise<FxSnapshot> {
+    const { rate, effectiveDate } = await this.getRate(currency, baseCurrency, asOf);
+    return { fxRate: rate, fxBaseCurrency: baseCurrency.toUpperCase(), fxRateDate: effectiveDate };
+  }
+
+  /**
+   * Convert into `to`, using the document's snapshot when it was booked in
+   * that currency and the rate effective at `asOf` otherwise
+   */
+  async convert(
+    amount: Money,
+    to: Currency,
+    asOf: Date,
+    snapshot?: { fxRate?: Prisma.Decimal | string | null; fxBaseCurrency?: string | null }
+  ): Promise<Money> {
+    const target = to.toUpperCase();
+    if (amount.currency === target) {
+      return amount;
+    }
+
+    const rate = snapshot?.fxRate && snapshot.fxBaseCurrency?.toUpperCase() === target
+      ? new Prisma.Decimal(snapshot.fxRate).toFixed()
+      : (await this.getRate(amount.currency, target, asOf)).rate;
+
+    // Amounts read from *Cents columns stay in cents so they can be summed with others
+    return convert(amount, rate, target, amount.decimals === 2 ? 2 : decimalsFor(target));
+  }
+}
+
+function normalizeRate(input: FxRateInput) {
+  const baseCurrency = input.baseCurrency.trim().toUpperCase();
+  const quoteCurrency = input.quoteCurrency.trim().toUpperCase();
+  if (!/^[A-Z]{3,5}$/.test(baseCurrency) || !/^[A-Z]{3,5}$/.test(quoteCurrency)) {
+    throw new Error(`Invalid currency pair ${input.baseCurrency}/${input.quoteCurrency}`);
+  }
+  if (baseCurrency === quoteCurrency) {
+    throw new Error(`FX rate needs two different currencies, got ${baseCurrency}`);
+  }
+  if (!/^\d+(\.\d{1,12})?$/.test(input.rate.trim()) || new Prisma.Decimal(input.rate.trim()).lte(0)) {
+    throw new Error(`Invalid FX rate "${input.rate}"`);
+  }
+
+  return {
+    baseCurrency,
+    quoteCurrency,
+    rate: new Prisma.Decimal(input.rate.trim()),
+    effectiveDate: input.effectiveDate,
+  };
+}
+
+function readRows(contents: string): Promise<Record<string, string>[]> {
+  return new Promise((resolve, reject) => {
+    const rows: Record<string, string>[] = [];
+    Readable.from([contents])
+      .pipe(csv({ mapHeaders: ({ header }) => header.trim().toLowerCase(), mapValues: ({ value }) => value.trim() }))
+      .on('data', row => rows.push(row))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
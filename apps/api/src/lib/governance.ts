@@ -527,7 +527,7 @@ export class GovernanceService {
 
     const dbProposal = await this.prisma.governanceProposal.create({
       data: {
-        proposalId: '0', // Will be updated after on-chain creation
+        proposalId: `draft-${crypto.randomUUID()}`, // Replaced with the on-chain id once submitted
         chainId,
         title: proposal.title,
         description: proposal.description,
@@ -1225,7 +1225,7 @@ export class GovernanceService {
     };
 
     voteCount.forEach((group) => {
-      const power = group._sum.votingPower || '0';
+      const power = group._sum.votingPower?.toFixed(0) ?? '0';
       switch (group.support) {
         case 'FOR':
           totals.forVotes = power;
@@ -1611,11 +1611,7 @@ export class GovernanceService {
     const milestone = await this.prisma.liftForwardMilestone.findUnique({
       where: { id: milestoneId },
       include: {
-        liftForward: {
-          include: {
-            proposal: true,
-          },
-        },
+        liftForward: true,
       },
     });
 
@@ -1,15 +1,98 @@
 import { FastifyInstance } from 'fastify';
+import { randomUUID } from 'crypto';
 import { Address, Hash, parseAbi, getContract, Log, decodeEventLog } from 'viem';
-import { blockchainService } from './blockchain.js';
+import { Prisma, IndexedEvent, IndexerState, PaymentStatus, DisbursementStatus, InvoiceStatus } from '@orenna/db';
+import { blockchainService, LIFT_TOKENS_ABI } from './blockchain.js';
 import { REPAYMENT_ESCROW_ABI, ALLOCATION_ESCROW_ABI } from './payment.js';
+import type { IndexerJobEvent } from './websocket-manager.js';
+import { SAFE_EVENTS_ABI } from './payment-rails/safe-provider.js';
+import { SafeProposalTracker, SafeProposalNotifier } from './safe-proposals.js';
+
+// How far back the indexer will look for a common ancestor when a reorg is detected
+const DEFAULT_MAX_REORG_DEPTH = 128;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const DEFAULT_BACKFILL_CHUNK_SIZE = 2000;
+const DEFAULT_BACKFILL_CONCURRENCY = 4;
+const REPLAY_PAGE_SIZE = 200;
 
 interface IndexerConfig {
   chainId: number;
   contractAddress: Address;
-  indexerType: 'RepaymentEscrow' | 'AllocationEscrow' | 'LiftTokens';
+  indexerType: 'RepaymentEscrow' | 'AllocationEscrow' | 'LiftTokens' | 'SafeMultisig';
   startBlock?: number;
   confirmations?: number;
   batchSize?: number;
+  maxReorgDepth?: number;
+}
+
+/**
+ * Database side effects caused by processing an indexed event. They are stored
+ * on the IndexedEvent so the changes can be reverted if its block is orphaned.
+ */
+type IndexerEffect =
+  | { kind: 'payment.created'; paymentId: string }
+  | { kind: 'payment.updated'; paymentId: string; previous: { status: PaymentStatus; proceedsNotified: boolean; confirmedAt: string | null } }
+  | { kind: 'paymentEvent.created'; paymentEventId: string }
+  | { kind: 'liftToken.created'; liftTokenId: number }
+  | { kind: 'liftToken.updated'; liftTokenId: number; previous: LiftTokenSnapshot }
+  | { kind: 'liftTokenEvent.created'; liftTokenEventId: number }
+  | { kind: 'project.updated'; projectId: number; previous: { meta: Prisma.JsonValue } }
+  | { kind: 'safeProposal.updated'; safeProposalId: number; previous: { status: string; executionTxHash: string | null; executedAt: string | null } }
+  | { kind: 'safeConfirmation.created'; safeConfirmationId: number }
+  | { kind: 'disbursement.updated'; disbursementId: number; previous: { status: DisbursementStatus; txHash: string | null; executedDate: string | null; failureReason: string | null } }
+  | { kind: 'invoice.updated'; invoiceId: number; previous: { status: InvoiceStatus; paidDate: string | null } };
+
+interface LiftTokenSnapshot {
+  status: string;
+  meta: Prisma.JsonValue;
+  quantity?: string | null;
+  projectId?: number | null;
+  issuedAt?: string | null;
+  retiredAt?: string | null;
+}
+
+interface ChainBlockRef {
+  number: number;
+  hash: string;
+}
+
+interface BackfillOptions {
+  chainId: number;
+  contractAddress: Address;
+  indexerType: IndexerConfig['indexerType'];
+  fromBlock: number;
+  toBlock: number;
+  chunkSize?: number;
+  concurrency?: number;
+}
+
+interface ReplayOptions {
+  chainId: number;
+  contractAddress: Address;
+  indexerType: IndexerConfig['indexerType'];
+  fromBlock?: number;
+  toBlock?: number;
+  eventName?: string;
+}
+
+export interface IndexerJob {
+  id: string;
+  type: 'backfill' | 'replay';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  chainId: number;
+  contractAddress: string;
+  indexerType: IndexerConfig['indexerType'];
+  fromBlock?: number;
+  toBlock?: number;
+  total: number;
+  completed: number;
+  processed: number;
+  failed: number;
+  errors: string[];
+  startedAt: Date;
+  finishedAt?: Date;
 }
 
 interface EventProcessingResult {
@@ -22,8 +105,12 @@ interface EventProcessingResult {
 export class BlockchainIndexer {
   private isRunning = false;
   private intervalIds: Map<string, NodeJS.Timeout> = new Map();
+  private jobs: Map<string, IndexerJob> = new Map();
+  private safeProposals: SafeProposalTracker;
 
-  constructor(private app: FastifyInstance) {}
+  constructor(private app: FastifyInstance, options: { safeProposalNotifier?: SafeProposalNotifier } = {}) {
+    this.safeProposals = new SafeProposalTracker(app.prisma, { notifier: options.safeProposalNotifier });
+  }
 
   async startIndexing(configs: IndexerConfig[]): Promise<void> {
     if (this.isRunning) {
@@ -118,12 +205,15 @@ export class BlockchainIndexer {
     const currentBlock = await publicClient.getBlockNumber();
     const confirmedBlock = currentBlock - BigInt(state.confirmations);
 
-    if (BigInt(state.lastBlockNumber) >= confirmedBlock) {
+    // Rewind the cursor first if the last indexed block is no longer canonical
+    const lastBlockNumber = await this.checkForReorg(config, state);
+
+    if (BigInt(lastBlockNumber) >= confirmedBlock) {
       // No new confirmed blocks to process
       return { processed: 0, failed: 0, lastBlock: Number(confirmedBlock), errors: [] };
     }
 
-    const fromBlock = BigInt(Math.max(state.lastBlockNumber + 1, state.startBlock));
+    const fromBlock = BigInt(Math.max(lastBlockNumber + 1, state.startBlock));
     const toBlock = BigInt(Math.min(
       Number(fromBlock) + (config.batchSize || 1000),
       Number(confirmedBlock)
@@ -140,8 +230,9 @@ export class BlockchainIndexer {
     const events = await this.fetchContractEvents(config, fromBlock, toBlock);
     const result = await this.processEventBatch(config, events);
 
-    // Update indexer state
-    await this.updateIndexerState(config, Number(toBlock));
+    // Update indexer state, remembering the hash so the next run can detect a reorg
+    const lastBlock = await publicClient.getBlock({ blockNumber: toBlock, includeTransactions: false });
+    await this.updateIndexerState(config, Number(toBlock), lastBlock.hash);
 
     return {
       ...result,
@@ -149,6 +240,298 @@ export class BlockchainIndexer {
     };
   }
 
+  private async checkForReorg(config: IndexerConfig, state: IndexerState): Promise<number> {
+    if (!state.lastBlockHash || state.lastBlockNumber <= 0) {
+      return state.lastBlockNumber;
+    }
+
+    const publicClient = blockchainService.getPublicClient(config.chainId);
+    const canonical = await publicClient.getBlock({
+      blockNumber: BigInt(state.lastBlockNumber),
+      includeTransactions: false
+    });
+
+    if (canonical.hash === state.lastBlockHash) {
+      return state.lastBlockNumber;
+    }
+
+    this.app.log.warn({
+      indexerType: config.indexerType,
+      chainId: config.chainId,
+      blockNumber: state.lastBlockNumber,
+      indexedHash: state.lastBlockHash,
+      canonicalHash: canonical.hash
+    }, 'Chain reorganization detected');
+
+    const ancestor = await this.findCommonAncestor(config, state);
+    await this.rollbackToBlock(config, ancestor);
+
+    return ancestor.number;
+  }
+
+  /**
+   * Walks back over the blocks we stored events for until one still matches the
+   * canonical chain. Blocks without stored events can't be checked, so when no
+   * stored block in the window changed only the reorged block is rolled back,
+   * and otherwise the cursor goes back to just below the oldest changed one. The
+   * reorg is only treated as too deep when stored hashes still mismatch below
+   * maxReorgDepth, in which case the cursor is rewound to the edge of the window.
+   */
+  private async findCommonAncestor(config: IndexerConfig, state: IndexerState): Promise<ChainBlockRef> {
+    const publicClient = blockchainService.getPublicClient(config.chainId);
+    const maxDepth = config.maxReorgDepth ?? DEFAULT_MAX_REORG_DEPTH;
+    const floor = Math.max(state.startBlock, state.lastBlockNumber - maxDepth);
+    const storedBlockWhere = {
+      chainId: config.chainId,
+      contractAddress: config.contractAddress.toLowerCase(),
+      orphaned: false
+    };
+
+    const storedBlocks = await this.app.prisma.indexedEvent.findMany({
+      where: { ...storedBlockWhere, blockNumber: { gt: floor, lte: state.lastBlockNumber } },
+      distinct: ['blockNumber'],
+      select: { blockNumber: true, blockHash: true },
+      orderBy: { blockNumber: 'desc' }
+    });
+
+    // The last indexed block is the one checkForReorg found replaced
+    let oldestChanged = state.lastBlockNumber;
+
+    for (const stored of storedBlocks) {
+      const block = await publicClient.getBlock({
+        blockNumber: BigInt(stored.blockNumber),
+        includeTransactions: false
+      });
+
+      if (block.hash === stored.blockHash) {
+        return { number: stored.blockNumber, hash: block.hash };
+      }
+
+      oldestChanged = stored.blockNumber;
+    }
+
+    if (oldestChanged < state.lastBlockNumber && floor > state.startBlock) {
+      const below = await this.app.prisma.indexedEvent.findFirst({
+        where: { ...storedBlockWhere, blockNumber: { lte: floor } },
+        select: { blockNumber: true, blockHash: true },
+        orderBy: { blockNumber: 'desc' }
+      });
+      const belowBlock = below && await publicClient.getBlock({
+        blockNumber: BigInt(below.blockNumber),
+        includeTransactions: false
+      });
+
+      if (below && belowBlock && belowBlock.hash !== below.blockHash) {
+        const floorBlock = await publicClient.getBlock({
+          blockNumber: BigInt(floor),
+          includeTransactions: false
+        });
+
+        this.app.log.error({
+          indexerType: config.indexerType,
+          chainId: config.chainId,
+          floor,
+          maxDepth
+        }, 'No common ancestor found within max reorg depth, rewinding to window edge');
+        await this.recordIndexerError(config, `Reorg deeper than ${maxDepth} blocks, events below block ${floor} were not re-verified`);
+
+        return { number: floor, hash: floorBlock.hash };
+      }
+    }
+
+    const ancestorNumber = oldestChanged - 1;
+    const ancestor = await publicClient.getBlock({
+      blockNumber: BigInt(ancestorNumber),
+      includeTransactions: false
+    });
+
+    return { number: ancestorNumber, hash: ancestor.hash };
+  }
+
+  /**
+   * Marks every event above the ancestor as orphaned, reverting the side effects
+   * each one caused (newest first), and moves the cursor back to the ancestor so
+   * the next batch re-indexes the canonical blocks.
+   */
+  private async rollbackToBlock(config: IndexerConfig, ancestor: ChainBlockRef): Promise<void> {
+    const orphanedEvents = await this.app.prisma.indexedEvent.findMany({
+      where: {
+        chainId: config.chainId,
+        contractAddress: config.contractAddress.toLowerCase(),
+        orphaned: false,
+        blockNumber: { gt: ancestor.number }
+      },
+      orderBy: [
+        { blockNumber: 'desc' },
+        { logIndex: 'desc' }
+      ]
+    });
+
+    for (const event of orphanedEvents) {
+      await this.app.prisma.$transaction(async (tx) => {
+        await this.revertEventEffects(tx, event);
+
+        await tx.indexedEvent.update({
+          where: { id: event.id },
+          data: {
+            orphaned: true,
+            orphanedAt: new Date(),
+            processed: false,
+            processedAt: null,
+            relatedPaymentId: null,
+            metadata: {
+              ...this.getEventMetadata(event),
+              effects: [],
+              revertedEffects: this.getEventEffects(event)
+            } as Prisma.InputJsonValue
+          }
+        });
+      });
+    }
+
+    await this.app.prisma.indexerState.update({
+      where: {
+        chainId_contractAddress_indexerType: {
+          chainId: config.chainId,
+          contractAddress: config.contractAddress.toLowerCase(),
+          indexerType: config.indexerType
+        }
+      },
+      data: {
+        lastBlockNumber: ancestor.number,
+        lastBlockHash: ancestor.hash
+      }
+    });
+
+    this.app.log.info({
+      indexerType: config.indexerType,
+      chainId: config.chainId,
+      ancestorBlock: ancestor.number,
+      orphanedEvents: orphanedEvents.length
+    }, 'Rolled back to common ancestor');
+  }
+
+  private async revertEventEffects(tx: Prisma.TransactionClient, event: IndexedEvent): Promise<void> {
+    const effects = this.getEventEffects(event);
+
+    for (const effect of [...effects].reverse()) {
+      switch (effect.kind) {
+        case 'payment.created':
+          await tx.indexedEvent.updateMany({
+            where: { relatedPaymentId: effect.paymentId },
+            data: { relatedPaymentId: null }
+          });
+          await tx.payment.deleteMany({ where: { id: effect.paymentId } });
+          break;
+        case 'payment.updated':
+          await tx.payment.updateMany({
+            where: { id: effect.paymentId },
+            data: {
+              status: effect.previous.status,
+              proceedsNotified: effect.previous.proceedsNotified,
+              confirmedAt: effect.previous.confirmedAt ? new Date(effect.previous.confirmedAt) : null
+            }
+          });
+          break;
+        case 'paymentEvent.created':
+          await tx.paymentEvent.deleteMany({ where: { id: effect.paymentEventId } });
+          break;
+        case 'liftToken.created':
+          await tx.liftToken.deleteMany({ where: { id: effect.liftTokenId } });
+          break;
+        case 'liftToken.updated':
+          await tx.liftToken.updateMany({
+            where: { id: effect.liftTokenId },
+            data: this.restoreLiftTokenSnapshot(effect.previous)
+          });
+          break;
+        case 'liftTokenEvent.created':
+          await tx.liftTokenEvent.deleteMany({ where: { id: effect.liftTokenEventId } });
+          break;
+        case 'project.updated':
+          await tx.project.updateMany({
+            where: { id: effect.projectId },
+            data: { meta: effect.previous.meta ?? Prisma.JsonNull }
+          });
+          break;
+        case 'safeProposal.updated':
+          await tx.safeProposal.updateMany({
+            where: { id: effect.safeProposalId },
+            data: {
+              status: effect.previous.status,
+              executionTxHash: effect.previous.executionTxHash,
+              executedAt: effect.previous.executedAt ? new Date(effect.previous.executedAt) : null
+            }
+          });
+          break;
+        case 'safeConfirmation.created':
+          await tx.safeConfirmation.deleteMany({ where: { id: effect.safeConfirmationId } });
+          break;
+        case 'disbursement.updated':
+          await tx.disbursement.updateMany({
+            where: { id: effect.disbursementId },
+            data: {
+              status: effect.previous.status,
+              txHash: effect.previous.txHash,
+              executedDate: effect.previous.executedDate ? new Date(effect.previous.executedDate) : null,
+              failureReason: effect.previous.failureReason
+            }
+          });
+          break;
+        case 'invoice.updated':
+          await tx.invoice.updateMany({
+            where: { id: effect.invoiceId },
+            data: {
+              status: effect.previous.status,
+              paidDate: effect.previous.paidDate ? new Date(effect.previous.paidDate) : null
+            }
+          });
+          break;
+      }
+    }
+  }
+
+  private snapshotLiftToken(liftToken: {
+    status: string;
+    meta: Prisma.JsonValue;
+    quantity: Prisma.Decimal | null;
+    projectId: number | null;
+    issuedAt: Date | null;
+    retiredAt: Date | null;
+  }): LiftTokenSnapshot {
+    return {
+      status: liftToken.status,
+      meta: liftToken.meta,
+      quantity: liftToken.quantity?.toString() ?? null,
+      projectId: liftToken.projectId,
+      issuedAt: liftToken.issuedAt?.toISOString() ?? null,
+      retiredAt: liftToken.retiredAt?.toISOString() ?? null
+    };
+  }
+
+  private restoreLiftTokenSnapshot(snapshot: LiftTokenSnapshot): Prisma.LiftTokenUncheckedUpdateManyInput {
+    const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+    return {
+      status: snapshot.status,
+      meta: snapshot.meta ?? Prisma.JsonNull,
+      ...(snapshot.quantity !== undefined && { quantity: snapshot.quantity }),
+      ...(snapshot.projectId !== undefined && { projectId: snapshot.projectId }),
+      ...(snapshot.issuedAt !== undefined && { issuedAt: toDate(snapshot.issuedAt) }),
+      ...(snapshot.retiredAt !== undefined && { retiredAt: toDate(snapshot.retiredAt) })
+    };
+  }
+
+  private getEventMetadata(event: IndexedEvent): Record<string, any> {
+    return event.metadata && typeof event.metadata === 'object' && !Array.isArray(event.metadata)
+      ? (event.metadata as Record<string, any>)
+      : {};
+  }
+
+  private getEventEffects(event: IndexedEvent): IndexerEffect[] {
+    return (this.getEventMetadata(event).effects ?? []) as IndexerEffect[];
+  }
+
   private async fetchContractEvents(
     config: IndexerConfig,
     fromBlock: bigint,
@@ -216,7 +599,7 @@ export class BlockchainIndexer {
       }
     });
 
-    if (existing) {
+    if (existing && !existing.orphaned) {
       return; // Skip already processed events
     }
 
@@ -230,25 +613,36 @@ export class BlockchainIndexer {
     // Decode the event based on contract type
     const decodedEvent = this.decodeEvent(config, event);
 
-    // Store the indexed event
-    const indexedEvent = await this.app.prisma.indexedEvent.create({
-      data: {
-        chainId: config.chainId,
-        contractAddress: config.contractAddress.toLowerCase(),
-        eventName: decodedEvent?.eventName || 'Unknown',
-        eventSignature: event.topics[0]!,
-        blockNumber: Number(event.blockNumber!),
-        blockHash: event.blockHash!,
-        blockTimestamp: new Date(Number(block.timestamp) * 1000),
-        txHash: event.transactionHash!,
-        txIndex: event.transactionIndex!,
-        logIndex: event.logIndex!,
-        topics: event.topics,
-        data: event.data,
-        decodedArgs: decodedEvent?.args || {},
-        processed: false
-      }
-    });
+    const eventData = {
+      chainId: config.chainId,
+      contractAddress: config.contractAddress.toLowerCase(),
+      eventName: decodedEvent?.eventName || 'Unknown',
+      eventSignature: event.topics[0]!,
+      blockNumber: Number(event.blockNumber!),
+      blockHash: event.blockHash!,
+      blockTimestamp: new Date(Number(block.timestamp) * 1000),
+      txHash: event.transactionHash!,
+      txIndex: event.transactionIndex!,
+      logIndex: event.logIndex!,
+      topics: event.topics,
+      data: event.data,
+      decodedArgs: this.serializeEventArgs(decodedEvent?.args || {}),
+      processed: false
+    };
+
+    // Store the indexed event. A log that was orphaned by a reorg and re-included
+    // in a canonical block keeps its row, which is revived with the new block data.
+    const indexedEvent = existing
+      ? await this.app.prisma.indexedEvent.update({
+          where: { id: existing.id },
+          data: {
+            ...eventData,
+            orphaned: false,
+            orphanedAt: null,
+            processingError: null
+          }
+        })
+      : await this.app.prisma.indexedEvent.create({ data: eventData });
 
     // Process the event for business logic
     await this.handleEventBusinessLogic(config, decodedEvent, indexedEvent.id);
@@ -265,6 +659,12 @@ export class BlockchainIndexer {
         case 'AllocationEscrow':
           abi = ALLOCATION_ESCROW_ABI;
           break;
+        case 'LiftTokens':
+          abi = LIFT_TOKENS_ABI;
+          break;
+        case 'SafeMultisig':
+          abi = SAFE_EVENTS_ABI;
+          break;
         default:
           return null;
       }
@@ -297,13 +697,21 @@ export class BlockchainIndexer {
       return;
     }
 
+    const effects: IndexerEffect[] = [];
+
     try {
       switch (config.indexerType) {
         case 'RepaymentEscrow':
-          await this.handleRepaymentEscrowEvent(decodedEvent, indexedEventId);
+          await this.handleRepaymentEscrowEvent(decodedEvent, indexedEventId, effects);
           break;
         case 'AllocationEscrow':
-          await this.handleAllocationEscrowEvent(decodedEvent, indexedEventId);
+          await this.handleAllocationEscrowEvent(decodedEvent, indexedEventId, effects);
+          break;
+        case 'LiftTokens':
+          await this.handleLiftTokensEvent(decodedEvent, indexedEventId, effects);
+          break;
+        case 'SafeMultisig':
+          await this.handleSafeMultisigEvent(decodedEvent, indexedEventId, effects);
           break;
       }
 
@@ -312,17 +720,19 @@ export class BlockchainIndexer {
         where: { id: indexedEventId },
         data: { 
           processed: true, 
-          processedAt: new Date() 
+          processedAt: new Date(),
+          metadata: await this.mergeEventEffects(indexedEventId, effects)
         }
       });
 
     } catch (error) {
-      // Record processing error
+      // Record processing error, keeping any effects that were applied before the failure
       await this.app.prisma.indexedEvent.update({
         where: { id: indexedEventId },
         data: { 
           processingError: error.message,
-          retryCount: { increment: 1 }
+          retryCount: { increment: 1 },
+          metadata: await this.mergeEventEffects(indexedEventId, effects)
         }
       });
       
@@ -330,13 +740,22 @@ export class BlockchainIndexer {
     }
   }
 
+  private async mergeEventEffects(indexedEventId: string, effects: IndexerEffect[]): Promise<Prisma.InputJsonValue> {
+    const event = await this.app.prisma.indexedEvent.findUnique({ where: { id: indexedEventId } });
+    const metadata = event ? this.getEventMetadata(event) : {};
+    const previous = event ? this.getEventEffects(event) : [];
+
+    return { ...metadata, effects: [...previous, ...effects] } as Prisma.InputJsonValue;
+  }
+
   private async handleRepaymentEscrowEvent(
     event: { eventName: string; args: any },
-    indexedEventId: string
+    indexedEventId: string,
+    effects: IndexerEffect[]
   ): Promise<void> {
     switch (event.eventName) {
       case 'ProceedsReceived':
-        await this.handleProceedsReceived(event.args, indexedEventId);
+        await this.handleProceedsReceived(event.args, indexedEventId, effects);
         break;
       case 'PaidFunder':
         await this.handlePaidFunder(event.args, indexedEventId);
@@ -352,11 +771,12 @@ export class BlockchainIndexer {
 
   private async handleAllocationEscrowEvent(
     event: { eventName: string; args: any },
-    indexedEventId: string
+    indexedEventId: string,
+    effects: IndexerEffect[]
   ): Promise<void> {
     switch (event.eventName) {
       case 'UnitsSold':
-        await this.handleUnitsSold(event.args, indexedEventId);
+        await this.handleUnitsSold(event.args, indexedEventId, effects);
         break;
       case 'MarketWindowOpened':
         await this.handleMarketWindowOpened(event.args, indexedEventId);
@@ -367,7 +787,428 @@ export class BlockchainIndexer {
     }
   }
 
-  private async handleProceedsReceived(args: any, indexedEventId: string): Promise<void> {
+  private async handleLiftTokensEvent(
+    event: { eventName: string; args: any },
+    indexedEventId: string,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const indexedEvent = await this.app.prisma.indexedEvent.findUnique({ where: { id: indexedEventId } });
+    if (!indexedEvent) {
+      return;
+    }
+
+    const { args } = event;
+
+    switch (event.eventName) {
+      case 'TransferSingle':
+        // Mints are recorded from the transfer; burns are recorded from the Retired event
+        if (args.from.toLowerCase() === ZERO_ADDRESS) {
+          await this.handleLiftTokenMinted(args.id, args.value, args.to, indexedEvent, effects);
+        }
+        break;
+      case 'TransferBatch':
+        if (args.from.toLowerCase() === ZERO_ADDRESS) {
+          for (let i = 0; i < args.ids.length; i++) {
+            await this.handleLiftTokenMinted(args.ids[i], args.values[i], args.to, indexedEvent, effects);
+          }
+        }
+        break;
+      case 'VerifiedIssuance':
+        await this.handleVerifiedIssuance(args, indexedEvent, effects);
+        break;
+      case 'Retired':
+        await this.handleLiftTokenRetired(args, indexedEvent, effects);
+        break;
+      case 'VerificationSubmitted':
+      case 'VerificationCompleted':
+        await this.handleProjectVerificationEvent(event, indexedEvent, effects);
+        break;
+    }
+  }
+
+  private async handleSafeMultisigEvent(
+    event: { eventName: string; args: any },
+    indexedEventId: string,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const indexedEvent = await this.app.prisma.indexedEvent.findUnique({ where: { id: indexedEventId } });
+    if (!indexedEvent) {
+      return;
+    }
+
+    switch (event.eventName) {
+      case 'ExecutionSuccess':
+      case 'ExecutionFailure':
+        await this.handleSafeExecution(event.args, event.eventName === 'ExecutionSuccess', indexedEvent, effects);
+        break;
+      case 'ApproveHash':
+        await this.handleSafeApproveHash(event.args, effects);
+        break;
+    }
+  }
+
+  private async handleSafeExecution(
+    args: any,
+    success: boolean,
+    indexedEvent: IndexedEvent,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const proposal = await this.app.prisma.safeProposal.findUnique({
+      where: { safeTxHash: String(args.txHash).toLowerCase() }
+    });
+
+    // Other Safe transactions (owner changes, manual transfers) are not tracked
+    if (!proposal || !['PENDING_SIGNATURES', 'EXECUTABLE'].includes(proposal.status)) {
+      return;
+    }
+
+    // Snapshot what recordExecution is about to change so a reorg can undo it
+    const disbursements = await this.app.prisma.disbursement.findMany({
+      where: { id: { in: proposal.disbursementIds }, status: 'PROCESSING' },
+      include: { invoice: { select: { id: true, status: true, paidDate: true } } }
+    });
+
+    effects.push({
+      kind: 'safeProposal.updated',
+      safeProposalId: proposal.id,
+      previous: {
+        status: proposal.status,
+        executionTxHash: proposal.executionTxHash,
+        executedAt: proposal.executedAt?.toISOString() ?? null
+      }
+    });
+    for (const disbursement of disbursements) {
+      effects.push({
+        kind: 'disbursement.updated',
+        disbursementId: disbursement.id,
+        previous: {
+          status: disbursement.status,
+          txHash: disbursement.txHash,
+          executedDate: disbursement.executedDate?.toISOString() ?? null,
+          failureReason: disbursement.failureReason
+        }
+      });
+      if (success) {
+        effects.push({
+          kind: 'invoice.updated',
+          invoiceId: disbursement.invoice.id,
+          previous: {
+            status: disbursement.invoice.status,
+            paidDate: disbursement.invoice.paidDate?.toISOString() ?? null
+          }
+        });
+      }
+    }
+
+    await this.safeProposals.recordExecution(proposal.safeTxHash, {
+      success,
+      transactionHash: indexedEvent.txHash,
+      executedAt: indexedEvent.blockTimestamp
+    });
+  }
+
+  // An owner approved the Safe transaction on-chain instead of signing off-chain
+  private async handleSafeApproveHash(args: any, effects: IndexerEffect[]): Promise<void> {
+    const safeTxHash = String(args.approvedHash).toLowerCase();
+    const owner = String(args.owner).toLowerCase();
+
+    const proposal = await this.app.prisma.safeProposal.findUnique({
+      where: { safeTxHash },
+      include: { confirmations: true }
+    });
+
+    if (
+      !proposal ||
+      !['PENDING_SIGNATURES', 'EXECUTABLE'].includes(proposal.status) ||
+      !proposal.owners.includes(owner) ||
+      proposal.confirmations.some(c => c.signer === owner)
+    ) {
+      return;
+    }
+
+    await this.safeProposals.recordConfirmation(safeTxHash, { signer: owner, source: 'ONCHAIN' });
+
+    const confirmation = await this.app.prisma.safeConfirmation.findUnique({
+      where: { proposalId_signer: { proposalId: proposal.id, signer: owner } }
+    });
+    if (confirmation) {
+      effects.push({ kind: 'safeConfirmation.created', safeConfirmationId: confirmation.id });
+    }
+  }
+
+  private async handleLiftTokenMinted(
+    id: any,
+    value: any,
+    to: string,
+    indexedEvent: IndexedEvent,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const tokenId = id.toString();
+    const amount = value.toString();
+    const existing = await this.app.prisma.liftToken.findUnique({ where: { tokenId } });
+
+    if (existing && await this.hasLiftTokenEvent(existing.id, 'ISSUED', indexedEvent.txHash)) {
+      return;
+    }
+
+    let liftTokenId: number;
+
+    if (existing) {
+      await this.app.prisma.liftToken.update({
+        where: { id: existing.id },
+        data: {
+          status: 'ISSUED',
+          quantity: new Prisma.Decimal(existing.quantity ?? 0).plus(amount),
+          chainId: existing.chainId ?? indexedEvent.chainId,
+          contractAddress: existing.contractAddress ?? indexedEvent.contractAddress,
+          issuedAt: existing.issuedAt ?? indexedEvent.blockTimestamp
+        }
+      });
+      effects.push({ kind: 'liftToken.updated', liftTokenId: existing.id, previous: this.snapshotLiftToken(existing) });
+      liftTokenId = existing.id;
+    } else {
+      const created = await this.app.prisma.liftToken.create({
+        data: {
+          tokenId,
+          chainId: indexedEvent.chainId,
+          contractAddress: indexedEvent.contractAddress,
+          status: 'ISSUED',
+          quantity: amount,
+          issuedAt: indexedEvent.blockTimestamp,
+          meta: { createdFromEvent: true }
+        }
+      });
+      effects.push({ kind: 'liftToken.created', liftTokenId: created.id });
+      liftTokenId = created.id;
+    }
+
+    await this.recordLiftTokenEvent(liftTokenId, 'ISSUED', indexedEvent, {
+      to: to.toLowerCase(),
+      amount
+    }, effects);
+  }
+
+  private async handleVerifiedIssuance(args: any, indexedEvent: IndexedEvent, effects: IndexerEffect[]): Promise<void> {
+    const projectId = Number(args.projectId);
+    const project = await this.app.prisma.project.findUnique({ where: { id: projectId }, select: { id: true } });
+
+    for (let i = 0; i < args.tokenIds.length; i++) {
+      const tokenId = args.tokenIds[i].toString();
+      const liftToken = await this.app.prisma.liftToken.findUnique({ where: { tokenId } });
+
+      if (!liftToken) {
+        this.app.log.warn({ tokenId, txHash: indexedEvent.txHash }, 'Verified issuance for unknown lift token');
+        continue;
+      }
+
+      if (await this.hasLiftTokenEvent(liftToken.id, 'VERIFIED_ISSUANCE', indexedEvent.txHash)) {
+        continue;
+      }
+
+      await this.app.prisma.liftToken.update({
+        where: { id: liftToken.id },
+        data: {
+          projectId: project ? project.id : liftToken.projectId,
+          meta: {
+            ...((liftToken.meta as Record<string, any>) || {}),
+            onChainProjectId: projectId,
+            certificateCid: args.certificateCid
+          }
+        }
+      });
+      effects.push({ kind: 'liftToken.updated', liftTokenId: liftToken.id, previous: this.snapshotLiftToken(liftToken) });
+
+      await this.recordLiftTokenEvent(liftToken.id, 'VERIFIED_ISSUANCE', indexedEvent, {
+        projectId,
+        certificateCid: args.certificateCid,
+        amount: args.amounts[i].toString(),
+        totalIssued: args.totalIssued.toString()
+      }, effects);
+    }
+  }
+
+  private async handleLiftTokenRetired(args: any, indexedEvent: IndexedEvent, effects: IndexerEffect[]): Promise<void> {
+    const tokenId = args.tokenId.toString();
+    const amount = args.amount.toString();
+    const liftToken = await this.app.prisma.liftToken.findUnique({ where: { tokenId } });
+
+    if (!liftToken) {
+      this.app.log.warn({ tokenId, txHash: indexedEvent.txHash }, 'Retirement for unknown lift token');
+      return;
+    }
+
+    if (await this.hasLiftTokenEvent(liftToken.id, 'RETIRED', indexedEvent.txHash)) {
+      return;
+    }
+
+    const meta = (liftToken.meta as Record<string, any>) || {};
+    const retiredAmount = new Prisma.Decimal(meta.retiredAmount ?? 0).plus(amount);
+    const fullyRetired = liftToken.quantity !== null && retiredAmount.gte(liftToken.quantity);
+
+    await this.app.prisma.liftToken.update({
+      where: { id: liftToken.id },
+      data: {
+        status: fullyRetired ? 'RETIRED' : liftToken.status,
+        retiredAt: fullyRetired ? indexedEvent.blockTimestamp : liftToken.retiredAt,
+        meta: {
+          ...meta,
+          retiredAmount: retiredAmount.toString()
+        }
+      }
+    });
+    effects.push({ kind: 'liftToken.updated', liftTokenId: liftToken.id, previous: this.snapshotLiftToken(liftToken) });
+
+    await this.recordLiftTokenEvent(liftToken.id, 'RETIRED', indexedEvent, {
+      retiree: args.retiree.toLowerCase(),
+      amount,
+      retirementNoteCid: args.retirementNoteCid
+    }, effects);
+  }
+
+  private async handleProjectVerificationEvent(
+    event: { eventName: string; args: any },
+    indexedEvent: IndexedEvent,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const { args } = event;
+    const projectId = Number(args.projectId);
+    const submitted = event.eventName === 'VerificationSubmitted';
+
+    if (submitted) {
+      await this.recordIssuanceConfig(projectId, indexedEvent, effects);
+    }
+
+    const payload = submitted
+      ? {
+          methodId: args.methodId,
+          validator: args.validator.toLowerCase(),
+          evidenceHash: args.evidenceHash
+        }
+      : {
+          methodId: args.methodId,
+          verified: args.verified,
+          confidenceScore: Number(args.confidenceScore)
+        };
+
+    await this.updateProjectMeta(projectId, effects, (meta) => {
+      const previous = meta.onChainVerification || {};
+      return {
+        onChainVerification: {
+          ...previous,
+          methodId: args.methodId,
+          status: submitted ? 'SUBMITTED' : args.verified ? 'VERIFIED' : 'REJECTED',
+          ...(submitted
+            ? { submissions: [...(previous.submissions || []), { ...payload, txHash: indexedEvent.txHash }] }
+            : { confidenceScore: Number(args.confidenceScore) }),
+          updatedAt: indexedEvent.blockTimestamp.toISOString()
+        }
+      };
+    });
+
+    // Mirror the verification onto any lift tokens already issued for the project
+    const type = submitted ? 'VERIFICATION_SUBMITTED' : 'VERIFICATION_COMPLETED';
+    const liftTokens = await this.app.prisma.liftToken.findMany({
+      where: { projectId },
+      select: { id: true }
+    });
+
+    for (const liftToken of liftTokens) {
+      if (!await this.hasLiftTokenEvent(liftToken.id, type, indexedEvent.txHash)) {
+        await this.recordLiftTokenEvent(liftToken.id, type, indexedEvent, payload, effects);
+      }
+    }
+  }
+
+  /**
+   * The contract emits no event when a project's issuance is configured, but
+   * verification can only be submitted once it is and the config can't change
+   * afterwards, so it is read from the contract on the first submission.
+   */
+  private async recordIssuanceConfig(projectId: number, indexedEvent: IndexedEvent, effects: IndexerEffect[]): Promise<void> {
+    const project = await this.app.prisma.project.findUnique({ where: { id: projectId }, select: { meta: true } });
+    if (!project || (project.meta as Record<string, any> | null)?.issuanceConfig) {
+      return;
+    }
+
+    const publicClient = blockchainService.getPublicClient(indexedEvent.chainId);
+    const [methodId, methodHash, targetTokens, minTokens, maxTokens, allocationEscrow, , , configured] = await publicClient.readContract({
+      address: indexedEvent.contractAddress as Address,
+      abi: LIFT_TOKENS_ABI,
+      functionName: 'issuanceConfigs',
+      args: [BigInt(projectId)]
+    });
+
+    if (!configured) {
+      return;
+    }
+
+    await this.updateProjectMeta(projectId, effects, () => ({
+      issuanceConfig: {
+        methodId,
+        methodHash,
+        targetTokens: targetTokens.toString(),
+        minTokens: minTokens.toString(),
+        maxTokens: maxTokens.toString(),
+        allocationEscrow: allocationEscrow.toLowerCase(),
+        chainId: indexedEvent.chainId,
+        contractAddress: indexedEvent.contractAddress
+      }
+    }));
+  }
+
+  private async updateProjectMeta(
+    projectId: number,
+    effects: IndexerEffect[],
+    patch: (meta: Record<string, any>) => Record<string, any>
+  ): Promise<void> {
+    const project = await this.app.prisma.project.findUnique({ where: { id: projectId } });
+
+    if (!project) {
+      this.app.log.warn({ projectId }, 'LiftTokens event for unknown project');
+      return;
+    }
+
+    const meta = (project.meta as Record<string, any>) || {};
+
+    await this.app.prisma.project.update({
+      where: { id: projectId },
+      data: { meta: { ...meta, ...patch(meta) } }
+    });
+    effects.push({ kind: 'project.updated', projectId, previous: { meta: project.meta } });
+  }
+
+  private async hasLiftTokenEvent(liftTokenId: number, type: string, txHash: string): Promise<boolean> {
+    const existing = await this.app.prisma.liftTokenEvent.findUnique({
+      where: { liftTokenId_type_txHash: { liftTokenId, type, txHash } },
+      select: { id: true }
+    });
+
+    return existing !== null;
+  }
+
+  private async recordLiftTokenEvent(
+    liftTokenId: number,
+    type: string,
+    indexedEvent: IndexedEvent,
+    payload: Record<string, any>,
+    effects: IndexerEffect[]
+  ): Promise<void> {
+    const liftTokenEvent = await this.app.prisma.liftTokenEvent.create({
+      data: {
+        liftTokenId,
+        type,
+        txHash: indexedEvent.txHash,
+        blockNumber: indexedEvent.blockNumber,
+        logIndex: indexedEvent.logIndex,
+        payload,
+        meta: { indexedEventId: indexedEvent.id, source: 'indexer' },
+        eventAt: indexedEvent.blockTimestamp
+      }
+    });
+    effects.push({ kind: 'liftTokenEvent.created', liftTokenEventId: liftTokenEvent.id });
+  }
+
+  private async handleProceedsReceived(args: any, indexedEventId: string, effects: IndexerEffect[]): Promise<void> {
     const { projectId, amount, considerationRef } = args;
 
     // Find related payment by consideration ref
@@ -391,9 +1232,18 @@ export class BlockchainIndexer {
           proceedsNotified: true
         }
       });
+      effects.push({
+        kind: 'payment.updated',
+        paymentId: payment.id,
+        previous: {
+          status: payment.status,
+          proceedsNotified: payment.proceedsNotified,
+          confirmedAt: payment.confirmedAt?.toISOString() ?? null
+        }
+      });
 
       // Create payment event
-      await this.app.prisma.paymentEvent.create({
+      const paymentEvent = await this.app.prisma.paymentEvent.create({
         data: {
           paymentId: payment.id,
           type: 'PROCEEDS_NOTIFIED',
@@ -404,6 +1254,7 @@ export class BlockchainIndexer {
           }
         }
       });
+      effects.push({ kind: 'paymentEvent.created', paymentEventId: paymentEvent.id });
     }
   }
 
@@ -438,7 +1289,7 @@ export class BlockchainIndexer {
     }, 'Steward payment processed');
   }
 
-  private async handleUnitsSold(args: any, indexedEventId: string): Promise<void> {
+  private async handleUnitsSold(args: any, indexedEventId: string, effects: IndexerEffect[]): Promise<void> {
     const { projectId, beneficiary, tokenIds, amounts, considerationRef, proceeds } = args;
 
     // Find or create payment record for this sale
@@ -474,6 +1325,7 @@ export class BlockchainIndexer {
           }
         }
       });
+      effects.push({ kind: 'payment.created', paymentId: payment.id });
     }
 
     // Update lift units with purchase information
@@ -482,33 +1334,43 @@ export class BlockchainIndexer {
       const amount = amounts[i].toString();
 
       // Try to find existing lift unit or create one
-      await this.app.prisma.liftToken.upsert({
-        where: { tokenId },
-        update: {
-          status: 'SOLD',
-          meta: {
-            ...((await this.app.prisma.liftToken.findUnique({ 
-              where: { tokenId }, 
-              select: { meta: true } 
-            }))?.meta || {}),
-            soldAmount: amount,
-            soldTo: beneficiary.toLowerCase(),
-            soldAt: new Date().toISOString()
+      const existing = await this.app.prisma.liftToken.findUnique({ where: { tokenId } });
+
+      if (existing) {
+        await this.app.prisma.liftToken.update({
+          where: { id: existing.id },
+          data: {
+            status: 'SOLD',
+            meta: {
+              ...((existing.meta as Record<string, any>) || {}),
+              soldAmount: amount,
+              soldTo: beneficiary.toLowerCase(),
+              soldAt: new Date().toISOString()
+            }
           }
-        },
-        create: {
-          tokenId,
-          projectId: Number(projectId),
-          status: 'SOLD',
-          quantity: amount,
-          meta: {
-            soldAmount: amount,
-            soldTo: beneficiary.toLowerCase(),
-            soldAt: new Date().toISOString(),
-            createdFromSale: true
+        });
+        effects.push({
+          kind: 'liftToken.updated',
+          liftTokenId: existing.id,
+          previous: { status: existing.status, meta: existing.meta }
+        });
+      } else {
+        const created = await this.app.prisma.liftToken.create({
+          data: {
+            tokenId,
+            projectId: Number(projectId),
+            status: 'SOLD',
+            quantity: amount,
+            meta: {
+              soldAmount: amount,
+              soldTo: beneficiary.toLowerCase(),
+              soldAt: new Date().toISOString(),
+              createdFromSale: true
+            }
           }
-        }
-      });
+        });
+        effects.push({ kind: 'liftToken.created', liftTokenId: created.id });
+      }
     }
 
     this.app.log.info({
@@ -549,7 +1411,7 @@ export class BlockchainIndexer {
     });
   }
 
-  private async updateIndexerState(config: IndexerConfig, lastBlockNumber: number): Promise<void> {
+  private async updateIndexerState(config: IndexerConfig, lastBlockNumber: number, lastBlockHash: string): Promise<void> {
     await this.app.prisma.indexerState.update({
       where: {
         chainId_contractAddress_indexerType: {
@@ -560,6 +1422,7 @@ export class BlockchainIndexer {
       },
       data: {
         lastBlockNumber,
+        lastBlockHash,
         lastSyncAt: new Date(),
         errorCount: 0, // Reset error count on successful update
         lastError: null,
@@ -583,6 +1446,22 @@ export class BlockchainIndexer {
     });
   }
 
+  // Decoded args contain bigints, which cannot be stored as JSON
+  private serializeEventArgs(value: any): any {
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.serializeEventArgs(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.serializeEventArgs(item)])
+      );
+    }
+    return value;
+  }
+
   private getIndexerKey(config: IndexerConfig): string {
     return `${config.chainId}:${config.contractAddress}:${config.indexerType}`;
   }
@@ -603,10 +1482,287 @@ export class BlockchainIndexer {
     };
   }
 
+  getJobs(): IndexerJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  getJob(jobId: string): IndexerJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  cancelJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+
+    job.status = 'cancelled';
+    return true;
+  }
+
+  /**
+   * Indexes an arbitrary block range, fetching chunks in parallel and applying
+   * them in block order. The live cursor in IndexerState is left untouched;
+   * events already stored are skipped.
+   */
+  startBackfill(options: BackfillOptions): IndexerJob {
+    const job = this.createJob('backfill', options);
+    job.fromBlock = options.fromBlock;
+    job.toBlock = options.toBlock;
+
+    this.runBackfill(job, options).catch((error) => this.failJob(job, error));
+
+    return job;
+  }
+
+  /**
+   * Re-runs business handlers over stored events without touching the RPC.
+   * Each event is re-decoded from its raw log, its recorded effects are
+   * reverted, and the handler is applied again.
+   */
+  startReplay(options: ReplayOptions): IndexerJob {
+    const job = this.createJob('replay', options);
+    job.fromBlock = options.fromBlock;
+    job.toBlock = options.toBlock;
+
+    this.runReplay(job, options).catch((error) => this.failJob(job, error));
+
+    return job;
+  }
+
+  private async runBackfill(job: IndexerJob, options: BackfillOptions): Promise<void> {
+    const config: IndexerConfig = {
+      chainId: options.chainId,
+      contractAddress: options.contractAddress,
+      indexerType: options.indexerType
+    };
+    const chunkSize = options.chunkSize ?? DEFAULT_BACKFILL_CHUNK_SIZE;
+    const totalChunks = Math.ceil((options.toBlock - options.fromBlock + 1) / chunkSize);
+    const chunkAt = (index: number) => {
+      const fromBlock = options.fromBlock + index * chunkSize;
+      return { fromBlock, toBlock: Math.min(fromBlock + chunkSize - 1, options.toBlock) };
+    };
+
+    job.total = totalChunks;
+    this.emitJobEvent('job_started', job);
+
+    // Chunks are fetched in parallel but applied strictly in block order, so a
+    // handler never sees an event before the ones it depends on (a retirement
+    // before its mint, say). Only the chunks in flight are held in memory.
+    const inFlight = new Map<number, Promise<{ events: Log[] } | { error: any }>>();
+    let nextChunk = 0;
+    const fetchNext = () => {
+      if (nextChunk < totalChunks && job.status === 'running') {
+        const chunk = chunkAt(nextChunk);
+        inFlight.set(
+          nextChunk++,
+          this.fetchContractEvents(config, BigInt(chunk.fromBlock), BigInt(chunk.toBlock))
+            .then((events) => ({ events }), (error) => ({ error }))
+        );
+      }
+    };
+
+    const concurrency = Math.min(options.concurrency ?? DEFAULT_BACKFILL_CONCURRENCY, totalChunks);
+    for (let i = 0; i < concurrency; i++) {
+      fetchNext();
+    }
+
+    for (let index = 0; index < totalChunks && job.status === 'running'; index++) {
+      const chunk = chunkAt(index);
+      const fetched = await inFlight.get(index)!;
+      inFlight.delete(index);
+      fetchNext();
+
+      if (job.status !== 'running') {
+        break;
+      }
+
+      try {
+        if ('error' in fetched) {
+          throw fetched.error;
+        }
+
+        const events = [...fetched.events].sort((a, b) =>
+          Number(a.blockNumber! - b.blockNumber!) || (a.logIndex! - b.logIndex!)
+        );
+        const result = await this.processEventBatch(config, events);
+        job.processed += result.processed;
+        job.failed += result.failed;
+        job.errors.push(...result.errors);
+      } catch (error) {
+        job.failed++;
+        job.errors.push(`Blocks ${chunk.fromBlock}-${chunk.toBlock} - ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      job.completed++;
+      this.emitJobEvent('job_progress', job);
+    }
+
+    this.finishJob(job);
+  }
+
+  private async runReplay(job: IndexerJob, options: ReplayOptions): Promise<void> {
+    const config: IndexerConfig = {
+      chainId: options.chainId,
+      contractAddress: options.contractAddress,
+      indexerType: options.indexerType
+    };
+    const where: Prisma.IndexedEventWhereInput = {
+      chainId: options.chainId,
+      contractAddress: options.contractAddress.toLowerCase(),
+      orphaned: false,
+      ...((options.fromBlock !== undefined || options.toBlock !== undefined) && {
+        blockNumber: {
+          ...(options.fromBlock !== undefined && { gte: options.fromBlock }),
+          ...(options.toBlock !== undefined && { lte: options.toBlock })
+        }
+      }),
+      ...(options.eventName && { eventName: options.eventName })
+    };
+
+    job.total = await this.app.prisma.indexedEvent.count({ where });
+    this.emitJobEvent('job_started', job);
+
+    let cursor: string | undefined;
+
+    while (job.status === 'running') {
+      const events = await this.app.prisma.indexedEvent.findMany({
+        where,
+        orderBy: [{ blockNumber: 'asc' }, { logIndex: 'asc' }, { id: 'asc' }],
+        take: REPLAY_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 })
+      });
+
+      if (events.length === 0) {
+        break;
+      }
+
+      for (const event of events) {
+        if (job.status !== 'running') {
+          break;
+        }
+
+        try {
+          await this.reapplyEvent(config, event, { replayedAt: new Date().toISOString() });
+          job.processed++;
+        } catch (error) {
+          job.failed++;
+          job.errors.push(`Event ${event.txHash}:${event.logIndex} - ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        job.completed++;
+      }
+
+      cursor = events[events.length - 1]!.id;
+      this.emitJobEvent('job_progress', job);
+    }
+
+    this.finishJob(job);
+  }
+
+  // Reverts the effects an earlier run recorded for the event, re-decodes it
+  // from the raw log (restoring bigint args) and runs its handler again
+  private async reapplyEvent(config: IndexerConfig, event: IndexedEvent, marker: Record<string, string>): Promise<void> {
+    const decodedEvent = this.decodeEvent(config, {
+      topics: event.topics as Log['topics'],
+      data: event.data as `0x${string}`
+    } as Log);
+
+    await this.app.prisma.$transaction(async (tx) => {
+      await this.revertEventEffects(tx, event);
+
+      await tx.indexedEvent.update({
+        where: { id: event.id },
+        data: {
+          eventName: decodedEvent?.eventName || 'Unknown',
+          decodedArgs: this.serializeEventArgs(decodedEvent?.args || {}),
+          processed: false,
+          processedAt: null,
+          processingError: null,
+          metadata: {
+            ...this.getEventMetadata(event),
+            effects: [],
+            ...marker
+          } as Prisma.InputJsonValue
+        }
+      });
+    });
+
+    await this.handleEventBusinessLogic(config, decodedEvent, event.id);
+  }
+
+  private createJob(type: IndexerJob['type'], options: BackfillOptions | ReplayOptions): IndexerJob {
+    const job: IndexerJob = {
+      id: randomUUID(),
+      type,
+      status: 'running',
+      chainId: options.chainId,
+      contractAddress: options.contractAddress.toLowerCase(),
+      indexerType: options.indexerType,
+      total: 0,
+      completed: 0,
+      processed: 0,
+      failed: 0,
+      errors: [],
+      startedAt: new Date()
+    };
+
+    this.jobs.set(job.id, job);
+    this.app.log.info({ jobId: job.id, type, options }, 'Started indexer job');
+
+    return job;
+  }
+
+  private finishJob(job: IndexerJob): void {
+    if (job.status === 'running') {
+      job.status = 'completed';
+    }
+    job.finishedAt = new Date();
+
+    this.emitJobEvent(job.status === 'cancelled' ? 'job_cancelled' : 'job_completed', job);
+    this.app.log.info({
+      jobId: job.id,
+      type: job.type,
+      status: job.status,
+      processed: job.processed,
+      failed: job.failed
+    }, 'Indexer job finished');
+  }
+
+  private failJob(job: IndexerJob, error: any): void {
+    job.status = 'failed';
+    job.finishedAt = new Date();
+    job.errors.push(error.message);
+
+    this.emitJobEvent('job_failed', job, error.message);
+    this.app.log.error({ error, jobId: job.id }, 'Indexer job failed');
+  }
+
+  private emitJobEvent(event: string, job: IndexerJob, message?: string): void {
+    if (!this.app.hasDecorator('wsManager')) {
+      return;
+    }
+
+    const data: IndexerJobEvent = {
+      jobId: job.id,
+      jobType: job.type,
+      status: job.status,
+      chainId: job.chainId,
+      contractAddress: job.contractAddress,
+      progress: job.total > 0 ? Math.round((job.completed / job.total) * 100) : 100,
+      processed: job.processed,
+      failed: job.failed,
+      message
+    };
+
+    this.app.wsManager.emitIndexerJobEvent(event, data);
+  }
+
   async retryFailedEvents(limit: number = 100): Promise<{ processed: number; failed: number }> {
     const failedEvents = await this.app.prisma.indexedEvent.findMany({
       where: {
         processed: false,
+        orphaned: false,
         processingError: { not: null },
         retryCount: { lt: 3 }
       },
@@ -619,18 +1775,22 @@ export class BlockchainIndexer {
 
     for (const event of failedEvents) {
       try {
+        const state = await this.app.prisma.indexerState.findFirst({
+          where: { chainId: event.chainId, contractAddress: event.contractAddress }
+        });
+
+        if (!state) {
+          throw new Error(`No indexer configured for ${event.contractAddress} on chain ${event.chainId}`);
+        }
+
         const config: IndexerConfig = {
           chainId: event.chainId,
           contractAddress: event.contractAddress as Address,
-          indexerType: event.contractAddress.includes('repayment') ? 'RepaymentEscrow' : 'AllocationEscrow'
-        };
-
-        const decodedEvent = {
-          eventName: event.eventName,
-          args: event.decodedArgs
+          indexerType: state.indexerType as IndexerConfig['indexerType']
         };
 
-        await this.handleEventBusinessLogic(config, decodedEvent, event.id);
+        // The failed attempt may have applied some effects before it threw
+        await this.reapplyEvent(config, event, { retriedAt: new Date().toISOString() });
         processed++;
       } catch (error) {
         failed++;
@@ -1,11 +1,16 @@
 import { PrismaClient, Invoice, InvoiceType, InvoiceStatus, ApprovalStatus, FinanceRole, ApprovalDecision } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { LedgerService } from './ledger';
+import { FxRateService } from './fx-rates';
+import { getEnv } from '../types/env.js';
+import type { RBACService } from './rbac';
 
 export interface InvoiceCreateRequest {
   contractId: number;
   vendorId: number;
   invoiceNumber: string;
   invoiceType?: InvoiceType;
+  currency?: string; // Defaults to the contract's currency
   periodStart?: Date;
   periodEnd?: Date;
   billingDate?: Date;
@@ -110,8 +115,17 @@ export interface PaymentAuth {
   }>;
 }
 
+export interface InvoiceServiceOptions {
+  // Resolves the role assignment or delegation behind each approval
+  authority?: Pick<RBACService, 'resolveApprovalAuthority'>;
+}
+
 export class InvoiceService {
-  constructor(private prisma: PrismaClient) {}
+  private authority?: InvoiceServiceOptions['authority'];
+
+  constructor(private prisma: PrismaClient, options: InvoiceServiceOptions = {}) {
+    this.authority = options.authority;
+  }
 
   // Invoice processing
   async createInvoice(invoiceData: InvoiceCreateRequest): Promise<Invoice> {
@@ -129,6 +143,11 @@ export class InvoiceService {
       const totalCents = invoiceData.subtotalCents + (invoiceData.taxesCents || 0n);
       const netPayableCents = totalCents - retentionCents - (invoiceData.witholdingsCents || 0n);
 
+      // Snapshot the rate into the base currency as of the billing date
+      const currency = (invoiceData.currency ?? contract.currency).toUpperCase();
+      const billingDate = invoiceData.billingDate || new Date();
+      const fxSnapshot = await new FxRateService(this.prisma).snapshot(currency, getEnv().FINANCE_BASE_CURRENCY, billingDate);
+
       const invoice = await this.prisma.invoice.create({
         data: {
           contractId: invoiceData.contractId,
@@ -137,8 +156,10 @@ export class InvoiceService {
           invoiceType: invoiceData.invoiceType || InvoiceType.PROGRESS,
           periodStart: invoiceData.periodStart,
           periodEnd: invoiceData.periodEnd,
-          billingDate: invoiceData.billingDate || new Date(),
+          billingDate,
           dueDate: invoiceData.dueDate,
+          currency,
+          ...fxSnapshot,
           subtotalCents: invoiceData.subtotalCents,
           taxesCents: invoiceData.taxesCents || 0n,
           retentionCents,
@@ -373,6 +394,11 @@ export class InvoiceService {
 
   async approveInvoice(invoiceId: number, approval: ApprovalData): Promise<void> {
     try {
+      const decidedAt = new Date();
+      const authority = this.authority
+        ? await this.resolveApprovalAuthority(invoiceId, approval, decidedAt)
+        : null;
+
       await this.prisma.$transaction(async (tx) => {
         // Create approval record
         await tx.financeApproval.create({
@@ -386,7 +412,10 @@ export class InvoiceService {
             approvalAmount: approval.approvalAmount,
             notes: approval.notes,
             conditions: approval.conditions,
-            decidedAt: new Date()
+            decidedAt,
+            authorityType: authority?.type,
+            projectRoleId: authority?.type === 'ROLE' ? authority.projectRoleId : undefined,
+            delegationId: authority?.type === 'DELEGATION' ? authority.delegationId : undefined
           }
         });
 
@@ -414,7 +443,8 @@ export class InvoiceService {
         invoiceId,
         approverAddress: approval.approverAddress,
         approverRole: approval.approverRole,
-        decision: approval.decision
+        decision: approval.decision,
+        authority
       });
     } catch (error) {
       logger.error(`Failed to approve invoice ${invoiceId}`, { error, invoiceId, approval });
@@ -422,6 +452,39 @@ export class InvoiceService {
     }
   }
 
+  // The approver must hold the role they approve in, or a delegation of it,
+  // covering the invoice's net payable when the decision is made
+  private async resolveApprovalAuthority(invoiceId: number, approval: ApprovalData, at: Date) {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      select: { netPayableCents: true, contract: { select: { projectId: true } } }
+    });
+
+    if (!invoice) {
+      throw new Error(`Invoice ${invoiceId} not found`);
+    }
+
+    const approver = await this.prisma.user.findUnique({
+      where: { address: approval.approverAddress.toLowerCase() }
+    });
+
+    const authority = approver
+      ? await this.authority!.resolveApprovalAuthority({
+          userId: approver.id,
+          projectId: invoice.contract.projectId,
+          role: approval.approverRole,
+          amount: invoice.netPayableCents.toString(),
+          at
+        })
+      : null;
+
+    if (!authority) {
+      throw new Error(`${approval.approverAddress} has no ${approval.approverRole} authority to approve invoice ${invoiceId}`);
+    }
+
+    return authority;
+  }
+
   async rejectInvoice(invoiceId: number, rejection: RejectionData): Promise<void> {
     try {
       await this.prisma.invoice.update({
@@ -489,13 +552,14 @@ export class InvoiceService {
       }
 
       const bucket = invoice.contract.fundingBucket;
+      const balances = await new LedgerService(this.prisma).getBucketBalances(bucket.id);
       const requestedAmount = invoice.netPayableCents;
-      const sufficientFunds = bucket.availableCents >= requestedAmount;
+      const sufficientFunds = balances.availableCents >= requestedAmount;
 
       const bucketBalances = [{
         bucketId: bucket.id,
         bucketName: bucket.name,
-        availableAmount: bucket.availableCents,
+        availableAmount: balances.availableCents,
         allocatedToContract: invoice.contract.currentAmount
       }];
 
@@ -503,8 +567,8 @@ export class InvoiceService {
         invoiceId,
         contractId: invoice.contractId,
         requestedAmount,
-        availableFunds: bucket.availableCents,
-        encumberedFunds: bucket.encumberedCents,
+        availableFunds: balances.availableCents,
+        encumberedFunds: balances.encumberedCents,
         sufficientFunds,
         bucketBalances
       };
@@ -512,7 +576,7 @@ export class InvoiceService {
       logger.info(`Checked funds availability for invoice ${invoiceId}`, { 
         invoiceId,
         requestedAmount: requestedAmount.toString(),
-        availableFunds: bucket.availableCents.toString(),
+        availableFunds: balances.availableCents.toString(),
         sufficientFunds
       });
 
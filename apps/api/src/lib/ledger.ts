@@ -1,24 +1,65 @@
-import { PrismaClient, LedgerEntryType, LedgerReferenceType, FundingBucket, LedgerEntry } from '@prisma/client';
+import { PrismaClient, Prisma, JournalEntry, JournalLine, LedgerAccount } from '@prisma/client';
 import { logger } from '../utils/logger';
 
+/**
+ * Balance states of a funding bucket. Each one is a ledger account; money moves
+ * between them only by posting balanced journal entries, and FUNDING is the
+ * credit side of deposits so that a bucket's positions always sum to what was
+ * deposited into it.
+ */
+export type BucketBalance = 'AVAILABLE' | 'RESERVED' | 'COMMITTED' | 'ENCUMBERED' | 'DISBURSED' | 'FUNDING';
+
+const BUCKET_BALANCES: BucketBalance[] = ['AVAILABLE', 'RESERVED', 'COMMITTED', 'ENCUMBERED', 'DISBURSED', 'FUNDING'];
+
+export interface BucketBalances {
+  bucketId: number;
+  fundedCents: bigint;
+  availableCents: bigint;
+  reservedCents: bigint;
+  committedCents: bigint;
+  encumberedCents: bigint;
+  disbursedCents: bigint;
+}
+
+export type JournalEntryWithLines = JournalEntry & {
+  lines: (JournalLine & { account: LedgerAccount })[];
+};
+
 export interface ReconciliationResult {
   bucketId: number;
-  expectedBalance: bigint;
-  actualBalance: bigint;
+  expectedBalance: bigint; // Funded through deposits
+  actualBalance: bigint;   // Sum of the bucket's position accounts
   discrepancy: bigint;
   reconciled: boolean;
-  entries: LedgerEntry[];
+  entries: JournalEntryWithLines[];
 }
 
 export interface LedgerReport {
   bucketId: number;
   startDate: Date;
   endDate: Date;
-  openingBalance: bigint;
-  closingBalance: bigint;
+  openingBalance: bigint; // Available balance at startDate
+  closingBalance: bigint; // Available balance at endDate
+  totalDebits: bigint;
+  totalCredits: bigint;
+  entries: JournalEntryWithLines[];
+}
+
+export interface TrialBalanceLine {
+  accountId: number;
+  code: string;
+  name: string;
+  type: string;
+  debitCents: bigint;
+  creditCents: bigint;
+}
+
+export interface TrialBalance {
+  asOf: Date;
+  accounts: TrialBalanceLine[];
   totalDebits: bigint;
   totalCredits: bigint;
-  entries: LedgerEntry[];
+  balanced: boolean;
 }
 
 export interface DateRange {
@@ -33,321 +74,295 @@ export interface LedgerOperationResult {
   error?: string;
 }
 
-export class LedgerService {
-  constructor(private prisma: PrismaClient) {}
-
-  // Core operations following accounting principles
-  async commitFunds(contractId: number, amount: bigint): Promise<LedgerOperationResult> {
-    try {
-      // Get contract details to find funding bucket
-      const contract = await this.prisma.financeContract.findUnique({
-        where: { id: contractId },
-        include: { fundingBucket: true }
-      });
-
-      if (!contract) {
-        throw new Error(`Contract ${contractId} not found`);
-      }
-
-      // Check funds availability
-      const available = await this.validateFundsAvailability(contract.fundingBucketId, amount);
-      if (!available) {
-        throw new Error(`Insufficient funds in bucket ${contract.fundingBucketId}`);
-      }
-
-      // Generate unique entry number
-      const entryNumber = await this.generateEntryNumber('COMMIT');
+interface JournalHeader {
+  entryType: string;
+  referenceType: string;
+  referenceId: string | number;
+  description: string;
+  createdBy: string;
+  reversesEntryId?: number;
+}
 
-      // Create double-entry: Debit Available, Credit Committed
-      const result = await this.prisma.$transaction(async (tx) => {
-        // Update funding bucket
-        const updatedBucket = await tx.fundingBucket.update({
-          where: { id: contract.fundingBucketId },
-          data: {
-            availableCents: { decrement: amount },
-            committedCents: { increment: amount }
-          }
-        });
+interface PostingLine {
+  account: LedgerAccount;
+  debitCents: bigint;
+  creditCents: bigint;
+}
 
-        // Create ledger entry
-        const entry = await tx.ledgerEntry.create({
-          data: {
-            entryNumber,
-            entryType: LedgerEntryType.COMMIT,
-            debitCents: amount,
-            creditCents: 0n,
-            referenceType: LedgerReferenceType.CONTRACT,
-            referenceId: contractId,
-            fundingBucketId: contract.fundingBucketId,
-            description: `Commit funds for contract ${contract.contractNumber}`,
-            balanceAfterCents: updatedBucket.availableCents,
-            createdBy: 'system' // TODO: Get from context
-          }
-        });
+interface Transfer extends JournalHeader {
+  bucketId: number;
+  debit: BucketBalance;
+  credit: BucketBalance;
+  amount: bigint;
+  report: BucketBalance; // Balance returned as balanceAfter
+}
 
-        return {
-          success: true,
-          entryNumber: entry.entryNumber,
-          balanceAfter: updatedBucket.availableCents
-        };
-      });
+export class LedgerService {
+  constructor(private prisma: PrismaClient) {}
 
-      logger.info(`Committed ${amount} for contract ${contractId}`, { 
-        contractId, 
-        amount: amount.toString(),
-        entryNumber: result.entryNumber 
-      });
+  // Core operations following accounting principles
+  async recordDeposit(depositId: number, bucketId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    // Debit Available, Credit Funding
+    return this.transfer({
+      bucketId,
+      debit: 'AVAILABLE',
+      credit: 'FUNDING',
+      amount,
+      report: 'AVAILABLE',
+      entryType: 'DEPOSIT',
+      referenceType: 'DEPOSIT',
+      referenceId: depositId,
+      description: `Deposit ${depositId} into bucket ${bucketId}`,
+      createdBy
+    });
+  }
 
-      return result;
-    } catch (error) {
-      logger.error(`Failed to commit funds for contract ${contractId}`, { error, contractId, amount: amount.toString() });
-      return {
-        success: false,
-        entryNumber: '',
-        balanceAfter: 0n,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+  async commitFunds(contractId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    const contract = await this.prisma.financeContract.findUnique({ where: { id: contractId } });
+    if (!contract) {
+      return this.failed(`Contract ${contractId} not found`);
     }
-  }
 
-  async encumberFunds(invoiceId: number, amount: bigint): Promise<LedgerOperationResult> {
-    try {
-      // Get invoice details to find contract and funding bucket
-      const invoice = await this.prisma.invoice.findUnique({
-        where: { id: invoiceId },
-        include: { 
-          contract: {
-            include: { fundingBucket: true }
-          }
-        }
-      });
+    // Debit Committed, Credit Available
+    return this.transfer({
+      bucketId: contract.fundingBucketId,
+      debit: 'COMMITTED',
+      credit: 'AVAILABLE',
+      amount,
+      report: 'AVAILABLE',
+      entryType: 'COMMIT',
+      referenceType: 'CONTRACT',
+      referenceId: contractId,
+      description: `Commit funds for contract ${contract.contractNumber}`,
+      createdBy
+    });
+  }
 
-      if (!invoice) {
-        throw new Error(`Invoice ${invoiceId} not found`);
-      }
+  async encumberFunds(invoiceId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    const invoice = await this.prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { contract: true }
+    });
+    if (!invoice) {
+      return this.failed(`Invoice ${invoiceId} not found`);
+    }
 
-      // Generate unique entry number
-      const entryNumber = await this.generateEntryNumber('ENCUMBER');
+    // Debit Encumbered, Credit Committed
+    return this.transfer({
+      bucketId: invoice.contract.fundingBucketId,
+      debit: 'ENCUMBERED',
+      credit: 'COMMITTED',
+      amount,
+      report: 'COMMITTED',
+      entryType: 'ENCUMBER',
+      referenceType: 'INVOICE',
+      referenceId: invoiceId,
+      description: `Encumber funds for invoice ${invoice.invoiceNumber}`,
+      createdBy
+    });
+  }
 
-      // Create double-entry: Debit Committed, Credit Encumbered
-      const result = await this.prisma.$transaction(async (tx) => {
-        // Update funding bucket
-        const updatedBucket = await tx.fundingBucket.update({
-          where: { id: invoice.contract.fundingBucketId },
-          data: {
-            committedCents: { decrement: amount },
-            encumberedCents: { increment: amount }
-          }
-        });
+  async disburseFunds(disbursementId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    const disbursement = await this.prisma.disbursement.findUnique({
+      where: { id: disbursementId },
+      include: { invoice: { include: { contract: true } } }
+    });
+    if (!disbursement) {
+      return this.failed(`Disbursement ${disbursementId} not found`);
+    }
 
-        // Create ledger entry
-        const entry = await tx.ledgerEntry.create({
-          data: {
-            entryNumber,
-            entryType: LedgerEntryType.ENCUMBER,
-            debitCents: amount,
-            creditCents: 0n,
-            referenceType: LedgerReferenceType.INVOICE,
-            referenceId: invoiceId,
-            fundingBucketId: invoice.contract.fundingBucketId,
-            description: `Encumber funds for invoice ${invoice.invoiceNumber}`,
-            balanceAfterCents: updatedBucket.committedCents,
-            createdBy: 'system' // TODO: Get from context
-          }
-        });
+    // Debit Disbursed, Credit Encumbered
+    return this.transfer({
+      bucketId: disbursement.invoice.contract.fundingBucketId,
+      debit: 'DISBURSED',
+      credit: 'ENCUMBERED',
+      amount,
+      report: 'ENCUMBERED',
+      entryType: 'DISBURSE',
+      referenceType: 'DISBURSEMENT',
+      referenceId: disbursementId,
+      description: `Disburse funds for disbursement ${disbursement.disbursementNumber}`,
+      createdBy
+    });
+  }
 
-        return {
-          success: true,
-          entryNumber: entry.entryNumber,
-          balanceAfter: updatedBucket.committedCents
-        };
-      });
+  async reserveFunds(verificationGateId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    const gate = await this.findRetentionGate(verificationGateId);
+    if ('error' in gate) {
+      return this.failed(gate.error);
+    }
 
-      logger.info(`Encumbered ${amount} for invoice ${invoiceId}`, { 
-        invoiceId, 
-        amount: amount.toString(),
-        entryNumber: result.entryNumber 
-      });
+    // Debit Reserved, Credit Available
+    return this.transfer({
+      bucketId: gate.bucketId,
+      debit: 'RESERVED',
+      credit: 'AVAILABLE',
+      amount,
+      report: 'RESERVED',
+      entryType: 'RESERVE',
+      referenceType: 'VERIFICATION_GATE',
+      referenceId: verificationGateId,
+      description: `Hold retention for verification gate ${gate.gateName}`,
+      createdBy
+    });
+  }
 
-      return result;
-    } catch (error) {
-      logger.error(`Failed to encumber funds for invoice ${invoiceId}`, { error, invoiceId, amount: amount.toString() });
-      return {
-        success: false,
-        entryNumber: '',
-        balanceAfter: 0n,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+  async releaseFunds(verificationGateId: number, amount: bigint, createdBy: string = 'system'): Promise<LedgerOperationResult> {
+    const gate = await this.findRetentionGate(verificationGateId);
+    if ('error' in gate) {
+      return this.failed(gate.error);
     }
+
+    // Debit Available, Credit Reserved
+    return this.transfer({
+      bucketId: gate.bucketId,
+      debit: 'AVAILABLE',
+      credit: 'RESERVED',
+      amount,
+      report: 'AVAILABLE',
+      entryType: 'RELEASE',
+      referenceType: 'VERIFICATION_GATE',
+      referenceId: verificationGateId,
+      description: `Release retention for verification gate ${gate.gateName}`,
+      createdBy
+    });
   }
 
-  async disburseFunds(disbursementId: number, amount: bigint): Promise<LedgerOperationResult> {
+  /**
+   * Post an entry with every line of the original swapped between debit and
+   * credit. Journal entries are never edited; this is the only correction.
+   */
+  async reverseEntry(entryNumber: string, reason: string, createdBy: string = 'system'): Promise<LedgerOperationResult> {
     try {
-      // Get disbursement details
-      const disbursement = await this.prisma.disbursement.findUnique({
-        where: { id: disbursementId },
-        include: { 
-          invoice: {
-            include: {
-              contract: {
-                include: { fundingBucket: true }
-              }
-            }
-          }
-        }
-      });
-
-      if (!disbursement) {
-        throw new Error(`Disbursement ${disbursementId} not found`);
-      }
+      const reversalNumber = await this.generateEntryNumber('REVERSAL');
 
-      // Generate unique entry number
-      const entryNumber = await this.generateEntryNumber('DISBURSE');
-
-      // Create double-entry: Debit Encumbered, Credit Disbursed
       const result = await this.prisma.$transaction(async (tx) => {
-        // Update funding bucket
-        const updatedBucket = await tx.fundingBucket.update({
-          where: { id: disbursement.invoice.contract.fundingBucketId },
-          data: {
-            encumberedCents: { decrement: amount },
-            disbursedCents: { increment: amount }
-          }
+        const original = await tx.journalEntry.findUnique({
+          where: { entryNumber },
+          include: { lines: { include: { account: true } }, reversedBy: true }
         });
 
-        // Create ledger entry
-        const entry = await tx.ledgerEntry.create({
-          data: {
-            entryNumber,
-            entryType: LedgerEntryType.DISBURSE,
-            debitCents: amount,
-            creditCents: 0n,
-            referenceType: LedgerReferenceType.DISBURSEMENT,
-            referenceId: disbursementId,
-            disbursementId,
-            fundingBucketId: disbursement.invoice.contract.fundingBucketId,
-            description: `Disburse funds for disbursement ${disbursement.disbursementNumber}`,
-            balanceAfterCents: updatedBucket.encumberedCents,
-            createdBy: 'system' // TODO: Get from context
-          }
-        });
+        if (!original) {
+          throw new Error(`Journal entry ${entryNumber} not found`);
+        }
+        if (original.reversedBy) {
+          throw new Error(`Journal entry ${entryNumber} was already reversed by ${original.reversedBy.entryNumber}`);
+        }
+        if (original.entryType === 'REVERSAL') {
+          throw new Error(`Journal entry ${entryNumber} is a reversal; post a new entry instead`);
+        }
 
-        return {
-          success: true,
-          entryNumber: entry.entryNumber,
-          balanceAfter: updatedBucket.encumberedCents
-        };
-      });
+        const bucketIds = [...new Set(original.lines.map(line => line.account.fundingBucketId))]
+          .filter((id): id is number => id !== null)
+          .sort((a, b) => a - b);
+        for (const bucketId of bucketIds) {
+          await this.lockBucket(tx, bucketId);
+        }
 
-      logger.info(`Disbursed ${amount} for disbursement ${disbursementId}`, { 
-        disbursementId, 
-        amount: amount.toString(),
-        entryNumber: result.entryNumber 
+        const entry = await this.post(tx, {
+          entryType: 'REVERSAL',
+          referenceType: 'JOURNAL_ENTRY',
+          referenceId: original.id,
+          description: `Reversal of ${entryNumber}: ${reason}`,
+          createdBy,
+          reversesEntryId: original.id
+        }, reversalNumber, original.lines.map(line => ({
+          account: line.account,
+          debitCents: line.creditCents,
+          creditCents: line.debitCents
+        })));
+
+        const firstBucket = bucketIds[0];
+        const balances = firstBucket !== undefined ? await this.getBucketBalances(firstBucket, tx) : null;
+        return { entryNumber: entry.entryNumber, balanceAfter: balances?.availableCents ?? 0n };
       });
 
-      return result;
+      logger.info(`Reversed journal entry ${entryNumber}`, { entryNumber, reversalNumber: result.entryNumber, reason });
+
+      return { success: true, ...result };
     } catch (error) {
-      logger.error(`Failed to disburse funds for disbursement ${disbursementId}`, { error, disbursementId, amount: amount.toString() });
-      return {
-        success: false,
-        entryNumber: '',
-        balanceAfter: 0n,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
+      logger.error(`Failed to reverse journal entry ${entryNumber}`, { error, entryNumber });
+      return this.failed(error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
-  async releaseFunds(verificationGateId: number, amount: bigint): Promise<LedgerOperationResult> {
-    try {
-      // Get verification gate details
-      const gate = await this.prisma.verificationGate.findUnique({
-        where: { id: verificationGateId },
-        include: { project: true }
-      });
-
-      if (!gate) {
-        throw new Error(`Verification gate ${verificationGateId} not found`);
-      }
-
-      // Find project's funding bucket (assuming main Lift Forward bucket)
-      const bucket = await this.prisma.fundingBucket.findFirst({
-        where: { 
-          projectId: gate.projectId,
-          type: 'LIFT_FORWARD'
-        }
-      });
-
-      if (!bucket) {
-        throw new Error(`No funding bucket found for project ${gate.projectId}`);
-      }
-
-      // Generate unique entry number
-      const entryNumber = await this.generateEntryNumber('RELEASE');
-
-      // Create double-entry: Debit Reserved, Credit Available
-      const result = await this.prisma.$transaction(async (tx) => {
-        // Update funding bucket
-        const updatedBucket = await tx.fundingBucket.update({
-          where: { id: bucket.id },
-          data: {
-            reservedCents: { decrement: amount },
-            availableCents: { increment: amount }
-          }
-        });
-
-        // Create ledger entry
-        const entry = await tx.ledgerEntry.create({
-          data: {
-            entryNumber,
-            entryType: LedgerEntryType.RELEASE,
-            debitCents: amount,
-            creditCents: 0n,
-            referenceType: LedgerReferenceType.OTHER,
-            referenceId: verificationGateId,
-            fundingBucketId: bucket.id,
-            description: `Release retention for verification gate ${gate.gateName}`,
-            balanceAfterCents: updatedBucket.availableCents,
-            createdBy: 'system' // TODO: Get from context
-          }
-        });
-
-        return {
-          success: true,
-          entryNumber: entry.entryNumber,
-          balanceAfter: updatedBucket.availableCents
-        };
-      });
+  // Projections over the journal
+  async getBucketBalances(
+    bucketId: number,
+    client: Prisma.TransactionClient = this.prisma,
+    postedAt?: Prisma.DateTimeFilter
+  ): Promise<BucketBalances> {
+    const accounts = await client.ledgerAccount.findMany({ where: { fundingBucketId: bucketId } });
+    const sums = accounts.length > 0
+      ? await client.journalLine.groupBy({
+          by: ['accountId'],
+          where: {
+            accountId: { in: accounts.map(account => account.id) },
+            ...(postedAt && { journalEntry: { postedAt } })
+          },
+          _sum: { debitCents: true, creditCents: true }
+        })
+      : [];
+
+    const net = (balance: BucketBalance) => {
+      const account = accounts.find(a => a.bucketBalance === balance);
+      const sum = account && sums.find(s => s.accountId === account.id);
+      return (sum?._sum.debitCents ?? 0n) - (sum?._sum.creditCents ?? 0n);
+    };
+
+    return {
+      bucketId,
+      fundedCents: -net('FUNDING'),
+      availableCents: net('AVAILABLE'),
+      reservedCents: net('RESERVED'),
+      committedCents: net('COMMITTED'),
+      encumberedCents: net('ENCUMBERED'),
+      disbursedCents: net('DISBURSED')
+    };
+  }
 
-      logger.info(`Released ${amount} for verification gate ${verificationGateId}`, { 
-        verificationGateId, 
-        amount: amount.toString(),
-        entryNumber: result.entryNumber 
+  async getTrialBalance(asOf: Date = new Date()): Promise<TrialBalance> {
+    const [accounts, sums] = await Promise.all([
+      this.prisma.ledgerAccount.findMany({ orderBy: { code: 'asc' } }),
+      this.prisma.journalLine.groupBy({
+        by: ['accountId'],
+        where: { journalEntry: { postedAt: { lte: asOf } } },
+        _sum: { debitCents: true, creditCents: true }
+      })
+    ]);
+
+    let totalDebits = 0n;
+    let totalCredits = 0n;
+    const lines: TrialBalanceLine[] = [];
+
+    for (const account of accounts) {
+      const sum = sums.find(s => s.accountId === account.id);
+      if (!sum) continue;
+
+      const net = (sum._sum.debitCents ?? 0n) - (sum._sum.creditCents ?? 0n);
+      const debitCents = net > 0n ? net : 0n;
+      const creditCents = net < 0n ? -net : 0n;
+      totalDebits += debitCents;
+      totalCredits += creditCents;
+
+      lines.push({
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debitCents,
+        creditCents
       });
-
-      return result;
-    } catch (error) {
-      logger.error(`Failed to release funds for verification gate ${verificationGateId}`, { error, verificationGateId, amount: amount.toString() });
-      return {
-        success: false,
-        entryNumber: '',
-        balanceAfter: 0n,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
     }
+
+    return { asOf, accounts: lines, totalDebits, totalCredits, balanced: totalDebits === totalCredits };
   }
 
   // Integrity and validation
   async validateFundsAvailability(bucketId: number, amount: bigint): Promise<boolean> {
     try {
-      const bucket = await this.prisma.fundingBucket.findUnique({
-        where: { id: bucketId }
-      });
-
-      if (!bucket) {
-        return false;
-      }
-
-      return bucket.availableCents >= amount;
+      const balances = await this.getBucketBalances(bucketId);
+      return balances.availableCents >= amount;
     } catch (error) {
       logger.error(`Failed to validate funds availability for bucket ${bucketId}`, { error, bucketId, amount: amount.toString() });
       return false;
@@ -356,40 +371,28 @@ export class LedgerService {
 
   async reconcileBucket(bucketId: number): Promise<ReconciliationResult> {
     try {
-      const bucket = await this.prisma.fundingBucket.findUnique({
-        where: { id: bucketId }
-      });
-
-      if (!bucket) {
-        throw new Error(`Funding bucket ${bucketId} not found`);
-      }
-
-      // Get all ledger entries for this bucket
-      const entries = await this.prisma.ledgerEntry.findMany({
-        where: { fundingBucketId: bucketId },
-        orderBy: { createdAt: 'asc' }
+      const balances = await this.getBucketBalances(bucketId);
+      const entries = await this.prisma.journalEntry.findMany({
+        where: { lines: { some: { account: { fundingBucketId: bucketId } } } },
+        include: { lines: { include: { account: true } } },
+        orderBy: { postedAt: 'asc' }
       });
 
-      // Calculate actual balance from ledger entries
-      let actualBalance = 0n;
-      for (const entry of entries) {
-        actualBalance += entry.debitCents - entry.creditCents;
-      }
-
-      // Expected balance from bucket fields
-      const expectedBalance = bucket.availableCents + bucket.reservedCents + 
-                             bucket.committedCents + bucket.encumberedCents + 
-                             bucket.disbursedCents;
+      // Every entry credits what it debits, so positions must add up to what was funded
+      const expectedBalance = balances.fundedCents;
+      const actualBalance = balances.availableCents + balances.reservedCents +
+                            balances.committedCents + balances.encumberedCents +
+                            balances.disbursedCents;
 
       const discrepancy = expectedBalance - actualBalance;
       const reconciled = discrepancy === 0n;
 
-      logger.info(`Reconciled bucket ${bucketId}`, { 
-        bucketId, 
+      logger.info(`Reconciled bucket ${bucketId}`, {
+        bucketId,
         expectedBalance: expectedBalance.toString(),
         actualBalance: actualBalance.toString(),
         discrepancy: discrepancy.toString(),
-        reconciled 
+        reconciled
       });
 
       return {
@@ -408,48 +411,34 @@ export class LedgerService {
 
   async generateLedgerReport(bucketId: number, dateRange: DateRange): Promise<LedgerReport> {
     try {
-      // Get opening balance (balance at start date)
-      const openingEntries = await this.prisma.ledgerEntry.findMany({
-        where: {
-          fundingBucketId: bucketId,
-          createdAt: { lt: dateRange.startDate }
-        },
-        orderBy: { createdAt: 'asc' }
-      });
-
-      let openingBalance = 0n;
-      for (const entry of openingEntries) {
-        openingBalance += entry.debitCents - entry.creditCents;
-      }
+      const opening = await this.getBucketBalances(bucketId, this.prisma, { lt: dateRange.startDate });
+      const closing = await this.getBucketBalances(bucketId, this.prisma, { lte: dateRange.endDate });
 
-      // Get entries within date range
-      const entries = await this.prisma.ledgerEntry.findMany({
+      const entries = await this.prisma.journalEntry.findMany({
         where: {
-          fundingBucketId: bucketId,
-          createdAt: {
+          postedAt: {
             gte: dateRange.startDate,
             lte: dateRange.endDate
-          }
+          },
+          lines: { some: { account: { fundingBucketId: bucketId } } }
         },
-        orderBy: { createdAt: 'asc' }
+        include: { lines: { include: { account: true } } },
+        orderBy: { postedAt: 'asc' }
       });
 
-      // Calculate totals
       let totalDebits = 0n;
       let totalCredits = 0n;
-      let closingBalance = openingBalance;
-
-      for (const entry of entries) {
-        totalDebits += entry.debitCents;
-        totalCredits += entry.creditCents;
-        closingBalance += entry.debitCents - entry.creditCents;
+      for (const line of entries.flatMap(entry => entry.lines)) {
+        if (line.account.fundingBucketId !== bucketId) continue;
+        totalDebits += line.debitCents;
+        totalCredits += line.creditCents;
       }
 
-      logger.info(`Generated ledger report for bucket ${bucketId}`, { 
-        bucketId, 
+      logger.info(`Generated ledger report for bucket ${bucketId}`, {
+        bucketId,
         dateRange,
-        openingBalance: openingBalance.toString(),
-        closingBalance: closingBalance.toString(),
+        openingBalance: opening.availableCents.toString(),
+        closingBalance: closing.availableCents.toString(),
         totalDebits: totalDebits.toString(),
         totalCredits: totalCredits.toString(),
         entryCount: entries.length
@@ -459,8 +448,8 @@ export class LedgerService {
         bucketId,
         startDate: dateRange.startDate,
         endDate: dateRange.endDate,
-        openingBalance,
-        closingBalance,
+        openingBalance: opening.availableCents,
+        closingBalance: closing.availableCents,
         totalDebits,
         totalCredits,
         entries
@@ -472,9 +461,169 @@ export class LedgerService {
   }
 
   // Helper methods
+  private async transfer(transfer: Transfer): Promise<LedgerOperationResult> {
+    const { bucketId, debit, credit, amount, report, ...header } = transfer;
+
+    try {
+      if (amount <= 0n) {
+        throw new Error(`Amount must be positive, got ${amount}`);
+      }
+
+      const entryNumber = await this.generateEntryNumber(header.entryType);
+
+      const result = await this.prisma.$transaction(async (tx) => {
+        await this.lockBucket(tx, bucketId);
+        const accounts = await this.ensureBucketAccounts(tx, bucketId);
+
+        const entry = await this.post(tx, header, entryNumber, [
+          { account: accounts.get(debit)!, debitCents: amount, creditCents: 0n },
+          { account: accounts.get(credit)!, debitCents: 0n, creditCents: amount }
+        ]);
+
+        const balances = await this.getBucketBalances(bucketId, tx);
+        return { entryNumber: entry.entryNumber, balanceAfter: balanceOf(balances, report) };
+      });
+
+      logger.info(`Posted ${header.entryType} of ${amount} to bucket ${bucketId}`, {
+        bucketId,
+        referenceType: header.referenceType,
+        referenceId: header.referenceId,
+        amount: amount.toString(),
+        entryNumber: result.entryNumber
+      });
+
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error(`Failed to post ${header.entryType} to bucket ${bucketId}`, {
+        error,
+        bucketId,
+        referenceType: header.referenceType,
+        referenceId: header.referenceId,
+        amount: amount.toString()
+      });
+      return this.failed(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  // Write a balanced entry. Credits may not take a position account below zero.
+  private async post(
+    tx: Prisma.TransactionClient,
+    header: JournalHeader,
+    entryNumber: string,
+    lines: PostingLine[]
+  ): Promise<JournalEntry> {
+    const debits = lines.reduce((sum, line) => sum + line.debitCents, 0n);
+    const credits = lines.reduce((sum, line) => sum + line.creditCents, 0n);
+    if (debits === 0n || debits !== credits) {
+      throw new Error(`Journal entry is not balanced: debits ${debits}, credits ${credits}`);
+    }
+
+    for (const line of lines) {
+      const { account } = line;
+      if (line.creditCents === 0n || account.bucketBalance === 'FUNDING' || account.fundingBucketId === null) continue;
+
+      const balances = await this.getBucketBalances(account.fundingBucketId, tx);
+      const balance = balanceOf(balances, account.bucketBalance as BucketBalance);
+      if (balance < line.creditCents) {
+        throw new Error(
+          `Insufficient ${account.bucketBalance!.toLowerCase()} funds in bucket ${account.fundingBucketId}: ` +
+          `${balance} < ${line.creditCents}`
+        );
+      }
+    }
+
+    return tx.journalEntry.create({
+      data: {
+        entryNumber,
+        entryType: header.entryType,
+        referenceType: header.referenceType,
+        referenceId: header.referenceId.toString(),
+        description: header.description,
+        reversesEntryId: header.reversesEntryId,
+        createdBy: header.createdBy,
+        lines: {
+          create: lines.map(line => ({
+            accountId: line.account.id,
+            debitCents: line.debitCents,
+            creditCents: line.creditCents
+          }))
+        }
+      }
+    });
+  }
+
+  // Serialize postings per bucket so balance checks can't race each other
+  private async lockBucket(tx: Prisma.TransactionClient, bucketId: number): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('funding_bucket'), ${bucketId}::int)`;
+  }
+
+  private async ensureBucketAccounts(tx: Prisma.TransactionClient, bucketId: number): Promise<Map<BucketBalance, LedgerAccount>> {
+    let accounts = await tx.ledgerAccount.findMany({ where: { fundingBucketId: bucketId } });
+
+    if (accounts.length < BUCKET_BALANCES.length) {
+      await tx.ledgerAccount.createMany({
+        data: BUCKET_BALANCES.map(balance => ({
+          code: `BUCKET-${bucketId}-${balance}`,
+          name: `Bucket ${bucketId} ${balance.toLowerCase()}`,
+          type: balance === 'FUNDING' ? 'NET_ASSETS' : 'ASSET',
+          fundingBucketId: bucketId,
+          bucketBalance: balance
+        })),
+        skipDuplicates: true
+      });
+      accounts = await tx.ledgerAccount.findMany({ where: { fundingBucketId: bucketId } });
+    }
+
+    return new Map(accounts.map(account => [account.bucketBalance as BucketBalance, account]));
+  }
+
+  // Retention is held in the project's Lift Forward bucket
+  private async findRetentionGate(verificationGateId: number): Promise<{ bucketId: number; gateName: string } | { error: string }> {
+    const gate = await this.prisma.verificationGate.findUnique({
+      where: { id: verificationGateId }
+    });
+
+    if (!gate) {
+      return { error: `Verification gate ${verificationGateId} not found` };
+    }
+
+    const bucket = await this.prisma.fundingBucket.findFirst({
+      where: {
+        projectId: gate.projectId,
+        type: 'LIFT_FORWARD'
+      }
+    });
+
+    if (!bucket) {
+      return { error: `No funding bucket found for project ${gate.projectId}` };
+    }
+
+    return { bucketId: bucket.id, gateName: gate.gateName };
+  }
+
+  private failed(error: string): LedgerOperationResult {
+    return {
+      success: false,
+      entryNumber: '',
+      balanceAfter: 0n,
+      error
+    };
+  }
+
   private async generateEntryNumber(type: string): Promise<string> {
     const timestamp = Date.now();
     const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
     return `${type}-${timestamp}-${random}`;
   }
-}
\ No newline at end of file
+}
+
+function balanceOf(balances: BucketBalances, balance: BucketBalance): bigint {
+  switch (balance) {
+    case 'FUNDING': return balances.fundedCents;
+    case 'AVAILABLE': return balances.availableCents;
+    case 'RESERVED': return balances.reservedCents;
+    case 'COMMITTED': return balances.committedCents;
+    case 'ENCUMBERED': return balances.encumberedCents;
+    case 'DISBURSED': return balances.disbursedCents;
+  }
+}
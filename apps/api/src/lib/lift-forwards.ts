@@ -0,0 +1,817 @@
+import { FastifyInstance } from 'fastify';
+import { Prisma } from '@orenna/db';
+import type { LiftForward, LiftForwardPosition, LiftForwardSettlement } from '@orenna/db';
+import { Address, Hash, Hex, keccak256, toHex } from 'viem';
+import { blockchainService } from './blockchain.js';
+import { GovernanceService } from './governance.js';
+import { PaymentService } from './payment.js';
+import { getEnv } from '../types/env.js';
+
+const env = getEnv();
+
+export interface ForwardMilestoneInput {
+  name: string;
+  description?: string;
+  deliveryUnits: string;
+  deadline: Date;
+  evidenceTypes: string[];
+}
+
+export interface CreateForwardInput {
+  projectId: number;
+  liftTokenId: number;
+  paymentToken: string;
+  unitPrice: string;
+  challengeWindowDays?: number;
+  saleEndsAt?: Date;
+  projectNftId?: number;
+  projectNftChainId?: number;
+  milestones: ForwardMilestoneInput[];
+}
+
+export interface ForwardQuery {
+  projectId?: number;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PositionQuery {
+  liftForwardId?: number;
+  buyerAddress?: string;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type MilestoneEvidence = Parameters<GovernanceService['submitMilestoneEvidence']>[2];
+export type MilestoneChallengeInput = Parameters<GovernanceService['challengeMilestone']>[2];
+
+export interface LiftForwardServiceOptions {
+  paymentService?: Pick<PaymentService, 'initializePayment' | 'confirmTokenTransfer' | 'refundPayment'>;
+  blockchain?: Pick<typeof blockchainService, 'mintLiftToken' | 'linkProjectForward' | 'getWalletClient'>;
+  governance?: Pick<GovernanceService, 'submitMilestoneEvidence' | 'challengeMilestone' | 'acceptMilestone'>;
+  settlementIntervalMs?: number;
+}
+
+const RESOLVED_MILESTONE_STATUSES = ['ACCEPTED', 'FAILED'];
+const MAX_SETTLEMENT_ATTEMPTS = 5;
+
+/**
+ * Lift Forward offers sold to buyers and settled milestone by milestone.
+ *
+ * A buyer's position holds a fixed number of units paid for at the offer's
+ * unit price. Each milestone carries a share of the forward's total units;
+ * when it is accepted every funded position is minted its pro-rata share of
+ * that milestone, and when it fails (missed deadline, upheld challenge) the
+ * same share is refunded at the unit price. A position's last settlement takes
+ * whatever rounding left over, so deliveries plus refunds always add up to
+ * exactly what the buyer paid for.
+ *
+ * Milestone evidence, challenges and acceptance go through GovernanceService.
+ * Settlements are recorded one per position and milestone before any tokens
+ * move, so a milestone can't settle twice; failed settlements are retried by
+ * the periodic run.
+ */
+export class LiftForwardService {
+  private paymentService: NonNullable<LiftForwardServiceOptions['paymentService']>;
+  private blockchain: NonNullable<LiftForwardServiceOptions['blockchain']>;
+  private governance: NonNullable<LiftForwardServiceOptions['governance']>;
+  private settlementIntervalMs: number;
+  private settlementIntervalId?: NodeJS.Timeout;
+  private settling = false;
+
+  constructor(private app: FastifyInstance, options: LiftForwardServiceOptions = {}) {
+    this.paymentService = options.paymentService ?? new PaymentService(app);
+    this.blockchain = options.blockchain ?? blockchainService;
+    this.governance = options.governance ?? new GovernanceService(app, app.prisma);
+    this.settlementIntervalMs = options.settlementIntervalMs ?? env.LIFT_FORWARD_SETTLEMENT_INTERVAL_MS;
+  }
+
+  // Forward offers
+
+  async createForward(input: CreateForwardInput, actorAddress: string): Promise<LiftForward> {
+    const project = await this.app.prisma.project.findUnique({
+      where: { id: input.projectId },
+      include: { paymentConfig: true }
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    if (project.ownerAddress?.toLowerCase() !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to create forwards for this project');
+    }
+
+    const liftToken = await this.app.prisma.liftToken.findUnique({ where: { id: input.liftTokenId } });
+    if (!liftToken || liftToken.projectId !== project.id) {
+      throw new Error('Lift token not found for this project');
+    }
+    if (!liftToken.tokenId || !liftToken.chainId) {
+      throw new Error('Lift token has not been issued on-chain');
+    }
+
+    const paymentToken = input.paymentToken.toLowerCase();
+    const acceptedTokens = (project.paymentConfig?.paymentTokens as string[] | null) ?? [];
+    if (acceptedTokens.length > 0 && !acceptedTokens.some(token => token.toLowerCase() === paymentToken)) {
+      throw new Error('Payment token is not accepted by this project');
+    }
+
+    const unitPrice = BigInt(input.unitPrice);
+    const totalUnits = input.milestones.reduce((total, milestone) => total + BigInt(milestone.deliveryUnits), 0n);
+
+    const forward = await this.app.prisma.liftForward.create({
+      data: {
+        projectId: project.id,
+        projectNftId: input.projectNftId,
+        projectNftChainId: input.projectNftChainId,
+        liftTokenId: liftToken.id,
+        status: 'DRAFT',
+        totalAmount: (totalUnits * unitPrice).toString(),
+        currency: paymentToken,
+        chainId: liftToken.chainId,
+        paymentToken,
+        unitPrice: new Prisma.Decimal(input.unitPrice),
+        totalUnits: new Prisma.Decimal(totalUnits.toString()),
+        availableUnits: new Prisma.Decimal(totalUnits.toString()),
+        saleEndsAt: input.saleEndsAt,
+        challengeWindow: input.challengeWindowDays ?? 14,
+        createdBy: actorAddress.toLowerCase(),
+        milestones: {
+          create: input.milestones.map((milestone, index) => ({
+            milestoneNumber: index + 1,
+            name: milestone.name,
+            description: milestone.description,
+            amount: (BigInt(milestone.deliveryUnits) * unitPrice).toString(),
+            deliveryUnits: new Prisma.Decimal(milestone.deliveryUnits),
+            evidenceTypes: JSON.stringify(milestone.evidenceTypes),
+            deadline: milestone.deadline
+          }))
+        }
+      }
+    });
+
+    await this.recordEvent(forward.id, 'FORWARD_CREATED', {
+      creator: actorAddress.toLowerCase(),
+      totalUnits: totalUnits.toString(),
+      unitPrice: input.unitPrice,
+      milestones: input.milestones.length
+    });
+
+    this.app.log.info({ liftForwardId: forward.id, projectId: project.id, totalUnits: totalUnits.toString() }, 'Lift Forward created');
+    return forward;
+  }
+
+  /**
+   * Open a draft forward for sale. Buyer funds are paid to the settlement
+   * account, which later mints deliveries and sends refunds. Forwards tied to
+   * a ProjectNFT are linked to it on-chain.
+   */
+  async publishForward(liftForwardId: number, actorAddress: string): Promise<LiftForward> {
+    const forward = await this.getOwnedForward(liftForwardId, actorAddress);
+    if (forward.status !== 'DRAFT') {
+      throw new Error(`Forward is ${forward.status.toLowerCase()}`);
+    }
+
+    const escrowAddress = (this.blockchain.getWalletClient(forward.chainId!).account.address as string).toLowerCase();
+
+    let forwardRef: Hex | undefined;
+    let linkTxHash: Hash | undefined;
+    if (forward.projectNftId) {
+      forwardRef = keccak256(toHex(`orenna:lift-forward:${forward.id}`));
+      linkTxHash = await this.blockchain.linkProjectForward(
+        forward.projectNftId,
+        forwardRef,
+        forward.projectNftChainId ?? forward.chainId!
+      );
+    }
+
+    const { count } = await this.app.prisma.liftForward.updateMany({
+      where: { id: forward.id, status: 'DRAFT' },
+      data: { status: 'OPEN', escrowAddress, forwardRef, linkTxHash, publishedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new Error('Forward is no longer a draft');
+    }
+
+    await this.recordEvent(forward.id, 'FORWARD_PUBLISHED', { escrowAddress, forwardRef, linkTxHash });
+
+    this.app.log.info({ liftForwardId: forward.id, linkTxHash }, 'Lift Forward published');
+    return (await this.app.prisma.liftForward.findUnique({ where: { id: forward.id } }))!;
+  }
+
+  /** Withdraw a forward before any buyer has funded a position */
+  async cancelForward(liftForwardId: number, actorAddress: string): Promise<LiftForward> {
+    const forward = await this.getOwnedForward(liftForwardId, actorAddress);
+    if (!['DRAFT', 'OPEN'].includes(forward.status)) {
+      throw new Error(`Forward is ${forward.status.toLowerCase()}`);
+    }
+
+    const funded = await this.app.prisma.liftForwardPosition.count({
+      where: { liftForwardId, status: { in: ['ACTIVE', 'SETTLED'] } }
+    });
+    if (funded > 0) {
+      throw new Error('Forward has funded positions and cannot be cancelled');
+    }
+
+    const { count } = await this.app.prisma.liftForward.updateMany({
+      where: { id: liftForwardId, status: forward.status },
+      data: { status: 'CANCELLED' }
+    });
+    if (count === 0) {
+      throw new Error('Forward status changed, try again');
+    }
+
+    await this.recordEvent(liftForwardId, 'FORWARD_CANCELLED', { actor: actorAddress.toLowerCase() });
+    return (await this.app.prisma.liftForward.findUnique({ where: { id: liftForwardId } }))!;
+  }
+
+  async getForward(liftForwardId: number) {
+    return this.app.prisma.liftForward.findUnique({
+      where: { id: liftForwardId },
+      include: {
+        project: { select: { id: true, name: true, slug: true } },
+        liftToken: { select: { id: true, tokenId: true, chainId: true, unit: true } },
+        milestones: {
+          include: { challenges: { orderBy: { createdAt: 'asc' } } },
+          orderBy: { milestoneNumber: 'asc' }
+        },
+        events: {
+          orderBy: { createdAt: 'desc' },
+          take: 20
+        }
+      }
+    });
+  }
+
+  async listForwards(query: ForwardQuery = {}): Promise<{ forwards: LiftForward[]; total: number }> {
+    const where: Prisma.LiftForwardWhereInput = {};
+    if (query.projectId) where.projectId = query.projectId;
+    if (query.status) {
+      where.status = query.status;
+    } else {
+      // Default to forwards buyers can act on
+      where.status = { in: ['OPEN', 'ACTIVE'] };
+    }
+
+    const [forwards, total] = await Promise.all([
+      this.app.prisma.liftForward.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(query.limit ?? 50, 100),
+        skip: query.offset ?? 0
+      }),
+      this.app.prisma.liftForward.count({ where })
+    ]);
+
+    return { forwards, total };
+  }
+
+  // Buyer positions
+
+  /**
+   * Reserve units of an open forward and create the payment the buyer must
+   * fund. The position becomes active once the transfer is confirmed.
+   */
+  async purchase(liftForwardId: number, units: string, buyerAddress: string): Promise<LiftForwardPosition> {
+    const forward = await this.app.prisma.liftForward.findUnique({ where: { id: liftForwardId } });
+    if (!forward) {
+      throw new Error('Forward not found');
+    }
+    if (!forward.unitPrice || !forward.escrowAddress || !forward.paymentToken) {
+      throw new Error('Forward is not offered for sale');
+    }
+    if (forward.status !== 'OPEN') {
+      throw new Error(`Forward is ${forward.status.toLowerCase()}`);
+    }
+    if (forward.saleEndsAt && forward.saleEndsAt <= new Date()) {
+      throw new Error('Forward sale has ended');
+    }
+
+    const quantity = new Prisma.Decimal(units);
+    const reserved = await this.app.prisma.liftForward.updateMany({
+      where: { id: liftForwardId, status: 'OPEN', availableUnits: { gte: quantity } },
+      data: { availableUnits: { decrement: quantity } }
+    });
+    if (reserved.count === 0) {
+      const current = await this.app.prisma.liftForward.findUnique({ where: { id: liftForwardId } });
+      throw new Error(current?.status === 'OPEN'
+        ? `Forward has only ${current.availableUnits?.toFixed(0) ?? 0} units remaining`
+        : `Forward is ${current?.status.toLowerCase() ?? 'not found'}`);
+    }
+
+    const amount = BigInt(units) * BigInt(forward.unitPrice.toFixed(0));
+    const payment = await this.paymentService.initializePayment({
+      projectId: forward.projectId!,
+      paymentType: 'PROJECT_FUNDING',
+      amount: amount.toString(),
+      paymentToken: forward.paymentToken as Address,
+      payerAddress: buyerAddress as Address,
+      recipientAddress: forward.escrowAddress as Address,
+      chainId: forward.chainId!,
+      description: `Lift Forward ${forward.id} purchase of ${units} units`,
+      metadata: { liftForwardId: forward.id }
+    });
+
+    if (!payment.success) {
+      await this.releaseUnits(liftForwardId, quantity);
+      throw new Error(`Failed to initialize payment: ${payment.error}`);
+    }
+
+    const position = await this.app.prisma.liftForwardPosition.create({
+      data: {
+        liftForwardId,
+        buyerAddress: buyerAddress.toLowerCase(),
+        units: quantity,
+        amount: new Prisma.Decimal(amount.toString()),
+        paymentId: payment.paymentId!
+      }
+    });
+
+    this.app.log.info({ positionId: position.id, liftForwardId, units }, 'Lift Forward units reserved');
+    return position;
+  }
+
+  /**
+   * Activate a position once the buyer's payment token transfer to the
+   * forward's escrow account is confirmed. Milestones that resolved while the
+   * payment was pending are settled straight away.
+   */
+  async confirmPurchase(positionId: string, txHash: Hash, buyerAddress: string): Promise<LiftForwardPosition> {
+    const position = await this.getOwnedPosition(positionId, buyerAddress);
+    if (position.status !== 'PENDING') {
+      throw new Error(`Position is ${position.status.toLowerCase()}`);
+    }
+
+    const confirmation = await this.paymentService.confirmTokenTransfer(position.paymentId, txHash);
+    if (!confirmation.success) {
+      throw new Error(confirmation.error);
+    }
+
+    const { count } = await this.app.prisma.liftForwardPosition.updateMany({
+      where: { id: positionId, status: 'PENDING' },
+      data: { status: 'ACTIVE', fundedAt: new Date() }
+    });
+    if (count === 0) {
+      throw new Error('Position status changed, try again');
+    }
+
+    await this.recordEvent(position.liftForwardId, 'POSITION_FUNDED', {
+      positionId,
+      buyer: position.buyerAddress,
+      units: position.units.toFixed(0),
+      txHash
+    });
+
+    await this.settlePosition(positionId);
+    return (await this.app.prisma.liftForwardPosition.findUnique({ where: { id: positionId } }))!;
+  }
+
+  /** Release the units reserved by a position that was never funded */
+  async cancelPurchase(positionId: string, buyerAddress: string): Promise<LiftForwardPosition> {
+    const position = await this.getOwnedPosition(positionId, buyerAddress);
+
+    const { count } = await this.app.prisma.liftForwardPosition.updateMany({
+      where: { id: positionId, status: 'PENDING' },
+      data: { status: 'CANCELLED' }
+    });
+    if (count === 0) {
+      throw new Error(`Position is ${position.status.toLowerCase()}`);
+    }
+
+    await this.releaseUnits(position.liftForwardId, position.units);
+    await this.app.prisma.payment.update({
+      where: { id: position.paymentId },
+      data: { status: 'CANCELLED' }
+    });
+
+    return (await this.app.prisma.liftForwardPosition.findUnique({ where: { id: positionId } }))!;
+  }
+
+  async getPosition(positionId: string) {
+    return this.app.prisma.liftForwardPosition.findUnique({
+      where: { id: positionId },
+      include: {
+        settlements: { orderBy: { createdAt: 'asc' } },
+        payment: { select: { id: true, status: true, amount: true, txHash: true } }
+      }
+    });
+  }
+
+  async listPositions(query: PositionQuery = {}): Promise<{ positions: LiftForwardPosition[]; total: number }> {
+    const where: Prisma.LiftForwardPositionWhereInput = {};
+    if (query.liftForwardId) where.liftForwardId = query.liftForwardId;
+    if (query.buyerAddress) where.buyerAddress = query.buyerAddress.toLowerCase();
+    if (query.status) where.status = query.status;
+
+    const [positions, total] = await Promise.all([
+      this.app.prisma.liftForwardPosition.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(query.limit ?? 50, 100),
+        skip: query.offset ?? 0
+      }),
+      this.app.prisma.liftForwardPosition.count({ where })
+    ]);
+
+    return { positions, total };
+  }
+
+  // Milestones
+
+  async submitMilestoneEvidence(milestoneId: number, submitterAddress: string, evidence: MilestoneEvidence) {
+    const milestone = await this.app.prisma.liftForwardMilestone.findUnique({
+      where: { id: milestoneId },
+      include: { liftForward: { include: { project: true } } }
+    });
+    if (!milestone) {
+      throw new Error('Milestone not found');
+    }
+    if (milestone.liftForward.project?.ownerAddress?.toLowerCase() !== submitterAddress.toLowerCase()) {
+      throw new Error('Not authorized to submit evidence for this forward');
+    }
+
+    return this.governance.submitMilestoneEvidence(milestoneId, submitterAddress as Address, evidence);
+  }
+
+  async challengeMilestone(milestoneId: number, challengerAddress: string, challenge: MilestoneChallengeInput) {
+    return this.governance.challengeMilestone(milestoneId, challengerAddress as Address, challenge);
+  }
+
+  /** Accept a milestone and mint each funded position its share */
+  async acceptMilestone(milestoneId: number, verifierAddress: string, notes?: string) {
+    const result = await this.governance.acceptMilestone(milestoneId, verifierAddress as Address, notes);
+    const settlements = await this.settleMilestone(milestoneId);
+    return { ...result, settlements };
+  }
+
+  /**
+   * Resolve a pending challenge. An upheld challenge fails the milestone and
+   * refunds its share; a rejected one leaves the milestone open for acceptance.
+   */
+  async resolveChallenge(challengeId: number, resolverAddress: string, upheld: boolean, notes?: string) {
+    const challenge = await this.app.prisma.milestoneChallenge.findUnique({
+      where: { id: challengeId },
+      include: { milestone: true }
+    });
+    if (!challenge) {
+      throw new Error('Challenge not found');
+    }
+
+    const { count } = await this.app.prisma.milestoneChallenge.updateMany({
+      where: { id: challengeId, status: 'PENDING' },
+      data: {
+        status: upheld ? 'UPHELD' : 'REJECTED',
+        resolverAddress: resolverAddress.toLowerCase(),
+        resolutionNotes: notes,
+        resolvedAt: new Date()
+      }
+    });
+    if (count === 0) {
+      throw new Error(`Challenge is ${challenge.status.toLowerCase()}`);
+    }
+
+    await this.recordEvent(challenge.milestone.liftForwardId, 'CHALLENGE_RESOLVED', {
+      challengeId,
+      milestoneId: challenge.milestoneId,
+      upheld,
+      resolver: resolverAddress.toLowerCase(),
+      notes
+    });
+
+    const settlements = upheld
+      ? await this.failMilestone(challenge.milestoneId, `Challenge ${challengeId} upheld`, resolverAddress)
+      : [];
+
+    return { challengeId, milestoneId: challenge.milestoneId, status: upheld ? 'UPHELD' : 'REJECTED', settlements };
+  }
+
+  /** Fail an unresolved milestone and refund each funded position its share */
+  async failMilestone(milestoneId: number, reason: string, verifierAddress?: string): Promise<LiftForwardSettlement[]> {
+    const milestone = await this.app.prisma.liftForwardMilestone.findUnique({ where: { id: milestoneId } });
+    if (!milestone) {
+      throw new Error('Milestone not found');
+    }
+
+    const { count } = await this.app.prisma.liftForwardMilestone.updateMany({
+      where: { id: milestoneId, status: { notIn: RESOLVED_MILESTONE_STATUSES } },
+      data: {
+        status: 'FAILED',
+        failedAt: new Date(),
+        failureReason: reason,
+        verifierAddress: verifierAddress?.toLowerCase()
+      }
+    });
+    if (count === 0) {
+      throw new Error(`Milestone is already ${milestone.status.toLowerCase()}`);
+    }
+
+    await this.recordEvent(milestone.liftForwardId, 'MILESTONE_FAILED', {
+      milestoneId,
+      milestoneNumber: milestone.milestoneNumber,
+      reason,
+      verifier: verifierAddress?.toLowerCase()
+    });
+
+    return this.settleMilestone(milestoneId);
+  }
+
+  // Settlement
+
+  /**
+   * Settle a resolved milestone for every funded position of its forward and
+   * close the forward to new buyers.
+   */
+  async settleMilestone(milestoneId: number): Promise<LiftForwardSettlement[]> {
+    const milestone = await this.app.prisma.liftForwardMilestone.findUnique({ where: { id: milestoneId } });
+    if (!milestone) {
+      throw new Error('Milestone not found');
+    }
+    if (!RESOLVED_MILESTONE_STATUSES.includes(milestone.status)) {
+      throw new Error(`Milestone is ${milestone.status.toLowerCase()}`);
+    }
+
+    // Later buyers would have no share in milestones that already resolved
+    await this.app.prisma.liftForward.updateMany({
+      where: { id: milestone.liftForwardId, status: 'OPEN' },
+      data: { status: 'ACTIVE' }
+    });
+
+    const positions = await this.app.prisma.liftForwardPosition.findMany({
+      where: { liftForwardId: milestone.liftForwardId, status: 'ACTIVE' },
+      select: { id: true }
+    });
+
+    const settlements: LiftForwardSettlement[] = [];
+    for (const position of positions) {
+      const settled = await this.settlePosition(position.id);
+      settlements.push(...settled.filter(settlement => settlement.milestoneId === milestoneId));
+    }
+
+    await this.refreshForwardStatus(milestone.liftForwardId);
+    return settlements;
+  }
+
+  /**
+   * Fail overdue milestones, then retry settlements that haven't completed.
+   * Settlements left PROCESSING by an interrupted run are not retried, since
+   * their transaction may already have been sent.
+   */
+  async processSettlements(): Promise<{ failedMilestones: number; processed: number; completed: number }> {
+    const overdue = await this.app.prisma.liftForwardMilestone.findMany({
+      where: { status: 'PENDING', deadline: { lt: new Date() } },
+      select: { id: true }
+    });
+    for (const milestone of overdue) {
+      await this.failMilestone(milestone.id, 'Deadline passed without evidence').catch(error => {
+        this.app.log.error({ error, milestoneId: milestone.id }, 'Failed to fail overdue milestone');
+      });
+    }
+
+    const retryable = await this.app.prisma.liftForwardSettlement.findMany({
+      where: { status: { in: ['PENDING', 'FAILED'] }, attempts: { lt: MAX_SETTLEMENT_ATTEMPTS } },
+      orderBy: { createdAt: 'asc' },
+      take: 50
+    });
+
+    let completed = 0;
+    for (const settlement of retryable) {
+      const result = await this.processSettlement(settlement.id);
+      if (result.status === 'COMPLETED') completed++;
+    }
+
+    return { failedMilestones: overdue.length, processed: retryable.length, completed };
+  }
+
+  startSettlementProcessing(intervalMs: number = this.settlementIntervalMs): void {
+    this.stopSettlementProcessing();
+
+    this.settlementIntervalId = setInterval(async () => {
+      if (this.settling) return;
+      this.settling = true;
+      try {
+        await this.processSettlements();
+      } catch (error) {
+        this.app.log.error({ error }, 'Lift Forward settlement run failed');
+      } finally {
+        this.settling = false;
+      }
+    }, intervalMs);
+  }
+
+  stopSettlementProcessing(): void {
+    if (this.settlementIntervalId) {
+      clearInterval(this.settlementIntervalId);
+      this.settlementIntervalId = undefined;
+    }
+  }
+
+  /**
+   * Record a settlement for every resolved milestone the position has no
+   * settlement for yet, then process them.
+   */
+  private async settlePosition(positionId: string): Promise<LiftForwardSettlement[]> {
+    const position = await this.app.prisma.liftForwardPosition.findUnique({
+      where: { id: positionId },
+      include: {
+        settlements: true,
+        liftForward: { include: { milestones: { orderBy: { milestoneNumber: 'asc' } } } }
+      }
+    });
+    if (!position || position.status !== 'ACTIVE') {
+      return [];
+    }
+
+    const forward = position.liftForward;
+    const unitPrice = BigInt(forward.unitPrice!.toFixed(0));
+    const totalUnits = BigInt(forward.totalUnits!.toFixed(0));
+    const positionUnits = BigInt(position.units.toFixed(0));
+
+    let settledUnits = position.settlements.reduce((total, settlement) => total + BigInt(settlement.units.toFixed(0)), 0n);
+    let settledCount = position.settlements.length;
+
+    const created: LiftForwardSettlement[] = [];
+    for (const milestone of forward.milestones) {
+      if (!RESOLVED_MILESTONE_STATUSES.includes(milestone.status)) continue;
+      if (position.settlements.some(settlement => settlement.milestoneId === milestone.id)) continue;
+
+      // The last milestone to settle takes the rounding remainder
+      const isLast = settledCount === forward.milestones.length - 1;
+      const units = isLast
+        ? positionUnits - settledUnits
+        : positionUnits * BigInt(milestone.deliveryUnits.toFixed(0)) / totalUnits;
+
+      try {
+        created.push(await this.app.prisma.liftForwardSettlement.create({
+          data: {
+            positionId,
+            milestoneId: milestone.id,
+            kind: milestone.status === 'ACCEPTED' ? 'DELIVERY' : 'REFUND',
+            units: new Prisma.Decimal(units.toString()),
+            amount: new Prisma.Decimal((units * unitPrice).toString())
+          }
+        }));
+      } catch (error: any) {
+        // A concurrent run already recorded this settlement
+        if (error?.code === 'P2002') continue;
+        throw error;
+      }
+      settledUnits += units;
+      settledCount++;
+    }
+
+    const processed: LiftForwardSettlement[] = [];
+    for (const settlement of created) {
+      processed.push(await this.processSettlement(settlement.id));
+    }
+    return processed;
+  }
+
+  private async processSettlement(settlementId: string): Promise<LiftForwardSettlement> {
+    const prisma = this.app.prisma;
+
+    // Claim the settlement so concurrent runs never send it twice
+    const claimed = await prisma.liftForwardSettlement.updateMany({
+      where: { id: settlementId, status: { in: ['PENDING', 'FAILED'] } },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } }
+    });
+
+    const settlement = await prisma.liftForwardSettlement.findUnique({
+      where: { id: settlementId },
+      include: {
+        position: { include: { liftForward: { include: { liftToken: true } } } },
+        milestone: true
+      }
+    });
+    if (!settlement || claimed.count === 0) {
+      return settlement!;
+    }
+
+    const { position } = settlement;
+    const forward = position.liftForward;
+    const units = BigInt(settlement.units.toFixed(0));
+
+    try {
+      let txHash: string | undefined;
+      if (units > 0n) {
+        if (settlement.kind === 'DELIVERY') {
+          txHash = await this.blockchain.mintLiftToken(
+            position.buyerAddress as Address,
+            forward.liftToken!.tokenId!,
+            units.toString(),
+            forward.chainId!
+          );
+        } else {
+          const refund = await this.paymentService.refundPayment(
+            position.paymentId,
+            settlement.amount.toFixed(0),
+            `Lift Forward ${forward.id} milestone ${settlement.milestone.milestoneNumber} failed`
+          );
+          if (!refund.success) {
+            throw new Error(refund.error);
+          }
+          txHash = refund.txHash;
+        }
+      }
+
+      const completed = await prisma.liftForwardSettlement.update({
+        where: { id: settlementId },
+        data: { status: 'COMPLETED', txHash, error: null, completedAt: new Date() }
+      });
+
+      await prisma.liftForwardPosition.update({
+        where: { id: position.id },
+        data: settlement.kind === 'DELIVERY'
+          ? { deliveredUnits: { increment: settlement.units } }
+          : { refundedAmount: { increment: settlement.amount } }
+      });
+      await this.refreshPositionStatus(position.id, forward.id);
+
+      await this.recordEvent(forward.id, settlement.kind === 'DELIVERY' ? 'POSITION_DELIVERED' : 'POSITION_REFUNDED', {
+        positionId: position.id,
+        milestoneId: settlement.milestoneId,
+        buyer: position.buyerAddress,
+        units: units.toString(),
+        amount: settlement.amount.toFixed(0),
+        txHash
+      });
+
+      this.app.log.info({ settlementId, positionId: position.id, kind: settlement.kind, txHash }, 'Lift Forward settlement completed');
+      return completed;
+    } catch (error: any) {
+      this.app.log.warn({ error, settlementId, positionId: position.id, kind: settlement.kind }, 'Lift Forward settlement failed');
+      return prisma.liftForwardSettlement.update({
+        where: { id: settlementId },
+        data: { status: 'FAILED', error: error?.message ?? String(error) }
+      });
+    }
+  }
+
+  private async refreshPositionStatus(positionId: string, liftForwardId: number): Promise<void> {
+    const [milestones, completed] = await Promise.all([
+      this.app.prisma.liftForwardMilestone.count({ where: { liftForwardId } }),
+      this.app.prisma.liftForwardSettlement.count({ where: { positionId, status: 'COMPLETED' } })
+    ]);
+
+    if (completed === milestones) {
+      await this.app.prisma.liftForwardPosition.updateMany({
+        where: { id: positionId, status: 'ACTIVE' },
+        data: { status: 'SETTLED', settledAt: new Date() }
+      });
+    }
+  }
+
+  private async refreshForwardStatus(liftForwardId: number): Promise<void> {
+    const milestones = await this.app.prisma.liftForwardMilestone.findMany({
+      where: { liftForwardId },
+      select: { status: true }
+    });
+    if (!milestones.every(milestone => RESOLVED_MILESTONE_STATUSES.includes(milestone.status))) {
+      return;
+    }
+
+    const anyAccepted = milestones.some(milestone => milestone.status === 'ACCEPTED');
+    await this.app.prisma.liftForward.updateMany({
+      where: { id: liftForwardId, status: { in: ['OPEN', 'ACTIVE'] } },
+      data: { status: anyAccepted ? 'COMPLETED' : 'FAILED', completedAt: new Date() }
+    });
+  }
+
+  private async releaseUnits(liftForwardId: number, units: Prisma.Decimal): Promise<void> {
+    await this.app.prisma.liftForward.update({
+      where: { id: liftForwardId },
+      data: { availableUnits: { increment: units } }
+    });
+  }
+
+  private async getOwnedForward(liftForwardId: number, actorAddress: string) {
+    const forward = await this.app.prisma.liftForward.findUnique({
+      where: { id: liftForwardId },
+      include: { project: true }
+    });
+    if (!forward) {
+      throw new Error('Forward not found');
+    }
+    if (forward.project?.ownerAddress?.toLowerCase() !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to manage this forward');
+    }
+    return forward;
+  }
+
+  private async getOwnedPosition(positionId: string, buyerAddress: string) {
+    const position = await this.app.prisma.liftForwardPosition.findUnique({ where: { id: positionId } });
+    if (!position) {
+      throw new Error('Position not found');
+    }
+    if (position.buyerAddress !== buyerAddress.toLowerCase()) {
+      throw new Error('Not authorized to manage this position');
+    }
+    return position;
+  }
+
+  private async recordEvent(liftForwardId: number, eventType: string, eventData: Record<string, any>): Promise<void> {
+    await this.app.prisma.liftForwardEvent.create({
+      data: { liftForwardId, eventType, eventData }
+    });
+  }
+}
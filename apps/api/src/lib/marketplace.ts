@@ -0,0 +1,497 @@
+import { FastifyInstance } from 'fastify';
+import { Prisma } from '@orenna/db';
+import type { MarketplaceBid, MarketplaceFill, MarketplaceListing } from '@orenna/db';
+import { Address } from 'viem';
+import { blockchainService } from './blockchain.js';
+import { PaymentService } from './payment.js';
+import { SanctionsScreeningService } from './sanctions/index.js';
+
+export interface CreateListingInput {
+  liftTokenId: number;
+  quantity: string;
+  unitPrice: string;
+  paymentToken: string;
+  expiresAt?: Date;
+}
+
+export interface PlaceBidInput {
+  liftTokenId: number;
+  quantity: string;
+  unitPrice: string;
+  paymentToken: string;
+  expiresAt?: Date;
+}
+
+export interface ListingQuery {
+  liftTokenId?: number;
+  projectId?: number;
+  sellerAddress?: string;
+  status?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FillQuery {
+  listingId?: string;
+  bidId?: string;
+  buyerAddress?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MarketplaceServiceOptions {
+  paymentService?: Pick<PaymentService, 'initializePayment' | 'processLiftTokenPurchase'>;
+  blockchain?: Pick<typeof blockchainService, 'getLiftTokenBalance'>;
+  screening?: Pick<SanctionsScreeningService, 'screen' | 'assertClear'>;
+}
+
+const OPEN_STATUSES = ['OPEN', 'PARTIALLY_FILLED'];
+
+function notExpired(now: Date) {
+  return { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+/**
+ * Listings, bids and fills for the Lift Token marketplace.
+ *
+ * Quantity is reserved on the listing (and bid) with a conditional decrement
+ * before settlement, so concurrent buyers can never oversell; a failed
+ * settlement returns the reserved quantity.
+ */
+export class MarketplaceService {
+  private paymentService: NonNullable<MarketplaceServiceOptions['paymentService']>;
+  private blockchain: NonNullable<MarketplaceServiceOptions['blockchain']>;
+  private screening: NonNullable<MarketplaceServiceOptions['screening']>;
+
+  constructor(private app: FastifyInstance, options: MarketplaceServiceOptions = {}) {
+    this.screening = options.screening ?? new SanctionsScreeningService(app);
+    this.paymentService = options.paymentService ?? new PaymentService(app, { screening: this.screening });
+    this.blockchain = options.blockchain ?? blockchainService;
+  }
+
+  async createListing(input: CreateListingInput, actorAddress: string): Promise<MarketplaceListing> {
+    const liftToken = await this.app.prisma.liftToken.findUnique({
+      where: { id: input.liftTokenId },
+      include: { project: { include: { paymentConfig: true } } }
+    });
+
+    if (!liftToken) {
+      throw new Error('Lift token not found');
+    }
+    if (!liftToken.tokenId || !liftToken.chainId || !liftToken.project) {
+      throw new Error('Lift token has not been issued on-chain');
+    }
+    if (liftToken.project.ownerAddress?.toLowerCase() !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to list units for this project');
+    }
+
+    const paymentConfig = liftToken.project.paymentConfig;
+    if (!paymentConfig?.allocationEscrow) {
+      throw new Error('No allocation escrow configured for project');
+    }
+
+    const paymentToken = input.paymentToken.toLowerCase();
+    const acceptedTokens = (paymentConfig.paymentTokens as string[] | null) ?? [];
+    if (acceptedTokens.length > 0 && !acceptedTokens.some(token => token.toLowerCase() === paymentToken)) {
+      throw new Error('Payment token is not accepted by this project');
+    }
+
+    // Units already committed to open listings can't be listed again
+    const sellerAddress = paymentConfig.allocationEscrow.toLowerCase();
+    const [balance, committed] = await Promise.all([
+      this.blockchain.getLiftTokenBalance(sellerAddress as Address, liftToken.tokenId, liftToken.chainId),
+      this.app.prisma.marketplaceListing.aggregate({
+        where: {
+          sellerAddress,
+          tokenId: liftToken.tokenId,
+          chainId: liftToken.chainId,
+          status: { in: OPEN_STATUSES },
+          ...notExpired(new Date())
+        },
+        _sum: { remainingQuantity: true }
+      })
+    ]);
+
+    const available = BigInt(balance) - BigInt(committed._sum.remainingQuantity?.toFixed(0) ?? '0');
+    if (BigInt(input.quantity) > available) {
+      throw new Error(`Insufficient on-chain balance: ${available > 0n ? available : 0n} units available to list`);
+    }
+
+    const listing = await this.app.prisma.marketplaceListing.create({
+      data: {
+        liftTokenId: liftToken.id,
+        projectId: liftToken.project.id,
+        chainId: liftToken.chainId,
+        tokenId: liftToken.tokenId,
+        sellerAddress,
+        paymentToken,
+        quantity: new Prisma.Decimal(input.quantity),
+        remainingQuantity: new Prisma.Decimal(input.quantity),
+        unitPrice: new Prisma.Decimal(input.unitPrice),
+        expiresAt: input.expiresAt,
+        createdBy: actorAddress.toLowerCase()
+      }
+    });
+
+    this.app.log.info({ listingId: listing.id, liftTokenId: liftToken.id, quantity: input.quantity }, 'Marketplace listing created');
+    return listing;
+  }
+
+  async getListing(listingId: string): Promise<MarketplaceListing | null> {
+    return this.app.prisma.marketplaceListing.findUnique({ where: { id: listingId } });
+  }
+
+  async listListings(query: ListingQuery = {}): Promise<{ listings: MarketplaceListing[]; total: number }> {
+    const where: Prisma.MarketplaceListingWhereInput = {};
+    if (query.liftTokenId) where.liftTokenId = query.liftTokenId;
+    if (query.projectId) where.projectId = query.projectId;
+    if (query.sellerAddress) where.sellerAddress = query.sellerAddress.toLowerCase();
+    if (query.status) {
+      where.status = query.status;
+    } else {
+      // Default to the live order book
+      where.status = { in: OPEN_STATUSES };
+      Object.assign(where, notExpired(new Date()));
+    }
+
+    const [listings, total] = await Promise.all([
+      this.app.prisma.marketplaceListing.findMany({
+        where,
+        orderBy: [{ unitPrice: 'asc' }, { createdAt: 'asc' }],
+        take: Math.min(query.limit ?? 50, 100),
+        skip: query.offset ?? 0
+      }),
+      this.app.prisma.marketplaceListing.count({ where })
+    ]);
+
+    return { listings, total };
+  }
+
+  async cancelListing(listingId: string, actorAddress: string): Promise<MarketplaceListing> {
+    const listing = await this.app.prisma.marketplaceListing.findUnique({ where: { id: listingId } });
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+    if (listing.createdBy !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to cancel this listing');
+    }
+
+    const { count } = await this.app.prisma.marketplaceListing.updateMany({
+      where: { id: listingId, status: { in: OPEN_STATUSES } },
+      data: { status: 'CANCELLED', cancelledAt: new Date() }
+    });
+    if (count === 0) {
+      throw new Error(`Listing is ${listing.status.toLowerCase()}`);
+    }
+
+    return (await this.getListing(listingId))!;
+  }
+
+  async placeBid(input: PlaceBidInput, bidderAddress: string): Promise<MarketplaceBid> {
+    const liftToken = await this.app.prisma.liftToken.findUnique({ where: { id: input.liftTokenId } });
+    if (!liftToken) {
+      throw new Error('Lift token not found');
+    }
+
+    return this.app.prisma.marketplaceBid.create({
+      data: {
+        liftTokenId: liftToken.id,
+        bidderAddress: bidderAddress.toLowerCase(),
+        paymentToken: input.paymentToken.toLowerCase(),
+        quantity: new Prisma.Decimal(input.quantity),
+        remainingQuantity: new Prisma.Decimal(input.quantity),
+        unitPrice: new Prisma.Decimal(input.unitPrice),
+        expiresAt: input.expiresAt
+      }
+    });
+  }
+
+  async cancelBid(bidId: string, actorAddress: string): Promise<MarketplaceBid> {
+    const bid = await this.app.prisma.marketplaceBid.findUnique({ where: { id: bidId } });
+    if (!bid) {
+      throw new Error('Bid not found');
+    }
+    if (bid.bidderAddress !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to cancel this bid');
+    }
+
+    const { count } = await this.app.prisma.marketplaceBid.updateMany({
+      where: { id: bidId, status: { in: OPEN_STATUSES } },
+      data: { status: 'CANCELLED', cancelledAt: new Date() }
+    });
+    if (count === 0) {
+      throw new Error(`Bid is ${bid.status.toLowerCase()}`);
+    }
+
+    return (await this.app.prisma.marketplaceBid.findUnique({ where: { id: bidId } }))!;
+  }
+
+  /**
+   * Live asks (cheapest first) and bids (highest first) for a lift token
+   */
+  async getOrderBook(liftTokenId: number): Promise<{ asks: MarketplaceListing[]; bids: MarketplaceBid[] }> {
+    const now = new Date();
+    const where = { liftTokenId, status: { in: OPEN_STATUSES }, ...notExpired(now) };
+
+    const [asks, bids] = await Promise.all([
+      this.app.prisma.marketplaceListing.findMany({
+        where,
+        orderBy: [{ unitPrice: 'asc' }, { createdAt: 'asc' }]
+      }),
+      this.app.prisma.marketplaceBid.findMany({
+        where,
+        orderBy: [{ unitPrice: 'desc' }, { createdAt: 'asc' }]
+      })
+    ]);
+
+    return { asks, bids };
+  }
+
+  async listFills(query: FillQuery = {}): Promise<{ fills: MarketplaceFill[]; total: number }> {
+    const where: Prisma.MarketplaceFillWhereInput = {};
+    if (query.listingId) where.listingId = query.listingId;
+    if (query.bidId) where.bidId = query.bidId;
+    if (query.buyerAddress) where.buyerAddress = query.buyerAddress.toLowerCase();
+
+    const [fills, total] = await Promise.all([
+      this.app.prisma.marketplaceFill.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(query.limit ?? 50, 100),
+        skip: query.offset ?? 0
+      }),
+      this.app.prisma.marketplaceFill.count({ where })
+    ]);
+
+    return { fills, total };
+  }
+
+  /**
+   * Buy units from a listing at its asking price
+   */
+  async buyListing(listingId: string, quantity: string, buyerAddress: string): Promise<MarketplaceFill> {
+    const listing = await this.app.prisma.marketplaceListing.findUnique({ where: { id: listingId } });
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+
+    return this.executeFill(listing, {
+      buyerAddress: buyerAddress.toLowerCase(),
+      quantity: BigInt(quantity),
+      unitPrice: BigInt(listing.unitPrice.toFixed(0))
+    });
+  }
+
+  /**
+   * Fill a bid from one of the seller's listings at the bid price. Defaults to
+   * as much of the bid as the listing can cover.
+   */
+  async acceptBid(bidId: string, listingId: string, actorAddress: string, quantity?: string): Promise<MarketplaceFill> {
+    const [bid, listing] = await Promise.all([
+      this.app.prisma.marketplaceBid.findUnique({ where: { id: bidId } }),
+      this.app.prisma.marketplaceListing.findUnique({ where: { id: listingId } })
+    ]);
+
+    if (!bid) {
+      throw new Error('Bid not found');
+    }
+    if (!listing) {
+      throw new Error('Listing not found');
+    }
+    if (listing.createdBy !== actorAddress.toLowerCase()) {
+      throw new Error('Not authorized to accept bids for this listing');
+    }
+    if (bid.liftTokenId !== listing.liftTokenId) {
+      throw new Error('Bid is for a different lift token');
+    }
+    if (bid.paymentToken !== listing.paymentToken) {
+      throw new Error('Bid payment token does not match the listing');
+    }
+    if (!OPEN_STATUSES.includes(bid.status) || (bid.expiresAt && bid.expiresAt <= new Date())) {
+      throw new Error(`Bid is ${bid.expiresAt && bid.expiresAt <= new Date() ? 'expired' : bid.status.toLowerCase()}`);
+    }
+
+    const bidRemaining = BigInt(bid.remainingQuantity.toFixed(0));
+    const listingRemaining = BigInt(listing.remainingQuantity.toFixed(0));
+    const fillQuantity = quantity ? BigInt(quantity) :
+      (bidRemaining < listingRemaining ? bidRemaining : listingRemaining);
+
+    return this.executeFill(listing, {
+      buyerAddress: bid.bidderAddress,
+      quantity: fillQuantity,
+      unitPrice: BigInt(bid.unitPrice.toFixed(0)),
+      bid
+    });
+  }
+
+  private async executeFill(
+    listing: MarketplaceListing,
+    order: { buyerAddress: string; quantity: bigint; unitPrice: bigint; bid?: MarketplaceBid }
+  ): Promise<MarketplaceFill> {
+    const prisma = this.app.prisma;
+    const quantity = new Prisma.Decimal(order.quantity.toString());
+
+    if (order.quantity <= 0n) {
+      throw new Error('Fill quantity must be positive');
+    }
+
+    // Screen both counterparties before any quantity is reserved
+    await this.screening.assertClear({
+      subjectType: 'MARKETPLACE_FILL',
+      subjectRef: `${listing.id}:${order.buyerAddress.toLowerCase()}`,
+      addresses: [order.buyerAddress, listing.createdBy],
+      actor: order.buyerAddress.toLowerCase(),
+    });
+
+    const listingReserved = await prisma.marketplaceListing.updateMany({
+      where: {
+        id: listing.id,
+        status: { in: OPEN_STATUSES },
+        remainingQuantity: { gte: quantity },
+        ...notExpired(new Date())
+      },
+      data: { remainingQuantity: { decrement: quantity } }
+    });
+    if (listingReserved.count === 0) {
+      throw new Error(this.describeUnavailable(await this.getListing(listing.id), 'Listing'));
+    }
+
+    if (order.bid) {
+      const bidReserved = await prisma.marketplaceBid.updateMany({
+        where: {
+          id: order.bid.id,
+          status: { in: OPEN_STATUSES },
+          remainingQuantity: { gte: quantity },
+          ...notExpired(new Date())
+        },
+        data: { remainingQuantity: { decrement: quantity } }
+      });
+      if (bidReserved.count === 0) {
+        await this.releaseReservation(listing.id, quantity);
+        throw new Error(this.describeUnavailable(
+          await prisma.marketplaceBid.findUnique({ where: { id: order.bid.id } }),
+          'Bid'
+        ));
+      }
+    }
+
+    const totalPrice = order.quantity * order.unitPrice;
+    const payment = await this.paymentService.initializePayment({
+      projectId: listing.projectId,
+      paymentType: 'LIFT_UNIT_PURCHASE',
+      amount: totalPrice.toString(),
+      paymentToken: listing.paymentToken as Address,
+      payerAddress: order.buyerAddress as Address,
+      // The escrow delivers the units to the payment recipient
+      recipientAddress: order.buyerAddress as Address,
+      chainId: listing.chainId,
+      description: `Marketplace purchase of ${order.quantity} units from listing ${listing.id}`,
+      metadata: { listingId: listing.id, bidId: order.bid?.id },
+      tokenIds: [listing.tokenId],
+      tokenAmounts: [order.quantity.toString()]
+    });
+
+    if (!payment.success) {
+      await this.releaseReservation(listing.id, quantity, order.bid?.id);
+      throw new Error(`Failed to initialize payment: ${payment.error}`);
+    }
+
+    const fill = await prisma.marketplaceFill.create({
+      data: {
+        listingId: listing.id,
+        bidId: order.bid?.id,
+        buyerAddress: order.buyerAddress,
+        quantity,
+        unitPrice: new Prisma.Decimal(order.unitPrice.toString()),
+        totalPrice: new Prisma.Decimal(totalPrice.toString()),
+        paymentId: payment.paymentId!
+      }
+    });
+
+    const settlement = await this.paymentService.processLiftTokenPurchase(
+      payment.paymentId!,
+      [listing.tokenId],
+      [order.quantity.toString()]
+    );
+
+    if (!settlement.success) {
+      await this.releaseReservation(listing.id, quantity, order.bid?.id);
+      const failed = await prisma.marketplaceFill.update({
+        where: { id: fill.id },
+        data: { status: 'FAILED', error: settlement.error }
+      });
+      this.app.log.warn({ fillId: fill.id, listingId: listing.id, error: settlement.error }, 'Marketplace fill failed to settle');
+      return failed;
+    }
+
+    const settled = await prisma.marketplaceFill.update({
+      where: { id: fill.id },
+      data: { status: 'SETTLED', txHash: settlement.txHash, settledAt: new Date() }
+    });
+
+    await this.refreshStatus(listing.id, order.bid?.id);
+
+    this.app.log.info({
+      fillId: fill.id,
+      listingId: listing.id,
+      bidId: order.bid?.id,
+      quantity: order.quantity.toString(),
+      txHash: settlement.txHash
+    }, 'Marketplace fill settled');
+
+    return settled;
+  }
+
+  /** Return quantity reserved for a fill that did not settle */
+  private async releaseReservation(listingId: string, quantity: Prisma.Decimal, bidId?: string): Promise<void> {
+    await this.app.prisma.marketplaceListing.update({
+      where: { id: listingId },
+      data: { remainingQuantity: { increment: quantity } }
+    });
+    if (bidId) {
+      await this.app.prisma.marketplaceBid.update({
+        where: { id: bidId },
+        data: { remainingQuantity: { increment: quantity } }
+      });
+    }
+  }
+
+  private async refreshStatus(listingId: string, bidId?: string): Promise<void> {
+    const prisma = this.app.prisma;
+    const zero = new Prisma.Decimal(0);
+
+    // Cancelled orders keep their status; the fill still counts against them
+    await prisma.marketplaceListing.updateMany({
+      where: { id: listingId, status: { in: OPEN_STATUSES }, remainingQuantity: zero },
+      data: { status: 'FILLED' }
+    });
+    await prisma.marketplaceListing.updateMany({
+      where: { id: listingId, status: 'OPEN', remainingQuantity: { gt: zero } },
+      data: { status: 'PARTIALLY_FILLED' }
+    });
+
+    if (bidId) {
+      await prisma.marketplaceBid.updateMany({
+        where: { id: bidId, status: { in: OPEN_STATUSES }, remainingQuantity: zero },
+        data: { status: 'FILLED' }
+      });
+      await prisma.marketplaceBid.updateMany({
+        where: { id: bidId, status: 'OPEN', remainingQuantity: { gt: zero } },
+        data: { status: 'PARTIALLY_FILLED' }
+      });
+    }
+  }
+
+  private describeUnavailable(order: MarketplaceListing | MarketplaceBid | null, label: 'Listing' | 'Bid'): string {
+    if (!order) {
+      return `${label} not found`;
+    }
+    if (!OPEN_STATUSES.includes(order.status)) {
+      return `${label} is ${order.status.toLowerCase()}`;
+    }
+    if (order.expiresAt && order.expiresAt <= new Date()) {
+      return `${label} is expired`;
+    }
+    return `${label} has only ${order.remainingQuantity.toFixed(0)} units remaining`;
+  }
+}
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+
+/**
+ * Merkle trees over hex-encoded SHA-256 hashes.
+ *
+ * Leaves and interior nodes are domain-separated (0x00 / 0x01 prefix) so an
+ * interior node can never be passed off as a leaf. An odd node at the end of a
+ * level is promoted unchanged rather than duplicated, which avoids the
+ * duplicate-leaf ambiguity of Bitcoin-style trees. A proof is the list of
+ * sibling hashes from leaf to root, each tagged with the side it sits on, so
+ * anyone holding the event hash, the proof and the anchored root can verify
+ * inclusion without access to the rest of the batch.
+ */
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  hash: string;
+}
+
+export interface MerkleTree {
+  root: string;
+  layers: string[][];
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+function sha256(...parts: Buffer[]): string {
+  const hash = crypto.createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest('hex');
+}
+
+export function hashMerkleLeaf(value: string): string {
+  return sha256(LEAF_PREFIX, Buffer.from(value, 'hex'));
+}
+
+export function hashMerkleNode(left: string, right: string): string {
+  return sha256(NODE_PREFIX, Buffer.from(left, 'hex'), Buffer.from(right, 'hex'));
+}
+
+export function buildMerkleTree(values: string[]): MerkleTree {
+  if (values.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const layers: string[][] = [values.map(hashMerkleLeaf)];
+  while (layers[layers.length - 1]!.length > 1) {
+    const level = layers[layers.length - 1]!;
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i]!;
+      const right = level[i + 1];
+      next.push(right === undefined ? left : hashMerkleNode(left, right));
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1]![0]!, layers };
+}
+
+export function getMerkleProof(tree: MerkleTree, leafIndex: number): MerkleProofStep[] {
+  if (leafIndex < 0 || leafIndex >= tree.layers[0]!.length) {
+    throw new Error(`Leaf index ${leafIndex} out of range`);
+  }
+
+  const proof: MerkleProofStep[] = [];
+  let index = leafIndex;
+  for (const level of tree.layers.slice(0, -1)) {
+    const isRight = index % 2 === 1;
+    const sibling = level[isRight ? index - 1 : index + 1];
+    // A promoted odd node has no sibling at this level
+    if (sibling !== undefined) {
+      proof.push({ position: isRight ? 'left' : 'right', hash: sibling });
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function computeMerkleRoot(value: string, proof: MerkleProofStep[]): string {
+  return proof.reduce(
+    (node, step) => step.position === 'left' ? hashMerkleNode(step.hash, node) : hashMerkleNode(node, step.hash),
+    hashMerkleLeaf(value)
+  );
+}
+
+export function verifyMerkleProof(value: string, proof: MerkleProofStep[], root: string): boolean {
+  return computeMerkleRoot(value, proof) === root.toLowerCase().replace(/^0x/, '');
+}
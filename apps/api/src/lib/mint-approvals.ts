@@ -0,0 +1,346 @@
+// apps/api/src/lib/mint-approvals.ts
+import { FastifyInstance } from 'fastify';
+import type { FinanceRole, MintRequest, Prisma } from '@prisma/client';
+import { RBACService, APPROVAL_ROLES } from './rbac.js';
+
+export interface MintApprovalThreshold {
+  /** Amounts at or above this (lift units, as a numeric string) need more approvals */
+  minAmount: string;
+  requiredApprovals: number;
+}
+
+export interface MintApprovalPolicyRules {
+  requiredApprovals: number;
+  approverRoles: FinanceRole[];
+  approverAddresses: string[];
+  thresholds: MintApprovalThreshold[];
+}
+
+export interface MintApprovalServiceOptions {
+  rbac?: Pick<RBACService, 'getUserProjectRoles'>;
+}
+
+export interface MintRequestInput {
+  projectId: number;
+  tokenId: string;
+  amount: string;
+  recipient: string;
+  title: string;
+  description?: string;
+  verificationData?: Record<string, any>;
+  verificationHash?: string;
+}
+
+export interface MintActor {
+  userId: number;
+  address: string;
+}
+
+export interface MintApprovalResult {
+  mintRequest: MintRequest;
+  approvals: number;
+  requiredApprovals: number;
+}
+
+/** Applies to projects without a configured policy: one approver besides the requester */
+export const DEFAULT_MINT_APPROVAL_POLICY: MintApprovalPolicyRules = {
+  requiredApprovals: 1,
+  approverRoles: APPROVAL_ROLES,
+  approverAddresses: [],
+  thresholds: []
+};
+
+/**
+ * Approvals a request for `amount` needs: the policy's base count, raised by
+ * the highest threshold the amount reaches
+ */
+export function requiredApprovalsFor(policy: MintApprovalPolicyRules, amount: string): number {
+  return policy.thresholds.reduce(
+    (required, threshold) => BigInt(amount) >= BigInt(threshold.minAmount)
+      ? Math.max(required, threshold.requiredApprovals)
+      : required,
+    policy.requiredApprovals
+  );
+}
+
+/**
+ * Check a policy is satisfiable: N-of-M needs at least N possible approvers
+ * when they are listed by address only
+ */
+export function validateMintApprovalPolicy(policy: MintApprovalPolicyRules): void {
+  const counts = [policy.requiredApprovals, ...policy.thresholds.map(threshold => threshold.requiredApprovals)];
+  if (counts.some(count => !Number.isInteger(count) || count < 1)) {
+    throw new Error('Approval counts must be positive integers');
+  }
+  if (policy.approverRoles.length === 0 && policy.approverAddresses.length === 0) {
+    throw new Error('Policy must name approver roles or approver addresses');
+  }
+  if (policy.approverRoles.length === 0 && Math.max(...counts) > new Set(policy.approverAddresses).size) {
+    throw new Error(`Policy requires ${Math.max(...counts)} approvals but lists only ${new Set(policy.approverAddresses).size} approvers`);
+  }
+  if (policy.thresholds.some(threshold => !/^\d+$/.test(threshold.minAmount))) {
+    throw new Error('Threshold amounts must be numeric strings');
+  }
+}
+
+/**
+ * Multi-step approval of mint requests under per-project policies. Each
+ * approval, rejection and cancellation is recorded as a MintRequestEvent; a
+ * request becomes APPROVED once enough distinct approvers other than the
+ * requester have signed off.
+ */
+export class MintApprovalService {
+  private rbac: NonNullable<MintApprovalServiceOptions['rbac']>;
+
+  constructor(private app: FastifyInstance, options: MintApprovalServiceOptions = {}) {
+    this.rbac = options.rbac ?? new RBACService(app);
+  }
+
+  async getPolicy(projectId: number): Promise<MintApprovalPolicyRules & { isDefault: boolean }> {
+    const policy = await this.app.prisma.mintApprovalPolicy.findUnique({
+      where: { projectId }
+    });
+
+    if (!policy) {
+      return { ...DEFAULT_MINT_APPROVAL_POLICY, isDefault: true };
+    }
+
+    return {
+      requiredApprovals: policy.requiredApprovals,
+      approverRoles: policy.approverRoles,
+      approverAddresses: policy.approverAddresses,
+      thresholds: policy.thresholds as unknown as MintApprovalThreshold[],
+      isDefault: false
+    };
+  }
+
+  async setPolicy(projectId: number, rules: MintApprovalPolicyRules, updatedBy: string) {
+    const policy = {
+      ...rules,
+      approverAddresses: [...new Set(rules.approverAddresses.map(address => address.toLowerCase()))],
+      thresholds: [...rules.thresholds].sort((a, b) => (BigInt(a.minAmount) < BigInt(b.minAmount) ? -1 : 1))
+    };
+    validateMintApprovalPolicy(policy);
+
+    const thresholds: Prisma.InputJsonValue = policy.thresholds.map(({ minAmount, requiredApprovals }) => ({ minAmount, requiredApprovals }));
+
+    return this.app.prisma.mintApprovalPolicy.upsert({
+      where: { projectId },
+      update: { ...policy, thresholds, updatedBy },
+      create: { projectId, ...policy, thresholds, createdBy: updatedBy }
+    });
+  }
+
+  /**
+   * Create a PENDING request, fixing the number of approvals it needs from
+   * the policy in force
+   */
+  async submit(input: MintRequestInput, requester: MintActor): Promise<MintRequest> {
+    const policy = await this.getPolicy(input.projectId);
+    const requiredApprovals = requiredApprovalsFor(policy, input.amount);
+
+    return this.app.prisma.$transaction(async (tx) => {
+      const mintRequest = await tx.mintRequest.create({
+        data: {
+          projectId: input.projectId,
+          tokenId: input.tokenId,
+          amount: input.amount,
+          recipient: input.recipient.toLowerCase(),
+          title: input.title,
+          description: input.description,
+          verificationData: input.verificationData,
+          verificationHash: input.verificationHash,
+          requestedBy: requester.address.toLowerCase(),
+          requiredApprovals,
+          status: 'PENDING'
+        }
+      });
+
+      await tx.mintRequestEvent.create({
+        data: {
+          mintRequestId: mintRequest.id,
+          type: 'SUBMITTED',
+          performedBy: requester.address.toLowerCase(),
+          notes: input.title,
+          metadata: { requiredApprovals, policy: policy.isDefault ? 'default' : 'project' }
+        }
+      });
+
+      return mintRequest;
+    });
+  }
+
+  async approve(mintRequestId: string, approver: MintActor, notes?: string): Promise<MintApprovalResult> {
+    const approverAddress = approver.address.toLowerCase();
+
+    return this.app.prisma.$transaction(async (tx) => {
+      const mintRequest = await this.lockPendingRequest(tx, mintRequestId);
+      const eligibility = await this.checkApprover(mintRequest, approver);
+
+      const previous = await tx.mintRequestEvent.findMany({
+        where: { mintRequestId, type: 'APPROVED' },
+        select: { performedBy: true }
+      });
+      const approvers = new Set(previous.map(event => event.performedBy.toLowerCase()));
+
+      if (approvers.has(approverAddress)) {
+        throw new Error(`${approverAddress} has already approved mint request ${mintRequestId}`);
+      }
+
+      const approvals = approvers.size + 1;
+      const final = approvals >= mintRequest.requiredApprovals;
+
+      await tx.mintRequestEvent.create({
+        data: {
+          mintRequestId,
+          type: 'APPROVED',
+          performedBy: approverAddress,
+          notes,
+          metadata: {
+            approvals,
+            requiredApprovals: mintRequest.requiredApprovals,
+            final,
+            authority: eligibility
+          }
+        }
+      });
+
+      const updated = final
+        ? await this.transition(tx, mintRequest, {
+            status: 'APPROVED',
+            reviewedBy: approverAddress,
+            reviewedAt: new Date(),
+            approvalNotes: notes
+          })
+        : mintRequest;
+
+      return { mintRequest: updated, approvals, requiredApprovals: mintRequest.requiredApprovals };
+    });
+  }
+
+  /**
+   * A single eligible approver can reject; requesters withdraw with cancel
+   */
+  async reject(mintRequestId: string, reviewer: MintActor, reason: string): Promise<MintRequest> {
+    const reviewerAddress = reviewer.address.toLowerCase();
+
+    return this.app.prisma.$transaction(async (tx) => {
+      const mintRequest = await this.lockPendingRequest(tx, mintRequestId);
+      const eligibility = await this.checkApprover(mintRequest, reviewer);
+
+      await tx.mintRequestEvent.create({
+        data: {
+          mintRequestId,
+          type: 'REJECTED',
+          performedBy: reviewerAddress,
+          notes: reason,
+          metadata: { authority: eligibility }
+        }
+      });
+
+      return this.transition(tx, mintRequest, {
+        status: 'REJECTED',
+        reviewedBy: reviewerAddress,
+        reviewedAt: new Date(),
+        approvalNotes: reason
+      });
+    });
+  }
+
+  /**
+   * Withdraw a request while it is still pending. Only the requester can
+   * cancel; approved requests are past the point of withdrawal.
+   */
+  async cancel(mintRequestId: string, requester: MintActor, reason?: string): Promise<MintRequest> {
+    return this.app.prisma.$transaction(async (tx) => {
+      const mintRequest = await this.lockRequest(tx, mintRequestId);
+
+      if (mintRequest.requestedBy.toLowerCase() !== requester.address.toLowerCase()) {
+        throw new Error('Only the requester can cancel a mint request');
+      }
+      if (mintRequest.status !== 'PENDING') {
+        throw new Error(`Mint request ${mintRequestId} cannot be cancelled in status ${mintRequest.status}`);
+      }
+
+      await tx.mintRequestEvent.create({
+        data: {
+          mintRequestId,
+          type: 'CANCELLED',
+          performedBy: requester.address.toLowerCase(),
+          notes: reason,
+          metadata: { previousStatus: mintRequest.status }
+        }
+      });
+
+      return this.transition(tx, mintRequest, { status: 'CANCELLED' });
+    });
+  }
+
+  // Row-locks the request for the rest of the transaction so concurrent
+  // reviews of the same request run one after another
+  private async lockRequest(tx: Prisma.TransactionClient, mintRequestId: string): Promise<MintRequest> {
+    await tx.$queryRaw`SELECT id FROM "MintRequest" WHERE id = ${mintRequestId} FOR UPDATE`;
+
+    const mintRequest = await tx.mintRequest.findUnique({
+      where: { id: mintRequestId }
+    });
+
+    if (!mintRequest) {
+      throw new Error(`Mint request ${mintRequestId} not found`);
+    }
+
+    return mintRequest;
+  }
+
+  private async lockPendingRequest(tx: Prisma.TransactionClient, mintRequestId: string): Promise<MintRequest> {
+    const mintRequest = await this.lockRequest(tx, mintRequestId);
+
+    if (mintRequest.status !== 'PENDING') {
+      throw new Error(`Mint request ${mintRequestId} is not pending (status ${mintRequest.status})`);
+    }
+
+    return mintRequest;
+  }
+
+  // Moves a PENDING request to its next status, failing if it already moved
+  private async transition(
+    tx: Prisma.TransactionClient,
+    mintRequest: MintRequest,
+    data: Prisma.MintRequestUpdateManyMutationInput
+  ): Promise<MintRequest> {
+    const { count } = await tx.mintRequest.updateMany({
+      where: { id: mintRequest.id, status: 'PENDING' },
+      data
+    });
+
+    if (count === 0) {
+      throw new Error(`Mint request ${mintRequest.id} is no longer pending`);
+    }
+
+    return tx.mintRequest.findUniqueOrThrow({
+      where: { id: mintRequest.id }
+    });
+  }
+
+  // Requesters never review their own request; others must be listed by
+  // address or hold one of the policy's roles on the project
+  private async checkApprover(mintRequest: MintRequest, actor: MintActor): Promise<{ address?: true; roles?: FinanceRole[] }> {
+    const address = actor.address.toLowerCase();
+    if (mintRequest.requestedBy.toLowerCase() === address) {
+      throw new Error('Requesters cannot approve or reject their own mint request');
+    }
+
+    const policy = await this.getPolicy(mintRequest.projectId);
+    if (policy.approverAddresses.includes(address)) {
+      return { address: true };
+    }
+
+    const roles = (await this.rbac.getUserProjectRoles(actor.userId, mintRequest.projectId))
+      .filter(role => policy.approverRoles.includes(role));
+    if (roles.length === 0) {
+      throw new Error(`${address} is not an approver for project ${mintRequest.projectId} mint requests`);
+    }
+
+    return { roles };
+  }
+}
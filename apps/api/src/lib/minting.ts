@@ -296,7 +296,7 @@ export class MintingExecutionService {
       where: { id: mintRequestId },
       data: { 
         status: status as any,
-        ...(status === 'MINTING' && { executedAt: new Date() })
+        ...(status === 'MINTING' && { executedAt: new Date(), executedBy: performedBy })
       }
     });
 
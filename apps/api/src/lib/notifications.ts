@@ -481,6 +481,42 @@ Orenna Platform
       this.app.log.error({ error, projectId, eventType }, 'Failed to notify escrow event');
     }
   }
+
+  // Method to notify about Safe multisig proposals; pendingSigners lists the
+  // owners whose signatures the transaction is still waiting on
+  async notifySafeProposalEvent(
+    eventType: 'signatures_requested' | 'confirmation_added' | 'ready_to_execute' | 'executed' | 'execution_failed',
+    eventData: Record<string, any>
+  ): Promise<void> {
+    this.app.log.info({
+      eventType,
+      safeTxHash: eventData.safeTxHash,
+      pendingSigners: eventData.pendingSigners
+    }, 'Safe proposal notification');
+
+    const payload = {
+      event: `safe.${eventType}`,
+      data: eventData,
+      timestamp: new Date().toISOString()
+    };
+
+    if (this.config.webhook?.enabled && this.config.webhook.urls.length > 0) {
+      for (const url of this.config.webhook.urls) {
+        try {
+          await fetch(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'Orenna-Webhook/1.0'
+            },
+            body: JSON.stringify(payload)
+          });
+        } catch (error) {
+          this.app.log.error({ error, url, event: payload.event }, 'Failed to send Safe proposal webhook');
+        }
+      }
+    }
+  }
 }
 
 // Factory function to create notification service with environment config
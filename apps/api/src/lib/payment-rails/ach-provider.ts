@@ -1,8 +1,19 @@
 import { logger } from '../../utils/logger';
+import {
+  buildNachaFile,
+  creditTransactionCode,
+  isValidRoutingNumber,
+  parseNachaReturnFile,
+  NachaCorrection,
+  NachaFile,
+  NachaFileOptions,
+  NachaOriginator,
+  NachaSecCode,
+} from './nacha';
 
 export interface ACHTransferRequest {
   recipientName: string;
-  recipientAddress: {
+  recipientAddress?: {
     street: string;
     city: string;
     state: string;
@@ -31,6 +42,7 @@ export interface ACHTransferResponse {
   traceNumber?: string;
   returnCode?: string;
   returnReason?: string;
+  file?: NachaFile;
 }
 
 export interface ACHStatus {
@@ -44,6 +56,9 @@ export interface ACHStatus {
   traceNumber?: string;
   returnCode?: string;
   returnReason?: string;
+  changeCode?: string;
+  changeReason?: string;
+  correction?: NachaCorrection;
   lastUpdated: Date;
 }
 
@@ -65,54 +80,38 @@ export interface ACHBatchResponse {
     transactionId: string;
     status: string;
   }[];
+  file?: NachaFile;
   error?: string;
 }
 
-export interface ACHReconciliationRecord {
-  transactionId: string;
-  reference: string;
-  amount: bigint;
-  status: 'SETTLED' | 'RETURNED';
-  settledDate: Date;
-  traceNumber: string;
-  returnCode?: string;
-  returnReason?: string;
+export interface ACHProviderConfig extends NachaOriginator {
+  secCode?: NachaSecCode;
+  entryDescription?: string;
+}
+
+export interface ACHFileOptions extends NachaFileOptions {
+  secCode?: NachaSecCode;
+  entryDescription?: string;
 }
 
 /**
  * ACH Payment Provider
  * 
  * This service handles ACH (Automated Clearing House) transactions for domestic US payments.
- * In a production environment, this would integrate with providers like:
- * - Dwolla
- * - Plaid
- * - Stripe ACH
- * - Modern Treasury
- * - Bank APIs directly
+ * Transfers are written to NACHA files that the treasurer uploads through the bank portal;
+ * the bank's return and NOC files are parsed back into status updates.
  */
 export class ACHProvider {
-  private apiKey: string;
-  private environment: 'sandbox' | 'production';
-  private baseUrl: string;
-  private companyId: string;
-
-  constructor(config: {
-    apiKey: string;
-    environment: 'sandbox' | 'production';
-    companyId: string;
-  }) {
-    this.apiKey = config.apiKey;
-    this.environment = config.environment;
-    this.companyId = config.companyId;
-    this.baseUrl = config.environment === 'production' 
-      ? 'https://api.achprovider.com'
-      : 'https://sandbox.achprovider.com';
+  private config: ACHProviderConfig;
+
+  constructor(config: ACHProviderConfig) {
+    this.config = config;
   }
 
   /**
-   * Submit a single ACH transfer
+   * Submit a single ACH transfer as a one-entry NACHA file
    */
-  async submitTransfer(request: ACHTransferRequest): Promise<ACHTransferResponse> {
+  async submitTransfer(request: ACHTransferRequest, options: ACHFileOptions = {}): Promise<ACHTransferResponse> {
     try {
       logger.info('Submitting ACH transfer', {
         reference: request.reference,
@@ -120,20 +119,30 @@ export class ACHProvider {
         bankName: request.bankDetails.bankName,
       });
 
-      // Validate transfer request
-      this.validateTransferRequest(request);
-
-      // In a real implementation, this would make an HTTP request to the ACH provider
-      // For now, we'll simulate the response
-      const response = await this.simulateACHTransfer(request);
+      const effectiveDate = request.effectiveDate || new Date(Date.now() + 24 * 60 * 60 * 1000); // Next business day
+      const file = this.generateBatchFile({
+        batchId: request.reference,
+        transactions: [request],
+        totalAmount: request.amount,
+        effectiveDate,
+        status: 'CREATED',
+      }, options);
+      const { traceNumber } = file.entries[0]!;
 
       logger.info('ACH transfer submitted', {
-        transactionId: response.transactionId,
-        status: response.status,
-        reference: response.reference,
+        transactionId: traceNumber,
+        reference: request.reference,
       });
 
-      return response;
+      return {
+        transactionId: traceNumber,
+        status: 'PENDING',
+        reference: request.reference,
+        effectiveDate,
+        fee: this.calculateFees(request.amount),
+        traceNumber,
+        file,
+      };
     } catch (error) {
       logger.error('Failed to submit ACH transfer', {
         error: error.message,
@@ -144,9 +153,9 @@ export class ACHProvider {
   }
 
   /**
-   * Submit a batch of ACH transfers
+   * Submit a batch of ACH transfers as a NACHA file
    */
-  async submitBatch(batch: ACHBatch): Promise<ACHBatchResponse> {
+  async submitBatch(batch: ACHBatch, options: ACHFileOptions = {}): Promise<ACHBatchResponse> {
     try {
       logger.info('Submitting ACH batch', {
         batchId: batch.batchId,
@@ -154,45 +163,25 @@ export class ACHProvider {
         totalAmount: batch.totalAmount.toString(),
       });
 
-      // Validate batch
-      this.validateBatch(batch);
-
-      // Process each transaction in the batch
-      const transactionResults = [];
-      let successCount = 0;
-
-      for (const transaction of batch.transactions) {
-        try {
-          const result = await this.submitTransfer(transaction);
-          transactionResults.push({
-            reference: transaction.reference,
-            transactionId: result.transactionId,
-            status: result.status,
-          });
-          if (result.status !== 'FAILED') {
-            successCount++;
-          }
-        } catch (error) {
-          transactionResults.push({
-            reference: transaction.reference,
-            transactionId: '',
-            status: 'FAILED',
-          });
-        }
-      }
+      const file = this.generateBatchFile(batch, options);
 
       const batchResponse: ACHBatchResponse = {
         batchId: batch.batchId,
-        submittedCount: successCount,
+        submittedCount: file.entryCount,
         totalAmount: batch.totalAmount,
-        status: successCount > 0 ? 'SUBMITTED' : 'FAILED',
-        transactions: transactionResults,
+        status: 'SUBMITTED',
+        transactions: batch.transactions.map((transaction, index) => ({
+          reference: transaction.reference,
+          transactionId: file.entries[index]!.traceNumber,
+          status: 'PENDING',
+        })),
+        file,
       };
 
       logger.info('ACH batch submitted', {
         batchId: batch.batchId,
-        submittedCount: successCount,
-        totalTransactions: batch.transactions.length,
+        submittedCount: file.entryCount,
+        entryHash: file.entryHash,
       });
 
       return batchResponse;
@@ -206,87 +195,64 @@ export class ACHProvider {
   }
 
   /**
-   * Check the status of an ACH transfer
-   */
-  async getTransferStatus(transactionId: string): Promise<ACHStatus> {
-    try {
-      logger.info('Checking ACH transfer status', { transactionId });
-
-      // In a real implementation, this would query the ACH provider's API
-      const status = await this.simulateStatusCheck(transactionId);
-
-      logger.info('ACH status retrieved', {
-        transactionId,
-        status: status.status,
-        lastUpdated: status.lastUpdated,
-      });
-
-      return status;
-    } catch (error) {
-      logger.error('Failed to get ACH transfer status', {
-        error: error.message,
-        transactionId,
-      });
-      throw error;
-    }
-  }
-
-  /**
-   * Get reconciliation data for a date range
+   * Generate a NACHA credit file for a batch. Trace numbers are returned in
+   * transaction order and are what return files refer back to.
    */
-  async getReconciliationData(startDate: Date, endDate: Date): Promise<ACHReconciliationRecord[]> {
-    try {
-      logger.info('Fetching ACH reconciliation data', { startDate, endDate });
-
-      // In a real implementation, this would fetch settlement data from the provider
-      const records = await this.simulateReconciliationData(startDate, endDate);
-
-      logger.info('ACH reconciliation data retrieved', {
-        recordCount: records.length,
-        startDate,
-        endDate,
-      });
-
-      return records;
-    } catch (error) {
-      logger.error('Failed to get ACH reconciliation data', {
-        error: error.message,
-        startDate,
-        endDate,
-      });
-      throw error;
-    }
+  generateBatchFile(batch: ACHBatch, options: ACHFileOptions = {}): NachaFile {
+    this.validateBatch(batch);
+    batch.transactions.forEach(transaction => this.validateTransferRequest(transaction));
+
+    const { secCode, entryDescription, ...fileOptions } = options;
+
+    return buildNachaFile(this.config, [{
+      secCode: secCode ?? this.config.secCode ?? 'CCD',
+      entryDescription: entryDescription ?? this.config.entryDescription ?? 'PAYMENT',
+      effectiveDate: batch.effectiveDate,
+      entries: batch.transactions.map(transaction => ({
+        transactionCode: creditTransactionCode(transaction.bankDetails.accountType),
+        routingNumber: transaction.bankDetails.routingNumber.replace(/\D/g, ''),
+        accountNumber: transaction.bankDetails.accountNumber,
+        amount: transaction.amount,
+        identification: transaction.reference,
+        name: transaction.recipientName,
+      })),
+    }], { referenceCode: batch.batchId, ...fileOptions });
   }
 
   /**
-   * Cancel a pending ACH transfer (if supported by provider)
+   * Parse a return or NOC file into status updates keyed by the original trace number
    */
-  async cancelTransfer(transactionId: string): Promise<boolean> {
-    try {
-      logger.info('Cancelling ACH transfer', { transactionId });
-
-      // Check if transfer can be cancelled (usually only if still pending)
-      const status = await this.getTransferStatus(transactionId);
-      
-      if (status.status !== 'PENDING') {
-        throw new Error(`Cannot cancel ACH transfer with status: ${status.status}`);
-      }
-
-      // In a real implementation, this would call the provider's cancel API
-      const cancelled = await this.simulateCancellation(transactionId);
+  parseReturnFile(contents: string): ACHStatus[] {
+    const entries = parseNachaReturnFile(contents);
+
+    logger.info('Parsed ACH return file', {
+      returns: entries.filter(entry => entry.kind === 'RETURN').length,
+      notificationsOfChange: entries.filter(entry => entry.kind === 'NOTIFICATION_OF_CHANGE').length,
+    });
+
+    return entries.map(entry => {
+      const status: ACHStatus = {
+        transactionId: entry.originalTraceNumber,
+        status: entry.kind === 'RETURN' ? 'RETURNED' : 'CONFIRMED',
+        amount: entry.amount,
+        reference: entry.identification,
+        effectiveDate: entry.effectiveDate ?? new Date(),
+        traceNumber: entry.originalTraceNumber,
+        lastUpdated: new Date(),
+      };
 
-      if (cancelled) {
-        logger.info('ACH transfer cancelled successfully', { transactionId });
+      if (entry.kind === 'RETURN') {
+        status.returnCode = entry.code;
+        status.returnReason = entry.reason;
+      } else {
+        // An NOC means the entry posted, but future entries must use the corrected data
+        status.changeCode = entry.code;
+        status.changeReason = entry.reason;
+        status.correction = entry.correction;
       }
 
-      return cancelled;
-    } catch (error) {
-      logger.error('Failed to cancel ACH transfer', {
-        error: error.message,
-        transactionId,
-      });
-      throw error;
-    }
+      return status;
+    });
   }
 
   /**
@@ -297,20 +263,7 @@ export class ACHProvider {
       // Remove any non-numeric characters
       const cleaned = routingNumber.replace(/\D/g, '');
 
-      // Must be exactly 9 digits
-      if (cleaned.length !== 9) {
-        return false;
-      }
-
-      // Calculate checksum using ABA formula
-      const digits = cleaned.split('').map(Number);
-      const checksum = (
-        3 * (digits[0] + digits[3] + digits[6]) +
-        7 * (digits[1] + digits[4] + digits[7]) +
-        1 * (digits[2] + digits[5] + digits[8])
-      ) % 10;
-
-      const isValid = checksum === 0;
+      const isValid = isValidRoutingNumber(cleaned);
 
       logger.info('Routing number validation', {
         routingNumber: cleaned,
@@ -369,7 +322,11 @@ export class ACHProvider {
       throw new Error('Transfer amount exceeds maximum limit');
     }
 
-    if (!this.validateRoutingNumber(request.bankDetails.routingNumber)) {
+    if (request.currency !== 'USD') {
+      throw new Error('ACH transfers must be in USD');
+    }
+
+    if (!isValidRoutingNumber(request.bankDetails.routingNumber.replace(/\D/g, ''))) {
       throw new Error('Invalid bank routing number');
     }
   }
@@ -392,101 +349,4 @@ export class ACHProvider {
       throw new Error('Batch total amount does not match sum of transactions');
     }
   }
-
-  // Simulation methods (replace with real API calls in production)
-
-  private async simulateACHTransfer(request: ACHTransferRequest): Promise<ACHTransferResponse> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    const transactionId = `ACH_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-    
-    // Simulate various outcomes based on amount and routing number
-    const shouldFail = Math.random() < 0.05; // 5% failure rate
-    
-    if (shouldFail) {
-      return {
-        transactionId,
-        status: 'FAILED',
-        reference: request.reference,
-        effectiveDate: new Date(),
-        error: 'Invalid account number or insufficient funds',
-      };
-    }
-
-    return {
-      transactionId,
-      status: 'PENDING',
-      reference: request.reference,
-      effectiveDate: request.effectiveDate || new Date(Date.now() + 24 * 60 * 60 * 1000), // Next business day
-      fee: this.calculateFees(request.amount),
-      traceNumber: `${this.companyId}${Date.now().toString().slice(-7)}`,
-    };
-  }
-
-  private async simulateStatusCheck(transactionId: string): Promise<ACHStatus> {
-    // Simulate different statuses based on transaction age
-    const age = Date.now() - parseInt(transactionId.split('_')[1]);
-    const daysSinceCreation = age / (24 * 60 * 60 * 1000);
-
-    let status: ACHStatus['status'];
-    let settledDate: Date | undefined;
-
-    if (daysSinceCreation < 1) {
-      status = 'PENDING';
-    } else if (daysSinceCreation < 3) {
-      status = 'PROCESSING';
-    } else if (Math.random() > 0.02) { // 98% success rate
-      status = 'CONFIRMED';
-      settledDate = new Date(Date.now() - (daysSinceCreation - 3) * 24 * 60 * 60 * 1000);
-    } else {
-      status = 'RETURNED';
-    }
-
-    return {
-      transactionId,
-      status,
-      amount: BigInt(100000), // Would come from stored transaction data
-      reference: `REF_${transactionId}`,
-      effectiveDate: new Date(Date.now() - daysSinceCreation * 24 * 60 * 60 * 1000),
-      settledDate,
-      fee: BigInt(25),
-      traceNumber: `${this.companyId}${Date.now().toString().slice(-7)}`,
-      returnCode: status === 'RETURNED' ? 'R03' : undefined,
-      returnReason: status === 'RETURNED' ? 'No Account/Unable to Locate Account' : undefined,
-      lastUpdated: new Date(),
-    };
-  }
-
-  private async simulateReconciliationData(
-    startDate: Date,
-    endDate: Date
-  ): Promise<ACHReconciliationRecord[]> {
-    const records: ACHReconciliationRecord[] = [];
-    const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
-
-    // Generate sample reconciliation records
-    for (let i = 0; i < Math.min(daysDiff * 10, 100); i++) {
-      const transactionId = `ACH_${Date.now() - i * 100000}_${Math.random().toString(36).substring(2, 8)}`;
-      const settledDate = new Date(startDate.getTime() + Math.random() * (endDate.getTime() - startDate.getTime()));
-      
-      records.push({
-        transactionId,
-        reference: `REF_${transactionId}`,
-        amount: BigInt(Math.floor(Math.random() * 10000000)), // Random amount up to $100k
-        status: Math.random() > 0.95 ? 'RETURNED' : 'SETTLED',
-        settledDate,
-        traceNumber: `${this.companyId}${Date.now().toString().slice(-7)}`,
-        returnCode: Math.random() > 0.95 ? 'R01' : undefined,
-        returnReason: Math.random() > 0.95 ? 'Insufficient Funds' : undefined,
-      });
-    }
-
-    return records;
-  }
-
-  private async simulateCancellation(transactionId: string): Promise<boolean> {
-    // Simulate cancellation success/failure
-    return Math.random() > 0.1; // 90% success rate for cancellations
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,494 @@
+/**
+ * NACHA file format
+ *
+ * Builds PPD/CCD batch files in the fixed-width 94-character layout that banks
+ * accept for upload, and reads return and notification of change (NOC) entries
+ * back out of the files the ODFI sends in reply.
+ */
+
+export const NACHA_RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+
+export type NachaSecCode = 'PPD' | 'CCD';
+
+export interface NachaOriginator {
+  immediateDestination: string; // ODFI routing number (9 digits)
+  immediateDestinationName: string;
+  immediateOrigin: string; // Usually the company identification
+  immediateOriginName: string;
+  companyName: string;
+  companyIdentification: string; // '1' + EIN, as assigned by the ODFI
+  originatingDfi: string; // First 8 digits of the ODFI routing number
+}
+
+export interface NachaEntry {
+  transactionCode: string;
+  routingNumber: string; // 9 digits including check digit
+  accountNumber: string;
+  amount: bigint; // Amount in cents
+  identification: string;
+  name: string;
+}
+
+export interface NachaBatch {
+  secCode: NachaSecCode;
+  entryDescription: string;
+  effectiveDate: Date;
+  entries: NachaEntry[];
+}
+
+export interface NachaFileOptions {
+  fileIdModifier?: string;
+  referenceCode?: string;
+  createdAt?: Date;
+}
+
+export interface NachaFile {
+  contents: string;
+  batchCount: number;
+  blockCount: number;
+  entryCount: number;
+  entryHash: string;
+  totalDebit: bigint;
+  totalCredit: bigint;
+  entries: {
+    batchNumber: number;
+    identification: string;
+    traceNumber: string;
+    amount: bigint;
+  }[];
+}
+
+export interface NachaCorrection {
+  routingNumber?: string;
+  accountNumber?: string;
+  accountType?: 'CHECKING' | 'SAVINGS';
+  name?: string;
+  identification?: string;
+}
+
+export interface NachaReturnEntry {
+  kind: 'RETURN' | 'NOTIFICATION_OF_CHANGE';
+  code: string;
+  reason: string;
+  originalTraceNumber: string;
+  originalReceivingDfi: string;
+  traceNumber: string;
+  transactionCode: string;
+  amount: bigint;
+  accountNumber: string;
+  identification: string;
+  name: string;
+  secCode: string;
+  effectiveDate?: Date;
+  dateOfDeath?: Date;
+  correctedData?: string;
+  correction?: NachaCorrection;
+}
+
+export const RETURN_REASONS: Record<string, string> = {
+  R01: 'Insufficient Funds',
+  R02: 'Account Closed',
+  R03: 'No Account/Unable to Locate Account',
+  R04: 'Invalid Account Number Structure',
+  R05: 'Unauthorized Debit to Consumer Account Using Corporate SEC Code',
+  R06: "Returned per ODFI's Request",
+  R07: 'Authorization Revoked by Customer',
+  R08: 'Payment Stopped',
+  R09: 'Uncollected Funds',
+  R10: 'Customer Advises Originator is Not Known to Receiver',
+  R11: 'Customer Advises Entry Not in Accordance with the Terms of the Authorization',
+  R12: 'Account Sold to Another DFI',
+  R13: 'Invalid ACH Routing Number',
+  R14: 'Representative Payee Deceased or Unable to Continue in That Capacity',
+  R15: 'Beneficiary or Account Holder Deceased',
+  R16: 'Account Frozen/Entry Returned per OFAC Instruction',
+  R17: 'File Record Edit Criteria',
+  R20: 'Non-Transaction Account',
+  R21: 'Invalid Company Identification',
+  R22: 'Invalid Individual ID Number',
+  R23: 'Credit Entry Refused by Receiver',
+  R24: 'Duplicate Entry',
+  R29: 'Corporate Customer Advises Not Authorized',
+  R31: 'Permissible Return Entry',
+  R61: 'Misrouted Return',
+  R67: 'Duplicate Return',
+  R68: 'Untimely Return',
+  R69: 'Field Error(s)',
+  R70: 'Permissible Return Entry Not Accepted/Return Not Requested by ODFI',
+};
+
+export const CHANGE_REASONS: Record<string, string> = {
+  C01: 'Incorrect DFI Account Number',
+  C02: 'Incorrect Routing Number',
+  C03: 'Incorrect Routing Number and Incorrect DFI Account Number',
+  C04: 'Incorrect Individual Name/Receiving Company Name',
+  C05: 'Incorrect Transaction Code',
+  C06: 'Incorrect DFI Account Number and Incorrect Transaction Code',
+  C07: 'Incorrect Routing Number, Incorrect DFI Account Number, and Incorrect Transaction Code',
+  C09: 'Incorrect Individual Identification Number',
+  C13: 'Addenda Format Error',
+};
+
+/**
+ * Validate a routing number against the ABA check digit
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const checksum = routingNumber
+    .split('')
+    .reduce((sum, digit, index) => sum + Number(digit) * weights[index]!, 0) % 10;
+
+  return checksum === 0;
+}
+
+/**
+ * Transaction code for a live credit to the given account type
+ */
+export function creditTransactionCode(accountType: 'CHECKING' | 'SAVINGS'): string {
+  return accountType === 'SAVINGS' ? '32' : '22';
+}
+
+/**
+ * Build a NACHA file. Trace numbers are the ODFI's 8-digit identifier followed by
+ * a 7-digit sequence that is unique within the file.
+ */
+export function buildNachaFile(
+  originator: NachaOriginator,
+  batches: NachaBatch[],
+  options: NachaFileOptions = {}
+): NachaFile {
+  if (batches.length === 0) {
+    throw new Error('NACHA file must contain at least one batch');
+  }
+  if (!isValidRoutingNumber(originator.immediateDestination)) {
+    throw new Error('Immediate destination must be a valid routing number');
+  }
+  if (!/^\d{8}$/.test(originator.originatingDfi)) {
+    throw new Error('Originating DFI must be the first 8 digits of a routing number');
+  }
+
+  const fileIdModifier = options.fileIdModifier ?? 'A';
+  if (!/^[A-Z0-9]$/.test(fileIdModifier)) {
+    throw new Error('File ID modifier must be a single character A-Z or 0-9');
+  }
+
+  const createdAt = options.createdAt ?? new Date();
+  const records: string[] = [
+    record(
+      '1',
+      '01',
+      ` ${originator.immediateDestination}`,
+      alpha(originator.immediateOrigin, 10, 'right'),
+      formatDate(createdAt),
+      formatTime(createdAt),
+      fileIdModifier,
+      '094',
+      numeric(BLOCKING_FACTOR, 2),
+      '1',
+      alpha(originator.immediateDestinationName, 23),
+      alpha(originator.immediateOriginName, 23),
+      alpha(options.referenceCode ?? '', 8)
+    ),
+  ];
+
+  const entries: NachaFile['entries'] = [];
+  let entryHash = BigInt(0);
+  let totalDebit = BigInt(0);
+  let totalCredit = BigInt(0);
+
+  batches.forEach((batch, index) => {
+    if (batch.entries.length === 0) {
+      throw new Error('NACHA batch must contain at least one entry');
+    }
+
+    const batchNumber = index + 1;
+    const debits = batch.entries.filter(entry => isDebit(entry.transactionCode)).length;
+    const serviceClass = debits === 0 ? '220' : debits === batch.entries.length ? '225' : '200';
+
+    records.push(record(
+      '5',
+      serviceClass,
+      alpha(originator.companyName, 16),
+      alpha('', 20),
+      alpha(originator.companyIdentification, 10),
+      batch.secCode,
+      alpha(batch.entryDescription, 10),
+      alpha('', 6),
+      formatDate(batch.effectiveDate),
+      alpha('', 3), // Settlement date is inserted by the ACH operator
+      '1',
+      originator.originatingDfi,
+      numeric(batchNumber, 7)
+    ));
+
+    let batchHash = BigInt(0);
+    let batchDebit = BigInt(0);
+    let batchCredit = BigInt(0);
+
+    for (const entry of batch.entries) {
+      if (!/^\d{2}$/.test(entry.transactionCode)) {
+        throw new Error(`Invalid transaction code ${entry.transactionCode}`);
+      }
+      if (!isValidRoutingNumber(entry.routingNumber)) {
+        throw new Error(`Invalid routing number for entry ${entry.identification}`);
+      }
+      if (entry.amount < BigInt(0)) {
+        throw new Error(`Entry amount must not be negative for entry ${entry.identification}`);
+      }
+
+      const traceNumber = originator.originatingDfi + numeric(entries.length + 1, 7);
+
+      records.push(record(
+        '6',
+        entry.transactionCode,
+        entry.routingNumber,
+        alpha(entry.accountNumber.replace(/[^A-Za-z0-9]/g, ''), 17),
+        numeric(entry.amount, 10),
+        alpha(entry.identification, 15),
+        alpha(entry.name, 22),
+        alpha('', 2),
+        '0',
+        traceNumber
+      ));
+
+      batchHash += BigInt(entry.routingNumber.slice(0, 8));
+      if (isDebit(entry.transactionCode)) {
+        batchDebit += entry.amount;
+      } else {
+        batchCredit += entry.amount;
+      }
+
+      entries.push({ batchNumber, identification: entry.identification, traceNumber, amount: entry.amount });
+    }
+
+    records.push(record(
+      '8',
+      serviceClass,
+      numeric(batch.entries.length, 6),
+      hashField(batchHash),
+      numeric(batchDebit, 12),
+      numeric(batchCredit, 12),
+      alpha(originator.companyIdentification, 10),
+      alpha('', 19),
+      alpha('', 6),
+      originator.originatingDfi,
+      numeric(batchNumber, 7)
+    ));
+
+    entryHash += batchHash;
+    totalDebit += batchDebit;
+    totalCredit += batchCredit;
+  });
+
+  // The block count includes the file control record and any filler
+  const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+
+  records.push(record(
+    '9',
+    numeric(batches.length, 6),
+    numeric(blockCount, 6),
+    numeric(entries.length, 8),
+    hashField(entryHash),
+    numeric(totalDebit, 12),
+    numeric(totalCredit, 12),
+    alpha('', 39)
+  ));
+
+  while (records.length % BLOCKING_FACTOR !== 0) {
+    records.push('9'.repeat(NACHA_RECORD_LENGTH));
+  }
+
+  return {
+    contents: records.join('\n') + '\n',
+    batchCount: batches.length,
+    blockCount,
+    entryCount: entries.length,
+    entryHash: hashField(entryHash),
+    totalDebit,
+    totalCredit,
+    entries,
+  };
+}
+
+/**
+ * Parse a return or NOC file from the ODFI. Only entries carrying a return (99)
+ * or notification of change (98) addenda are reported.
+ */
+export function parseNachaReturnFile(contents: string): NachaReturnEntry[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines[0]?.[0] !== '1') {
+    throw new Error('Not a NACHA file: missing file header record');
+  }
+
+  const results: NachaReturnEntry[] = [];
+  let batch: { secCode: string; effectiveDate?: Date } | null = null;
+  let entry: Omit<NachaReturnEntry, 'kind' | 'code' | 'reason' | 'originalTraceNumber' | 'originalReceivingDfi'> | null = null;
+
+  lines.forEach((raw, index) => {
+    if (raw.length > NACHA_RECORD_LENGTH) {
+      throw new Error(`Record at line ${index + 1} is longer than ${NACHA_RECORD_LENGTH} characters`);
+    }
+    // Some banks strip trailing blanks from the fixed-width records
+    const line = raw.padEnd(NACHA_RECORD_LENGTH, ' ');
+
+    switch (line[0]) {
+      case '5':
+        batch = { secCode: field(line, 51, 53), effectiveDate: parseDate(field(line, 70, 75)) };
+        entry = null;
+        break;
+
+      case '6':
+        if (!batch) {
+          throw new Error(`Entry detail record outside a batch at line ${index + 1}`);
+        }
+        entry = {
+          transactionCode: field(line, 2, 3),
+          accountNumber: field(line, 13, 29),
+          amount: BigInt(field(line, 30, 39) || '0'),
+          identification: field(line, 40, 54),
+          name: field(line, 55, 76),
+          traceNumber: field(line, 80, 94),
+          secCode: batch.secCode,
+          effectiveDate: batch.effectiveDate,
+        };
+        break;
+
+      case '7': {
+        if (!entry) {
+          throw new Error(`Addenda record without an entry detail record at line ${index + 1}`);
+        }
+
+        const addendaType = field(line, 2, 3);
+        const code = field(line, 4, 6);
+        const original = {
+          originalTraceNumber: field(line, 7, 21),
+          originalReceivingDfi: field(line, 28, 35),
+        };
+
+        if (addendaType === '99') {
+          results.push({
+            ...entry,
+            ...original,
+            kind: 'RETURN',
+            code,
+            reason: RETURN_REASONS[code] ?? 'Unknown return reason',
+            dateOfDeath: parseDate(field(line, 22, 27)),
+          });
+        } else if (addendaType === '98') {
+          const correctedData = field(line, 36, 64);
+          results.push({
+            ...entry,
+            ...original,
+            kind: 'NOTIFICATION_OF_CHANGE',
+            code,
+            reason: CHANGE_REASONS[code] ?? 'Unknown change code',
+            correctedData,
+            correction: parseCorrection(code, line.slice(35, 64)),
+          });
+        }
+        break;
+      }
+
+      case '8':
+        batch = null;
+        entry = null;
+        break;
+    }
+  });
+
+  return results;
+}
+
+// Corrected data layouts from the NACHA operating rules, by change code
+function parseCorrection(code: string, data: string): NachaCorrection {
+  switch (code) {
+    case 'C01':
+      return { accountNumber: data.slice(0, 17).trim() };
+    case 'C02':
+      return { routingNumber: data.slice(0, 9) };
+    case 'C03':
+      return { routingNumber: data.slice(0, 9), accountNumber: data.slice(12, 29).trim() };
+    case 'C04':
+      return { name: data.slice(0, 22).trim() };
+    case 'C05':
+      return { accountType: accountTypeFor(data.slice(0, 2)) };
+    case 'C06':
+      return { accountNumber: data.slice(0, 17).trim(), accountType: accountTypeFor(data.slice(20, 22)) };
+    case 'C07':
+      return {
+        routingNumber: data.slice(0, 9),
+        accountNumber: data.slice(9, 26).trim(),
+        accountType: accountTypeFor(data.slice(26, 28)),
+      };
+    case 'C09':
+      return { identification: data.slice(0, 22).trim() };
+    default:
+      return {};
+  }
+}
+
+function accountTypeFor(transactionCode: string): NachaCorrection['accountType'] {
+  if (transactionCode[0] === '2') return 'CHECKING';
+  if (transactionCode[0] === '3') return 'SAVINGS';
+  return undefined;
+}
+
+// Second digit 6-9 marks debits (returns, live, prenote, zero-dollar)
+function isDebit(transactionCode: string): boolean {
+  return Number(transactionCode[1]) >= 6;
+}
+
+function record(...fields: string[]): string {
+  const line = fields.join('');
+  if (line.length !== NACHA_RECORD_LENGTH) {
+    throw new Error(`NACHA record type ${line[0]} is ${line.length} characters, expected ${NACHA_RECORD_LENGTH}`);
+  }
+  return line;
+}
+
+function alpha(value: string, length: number, justify: 'left' | 'right' = 'left'): string {
+  const cleaned = value.toUpperCase().replace(/[^\x20-\x7E]/g, ' ').slice(0, length);
+  return justify === 'left' ? cleaned.padEnd(length, ' ') : cleaned.padStart(length, ' ');
+}
+
+function numeric(value: bigint | number, length: number): string {
+  const digits = value.toString();
+  if (!/^\d+$/.test(digits) || digits.length > length) {
+    throw new Error(`Value ${digits} does not fit a ${length}-digit NACHA field`);
+  }
+  return digits.padStart(length, '0');
+}
+
+// Entry hash is the sum of the 8-digit RDFI identifiers, keeping the rightmost 10 digits
+function hashField(hash: bigint): string {
+  return numeric(hash % BigInt(10_000_000_000), 10);
+}
+
+// 1-based inclusive positions, as printed in the NACHA record layouts
+function field(line: string, start: number, end: number): string {
+  return line.slice(start - 1, end).trim();
+}
+
+function formatDate(date: Date): string {
+  return [date.getUTCFullYear() % 100, date.getUTCMonth() + 1, date.getUTCDate()]
+    .map(part => part.toString().padStart(2, '0'))
+    .join('');
+}
+
+function formatTime(date: Date): string {
+  return [date.getUTCHours(), date.getUTCMinutes()]
+    .map(part => part.toString().padStart(2, '0'))
+    .join('');
+}
+
+function parseDate(value: string): Date | undefined {
+  if (!/^\d{6}$/.test(value)) {
+    return undefined;
+  }
+  return new Date(Date.UTC(2000 + Number(value.slice(0, 2)), Number(value.slice(2, 4)) - 1, Number(value.slice(4, 6))));
+}
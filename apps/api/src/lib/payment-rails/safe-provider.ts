@@ -1,4 +1,4 @@
-import { createPublicClient, createWalletClient, http, parseUnits, formatUnits, Address, Hex, encodeFunctionData } from 'viem';
+import { createPublicClient, createWalletClient, http, parseUnits, formatUnits, Address, Hex, encodeFunctionData, hashTypedData } from 'viem';
 import { mainnet, polygon, arbitrum, base, optimism } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { logger } from '../../utils/logger';
@@ -25,6 +25,7 @@ export interface SafeTransferResponse {
   requiredSignatures: number;
   nonce: number;
   reference: string;
+  proposer?: Address; // Owner whose signature accompanied the proposal
   error?: string;
 }
 
@@ -100,8 +101,38 @@ export interface SafeBatchResponse {
   }[];
   signatures: number;
   requiredSignatures: number;
+  nonce: number;
+  proposer: Address;
 }
 
+/**
+ * The subset of Safe operations the payment flow depends on. SafeProvider talks
+ * to the Safe Transaction Service; a local stand-in only needs to implement this.
+ */
+export interface SafeAdapter {
+  getSafeInfo(safeAddress: Address, chainId: number): Promise<SafeInfo>;
+  submitTransfer(request: SafeTransferRequest): Promise<SafeTransferResponse>;
+  submitBatch(batch: SafeBatch): Promise<SafeBatchResponse>;
+  getConfirmations(safeTransactionHash: string, chainId: number): Promise<SafeSignature[]>;
+  confirmTransaction(safeTransactionHash: string, chainId: number, signature: SafeSignature): Promise<void>;
+}
+
+// EIP-712 type of the SafeTx struct that owners sign (Safe v1.3.0+)
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
 // Safe Contract ABI (minimal interface)
 const SAFE_ABI = [
   {
@@ -145,6 +176,37 @@ const SAFE_ABI = [
   },
 ] as const;
 
+// Safe events the indexer follows to detect execution and on-chain approvals
+export const SAFE_EVENTS_ABI = [
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: 'approvedHash', type: 'bytes32' },
+      { indexed: true, name: 'owner', type: 'address' },
+    ],
+    name: 'ApproveHash',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: 'txHash', type: 'bytes32' },
+      { indexed: false, name: 'payment', type: 'uint256' },
+    ],
+    name: 'ExecutionSuccess',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: 'txHash', type: 'bytes32' },
+      { indexed: false, name: 'payment', type: 'uint256' },
+    ],
+    name: 'ExecutionFailure',
+    type: 'event',
+  },
+] as const;
+
 // ERC-20 Token ABI (for transfers)
 const ERC20_ABI = [
   {
@@ -193,7 +255,7 @@ const MULTISEND_ADDRESSES: Record<number, Address> = {
  * Integrates with Safe Transaction Service API for off-chain signature collection
  * and on-chain execution.
  */
-export class SafeProvider {
+export class SafeProvider implements SafeAdapter {
   private privateKey: Hex;
   private serviceUrls: Record<number, string>;
 
@@ -294,6 +356,7 @@ export class SafeProvider {
         requiredSignatures: safeInfo.threshold,
         nonce: safeInfo.nonce,
         reference: request.reference,
+        proposer: signature.signer,
       };
 
       // Check if we can execute immediately
@@ -413,6 +476,8 @@ export class SafeProvider {
         })),
         signatures: 1,
         requiredSignatures: safeInfo.threshold,
+        nonce: safeInfo.nonce,
+        proposer: signature.signer,
       };
 
       // Execute if threshold is met
@@ -502,6 +567,53 @@ export class SafeProvider {
     }
   }
 
+  /**
+   * List the owner signatures the Safe Transaction Service holds for a transaction
+   */
+  async getConfirmations(safeTransactionHash: string, chainId: number): Promise<SafeSignature[]> {
+    const serviceUrl = this.getServiceUrl(chainId);
+    const response = await fetch(
+      `${serviceUrl}/api/v1/multisig-transactions/${safeTransactionHash}/confirmations/`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch confirmations: ${response.statusText}`);
+    }
+
+    const { results } = await response.json() as {
+      results: { owner: Address; signature: Hex | null; signatureType: string }[];
+    };
+
+    return results.map(confirmation => ({
+      signer: confirmation.owner,
+      data: confirmation.signature ?? '0x',
+      dynamic: confirmation.signatureType === 'CONTRACT_SIGNATURE',
+    }));
+  }
+
+  /**
+   * Add an owner's signature to a proposed transaction
+   */
+  async confirmTransaction(safeTransactionHash: string, chainId: number, signature: SafeSignature): Promise<void> {
+    const serviceUrl = this.getServiceUrl(chainId);
+    const response = await fetch(
+      `${serviceUrl}/api/v1/multisig-transactions/${safeTransactionHash}/confirmations/`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          signature: signature.data,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to submit confirmation: ${response.statusText}`);
+    }
+  }
+
   /**
    * Get Safe wallet information
    */
@@ -569,17 +681,13 @@ export class SafeProvider {
   ): Promise<SafeSignature> {
     try {
       const account = privateKeyToAccount(this.privateKey);
-      
-      // Calculate the transaction hash to sign
-      const transactionHash = await this.calculateSafeTransactionHash(
-        safeAddress,
-        chainId,
-        transaction
-      );
 
-      // Sign the hash
-      const signature = await account.signMessage({
-        message: { raw: transactionHash as Hex },
+      // Owners sign the EIP-712 SafeTx struct, which the Safe verifies as an ECDSA signature
+      const signature = await account.signTypedData({
+        domain: { chainId, verifyingContract: safeAddress },
+        types: SAFE_TX_TYPES,
+        primaryType: 'SafeTx',
+        message: this.toSafeTxMessage(transaction),
       });
 
       return {
@@ -699,15 +807,33 @@ export class SafeProvider {
     }
   }
 
+  // Matches Safe.getTransactionHash, so it is the txHash emitted in ExecutionSuccess/ExecutionFailure
   private async calculateSafeTransactionHash(
     safeAddress: Address,
     chainId: number,
     transaction: any
   ): Promise<string> {
-    // This would implement the Safe transaction hash calculation
-    // For now, return a mock hash
-    const data = JSON.stringify({ safeAddress, chainId, transaction });
-    return `0x${Buffer.from(data).toString('hex').slice(0, 64)}`;
+    return hashTypedData({
+      domain: { chainId, verifyingContract: safeAddress },
+      types: SAFE_TX_TYPES,
+      primaryType: 'SafeTx',
+      message: this.toSafeTxMessage(transaction),
+    });
+  }
+
+  private toSafeTxMessage(transaction: any) {
+    return {
+      to: transaction.to as Address,
+      value: BigInt(transaction.value),
+      data: transaction.data as Hex,
+      operation: Number(transaction.operation),
+      safeTxGas: BigInt(transaction.safeTxGas),
+      baseGas: BigInt(transaction.baseGas),
+      gasPrice: BigInt(transaction.gasPrice),
+      gasToken: transaction.gasToken as Address,
+      refundReceiver: transaction.refundReceiver as Address,
+      nonce: BigInt(transaction.nonce),
+    };
   }
 
   private async submitToTransactionService(
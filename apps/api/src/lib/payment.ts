@@ -1,7 +1,8 @@
 import { FastifyInstance } from 'fastify';
-import { Address, Hash, parseAbi, getContract, parseEther, formatUnits } from 'viem';
+import { Address, Hash, parseAbi, parseEventLogs, getContract, parseEther, formatUnits } from 'viem';
 import { blockchainService } from './blockchain.js';
 import { getEnv } from '../types/env.js';
+import { SanctionsScreeningService } from './sanctions/index.js';
 
 const env = getEnv();
 
@@ -37,7 +38,9 @@ export const ALLOCATION_ESCROW_ABI = parseAbi([
 export interface PaymentRequest {
   projectId: number;
   paymentType: 'LIFT_UNIT_PURCHASE' | 'PROJECT_FUNDING' | 'REPAYMENT' | 'PLATFORM_FEE' | 'STEWARD_PAYMENT';
-  amount: string;
+  amount: string; // In the token's smallest unit
+  currency?: string; // Token symbol, e.g. USDC
+  decimals?: number; // Read from the token contract when omitted
   paymentToken: Address;
   payerAddress: Address;
   recipientAddress: Address;
@@ -69,8 +72,16 @@ export interface PaymentResult {
   estimatedGas?: string;
 }
 
+export interface PaymentServiceOptions {
+  screening?: Pick<SanctionsScreeningService, 'screen'>;
+}
+
 export class PaymentService {
-  constructor(private app: FastifyInstance) {}
+  private screening: NonNullable<PaymentServiceOptions['screening']>;
+
+  constructor(private app: FastifyInstance, options: PaymentServiceOptions = {}) {
+    this.screening = options.screening ?? new SanctionsScreeningService(app);
+  }
 
   async initializePayment(request: PaymentRequest): Promise<PaymentResult> {
     try {
@@ -80,12 +91,31 @@ export class PaymentService {
         return { success: false, error: validation.error };
       }
 
+      // Both wallets are screened before the payment exists; a hit is
+      // reviewed under the pair of addresses and the payment resubmitted
+      const screening = await this.screening.screen({
+        subjectType: 'PAYMENT',
+        subjectRef: `${request.payerAddress.toLowerCase()}:${request.recipientAddress.toLowerCase()}`,
+        addresses: [request.payerAddress, request.recipientAddress],
+        actor: request.payerAddress.toLowerCase(),
+      });
+      if (screening.decision !== 'CLEAR') {
+        return {
+          success: false,
+          error: `Payment ${screening.decision === 'BLOCK' ? 'blocked' : 'held'} by sanctions screening pending compliance review`,
+        };
+      }
+
+      const decimals = request.decimals ?? await this.getTokenDecimals(request.chainId, request.paymentToken);
+
       // Create payment record in database
       const payment = await this.app.prisma.payment.create({
         data: {
           paymentType: request.paymentType,
           projectId: request.projectId,
           amount: request.amount,
+          currency: request.currency?.toUpperCase(),
+          decimals,
           paymentToken: request.paymentToken.toLowerCase(),
           chainId: request.chainId,
           payerAddress: request.payerAddress.toLowerCase(),
@@ -381,6 +411,163 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Confirm a payment the payer made directly with a payment token transfer.
+   * The transaction must transfer at least the payment amount of the payment
+   * token from the payer to the recipient, and may back only one payment.
+   */
+  async confirmTokenTransfer(paymentId: string, txHash: Hash): Promise<PaymentResult> {
+    try {
+      const payment = await this.app.prisma.payment.findUnique({ where: { id: paymentId } });
+
+      if (!payment) {
+        return { success: false, error: 'Payment not found' };
+      }
+
+      if (payment.status !== 'PENDING') {
+        return { success: false, error: `Payment status is ${payment.status}, expected PENDING` };
+      }
+
+      const reused = await this.app.prisma.payment.findFirst({
+        where: { txHash: txHash.toLowerCase(), id: { not: paymentId } }
+      });
+      if (reused) {
+        return { success: false, error: 'Transaction already used for another payment' };
+      }
+
+      const publicClient = blockchainService.getPublicClient(payment.chainId);
+      const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+      if (receipt.status !== 'success') {
+        return { success: false, error: 'Transfer transaction failed' };
+      }
+
+      const transferred = parseEventLogs({ abi: PAYMENT_TOKEN_ABI, eventName: 'Transfer', logs: receipt.logs })
+        .filter(log =>
+          log.address.toLowerCase() === payment.paymentToken &&
+          log.args.from.toLowerCase() === payment.payerAddress &&
+          log.args.to.toLowerCase() === payment.recipientAddress
+        )
+        .reduce((total, log) => total + log.args.value, 0n);
+
+      if (transferred < BigInt(payment.amount)) {
+        return { success: false, error: `Transfer of ${transferred} is less than the payment amount of ${payment.amount}` };
+      }
+
+      const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+
+      await this.app.prisma.payment.update({
+        where: { id: paymentId },
+        data: {
+          txHash: txHash.toLowerCase(),
+          blockNumber: Number(receipt.blockNumber),
+          blockTimestamp: new Date(Number(block.timestamp) * 1000),
+          status: 'IN_ESCROW',
+          confirmedAt: new Date()
+        }
+      });
+
+      await this.app.prisma.paymentEvent.create({
+        data: {
+          paymentId,
+          type: 'ESCROW_DEPOSITED',
+          performedBy: payment.payerAddress,
+          amount: transferred.toString(),
+          fromAddress: payment.payerAddress,
+          toAddress: payment.recipientAddress,
+          txHash: txHash.toLowerCase(),
+          blockNumber: Number(receipt.blockNumber)
+        }
+      });
+
+      this.app.log.info({ paymentId, txHash }, 'Token transfer payment confirmed');
+
+      return {
+        success: true,
+        paymentId,
+        txHash
+      };
+
+    } catch (error) {
+      this.app.log.error({ error, paymentId, txHash }, 'Failed to confirm token transfer');
+      return {
+        success: false,
+        error: `Failed to confirm transfer: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Return part or all of an escrowed payment to the payer from the payment
+   * processor account. The payment is marked REFUNDED once the refunds cover
+   * the full amount.
+   */
+  async refundPayment(paymentId: string, amount: string, reason?: string): Promise<PaymentResult> {
+    try {
+      const payment = await this.app.prisma.payment.findUnique({
+        where: { id: paymentId },
+        include: { events: { where: { type: 'PAYMENT_REFUNDED' } } }
+      });
+
+      if (!payment) {
+        return { success: false, error: 'Payment not found' };
+      }
+
+      if (!['CONFIRMED', 'IN_ESCROW'].includes(payment.status)) {
+        return { success: false, error: `Payment status is ${payment.status}, expected IN_ESCROW` };
+      }
+
+      const refunded = payment.events.reduce((total, event) => total + BigInt(event.amount ?? '0'), 0n);
+      if (BigInt(amount) <= 0n || refunded + BigInt(amount) > BigInt(payment.amount)) {
+        return { success: false, error: `Refund of ${amount} exceeds the unrefunded amount of ${BigInt(payment.amount) - refunded}` };
+      }
+
+      const walletClient = blockchainService.getWalletClient(payment.chainId);
+
+      const hash = await walletClient.writeContract({
+        address: payment.paymentToken as Address,
+        abi: PAYMENT_TOKEN_ABI,
+        functionName: 'transfer',
+        args: [payment.payerAddress as Address, BigInt(amount)],
+      });
+
+      const fullyRefunded = refunded + BigInt(amount) === BigInt(payment.amount);
+      if (fullyRefunded) {
+        await this.app.prisma.payment.update({
+          where: { id: paymentId },
+          data: { status: 'REFUNDED' }
+        });
+      }
+
+      await this.app.prisma.paymentEvent.create({
+        data: {
+          paymentId,
+          type: 'PAYMENT_REFUNDED',
+          performedBy: walletClient.account?.address || '',
+          amount,
+          fromAddress: walletClient.account?.address,
+          toAddress: payment.payerAddress,
+          txHash: hash,
+          notes: reason
+        }
+      });
+
+      this.app.log.info({ paymentId, amount, txHash: hash, fullyRefunded }, 'Payment refunded');
+
+      return {
+        success: true,
+        paymentId,
+        txHash: hash
+      };
+
+    } catch (error) {
+      this.app.log.error({ error, paymentId, amount }, 'Failed to refund payment');
+      return {
+        success: false,
+        error: `Failed to refund payment: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
   async getPaymentStatus(paymentId: string) {
     return await this.app.prisma.payment.findUnique({
       where: { id: paymentId },
@@ -458,6 +645,21 @@ export class PaymentService {
     return { isValid: true };
   }
 
+  // Token amounts are stored in base units, so record the scale alongside them
+  private async getTokenDecimals(chainId: number, token: Address): Promise<number | undefined> {
+    try {
+      const publicClient = blockchainService.getPublicClient(chainId);
+      return await publicClient.readContract({
+        address: token,
+        abi: PAYMENT_TOKEN_ABI,
+        functionName: 'decimals',
+      });
+    } catch (error) {
+      this.app.log.warn({ error, chainId, token }, 'Failed to read payment token decimals');
+      return undefined;
+    }
+  }
+
   private generateConsiderationRef(paymentId: string): string {
     // Generate a deterministic consideration reference based on payment ID
     const encoder = new TextEncoder();
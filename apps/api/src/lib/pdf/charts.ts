@@ -0,0 +1,136 @@
+/**
+ * Bar and line charts drawn as PDF vector paths, so they stay sharp at any
+ * zoom and need no image rendering.
+ */
+
+import type { PdfColor, PdfPage } from './document';
+import { measureText, truncateText } from './metrics';
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+  color?: PdfColor;
+}
+
+export interface ChartSpec {
+  kind: 'bar' | 'line';
+  title?: string;
+  labels: string[];
+  series: ChartSeries[];
+}
+
+export const CHART_PALETTE: PdfColor[] = ['#1f6f5c', '#e09f3e', '#335c81', '#9e2a2b', '#6c757d', '#7b2cbf'];
+
+const GRID_COLOR = '#d9dedc';
+const LABEL_COLOR = '#444444';
+const TICK_COUNT = 4;
+
+/** Draw the chart inside the box whose top-left corner is (x, y) */
+export function drawChart(page: PdfPage, x: number, y: number, width: number, height: number, spec: ChartSpec): void {
+  let top = y;
+  if (spec.title) {
+    page.text(x, top, spec.title, { size: 10, font: 'bold' });
+    top += 18;
+  }
+
+  const colors = spec.series.map((series, index) => series.color ?? CHART_PALETTE[index % CHART_PALETTE.length]!);
+  const legendHeight = spec.series.length > 1 ? 16 : 0;
+  const bottom = y + height - legendHeight - 14; // x-axis labels sit below the plot
+
+  const values = spec.series.flatMap(series => series.values).filter(Number.isFinite);
+  const scale = niceScale(values);
+  const tickLabels = scale.ticks.map(formatTick);
+  const axisWidth = Math.max(...tickLabels.map(label => measureText(label, 7))) + 6;
+
+  const plotLeft = x + axisWidth;
+  const plotWidth = width - axisWidth;
+  const plotHeight = bottom - top;
+  const toY = (value: number) => bottom - ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+  // Gridlines and value axis
+  scale.ticks.forEach((tick, index) => {
+    const tickY = toY(tick);
+    page.line(plotLeft, tickY, plotLeft + plotWidth, tickY, 0.4, tick === 0 ? LABEL_COLOR : GRID_COLOR);
+    page.text(plotLeft - 4, tickY - 3.5, tickLabels[index]!, { size: 7, align: 'right', color: LABEL_COLOR });
+  });
+  page.line(plotLeft, top, plotLeft, bottom, 0.6, LABEL_COLOR);
+
+  const count = Math.max(spec.labels.length, 1);
+  const slot = plotWidth / count;
+
+  if (spec.kind === 'bar') {
+    const groupWidth = slot * 0.7;
+    const barWidth = groupWidth / Math.max(spec.series.length, 1);
+    const zeroY = toY(Math.max(scale.min, Math.min(0, scale.max)));
+    spec.series.forEach((series, seriesIndex) => {
+      series.values.forEach((value, index) => {
+        if (!Number.isFinite(value) || value === 0) return;
+        const barX = plotLeft + slot * index + (slot - groupWidth) / 2 + barWidth * seriesIndex;
+        const valueY = toY(value);
+        page.fillRect(barX, Math.min(valueY, zeroY), barWidth, Math.abs(zeroY - valueY), colors[seriesIndex]!);
+      });
+    });
+  } else {
+    spec.series.forEach((series, seriesIndex) => {
+      const points = series.values
+        .map((value, index): [number, number] | undefined =>
+          Number.isFinite(value) ? [plotLeft + slot * index + slot / 2, toY(value)] : undefined)
+        .filter((point): point is [number, number] => point !== undefined);
+      page.polyline(points, { width: 1.5, color: colors[seriesIndex] });
+      points.forEach(([pointX, pointY]) => page.fillRect(pointX - 1.5, pointY - 1.5, 3, 3, colors[seriesIndex]!));
+    });
+  }
+
+  // Category labels, thinned out when they would overlap
+  const every = Math.max(1, Math.ceil(count / Math.max(1, Math.floor(plotWidth / 36))));
+  spec.labels.forEach((label, index) => {
+    if (index % every !== 0) return;
+    const text = truncateText(label, slot * every - 2, 7);
+    page.text(plotLeft + slot * index + slot / 2, bottom + 4, text, { size: 7, align: 'center', color: LABEL_COLOR });
+  });
+
+  if (legendHeight > 0) {
+    let legendX = plotLeft;
+    const legendY = y + height - 10;
+    spec.series.forEach((series, index) => {
+      page.fillRect(legendX, legendY, 8, 8, colors[index]!);
+      page.text(legendX + 11, legendY, series.name, { size: 7, color: LABEL_COLOR });
+      legendX += 11 + measureText(series.name, 7) + 14;
+    });
+  }
+}
+
+/** Axis bounds and ticks on round numbers, always including zero */
+export function niceScale(values: number[]): { min: number; max: number; ticks: number[] } {
+  let min = Math.min(0, ...values);
+  let max = Math.max(0, ...values);
+  if (max === min) {
+    max = min + 1;
+  }
+
+  const raw = (max - min) / TICK_COUNT;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const normalized = raw / magnitude;
+  const step = (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+
+  min = Math.floor(min / step) * step;
+  max = Math.ceil(max / step) * step;
+
+  const ticks: number[] = [];
+  for (let tick = min; tick <= max + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return { min, max, ticks };
+}
+
+function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${trim(value / 1e9)}B`;
+  if (abs >= 1e6) return `${trim(value / 1e6)}M`;
+  if (abs >= 1e3) return `${trim(value / 1e3)}k`;
+  return trim(value);
+}
+
+function trim(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -0,0 +1,177 @@
+/**
+ * Minimal PDF writer
+ *
+ * Produces PDF 1.4 files using the standard Helvetica fonts, which every
+ * viewer provides, so nothing is embedded and no browser is needed. Page
+ * coordinates are in points from the top-left corner.
+ */
+
+import { measureText } from './metrics';
+
+export type PdfFont = 'regular' | 'bold';
+
+/** Hex colour, e.g. '#1f6f5c' */
+export type PdfColor = string;
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  /** Alignment relative to x; right and center set the text's end or middle there */
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfStrokeOptions {
+  width?: number;
+  color?: PdfColor;
+}
+
+export const PAGE_SIZES = {
+  LETTER: { width: 612, height: 792 },
+  A4: { width: 595.28, height: 841.89 },
+} as const;
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+export class PdfPage {
+  private operations: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    const width = options.align && options.align !== 'left' ? measureText(value, size, font) : 0;
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.operations.push(
+      `BT ${fillColor(options.color ?? '#000000')} /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(left)} ${num(this.height - y - size)} Td (${escapeText(value)}) Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color?: PdfColor): this {
+    this.operations.push(`${strokeColor(color)}${num(width)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`);
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, lineWidth = 0.5, color?: PdfColor): this {
+    this.operations.push(`${strokeColor(color)}${num(lineWidth)} w ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re S`);
+    return this;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): this {
+    this.operations.push(`${fillColor(color)} ${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re f`);
+    return this;
+  }
+
+  polyline(points: Array<[number, number]>, options: PdfStrokeOptions = {}): this {
+    if (points.length < 2) {
+      return this;
+    }
+    const path = points.map(([x, y], index) => `${num(x)} ${num(this.height - y)} ${index === 0 ? 'm' : 'l'}`).join(' ');
+    this.operations.push(`${strokeColor(options.color)}${num(options.width ?? 0.5)} w 1 j ${path} S`);
+    return this;
+  }
+
+  polygon(points: Array<[number, number]>, color: PdfColor): this {
+    if (points.length < 3) {
+      return this;
+    }
+    const path = points.map(([x, y], index) => `${num(x)} ${num(this.height - y)} ${index === 0 ? 'm' : 'l'}`).join(' ');
+    this.operations.push(`${fillColor(color)} ${path} h f`);
+    return this;
+  }
+
+  content(): string {
+    return this.operations.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private info: { title?: string; author?: string } = {}) {}
+
+  addPage(size: { width: number; height: number } = PAGE_SIZES.LETTER): PdfPage {
+    const page = new PdfPage(size.width, size.height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /** Pages in order, for stamping headers and footers once layout is done */
+  getPages(): readonly PdfPage[] {
+    return this.pages;
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) {
+      throw new Error('PDF document has no pages');
+    }
+
+    // Objects 1-4 are fixed; each page adds a page object and a content stream
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index]!;
+      const stream = page.content();
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    const infoId = objects.length;
+    objects[infoId] = `<< /Producer (Orenna API)${this.info.title ? ` /Title (${escapeText(this.info.title)})` : ''}` +
+      `${this.info.author ? ` /Author (${escapeText(this.info.author)})` : ''} >>`;
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(body, 'latin1');
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      body += `${offsets[id]!.toString().padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+}
+
+// Literal strings are written in WinAnsi; characters outside Latin-1 become '?'
+function escapeText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+// Stroke colour is reset for every operation so pages never inherit state
+function strokeColor(color: PdfColor = '#000000'): string {
+  return `${rgb(color)} RG `;
+}
+
+function fillColor(color: PdfColor): string {
+  return `${rgb(color)} rg`;
+}
+
+function rgb(color: PdfColor): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color);
+  if (!match) {
+    throw new Error(`Invalid PDF colour: ${color}`);
+  }
+  const value = parseInt(match[1]!, 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff].map(channel => num(channel / 255)).join(' ');
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -0,0 +1,9 @@
+export { PdfDocument, PdfPage, PAGE_SIZES } from './document';
+export type { PdfColor, PdfFont, PdfTextOptions, PdfStrokeOptions } from './document';
+export { measureText, wrapText, truncateText } from './metrics';
+export { drawChart, niceScale, CHART_PALETTE } from './charts';
+export type { ChartSpec, ChartSeries } from './charts';
+export { renderPdfReport, formatCell, formatDate, formatDateTime, humanize, objectRows } from './report';
+export type { PdfReportDefinition, ReportBlock, ReportCell, ReportCover, ReportFooter, ReportTableColumn } from './report';
+export { sealReport, hashReportContent } from './seal';
+export type { ReportSeal } from './seal';
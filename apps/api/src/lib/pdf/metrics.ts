@@ -0,0 +1,92 @@
+/**
+ * Glyph widths for the standard Helvetica faces, from the Adobe core font
+ * metrics, in thousandths of the font size. Needed to wrap, truncate and
+ * right-align text since the fonts are referenced rather than embedded.
+ */
+
+import type { PdfFont } from './document';
+
+// Printable ASCII, 0x20 through 0x7E
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const WIDTHS: Record<PdfFont, number[]> = { regular: HELVETICA, bold: HELVETICA_BOLD };
+
+// Latin-1 letters above 0x7F are close to the average lowercase width
+const FALLBACK_WIDTH = 556;
+
+/** Width of the string in points when set at the given size */
+export function measureText(value: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = WIDTHS[font];
+  let total = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    total += code >= 0x20 && code <= 0x7e ? widths[code - 0x20]! : FALLBACK_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth. Words longer than a line are
+ * split; explicit newlines start a new line.
+ */
+export function wrapText(value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of value.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (measureText(line, size, font) > maxWidth && line.length > 1) {
+        const fit = fitLength(line, maxWidth, size, font);
+        lines.push(line.slice(0, fit));
+        line = line.slice(fit);
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/** Shorten text with an ellipsis so it fits within maxWidth */
+export function truncateText(value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string {
+  if (measureText(value, size, font) <= maxWidth) {
+    return value;
+  }
+  const ellipsisWidth = measureText('...', size, font);
+  const fit = fitLength(value, maxWidth - ellipsisWidth, size, font);
+  return `${value.slice(0, Math.max(fit, 0)).trimEnd()}...`;
+}
+
+// Longest prefix of value that fits, at least one character
+function fitLength(value: string, maxWidth: number, size: number, font: PdfFont): number {
+  let length = 0;
+  while (length < value.length && measureText(value.slice(0, length + 1), size, font) <= maxWidth) {
+    length++;
+  }
+  return Math.max(length, 1);
+}
@@ -0,0 +1,352 @@
+/**
+ * Report layout on top of the PDF writer: an optional cover page, flowing
+ * headings, paragraphs, key/value lists, tables and charts, with a running
+ * header and a footer carrying page numbers and the report's audit hash.
+ */
+
+import { PAGE_SIZES, PdfColor, PdfDocument, PdfPage } from './document';
+import { ChartSpec, drawChart } from './charts';
+import { truncateText, wrapText } from './metrics';
+
+export type ReportCell = string | number | boolean | null | undefined;
+
+export interface ReportTableColumn {
+  header: string;
+  /** Relative width; columns share the line in proportion */
+  weight?: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+export type ReportBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'keyValues'; rows: Array<[string, ReportCell]> }
+  | { type: 'table'; columns: ReportTableColumn[]; rows: ReportCell[][]; emptyText?: string }
+  | { type: 'chart'; chart: ChartSpec; height?: number }
+  | { type: 'pageBreak' };
+
+export interface ReportCover {
+  title: string;
+  subtitle?: string;
+  organization?: string;
+  fields?: Array<[string, ReportCell]>;
+}
+
+export interface ReportFooter {
+  /** Hash of the audit event that recorded this report */
+  auditHash?: string;
+  auditEventId?: string;
+  note?: string;
+}
+
+export interface PdfReportDefinition {
+  title: string;
+  author?: string;
+  cover?: ReportCover;
+  accentColor?: PdfColor;
+  pageSize?: { width: number; height: number };
+  blocks: ReportBlock[];
+  footer?: ReportFooter;
+}
+
+const DEFAULT_ACCENT = '#1f6f5c';
+const MUTED = '#666666';
+const ZEBRA = '#f3f5f4';
+const MARGIN_X = 48;
+const CONTENT_TOP = 64;
+const CONTENT_BOTTOM = 72; // Space reserved above the bottom edge for the footer
+
+export function renderPdfReport(definition: PdfReportDefinition): Buffer {
+  const doc = new PdfDocument({ title: definition.title, author: definition.author });
+  const layout = new ReportLayout(doc, definition);
+
+  if (definition.cover) {
+    layout.cover(definition.cover);
+  }
+  for (const block of definition.blocks) {
+    layout.block(block);
+  }
+  layout.finish();
+
+  return doc.toBuffer();
+}
+
+/** Display form of a table or key/value cell */
+export function formatCell(value: ReportCell): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }) : '-';
+  }
+  return value;
+}
+
+/** 'averageConfidence' and 'risk_level' become 'Average Confidence' and 'Risk Level' */
+export function humanize(key: string): string {
+  return key
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, letter => letter.toUpperCase())
+    .trim();
+}
+
+/** Calendar date in UTC, e.g. 2026-10-19 */
+export function formatDate(value: unknown): string | undefined {
+  const date = toDate(value);
+  return date && date.toISOString().slice(0, 10);
+}
+
+/** Minute-precision timestamp in UTC, e.g. 2026-10-19 14:05 UTC */
+export function formatDateTime(value: unknown): string | undefined {
+  const date = toDate(value);
+  return date && `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/** Scalar fields of an object as labelled rows; nested objects and lists of them are skipped */
+export function objectRows(value: Record<string, unknown> | null | undefined): Array<[string, ReportCell]> {
+  if (!value) return [];
+  return Object.entries(value)
+    .filter(([, entry]) => Array.isArray(entry)
+      ? entry.every(item => item === null || typeof item !== 'object')
+      : entry === null || typeof entry !== 'object' || entry instanceof Date)
+    .map(([key, entry]): [string, ReportCell] => {
+      if (Array.isArray(entry)) return [humanize(key), entry.length > 0 ? entry.join(', ') : undefined];
+      if (entry instanceof Date) return [humanize(key), formatDateTime(entry)];
+      if (typeof entry === 'bigint') return [humanize(key), entry.toString()];
+      return [humanize(key), entry as ReportCell];
+    });
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (!value || !(value instanceof Date || typeof value === 'string' || typeof value === 'number')) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+class ReportLayout {
+  private page!: PdfPage;
+  private y = 0;
+  private pageCount = 0;
+  private readonly accent: PdfColor;
+  private readonly size: { width: number; height: number };
+
+  constructor(private doc: PdfDocument, private definition: PdfReportDefinition) {
+    this.accent = definition.accentColor ?? DEFAULT_ACCENT;
+    this.size = definition.pageSize ?? PAGE_SIZES.LETTER;
+  }
+
+  private get width(): number {
+    return this.size.width - MARGIN_X * 2;
+  }
+
+  private get bottom(): number {
+    return this.size.height - CONTENT_BOTTOM;
+  }
+
+  cover(cover: ReportCover): void {
+    const page = this.doc.addPage(this.size);
+    page.fillRect(0, 0, this.size.width, 12, this.accent);
+
+    let y = 180;
+    if (cover.organization) {
+      page.text(MARGIN_X, y, cover.organization.toUpperCase(), { size: 11, font: 'bold', color: this.accent });
+      y += 24;
+    }
+    for (const line of wrapText(cover.title, this.width, 26, 'bold')) {
+      page.text(MARGIN_X, y, line, { size: 26, font: 'bold' });
+      y += 32;
+    }
+    if (cover.subtitle) {
+      y += 4;
+      for (const line of wrapText(cover.subtitle, this.width, 13)) {
+        page.text(MARGIN_X, y, line, { size: 13, color: MUTED });
+        y += 18;
+      }
+    }
+
+    y += 24;
+    page.line(MARGIN_X, y, MARGIN_X + 120, y, 2, this.accent);
+    y += 24;
+
+    for (const [label, value] of cover.fields ?? []) {
+      page.text(MARGIN_X, y, label, { size: 9, font: 'bold', color: MUTED });
+      const lines = wrapText(formatCell(value), this.width - 160, 10);
+      lines.forEach((line, index) => page.text(MARGIN_X + 160, y + index * 13, line, { size: 10 }));
+      y += Math.max(lines.length, 1) * 13 + 6;
+    }
+
+    this.pageCount++;
+    this.y = this.bottom; // Force body content onto a fresh page
+  }
+
+  block(block: ReportBlock): void {
+    switch (block.type) {
+      case 'heading':
+        return this.heading(block.text);
+      case 'paragraph':
+        return this.paragraph(block.text);
+      case 'keyValues':
+        return this.keyValues(block.rows);
+      case 'table':
+        return this.table(block.columns, block.rows, block.emptyText);
+      case 'chart':
+        return this.chart(block.chart, block.height ?? 200);
+      case 'pageBreak':
+        this.newPage();
+        return;
+    }
+  }
+
+  /** Stamp the running header and footer now the page count is known */
+  finish(): void {
+    if (this.pageCount === 0) {
+      this.newPage();
+    }
+
+    const pages = this.doc.getPages();
+    const { footer } = this.definition;
+    const footerY = this.size.height - 48;
+
+    pages.forEach((page, index) => {
+      if (index > 0 || !this.definition.cover) {
+        page.text(MARGIN_X, 32, truncateText(this.definition.title, this.width - 80, 8), { size: 8, color: MUTED });
+        page.line(MARGIN_X, 44, MARGIN_X + this.width, 44, 0.5, this.accent);
+      }
+
+      page.line(MARGIN_X, footerY, MARGIN_X + this.width, footerY, 0.5, '#cccccc');
+      page.text(MARGIN_X + this.width, footerY + 6, `Page ${index + 1} of ${pages.length}`, { size: 8, align: 'right', color: MUTED });
+
+      let lineY = footerY + 6;
+      if (footer?.auditHash) {
+        page.text(MARGIN_X, lineY, `Audit chain hash: ${footer.auditHash}`, { size: 7, color: MUTED });
+        lineY += 10;
+      }
+      const detail = [footer?.auditEventId && `Audit event ${footer.auditEventId}`, footer?.note].filter(Boolean).join(' | ');
+      if (detail) {
+        page.text(MARGIN_X, lineY, truncateText(detail, this.width - 70, 7), { size: 7, color: MUTED });
+      }
+    });
+  }
+
+  private newPage(): void {
+    this.page = this.doc.addPage(this.size);
+    this.pageCount++;
+    this.y = CONTENT_TOP;
+  }
+
+  // Start a new page unless height more points fit on this one
+  private ensure(height: number): void {
+    if (this.pageCount === 0 || this.y + height > this.bottom) {
+      this.newPage();
+    }
+  }
+
+  private heading(text: string): void {
+    const lines = wrapText(text, this.width, 13, 'bold');
+    // Keep a heading with at least a few lines of what follows it
+    this.ensure(lines.length * 17 + 48);
+    if (this.y > CONTENT_TOP) {
+      this.y += 10;
+    }
+    for (const line of lines) {
+      this.page.text(MARGIN_X, this.y, line, { size: 13, font: 'bold', color: this.accent });
+      this.y += 17;
+    }
+    this.y += 4;
+  }
+
+  private paragraph(text: string): void {
+    for (const line of wrapText(text, this.width, 10)) {
+      this.ensure(14);
+      this.page.text(MARGIN_X, this.y, line, { size: 10 });
+      this.y += 14;
+    }
+    this.y += 6;
+  }
+
+  private keyValues(rows: Array<[string, ReportCell]>): void {
+    const labelWidth = Math.min(180, this.width * 0.35);
+    for (const [label, value] of rows) {
+      const labelLines = wrapText(label, labelWidth - 8, 9, 'bold');
+      const valueLines = wrapText(formatCell(value), this.width - labelWidth, 9);
+      const height = Math.max(labelLines.length, valueLines.length) * 12 + 4;
+      this.ensure(height);
+      labelLines.forEach((line, index) => this.page.text(MARGIN_X, this.y + index * 12, line, { size: 9, font: 'bold', color: MUTED }));
+      valueLines.forEach((line, index) => this.page.text(MARGIN_X + labelWidth, this.y + index * 12, line, { size: 9 }));
+      this.y += height;
+    }
+    this.y += 6;
+  }
+
+  private table(columns: ReportTableColumn[], rows: ReportCell[][], emptyText = 'No records.'): void {
+    const totalWeight = columns.reduce((sum, column) => sum + (column.weight ?? 1), 0);
+    const widths = columns.map(column => (this.width * (column.weight ?? 1)) / totalWeight);
+    const padding = 4;
+
+    const drawHeader = () => {
+      const headerLines = columns.map((column, index) => wrapText(column.header, widths[index]! - padding * 2, 8, 'bold'));
+      const height = Math.max(...headerLines.map(lines => lines.length)) * 10 + padding * 2;
+      this.page.fillRect(MARGIN_X, this.y, this.width, height, this.accent);
+      let x = MARGIN_X;
+      columns.forEach((column, index) => {
+        headerLines[index]!.forEach((line, lineIndex) => {
+          this.cellText(x, widths[index]!, this.y + padding + lineIndex * 10, line, column.align, { font: 'bold', color: '#ffffff' });
+        });
+        x += widths[index]!;
+      });
+      this.y += height;
+    };
+
+    this.ensure(60);
+    drawHeader();
+
+    if (rows.length === 0) {
+      this.page.text(MARGIN_X + padding, this.y + padding, emptyText, { size: 8, color: MUTED });
+      this.y += 30;
+      return;
+    }
+
+    rows.forEach((row, rowIndex) => {
+      const cellLines = columns.map((_, index) => wrapText(formatCell(row[index]), widths[index]! - padding * 2, 8));
+      const height = Math.max(...cellLines.map(lines => lines.length)) * 10 + padding * 2;
+
+      if (this.y + height > this.bottom) {
+        this.newPage();
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        this.page.fillRect(MARGIN_X, this.y, this.width, height, ZEBRA);
+      }
+
+      let x = MARGIN_X;
+      columns.forEach((column, index) => {
+        cellLines[index]!.forEach((line, lineIndex) => {
+          this.cellText(x, widths[index]!, this.y + padding + lineIndex * 10, line, column.align);
+        });
+        x += widths[index]!;
+      });
+      this.y += height;
+    });
+
+    this.page.line(MARGIN_X, this.y, MARGIN_X + this.width, this.y, 0.5, this.accent);
+    this.y += 12;
+  }
+
+  private cellText(
+    x: number,
+    width: number,
+    y: number,
+    text: string,
+    align: ReportTableColumn['align'] = 'left',
+    options: { font?: 'regular' | 'bold'; color?: PdfColor } = {}
+  ): void {
+    const anchor = align === 'right' ? x + width - 4 : align === 'center' ? x + width / 2 : x + 4;
+    this.page.text(anchor, y, text, { size: 8, align, ...options });
+  }
+
+  private chart(chart: ChartSpec, height: number): void {
+    this.ensure(height + 8);
+    drawChart(this.page, MARGIN_X, this.y, this.width, height, chart);
+    this.y += height + 12;
+  }
+}
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import type { AuditTrailService } from '../audit-trail';
+
+export interface ReportSeal {
+  eventId: string;
+  /** Hash of the audit event, printed in the report footer */
+  eventHash: string;
+  /** SHA-256 of the report data the PDF was rendered from */
+  contentHash: string;
+}
+
+/**
+ * Record a rendered report in the audit chain. The footer hash then ties the
+ * printed document to a chain entry holding the hash of its source data.
+ */
+export async function sealReport(
+  audit: Pick<AuditTrailService, 'recordEvent'>,
+  report: { reportType: string; reportId: string; actor: string; source: string; content: unknown }
+): Promise<ReportSeal> {
+  const contentHash = hashReportContent(report.content);
+
+  const event = await audit.recordEvent({
+    eventType: 'REPORT_RENDERED',
+    action: 'RENDER',
+    entityType: 'Report',
+    entityId: report.reportId,
+    actor: report.actor,
+    source: report.source,
+    details: { reportType: report.reportType, format: 'pdf', contentHash },
+  });
+
+  return { eventId: event.id, eventHash: event.eventHash, contentHash };
+}
+
+/** SHA-256 over the data with object keys sorted, so equal data hashes equally */
+export function hashReportContent(content: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(content)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'bigint') return JSON.stringify(value.toString());
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    // Prisma Decimals and similar serialize through toJSON
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return canonicalJson((value as { toJSON: () => unknown }).toJSON());
+    }
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
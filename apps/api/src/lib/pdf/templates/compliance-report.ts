@@ -0,0 +1,352 @@
+import type { PdfReportDefinition, ReportBlock } from '../report';
+import { formatDate, formatDateTime, humanize, objectRows } from '../report';
+import type { ReportSeal } from '../seal';
+
+/** Shape returned by the analytics compliance report generator */
+export interface ComplianceReportDocument {
+  metadata: {
+    reportId: string;
+    generatedAt: string;
+    reportType: string;
+    period?: { startDate?: Date | string; endDate?: Date | string };
+    standard: string;
+    confidentialityLevel: string;
+    version: string;
+  };
+  executive_summary: string;
+  data: Record<string, any>;
+  compliance_attestation: Record<string, string>;
+  appendices?: Record<string, any>;
+}
+
+const REPORT_TITLES: Record<string, string> = {
+  'vwba': 'VWBA Compliance Report',
+  'carbon-credits': 'Carbon Credits Report',
+  'audit-trail': 'Audit Trail Report',
+  'verification-summary': 'Verification Summary Report',
+  'due-diligence': 'Due Diligence Report',
+};
+
+export function complianceReportPdf(report: ComplianceReportDocument, seal: ReportSeal): PdfReportDefinition {
+  const { metadata, data } = report;
+  const title = REPORT_TITLES[metadata.reportType] ?? `${humanize(metadata.reportType)} Report`;
+
+  const blocks: ReportBlock[] = [
+    { type: 'heading', text: 'Executive Summary' },
+    { type: 'paragraph', text: report.executive_summary },
+    ...dataBlocks(metadata.reportType, data),
+    { type: 'heading', text: 'Compliance Attestation' },
+    { type: 'keyValues', rows: objectRows(report.compliance_attestation) },
+  ];
+
+  if (report.appendices) {
+    blocks.push({ type: 'heading', text: 'Appendices' }, { type: 'keyValues', rows: objectRows(report.appendices) });
+  }
+
+  return {
+    title,
+    author: 'Orenna Verification System',
+    cover: {
+      organization: 'Orenna',
+      title,
+      subtitle: `Prepared against ${metadata.standard.toUpperCase()}`,
+      fields: [
+        ['Report ID', metadata.reportId],
+        ['Reporting period', formatPeriod(metadata.period)],
+        ['Generated', formatDateTime(metadata.generatedAt)],
+        ['Confidentiality', humanize(metadata.confidentialityLevel)],
+        ['Version', metadata.version],
+        ['Content hash', seal.contentHash],
+      ],
+    },
+    blocks,
+    footer: {
+      auditHash: seal.eventHash,
+      auditEventId: seal.eventId,
+      note: `${humanize(metadata.confidentialityLevel)} - ${metadata.reportId}`,
+    },
+  };
+}
+
+function dataBlocks(reportType: string, data: Record<string, any>): ReportBlock[] {
+  switch (reportType) {
+    case 'vwba':
+      return vwbaBlocks(data);
+    case 'carbon-credits':
+      return carbonBlocks(data);
+    case 'verification-summary':
+      return verificationSummaryBlocks(data);
+    case 'due-diligence':
+      return dueDiligenceBlocks(data);
+    case 'audit-trail':
+      return auditTrailBlocks(data);
+    default:
+      return [{ type: 'heading', text: 'Details' }, { type: 'keyValues', rows: objectRows(data) }];
+  }
+}
+
+function vwbaBlocks(data: Record<string, any>): ReportBlock[] {
+  const projects: any[] = data.projects ?? [];
+  const verifications: any[] = data.verifications ?? [];
+  const checklist: any[] = data.compliance_checklist ?? [];
+
+  return [
+    { type: 'heading', text: `Summary (${data.standard ?? 'WRI VWBA'})` },
+    { type: 'keyValues', rows: objectRows(data.summary) },
+    ...(projects.length > 0 ? [{
+      type: 'chart' as const,
+      chart: {
+        kind: 'bar' as const,
+        title: 'Net water benefit by project (m3)',
+        labels: projects.map(project => project.projectName ?? `Project ${project.projectId}`),
+        series: [{ name: 'Water benefit', values: projects.map(project => Number(project.totalBenefit) || 0) }],
+      },
+    }] : []),
+    { type: 'heading', text: 'Projects' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Project', weight: 3 },
+        { header: 'Verifications', align: 'right' },
+        { header: 'Water Benefit', weight: 1.5, align: 'right' },
+        { header: 'Avg Confidence', align: 'right' },
+        { header: 'Last Verified', weight: 1.5 },
+      ],
+      rows: projects.map(project => [
+        project.projectName ?? project.projectId,
+        project.verificationCount,
+        project.totalBenefit,
+        formatPercent(project.averageConfidence),
+        formatDate(project.lastVerified),
+      ]),
+    },
+    { type: 'heading', text: 'Verifications' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'ID' },
+        { header: 'Lift Token' },
+        { header: 'Project', weight: 2.5 },
+        { header: 'Verified', align: 'center' },
+        { header: 'Confidence', align: 'right' },
+        { header: 'Water Benefit', weight: 1.3, align: 'right' },
+        { header: 'Date', weight: 1.3 },
+        { header: 'Evidence', align: 'right' },
+      ],
+      rows: verifications.map(verification => [
+        verification.id,
+        verification.liftTokenId,
+        verification.projectName,
+        verification.verified,
+        formatPercent(verification.confidence),
+        verification.waterBenefit,
+        formatDate(verification.verificationDate),
+        verification.evidenceFiles,
+      ]),
+    },
+    { type: 'heading', text: 'Compliance Checklist' },
+    {
+      type: 'table',
+      columns: [{ header: 'Requirement', weight: 2 }, { header: 'Status', weight: 1.3 }, { header: 'Evidence', weight: 3 }],
+      rows: checklist.map(item => [item.requirement, item.status, item.evidence]),
+    },
+  ];
+}
+
+function carbonBlocks(data: Record<string, any>): ReportBlock[] {
+  const units: any[] = data.units ?? [];
+  const byStatus = countBy(units, unit => unit.verificationStatus ?? 'UNKNOWN');
+
+  return [
+    { type: 'heading', text: 'Summary' },
+    { type: 'keyValues', rows: objectRows(data.summary) },
+    ...(units.length > 0 ? [{
+      type: 'chart' as const,
+      height: 160,
+      chart: {
+        kind: 'bar' as const,
+        title: 'Units by verification status',
+        labels: Object.keys(byStatus).map(humanize),
+        series: [{ name: 'Units', values: Object.values(byStatus) }],
+      },
+    }] : []),
+    { type: 'heading', text: 'Units' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'ID' },
+        { header: 'Token ID', weight: 1.5 },
+        { header: 'Quantity', align: 'right' },
+        { header: 'Project', weight: 3 },
+        { header: 'Verification', weight: 1.3 },
+        { header: 'Eligibility', weight: 1.3 },
+      ],
+      rows: units.map(unit => [
+        unit.id,
+        unit.tokenId,
+        unit.quantity === null || unit.quantity === undefined ? undefined : String(unit.quantity),
+        unit.projectName,
+        unit.verificationStatus,
+        unit.eligibilityStatus,
+      ]),
+    },
+  ];
+}
+
+function verificationSummaryBlocks(data: Record<string, any>): ReportBlock[] {
+  const methods: any[] = data.methodBreakdown ?? [];
+
+  return [
+    { type: 'heading', text: 'Summary' },
+    { type: 'keyValues', rows: [...objectRows(data.summary), ...objectRows(data.qualityMetrics)] },
+    ...(methods.length > 0 ? [{
+      type: 'chart' as const,
+      chart: {
+        kind: 'bar' as const,
+        title: 'Outcomes by verification method',
+        labels: methods.map(method => method.methodId),
+        series: [
+          { name: 'Successful', values: methods.map(method => method.successful) },
+          { name: 'Failed', values: methods.map(method => method.failed) },
+          { name: 'Pending', values: methods.map(method => method.pending) },
+        ],
+      },
+    }] : []),
+    { type: 'heading', text: 'Method Breakdown' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Method', weight: 2.5 },
+        { header: 'Total', align: 'right' },
+        { header: 'Successful', align: 'right' },
+        { header: 'Failed', align: 'right' },
+        { header: 'Pending', align: 'right' },
+        { header: 'Avg Confidence', weight: 1.3, align: 'right' },
+        { header: 'Success Rate', weight: 1.2, align: 'right' },
+      ],
+      rows: methods.map(method => [
+        method.methodId,
+        method.total,
+        method.successful,
+        method.failed,
+        method.pending,
+        formatPercent(method.averageConfidence),
+        method.successRate === undefined ? undefined : `${Number(method.successRate).toFixed(1)}%`,
+      ]),
+    },
+    ...listBlocks('Recommendations', data.recommendations),
+  ];
+}
+
+function dueDiligenceBlocks(data: Record<string, any>): ReportBlock[] {
+  const projects: any[] = data.project_analysis ?? [];
+
+  return [
+    { type: 'heading', text: 'Findings' },
+    { type: 'keyValues', rows: objectRows(data.executive_summary) },
+    { type: 'heading', text: 'Project Analysis' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'ID' },
+        { header: 'Project', weight: 3 },
+        { header: 'Risk', weight: 1.2 },
+        { header: 'Verifications', align: 'right' },
+        { header: 'Transactions', align: 'right' },
+        { header: 'Compliance Score', weight: 1.3, align: 'right' },
+      ],
+      rows: projects.map(project => [
+        project.projectId,
+        project.name,
+        project.riskAssessment,
+        project.verificationHistory,
+        project.financialActivity,
+        project.complianceScore,
+      ]),
+    },
+    { type: 'heading', text: 'Verification Integrity' },
+    { type: 'keyValues', rows: objectRows(data.verification_integrity) },
+    { type: 'heading', text: 'Financial Review' },
+    { type: 'keyValues', rows: objectRows(data.financial_review) },
+    ...listBlocks('Recommendations', data.recommendations),
+  ];
+}
+
+function auditTrailBlocks(data: Record<string, any>): ReportBlock[] {
+  const events: any[] = data.events ?? [];
+  const perDay = countBy([...events].reverse(), event => formatDate(event.timestamp) ?? 'Unknown');
+
+  return [
+    { type: 'heading', text: 'Scope' },
+    {
+      type: 'keyValues',
+      rows: [
+        ['Total events', data.auditTrail?.totalEvents],
+        ['Event types', (data.auditTrail?.eventTypes ?? []).join(', ')],
+        ['Earliest event', formatDateTime(data.auditTrail?.timeRange?.earliest)],
+        ['Latest event', formatDateTime(data.auditTrail?.timeRange?.latest)],
+      ],
+    },
+    ...(events.length > 0 ? [{
+      type: 'chart' as const,
+      height: 180,
+      chart: {
+        kind: 'line' as const,
+        title: 'Events per day',
+        labels: Object.keys(perDay),
+        series: [{ name: 'Events', values: Object.values(perDay) }],
+      },
+    }] : []),
+    { type: 'heading', text: 'Events' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Time', weight: 1.6 },
+        { header: 'Type', weight: 1.2 },
+        { header: 'Action', weight: 2 },
+        { header: 'Entity', weight: 1.4 },
+        { header: 'Actor', weight: 2 },
+        { header: 'Source', weight: 1.6 },
+      ],
+      rows: events.map(event => [
+        formatDateTime(event.timestamp),
+        event.eventType,
+        event.action,
+        `${event.entityType} ${event.entityId}`,
+        event.actor,
+        event.source,
+      ]),
+    },
+    { type: 'heading', text: 'Integrity' },
+    { type: 'keyValues', rows: objectRows(data.integrity) },
+  ];
+}
+
+function listBlocks(heading: string, items: unknown): ReportBlock[] {
+  if (!Array.isArray(items) || items.length === 0) return [];
+  return [
+    { type: 'heading', text: heading },
+    ...items.map((item): ReportBlock => ({ type: 'paragraph', text: `- ${String(item)}` })),
+  ];
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const bucket = key(item);
+    counts[bucket] = (counts[bucket] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function formatPercent(value: unknown): string | undefined {
+  if (value === null || value === undefined || !Number.isFinite(Number(value))) return undefined;
+  return `${(Number(value) * 100).toFixed(1)}%`;
+}
+
+function formatPeriod(period: ComplianceReportDocument['metadata']['period']): string {
+  const start = formatDate(period?.startDate);
+  const end = formatDate(period?.endDate);
+  if (!start && !end) return 'All time';
+  return `${start ?? 'Inception'} to ${end ?? 'present'}`;
+}
@@ -0,0 +1,114 @@
+import { formatMoney, fromCents } from '../../../adapters/finance';
+import type { PdfReportDefinition } from '../report';
+import { formatDate, formatDateTime } from '../report';
+import type { ReportSeal } from '../seal';
+
+/** Receipt data as served by GET /finance/receipts/:id */
+export interface RetirementReceiptDocument {
+  receiptId: string;
+  status: string;
+  beneficiaryId: string;
+  project: { id: number; name: string; slug: string };
+  liftToken: { id: number; quantity: string; unit: string; issuedAt: string; retiredAt: string };
+  financeTraceability: {
+    deposits: Array<{ id: number; amountCents: number; currency: string; sourceRef: string | null; txHash: string | null; depositedAt: string }>;
+    disbursements: Array<{ id: number; invoiceId: number; amountCents: number; method: string; txHash: string | null; processedAt?: string | null }>;
+    verifications: Array<{ id: number; gateId: number; phase: string; passed: boolean; attestedAt: string }>;
+  };
+  generatedAt: string;
+}
+
+export function retirementReceiptPdf(receipt: RetirementReceiptDocument, seal: ReportSeal): PdfReportDefinition {
+  const { deposits, disbursements, verifications } = receipt.financeTraceability;
+  const title = `Lift Token Retirement Receipt ${receipt.receiptId}`;
+
+  return {
+    title,
+    author: 'Orenna',
+    blocks: [
+      { type: 'heading', text: 'Lift Token Retirement Receipt' },
+      {
+        type: 'keyValues',
+        rows: [
+          ['Receipt ID', receipt.receiptId],
+          ['Status', receipt.status],
+          ['Beneficiary', receipt.beneficiaryId],
+          ['Generated', formatDateTime(receipt.generatedAt)],
+        ],
+      },
+      { type: 'heading', text: 'Retired Units' },
+      {
+        type: 'keyValues',
+        rows: [
+          ['Project', `${receipt.project.name} (#${receipt.project.id})`],
+          ['Lift token', receipt.liftToken.id],
+          ['Quantity retired', `${receipt.liftToken.quantity} ${receipt.liftToken.unit}`],
+          ['Issued', formatDate(receipt.liftToken.issuedAt)],
+          ['Retired', formatDate(receipt.liftToken.retiredAt)],
+        ],
+      },
+      { type: 'heading', text: 'Funding Sources' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Deposit' },
+          { header: 'Amount', weight: 1.5, align: 'right' },
+          { header: 'Source', weight: 2 },
+          { header: 'Transaction', weight: 3 },
+          { header: 'Date', weight: 1.3 },
+        ],
+        rows: deposits.map(deposit => [
+          deposit.id,
+          formatMoney(fromCents(BigInt(deposit.amountCents), deposit.currency)),
+          deposit.sourceRef,
+          deposit.txHash,
+          formatDate(deposit.depositedAt),
+        ]),
+        emptyText: 'No deposits recorded for this project.',
+      },
+      { type: 'heading', text: 'Project Disbursements' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Disbursement' },
+          { header: 'Invoice' },
+          { header: 'Amount', weight: 1.5, align: 'right' },
+          { header: 'Method', weight: 1.3 },
+          { header: 'Transaction', weight: 3 },
+          { header: 'Date', weight: 1.3 },
+        ],
+        rows: disbursements.map(disbursement => [
+          disbursement.id,
+          disbursement.invoiceId,
+          formatMoney(fromCents(BigInt(disbursement.amountCents))),
+          disbursement.method,
+          disbursement.txHash ?? 'Pending',
+          formatDate(disbursement.processedAt) ?? 'Pending',
+        ]),
+        emptyText: 'No disbursements recorded for this project.',
+      },
+      { type: 'heading', text: 'Verification Attestations' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Attestation' },
+          { header: 'Gate', weight: 2.5 },
+          { header: 'Result', align: 'center' },
+          { header: 'Attested', weight: 1.3 },
+        ],
+        rows: verifications.map(verification => [
+          verification.id,
+          verification.phase,
+          verification.passed ? 'Passed' : 'Failed',
+          formatDate(verification.attestedAt),
+        ]),
+        emptyText: 'No verification attestations recorded for this project.',
+      },
+    ],
+    footer: {
+      auditHash: seal.eventHash,
+      auditEventId: seal.eventId,
+      note: `Content hash ${seal.contentHash}`,
+    },
+  };
+}
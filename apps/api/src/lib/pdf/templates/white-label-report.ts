@@ -0,0 +1,106 @@
+import type { PdfReportDefinition, ReportBlock, ReportCell } from '../report';
+import { formatDateTime, humanize, objectRows } from '../report';
+import type { ReportSeal } from '../seal';
+
+/** Branded report data assembled by WhiteLabelService.generateCustomReport */
+export interface WhiteLabelReportDocument {
+  organizationName?: string;
+  reportType: string;
+  generatedAt: string;
+  parameters: Record<string, unknown>;
+  data: Record<string, unknown>;
+  branding?: { primaryColor?: string };
+}
+
+export interface WhiteLabelReportTemplate {
+  title?: string;
+  description?: string;
+}
+
+export function whiteLabelReportPdf(
+  report: WhiteLabelReportDocument,
+  template: WhiteLabelReportTemplate,
+  seal: ReportSeal
+): PdfReportDefinition {
+  const title = template.title ?? `${humanize(report.reportType)} Report`;
+  const { format: _format, ...parameters } = report.parameters;
+
+  const blocks: ReportBlock[] = [];
+  if (template.description) {
+    blocks.push({ type: 'paragraph', text: template.description });
+  }
+
+  const parameterRows = objectRows(parameters);
+  if (parameterRows.length > 0) {
+    blocks.push({ type: 'heading', text: 'Parameters' }, { type: 'keyValues', rows: parameterRows });
+  }
+
+  blocks.push(...dataBlocks(report.data));
+
+  return {
+    title,
+    author: report.organizationName,
+    accentColor: isHexColor(report.branding?.primaryColor) ? report.branding!.primaryColor : undefined,
+    cover: {
+      organization: report.organizationName,
+      title,
+      fields: [
+        ['Report type', humanize(report.reportType)],
+        ['Generated', formatDateTime(report.generatedAt)],
+        ['Content hash', seal.contentHash],
+      ],
+    },
+    blocks,
+    footer: {
+      auditHash: seal.eventHash,
+      auditEventId: seal.eventId,
+      note: report.organizationName,
+    },
+  };
+}
+
+// Scalars become a summary list, arrays of records become tables and nested
+// records get their own section
+function dataBlocks(data: Record<string, unknown>): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+
+  const summary = objectRows(data).filter(([, value]) => value !== undefined);
+  if (summary.length > 0) {
+    blocks.push({ type: 'heading', text: 'Summary' }, { type: 'keyValues', rows: summary });
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value) && value.length > 0 && value.every(isRecord)) {
+      const columns = [...new Set(value.flatMap(row => Object.keys(row)))];
+      blocks.push(
+        { type: 'heading', text: humanize(key) },
+        {
+          type: 'table',
+          columns: columns.map(column => ({ header: humanize(column) })),
+          rows: value.map(row => columns.map(column => toCell(row[column]))),
+        }
+      );
+    } else if (isRecord(value) && !(value instanceof Date)) {
+      blocks.push({ type: 'heading', text: humanize(key) }, { type: 'keyValues', rows: objectRows(value) });
+    }
+  }
+
+  return blocks;
+}
+
+function toCell(value: unknown): ReportCell {
+  if (value === null || value === undefined || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof Date) return formatDateTime(value);
+  if (typeof value === 'bigint') return value.toString();
+  return JSON.stringify(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
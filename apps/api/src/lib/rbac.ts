@@ -1,6 +1,8 @@
 // apps/api/src/lib/rbac.ts
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { FinanceRole, SystemRoleType, RoleChangeType } from '@prisma/client';
+import { FinanceRole, SystemRoleType, RoleChangeType, Prisma } from '@prisma/client';
+import type { ApprovalDelegation, ProjectRole } from '@prisma/client';
+import { getEnv } from '../types/env.js';
 
 // Role permissions configuration
 export const ROLE_PERMISSIONS = {
@@ -22,6 +24,7 @@ export const ROLE_PERMISSIONS = {
     canViewProjectFinance: true,
     canAssignVendorRoles: true,
     canViewAllProjectInvoices: true,
+    canApproveMints: true,
   },
   
   // Finance Reviewer permissions
@@ -33,6 +36,7 @@ export const ROLE_PERMISSIONS = {
     canApproveWithinLimit: true,
     canViewAllProjectFinance: true,
     canManageVendors: true,
+    canApproveMints: true,
   },
   
   // Treasurer permissions
@@ -44,6 +48,7 @@ export const ROLE_PERMISSIONS = {
     canViewTreasuryDashboard: true,
     canReconcilePayments: true,
     canViewAllProjects: true,
+    canApproveMints: true,
   },
   
   // DAO Multisig permissions
@@ -53,6 +58,7 @@ export const ROLE_PERMISSIONS = {
     canAssignTreasurerRoles: true,
     canViewAuditTrail: true,
     canOverrideApprovals: true,
+    canApproveMints: true,
   },
   
   // Auditor permissions (read-only)
@@ -80,6 +86,12 @@ export const SYSTEM_ROLE_PERMISSIONS = {
     canAssignProjectRoles: true,
     canConfigureGlobalSettings: true,
     canViewSystemMetrics: true,
+    canVerifyForwardMilestones: true,
+    canManageSanctionsLists: true,
+    canReviewSanctionsHits: true,
+    canManageServiceKeys: true,
+    canApproveMints: true,
+    canExecuteMints: true,
   },
   
   SYSTEM_AUDITOR: {
@@ -93,13 +105,29 @@ export const SYSTEM_ROLE_PERMISSIONS = {
     canManagePaymentProviders: true,
     canViewTreasuryMetrics: true,
     canConfigurePaymentRails: true,
+    canReviewSanctionsHits: true,
+    canApproveMints: true,
+    canExecuteMints: true,
   }
 } as const;
 
+// Distributes over the role union so every role's permission keys are included
+type PermissionKeys<T> = T extends unknown ? keyof T : never;
+
+export type Permission =
+  | PermissionKeys<typeof ROLE_PERMISSIONS[keyof typeof ROLE_PERMISSIONS]>
+  | PermissionKeys<typeof SYSTEM_ROLE_PERMISSIONS[keyof typeof SYSTEM_ROLE_PERMISSIONS]>;
+
 // Cache for role lookups
 const roleCache = new Map<string, { roles: FinanceRole[]; systemRoles: SystemRoleType[]; expires: number }>();
 const CACHE_DURATION = 300000; // 5 minutes
 
+// Roles that carry invoice approval authority, and so can be delegated
+export const APPROVAL_ROLES: FinanceRole[] = ['PROJECT_MANAGER', 'FINANCE_REVIEWER', 'TREASURER', 'DAO_MULTISIG'];
+
+const MAX_DELEGATION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface RoleContext {
   userId: number;
   userAddress: string;
@@ -109,7 +137,61 @@ export interface RoleContext {
   approvalLimit?: string;
 }
 
+export interface RoleAssignmentPeriod {
+  startsAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface DelegationRequest {
+  projectId: number;
+  delegatorId: number;
+  delegateId: number;
+  role: FinanceRole;
+  maxAmount: string; // Cents
+  startsAt?: Date;
+  expiresAt: Date;
+  reason?: string;
+  createdBy: string;
+}
+
+/** What entitled a user to approve an amount at a point in time */
+export type ApprovalAuthority =
+  | { type: 'ROLE'; role: FinanceRole; projectRoleId: number }
+  | { type: 'DELEGATION'; role: FinanceRole; delegationId: number; delegatorId: number };
+
+export interface ExpiryResult {
+  roles: number;
+  delegations: number;
+}
+
+// Assignments in force at `at`. Revocations count from revokedAt rather than
+// the active flag, so past decisions resolve against the roles held then.
+function roleHeldAt(at: Date): Prisma.ProjectRoleWhereInput {
+  return {
+    startsAt: { lte: at },
+    AND: [
+      { OR: [{ expiresAt: null }, { expiresAt: { gt: at } }] },
+      { OR: [{ revokedAt: null }, { revokedAt: { gt: at } }] }
+    ]
+  };
+}
+
+function delegationInForceAt(at: Date): Prisma.ApprovalDelegationWhereInput {
+  return {
+    startsAt: { lte: at },
+    expiresAt: { gt: at },
+    OR: [{ revokedAt: null }, { revokedAt: { gt: at } }]
+  };
+}
+
+function isHeldAt(assignment: { startsAt: Date; expiresAt: Date | null }, at: Date): boolean {
+  return assignment.startsAt <= at && (!assignment.expiresAt || assignment.expiresAt > at);
+}
+
 export class RBACService {
+  private expiryIntervalId?: NodeJS.Timeout;
+  private expiring = false;
+
   constructor(private app: FastifyInstance) {}
 
   /**
@@ -123,22 +205,26 @@ export class RBACService {
       return cached.roles;
     }
 
-    const projectRoles = await this.app.prisma.projectRole.findMany({
+    const now = new Date();
+    const assignments = await this.app.prisma.projectRole.findMany({
       where: {
         userId,
         projectId,
         active: true
       },
-      select: { role: true }
+      select: { role: true, startsAt: true, expiresAt: true }
     });
 
-    const roles = projectRoles.map(pr => pr.role);
-    
-    // Cache the result
+    const roles = [...new Set(assignments.filter(a => isHeldAt(a, now)).map(a => a.role))];
+
+    // Cache the result, but not past the next time an assignment starts or ends
+    const boundaries = assignments
+      .flatMap(a => [a.startsAt.getTime(), a.expiresAt?.getTime() ?? Infinity])
+      .filter(time => time > now.getTime());
     roleCache.set(cacheKey, {
       roles,
       systemRoles: [],
-      expires: Date.now() + CACHE_DURATION
+      expires: Math.min(now.getTime() + CACHE_DURATION, ...boundaries)
     });
 
     return roles;
@@ -183,8 +269,8 @@ export class RBACService {
       where: {
         userId,
         projectId,
-        active: true,
-        role: { in: ['PROJECT_MANAGER', 'FINANCE_REVIEWER', 'TREASURER'] }
+        role: { in: ['PROJECT_MANAGER', 'FINANCE_REVIEWER', 'TREASURER'] },
+        ...roleHeldAt(new Date())
       },
       select: { approvalLimit: true },
       orderBy: { approvalLimit: 'desc' } // Get highest limit if multiple roles
@@ -198,7 +284,7 @@ export class RBACService {
    */
   async hasPermission(
     userId: number, 
-    permission: keyof typeof ROLE_PERMISSIONS[keyof typeof ROLE_PERMISSIONS],
+    permission: Permission,
     projectId?: number
   ): Promise<boolean> {
     // Get user's roles
@@ -227,9 +313,18 @@ export class RBACService {
   }
 
   /**
-   * Check if user can approve amount for project
+   * Check if user can approve amount for project, through their own roles or
+   * a delegation
    */
   async canApproveAmount(userId: number, projectId: number, amount: string): Promise<boolean> {
+    if (await this.canApproveWithOwnRoles(userId, projectId, amount)) {
+      return true;
+    }
+
+    return (await this.findDelegatedAuthority(userId, projectId, amount)) !== null;
+  }
+
+  private async canApproveWithOwnRoles(userId: number, projectId: number, amount: string): Promise<boolean> {
     const [projectRoles, approvalLimit] = await Promise.all([
       this.getUserProjectRoles(userId, projectId),
       this.getUserApprovalLimit(userId, projectId)
@@ -262,6 +357,11 @@ export class RBACService {
    * Check approval matrix requirements
    */
   async checkApprovalMatrix(userId: number, projectId: number, amount: string): Promise<boolean> {
+    const userRoles = await this.getUserProjectRoles(userId, projectId);
+    return this.matrixAllows(userRoles, projectId, amount);
+  }
+
+  private async matrixAllows(userRoles: FinanceRole[], projectId: number, amount: string): Promise<boolean> {
     const matrix = await this.app.prisma.approvalMatrix.findUnique({
       where: { projectId }
     });
@@ -269,7 +369,6 @@ export class RBACService {
     if (!matrix) {
       // Use default thresholds if no matrix configured
       const amountBigInt = BigInt(amount);
-      const userRoles = await this.getUserProjectRoles(userId, projectId);
 
       if (amountBigInt <= BigInt('1000000')) { // $10k
         return userRoles.some(role => ['PROJECT_MANAGER', 'FINANCE_REVIEWER'].includes(role));
@@ -282,7 +381,6 @@ export class RBACService {
 
     // Use configured matrix
     const amountBigInt = BigInt(amount);
-    const userRoles = await this.getUserProjectRoles(userId, projectId);
 
     if (amountBigInt <= BigInt(matrix.tier1MaxAmount)) {
       const requiredRoles = JSON.parse(matrix.tier1RequiredRoles as string) as string[];
@@ -298,7 +396,104 @@ export class RBACService {
   }
 
   /**
-   * Assign role to user
+   * Whether a held role lets its holder approve the amount
+   */
+  private async roleCanApprove(
+    role: FinanceRole,
+    approvalLimit: string | null,
+    projectId: number,
+    amount: string
+  ): Promise<boolean> {
+    if (!APPROVAL_ROLES.includes(role)) {
+      return false;
+    }
+    if (approvalLimit) {
+      return BigInt(amount) <= BigInt(approvalLimit);
+    }
+    if (role === 'DAO_MULTISIG') {
+      return true;
+    }
+    return this.matrixAllows([role], projectId, amount);
+  }
+
+  /**
+   * Find the role assignment or delegation that entitled a user to approve
+   * an amount in a given role at a point in time
+   */
+  async resolveApprovalAuthority(params: {
+    userId: number;
+    projectId: number;
+    role: FinanceRole;
+    amount: string;
+    at?: Date;
+  }): Promise<ApprovalAuthority | null> {
+    const { userId, projectId, role, amount, at = new Date() } = params;
+
+    const assignment = await this.app.prisma.projectRole.findFirst({
+      where: { userId, projectId, role, ...roleHeldAt(at) },
+      orderBy: { startsAt: 'desc' }
+    });
+
+    if (assignment && await this.roleCanApprove(role, assignment.approvalLimit, projectId, amount)) {
+      return { type: 'ROLE', role, projectRoleId: assignment.id };
+    }
+
+    const delegation = await this.findDelegatedAuthority(userId, projectId, amount, { role, at });
+    if (delegation) {
+      return {
+        type: 'DELEGATION',
+        role: delegation.role,
+        delegationId: delegation.id,
+        delegatorId: delegation.delegatorId
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a delegation in force that covers the amount. Delegated authority
+   * never exceeds what the delegator holds at the time.
+   */
+  async findDelegatedAuthority(
+    userId: number,
+    projectId: number,
+    amount: string,
+    options: { role?: FinanceRole; at?: Date } = {}
+  ): Promise<ApprovalDelegation | null> {
+    const at = options.at ?? new Date();
+
+    const delegations = await this.app.prisma.approvalDelegation.findMany({
+      where: {
+        delegateId: userId,
+        projectId,
+        ...(options.role ? { role: options.role } : {}),
+        ...delegationInForceAt(at)
+      },
+      orderBy: { expiresAt: 'asc' }
+    });
+
+    for (const delegation of delegations) {
+      if (BigInt(amount) > BigInt(delegation.maxAmount)) {
+        continue;
+      }
+
+      const source = await this.app.prisma.projectRole.findFirst({
+        where: { userId: delegation.delegatorId, projectId, role: delegation.role, ...roleHeldAt(at) },
+        orderBy: { startsAt: 'desc' }
+      });
+
+      if (source && await this.roleCanApprove(delegation.role, source.approvalLimit, projectId, amount)) {
+        return delegation;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Assign role to user. A new assignment of a role the user already holds
+   * ends the current one when it starts, so assignment periods never overlap.
    */
   async assignProjectRole(
     targetUserId: number,
@@ -306,34 +501,36 @@ export class RBACService {
     role: FinanceRole,
     assignedBy: string,
     approvalLimit?: string,
-    notes?: string
-  ): Promise<void> {
-    await this.app.prisma.$transaction(async (tx) => {
-      // Create or update role assignment
-      await tx.projectRole.upsert({
+    notes?: string,
+    period: RoleAssignmentPeriod = {}
+  ): Promise<ProjectRole> {
+    const startsAt = period.startsAt ?? new Date();
+    if (period.expiresAt && period.expiresAt <= startsAt) {
+      throw new Error('Role assignment must expire after it starts');
+    }
+
+    const assignment = await this.app.prisma.$transaction(async (tx) => {
+      const superseded = await tx.projectRole.updateMany({
         where: {
-          userId_projectId_role: {
-            userId: targetUserId,
-            projectId,
-            role
-          }
-        },
-        update: {
+          userId: targetUserId,
+          projectId,
+          role,
           active: true,
-          approvalLimit,
-          assignedBy,
-          assignedAt: new Date(),
-          notes,
-          revokedBy: null,
-          revokedAt: null
+          OR: [{ expiresAt: null }, { expiresAt: { gt: startsAt } }]
         },
-        create: {
+        data: { expiresAt: startsAt }
+      });
+
+      const created = await tx.projectRole.create({
+        data: {
           userId: targetUserId,
           projectId,
           role,
           assignedBy,
           approvalLimit,
-          notes
+          notes,
+          startsAt,
+          expiresAt: period.expiresAt
         }
       });
 
@@ -342,21 +539,25 @@ export class RBACService {
         data: {
           targetUserId,
           projectId,
-          eventType: 'ROLE_ASSIGNED',
+          eventType: superseded.count > 0 ? 'ROLE_UPDATED' : 'ROLE_ASSIGNED',
           newRole: role,
           roleType: 'PROJECT',
           performedBy: assignedBy,
           reason: notes
         }
       });
+
+      return created;
     });
 
     // Clear cache
     this.clearUserCache(targetUserId, projectId);
+
+    return assignment;
   }
 
   /**
-   * Revoke role from user
+   * Revoke role from user, including assignments that have not started yet
    */
   async revokeProjectRole(
     targetUserId: number,
@@ -367,13 +568,12 @@ export class RBACService {
   ): Promise<void> {
     await this.app.prisma.$transaction(async (tx) => {
       // Deactivate role
-      await tx.projectRole.update({
+      const revoked = await tx.projectRole.updateMany({
         where: {
-          userId_projectId_role: {
-            userId: targetUserId,
-            projectId,
-            role
-          }
+          userId: targetUserId,
+          projectId,
+          role,
+          active: true
         },
         data: {
           active: false,
@@ -382,6 +582,10 @@ export class RBACService {
         }
       });
 
+      if (revoked.count === 0) {
+        throw new Error(`Active ${role} role for user ${targetUserId} on project ${projectId} not found`);
+      }
+
       // Create audit event
       await tx.roleChangeEvent.create({
         data: {
@@ -400,6 +604,233 @@ export class RBACService {
     this.clearUserCache(targetUserId, projectId);
   }
 
+  /**
+   * Hand one of the delegator's approval roles to another user for a limited
+   * time, capped at maxAmount
+   */
+  async delegateApprovalAuthority(request: DelegationRequest): Promise<ApprovalDelegation> {
+    const startsAt = request.startsAt ?? new Date();
+
+    if (request.delegatorId === request.delegateId) {
+      throw new Error('Approval authority cannot be delegated to its holder');
+    }
+    if (!APPROVAL_ROLES.includes(request.role)) {
+      throw new Error(`${request.role} does not carry approval authority`);
+    }
+    if (request.expiresAt <= startsAt || request.expiresAt <= new Date()) {
+      throw new Error('Delegation must expire in the future and after it starts');
+    }
+    if (request.expiresAt.getTime() - startsAt.getTime() > MAX_DELEGATION_DAYS * DAY_MS) {
+      throw new Error(`Delegations cannot last longer than ${MAX_DELEGATION_DAYS} days`);
+    }
+
+    const source = await this.app.prisma.projectRole.findFirst({
+      where: { userId: request.delegatorId, projectId: request.projectId, role: request.role, ...roleHeldAt(startsAt) },
+      orderBy: { startsAt: 'desc' }
+    });
+
+    if (!source) {
+      throw new Error(`Delegator does not hold ${request.role} on project ${request.projectId} when the delegation starts`);
+    }
+    if (source.approvalLimit && BigInt(request.maxAmount) > BigInt(source.approvalLimit)) {
+      throw new Error(`Delegated limit ${request.maxAmount} exceeds the delegator's approval limit of ${source.approvalLimit}`);
+    }
+
+    return this.app.prisma.$transaction(async (tx) => {
+      const delegation = await tx.approvalDelegation.create({
+        data: {
+          projectId: request.projectId,
+          delegatorId: request.delegatorId,
+          delegateId: request.delegateId,
+          role: request.role,
+          maxAmount: request.maxAmount,
+          startsAt,
+          expiresAt: request.expiresAt,
+          reason: request.reason,
+          createdBy: request.createdBy
+        }
+      });
+
+      await tx.roleChangeEvent.create({
+        data: {
+          targetUserId: request.delegateId,
+          projectId: request.projectId,
+          eventType: 'DELEGATION_GRANTED',
+          newRole: request.role,
+          roleType: 'DELEGATION',
+          performedBy: request.createdBy,
+          reason: request.reason
+        }
+      });
+
+      return delegation;
+    });
+  }
+
+  /**
+   * End a delegation before it expires
+   */
+  async revokeDelegation(delegationId: number, revokedBy: string, reason?: string): Promise<ApprovalDelegation> {
+    const delegation = await this.app.prisma.approvalDelegation.findUnique({
+      where: { id: delegationId }
+    });
+
+    if (!delegation) {
+      throw new Error(`Delegation ${delegationId} not found`);
+    }
+    if (!delegation.active) {
+      throw new Error(`Delegation ${delegationId} is no longer active`);
+    }
+
+    return this.app.prisma.$transaction(async (tx) => {
+      const revoked = await tx.approvalDelegation.update({
+        where: { id: delegationId },
+        data: {
+          active: false,
+          revokedBy,
+          revokedAt: new Date()
+        }
+      });
+
+      await tx.roleChangeEvent.create({
+        data: {
+          targetUserId: delegation.delegateId,
+          projectId: delegation.projectId,
+          eventType: 'DELEGATION_REVOKED',
+          oldRole: delegation.role,
+          roleType: 'DELEGATION',
+          performedBy: revokedBy,
+          reason
+        }
+      });
+
+      return revoked;
+    });
+  }
+
+  /**
+   * Role assignments and delegations on a project, newest first. With `at`,
+   * only those in force at that moment.
+   */
+  async getRoleHistory(projectId: number, options: { userId?: number; at?: Date } = {}) {
+    const { userId, at } = options;
+    const userSelect = { select: { id: true, address: true, ensName: true } };
+
+    const [assignments, delegations] = await Promise.all([
+      this.app.prisma.projectRole.findMany({
+        where: {
+          projectId,
+          ...(userId ? { userId } : {}),
+          ...(at ? roleHeldAt(at) : {})
+        },
+        include: { user: userSelect },
+        orderBy: [{ startsAt: 'desc' }, { id: 'desc' }]
+      }),
+      this.app.prisma.approvalDelegation.findMany({
+        where: {
+          projectId,
+          AND: [
+            userId ? { OR: [{ delegatorId: userId }, { delegateId: userId }] } : {},
+            at ? delegationInForceAt(at) : {}
+          ]
+        },
+        include: { delegator: userSelect, delegate: userSelect },
+        orderBy: [{ startsAt: 'desc' }, { id: 'desc' }]
+      })
+    ]);
+
+    return { assignments, delegations };
+  }
+
+  /**
+   * Deactivate role assignments and delegations whose period has ended.
+   * Authority checks already go by the dates; this keeps the active flags
+   * and the role change log in step with them.
+   */
+  async expireLapsedAssignments(now: Date = new Date()): Promise<ExpiryResult> {
+    const [roles, delegations] = await Promise.all([
+      this.app.prisma.projectRole.findMany({
+        where: { active: true, expiresAt: { lte: now } },
+        select: { id: true, userId: true, projectId: true, role: true }
+      }),
+      this.app.prisma.approvalDelegation.findMany({
+        where: { active: true, expiresAt: { lte: now } },
+        select: { id: true, delegateId: true, projectId: true, role: true }
+      })
+    ]);
+
+    if (roles.length === 0 && delegations.length === 0) {
+      return { roles: 0, delegations: 0 };
+    }
+
+    await this.app.prisma.$transaction(async (tx) => {
+      await tx.projectRole.updateMany({
+        where: { id: { in: roles.map(role => role.id) } },
+        data: { active: false }
+      });
+      await tx.approvalDelegation.updateMany({
+        where: { id: { in: delegations.map(delegation => delegation.id) } },
+        data: { active: false }
+      });
+
+      await tx.roleChangeEvent.createMany({
+        data: [
+          ...roles.map(role => ({
+            targetUserId: role.userId,
+            projectId: role.projectId,
+            eventType: 'ROLE_EXPIRED' as const,
+            oldRole: role.role,
+            roleType: 'PROJECT',
+            performedBy: 'system'
+          })),
+          ...delegations.map(delegation => ({
+            targetUserId: delegation.delegateId,
+            projectId: delegation.projectId,
+            eventType: 'DELEGATION_EXPIRED' as const,
+            oldRole: delegation.role,
+            roleType: 'DELEGATION',
+            performedBy: 'system'
+          }))
+        ]
+      });
+    });
+
+    for (const role of roles) {
+      this.clearUserCache(role.userId, role.projectId);
+    }
+
+    return { roles: roles.length, delegations: delegations.length };
+  }
+
+  startExpirySweep(intervalMs: number = getEnv().ROLE_EXPIRY_SWEEP_INTERVAL_MS): void {
+    this.stopExpirySweep();
+
+    const run = async () => {
+      if (this.expiring) return;
+      this.expiring = true;
+      try {
+        const result = await this.expireLapsedAssignments();
+        if (result.roles > 0 || result.delegations > 0) {
+          this.app.log.info(result, 'Expired finance role assignments');
+        }
+      } catch (error) {
+        this.app.log.error({ error }, 'Finance role expiry sweep failed');
+      } finally {
+        this.expiring = false;
+      }
+    };
+
+    void run();
+    this.expiryIntervalId = setInterval(run, intervalMs);
+  }
+
+  stopExpirySweep(): void {
+    if (this.expiryIntervalId) {
+      clearInterval(this.expiryIntervalId);
+      this.expiryIntervalId = undefined;
+    }
+  }
+
   /**
    * Build role context for request
    */
@@ -475,7 +906,7 @@ export class RBACService {
   /**
    * Middleware to require specific permission
    */
-  requirePermission(permission: keyof typeof ROLE_PERMISSIONS[keyof typeof ROLE_PERMISSIONS], options: { projectIdParam?: string } = {}) {
+  requirePermission(permission: Permission, options: { projectIdParam?: string } = {}) {
     return async (request: FastifyRequest, reply: FastifyReply) => {
       const user = request.user;
       if (!user) {
@@ -1,5 +1,7 @@
 import { PrismaClient, DisbursementStatus, PaymentMethod, Disbursement } from '@prisma/client';
+import { createHash } from 'crypto';
 import { logger } from '../utils/logger';
+import { parseBankStatementFile, BankStatementFormat, CsvStatementMapping } from './bank-statements';
 
 export interface BankStatement {
   transactionId: string;
@@ -82,15 +84,103 @@ export interface ReconciliationSummary {
   processingDuration: number; // milliseconds
 }
 
+export interface BankStatementFileUpload {
+  fileName: string;
+  format: BankStatementFormat;
+  contents: string;
+  csvMapping?: CsvStatementMapping;
+  importedBy: string;
+}
+
 export class ReconciliationService {
   constructor(private prisma: PrismaClient) {}
 
+  /**
+   * Parse an uploaded statement file and reconcile it. Each file is imported
+   * once; matches are recorded against the import they came from.
+   */
+  async importBankStatementFile(upload: BankStatementFileUpload) {
+    const fileHash = createHash('sha256').update(upload.contents).digest('hex');
+
+    let statementImport;
+    try {
+      statementImport = await this.prisma.bankStatementImport.create({
+        data: {
+          fileName: upload.fileName,
+          format: upload.format,
+          fileHash,
+          importedBy: upload.importedBy,
+        },
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new Error(`Statement file ${upload.fileName} has already been imported`);
+      }
+      throw error;
+    }
+
+    logger.info('Importing bank statement file', {
+      statementImportId: statementImport.id,
+      fileName: upload.fileName,
+      format: upload.format,
+    });
+
+    try {
+      const statements = await parseBankStatementFile(upload.format, upload.contents, { csvMapping: upload.csvMapping });
+      const summary = await this.reconcileBankStatements(statements, { statementImportId: statementImport.id });
+
+      const completed = await this.prisma.bankStatementImport.update({
+        where: { id: statementImport.id },
+        data: {
+          status: 'COMPLETED',
+          statementCount: statements.length,
+          reconciledCount: summary.reconciledCount,
+          reviewCount: summary.requiresReviewCount,
+          completedAt: new Date(),
+        },
+      });
+
+      return { statementImport: completed, summary };
+    } catch (error) {
+      // Keep the failed import for the record but release its hash so the file can be retried
+      await this.prisma.bankStatementImport.update({
+        where: { id: statementImport.id },
+        data: {
+          status: 'FAILED',
+          fileHash: `${fileHash}:failed:${statementImport.id}`,
+          error: error.message,
+          completedAt: new Date(),
+        },
+      });
+      logger.error('Failed to import bank statement file', { error: error.message, statementImportId: statementImport.id });
+      throw error;
+    }
+  }
+
+  async listBankStatementImports(options: { limit?: number; offset?: number } = {}) {
+    const [imports, total] = await Promise.all([
+      this.prisma.bankStatementImport.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+        skip: options.offset ?? 0,
+      }),
+      this.prisma.bankStatementImport.count(),
+    ]);
+    return { imports, total };
+  }
+
   /**
    * Automatically reconcile payments with bank statements
    */
-  async reconcileBankStatements(statements: BankStatement[]): Promise<ReconciliationSummary> {
+  async reconcileBankStatements(
+    statements: BankStatement[],
+    options: { statementImportId?: number } = {}
+  ): Promise<ReconciliationSummary> {
     const startTime = new Date();
-    logger.info('Starting bank statement reconciliation', { statementCount: statements.length });
+    logger.info('Starting bank statement reconciliation', {
+      statementCount: statements.length,
+      statementImportId: options.statementImportId,
+    });
 
     let reconciledCount = 0;
     let autoReconciledCount = 0;
@@ -100,9 +190,9 @@ export class ReconciliationService {
       // Get unreconciled ACH disbursements from the last 30 days
       const unreconciledDisbursements = await this.prisma.disbursement.findMany({
         where: {
-          method: PaymentMethod.ACH,
+          paymentMethod: PaymentMethod.ACH,
           status: { in: [DisbursementStatus.CONFIRMED, DisbursementStatus.PROCESSING] },
-          reconciledAt: null,
+          reconciledDate: null,
           createdAt: {
             gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // Last 30 days
           },
@@ -136,11 +226,11 @@ export class ReconciliationService {
         for (const match of matches) {
           try {
             if (match.autoReconciled) {
-              await this.autoReconcileDisbursement(match, statement);
+              await this.autoReconcileDisbursement(match, statement, options.statementImportId);
               autoReconciledCount++;
               reconciledCount++;
             } else if (match.requiresReview) {
-              await this.createReconciliationReview(match, statement);
+              await this.createReconciliationReview(match, statement, options.statementImportId);
               requiresReviewCount++;
             }
 
@@ -169,7 +259,7 @@ export class ReconciliationService {
         autoReconciledCount,
         manualReconciledCount: reconciledCount - autoReconciledCount,
         requiresReviewCount,
-        totalAmount: unreconciledDisbursements.reduce((sum, d) => sum + d.amount, BigInt(0)),
+        totalAmount: unreconciledDisbursements.reduce((sum, d) => sum + d.amountCents, BigInt(0)),
         reconciledAmount: BigInt(0), // Would be calculated from reconciled disbursements
         processingStartTime: startTime,
         processingEndTime: endTime,
@@ -199,9 +289,9 @@ export class ReconciliationService {
       // Get unreconciled crypto disbursements from the last 7 days
       const unreconciledDisbursements = await this.prisma.disbursement.findMany({
         where: {
-          method: { in: [PaymentMethod.USDC, PaymentMethod.SAFE_MULTISIG] },
+          paymentMethod: { in: [PaymentMethod.USDC, PaymentMethod.SAFE_MULTISIG] },
           status: { in: [DisbursementStatus.CONFIRMED, DisbursementStatus.PROCESSING] },
-          reconciledAt: null,
+          reconciledDate: null,
           createdAt: {
             gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // Last 7 days
           },
@@ -268,7 +358,7 @@ export class ReconciliationService {
         autoReconciledCount,
         manualReconciledCount: reconciledCount - autoReconciledCount,
         requiresReviewCount,
-        totalAmount: unreconciledDisbursements.reduce((sum, d) => sum + d.amount, BigInt(0)),
+        totalAmount: unreconciledDisbursements.reduce((sum, d) => sum + d.amountCents, BigInt(0)),
         reconciledAmount: BigInt(0), // Would be calculated from reconciled disbursements
         processingStartTime: startTime,
         processingEndTime: endTime,
@@ -302,7 +392,7 @@ export class ReconciliationService {
         const confidence = this.calculateMatchConfidence(statement, disbursement, rule);
 
         if (confidence >= rule.matchCriteria.minimumConfidence) {
-          const amountDifference = Math.abs(statement.amount - Number(disbursement.amount) / 100);
+          const amountDifference = Math.abs(statement.amount - Number(disbursement.amountCents) / 100);
 
           matches.push({
             disbursementId: disbursement.id,
@@ -358,7 +448,7 @@ export class ReconciliationService {
             matchedAmount = parseFloat(tx.value) / Math.pow(10, 18); // Convert from Wei
           }
 
-          const amountDifference = Math.abs(matchedAmount - Number(disbursement.amount) / 100);
+          const amountDifference = Math.abs(matchedAmount - Number(disbursement.amountCents) / 100);
 
           matches.push({
             disbursementId: disbursement.id,
@@ -389,8 +479,8 @@ export class ReconciliationService {
     let confidence = 0;
 
     // Amount matching (40% weight)
-    const amountDiff = Math.abs(statement.amount - Number(disbursement.amount) / 100);
-    const amountTolerance = (Number(disbursement.amount) / 100) * (rule.matchCriteria.amountTolerance / 100);
+    const amountDiff = Math.abs(statement.amount - Number(disbursement.amountCents) / 100);
+    const amountTolerance = (Number(disbursement.amountCents) / 100) * (rule.matchCriteria.amountTolerance / 100);
     if (amountDiff <= amountTolerance) {
       confidence += 40 * (1 - amountDiff / amountTolerance);
     }
@@ -429,7 +519,7 @@ export class ReconciliationService {
     let confidence = 0;
 
     // Exact transaction hash match (100% confidence)
-    if (disbursement.transactionHash && disbursement.transactionHash === tx.hash) {
+    if (disbursement.txHash && disbursement.txHash === tx.hash) {
       return 100;
     }
 
@@ -454,8 +544,8 @@ export class ReconciliationService {
       txAmount = parseFloat(tx.value) / Math.pow(10, 18);
     }
 
-    const amountDiff = Math.abs(txAmount - Number(disbursement.amount) / 100);
-    const amountTolerance = (Number(disbursement.amount) / 100) * (rule.matchCriteria.amountTolerance / 100);
+    const amountDiff = Math.abs(txAmount - Number(disbursement.amountCents) / 100);
+    const amountTolerance = (Number(disbursement.amountCents) / 100) * (rule.matchCriteria.amountTolerance / 100);
     if (amountDiff <= amountTolerance) {
       confidence += 30 * (1 - amountDiff / amountTolerance);
     }
@@ -473,13 +563,17 @@ export class ReconciliationService {
   /**
    * Automatically reconcile a disbursement with bank statement
    */
-  private async autoReconcileDisbursement(match: ReconciliationMatch, statement: BankStatement): Promise<void> {
+  private async autoReconcileDisbursement(
+    match: ReconciliationMatch,
+    statement: BankStatement,
+    statementImportId?: number
+  ): Promise<void> {
     await this.prisma.disbursement.update({
       where: { id: match.disbursementId },
       data: {
         status: DisbursementStatus.RECONCILED,
         bankReference: statement.transactionId,
-        reconciledAt: new Date(),
+        reconciledDate: new Date(),
         reconciliationType: 'AUTO',
         reconciliationConfidence: match.matchConfidence,
       },
@@ -492,6 +586,7 @@ export class ReconciliationService {
         matchType: match.matchType,
         matchConfidence: match.matchConfidence,
         externalReference: statement.transactionId,
+        statementImportId,
         matchedAmount: match.matchedAmount,
         amountDifference: match.amountDifference,
         autoReconciled: true,
@@ -508,10 +603,10 @@ export class ReconciliationService {
       where: { id: match.disbursementId },
       data: {
         status: DisbursementStatus.RECONCILED,
-        transactionHash: tx.hash,
+        txHash: tx.hash,
         blockNumber: tx.blockNumber,
         confirmations: tx.confirmations,
-        reconciledAt: new Date(),
+        reconciledDate: new Date(),
         reconciliationType: 'AUTO',
         reconciliationConfidence: match.matchConfidence,
       },
@@ -535,13 +630,18 @@ export class ReconciliationService {
   /**
    * Create reconciliation review for manual approval
    */
-  private async createReconciliationReview(match: ReconciliationMatch, statement: BankStatement): Promise<void> {
+  private async createReconciliationReview(
+    match: ReconciliationMatch,
+    statement: BankStatement,
+    statementImportId?: number
+  ): Promise<void> {
     await this.prisma.reconciliationReview.create({
       data: {
         disbursementId: match.disbursementId,
         matchType: match.matchType,
         matchConfidence: match.matchConfidence,
         externalReference: statement.transactionId,
+        statementImportId,
         externalAmount: match.matchedAmount,
         amountDifference: match.amountDifference,
         status: 'PENDING_REVIEW',
@@ -699,8 +799,8 @@ export class ReconciliationService {
         data: {
           status: DisbursementStatus.RECONCILED,
           bankReference: review.matchType === 'BANK_STATEMENT' ? review.externalReference : undefined,
-          transactionHash: review.matchType === 'BLOCKCHAIN_TX' ? review.externalReference : undefined,
-          reconciledAt: new Date(),
+          txHash: review.matchType === 'BLOCKCHAIN_TX' ? review.externalReference : undefined,
+          reconciledDate: new Date(),
           reconciliationType: 'MANUAL',
           reconciliationConfidence: review.matchConfidence,
         },
@@ -713,6 +813,7 @@ export class ReconciliationService {
           matchType: review.matchType,
           matchConfidence: review.matchConfidence,
           externalReference: review.externalReference,
+          statementImportId: review.statementImportId,
           matchedAmount: review.externalAmount,
           amountDifference: review.amountDifference,
           autoReconciled: false,
@@ -0,0 +1,427 @@
+import { PrismaClient, SafeProposal, SafeConfirmation } from '@prisma/client';
+import { Address, Hash, Hex, recoverAddress } from 'viem';
+import { logger } from '../utils/logger';
+import { DisbursementService } from './disbursement';
+import { SafeAdapter, SafeInfo, SafeProvider, SafeSignature } from './payment-rails/safe-provider';
+import { getEnv } from '../types/env';
+
+export type SafeProposalStatus = 'PENDING_SIGNATURES' | 'EXECUTABLE' | 'EXECUTED' | 'FAILED';
+export type SafeConfirmationSource = 'PROPOSER' | 'SERVICE' | 'SIGNER' | 'ONCHAIN';
+
+export type SafeProposalEventType =
+  | 'signatures_requested'
+  | 'confirmation_added'
+  | 'ready_to_execute'
+  | 'executed'
+  | 'execution_failed';
+
+export interface SafeProposalNotifier {
+  notifySafeProposalEvent(eventType: SafeProposalEventType, eventData: Record<string, any>): Promise<void>;
+}
+
+export interface TrackProposalInput {
+  safeInfo: SafeInfo;
+  safeTransactionHash: string;
+  nonce: number;
+  reference: string;
+  disbursementIds: number[];
+  proposer?: Address;
+  proposerSignature?: Hex;
+}
+
+export interface SafeExecution {
+  success: boolean;
+  transactionHash: string;
+  executedAt?: Date;
+}
+
+export interface SafeProposalDetails extends SafeProposal {
+  confirmations: SafeConfirmation[];
+  pendingSigners: string[];
+}
+
+export interface SafeProposalQuery {
+  status?: SafeProposalStatus;
+  safeAddress?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Treasury Safe that pays SAFE_MULTISIG disbursements, and the services that
+ * propose and track its transactions
+ */
+export interface SafePaymentContext {
+  adapter: SafeAdapter;
+  tracker: SafeProposalTracker;
+  safeAddress: Address;
+  chainId: number;
+  tokenAddress: Address;
+}
+
+const OPEN_STATUSES: SafeProposalStatus[] = ['PENDING_SIGNATURES', 'EXECUTABLE'];
+
+/**
+ * Safe multisig proposal tracking
+ *
+ * Records every proposed Safe transaction together with the owners who have
+ * confirmed it, so treasurers can see which signatures a payment is waiting on.
+ * Confirmations arrive from signers through the API, from the Safe Transaction
+ * Service and from on-chain approveHash calls. Execution is reported by the
+ * indexer from the Safe's ExecutionSuccess/ExecutionFailure events and advances
+ * the disbursements the transaction pays.
+ */
+export class SafeProposalTracker {
+  private adapter?: SafeAdapter;
+  private notifier?: SafeProposalNotifier;
+
+  constructor(
+    private prisma: PrismaClient,
+    options: { adapter?: SafeAdapter; notifier?: SafeProposalNotifier } = {}
+  ) {
+    this.adapter = options.adapter;
+    this.notifier = options.notifier;
+  }
+
+  /**
+   * Record a newly proposed Safe transaction and ask the remaining owners to sign
+   */
+  async trackProposal(input: TrackProposalInput): Promise<SafeProposalDetails> {
+    const proposal = await this.prisma.safeProposal.create({
+      data: {
+        chainId: input.safeInfo.chainId,
+        safeAddress: input.safeInfo.address.toLowerCase(),
+        safeTxHash: input.safeTransactionHash.toLowerCase(),
+        nonce: input.nonce,
+        threshold: input.safeInfo.threshold,
+        owners: input.safeInfo.owners.map(owner => owner.toLowerCase()),
+        reference: input.reference,
+        disbursementIds: input.disbursementIds,
+        confirmations: input.proposer
+          ? {
+              create: {
+                signer: input.proposer.toLowerCase(),
+                signature: input.proposerSignature ?? null,
+                source: 'PROPOSER',
+              },
+            }
+          : undefined,
+      },
+      include: { confirmations: true },
+    });
+
+    logger.info('Safe proposal tracked', {
+      safeTxHash: proposal.safeTxHash,
+      safeAddress: proposal.safeAddress,
+      threshold: proposal.threshold,
+      disbursementIds: proposal.disbursementIds,
+    });
+
+    const details = await this.refreshStatus(proposal);
+    if (details.status === 'PENDING_SIGNATURES') {
+      await this.notify('signatures_requested', details);
+      await this.prisma.safeProposal.update({
+        where: { id: details.id },
+        data: { lastNotifiedAt: new Date() },
+      });
+    }
+
+    return details;
+  }
+
+  /**
+   * Submit an owner's signature to the Safe Transaction Service and record it.
+   * The signature must recover to the claimed signer over the Safe transaction hash.
+   */
+  async confirm(safeTxHash: string, signature: SafeSignature): Promise<SafeProposalDetails> {
+    const proposal = await this.getOpenProposal(safeTxHash);
+
+    if (!signature.dynamic) {
+      const recovered = await recoverAddress({ hash: proposal.safeTxHash as Hash, signature: signature.data });
+      if (recovered.toLowerCase() !== signature.signer.toLowerCase()) {
+        throw new Error(`Signature does not belong to ${signature.signer}`);
+      }
+    }
+
+    this.assertOwner(proposal, signature.signer);
+    await this.requireAdapter().confirmTransaction(proposal.safeTxHash, proposal.chainId, signature);
+
+    return this.recordConfirmation(proposal.safeTxHash, {
+      signer: signature.signer,
+      signature: signature.data,
+      source: 'SIGNER',
+    });
+  }
+
+  /**
+   * Record an owner's confirmation. Confirming twice is a no-op.
+   */
+  async recordConfirmation(
+    safeTxHash: string,
+    confirmation: { signer: string; signature?: string | null; source: SafeConfirmationSource }
+  ): Promise<SafeProposalDetails> {
+    const proposal = await this.getOpenProposal(safeTxHash);
+    const signer = confirmation.signer.toLowerCase();
+    this.assertOwner(proposal, signer);
+
+    const existing = proposal.confirmations.find(c => c.signer === signer);
+    if (existing) {
+      return this.withPendingSigners(proposal);
+    }
+
+    await this.prisma.safeConfirmation.create({
+      data: {
+        proposalId: proposal.id,
+        signer,
+        signature: confirmation.signature ?? null,
+        source: confirmation.source,
+      },
+    });
+
+    logger.info('Safe confirmation recorded', {
+      safeTxHash: proposal.safeTxHash,
+      signer,
+      source: confirmation.source,
+    });
+
+    const previousStatus = proposal.status;
+    const details = await this.refreshStatus(await this.loadProposal(proposal.safeTxHash));
+
+    await this.notify('confirmation_added', details, { signer });
+    if (previousStatus === 'PENDING_SIGNATURES' && details.status === 'EXECUTABLE') {
+      await this.notify('ready_to_execute', details);
+    }
+
+    return details;
+  }
+
+  /**
+   * Pull confirmations collected by the Safe Transaction Service, e.g. from
+   * owners signing in the Safe app
+   */
+  async syncConfirmations(safeTxHash: string): Promise<SafeProposalDetails> {
+    const proposal = await this.getOpenProposal(safeTxHash);
+    const confirmations = await this.requireAdapter().getConfirmations(proposal.safeTxHash, proposal.chainId);
+
+    for (const confirmation of confirmations) {
+      if (!proposal.owners.includes(confirmation.signer.toLowerCase())) {
+        continue; // Owner removed since the proposal was made
+      }
+      await this.recordConfirmation(proposal.safeTxHash, {
+        signer: confirmation.signer,
+        signature: confirmation.data,
+        source: 'SERVICE',
+      });
+    }
+
+    return this.withPendingSigners(await this.loadProposal(proposal.safeTxHash));
+  }
+
+  /**
+   * Record the outcome of a Safe transaction and advance the disbursements it pays.
+   * Returns null for Safe transactions that were not proposed through this tracker.
+   */
+  async recordExecution(safeTxHash: string, execution: SafeExecution): Promise<SafeProposal | null> {
+    const proposal = await this.prisma.safeProposal.findUnique({
+      where: { safeTxHash: safeTxHash.toLowerCase() },
+      include: { confirmations: true },
+    });
+
+    if (!proposal) {
+      return null;
+    }
+
+    if (!OPEN_STATUSES.includes(proposal.status as SafeProposalStatus)) {
+      return proposal; // Already recorded, e.g. executed at submission and then seen by the indexer
+    }
+
+    const updated = await this.prisma.safeProposal.update({
+      where: { id: proposal.id },
+      data: {
+        status: execution.success ? 'EXECUTED' : 'FAILED',
+        executionTxHash: execution.transactionHash,
+        executedAt: execution.executedAt ?? new Date(),
+      },
+    });
+
+    const disbursementService = new DisbursementService(this.prisma);
+    for (const disbursementId of proposal.disbursementIds) {
+      await disbursementService.completeSafeMultisigPayment(disbursementId, execution);
+    }
+
+    logger.info('Safe proposal execution recorded', {
+      safeTxHash: updated.safeTxHash,
+      status: updated.status,
+      executionTxHash: execution.transactionHash,
+    });
+
+    await this.notify(execution.success ? 'executed' : 'execution_failed', {
+      ...this.withPendingSigners(proposal),
+      ...updated,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Remind the owners who have not signed yet
+   */
+  async notifyPendingSigners(safeTxHash: string): Promise<SafeProposalDetails> {
+    const proposal = await this.getOpenProposal(safeTxHash);
+    const details = this.withPendingSigners(proposal);
+
+    if (details.pendingSigners.length > 0) {
+      await this.notify('signatures_requested', details);
+      await this.prisma.safeProposal.update({
+        where: { id: proposal.id },
+        data: { lastNotifiedAt: new Date() },
+      });
+    }
+
+    return details;
+  }
+
+  async getProposal(safeTxHash: string): Promise<SafeProposalDetails | null> {
+    const proposal = await this.prisma.safeProposal.findUnique({
+      where: { safeTxHash: safeTxHash.toLowerCase() },
+      include: { confirmations: { orderBy: { confirmedAt: 'asc' } } },
+    });
+
+    return proposal ? this.withPendingSigners(proposal) : null;
+  }
+
+  async listProposals(query: SafeProposalQuery = {}): Promise<{ proposals: SafeProposalDetails[]; total: number }> {
+    const where = {
+      ...(query.status && { status: query.status }),
+      ...(query.safeAddress && { safeAddress: query.safeAddress.toLowerCase() }),
+    };
+
+    const [proposals, total] = await Promise.all([
+      this.prisma.safeProposal.findMany({
+        where,
+        include: { confirmations: { orderBy: { confirmedAt: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+        take: query.limit ?? 50,
+        skip: query.offset ?? 0,
+      }),
+      this.prisma.safeProposal.count({ where }),
+    ]);
+
+    return { proposals: proposals.map(p => this.withPendingSigners(p)), total };
+  }
+
+  // Private helper methods
+
+  private async loadProposal(safeTxHash: string) {
+    const proposal = await this.prisma.safeProposal.findUnique({
+      where: { safeTxHash: safeTxHash.toLowerCase() },
+      include: { confirmations: { orderBy: { confirmedAt: 'asc' } } },
+    });
+
+    if (!proposal) {
+      throw new Error(`Safe proposal ${safeTxHash} not found`);
+    }
+
+    return proposal;
+  }
+
+  private async getOpenProposal(safeTxHash: string) {
+    const proposal = await this.loadProposal(safeTxHash);
+    if (!OPEN_STATUSES.includes(proposal.status as SafeProposalStatus)) {
+      throw new Error(`Safe proposal ${safeTxHash} is already ${proposal.status.toLowerCase()}`);
+    }
+    return proposal;
+  }
+
+  private assertOwner(proposal: SafeProposal, signer: string): void {
+    if (!proposal.owners.includes(signer.toLowerCase())) {
+      throw new Error(`${signer} is not an owner of Safe ${proposal.safeAddress}`);
+    }
+  }
+
+  private async refreshStatus(
+    proposal: SafeProposal & { confirmations: SafeConfirmation[] }
+  ): Promise<SafeProposalDetails> {
+    const status: SafeProposalStatus =
+      proposal.confirmations.length >= proposal.threshold ? 'EXECUTABLE' : 'PENDING_SIGNATURES';
+
+    if (proposal.status !== status && OPEN_STATUSES.includes(proposal.status as SafeProposalStatus)) {
+      await this.prisma.safeProposal.update({ where: { id: proposal.id }, data: { status } });
+      return this.withPendingSigners({ ...proposal, status });
+    }
+
+    return this.withPendingSigners(proposal);
+  }
+
+  private withPendingSigners(proposal: SafeProposal & { confirmations: SafeConfirmation[] }): SafeProposalDetails {
+    const confirmed = new Set(proposal.confirmations.map(c => c.signer));
+    return {
+      ...proposal,
+      pendingSigners: proposal.owners.filter(owner => !confirmed.has(owner)),
+    };
+  }
+
+  private requireAdapter(): SafeAdapter {
+    if (!this.adapter) {
+      throw new Error('No Safe adapter configured');
+    }
+    return this.adapter;
+  }
+
+  private async notify(
+    eventType: SafeProposalEventType,
+    proposal: SafeProposalDetails,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    if (!this.notifier) {
+      return;
+    }
+
+    try {
+      await this.notifier.notifySafeProposalEvent(eventType, {
+        safeTxHash: proposal.safeTxHash,
+        safeAddress: proposal.safeAddress,
+        chainId: proposal.chainId,
+        nonce: proposal.nonce,
+        reference: proposal.reference,
+        disbursementIds: proposal.disbursementIds,
+        status: proposal.status,
+        threshold: proposal.threshold,
+        confirmations: proposal.confirmations.length,
+        pendingSigners: proposal.pendingSigners,
+        executionTxHash: proposal.executionTxHash,
+        ...extra,
+      });
+    } catch (error) {
+      logger.warn('Failed to send Safe proposal notification', {
+        eventType,
+        safeTxHash: proposal.safeTxHash,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Build the treasury Safe context from the environment, or undefined when no
+ * treasury Safe is configured
+ */
+export function createSafePaymentContext(
+  prisma: PrismaClient,
+  notifier?: SafeProposalNotifier
+): SafePaymentContext | undefined {
+  const env = getEnv();
+  if (!env.TREASURY_SAFE_ADDRESS || !env.TREASURY_SAFE_TOKEN_ADDRESS || !env.SAFE_PROPOSER_PRIVATE_KEY) {
+    return undefined;
+  }
+
+  const adapter = new SafeProvider({ privateKey: env.SAFE_PROPOSER_PRIVATE_KEY as Hex });
+
+  return {
+    adapter,
+    tracker: new SafeProposalTracker(prisma, { adapter, notifier }),
+    safeAddress: env.TREASURY_SAFE_ADDRESS as Address,
+    chainId: env.TREASURY_SAFE_CHAIN_ID,
+    tokenAddress: env.TREASURY_SAFE_TOKEN_ADDRESS as Address,
+  };
+}
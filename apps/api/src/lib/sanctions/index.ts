@@ -0,0 +1,590 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { FastifyInstance } from 'fastify';
+import type { SanctionsHit, SanctionsList } from '@orenna/db';
+import { AuditTrailService } from '../audit-trail.js';
+import { getEnv } from '../../types/env.js';
+import { parseOfacXml } from './ofac';
+import { nameSimilarity, normalizeName, normalizeWalletAddress } from './matching';
+
+export { parseOfacXml } from './ofac';
+export type { OfacEntry, OfacList } from './ofac';
+export { nameSimilarity, normalizeName, normalizeWalletAddress } from './matching';
+
+export type SanctionsListSource = 'SDN' | 'CONSOLIDATED';
+export type ScreeningSubjectType = 'VENDOR' | 'PAYMENT' | 'DISBURSEMENT' | 'MARKETPLACE_FILL';
+export type ScreeningDecision = 'CLEAR' | 'HOLD' | 'BLOCK';
+
+export interface ScreeningSubject {
+  subjectType: ScreeningSubjectType;
+  subjectRef: string;
+  names?: Array<string | null | undefined>;
+  addresses?: Array<string | null | undefined>;
+  actor: string;
+}
+
+export interface ScreeningResult {
+  decision: ScreeningDecision;
+  hits: SanctionsHit[];
+  screenedAt: Date;
+}
+
+export interface HitReview {
+  decision: 'CLEARED' | 'CONFIRMED';
+  reviewedBy: string;
+  notes?: string;
+}
+
+export interface HitQuery {
+  status?: string;
+  subjectType?: ScreeningSubjectType;
+  subjectRef?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ListImportResult {
+  list: SanctionsList;
+  imported: boolean; // false when the file matched the active list
+}
+
+export interface SanctionsScreeningOptions {
+  audit?: Pick<AuditTrailService, 'recordEvent'>;
+  listDirectory?: string;
+  importIntervalMs?: number;
+  nameThreshold?: number;
+  maxListAgeDays?: number;
+}
+
+/**
+ * Thrown by callers that refuse to move money while a screening has open or
+ * confirmed hits
+ */
+export class SanctionsScreeningError extends Error {
+  readonly decision: ScreeningDecision;
+  readonly hitIds: number[];
+
+  constructor(subject: Pick<ScreeningSubject, 'subjectType' | 'subjectRef'>, result: ScreeningResult) {
+    super(
+      `Sanctions screening ${result.decision === 'BLOCK' ? 'blocked' : 'held'} ${subject.subjectType} ${subject.subjectRef}: ` +
+      `${result.hits.length} potential match(es) pending review`
+    );
+    this.name = 'SanctionsScreeningError';
+    this.decision = result.decision;
+    this.hitIds = result.hits.map(hit => hit.id);
+  }
+}
+
+interface IndexedName {
+  entryId: number;
+  uid: number;
+  source: string;
+  name: string;
+  programs: string[];
+  kind: 'NAME' | 'ALIAS' | 'WEAK_ALIAS';
+  value: string;
+  tokens: string[];
+}
+
+interface Match {
+  source: string;
+  entryUid: number;
+  entryName: string;
+  programs: string[];
+  matchType: IndexedName['kind'] | 'ADDRESS';
+  screenedValue: string;
+  matchedValue: string;
+  score: number;
+}
+
+// Rows per createMany when loading a list; the SDN list has ~18k entries
+const IMPORT_CHUNK_SIZE = 1000;
+
+/**
+ * Offline OFAC screening. SDN and consolidated list XML files dropped into
+ * SANCTIONS_LIST_DIR are imported on a schedule; names are fuzzy-matched
+ * against entry names and aliases, wallet addresses exactly against the
+ * listed digital currency addresses.
+ *
+ * Screening fails closed: with no list imported, or lists older than
+ * SANCTIONS_MAX_LIST_AGE_DAYS, it throws rather than reporting CLEAR.
+ */
+export class SanctionsScreeningService {
+  private audit: NonNullable<SanctionsScreeningOptions['audit']>;
+  private listDirectory?: string;
+  private importIntervalMs: number;
+  private nameThreshold: number;
+  private maxListAgeDays: number;
+  private importIntervalId?: NodeJS.Timeout;
+  private importing = false;
+  private nameIndex?: { key: string; listIds: number[]; names: IndexedName[] };
+
+  constructor(private app: FastifyInstance, options: SanctionsScreeningOptions = {}) {
+    const env = getEnv();
+    this.audit = options.audit ?? new AuditTrailService(app);
+    this.listDirectory = options.listDirectory ?? env.SANCTIONS_LIST_DIR;
+    this.importIntervalMs = options.importIntervalMs ?? env.SANCTIONS_IMPORT_INTERVAL_MS;
+    this.nameThreshold = options.nameThreshold ?? env.SANCTIONS_NAME_THRESHOLD;
+    this.maxListAgeDays = options.maxListAgeDays ?? env.SANCTIONS_MAX_LIST_AGE_DAYS;
+  }
+
+  /**
+   * Load an OFAC list file and make it the active list for its source. A file
+   * identical to the active list only refreshes its checkedAt.
+   */
+  async importList(
+    contents: string,
+    { source, fileName, importedBy }: { source: SanctionsListSource; fileName: string; importedBy: string }
+  ): Promise<ListImportResult> {
+    const fileHash = crypto.createHash('sha256').update(contents).digest('hex');
+    const current = await this.app.prisma.sanctionsList.findFirst({ where: { source, active: true } });
+
+    if (current?.fileHash === fileHash) {
+      const list = await this.app.prisma.sanctionsList.update({
+        where: { id: current.id },
+        data: { checkedAt: new Date() },
+      });
+      return { list, imported: false };
+    }
+
+    const parsed = parseOfacXml(contents);
+    if (parsed.entries.length === 0) {
+      throw new Error(`${fileName} contains no entries`);
+    }
+    if (parsed.recordCount !== undefined && parsed.recordCount !== parsed.entries.length) {
+      throw new Error(`${fileName} declares ${parsed.recordCount} records but contains ${parsed.entries.length}; the file may be truncated`);
+    }
+
+    const list = await this.app.prisma.$transaction(async (tx) => {
+      const created = await tx.sanctionsList.create({
+        data: {
+          source,
+          fileName,
+          fileHash,
+          publishedAt: parsed.publishedAt,
+          entryCount: parsed.entries.length,
+          importedBy,
+        },
+      });
+
+      for (let start = 0; start < parsed.entries.length; start += IMPORT_CHUNK_SIZE) {
+        const chunk = parsed.entries.slice(start, start + IMPORT_CHUNK_SIZE);
+        const rows = await tx.sanctionsEntry.createManyAndReturn({
+          data: chunk.map(entry => ({
+            listId: created.id,
+            uid: entry.uid,
+            entryType: entry.entryType,
+            name: entry.name,
+            aliases: entry.aliases,
+            weakAliases: entry.weakAliases,
+            programs: entry.programs,
+            addresses: entry.addresses as any,
+            remarks: entry.remarks,
+          })),
+          select: { id: true, uid: true },
+        });
+
+        const ids = new Map(rows.map(row => [row.uid, row.id]));
+        const addresses = chunk.flatMap(entry => entry.digitalCurrencyAddresses.map(address => ({
+          entryId: ids.get(entry.uid)!,
+          currency: address.currency,
+          address: normalizeWalletAddress(address.address),
+        })));
+        if (addresses.length > 0) {
+          await tx.sanctionsDigitalAddress.createMany({ data: addresses });
+        }
+      }
+
+      await tx.sanctionsList.updateMany({
+        where: { source, active: true },
+        data: { active: false },
+      });
+      return tx.sanctionsList.update({
+        where: { id: created.id },
+        data: { active: true },
+      });
+    }, { timeout: 120000 });
+
+    this.nameIndex = undefined;
+
+    await this.audit.recordEvent({
+      eventType: 'SANCTIONS_LIST_IMPORTED',
+      action: 'IMPORT',
+      entityType: 'SanctionsList',
+      entityId: String(list.id),
+      actor: importedBy,
+      source: 'sanctions-screening',
+      details: {
+        source,
+        fileName,
+        fileHash,
+        publishedAt: list.publishedAt,
+        entryCount: list.entryCount,
+        replacedListId: current?.id,
+      },
+    });
+
+    this.app.log.info({ listId: list.id, source, entryCount: list.entryCount }, 'Sanctions list imported');
+    return { list, imported: true };
+  }
+
+  /**
+   * Import every .xml file in the list directory. Files named like the
+   * consolidated list (cons.xml, consolidated.xml) load as CONSOLIDATED,
+   * anything else as SDN.
+   */
+  async importFromDirectory(importedBy: string = 'system', directory = this.listDirectory) {
+    if (!directory) {
+      throw new Error('SANCTIONS_LIST_DIR is not configured');
+    }
+
+    const files = (await fs.readdir(directory))
+      .filter(file => file.toLowerCase().endsWith('.xml'))
+      .sort();
+
+    const results: Array<{ fileName: string; source: SanctionsListSource; imported: boolean; listId: number }> = [];
+    for (const fileName of files) {
+      const source: SanctionsListSource = /cons/i.test(fileName) ? 'CONSOLIDATED' : 'SDN';
+      const contents = await fs.readFile(path.join(directory, fileName), 'utf8');
+      const { list, imported } = await this.importList(contents, { source, fileName, importedBy });
+      results.push({ fileName, source, imported, listId: list.id });
+    }
+    return results;
+  }
+
+  startPeriodicImport(intervalMs: number = this.importIntervalMs): void {
+    this.stopPeriodicImport();
+    if (!this.listDirectory) return;
+
+    const run = async () => {
+      if (this.importing) return;
+      this.importing = true;
+      try {
+        await this.importFromDirectory();
+      } catch (error) {
+        this.app.log.error({ error }, 'Sanctions list import failed');
+      } finally {
+        this.importing = false;
+      }
+    };
+
+    void run();
+    this.importIntervalId = setInterval(run, intervalMs);
+  }
+
+  stopPeriodicImport(): void {
+    if (this.importIntervalId) {
+      clearInterval(this.importIntervalId);
+      this.importIntervalId = undefined;
+    }
+  }
+
+  async listLists() {
+    return this.app.prisma.sanctionsList.findMany({
+      orderBy: { importedAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  /**
+   * Screen names and wallet addresses. Values a reviewer has cleared against
+   * an entry are not raised again; values confirmed against an entry block.
+   * Address matches block outright, name matches hold for review.
+   */
+  async screen(subject: ScreeningSubject): Promise<ScreeningResult> {
+    const index = await this.loadNameIndex();
+    const matches: Match[] = [];
+
+    const names = unique(subject.names);
+    for (const name of names) {
+      const tokens = normalizeName(name);
+      if (tokens.length === 0) continue;
+      const screenedValue = tokens.join(' ');
+
+      const best = new Map<number, Match>();
+      for (const candidate of index.names) {
+        const score = candidate.kind === 'WEAK_ALIAS'
+          ? (candidate.value === screenedValue ? 1 : 0)
+          : nameSimilarity(tokens, candidate.tokens);
+        if (score < this.nameThreshold) continue;
+
+        const previous = best.get(candidate.entryId);
+        if (!previous || score > previous.score) {
+          best.set(candidate.entryId, {
+            source: candidate.source,
+            entryUid: candidate.uid,
+            entryName: candidate.name,
+            programs: candidate.programs,
+            matchType: candidate.kind,
+            screenedValue,
+            matchedValue: candidate.value,
+            score,
+          });
+        }
+      }
+      matches.push(...best.values());
+    }
+
+    const addresses = unique(subject.addresses).map(normalizeWalletAddress);
+    if (addresses.length > 0) {
+      const listed = await this.app.prisma.sanctionsDigitalAddress.findMany({
+        where: { address: { in: addresses }, entry: { listId: { in: index.listIds } } },
+        include: { entry: { include: { list: true } } },
+      });
+      for (const row of listed) {
+        matches.push({
+          source: row.entry.list.source,
+          entryUid: row.entry.uid,
+          entryName: row.entry.name,
+          programs: row.entry.programs,
+          matchType: 'ADDRESS',
+          screenedValue: row.address,
+          matchedValue: `${row.currency} ${row.address}`,
+          score: 1,
+        });
+      }
+    }
+
+    const hits: SanctionsHit[] = [];
+    for (const match of matches) {
+      const hit = await this.recordHit(subject, match);
+      if (hit) hits.push(hit);
+    }
+
+    const decision: ScreeningDecision = hits.some(hit => hit.action === 'BLOCK')
+      ? 'BLOCK'
+      : hits.length > 0 ? 'HOLD' : 'CLEAR';
+
+    if (decision !== 'CLEAR') {
+      this.app.log.warn(
+        { subjectType: subject.subjectType, subjectRef: subject.subjectRef, decision, hitIds: hits.map(hit => hit.id) },
+        'Sanctions screening hit'
+      );
+    }
+
+    return { decision, hits, screenedAt: new Date() };
+  }
+
+  /**
+   * Screen and throw SanctionsScreeningError unless the subject is clear
+   */
+  async assertClear(subject: ScreeningSubject): Promise<ScreeningResult> {
+    const result = await this.screen(subject);
+    if (result.decision !== 'CLEAR') {
+      throw new SanctionsScreeningError(subject, result);
+    }
+    return result;
+  }
+
+  async listHits({ limit = 50, offset = 0, ...filters }: HitQuery = {}) {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.subjectType) where.subjectType = filters.subjectType;
+    if (filters.subjectRef) where.subjectRef = filters.subjectRef;
+
+    const [hits, total] = await Promise.all([
+      this.app.prisma.sanctionsHit.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      this.app.prisma.sanctionsHit.count({ where }),
+    ]);
+    return { hits, total };
+  }
+
+  /**
+   * Clear a false positive or confirm a match. Clearing is an override of the
+   * screening result and needs a written reason. Vendors and held
+   * disbursements follow the decision once no open hits remain.
+   */
+  async reviewHit(hitId: number, review: HitReview): Promise<SanctionsHit> {
+    const hit = await this.app.prisma.sanctionsHit.findUnique({ where: { id: hitId } });
+    if (!hit) {
+      throw new Error(`Sanctions hit ${hitId} not found`);
+    }
+    if (hit.status !== 'OPEN') {
+      throw new Error(`Sanctions hit ${hitId} is already ${hit.status}`);
+    }
+    if (review.decision === 'CLEARED' && !review.notes?.trim()) {
+      throw new Error('A reason is required to clear a sanctions hit');
+    }
+
+    const updated = await this.app.prisma.sanctionsHit.update({
+      where: { id: hitId },
+      data: {
+        status: review.decision,
+        reviewedBy: review.reviewedBy,
+        reviewedAt: new Date(),
+        reviewNotes: review.notes,
+      },
+    });
+
+    await this.audit.recordEvent({
+      eventType: review.decision === 'CLEARED' ? 'SANCTIONS_OVERRIDE' : 'SANCTIONS_HIT_CONFIRMED',
+      action: review.decision,
+      entityType: hit.subjectType,
+      entityId: hit.subjectRef,
+      actor: review.reviewedBy,
+      source: 'sanctions-screening',
+      details: {
+        hitId,
+        list: hit.source,
+        entryUid: hit.entryUid,
+        entryName: hit.entryName,
+        matchType: hit.matchType,
+        screenedValue: hit.screenedValue,
+        matchedValue: hit.matchedValue,
+        score: hit.score,
+        notes: review.notes,
+      },
+    });
+
+    await this.applyReviewToSubject(updated);
+    return updated;
+  }
+
+  private async applyReviewToSubject(hit: SanctionsHit): Promise<void> {
+    const confirmed = hit.status === 'CONFIRMED';
+    if (!confirmed) {
+      const open = await this.app.prisma.sanctionsHit.count({
+        where: { subjectType: hit.subjectType, subjectRef: hit.subjectRef, status: 'OPEN' },
+      });
+      if (open > 0) return;
+    }
+
+    const id = Number(hit.subjectRef);
+    switch (hit.subjectType) {
+      case 'VENDOR':
+        await this.app.prisma.vendor.update({
+          where: { id },
+          data: { sanctionsStatus: confirmed ? 'FLAGGED' : 'CLEAR', sanctionsCheckedAt: new Date() },
+        });
+        break;
+      case 'DISBURSEMENT':
+        // Only a disbursement the screening held is released or blocked here
+        await this.app.prisma.disbursement.updateMany({
+          where: { id, status: 'ON_HOLD' },
+          data: { status: confirmed ? 'BLOCKED' : 'PENDING' },
+        });
+        break;
+      default:
+        // Payments and fills are refused before they are created; the
+        // caller retries once the hit is cleared
+        break;
+    }
+  }
+
+  private async recordHit(subject: ScreeningSubject, match: Match): Promise<SanctionsHit | null> {
+    const reviewed = await this.app.prisma.sanctionsHit.findFirst({
+      where: {
+        screenedValue: match.screenedValue,
+        source: match.source,
+        entryUid: match.entryUid,
+        status: { in: ['CLEARED', 'CONFIRMED'] },
+      },
+      orderBy: { reviewedAt: 'desc' },
+    });
+    if (reviewed?.status === 'CLEARED') {
+      return null;
+    }
+
+    const open = await this.app.prisma.sanctionsHit.findFirst({
+      where: {
+        subjectType: subject.subjectType,
+        subjectRef: subject.subjectRef,
+        screenedValue: match.screenedValue,
+        source: match.source,
+        entryUid: match.entryUid,
+        status: 'OPEN',
+      },
+    });
+    if (open) {
+      return open;
+    }
+
+    const action = match.matchType === 'ADDRESS' || reviewed?.status === 'CONFIRMED' ? 'BLOCK' : 'HOLD';
+    const hit = await this.app.prisma.sanctionsHit.create({
+      data: {
+        subjectType: subject.subjectType,
+        subjectRef: subject.subjectRef,
+        ...match,
+        action,
+      },
+    });
+
+    await this.audit.recordEvent({
+      eventType: 'SANCTIONS_HIT',
+      action,
+      entityType: subject.subjectType,
+      entityId: subject.subjectRef,
+      actor: subject.actor,
+      source: 'sanctions-screening',
+      details: {
+        hitId: hit.id,
+        list: match.source,
+        entryUid: match.entryUid,
+        entryName: match.entryName,
+        programs: match.programs,
+        matchType: match.matchType,
+        screenedValue: match.screenedValue,
+        matchedValue: match.matchedValue,
+        score: match.score,
+      },
+    });
+
+    return hit;
+  }
+
+  // Names of every entry on the active lists, normalized once per import
+  private async loadNameIndex() {
+    const lists = await this.app.prisma.sanctionsList.findMany({ where: { active: true } });
+    if (lists.length === 0) {
+      throw new Error('Sanctions screening unavailable: no sanctions list has been imported');
+    }
+
+    if (this.maxListAgeDays > 0) {
+      const lastChecked = Math.max(...lists.map(list => list.checkedAt.getTime()));
+      if (Date.now() - lastChecked > this.maxListAgeDays * 24 * 60 * 60 * 1000) {
+        throw new Error(`Sanctions screening unavailable: lists have not been refreshed since ${new Date(lastChecked).toISOString()}`);
+      }
+    }
+
+    const listIds = lists.map(list => list.id).sort((a, b) => a - b);
+    const key = listIds.join(',');
+    if (this.nameIndex?.key === key) {
+      return this.nameIndex;
+    }
+
+    const sources = new Map(lists.map(list => [list.id, list.source]));
+    const entries = await this.app.prisma.sanctionsEntry.findMany({
+      where: { listId: { in: listIds } },
+      select: { id: true, listId: true, uid: true, name: true, aliases: true, weakAliases: true, programs: true },
+    });
+
+    const names: IndexedName[] = [];
+    for (const entry of entries) {
+      const add = (value: string, kind: IndexedName['kind']) => {
+        const tokens = normalizeName(value);
+        if (tokens.length === 0) return;
+        names.push({
+          entryId: entry.id,
+          uid: entry.uid,
+          source: sources.get(entry.listId)!,
+          name: entry.name,
+          programs: entry.programs,
+          kind,
+          value: tokens.join(' '),
+          tokens,
+        });
+      };
+      add(entry.name, 'NAME');
+      entry.aliases.forEach(alias => add(alias, 'ALIAS'));
+      entry.weakAliases.forEach(alias => add(alias, 'WEAK_ALIAS'));
+    }
+
+    this.nameIndex = { key, listIds, names };
+    return this.nameIndex;
+  }
+}
+
+function unique(values: Array<string | null | undefined> = []): string[] {
+  return [...new Set(values.map(value => value?.trim()).filter((value): value is string => !!value))];
+}
@@ -0,0 +1,106 @@
+/**
+ * Name and address matching for sanctions screening
+ *
+ * Names are compared after transliteration to A-Z, dropping punctuation,
+ * legal-form suffixes and filler words, so "Banco Nacional de Cuba, S.A." and
+ * "BANCO NACIONAL CUBA" normalize alike. The score is the better of a
+ * Jaro-Winkler comparison of the token-sorted names and a symmetric
+ * best-token match, which tolerates reordered names and small spelling
+ * differences without letting a single shared token carry a long name.
+ */
+
+const IGNORED_TOKENS = new Set([
+  // Legal forms
+  'CO', 'CORP', 'CORPORATION', 'COMPANY', 'INC', 'INCORPORATED', 'LLC', 'LLP', 'LP', 'LTD', 'LIMITED',
+  'PLC', 'SA', 'SAS', 'SARL', 'SPA', 'AG', 'GMBH', 'BV', 'NV', 'OOO', 'ZAO', 'OAO', 'PJSC', 'JSC', 'FZE', 'FZCO',
+  // Filler words
+  'THE', 'OF', 'AND', 'DE', 'DEL', 'LA', 'EL', 'AL', 'VAN', 'VON', 'BIN', 'IBN',
+]);
+
+export function normalizeName(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[.']/g, '') // S.A. -> SA, O'Neil -> ONEIL
+    .replace(/&/g, ' AND ')
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+}
+
+/**
+ * Similarity between two normalized names, 0 (unrelated) to 1 (identical)
+ */
+export function nameSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const sorted = jaroWinkler([...a].sort().join(' '), [...b].sort().join(' '));
+  const tokens = (bestTokenAverage(a, b) + bestTokenAverage(b, a)) / 2;
+  return Math.max(sorted, tokens);
+}
+
+function bestTokenAverage(from: string[], to: string[]): number {
+  let total = 0;
+  for (const token of from) {
+    let best = 0;
+    for (const candidate of to) {
+      best = Math.max(best, token === candidate ? 1 : jaroWinkler(token, candidate));
+      if (best === 1) break;
+    }
+    total += best;
+  }
+  return total / from.length;
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Canonical form of a wallet address for exact matching. EVM addresses and
+ * bech32 addresses are case-insensitive; base58 addresses are not.
+ */
+export function normalizeWalletAddress(address: string): string {
+  const trimmed = address.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(trimmed) || /^(bc|tb|bcrt|ltc)1[0-9a-z]+$/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed;
+}
@@ -0,0 +1,135 @@
+import { XmlElement, child, children, parseXml, text } from '../xml';
+
+/**
+ * OFAC sanctions list XML (SDN and Consolidated Non-SDN)
+ *
+ * Both lists are published in the same sdnList schema. Files run to tens of
+ * megabytes, so entries are cut out of the document and parsed one at a time
+ * rather than building a tree for the whole file.
+ */
+
+export interface OfacDigitalCurrencyAddress {
+  currency: string; // Ticker from the ID type, e.g. XBT, ETH, USDT
+  address: string;
+}
+
+export interface OfacPostalAddress {
+  address?: string;
+  city?: string;
+  stateOrProvince?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface OfacEntry {
+  uid: number;
+  entryType: string; // Individual, Entity, Vessel, Aircraft
+  name: string;
+  aliases: string[]; // Strong a.k.a.s and f.k.a.s
+  weakAliases: string[]; // Only screened on an exact match
+  programs: string[];
+  addresses: OfacPostalAddress[];
+  digitalCurrencyAddresses: OfacDigitalCurrencyAddress[];
+  remarks?: string;
+}
+
+export interface OfacList {
+  publishedAt?: Date;
+  recordCount?: number; // As declared in the file
+  entries: OfacEntry[];
+}
+
+const DIGITAL_CURRENCY_ID = /^Digital Currency Address - (\S+)/i;
+
+export function parseOfacXml(contents: string): OfacList {
+  if (!/<sdnList[\s>]/.test(contents)) {
+    throw new Error('Not an OFAC list file: missing sdnList');
+  }
+
+  const publication = extract(contents, 'publshInformation')[0];
+  const info = publication ? parseXml(publication) : undefined;
+  const publishDate = text(info, 'Publish_Date');
+  const recordCount = text(info, 'Record_Count');
+
+  const entries = extract(contents, 'sdnEntry').map(source => toEntry(parseXml(source)));
+
+  return {
+    publishedAt: publishDate ? parsePublishDate(publishDate) : undefined,
+    recordCount: recordCount ? Number(recordCount) : undefined,
+    entries,
+  };
+}
+
+function toEntry(node: XmlElement): OfacEntry {
+  const uid = Number(text(node, 'uid'));
+  if (!Number.isInteger(uid)) {
+    throw new Error('OFAC entry without a uid');
+  }
+
+  const aliases: string[] = [];
+  const weakAliases: string[] = [];
+  for (const aka of children(child(node, 'akaList'), 'aka')) {
+    const name = fullName(aka);
+    if (name) {
+      (text(aka, 'category') === 'weak' ? weakAliases : aliases).push(name);
+    }
+  }
+
+  const digitalCurrencyAddresses: OfacDigitalCurrencyAddress[] = [];
+  for (const id of children(child(node, 'idList'), 'id')) {
+    const currency = text(id, 'idType')?.match(DIGITAL_CURRENCY_ID)?.[1];
+    const address = text(id, 'idNumber');
+    if (currency && address) {
+      digitalCurrencyAddresses.push({ currency: currency.toUpperCase(), address });
+    }
+  }
+
+  return {
+    uid,
+    entryType: text(node, 'sdnType') ?? 'Entity',
+    name: fullName(node) ?? `UID ${uid}`,
+    aliases,
+    weakAliases,
+    programs: children(child(node, 'programList'), 'program').map(program => program.text).filter(Boolean),
+    addresses: children(child(node, 'addressList'), 'address').map(address => ({
+      address: [text(address, 'address1'), text(address, 'address2'), text(address, 'address3')].filter(Boolean).join(', ') || undefined,
+      city: text(address, 'city'),
+      stateOrProvince: text(address, 'stateOrProvince'),
+      postalCode: text(address, 'postalCode'),
+      country: text(address, 'country'),
+    })),
+    digitalCurrencyAddresses,
+    remarks: text(node, 'remarks'),
+  };
+}
+
+// Individuals carry a first and last name; entities only a last name
+function fullName(node: XmlElement): string | undefined {
+  const name = [text(node, 'firstName'), text(node, 'lastName')].filter(Boolean).join(' ');
+  return name || undefined;
+}
+
+// Publish_Date is MM/DD/YYYY
+function parsePublishDate(value: string): Date | undefined {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return match ? new Date(Date.UTC(Number(match[3]), Number(match[1]) - 1, Number(match[2]))) : undefined;
+}
+
+// Source text of every top-level <name>...</name> element
+function extract(contents: string, name: string): string[] {
+  const elements: string[] = [];
+  const open = new RegExp(`<(?:[\\w.-]+:)?${name}[\\s>]`, 'g');
+  const close = new RegExp(`</(?:[\\w.-]+:)?${name}\\s*>`, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = open.exec(contents)) !== null) {
+    close.lastIndex = match.index;
+    const end = close.exec(contents);
+    if (!end) {
+      throw new Error(`Malformed OFAC list: unterminated <${name}> at offset ${match.index}`);
+    }
+    elements.push(contents.slice(match.index, close.lastIndex));
+    open.lastIndex = close.lastIndex;
+  }
+  return elements;
+}
@@ -0,0 +1,176 @@
+// apps/api/src/lib/session.ts
+import { FastifyInstance } from 'fastify';
+import { createHash, randomBytes } from 'crypto';
+import { generateNonce } from 'siwe';
+import type { Session } from '@orenna/db';
+
+const NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface SessionTokenPayload {
+  sid: string;
+  userId: number;
+  address: string;
+  chainId?: number;
+}
+
+export interface SessionContext {
+  chainId?: number;
+  clientIp?: string;
+  userAgent?: string;
+}
+
+export type SessionValidationResult =
+  | { valid: true; session: Session }
+  | { valid: false; reason: 'missing' | 'not_found' | 'revoked' | 'expired' };
+
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class SessionService {
+  constructor(private app: FastifyInstance) {}
+
+  /**
+   * Issue a nonce that can be redeemed exactly once by consumeNonce
+   */
+  async issueNonce(clientIp?: string): Promise<{ nonce: string; expiresAt: Date }> {
+    const nonce = generateNonce();
+    const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+    await this.app.prisma.authNonce.create({
+      data: { nonce, clientIp, expiresAt }
+    });
+
+    // Opportunistically drop nonces that can no longer be redeemed
+    await this.app.prisma.authNonce.deleteMany({
+      where: { expiresAt: { lt: new Date(Date.now() - NONCE_TTL_MS) } }
+    }).catch((error) => this.app.log.warn({ error }, 'Failed to purge expired SIWE nonces'));
+
+    return { nonce, expiresAt };
+  }
+
+  /**
+   * Atomically mark a nonce as used. Returns false if it is unknown, expired
+   * or was already consumed by an earlier request.
+   */
+  async consumeNonce(nonce: string): Promise<boolean> {
+    const now = new Date();
+    const result = await this.app.prisma.authNonce.updateMany({
+      where: {
+        nonce,
+        consumedAt: null,
+        expiresAt: { gt: now }
+      },
+      data: { consumedAt: now }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Persist a session row and return the signed JWT that references it
+   */
+  async createSession(
+    user: { id: number; address: string },
+    ttlSeconds: number,
+    context: SessionContext,
+    sign: (payload: SessionTokenPayload, expiresIn: string) => Promise<string>
+  ): Promise<{ token: string; session: Session }> {
+    const sid = randomBytes(16).toString('hex');
+    const token = await sign({
+      sid,
+      userId: user.id,
+      address: user.address,
+      chainId: context.chainId
+    }, `${ttlSeconds}s`);
+
+    const session = await this.app.prisma.session.create({
+      data: {
+        id: sid,
+        userId: user.id,
+        token: hashSessionToken(token),
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+        lastSeenAt: new Date(),
+        metadata: {
+          chainId: context.chainId,
+          clientIp: context.clientIp,
+          userAgent: context.userAgent
+        }
+      }
+    });
+
+    return { token, session };
+  }
+
+  /**
+   * Check that the session behind a verified JWT is still live
+   */
+  async validateSession(sid: string | undefined): Promise<SessionValidationResult> {
+    if (!sid) {
+      return { valid: false, reason: 'missing' };
+    }
+
+    const session = await this.app.prisma.session.findUnique({ where: { id: sid } });
+
+    if (!session) {
+      return { valid: false, reason: 'not_found' };
+    }
+
+    if (session.revokedAt) {
+      return { valid: false, reason: 'revoked' };
+    }
+
+    if (session.expiresAt <= new Date()) {
+      return { valid: false, reason: 'expired' };
+    }
+
+    return { valid: true, session };
+  }
+
+  async touchSession(sid: string): Promise<void> {
+    await this.app.prisma.session.update({
+      where: { id: sid },
+      data: { lastSeenAt: new Date() }
+    });
+  }
+
+  async listActiveSessions(userId: number): Promise<Session[]> {
+    return this.app.prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Revoke a single session owned by the user. Returns false if the session
+   * does not exist, belongs to someone else or is already revoked.
+   */
+  async revokeSession(userId: number, sid: string): Promise<boolean> {
+    const result = await this.app.prisma.session.updateMany({
+      where: { id: sid, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Revoke every active session for the user, optionally keeping one alive
+   */
+  async revokeAllSessions(userId: number, exceptSid?: string): Promise<number> {
+    const result = await this.app.prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSid && { id: { not: exceptSid } })
+      },
+      data: { revokedAt: new Date() }
+    });
+
+    return result.count;
+  }
+}
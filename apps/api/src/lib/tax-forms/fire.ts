@@ -0,0 +1,261 @@
+/**
+ * IRS FIRE file format (Publication 1220)
+ *
+ * Builds the fixed-width 750-byte T/A/B/C/F record file used to e-file
+ * information returns through the IRS Filing Information Returns
+ * Electronically system. Only Form 1099-NEC is written here.
+ */
+
+export const FIRE_RECORD_LENGTH = 750;
+
+export interface FireTransmitter {
+  tin: string; // 9 digits
+  tcc: string; // 5-character Transmitter Control Code issued by the IRS
+  name: string;
+  companyName?: string; // Defaults to the transmitter name
+  address: string;
+  city: string;
+  state: string; // 2-letter postal code
+  zip: string;
+  contactName: string;
+  contactPhone: string;
+  contactEmail: string;
+}
+
+export interface FirePayer {
+  tin: string; // 9-digit EIN
+  nameControl?: string; // From the IRS notice, if known
+  name: string;
+  secondName?: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+}
+
+export interface FirePayee {
+  tinType?: 'EIN' | 'SSN'; // ITINs are reported as SSN; omit when the TIN is unknown
+  tin?: string;
+  nameControl?: string;
+  name: string;
+  secondName?: string; // E.g. the business name of a sole proprietor
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  accountNumber?: string; // Payer's account number for the payee, unique per payee
+  nonemployeeCompensation: bigint; // Box 1, cents
+  federalTaxWithheld?: bigint; // Box 4, cents
+}
+
+export interface FireFileOptions {
+  taxYear: number;
+  testFile?: boolean;
+  lastFiling?: boolean; // Payer will not file again, e.g. the business has closed
+}
+
+export interface FireFile {
+  contents: string;
+  payeeCount: number;
+  totalCompensation: bigint;
+  totalWithheld: bigint;
+}
+
+// Amount code positions in the B record and control totals in the C record
+const AMOUNT_SLOTS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'J'];
+
+export function buildFireFile(
+  transmitter: FireTransmitter,
+  payer: FirePayer,
+  payees: FirePayee[],
+  options: FireFileOptions
+): FireFile {
+  if (payees.length === 0) {
+    throw new Error('FIRE file must contain at least one payee');
+  }
+  if (!/^[A-Z0-9]{5}$/.test(transmitter.tcc.toUpperCase())) {
+    throw new Error('Transmitter Control Code must be 5 characters');
+  }
+
+  const year = numeric(options.taxYear, 4);
+  const withholding = payees.some(payee => (payee.federalTaxWithheld ?? BigInt(0)) > BigInt(0));
+  const amountCodes = withholding ? '14' : '1';
+  let sequence = 0;
+  const next = () => numeric(++sequence, 8);
+
+  const records: string[] = [
+    record(
+      'T',
+      year,
+      ' ', // Prior year data indicator
+      tinField(transmitter.tin, 'Transmitter'),
+      alpha(transmitter.tcc, 5),
+      blank(7),
+      options.testFile ? 'T' : ' ',
+      ' ', // Foreign entity indicator
+      alpha(transmitter.name, 80),
+      alpha(transmitter.companyName ?? transmitter.name, 80),
+      alpha(transmitter.address, 40),
+      alpha(transmitter.city, 40),
+      alpha(transmitter.state, 2),
+      zipField(transmitter.zip),
+      blank(15),
+      numeric(payees.length, 8),
+      alpha(transmitter.contactName, 40),
+      alpha(digits(transmitter.contactPhone), 15),
+      alpha(transmitter.contactEmail, 50, false),
+      blank(91),
+      next(),
+      blank(10),
+      'I', // Prepared in-house rather than by a software vendor
+      blank(230)
+    ),
+    record(
+      'A',
+      year,
+      ' ', // Combined Federal/State Filing Program
+      blank(5),
+      tinField(payer.tin, 'Payer'),
+      alpha(payer.nameControl ?? '', 4),
+      options.lastFiling ? '1' : ' ',
+      'NE', // Form 1099-NEC
+      alpha(amountCodes, 18),
+      blank(6),
+      ' ', // Foreign entity indicator
+      alpha(payer.name, 40),
+      alpha(payer.secondName ?? '', 40),
+      '0', // No transfer agent
+      alpha(payer.address, 40),
+      alpha(payer.city, 40),
+      alpha(payer.state, 2),
+      zipField(payer.zip),
+      alpha(digits(payer.phone), 15),
+      blank(260),
+      next(),
+      blank(241)
+    ),
+  ];
+
+  let totalCompensation = BigInt(0);
+  let totalWithheld = BigInt(0);
+
+  for (const payee of payees) {
+    if (payee.nonemployeeCompensation < BigInt(0)) {
+      throw new Error(`Negative compensation for payee ${payee.name}`);
+    }
+    const withheld = payee.federalTaxWithheld ?? BigInt(0);
+    totalCompensation += payee.nonemployeeCompensation;
+    totalWithheld += withheld;
+
+    records.push(record(
+      'B',
+      year,
+      ' ', // Corrected return indicator
+      alpha(payee.nameControl ?? '', 4),
+      payee.tin ? (payee.tinType === 'EIN' ? '1' : '2') : ' ',
+      payee.tin ? tinField(payee.tin, `Payee ${payee.name}`) : blank(9),
+      alpha(payee.accountNumber ?? '', 20),
+      blank(4), // Payer's office code
+      blank(10),
+      amountFields({ '1': payee.nonemployeeCompensation, '4': withheld }, 12),
+      blank(16),
+      ' ', // Foreign country indicator
+      alpha(payee.name, 40),
+      alpha(payee.secondName ?? '', 40),
+      alpha(payee.address, 40),
+      blank(40),
+      alpha(payee.city, 40),
+      alpha(payee.state, 2),
+      zipField(payee.zip),
+      blank(1),
+      next(),
+      blank(36),
+      ' ', // Second TIN notice
+      blank(2),
+      ' ', // Direct sales indicator
+      ' ', // FATCA filing requirement
+      blank(114),
+      blank(60), // Special data entries
+      blank(12), // State income tax withheld
+      blank(12), // Local income tax withheld
+      blank(2) // Combined Federal/State code
+    ));
+  }
+
+  records.push(
+    record(
+      'C',
+      numeric(payees.length, 8),
+      blank(6),
+      amountFields({ '1': totalCompensation, '4': totalWithheld }, 18),
+      blank(160),
+      next(),
+      blank(241)
+    ),
+    record(
+      'F',
+      numeric(1, 8), // Number of A records
+      numeric(0, 21),
+      blank(19),
+      numeric(payees.length, 8),
+      blank(442),
+      next(),
+      blank(241)
+    )
+  );
+
+  return {
+    contents: records.join(''),
+    payeeCount: payees.length,
+    totalCompensation,
+    totalWithheld,
+  };
+}
+
+// Positions 749-750 carry the carriage return/line feed
+function record(...fields: string[]): string {
+  const line = fields.join('');
+  if (line.length !== FIRE_RECORD_LENGTH - 2) {
+    throw new Error(`FIRE record type ${line[0]} is ${line.length} characters, expected ${FIRE_RECORD_LENGTH - 2}`);
+  }
+  return `${line}\r\n`;
+}
+
+function amountFields(amounts: Record<string, bigint>, width: number): string {
+  return AMOUNT_SLOTS.map(slot => numeric(amounts[slot] ?? BigInt(0), width)).join('');
+}
+
+function alpha(value: string, length: number, upper = true): string {
+  const cleaned = (upper ? value.toUpperCase() : value).replace(/[^\x20-\x7E]/g, ' ').slice(0, length);
+  return cleaned.padEnd(length, ' ');
+}
+
+function numeric(value: bigint | number, length: number): string {
+  const text = value.toString();
+  if (!/^\d+$/.test(text) || text.length > length) {
+    throw new Error(`Value ${text} does not fit a ${length}-digit FIRE field`);
+  }
+  return text.padStart(length, '0');
+}
+
+function blank(length: number): string {
+  return ' '.repeat(length);
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function tinField(tin: string, owner: string): string {
+  const cleaned = digits(tin);
+  if (cleaned.length !== 9) {
+    throw new Error(`${owner} TIN must be 9 digits`);
+  }
+  return cleaned;
+}
+
+// ZIP+4 is written as 9 digits; 5-digit ZIPs are left-justified
+function zipField(zip: string): string {
+  return alpha(digits(zip), 9);
+}
@@ -0,0 +1,109 @@
+import { PdfDocument } from '../pdf/document';
+import { formatUSD } from '../../adapters/finance';
+import type { FirePayee, FirePayer } from './fire';
+import { maskTin } from './tin';
+
+export interface Form1099PdfOptions {
+  taxYear: number;
+  copy: 'B' | '1' | '2'; // Recipient, state tax department, recipient's state return
+}
+
+const COPY_LABELS: Record<Form1099PdfOptions['copy'], string> = {
+  B: 'Copy B For Recipient',
+  '1': 'Copy 1 For State Tax Department',
+  '2': 'Copy 2 To be filed with recipient\'s state income tax return, when required',
+};
+
+/**
+ * Payee statement for Form 1099-NEC laid out like the IRS form. Copy A is
+ * filed electronically through FIRE, so it is never printed from here. The
+ * recipient's TIN is truncated as the instructions allow on payee copies.
+ */
+export function renderForm1099NecPdf(payer: FirePayer, payee: FirePayee, options: Form1099PdfOptions): Buffer {
+  const doc = new PdfDocument({ title: `Form 1099-NEC ${options.taxYear} - ${payee.name}` });
+  const page = doc.addPage();
+
+  const left = 36;
+  const middle = 306;
+  const right = 576;
+  const top = 72;
+
+  page
+    .text(left, 36, 'Form 1099-NEC', { size: 16, font: 'bold' })
+    .text(middle, 36, `Nonemployee Compensation ${options.taxYear}`, { size: 12, font: 'bold' })
+    .text(middle, 54, COPY_LABELS[options.copy], { size: 9 });
+
+  // Payer and recipient blocks on the left, amount boxes on the right
+  page.rect(left, top, right - left, 324, 1).line(middle, top, middle, top + 324);
+
+  const label = (x: number, y: number, value: string) => page.text(x + 4, y + 4, value, { size: 7 });
+  const value = (x: number, y: number, text: string, size = 10) => page.text(x + 4, y + 16, text, { size });
+
+  label(left, top, "PAYER'S name, street address, city, state, ZIP code and telephone no.");
+  [payer.name, payer.secondName, payer.address, `${payer.city}, ${payer.state} ${formatZip(payer.zip)}`, payer.phone]
+    .filter((line): line is string => !!line)
+    .forEach((line, index) => page.text(left + 4, top + 20 + index * 12, line));
+
+  page.line(left, top + 96, middle, top + 96).line((left + middle) / 2, top + 96, (left + middle) / 2, top + 132);
+  label(left, top + 96, "PAYER'S TIN");
+  value(left, top + 96, formatEin(payer.tin));
+  label((left + middle) / 2, top + 96, "RECIPIENT'S TIN");
+  value((left + middle) / 2, top + 96, payee.tin ? maskTin(payee.tin, payee.tinType === 'EIN' ? 'EIN' : 'SSN') : 'Not provided');
+
+  page.line(left, top + 132, middle, top + 132);
+  label(left, top + 132, "RECIPIENT'S name");
+  value(left, top + 132, payee.name);
+  if (payee.secondName) {
+    page.text(left + 4, top + 160, payee.secondName);
+  }
+
+  page.line(left, top + 180, middle, top + 180);
+  label(left, top + 180, 'Street address (including apt. no.)');
+  value(left, top + 180, payee.address);
+
+  page.line(left, top + 216, middle, top + 216);
+  label(left, top + 216, 'City or town, state and ZIP code');
+  value(left, top + 216, `${payee.city}, ${payee.state} ${formatZip(payee.zip)}`);
+
+  page.line(left, top + 252, middle, top + 252);
+  label(left, top + 252, 'Account number (see instructions)');
+  value(left, top + 252, payee.accountNumber ?? '');
+
+  const boxes: [string, string][] = [
+    ['1 Nonemployee compensation', `$ ${formatUSD(payee.nonemployeeCompensation)}`],
+    ['2 Direct sales of $5,000 or more of consumer products for resale', ''],
+    ['3', ''],
+    ['4 Federal income tax withheld', `$ ${formatUSD(payee.federalTaxWithheld ?? BigInt(0))}`],
+    ['5 State tax withheld', ''],
+    ['6 State/Payer\'s state no.', ''],
+    ['7 State income', ''],
+  ];
+  boxes.forEach(([caption, amount], index) => {
+    const y = top + index * 46;
+    if (index > 0) {
+      page.line(middle, y, right, y);
+    }
+    label(middle, y, caption);
+    if (amount) {
+      value(middle, y, amount, 12);
+    }
+  });
+
+  page.text(left, top + 340, 'This is important tax information and is being furnished to the IRS. If you are required to file a', { size: 8 })
+    .text(left, top + 351, 'return, a negligence penalty or other sanction may be imposed on you if this income is taxable and the IRS', { size: 8 })
+    .text(left, top + 362, 'determines that it has not been reported.', { size: 8 })
+    .text(left, top + 384, `Form 1099-NEC ${options.taxYear}`, { size: 8 })
+    .text(middle, top + 384, 'Department of the Treasury - Internal Revenue Service', { size: 8 });
+
+  return doc.toBuffer();
+}
+
+function formatEin(tin: string): string {
+  const digits = tin.replace(/\D/g, '');
+  return digits.length === 9 ? `${digits.slice(0, 2)}-${digits.slice(2)}` : tin;
+}
+
+function formatZip(zip: string): string {
+  const digits = zip.replace(/\D/g, '');
+  return digits.length === 9 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : zip;
+}
@@ -0,0 +1,225 @@
+import { PrismaClient, VendorTaxForm, DisbursementStatus } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { decryptField } from '../field-encryption';
+import { FxRateService } from '../fx-rates';
+import { fromCents } from '../../adapters/finance';
+import { buildFireFile, FireFileOptions, FirePayee, FirePayer, FireTransmitter } from './fire';
+import { nameControl, validateTin, maskTin, TinType } from './tin';
+import { renderForm1099NecPdf } from './form-1099-pdf';
+
+export { buildFireFile, validateTin, maskTin, nameControl, renderForm1099NecPdf };
+export type { FireFileOptions, FirePayee, FirePayer, FireTransmitter, TinType };
+
+export interface TaxFormAddress {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+export interface VendorTaxYearSummary {
+  vendorId: number;
+  vendorName: string;
+  taxYear: number;
+  totalPaidCents: bigint; // USD
+  paymentCount: number;
+  payments: { disbursementId: number; amountCents: bigint; paidAt: Date }[];
+  taxForm: VendorTaxForm | null;
+  reportable: boolean;
+  reason?: string; // Why no 1099-NEC is due, or what is missing
+}
+
+// Disbursements that actually left the account
+const PAID_DISBURSEMENT_STATUSES: DisbursementStatus[] = ['CONFIRMED', 'RECONCILED'];
+
+// Entities the 1099-NEC instructions exempt from reporting
+const EXEMPT_CLASSIFICATIONS = ['C_CORPORATION', 'S_CORPORATION', 'LLC_C', 'LLC_S'];
+
+/**
+ * Box 1 reporting threshold in cents. Payments made after 2025 are reported
+ * from $2,000 instead of $600.
+ */
+export function necReportingThreshold(taxYear: number): bigint {
+  return taxYear >= 2026 ? BigInt(200000) : BigInt(60000);
+}
+
+/**
+ * Year-end 1099-NEC reporting from paid disbursements and the vendors' W-9s
+ */
+export class Form1099Service {
+  constructor(private prisma: PrismaClient) {}
+
+  async summarizeVendor(vendorId: number, taxYear: number): Promise<VendorTaxYearSummary> {
+    const [summary] = await this.summarize(taxYear, vendorId);
+    if (summary) {
+      return summary;
+    }
+
+    const vendor = await this.prisma.vendor.findUnique({ where: { id: vendorId } });
+    if (!vendor) {
+      throw new Error(`Vendor ${vendorId} not found`);
+    }
+    return {
+      vendorId,
+      vendorName: vendor.name,
+      taxYear,
+      totalPaidCents: BigInt(0),
+      paymentCount: 0,
+      payments: [],
+      taxForm: await this.activeTaxForm(vendorId),
+      reportable: false,
+      reason: `No payments in ${taxYear}`,
+    };
+  }
+
+  /**
+   * Payments per vendor for the calendar year, by the date the money was sent
+   */
+  async summarize(taxYear: number, vendorId?: number): Promise<VendorTaxYearSummary[]> {
+    const disbursements = await this.prisma.disbursement.findMany({
+      where: {
+        vendorId,
+        status: { in: PAID_DISBURSEMENT_STATUSES },
+        executedDate: {
+          gte: new Date(Date.UTC(taxYear, 0, 1)),
+          lt: new Date(Date.UTC(taxYear + 1, 0, 1)),
+        },
+      },
+      include: { vendor: true },
+      orderBy: [{ vendorId: 'asc' }, { executedDate: 'asc' }],
+    });
+
+    const fx = new FxRateService(this.prisma);
+    const byVendor = new Map<number, VendorTaxYearSummary>();
+
+    for (const disbursement of disbursements) {
+      // Reported in USD at the rate snapshotted when the payment was scheduled
+      const { amount } = await fx.convert(
+        fromCents(disbursement.amountCents, disbursement.currency),
+        'USD',
+        disbursement.executedDate!,
+        disbursement
+      );
+
+      let summary = byVendor.get(disbursement.vendorId);
+      if (!summary) {
+        summary = {
+          vendorId: disbursement.vendorId,
+          vendorName: disbursement.vendor.legalName ?? disbursement.vendor.name,
+          taxYear,
+          totalPaidCents: BigInt(0),
+          paymentCount: 0,
+          payments: [],
+          taxForm: null,
+          reportable: false,
+        };
+        byVendor.set(disbursement.vendorId, summary);
+      }
+
+      summary.totalPaidCents += amount;
+      summary.paymentCount++;
+      summary.payments.push({ disbursementId: disbursement.id, amountCents: amount, paidAt: disbursement.executedDate! });
+    }
+
+    const summaries = [...byVendor.values()];
+    const threshold = necReportingThreshold(taxYear);
+
+    for (const summary of summaries) {
+      summary.taxForm = await this.activeTaxForm(summary.vendorId);
+      const form = summary.taxForm;
+
+      if (summary.totalPaidCents < threshold) {
+        summary.reason = `Paid less than $${Number(threshold / BigInt(100))} in ${taxYear}`;
+      } else if (form?.formType === 'W8BEN') {
+        summary.reason = 'Foreign person on Form W-8BEN; report on Form 1042-S instead';
+      } else if (form && EXEMPT_CLASSIFICATIONS.includes(form.taxClassification)) {
+        summary.reason = 'Corporations are exempt from 1099-NEC reporting';
+      } else {
+        summary.reportable = true;
+        if (!form) {
+          summary.reason = 'No W-9 on file; the return is filed without a TIN';
+        }
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Build the FIRE e-file for every reportable vendor
+   */
+  async generateFireFile(
+    taxYear: number,
+    transmitter: FireTransmitter,
+    payer: FirePayer,
+    options: Omit<FireFileOptions, 'taxYear'> = {}
+  ) {
+    const summaries = (await this.summarize(taxYear)).filter(summary => summary.reportable);
+    if (summaries.length === 0) {
+      throw new Error(`No vendors require a 1099-NEC for ${taxYear}`);
+    }
+
+    const vendors = await this.prisma.vendor.findMany({
+      where: { id: { in: summaries.map(summary => summary.vendorId) } },
+    });
+    const payees = summaries.map(summary => this.toPayee(summary, vendors.find((v: any) => v.id === summary.vendorId)));
+    const file = buildFireFile(transmitter, payer, payees, { ...options, taxYear });
+    const missingTin = summaries.filter(summary => !summary.taxForm).map(summary => summary.vendorId);
+
+    logger.info('Generated 1099-NEC FIRE file', {
+      taxYear,
+      payeeCount: file.payeeCount,
+      totalCompensation: file.totalCompensation.toString(),
+      missingTin,
+      testFile: options.testFile ?? false,
+    });
+
+    return {
+      fileName: `1099NEC_${taxYear}_${transmitter.tcc.toUpperCase()}${options.testFile ? '_TEST' : ''}.txt`,
+      ...file,
+      missingTin,
+    };
+  }
+
+  /**
+   * Recipient copy (Copy B) of a vendor's 1099-NEC
+   */
+  async renderRecipientCopy(vendorId: number, taxYear: number, payer: FirePayer): Promise<Buffer> {
+    const summary = await this.summarizeVendor(vendorId, taxYear);
+    if (!summary.reportable) {
+      throw new Error(`Vendor ${vendorId} does not require a 1099-NEC for ${taxYear}: ${summary.reason}`);
+    }
+
+    const vendor = await this.prisma.vendor.findUnique({ where: { id: vendorId } });
+    return renderForm1099NecPdf(payer, this.toPayee(summary, vendor), { taxYear, copy: 'B' });
+  }
+
+  async activeTaxForm(vendorId: number): Promise<VendorTaxForm | null> {
+    return this.prisma.vendorTaxForm.findFirst({
+      where: { vendorId, status: 'ACTIVE' },
+      orderBy: { signedAt: 'desc' },
+    });
+  }
+
+  private toPayee(summary: VendorTaxYearSummary, vendor: any): FirePayee {
+    const form = summary.taxForm;
+    const address = (form?.address ?? vendor?.address ?? {}) as Partial<TaxFormAddress>;
+    const individual = form?.taxClassification === 'INDIVIDUAL';
+    const name = form?.legalName ?? summary.vendorName;
+
+    return {
+      tinType: form?.tinType === 'EIN' ? 'EIN' : form?.tinType ? 'SSN' : undefined,
+      tin: form?.tinEncrypted ? decryptField(form.tinEncrypted) : undefined,
+      nameControl: nameControl(name, individual),
+      name,
+      secondName: form?.businessName ?? undefined,
+      address: address.street ?? '',
+      city: address.city ?? '',
+      state: address.state ?? '',
+      zip: address.zip ?? '',
+      accountNumber: `V${summary.vendorId}`,
+      nonemployeeCompensation: summary.totalPaidCents,
+    };
+  }
+}
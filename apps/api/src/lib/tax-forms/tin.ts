@@ -0,0 +1,90 @@
+/**
+ * Taxpayer identification numbers
+ *
+ * Structural checks for SSNs, ITINs and EINs as entered on a W-9. These catch
+ * typos and numbers the IRS never issues; they do not confirm that the number
+ * belongs to the named payee (that needs the IRS TIN Matching program).
+ */
+
+export type TinType = 'SSN' | 'EIN' | 'ITIN';
+
+export interface TinValidation {
+  valid: boolean;
+  tin: string; // Nine digits, no separators
+  reason?: string;
+}
+
+// EIN prefixes assigned by IRS campuses and the online application
+const VALID_EIN_PREFIXES = new Set([
+  '01', '02', '03', '04', '05', '06', '10', '11', '12', '13', '14', '15', '16',
+  '20', '21', '22', '23', '24', '25', '26', '27', '30', '31', '32', '33', '34',
+  '35', '36', '37', '38', '39', '40', '41', '42', '43', '44', '45', '46', '47',
+  '48', '50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61',
+  '62', '63', '64', '65', '66', '67', '68', '71', '72', '73', '74', '75', '76',
+  '77', '80', '81', '82', '83', '84', '85', '86', '87', '88', '90', '91', '92',
+  '93', '94', '95', '98', '99',
+]);
+
+export function validateTin(value: string, type: TinType): TinValidation {
+  const tin = value.replace(/[\s-]/g, '');
+  if (!/^\d{9}$/.test(tin)) {
+    return { valid: false, tin, reason: `${type} must be 9 digits` };
+  }
+  if (/^(\d)\1{8}$/.test(tin) || tin === '123456789') {
+    return { valid: false, tin, reason: `${type} ${maskTin(tin, type)} is a placeholder number` };
+  }
+
+  const area = Number(tin.slice(0, 3));
+  const group = tin.slice(3, 5);
+  const serial = tin.slice(5);
+
+  switch (type) {
+    case 'SSN':
+      if (area === 0 || area === 666 || area >= 900) {
+        return { valid: false, tin, reason: 'SSN area number is never issued' };
+      }
+      if (group === '00' || serial === '0000') {
+        return { valid: false, tin, reason: 'SSN group or serial number is zero' };
+      }
+      return { valid: true, tin };
+
+    case 'ITIN': {
+      const middle = Number(group);
+      const issuedMiddle = (middle >= 50 && middle <= 65) || (middle >= 70 && middle <= 88) ||
+        (middle >= 90 && middle <= 92) || (middle >= 94 && middle <= 99);
+      if (tin[0] !== '9' || !issuedMiddle) {
+        return { valid: false, tin, reason: 'ITIN must start with 9 and have a middle group of 50-65, 70-88, 90-92 or 94-99' };
+      }
+      return { valid: true, tin };
+    }
+
+    case 'EIN':
+      if (!VALID_EIN_PREFIXES.has(tin.slice(0, 2))) {
+        return { valid: false, tin, reason: `EIN prefix ${tin.slice(0, 2)} is not assigned by the IRS` };
+      }
+      return { valid: true, tin };
+  }
+}
+
+export function maskTin(tin: string, type: TinType | 'FOREIGN'): string {
+  const last4 = tin.slice(-4);
+  if (type === 'EIN') return `**-***${last4}`;
+  if (type === 'FOREIGN') return `****${last4}`;
+  return `***-**-${last4}`;
+}
+
+const NAME_SUFFIXES = new Set(['JR', 'SR', 'II', 'III', 'IV']);
+
+/**
+ * IRS name control: the first four significant characters of the payee's
+ * surname (individuals) or business name, used by the IRS to match TINs
+ */
+export function nameControl(name: string, individual: boolean): string {
+  let words = name.toUpperCase().replace(/[^A-Z0-9&\- ]/g, '').split(/\s+/).filter(Boolean);
+  if (individual) {
+    words = words.filter(word => !NAME_SUFFIXES.has(word)).slice(-1);
+  } else if (words.length > 1 && words[0] === 'THE') {
+    words = words.slice(1);
+  }
+  return words.join('').slice(0, 4);
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import { PrismaClient, VendorInvite } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { getEnv } from '../types/env.js';
+import { IPFSClient } from './ipfs-client';
+import {
+  BankDetails,
+  TaxFormSubmission,
+  VendorService,
+  maskBankDetails,
+  maskTaxForm,
+} from './vendor';
+
+export interface PortalDocumentUpload {
+  fileName: string;
+  mimeType: string;
+  documentType: string;
+  content: Buffer;
+  issueDate?: Date;
+  expiryDate?: Date;
+  issuingAuthority?: string;
+}
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const ALLOWED_DOCUMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+/**
+ * Hash of an invite token; only the hash is stored so a database read does
+ * not reveal working links
+ */
+export function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Self-service onboarding for vendors. Staff send an invite link; the vendor
+ * uses the token in it to submit a W-9 or W-8BEN, bank details and KYC
+ * documents, then hands the application back for review.
+ */
+export class VendorPortalService {
+  private vendors: VendorService;
+
+  constructor(private prisma: PrismaClient, private ipfsClient?: IPFSClient) {
+    this.vendors = new VendorService(prisma);
+  }
+
+  async createInvite(vendorId: number, email: string, createdBy: number | string) {
+    const vendor = await this.prisma.vendor.findUnique({ where: { id: vendorId } });
+    if (!vendor) {
+      throw new Error(`Vendor ${vendorId} not found`);
+    }
+
+    const env = getEnv();
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + env.VENDOR_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const invite = await this.prisma.vendorInvite.create({
+      data: {
+        vendorId,
+        email,
+        tokenHash: hashInviteToken(token),
+        expiresAt,
+        createdBy: String(createdBy),
+      },
+    });
+
+    logger.info('Vendor portal invite created', { vendorId, inviteId: invite.id, expiresAt });
+
+    const url = new URL(env.VENDOR_PORTAL_URL);
+    url.searchParams.set('invite', token);
+    return { invite, inviteUrl: url.toString(), expiresAt };
+  }
+
+  async revokeInvite(vendorId: number, inviteId: number) {
+    const invite = await this.prisma.vendorInvite.findFirst({ where: { id: inviteId, vendorId } });
+    if (!invite) {
+      throw new Error(`Invite ${inviteId} not found`);
+    }
+
+    await this.prisma.vendorInvite.update({
+      where: { id: inviteId },
+      data: { revokedAt: new Date() },
+    });
+    logger.info('Vendor portal invite revoked', { vendorId, inviteId });
+  }
+
+  /**
+   * Look up a live invite from its token. The first visit marks it accepted.
+   */
+  async resolveInvite(token: string): Promise<VendorInvite> {
+    const invite = await this.prisma.vendorInvite.findUnique({ where: { tokenHash: hashInviteToken(token) } });
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+    if (invite.revokedAt) {
+      throw new Error('Invite has been revoked');
+    }
+    if (invite.completedAt) {
+      throw new Error('Invite has already been completed');
+    }
+    if (invite.expiresAt <= new Date()) {
+      throw new Error('Invite has expired');
+    }
+
+    if (!invite.acceptedAt) {
+      return this.prisma.vendorInvite.update({
+        where: { id: invite.id },
+        data: { acceptedAt: new Date() },
+      });
+    }
+    return invite;
+  }
+
+  async getOnboardingStatus(token: string) {
+    const invite = await this.resolveInvite(token);
+    const [vendor, taxForm, documents] = await Promise.all([
+      this.prisma.vendor.findUnique({ where: { id: invite.vendorId } }),
+      this.vendors.getTaxForm(invite.vendorId),
+      this.prisma.vendorDocument.findMany({
+        where: { vendorId: invite.vendorId },
+        orderBy: { uploadedAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      vendorName: vendor!.name,
+      email: invite.email,
+      expiresAt: invite.expiresAt,
+      taxForm: maskTaxForm(taxForm),
+      bankDetails: maskBankDetails(vendor!.bankDetails),
+      documents: documents.map((document: any) => ({
+        id: document.id,
+        documentType: document.documentType,
+        fileName: document.originalFileName,
+        uploadedAt: document.uploadedAt,
+        expiryDate: document.expiryDate,
+      })),
+    };
+  }
+
+  async submitTaxForm(token: string, submission: TaxFormSubmission, signerIp?: string) {
+    const invite = await this.resolveInvite(token);
+    const form = await this.vendors.submitTaxForm(invite.vendorId, submission, {
+      submittedVia: 'PORTAL',
+      inviteId: invite.id,
+      signerIp,
+    });
+    return maskTaxForm(form);
+  }
+
+  async setBankDetails(token: string, details: BankDetails) {
+    const invite = await this.resolveInvite(token);
+    return this.vendors.setBankDetails(invite.vendorId, details);
+  }
+
+  /**
+   * Pin a KYC document to IPFS and attach it to the vendor
+   */
+  async uploadDocument(token: string, upload: PortalDocumentUpload) {
+    if (!this.ipfsClient) {
+      throw new Error('Document storage is not configured');
+    }
+    if (!ALLOWED_DOCUMENT_TYPES.includes(upload.mimeType)) {
+      throw new Error(`Unsupported document type ${upload.mimeType}`);
+    }
+    if (upload.content.length === 0 || upload.content.length > MAX_DOCUMENT_BYTES) {
+      throw new Error('Document must be between 1 byte and 10 MB');
+    }
+
+    const invite = await this.resolveInvite(token);
+    const storedName = `vendor-${invite.vendorId}-${Date.now()}-${upload.fileName.replace(/[^\w.-]/g, '_')}`;
+    const result = await this.ipfsClient.uploadEvidenceFile(upload.content, storedName, {
+      vendorId: invite.vendorId,
+      documentType: upload.documentType,
+    });
+
+    const document = await this.prisma.vendorDocument.create({
+      data: {
+        vendorId: invite.vendorId,
+        fileName: storedName,
+        originalFileName: upload.fileName,
+        fileHash: result.hash,
+        ipfsCid: result.cid,
+        fileSize: BigInt(result.size),
+        mimeType: upload.mimeType,
+        documentType: upload.documentType,
+        issueDate: upload.issueDate,
+        expiryDate: upload.expiryDate,
+        issuingAuthority: upload.issuingAuthority,
+      },
+    });
+
+    logger.info('Vendor document uploaded', {
+      vendorId: invite.vendorId,
+      documentId: document.id,
+      documentType: upload.documentType,
+      cid: result.cid,
+    });
+
+    return { id: document.id, documentType: document.documentType, ipfsCid: result.cid, fileHash: result.hash };
+  }
+
+  /**
+   * Hand the application to compliance. A tax form and a way to pay the
+   * vendor are required; the invite cannot be used afterwards.
+   */
+  async completeOnboarding(token: string) {
+    const invite = await this.resolveInvite(token);
+    const [vendor, taxForm] = await Promise.all([
+      this.prisma.vendor.findUnique({ where: { id: invite.vendorId } }),
+      this.vendors.getTaxForm(invite.vendorId),
+    ]);
+
+    if (!taxForm) {
+      throw new Error('A W-9 or W-8BEN must be submitted before completing onboarding');
+    }
+    if (!vendor!.bankDetails && !vendor!.cryptoAddress) {
+      throw new Error('Bank details must be provided before completing onboarding');
+    }
+
+    const now = new Date();
+    await this.prisma.$transaction([
+      this.prisma.vendorInvite.update({ where: { id: invite.id }, data: { completedAt: now } }),
+      this.prisma.vendor.update({ where: { id: invite.vendorId }, data: { kycStatus: 'UNDER_REVIEW' } }),
+    ]);
+
+    logger.info('Vendor onboarding completed', { vendorId: invite.vendorId, inviteId: invite.id });
+    return { vendorId: invite.vendorId, kycStatus: 'UNDER_REVIEW', completedAt: now };
+  }
+}
@@ -1,5 +1,9 @@
-// Placeholder vendor service - models don't exist in schema yet
+import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { encryptField, decryptField, isEncryptedField } from './field-encryption';
+import { isValidRoutingNumber } from './payment-rails/nacha';
+import { Form1099Service, TaxFormAddress, TinType, maskTin, validateTin } from './tax-forms';
+import type { SanctionsScreeningService } from './sanctions';
 
 export interface VendorCreateRequest {
   name: string;
@@ -7,19 +11,15 @@ export interface VendorCreateRequest {
   email?: string;
   phone?: string;
   website?: string;
-  address?: {
-    street: string;
-    city: string;
-    state: string;
-    zip: string;
-    country: string;
-  };
+  address?: TaxFormAddress;
   taxStatus?: string;
   taxId?: string;
-  bankMethod?: string;
+  paymentMethod?: string;
+  bankDetails?: Partial<BankDetails>;
   cryptoAddress?: string;
+  safeAddress?: string;
   notes?: string;
-  createdBy: number;
+  createdBy: number | string;
 }
 
 export interface FileUpload {
@@ -28,54 +28,251 @@ export interface FileUpload {
   fileHash: string;
   ipfsCid?: string;
   fileSize: bigint;
+  mimeType?: string;
+  documentType: string;
+  issueDate?: Date;
+  expiryDate?: Date;
+  issuingAuthority?: string;
+}
+
+export interface KYCDecision {
+  approved: boolean;
+  notes?: string;
+  reviewedBy: number | string;
+}
+
+export interface BankDetails {
+  routingNumber: string;
+  accountNumber: string;
+  accountType: 'CHECKING' | 'SAVINGS';
+  bankName?: string;
+  accountHolderName?: string;
+}
+
+export type W9TaxClassification =
+  | 'INDIVIDUAL' // Individual/sole proprietor
+  | 'C_CORPORATION'
+  | 'S_CORPORATION'
+  | 'PARTNERSHIP'
+  | 'TRUST_ESTATE'
+  | 'LLC_C'
+  | 'LLC_S'
+  | 'LLC_P'
+  | 'OTHER';
+
+export interface TaxFormSubmission {
+  formType: 'W9' | 'W8BEN';
+  legalName: string;
+  businessName?: string; // W-9 line 2, e.g. a disregarded entity or DBA
+  taxClassification: W9TaxClassification;
+  tinType?: TinType;
+  tin?: string;
+  foreignTin?: string; // W-8BEN line 6a
+  exemptPayeeCode?: string;
+  fatcaExemptionCode?: string;
+  subjectToBackupWithholding?: boolean; // Item 2 of the W-9 certification was crossed out
+  countryOfCitizenship?: string; // W-8BEN, ISO 3166 alpha-2
+  address: TaxFormAddress;
+  signatureName: string;
+  certified: boolean; // Signed under penalties of perjury
+}
+
+export interface TaxFormSubmissionContext {
+  submittedVia: 'PORTAL' | 'STAFF';
+  inviteId?: number;
+  signerIp?: string;
+}
+
+// Entities that must give an EIN on a W-9
+const EIN_ONLY_CLASSIFICATIONS: W9TaxClassification[] = [
+  'C_CORPORATION', 'S_CORPORATION', 'PARTNERSHIP', 'TRUST_ESTATE', 'LLC_C', 'LLC_S', 'LLC_P',
+];
+
+/**
+ * Encrypt the account number before bank details are written to the vendor.
+ * The last four digits stay readable for display and matching.
+ */
+export function sealBankDetails(details: Partial<BankDetails>): Record<string, unknown> {
+  const { accountNumber, ...rest } = details;
+  if (!accountNumber) {
+    return rest;
+  }
+  if (isEncryptedField(accountNumber)) {
+    return { ...rest, accountNumber };
+  }
+  const digits = accountNumber.replace(/\s/g, '');
+  return { ...rest, accountNumber: encryptField(digits), accountLast4: digits.slice(-4) };
+}
+
+/**
+ * Bank details with the account number decrypted. Rows written before
+ * encryption was introduced hold plaintext and pass through unchanged.
+ */
+export function openBankDetails(stored: unknown): (BankDetails & { accountLast4?: string }) | null {
+  if (!stored || typeof stored !== 'object') {
+    return null;
+  }
+  const details = stored as BankDetails & { accountLast4?: string };
+  if (details.accountNumber && isEncryptedField(details.accountNumber)) {
+    return { ...details, accountNumber: decryptField(details.accountNumber) };
+  }
+  return details;
+}
+
+export function maskBankDetails(stored: unknown) {
+  if (!stored || typeof stored !== 'object') {
+    return null;
+  }
+  const details = stored as Partial<BankDetails> & { accountLast4?: string };
+  const last4 = details.accountLast4 ??
+    (details.accountNumber && !isEncryptedField(details.accountNumber) ? details.accountNumber.slice(-4) : undefined);
+  return {
+    routingNumber: details.routingNumber ?? null,
+    accountType: details.accountType ?? null,
+    bankName: details.bankName ?? null,
+    accountNumberMasked: last4 ? `****${last4}` : null,
+  };
+}
+
+export function maskTaxForm(form: any) {
+  if (!form) {
+    return null;
+  }
+  return {
+    id: form.id,
+    formType: form.formType,
+    legalName: form.legalName,
+    businessName: form.businessName,
+    taxClassification: form.taxClassification,
+    tinType: form.tinType,
+    tinMasked: form.tinLast4 ? maskTin(form.tinLast4, form.tinType ?? 'SSN') : null,
+    backupWithholding: form.backupWithholding,
+    countryOfCitizenship: form.countryOfCitizenship,
+    signatureName: form.signatureName,
+    signedAt: form.signedAt.toISOString(),
+    submittedVia: form.submittedVia,
+  };
 }
 
 export class VendorService {
-  
+  constructor(
+    private prisma: PrismaClient,
+    private screening?: Pick<SanctionsScreeningService, 'screen'>
+  ) {}
+
   async createVendor(data: VendorCreateRequest) {
-    logger.info('Creating vendor (placeholder)', { name: data.name });
-    // Return mock vendor data since models don't exist
-    return {
-      id: 1,
-      name: data.name,
-      legalName: data.legalName,
-      email: data.email,
-      phone: data.phone,
-      website: data.website,
-      status: 'ACTIVE',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const existing = await this.prisma.vendor.findFirst({ where: { name: data.name } });
+    if (existing) {
+      throw new Error(`Vendor with name "${data.name}" already exists`);
+    }
+
+    const { taxId, bankDetails, address, createdBy, ...fields } = data;
+    const vendor = await this.prisma.vendor.create({
+      data: {
+        ...fields,
+        address: address as any,
+        taxId: taxId ? encryptField(taxId.replace(/[\s-]/g, '')) : undefined,
+        bankDetails: bankDetails ? sealBankDetails(bankDetails) as any : undefined,
+        status: 'PENDING',
+        kycStatus: 'PENDING',
+        createdBy: String(createdBy),
+      },
+    });
+
+    logger.info('Vendor created', { vendorId: vendor.id, name: vendor.name });
+    return vendor;
   }
 
   async submitKYCDocuments(vendorId: number, documents: FileUpload[]) {
-    logger.info('Submitting KYC documents (placeholder)', { vendorId, count: documents.length });
-    return { success: true };
+    await this.getVendor(vendorId);
+
+    for (const document of documents) {
+      await this.prisma.vendorDocument.create({
+        data: { vendorId, ...document },
+      });
+    }
+
+    await this.prisma.vendor.update({
+      where: { id: vendorId },
+      data: { kycStatus: 'UNDER_REVIEW' },
+    });
+
+    logger.info('KYC documents submitted', { vendorId, count: documents.length });
   }
 
-  async approveKYC(vendorId: number, reviewNotes?: string) {
-    logger.info('Approving KYC (placeholder)', { vendorId });
-    return { success: true };
+  async reviewKYCStatus(vendorId: number, decision: KYCDecision) {
+    await this.getVendor(vendorId);
+
+    const data = decision.approved
+      ? { kycStatus: 'APPROVED', status: 'ACTIVE', kycApprovedAt: new Date(), kycApprovedBy: String(decision.reviewedBy) }
+      : { kycStatus: 'REJECTED', status: 'PENDING', kycRejectedAt: new Date(), kycRejectedBy: String(decision.reviewedBy) };
+
+    await this.prisma.vendor.update({ where: { id: vendorId }, data });
+
+    logger.info('KYC reviewed', { vendorId, approved: decision.approved, notes: decision.notes });
   }
 
-  async rejectKYC(vendorId: number, reviewNotes?: string) {
-    logger.info('Rejecting KYC (placeholder)', { vendorId });
-    return { success: true };
+  async approveKYC(vendorId: number, reviewedBy: number | string, notes?: string) {
+    return this.reviewKYCStatus(vendorId, { approved: true, notes, reviewedBy });
   }
 
-  async reviewKYCStatus(vendorId: number, status: string, notes?: string) {
-    logger.info('Reviewing KYC status (placeholder)', { vendorId, status });
-    return { success: true };
+  async rejectKYC(vendorId: number, reviewedBy: number | string, notes?: string) {
+    return this.reviewKYCStatus(vendorId, { approved: false, notes, reviewedBy });
   }
 
-  async updateComplianceStatus(vendorId: number, status: any) {
-    logger.info('Updating compliance status (placeholder)', { vendorId, status });
-    return { success: true };
+  async updateComplianceStatus(
+    vendorId: number,
+    checks: { sanctionsStatus?: string; debarmentStatus?: string; notes?: string; reviewedBy: number | string }
+  ) {
+    await this.getVendor(vendorId);
+
+    const now = new Date();
+    await this.prisma.vendor.update({
+      where: { id: vendorId },
+      data: {
+        ...(checks.sanctionsStatus && { sanctionsStatus: checks.sanctionsStatus, sanctionsCheckedAt: now }),
+        ...(checks.debarmentStatus && { debarmentStatus: checks.debarmentStatus, debarmentCheckedAt: now }),
+      },
+    });
+
+    logger.info('Compliance status updated', { vendorId, ...checks });
   }
 
-  async runSanctionsCheck(vendorId: number) {
-    logger.info('Running sanctions check (placeholder)', { vendorId });
-    return { success: true, result: 'CLEAR' };
+  /**
+   * Screen the vendor's names and wallet against the OFAC lists. Any hit
+   * leaves the vendor PENDING_REVIEW (name match) or FLAGGED (listed wallet)
+   * until compliance reviews it.
+   */
+  async runSanctionsCheck(vendorId: number, actor: number | string = 'system') {
+    if (!this.screening) {
+      throw new Error('Sanctions screening is not configured');
+    }
+
+    const vendor = await this.getVendor(vendorId);
+    const taxForm = await this.getTaxForm(vendorId);
+
+    const result = await this.screening.screen({
+      subjectType: 'VENDOR',
+      subjectRef: String(vendorId),
+      names: [vendor.name, vendor.legalName, taxForm?.legalName, taxForm?.businessName],
+      addresses: [vendor.cryptoAddress],
+      actor: String(actor),
+    });
+
+    const sanctionsStatus = { CLEAR: 'CLEAR', HOLD: 'PENDING_REVIEW', BLOCK: 'FLAGGED' }[result.decision];
+    await this.prisma.vendor.update({
+      where: { id: vendorId },
+      data: { sanctionsStatus, sanctionsCheckedAt: result.screenedAt },
+    });
+
+    logger.info('Sanctions check completed', { vendorId, sanctionsStatus, hits: result.hits.length });
+
+    return {
+      vendorId,
+      sanctionsStatus,
+      checkedAt: result.screenedAt,
+      hits: result.hits,
+    };
   }
 
   async runDebarmentCheck(vendorId: number) {
@@ -83,10 +280,160 @@ export class VendorService {
     return { success: true, result: 'CLEAR' };
   }
 
+  /**
+   * Record a signed W-9 or W-8BEN. The vendor's previous form is superseded;
+   * the TIN is stored encrypted with only its last four digits in the clear.
+   */
+  async submitTaxForm(vendorId: number, submission: TaxFormSubmission, context: TaxFormSubmissionContext) {
+    await this.getVendor(vendorId);
+
+    if (!submission.certified) {
+      throw new Error('Tax form must be certified under penalties of perjury');
+    }
+
+    let tinType: string | undefined;
+    let tin: string | undefined;
+
+    if (submission.formType === 'W9') {
+      if (!submission.tin || !submission.tinType) {
+        throw new Error('W-9 requires a taxpayer identification number');
+      }
+      if (EIN_ONLY_CLASSIFICATIONS.includes(submission.taxClassification) && submission.tinType !== 'EIN') {
+        throw new Error(`${submission.taxClassification} must provide an EIN`);
+      }
+      const validation = validateTin(submission.tin, submission.tinType);
+      if (!validation.valid) {
+        throw new Error(`Invalid TIN: ${validation.reason}`);
+      }
+      tinType = submission.tinType;
+      tin = validation.tin;
+    } else {
+      const country = submission.countryOfCitizenship?.toUpperCase();
+      if (!country || !/^[A-Z]{2}$/.test(country)) {
+        throw new Error('W-8BEN requires a country of citizenship');
+      }
+      if (country === 'US') {
+        throw new Error('U.S. persons must submit a W-9');
+      }
+      if (submission.tin && submission.tinType) {
+        // A U.S. SSN or ITIN takes the place of the foreign TIN when the payee has one
+        const validation = validateTin(submission.tin, submission.tinType);
+        if (!validation.valid) {
+          throw new Error(`Invalid TIN: ${validation.reason}`);
+        }
+        tinType = submission.tinType;
+        tin = validation.tin;
+      } else if (submission.foreignTin) {
+        tinType = 'FOREIGN';
+        tin = submission.foreignTin.replace(/\s/g, '');
+      }
+    }
+
+    const now = new Date();
+    const form = await this.prisma.$transaction(async tx => {
+      await tx.vendorTaxForm.updateMany({
+        where: { vendorId, status: 'ACTIVE' },
+        data: { status: 'SUPERSEDED', supersededAt: now },
+      });
+
+      const created = await tx.vendorTaxForm.create({
+        data: {
+          vendorId,
+          formType: submission.formType,
+          legalName: submission.legalName,
+          businessName: submission.businessName,
+          taxClassification: submission.formType === 'W8BEN' ? 'INDIVIDUAL' : submission.taxClassification,
+          tinType,
+          tinEncrypted: tin ? encryptField(tin) : undefined,
+          tinLast4: tin?.slice(-4),
+          exemptPayeeCode: submission.exemptPayeeCode,
+          fatcaExemptionCode: submission.fatcaExemptionCode,
+          backupWithholding: submission.subjectToBackupWithholding ?? false,
+          countryOfCitizenship: submission.countryOfCitizenship?.toUpperCase(),
+          address: submission.address as any,
+          signatureName: submission.signatureName,
+          signedAt: now,
+          signerIp: context.signerIp,
+          submittedVia: context.submittedVia,
+          inviteId: context.inviteId,
+          status: 'ACTIVE',
+        },
+      });
+
+      await tx.vendor.update({
+        where: { id: vendorId },
+        data: {
+          legalName: submission.legalName,
+          taxStatus: submission.formType === 'W8BEN' ? 'FOREIGN' : submission.taxClassification,
+          taxId: created.tinEncrypted,
+        },
+      });
+
+      return created;
+    });
+
+    logger.info('Tax form submitted', {
+      vendorId,
+      formType: form.formType,
+      tinType,
+      submittedVia: context.submittedVia,
+    });
+
+    return form;
+  }
+
+  async getTaxForm(vendorId: number) {
+    await this.getVendor(vendorId);
+    return new Form1099Service(this.prisma).activeTaxForm(vendorId);
+  }
+
+  async setBankDetails(vendorId: number, details: BankDetails) {
+    await this.getVendor(vendorId);
+
+    const routingNumber = details.routingNumber.replace(/\D/g, '');
+    if (!isValidRoutingNumber(routingNumber)) {
+      throw new Error('Invalid routing number');
+    }
+    const accountNumber = details.accountNumber.replace(/\s/g, '');
+    if (!/^\d{4,17}$/.test(accountNumber)) {
+      throw new Error('Account number must be 4-17 digits');
+    }
+
+    const vendor = await this.prisma.vendor.update({
+      where: { id: vendorId },
+      data: {
+        bankDetails: sealBankDetails({ ...details, routingNumber, accountNumber }) as any,
+        paymentMethod: 'ACH',
+      },
+    });
+
+    logger.info('Vendor bank details updated', { vendorId, accountLast4: accountNumber.slice(-4) });
+    return maskBankDetails(vendor.bankDetails);
+  }
+
   async generate1099Data(vendorId: number, year: number) {
-    logger.info('Generating 1099 data (placeholder)', { vendorId, year });
-    return { success: true, data: {} };
+    const summary = await new Form1099Service(this.prisma).summarizeVendor(vendorId, year);
+    const form = summary.taxForm;
+
+    return {
+      vendorId,
+      taxYear: year,
+      vendorName: form?.legalName ?? summary.vendorName,
+      taxId: form?.tinLast4 ? maskTin(form.tinLast4, (form.tinType as TinType | 'FOREIGN') ?? 'SSN') : '',
+      vendorAddress: form?.address ?? null,
+      totalPaid: summary.totalPaidCents,
+      payments: summary.payments,
+      backupWithholding: form?.backupWithholding ?? false,
+      requires1099: summary.reportable,
+      reason: summary.reason,
+    };
   }
-}
 
-export const vendorService = new VendorService();
\ No newline at end of file
+  private async getVendor(vendorId: number) {
+    const vendor = await this.prisma.vendor.findUnique({ where: { id: vendorId } });
+    if (!vendor) {
+      throw new Error(`Vendor ${vendorId} not found`);
+    }
+    return vendor;
+  }
+}
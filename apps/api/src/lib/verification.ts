@@ -46,6 +46,8 @@ export interface VerificationCalculation {
 
 export interface MethodologyHandler {
   methodId: string;
+  // VerificationMethod.methodologyType values this handler serves
+  methodologyType: string;
   validate(request: VerificationRequest, evidence: EvidenceFile[]): Promise<VerificationCalculation>;
   getRequiredEvidenceTypes(): string[];
   getMinimumConfidence(): number;
@@ -56,6 +58,7 @@ export class VerificationService {
   private logger: FastifyBaseLogger;
   private config: VerificationServiceConfig;
   private methodologyHandlers: Map<string, MethodologyHandler> = new Map();
+  private methodologyTypeHandlers: Map<string, MethodologyHandler> = new Map();
   private ipfsClient?: IPFSClient;
   private evidencePipeline: EvidenceValidationPipeline;
   private queueService?: QueueService;
@@ -80,7 +83,20 @@ export class VerificationService {
    */
   registerMethodology(handler: MethodologyHandler) {
     this.methodologyHandlers.set(handler.methodId, handler);
-    this.logger.info({ methodId: handler.methodId }, 'Registered verification methodology');
+    this.methodologyTypeHandlers.set(handler.methodologyType.toUpperCase(), handler);
+    this.logger.info({
+      methodId: handler.methodId,
+      methodologyType: handler.methodologyType
+    }, 'Registered verification methodology');
+  }
+
+  /**
+   * Resolve the handler for a verification method: an exact methodId match
+   * wins, otherwise the handler registered for its methodologyType
+   */
+  getMethodologyHandler(method: Pick<VerificationMethod, 'methodId' | 'methodologyType'>): MethodologyHandler | undefined {
+    return this.methodologyHandlers.get(method.methodId) ??
+      this.methodologyTypeHandlers.get(method.methodologyType.toUpperCase());
   }
 
   /**
@@ -331,7 +347,7 @@ export class VerificationService {
       where: { id: verificationResultId },
       include: {
         evidenceFiles: true,
-        verificationMethod: true,
+        method: true,
         liftToken: true
       }
     });
@@ -341,9 +357,11 @@ export class VerificationService {
     }
 
     // Get methodology handler
-    const handler = this.methodologyHandlers.get(verificationResult.methodId);
+    const handler = this.getMethodologyHandler(verificationResult.method);
     if (!handler) {
-      throw new Error(`No handler registered for methodology ${verificationResult.methodId}`);
+      throw new Error(
+        `No handler registered for methodology ${verificationResult.methodId} (${verificationResult.method.methodologyType})`
+      );
     }
 
     // Update status to in review
@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { EvidenceFile } from '@orenna/db';
+import { MethodologyHandler, VerificationRequest, VerificationCalculation } from '../verification.js';
+
+export interface InventoryTree {
+  dbh: number;          // Diameter at breast height (cm)
+  height?: number;      // Total height (m)
+  woodDensity?: number; // Basic wood density (g/cm3)
+  species?: string;
+}
+
+export interface InventoryPlot {
+  plotId?: string;
+  plotArea: number; // Plot area (hectares)
+  trees: InventoryTree[];
+}
+
+export interface SoilSample {
+  sampleId?: string;
+  organicCarbonPercent: number;   // Soil organic carbon (% by mass)
+  bulkDensity: number;            // Bulk density (g/cm3)
+  depth: number;                  // Sampling depth (cm)
+  coarseFragmentPercent?: number; // Coarse fragments > 2mm (% by volume)
+}
+
+export interface CarbonCalculationInputs {
+  projectArea: number; // Project area (hectares)
+  plots: InventoryPlot[];
+  soilSamples: SoilSample[];
+  baseline: {
+    biomassCarbon: number; // Baseline biomass stock (tCO2e)
+    soilCarbon: number;    // Baseline soil carbon stock (tCO2e)
+  };
+  leakageRate: number; // Share of removals displaced outside the project (0-1)
+  bufferRate: number;  // Non-permanence risk buffer contribution (0-1)
+  location: {
+    latitude: number;
+    longitude: number;
+  };
+  parameters: {
+    rootToShootRatio: number;
+    carbonFraction: number;
+    defaultWoodDensity: number;
+  };
+}
+
+export interface CarbonValidationCriteria {
+  minimumPlots: number;
+  minimumSoilSamples: number;
+  maximumUncertainty: number; // Maximum sampling uncertainty at 90% confidence (%)
+  maximumLeakageRate: number;
+  minimumBufferRate: number;
+}
+
+// Molecular weight ratio of CO2 to C
+const CO2_PER_CARBON = 44 / 12;
+
+// Two-sided 90% confidence z-score used for sampling uncertainty
+const Z_90 = 1.645;
+
+/**
+ * Carbon Sequestration (afforestation / reforestation) Implementation
+ * Biomass from Chave et al. (2014) pantropical allometry, soil carbon from
+ * fixed-depth sampling, with IPCC default root-to-shoot and carbon fraction.
+ * Evidence requirements follow the "Carbon Sequestration MRV" protocol.
+ */
+export class CarbonSequestrationMethodologyHandler implements MethodologyHandler {
+  public readonly methodId = 'carbon-sequestration-v1';
+  public readonly methodologyType = 'CARBON';
+
+  private readonly defaultCriteria: CarbonValidationCriteria = {
+    minimumPlots: 3,
+    minimumSoilSamples: 3,
+    maximumUncertainty: 20,  // 20% at 90% confidence
+    maximumLeakageRate: 0.4,
+    minimumBufferRate: 0.1   // 10% minimum buffer contribution
+  };
+
+  getRequiredEvidenceTypes(): string[] {
+    return [
+      'FOREST_INVENTORY_DATA',
+      'SOIL_SAMPLE_DATA',
+      'BASELINE_ASSESSMENT',
+      'LEAKAGE_ASSESSMENT',
+      'GPS_COORDINATES'
+    ];
+  }
+
+  getMinimumConfidence(): number {
+    return 0.75; // 75% confidence minimum for carbon removals
+  }
+
+  /**
+   * Validate carbon sequestration verification request
+   */
+  async validate(
+    request: VerificationRequest,
+    evidence: EvidenceFile[]
+  ): Promise<VerificationCalculation> {
+
+    // Check required evidence types
+    const providedTypes = new Set(evidence.map(e => e.evidenceType));
+    const missingTypes = this.getRequiredEvidenceTypes().filter(type => !providedTypes.has(type));
+
+    if (missingTypes.length > 0) {
+      return {
+        verified: false,
+        confidenceScore: 0,
+        calculationData: {
+          error: 'Missing required evidence types',
+          missingTypes,
+          providedTypes: Array.from(providedTypes)
+        },
+        evidenceHash: this.calculateEvidenceHash(evidence),
+        notes: `Missing required evidence: ${missingTypes.join(', ')}`
+      };
+    }
+
+    try {
+      const inputs = this.extractCalculationInputs(evidence);
+      const errors = this.validateInputs(inputs);
+
+      if (errors.length > 0) {
+        return {
+          verified: false,
+          confidenceScore: 0,
+          calculationData: {
+            inputs,
+            validationErrors: errors,
+            criteria: this.defaultCriteria
+          },
+          evidenceHash: this.calculateEvidenceHash(evidence),
+          notes: errors.join('; ')
+        };
+      }
+
+      const calculation = this.calculateCarbon(inputs);
+      const verified = calculation.confidenceScore >= this.getMinimumConfidence() &&
+        calculation.results.issuableRemovals > 0;
+
+      return {
+        verified,
+        confidenceScore: calculation.confidenceScore,
+        calculationData: {
+          inputs,
+          calculation: calculation.results,
+          methodology: 'Carbon Sequestration v1.0',
+          criteria: this.defaultCriteria,
+          carbonRemovals: calculation.results.issuableRemovals,
+          units: 'tCO2e'
+        },
+        evidenceHash: this.calculateEvidenceHash(evidence),
+        notes: calculation.notes
+      };
+
+    } catch (error) {
+      return {
+        verified: false,
+        confidenceScore: 0,
+        calculationData: {
+          error: error instanceof Error ? error.message : 'Unknown calculation error',
+          providedTypes: Array.from(providedTypes)
+        },
+        evidenceHash: this.calculateEvidenceHash(evidence),
+        notes: `Calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Above-ground biomass of a single tree (kg)
+   */
+  calculateTreeBiomass(tree: InventoryTree, defaultWoodDensity: number): number {
+    const density = tree.woodDensity ?? defaultWoodDensity;
+
+    if (tree.height !== undefined && tree.height > 0) {
+      // Chave et al. 2014, eq. 4
+      return 0.0673 * Math.pow(density * tree.dbh * tree.dbh * tree.height, 0.976);
+    }
+
+    // Chave et al. 2005 moist forest model without height
+    const lnD = Math.log(tree.dbh);
+    return density * Math.exp(-1.499 + 2.148 * lnD + 0.207 * lnD ** 2 - 0.0281 * lnD ** 3);
+  }
+
+  /**
+   * Soil organic carbon stock of a sample (tC/ha)
+   */
+  calculateSoilCarbon(sample: SoilSample): number {
+    const coarseFraction = (sample.coarseFragmentPercent ?? 0) / 100;
+    return sample.organicCarbonPercent * sample.bulkDensity * sample.depth * (1 - coarseFraction);
+  }
+
+  private extractCalculationInputs(evidence: EvidenceFile[]): CarbonCalculationInputs {
+    const inventoryEvidence = evidence.find(e => e.evidenceType === 'FOREST_INVENTORY_DATA')!;
+    const soilEvidence = evidence.find(e => e.evidenceType === 'SOIL_SAMPLE_DATA')!;
+    const baselineEvidence = evidence.find(e => e.evidenceType === 'BASELINE_ASSESSMENT')!;
+    const leakageEvidence = evidence.find(e => e.evidenceType === 'LEAKAGE_ASSESSMENT')!;
+    const gpsEvidence = evidence.find(e => e.evidenceType === 'GPS_COORDINATES')!;
+    const riskEvidence = evidence.find(e => e.evidenceType === 'RISK_ASSESSMENT');
+
+    // Extract data from evidence metadata
+    // In a real implementation, this would parse actual file contents
+    return {
+      projectArea: this.extractNumericValue(inventoryEvidence, 'projectArea'),
+      plots: this.extractArrayValue<InventoryPlot>(inventoryEvidence, 'plots'),
+      soilSamples: this.extractArrayValue<SoilSample>(soilEvidence, 'samples'),
+      baseline: {
+        biomassCarbon: this.extractNumericValue(baselineEvidence, 'baselineBiomassCarbon', 0),
+        soilCarbon: this.extractNumericValue(baselineEvidence, 'baselineSoilCarbon', 0)
+      },
+      leakageRate: this.extractNumericValue(leakageEvidence, 'leakageRate', 0),
+      bufferRate: riskEvidence
+        ? this.extractNumericValue(riskEvidence, 'bufferRate', 0.2)
+        : 0.2,
+      location: {
+        latitude: this.extractNumericValue(gpsEvidence, 'latitude', 0),
+        longitude: this.extractNumericValue(gpsEvidence, 'longitude', 0)
+      },
+      parameters: {
+        rootToShootRatio: this.extractNumericValue(inventoryEvidence, 'rootToShootRatio', 0.24),
+        carbonFraction: this.extractNumericValue(inventoryEvidence, 'carbonFraction', 0.47),
+        defaultWoodDensity: this.extractNumericValue(inventoryEvidence, 'defaultWoodDensity', 0.6)
+      }
+    };
+  }
+
+  private validateInputs(inputs: CarbonCalculationInputs): string[] {
+    const errors: string[] = [];
+
+    if (inputs.projectArea <= 0) {
+      errors.push('Invalid project area');
+    }
+
+    if (inputs.plots.length === 0) {
+      errors.push('Forest inventory contains no plots');
+    }
+
+    for (const plot of inputs.plots) {
+      if (!(plot.plotArea > 0)) {
+        errors.push(`Invalid area for plot ${plot.plotId ?? '(unnamed)'}`);
+      }
+      if (!Array.isArray(plot.trees) || plot.trees.some(tree => !(tree.dbh > 0))) {
+        errors.push(`Invalid tree measurements in plot ${plot.plotId ?? '(unnamed)'}`);
+      }
+    }
+
+    if (inputs.soilSamples.length === 0) {
+      errors.push('No soil samples provided');
+    }
+
+    if (inputs.soilSamples.some(s => !(s.organicCarbonPercent >= 0) || !(s.bulkDensity > 0) || !(s.depth > 0))) {
+      errors.push('Invalid soil sample measurements');
+    }
+
+    if (inputs.leakageRate < 0 || inputs.leakageRate > this.defaultCriteria.maximumLeakageRate) {
+      errors.push(`Leakage rate (${inputs.leakageRate}) outside 0-${this.defaultCriteria.maximumLeakageRate}`);
+    }
+
+    if (inputs.bufferRate < this.defaultCriteria.minimumBufferRate || inputs.bufferRate >= 1) {
+      errors.push(`Buffer rate (${inputs.bufferRate}) below minimum (${this.defaultCriteria.minimumBufferRate}) or not below 1`);
+    }
+
+    if (Math.abs(inputs.location.latitude) > 90 || Math.abs(inputs.location.longitude) > 180) {
+      errors.push('Invalid GPS coordinates');
+    }
+
+    return errors;
+  }
+
+  private calculateCarbon(inputs: CarbonCalculationInputs): {
+    confidenceScore: number;
+    results: {
+      biomassPerHectare: number;      // t dry matter / ha (above + below ground)
+      biomassCarbonStock: number;     // tCO2e
+      soilCarbonPerHectare: number;   // tC / ha
+      soilCarbonStock: number;        // tCO2e
+      baselineStock: number;          // tCO2e
+      netRemovals: number;            // tCO2e
+      leakageDeduction: number;       // tCO2e
+      bufferContribution: number;     // tCO2e
+      issuableRemovals: number;       // tCO2e
+      samplingUncertainty: number;    // relative half-width at 90% confidence
+    };
+    notes: string;
+  } {
+    const { rootToShootRatio, carbonFraction, defaultWoodDensity } = inputs.parameters;
+
+    // Above-ground biomass per hectare for each plot (t/ha)
+    const plotBiomass = inputs.plots.map(plot => {
+      const kg = plot.trees.reduce((sum, tree) => sum + this.calculateTreeBiomass(tree, defaultWoodDensity), 0);
+      return kg / 1000 / plot.plotArea;
+    });
+
+    const totalPlotArea = inputs.plots.reduce((sum, plot) => sum + plot.plotArea, 0);
+    const totalPlotBiomass = inputs.plots.reduce((sum, plot, i) => sum + plotBiomass[i]! * plot.plotArea, 0);
+    const abovegroundPerHectare = totalPlotBiomass / totalPlotArea;
+    const biomassPerHectare = abovegroundPerHectare * (1 + rootToShootRatio);
+    const biomassCarbonStock = biomassPerHectare * inputs.projectArea * carbonFraction * CO2_PER_CARBON;
+
+    const soilCarbonPerHectare = this.mean(inputs.soilSamples.map(sample => this.calculateSoilCarbon(sample)));
+    const soilCarbonStock = soilCarbonPerHectare * inputs.projectArea * CO2_PER_CARBON;
+
+    const baselineStock = inputs.baseline.biomassCarbon + inputs.baseline.soilCarbon;
+    const netRemovals = biomassCarbonStock + soilCarbonStock - baselineStock;
+
+    // Deductions only apply to positive removals
+    const creditable = Math.max(0, netRemovals);
+    const leakageDeduction = creditable * inputs.leakageRate;
+    const bufferContribution = (creditable - leakageDeduction) * inputs.bufferRate;
+    const issuableRemovals = creditable - leakageDeduction - bufferContribution;
+
+    const samplingUncertainty = this.relativeUncertainty(plotBiomass);
+
+    // Calculate confidence score based on data quality factors
+    let confidenceScore = 1.0;
+    const qualityNotes: string[] = [];
+
+    if (inputs.plots.length < this.defaultCriteria.minimumPlots) {
+      confidenceScore *= 0.8;
+      qualityNotes.push(`Fewer than ${this.defaultCriteria.minimumPlots} inventory plots`);
+    }
+
+    if (inputs.soilSamples.length < this.defaultCriteria.minimumSoilSamples) {
+      confidenceScore *= 0.9;
+      qualityNotes.push(`Fewer than ${this.defaultCriteria.minimumSoilSamples} soil samples`);
+    }
+
+    confidenceScore *= 1 - Math.min(samplingUncertainty, 0.5);
+    if (samplingUncertainty * 100 > this.defaultCriteria.maximumUncertainty) {
+      confidenceScore *= 0.8;
+      qualityNotes.push(`Sampling uncertainty (${(samplingUncertainty * 100).toFixed(1)}%) exceeds ${this.defaultCriteria.maximumUncertainty}%`);
+    }
+
+    // Height-less allometry is less precise
+    const trees = inputs.plots.flatMap(plot => plot.trees);
+    const missingHeights = trees.filter(tree => !(tree.height! > 0)).length / trees.length;
+    if (missingHeights > 0) {
+      confidenceScore *= 1 - 0.1 * missingHeights;
+      qualityNotes.push(`${Math.round(missingHeights * 100)}% of trees lack height measurements`);
+    }
+
+    if (netRemovals <= 0) {
+      confidenceScore *= 0.5;
+      qualityNotes.push('No net removals over baseline - verify baseline stocks');
+    }
+
+    return {
+      confidenceScore: Math.max(0, Math.min(1, confidenceScore)),
+      results: {
+        biomassPerHectare,
+        biomassCarbonStock,
+        soilCarbonPerHectare,
+        soilCarbonStock,
+        baselineStock,
+        netRemovals,
+        leakageDeduction,
+        bufferContribution,
+        issuableRemovals,
+        samplingUncertainty
+      },
+      notes: qualityNotes.length > 0
+        ? `Quality notes: ${qualityNotes.join('; ')}`
+        : 'Carbon sequestration calculation completed successfully'
+    };
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+  }
+
+  /**
+   * Half-width of the 90% confidence interval relative to the mean
+   */
+  private relativeUncertainty(values: number[]): number {
+    if (values.length < 2) return 0.5;
+
+    const mean = this.mean(values);
+    if (mean <= 0) return 0.5;
+
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    const standardError = Math.sqrt(variance / values.length);
+    return (Z_90 * standardError) / mean;
+  }
+
+  /**
+   * Extract numeric value from evidence metadata
+   */
+  private extractNumericValue(evidence: EvidenceFile, key: string, defaultValue?: number): number {
+    const value = (evidence.metadata as any)?.[key];
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+      const parsed = parseFloat(value);
+      if (!isNaN(parsed)) return parsed;
+    }
+
+    if (defaultValue !== undefined) return defaultValue;
+    throw new Error(`Missing or invalid numeric value for ${key} in ${evidence.fileName}`);
+  }
+
+  /**
+   * Extract array value from evidence metadata
+   */
+  private extractArrayValue<T>(evidence: EvidenceFile, key: string): T[] {
+    const value = (evidence.metadata as any)?.[key];
+    if (Array.isArray(value)) return value as T[];
+
+    throw new Error(`Missing or invalid ${key} in ${evidence.fileName}`);
+  }
+
+  /**
+   * Calculate hash of evidence files for integrity verification
+   */
+  private calculateEvidenceHash(evidence: EvidenceFile[]): string {
+    const hashes = [...evidence]
+      .sort((a, b) => a.id - b.id)
+      .map(e => e.fileHash);
+
+    return crypto
+      .createHash('sha256')
+      .update(hashes.join(''))
+      .digest('hex');
+  }
+}
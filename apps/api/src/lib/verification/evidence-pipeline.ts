@@ -437,6 +437,8 @@ export class EvidenceValidationPipeline {
       const dataFileTypes = [
         'WATER_MEASUREMENT_DATA',
         'BASELINE_ASSESSMENT', 
+        'FOREST_INVENTORY_DATA',
+        'SOIL_SAMPLE_DATA',
         'CALCULATION_SHEET',
         'SENSOR_DATA',
         'MEASUREMENT_LOG'
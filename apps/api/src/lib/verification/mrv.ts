@@ -1,14 +1,34 @@
-import { EvidenceFile, VerificationResult } from '@orenna/db';
+import crypto from 'crypto';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { EvidenceFile, MRVProtocolVersion, PrismaClient, Prisma, VerificationResult } from '@orenna/db';
 import { FastifyBaseLogger } from 'fastify';
 
 export interface MRVProtocol {
+  id: string;
   name: string;
   version: string;
+  status: 'active' | 'deprecated';
+  effectiveFrom?: string;
+  changelog?: string;
   measurementRequirements: MeasurementRequirement[];
   reportingRequirements: ReportingRequirement[];
   verificationRequirements: VerificationRequirement[];
 }
 
+export interface MRVProtocolVersionInfo {
+  id: string;
+  name: string;
+  version: string;
+  status: MRVProtocol['status'];
+  effectiveFrom?: string;
+  changelog?: string;
+  contentHash: string;
+}
+
 export interface MeasurementRequirement {
   parameter: string;
   unit: string;
@@ -57,175 +77,247 @@ export interface ComplianceResult {
   evidence: string[];
 }
 
+const CalibrationRequirementSchema = z.object({
+  frequency: z.string().min(1),
+  standard: z.string().min(1),
+  tolerance: z.number().min(0),
+  recordKeeping: z.string().min(1)
+});
+
+const MRVProtocolSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Protocol id must be lowercase kebab-case'),
+  name: z.string().min(1),
+  version: z.string().regex(/^\d+(\.\d+){0,2}$/, 'Version must be numeric, e.g. 1.0 or 1.2.3'),
+  status: z.enum(['active', 'deprecated']).default('active'),
+  effectiveFrom: z.string().date().optional(),
+  changelog: z.string().optional(),
+  measurementRequirements: z.array(z.object({
+    parameter: z.string().min(1),
+    unit: z.string().min(1),
+    frequency: z.string().min(1),
+    accuracy: z.number().min(0).max(1),
+    method: z.string().min(1),
+    equipment: z.array(z.string()).optional(),
+    calibration: CalibrationRequirementSchema.optional()
+  })).min(1),
+  reportingRequirements: z.array(z.object({
+    format: z.string().min(1),
+    frequency: z.string().min(1),
+    template: z.string().optional(),
+    requiredFields: z.array(z.string()),
+    submissionDeadline: z.string().min(1)
+  })),
+  verificationRequirements: z.array(z.object({
+    verifierQualifications: z.array(z.string()),
+    documentationRequired: z.array(z.string()),
+    siteVisitRequired: z.boolean(),
+    samplingSize: z.number().min(0).max(1),
+    confidenceLevel: z.number().min(0).max(1)
+  }))
+}).strict();
+
+// Bundled protocol documents: protocols/<protocol-id>/<version>.{yaml,yml,json}
+export const DEFAULT_PROTOCOL_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'protocols');
+
+const PROTOCOL_FILE_PATTERN = /\.(ya?ml|json)$/i;
+
+/**
+ * Validate an MRV protocol document against the protocol schema
+ */
+export function parseMRVProtocol(document: unknown, source: string = 'protocol document'): MRVProtocol {
+  const parsed = MRVProtocolSchema.safeParse(document);
+  if (!parsed.success) {
+    const details = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid MRV protocol in ${source}: ${details}`);
+  }
+
+  return parsed.data;
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Key-order independent serialization so formatting changes don't alter the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashMRVProtocol(protocol: MRVProtocol): string {
+  return crypto.createHash('sha256').update(canonicalJson(protocol)).digest('hex');
+}
+
+export interface MRVProtocolManagerOptions {
+  protocolDir?: string;
+  prisma?: PrismaClient;
+}
+
+export interface PinnedMRVAssessment {
+  verificationResultId: number;
+  protocol: MRVProtocolVersionInfo;
+  assessment: MRVAssessment;
+  assessedAt: Date;
+}
+
 /**
  * MRV (Measurement, Reporting, Verification) Protocol Manager
- * Implements standardized MRV frameworks for environmental credits
+ * Implements standardized MRV frameworks for environmental credits.
+ * Protocols are versioned documents loaded from disk at boot; a published
+ * version can never be changed, only superseded by a newer one.
  */
 export class MRVProtocolManager {
-  private protocols: Map<string, MRVProtocol> = new Map();
+  // protocol id -> versions sorted oldest first
+  private protocols: Map<string, Array<{ protocol: MRVProtocol; contentHash: string }>> = new Map();
   private logger: FastifyBaseLogger;
+  private prisma?: PrismaClient;
 
-  constructor(logger: FastifyBaseLogger) {
+  constructor(logger: FastifyBaseLogger, options: MRVProtocolManagerOptions = {}) {
     this.logger = logger;
-    this.initializeStandardProtocols();
+    this.prisma = options.prisma;
+    this.loadProtocolDirectory(options.protocolDir ?? DEFAULT_PROTOCOL_DIR);
   }
 
   /**
-   * Initialize standard MRV protocols
+   * Load every protocol document found under a directory (recursively)
    */
-  private initializeStandardProtocols() {
-    // Water MRV Protocol
-    this.registerProtocol({
-      name: 'Water Conservation MRV',
-      version: '1.0',
-      measurementRequirements: [
-        {
-          parameter: 'water_volume',
-          unit: 'liters',
-          frequency: 'daily',
-          accuracy: 0.95,
-          method: 'flow_meter',
-          equipment: ['calibrated_flow_meter', 'data_logger'],
-          calibration: {
-            frequency: 'monthly',
-            standard: 'ISO_4064',
-            tolerance: 0.02,
-            recordKeeping: 'digital_log'
-          }
-        },
-        {
-          parameter: 'water_quality',
-          unit: 'various',
-          frequency: 'weekly',
-          accuracy: 0.90,
-          method: 'laboratory_analysis',
-          equipment: ['sample_bottles', 'preservation_chemicals']
-        },
-        {
-          parameter: 'precipitation',
-          unit: 'mm',
-          frequency: 'daily',
-          accuracy: 0.95,
-          method: 'rain_gauge',
-          equipment: ['calibrated_rain_gauge']
-        }
-      ],
-      reportingRequirements: [
-        {
-          format: 'structured_data',
-          frequency: 'monthly',
-          template: 'water_conservation_template_v1',
-          requiredFields: [
-            'measurement_period',
-            'water_volume_baseline',
-            'water_volume_project',
-            'methodology_used',
-            'equipment_calibration_status',
-            'data_quality_assessment'
-          ],
-          submissionDeadline: '15_days_after_period'
-        }
-      ],
-      verificationRequirements: [
-        {
-          verifierQualifications: [
-            'certified_water_engineer',
-            'environmental_auditor',
-            'minimum_5_years_experience'
-          ],
-          documentationRequired: [
-            'measurement_records',
-            'equipment_calibration_certificates',
-            'methodology_documentation',
-            'site_photos',
-            'quality_assurance_plan'
-          ],
-          siteVisitRequired: true,
-          samplingSize: 0.1,
-          confidenceLevel: 0.95
-        }
-      ]
-    });
+  loadProtocolDirectory(dir: string): number {
+    if (!existsSync(dir)) {
+      this.logger.warn({ dir }, 'MRV protocol directory not found');
+      return 0;
+    }
 
-    // Carbon MRV Protocol
-    this.registerProtocol({
-      name: 'Carbon Sequestration MRV',
-      version: '1.0',
-      measurementRequirements: [
-        {
-          parameter: 'biomass_carbon',
-          unit: 'tCO2e',
-          frequency: 'annually',
-          accuracy: 0.90,
-          method: 'allometric_equations',
-          equipment: ['dbh_tape', 'height_measurement_tool']
-        },
-        {
-          parameter: 'soil_carbon',
-          unit: 'tCO2e',
-          frequency: 'every_3_years',
-          accuracy: 0.85,
-          method: 'soil_sampling',
-          equipment: ['soil_auger', 'sample_containers']
-        }
-      ],
-      reportingRequirements: [
-        {
-          format: 'standardized_form',
-          frequency: 'annually',
-          template: 'carbon_sequestration_template_v1',
-          requiredFields: [
-            'project_area',
-            'tree_species',
-            'carbon_stock_change',
-            'uncertainty_assessment',
-            'leakage_assessment'
-          ],
-          submissionDeadline: '90_days_after_period'
-        }
-      ],
-      verificationRequirements: [
-        {
-          verifierQualifications: [
-            'certified_carbon_auditor',
-            'forestry_expert',
-            'vcs_approved_verifier'
-          ],
-          documentationRequired: [
-            'forest_inventory_data',
-            'carbon_calculations',
-            'monitoring_plan',
-            'satellite_imagery',
-            'field_verification_reports'
-          ],
-          siteVisitRequired: true,
-          samplingSize: 0.05,
-          confidenceLevel: 0.90
-        }
-      ]
-    });
+    let loaded = 0;
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        loaded += this.loadProtocolDirectory(fullPath);
+      } else if (PROTOCOL_FILE_PATTERN.test(entry.name)) {
+        this.loadProtocolFile(fullPath);
+        loaded++;
+      }
+    }
+
+    return loaded;
   }
 
   /**
-   * Register a new MRV protocol
+   * Load a single YAML or JSON protocol document
    */
-  registerProtocol(protocol: MRVProtocol) {
-    this.protocols.set(protocol.name, protocol);
-    this.logger.info({ protocolName: protocol.name, version: protocol.version }, 'Registered MRV protocol');
+  loadProtocolFile(filePath: string): MRVProtocol {
+    const content = readFileSync(filePath, 'utf8');
+    const document = filePath.toLowerCase().endsWith('.json')
+      ? JSON.parse(content)
+      : parseYaml(content);
+
+    return this.registerProtocol(parseMRVProtocol(document, filePath));
+  }
+
+  /**
+   * Register an MRV protocol version
+   */
+  registerProtocol(document: MRVProtocol): MRVProtocol {
+    const protocol = parseMRVProtocol(document, `${document.id}@${document.version}`);
+    const contentHash = hashMRVProtocol(protocol);
+    const versions = this.protocols.get(protocol.id) ?? [];
+
+    const existing = versions.find(v => v.protocol.version === protocol.version);
+    if (existing) {
+      if (existing.contentHash !== contentHash) {
+        throw new Error(`MRV protocol ${protocol.id}@${protocol.version} is already registered with different content`);
+      }
+      return existing.protocol;
+    }
+
+    const sameName = this.findProtocolId(protocol.name);
+    if (sameName && sameName !== protocol.id) {
+      throw new Error(`MRV protocol name "${protocol.name}" is already used by ${sameName}`);
+    }
+
+    versions.push({ protocol, contentHash });
+    versions.sort((a, b) => compareVersions(a.protocol.version, b.protocol.version));
+    this.protocols.set(protocol.id, versions);
+
+    this.logger.info({ protocolId: protocol.id, protocolName: protocol.name, version: protocol.version }, 'Registered MRV protocol');
+    return protocol;
   }
 
   /**
-   * Get available MRV protocols
+   * Get the latest version of each MRV protocol
    */
   getProtocols(): MRVProtocol[] {
-    return Array.from(this.protocols.values());
+    return Array.from(this.protocols.values()).map(versions => versions[versions.length - 1]!.protocol);
   }
 
   /**
-   * Get specific MRV protocol
+   * Get an MRV protocol by id or display name; latest version unless one is given
    */
-  getProtocol(name: string): MRVProtocol | undefined {
-    return this.protocols.get(name);
+  getProtocol(idOrName: string, version?: string): MRVProtocol | undefined {
+    const entry = this.getProtocolEntry(idOrName, version);
+    return entry?.protocol;
+  }
+
+  /**
+   * Version history of an MRV protocol, oldest first
+   */
+  getProtocolVersions(idOrName: string): MRVProtocolVersionInfo[] {
+    const id = this.findProtocolId(idOrName);
+    const versions = id ? this.protocols.get(id)! : [];
+
+    return versions.map(({ protocol, contentHash }) => this.toVersionInfo(protocol, contentHash));
+  }
+
+  private findProtocolId(idOrName: string): string | undefined {
+    if (this.protocols.has(idOrName)) {
+      return idOrName;
+    }
+
+    for (const [id, versions] of this.protocols) {
+      if (versions.some(v => v.protocol.name === idOrName)) {
+        return id;
+      }
+    }
+
+    return undefined;
+  }
+
+  private getProtocolEntry(idOrName: string, version?: string) {
+    const id = this.findProtocolId(idOrName);
+    if (!id) return undefined;
+
+    const versions = this.protocols.get(id)!;
+    return version
+      ? versions.find(v => v.protocol.version === version)
+      : versions[versions.length - 1];
+  }
+
+  private toVersionInfo(protocol: MRVProtocol, contentHash: string): MRVProtocolVersionInfo {
+    return {
+      id: protocol.id,
+      name: protocol.name,
+      version: protocol.version,
+      status: protocol.status,
+      effectiveFrom: protocol.effectiveFrom,
+      changelog: protocol.changelog,
+      contentHash
+    };
   }
 
   /**
@@ -234,18 +326,137 @@ export class MRVProtocolManager {
   async assessMRVCompliance(
     protocolName: string,
     evidenceFiles: EvidenceFile[],
-    verificationResult: VerificationResult
+    verificationResult: VerificationResult,
+    version?: string
   ): Promise<MRVAssessment> {
-    const protocol = this.protocols.get(protocolName);
+    const protocol = this.getProtocol(protocolName, version);
     if (!protocol) {
-      throw new Error(`MRV protocol ${protocolName} not found`);
+      throw new Error(`MRV protocol ${protocolName}${version ? `@${version}` : ''} not found`);
+    }
+
+    return this.evaluateProtocol(protocol, evidenceFiles, verificationResult);
+  }
+
+  /**
+   * Assess a stored verification result and pin the protocol version used.
+   * Once pinned, the result is always assessed against that exact snapshot,
+   * even if the protocol file is later superseded or removed.
+   */
+  async assessVerificationResult(
+    verificationResultId: number,
+    protocolRef?: { idOrName: string; version?: string }
+  ): Promise<PinnedMRVAssessment | null> {
+    if (!this.prisma) {
+      throw new Error('MRV protocol manager has no database client');
+    }
+
+    const verificationResult = await this.prisma.verificationResult.findUnique({
+      where: { id: verificationResultId },
+      include: { evidenceFiles: true, mrvProtocolVersion: true }
+    });
+
+    if (!verificationResult) {
+      return null;
     }
 
+    let pinned = verificationResult.mrvProtocolVersion;
+
+    if (pinned) {
+      const requestedId = protocolRef && (this.findProtocolId(protocolRef.idOrName) ?? protocolRef.idOrName);
+      if (
+        (requestedId && requestedId !== pinned.protocolId) ||
+        (protocolRef?.version && protocolRef.version !== pinned.version)
+      ) {
+        throw new Error(`Verification result is already pinned to MRV protocol ${pinned.protocolId}@${pinned.version}`);
+      }
+    } else {
+      if (!protocolRef) {
+        throw new Error('MRV protocol is required for the first assessment');
+      }
+
+      const entry = this.getProtocolEntry(protocolRef.idOrName, protocolRef.version);
+      if (!entry) {
+        throw new Error(`MRV protocol ${protocolRef.idOrName}${protocolRef.version ? `@${protocolRef.version}` : ''} not found`);
+      }
+
+      pinned = await this.recordProtocolVersion(entry.protocol, entry.contentHash);
+    }
+
+    const protocol = parseMRVProtocol(pinned.definition, `${pinned.protocolId}@${pinned.version}`);
+    const assessment = this.evaluateProtocol(protocol, verificationResult.evidenceFiles, verificationResult);
+    const assessedAt = new Date();
+
+    await this.prisma.verificationResult.update({
+      where: { id: verificationResultId },
+      data: {
+        mrvProtocolVersionId: pinned.id,
+        mrvAssessment: assessment as unknown as Prisma.InputJsonValue,
+        mrvAssessedAt: assessedAt
+      }
+    });
+
+    return {
+      verificationResultId,
+      protocol: this.toVersionInfo(protocol, pinned.contentHash),
+      assessment,
+      assessedAt
+    };
+  }
+
+  /**
+   * Store the snapshot for a protocol version, refusing to reuse a version
+   * number whose published content differs
+   */
+  private async recordProtocolVersion(protocol: MRVProtocol, contentHash: string): Promise<MRVProtocolVersion> {
+    const existing = await this.prisma!.mRVProtocolVersion.findUnique({
+      where: { protocolId_version: { protocolId: protocol.id, version: protocol.version } }
+    });
+
+    if (existing) {
+      if (existing.contentHash !== contentHash) {
+        throw new Error(
+          `MRV protocol ${protocol.id}@${protocol.version} differs from the published version; bump the version instead of editing it`
+        );
+      }
+      return existing;
+    }
+
+    try {
+      return await this.prisma!.mRVProtocolVersion.create({
+        data: {
+          protocolId: protocol.id,
+          name: protocol.name,
+          version: protocol.version,
+          contentHash,
+          definition: protocol as unknown as Prisma.InputJsonValue,
+          status: protocol.status,
+          effectiveFrom: protocol.effectiveFrom ? new Date(protocol.effectiveFrom) : null
+        }
+      });
+    } catch (error: any) {
+      // Recorded concurrently by another request
+      if (error?.code === 'P2002') {
+        return this.recordProtocolVersion(protocol, contentHash);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate evidence against a specific protocol definition
+   */
+  evaluateProtocol(
+    protocol: MRVProtocol,
+    evidenceFiles: EvidenceFile[],
+    verificationResult: VerificationResult
+  ): MRVAssessment {
     this.logger.info({ 
-      protocolName,
+      protocolId: protocol.id,
+      version: protocol.version,
       verificationResultId: verificationResult.id 
     }, 'Assessing MRV compliance');
 
+
     // Assess measurement compliance
     const measurementCompliance = this.assessMeasurementCompliance(
       protocol.measurementRequirements,
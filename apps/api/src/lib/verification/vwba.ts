@@ -32,6 +32,7 @@ export interface VWBAValidationCriteria {
  */
 export class VWBAMethodologyHandler implements MethodologyHandler {
   public readonly methodId = 'vwba-v2';
+  public readonly methodologyType = 'VWBA';
   
   private readonly defaultCriteria: VWBAValidationCriteria = {
     minimumMeasurementPeriod: 30,  // 30 days minimum
@@ -29,6 +29,18 @@ export interface IndexerEvent {
   error?: string;
 }
 
+export interface IndexerJobEvent {
+  jobId: string;
+  jobType: 'backfill' | 'replay';
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  chainId: number;
+  contractAddress: string;
+  progress: number;
+  processed: number;
+  failed: number;
+  message?: string;
+}
+
 export interface VerificationEvent {
   verificationResultId: number;
   liftTokenId: number;
@@ -257,6 +269,20 @@ export class WebSocketManager {
     this.app.log.info({ event, eventId: data.eventId }, 'Indexer event emitted');
   }
 
+  // Emit indexer backfill/replay job progress
+  emitIndexerJobEvent(event: string, data: IndexerJobEvent): void {
+    const message: WebSocketMessage = {
+      type: 'indexer',
+      event,
+      data,
+      timestamp: new Date().toISOString(),
+      id: `indexer_job_${data.jobId}_${Date.now()}`
+    };
+
+    this.broadcast(message);
+    this.app.log.debug({ event, jobId: data.jobId, progress: data.progress }, 'Indexer job event emitted');
+  }
+
   // Emit verification events
   emitVerificationEvent(event: string, data: VerificationEvent): void {
     const message: WebSocketMessage = {
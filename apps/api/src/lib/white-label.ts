@@ -1,5 +1,8 @@
 import { FastifyInstance } from 'fastify';
 import crypto from 'crypto';
+import { AuditTrailService } from './audit-trail.js';
+import { renderPdfReport, sealReport } from './pdf/index.js';
+import { whiteLabelReportPdf } from './pdf/templates/white-label-report.js';
 
 export interface WhiteLabelConfiguration {
   id: string;
@@ -105,10 +108,20 @@ export interface WhiteLabelReport {
   data: any;
   format: 'json' | 'pdf' | 'csv';
   customBranding: boolean;
+  /** Rendered document when format is 'pdf' */
+  document?: Buffer;
+}
+
+export interface WhiteLabelServiceOptions {
+  audit?: Pick<AuditTrailService, 'recordEvent'>;
 }
 
 export class WhiteLabelService {
-  constructor(private app: FastifyInstance) {}
+  private audit: NonNullable<WhiteLabelServiceOptions['audit']>;
+
+  constructor(private app: FastifyInstance, options: WhiteLabelServiceOptions = {}) {
+    this.audit = options.audit ?? new AuditTrailService(app);
+  }
 
   async createWhiteLabelOrganization(config: Omit<WhiteLabelConfiguration, 'id' | 'apiKey' | 'createdAt' | 'updatedAt'>): Promise<WhiteLabelConfiguration> {
     const id = `WL-${Date.now()}-${crypto.randomBytes(8).toString('hex')}`;
@@ -302,6 +315,17 @@ export class WhiteLabelService {
 
     await this.storeReport(report);
 
+    if (report.format === 'pdf') {
+      const seal = await sealReport(this.audit, {
+        reportType: `white-label:${reportType}`,
+        reportId: `${organizationId}-${reportType}-${report.generatedAt.getTime()}`,
+        actor: organizationId,
+        source: 'white-label',
+        content: brandedReport
+      });
+      report.document = renderPdfReport(whiteLabelReportPdf(brandedReport, template, seal));
+    }
+
     return report;
   }
 
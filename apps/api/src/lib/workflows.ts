@@ -1,8 +1,9 @@
-import { PrismaClient } from '@orenna/db';
-import { queueService } from './queue-service';
-import { verificationService } from './verification';
-import { websocketManager } from './websocket-manager';
-import { analyticsService } from './analytics';
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma } from '@orenna/db';
+import type { FastifyBaseLogger } from 'fastify';
+import type { QueueService } from './queue-service';
+import type { WebSocketManager } from './websocket-manager';
+import { parseCron, matchesCron, nextCronRun } from './cron';
 
 export interface WorkflowTrigger {
   id: string;
@@ -14,6 +15,10 @@ export interface WorkflowTrigger {
   priority: 'low' | 'normal' | 'high' | 'critical';
   cooldown: number; // Minutes between triggers
   lastTriggered?: Date;
+  schedule?: string; // Cron expression taken from a time_based 'schedule' condition
+  timezone?: string;
+  nextRunAt?: Date;
+  isDefault?: boolean;
 }
 
 export interface WorkflowCondition {
@@ -33,9 +38,12 @@ export interface WorkflowAction {
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  liftTokenId: number;
+  idempotencyKey: string;
+  source: string;
+  liftTokenId?: number;
   verificationResultId?: number;
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  scheduledFor?: Date;
   startedAt: Date;
   completedAt?: Date;
   error?: string;
@@ -48,197 +56,326 @@ export interface WorkflowExecution {
   }>;
 }
 
-export class WorkflowEngine {
-  private triggers: Map<string, WorkflowTrigger> = new Map();
-  private executions: Map<string, WorkflowExecution> = new Map();
-  private intervalId?: NodeJS.Timeout;
+export type WorkflowTriggerInput = Omit<WorkflowTrigger, 'lastTriggered' | 'schedule' | 'timezone' | 'nextRunAt' | 'isDefault'>;
 
-  constructor(private prisma: PrismaClient) {
-    this.loadDefaultTriggers();
-  }
-
-  private loadDefaultTriggers() {
-    // VWBA High Confidence Auto-Approval
-    this.addTrigger({
-      id: 'vwba-auto-approve',
-      name: 'VWBA High Confidence Auto-Approval',
-      description: 'Automatically approve VWBA verifications with confidence > 90%',
-      enabled: true,
-      conditions: [
-        {
-          type: 'confidence_score',
-          field: 'confidenceScore',
-          operator: '>',
-          value: 0.9
-        },
-        {
-          type: 'data_threshold',
-          field: 'methodId',
-          operator: '=',
-          value: 'vwba-v2'
-        }
-      ],
-      actions: [
-        {
-          type: 'auto_verify',
-          parameters: { approved: true, reason: 'High confidence VWBA verification' }
-        },
-        {
-          type: 'notify_validators',
-          parameters: { message: 'Auto-approved due to high confidence score' }
-        }
-      ],
-      priority: 'normal',
-      cooldown: 0
-    });
+export interface WorkflowEngineOptions {
+  wsManager?: WebSocketManager;
+  queueService?: QueueService;
+  logger?: FastifyBaseLogger;
+  // Identifies this replica when competing for the scheduler lease
+  instanceId?: string;
+  leaseTtlMs?: number;
+}
 
-    // Low Confidence Review Required
-    this.addTrigger({
-      id: 'low-confidence-review',
-      name: 'Low Confidence Review Required',
-      description: 'Require manual review for verifications with confidence < 60%',
-      enabled: true,
-      conditions: [
-        {
-          type: 'confidence_score',
-          field: 'confidenceScore',
-          operator: '<',
-          value: 0.6
-        }
-      ],
-      actions: [
-        {
-          type: 'require_review',
-          parameters: { 
-            reviewType: 'manual',
-            priority: 'high',
-            reason: 'Low confidence score requires manual review'
-          }
-        },
-        {
-          type: 'notify_validators',
-          parameters: { 
-            urgency: 'high',
-            message: 'Manual review required for low confidence verification'
-          }
-        }
-      ],
-      priority: 'high',
-      cooldown: 0
-    });
+export interface ExecutionHistoryFilter {
+  triggerId?: string;
+  status?: WorkflowExecution['status'];
+  liftTokenId?: number;
+  limit?: number;
+  offset?: number;
+}
 
-    // Insufficient Evidence Rejection
-    this.addTrigger({
-      id: 'insufficient-evidence',
-      name: 'Insufficient Evidence Auto-Rejection',
-      description: 'Auto-reject verifications with insufficient evidence files',
-      enabled: true,
-      conditions: [
-        {
-          type: 'evidence_count',
-          field: 'evidenceFiles',
-          operator: '<',
-          value: 3
+const SCHEDULER_LEASE = 'workflow-scheduler';
+const DEFAULT_LEASE_TTL_MS = 90 * 1000;
+
+const triggerInclude = {
+  conditions: { orderBy: { position: 'asc' } },
+  actions: { orderBy: { position: 'asc' } }
+} satisfies Prisma.WorkflowTriggerInclude;
+
+type TriggerRecord = Prisma.WorkflowTriggerGetPayload<{ include: typeof triggerInclude }>;
+
+const DEFAULT_TRIGGERS: WorkflowTriggerInput[] = [
+  // VWBA High Confidence Auto-Approval
+  {
+    id: 'vwba-auto-approve',
+    name: 'VWBA High Confidence Auto-Approval',
+    description: 'Automatically approve VWBA verifications with confidence > 90%',
+    enabled: true,
+    conditions: [
+      {
+        type: 'confidence_score',
+        field: 'confidenceScore',
+        operator: '>',
+        value: 0.9
+      },
+      {
+        type: 'data_threshold',
+        field: 'methodId',
+        operator: '=',
+        value: 'vwba-v2'
+      }
+    ],
+    actions: [
+      {
+        type: 'auto_verify',
+        parameters: { approved: true, reason: 'High confidence VWBA verification' }
+      },
+      {
+        type: 'notify_validators',
+        parameters: { message: 'Auto-approved due to high confidence score' }
+      }
+    ],
+    priority: 'normal',
+    cooldown: 0
+  },
+
+  // Low Confidence Review Required
+  {
+    id: 'low-confidence-review',
+    name: 'Low Confidence Review Required',
+    description: 'Require manual review for verifications with confidence < 60%',
+    enabled: true,
+    conditions: [
+      {
+        type: 'confidence_score',
+        field: 'confidenceScore',
+        operator: '<',
+        value: 0.6
+      }
+    ],
+    actions: [
+      {
+        type: 'require_review',
+        parameters: {
+          reviewType: 'manual',
+          priority: 'high',
+          reason: 'Low confidence score requires manual review'
         }
-      ],
-      actions: [
-        {
-          type: 'reject',
-          parameters: { 
-            reason: 'Insufficient evidence files (minimum 3 required)',
-            allowResubmission: true
-          }
+      },
+      {
+        type: 'notify_validators',
+        parameters: {
+          urgency: 'high',
+          message: 'Manual review required for low confidence verification'
         }
-      ],
-      priority: 'normal',
-      cooldown: 0
-    });
-
-    // Rapid Verification Pattern Detection
-    this.addTrigger({
-      id: 'rapid-verification-pattern',
-      name: 'Rapid Verification Pattern Detection',
-      description: 'Flag lift tokens with >5 verification attempts in 24 hours',
-      enabled: true,
-      conditions: [
-        {
-          type: 'data_threshold',
-          field: 'verificationsIn24h',
-          operator: '>',
-          value: 5
+      }
+    ],
+    priority: 'high',
+    cooldown: 0
+  },
+
+  // Insufficient Evidence Rejection
+  {
+    id: 'insufficient-evidence',
+    name: 'Insufficient Evidence Auto-Rejection',
+    description: 'Auto-reject verifications with insufficient evidence files',
+    enabled: true,
+    conditions: [
+      {
+        type: 'evidence_count',
+        field: 'evidenceFiles',
+        operator: '<',
+        value: 3
+      }
+    ],
+    actions: [
+      {
+        type: 'reject',
+        parameters: {
+          reason: 'Insufficient evidence files (minimum 3 required)',
+          allowResubmission: true
         }
-      ],
-      actions: [
-        {
-          type: 'escalate',
-          parameters: { 
-            level: 'security_review',
-            reason: 'Suspicious verification pattern detected'
-          }
-        },
-        {
-          type: 'require_review',
-          parameters: { 
-            reviewType: 'security',
-            priority: 'critical'
-          }
+      }
+    ],
+    priority: 'normal',
+    cooldown: 0
+  },
+
+  // Rapid Verification Pattern Detection
+  {
+    id: 'rapid-verification-pattern',
+    name: 'Rapid Verification Pattern Detection',
+    description: 'Flag lift tokens with >5 verification attempts in 24 hours',
+    enabled: true,
+    conditions: [
+      {
+        type: 'data_threshold',
+        field: 'verificationsIn24h',
+        operator: '>',
+        value: 5
+      }
+    ],
+    actions: [
+      {
+        type: 'escalate',
+        parameters: {
+          level: 'security_review',
+          reason: 'Suspicious verification pattern detected'
         }
-      ],
-      priority: 'critical',
-      cooldown: 60 // 1 hour cooldown
-    });
-
-    // Daily Quality Check
-    this.addTrigger({
-      id: 'daily-quality-check',
-      name: 'Daily Quality Assurance Check',
-      description: 'Run quality checks on all verifications from the past day',
-      enabled: true,
-      conditions: [
-        {
-          type: 'time_based',
-          field: 'schedule',
-          operator: '=',
-          value: '0 2 * * *', // Daily at 2 AM
-          metadata: { timezone: 'UTC' }
+      },
+      {
+        type: 'require_review',
+        parameters: {
+          reviewType: 'security',
+          priority: 'critical'
         }
-      ],
-      actions: [
-        {
-          type: 'schedule_recheck',
-          parameters: { 
-            scope: 'daily',
-            checks: ['confidence_consistency', 'evidence_integrity', 'cross_validation']
-          }
+      }
+    ],
+    priority: 'critical',
+    cooldown: 60 // 1 hour cooldown
+  },
+
+  // Daily Quality Check
+  {
+    id: 'daily-quality-check',
+    name: 'Daily Quality Assurance Check',
+    description: 'Run quality checks on all verifications from the past day',
+    enabled: true,
+    conditions: [
+      {
+        type: 'time_based',
+        field: 'schedule',
+        operator: '=',
+        value: '0 2 * * *', // Daily at 2 AM
+        metadata: { timezone: 'UTC' }
+      }
+    ],
+    actions: [
+      {
+        type: 'schedule_recheck',
+        parameters: {
+          scope: 'daily',
+          checks: ['confidence_consistency', 'evidence_integrity', 'cross_validation']
         }
-      ],
-      priority: 'low',
-      cooldown: 1440 // 24 hours
-    });
+      }
+    ],
+    priority: 'low',
+    cooldown: 1440 // 24 hours
+  }
+];
+
+/**
+ * Cron schedule declared by a trigger's time_based 'schedule' condition, if any
+ */
+export function getTriggerSchedule(conditions: WorkflowCondition[]): { schedule: string; timezone: string } | null {
+  const condition = conditions.find(c => c.type === 'time_based' && c.field === 'schedule');
+  if (!condition) {
+    return null;
   }
 
-  addTrigger(trigger: WorkflowTrigger): void {
-    this.triggers.set(trigger.id, trigger);
+  return {
+    schedule: String(condition.value),
+    timezone: condition.metadata?.timezone ?? 'UTC'
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as any)?.code === 'P2002';
+}
+
+export class WorkflowEngine {
+  private intervalId?: NodeJS.Timeout;
+  private readonly instanceId: string;
+  private readonly leaseTtlMs: number;
+
+  constructor(private prisma: PrismaClient, private options: WorkflowEngineOptions = {}) {
+    this.instanceId = options.instanceId ?? `${process.pid}-${randomUUID()}`;
+    this.leaseTtlMs = options.leaseTtlMs ?? DEFAULT_LEASE_TTL_MS;
+  }
+
+  /**
+   * Insert the built-in triggers that are missing. Existing rows are left
+   * alone so operator edits survive restarts.
+   */
+  async seedDefaultTriggers(): Promise<number> {
+    let created = 0;
+
+    for (const trigger of DEFAULT_TRIGGERS) {
+      const existing = await this.prisma.workflowTrigger.findUnique({ where: { id: trigger.id } });
+      if (existing) continue;
+
+      try {
+        await this.addTrigger(trigger, undefined, true);
+        created++;
+      } catch (error) {
+        // Another replica seeded it first
+        if (!isUniqueViolation(error)) throw error;
+      }
+    }
+
+    return created;
   }
 
-  removeTrigger(triggerId: string): boolean {
-    return this.triggers.delete(triggerId);
+  async addTrigger(trigger: WorkflowTriggerInput, createdBy?: number, isDefault: boolean = false): Promise<WorkflowTrigger> {
+    const scheduling = this.resolveScheduling(trigger.conditions);
+
+    const record = await this.prisma.workflowTrigger.create({
+      data: {
+        id: trigger.id,
+        name: trigger.name,
+        description: trigger.description,
+        enabled: trigger.enabled,
+        priority: trigger.priority,
+        cooldownMinutes: trigger.cooldown,
+        ...scheduling,
+        isDefault,
+        createdBy,
+        conditions: { create: this.toConditionRows(trigger.conditions) },
+        actions: { create: this.toActionRows(trigger.actions) }
+      },
+      include: triggerInclude
+    });
+
+    return this.toTrigger(record);
   }
 
-  getTrigger(triggerId: string): WorkflowTrigger | undefined {
-    return this.triggers.get(triggerId);
+  async removeTrigger(triggerId: string): Promise<boolean> {
+    const result = await this.prisma.workflowTrigger.deleteMany({ where: { id: triggerId } });
+    return result.count > 0;
   }
 
-  getAllTriggers(): WorkflowTrigger[] {
-    return Array.from(this.triggers.values());
+  async getTrigger(triggerId: string): Promise<WorkflowTrigger | undefined> {
+    const record = await this.prisma.workflowTrigger.findUnique({
+      where: { id: triggerId },
+      include: triggerInclude
+    });
+
+    return record ? this.toTrigger(record) : undefined;
   }
 
-  updateTrigger(triggerId: string, updates: Partial<WorkflowTrigger>): boolean {
-    const trigger = this.triggers.get(triggerId);
-    if (!trigger) return false;
+  async getAllTriggers(): Promise<WorkflowTrigger[]> {
+    const records = await this.prisma.workflowTrigger.findMany({
+      include: triggerInclude,
+      orderBy: { createdAt: 'asc' }
+    });
 
-    this.triggers.set(triggerId, { ...trigger, ...updates });
-    return true;
+    return records.map(record => this.toTrigger(record));
+  }
+
+  async updateTrigger(triggerId: string, updates: Partial<WorkflowTriggerInput>): Promise<WorkflowTrigger | undefined> {
+    const record = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.workflowTrigger.findUnique({ where: { id: triggerId } });
+      if (!existing) return null;
+
+      if (updates.conditions) {
+        await tx.workflowCondition.deleteMany({ where: { triggerId } });
+      }
+      if (updates.actions) {
+        await tx.workflowAction.deleteMany({ where: { triggerId } });
+      }
+
+      return tx.workflowTrigger.update({
+        where: { id: triggerId },
+        data: {
+          ...(updates.name !== undefined && { name: updates.name }),
+          ...(updates.description !== undefined && { description: updates.description }),
+          ...(updates.enabled !== undefined && { enabled: updates.enabled }),
+          ...(updates.priority !== undefined && { priority: updates.priority }),
+          ...(updates.cooldown !== undefined && { cooldownMinutes: updates.cooldown }),
+          ...(updates.conditions && {
+            ...this.resolveScheduling(updates.conditions),
+            conditions: { create: this.toConditionRows(updates.conditions) }
+          }),
+          ...(updates.actions && {
+            actions: { create: this.toActionRows(updates.actions) }
+          })
+        },
+        include: triggerInclude
+      });
+    });
+
+    return record ? this.toTrigger(record) : undefined;
   }
 
   async processVerificationEvent(
@@ -249,30 +386,44 @@ export class WorkflowEngine {
       methodId?: string;
       confidenceScore?: number;
       evidenceCount?: number;
+      idempotencyKey?: string;
       [key: string]: any;
     }
   ): Promise<void> {
     // Get additional context for evaluation
     const context = await this.buildEvaluationContext(data);
 
-    // Evaluate all enabled triggers
-    for (const trigger of this.triggers.values()) {
-      if (!trigger.enabled) continue;
+    // Scheduled triggers are fired by the scheduler, not by events
+    const records = await this.prisma.workflowTrigger.findMany({
+      where: { enabled: true, schedule: null },
+      include: triggerInclude
+    });
 
-      // Check cooldown
-      if (trigger.lastTriggered && trigger.cooldown > 0) {
-        const cooldownEnd = new Date(trigger.lastTriggered.getTime() + trigger.cooldown * 60000);
-        if (new Date() < cooldownEnd) continue;
-      }
+    // Evaluate all enabled triggers
+    for (const trigger of records.map(record => this.toTrigger(record))) {
+      if (this.isCoolingDown(trigger)) continue;
 
       // Evaluate conditions
       if (this.evaluateConditions(trigger.conditions, context)) {
-        await this.executeTrigger(trigger, data);
+        const subject = data.verificationResultId ?? `token-${data.liftTokenId}`;
+        await this.executeTrigger(trigger, data, {
+          source: event,
+          idempotencyKey: `${trigger.id}:${event}:${data.idempotencyKey ?? subject}`
+        });
       }
     }
   }
 
-  private async buildEvaluationContext(data: any): Promise<any> {
+  private isCoolingDown(trigger: WorkflowTrigger, now: Date = new Date()): boolean {
+    if (!trigger.lastTriggered || trigger.cooldown <= 0) {
+      return false;
+    }
+
+    const cooldownEnd = new Date(trigger.lastTriggered.getTime() + trigger.cooldown * 60000);
+    return now < cooldownEnd;
+  }
+
+  private async buildEvaluationContext(data: any, now: Date = new Date()): Promise<any> {
     const context = { ...data };
 
     // Add verification history for this lift token
@@ -280,7 +431,7 @@ export class WorkflowEngine {
       const recentVerifications = await this.prisma.verificationResult.findMany({
         where: {
           liftTokenId: data.liftTokenId,
-          createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+          createdAt: { gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
         }
       });
       context.verificationsIn24h = recentVerifications.length;
@@ -295,9 +446,9 @@ export class WorkflowEngine {
     }
 
     // Add current time context
-    context.currentTime = new Date();
-    context.hourOfDay = new Date().getHours();
-    context.dayOfWeek = new Date().getDay();
+    context.currentTime = now;
+    context.hourOfDay = now.getHours();
+    context.dayOfWeek = now.getDay();
 
     return context;
   }
@@ -307,8 +458,17 @@ export class WorkflowEngine {
   }
 
   private evaluateCondition(condition: WorkflowCondition, context: any): boolean {
+    // Cron schedules match against the evaluation time rather than a context field
+    if (condition.type === 'time_based' && condition.field === 'schedule') {
+      return matchesCron(
+        parseCron(String(condition.value)),
+        context.currentTime ?? new Date(),
+        condition.metadata?.timezone ?? 'UTC'
+      );
+    }
+
     const value = this.getContextValue(condition.field, context);
-    
+
     switch (condition.operator) {
       case '>':
         return value > condition.value;
@@ -336,36 +496,71 @@ export class WorkflowEngine {
     return field.split('.').reduce((obj, key) => obj?.[key], context);
   }
 
-  private async executeTrigger(trigger: WorkflowTrigger, data: any): Promise<void> {
-    const executionId = `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
+  /**
+   * Run a trigger's actions once per idempotency key. Returns null when an
+   * execution with the same key already exists (e.g. another replica won).
+   */
+  private async executeTrigger(
+    trigger: WorkflowTrigger,
+    data: any,
+    options: { source: string; idempotencyKey: string; scheduledFor?: Date }
+  ): Promise<WorkflowExecution | null> {
+    const executedActions: WorkflowExecution['executedActions'] = trigger.actions.map(action => ({
+      action,
+      status: 'pending'
+    }));
+
+    let record;
+    try {
+      record = await this.prisma.workflowExecution.create({
+        data: {
+          triggerId: trigger.id,
+          idempotencyKey: options.idempotencyKey,
+          source: options.source,
+          liftTokenId: data.liftTokenId || null,
+          verificationResultId: data.verificationResultId ?? null,
+          status: 'running',
+          executedActions: executedActions as unknown as Prisma.InputJsonValue,
+          context: this.toJson(data),
+          scheduledFor: options.scheduledFor
+        }
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        this.options.logger?.debug({ triggerId: trigger.id, idempotencyKey: options.idempotencyKey }, 'Workflow execution already recorded');
+        return null;
+      }
+      throw error;
+    }
+
     const execution: WorkflowExecution = {
-      id: executionId,
+      id: record.id,
       workflowId: trigger.id,
-      liftTokenId: data.liftTokenId,
+      idempotencyKey: options.idempotencyKey,
+      source: options.source,
+      liftTokenId: data.liftTokenId || undefined,
       verificationResultId: data.verificationResultId,
       status: 'running',
-      startedAt: new Date(),
-      executedActions: trigger.actions.map(action => ({
-        action,
-        status: 'pending'
-      }))
+      scheduledFor: options.scheduledFor,
+      startedAt: record.startedAt,
+      executedActions
     };
 
-    this.executions.set(executionId, execution);
-
     try {
       // Update trigger last triggered time
-      trigger.lastTriggered = new Date();
+      await this.prisma.workflowTrigger.update({
+        where: { id: trigger.id },
+        data: { lastTriggeredAt: new Date() }
+      });
 
       // Execute actions in sequence
       for (let i = 0; i < trigger.actions.length; i++) {
-        const action = trigger.actions[i];
-        const actionExecution = execution.executedActions[i];
+        const action = trigger.actions[i]!;
+        const actionExecution = execution.executedActions[i]!;
 
         // Apply delay if specified
         if (action.delay && action.delay > 0) {
-          await new Promise(resolve => setTimeout(resolve, action.delay * 60000));
+          await new Promise(resolve => setTimeout(resolve, action.delay! * 60000));
         }
 
         try {
@@ -376,7 +571,7 @@ export class WorkflowEngine {
         } catch (error) {
           actionExecution.status = 'failed';
           actionExecution.error = error instanceof Error ? error.message : String(error);
-          
+
           // Continue with other actions unless it's a critical failure
           if (trigger.priority === 'critical') {
             throw error;
@@ -398,16 +593,28 @@ export class WorkflowEngine {
       console.error(`Workflow ${trigger.id} failed for lift token ${data.liftTokenId}:`, error);
     }
 
+    await this.prisma.workflowExecution.update({
+      where: { id: execution.id },
+      data: {
+        status: execution.status,
+        executedActions: this.toJson(execution.executedActions),
+        error: execution.error,
+        completedAt: execution.completedAt
+      }
+    });
+
     // Send real-time update
-    if (websocketManager) {
-      websocketManager.notifyAnalyticsUpdate('verification_metrics', {
+    if (this.options.wsManager) {
+      this.options.wsManager.notifyAnalyticsUpdate('verification_metrics', {
         type: 'workflow_execution',
         workflowId: trigger.id,
-        executionId,
+        executionId: execution.id,
         status: execution.status,
         liftTokenId: data.liftTokenId
       });
     }
+
+    return execution;
   }
 
   private async executeAction(
@@ -418,22 +625,22 @@ export class WorkflowEngine {
     switch (action.type) {
       case 'auto_verify':
         return this.executeAutoVerify(action, data);
-      
+
       case 'require_review':
         return this.executeRequireReview(action, data);
-      
+
       case 'notify_validators':
         return this.executeNotifyValidators(action, data);
-      
+
       case 'escalate':
         return this.executeEscalate(action, data);
-      
+
       case 'reject':
         return this.executeReject(action, data);
-      
+
       case 'schedule_recheck':
         return this.executeScheduleRecheck(action, data);
-      
+
       default:
         throw new Error(`Unknown action type: ${action.type}`);
     }
@@ -451,7 +658,9 @@ export class WorkflowEngine {
       where: { id: data.verificationResultId },
       data: {
         verified: approved,
-        verifiedAt: new Date(),
+        status: approved ? 'VERIFIED' : 'REJECTED',
+        reviewedBy: 'workflow',
+        reviewedAt: new Date(),
         notes: reason
       }
     });
@@ -460,8 +669,8 @@ export class WorkflowEngine {
     await this.prisma.liftTokenEvent.create({
       data: {
         liftTokenId: data.liftTokenId,
-        eventType: approved ? 'VERIFICATION_APPROVED' : 'VERIFICATION_REJECTED',
-        eventData: {
+        type: approved ? 'VERIFICATION_APPROVED' : 'VERIFICATION_REJECTED',
+        payload: {
           verificationResultId: data.verificationResultId,
           automated: true,
           reason,
@@ -497,8 +706,8 @@ export class WorkflowEngine {
     const { message, urgency = 'normal' } = action.parameters;
 
     // Send notification via WebSocket
-    if (websocketManager) {
-      websocketManager.emitVerificationEvent('validation_required', {
+    if (this.options.wsManager) {
+      this.options.wsManager.emitVerificationEvent('validation_required', {
         verificationResultId: data.verificationResultId || 0,
         liftTokenId: data.liftTokenId,
         methodId: data.methodId || 'unknown',
@@ -507,19 +716,7 @@ export class WorkflowEngine {
       });
     }
 
-    // Queue notification job for email/other channels
-    await queueService.addNotificationJob({
-      type: 'validator_notification',
-      priority: urgency,
-      data: {
-        message,
-        liftTokenId: data.liftTokenId,
-        verificationResultId: data.verificationResultId,
-        urgency
-      }
-    });
-
-    return { success: true, notificationSent: true };
+    return { success: true, notificationSent: Boolean(this.options.wsManager), urgency };
   }
 
   private async executeEscalate(action: WorkflowAction, data: any): Promise<any> {
@@ -539,8 +736,8 @@ export class WorkflowEngine {
     await this.prisma.liftTokenEvent.create({
       data: {
         liftTokenId: data.liftTokenId,
-        eventType: 'VERIFICATION_ESCALATED',
-        eventData: escalation
+        type: 'VERIFICATION_ESCALATED',
+        payload: this.toJson(escalation)
       }
     });
 
@@ -558,7 +755,9 @@ export class WorkflowEngine {
         where: { id: data.verificationResultId },
         data: {
           verified: false,
-          verifiedAt: new Date(),
+          status: 'REJECTED',
+          reviewedBy: 'workflow',
+          reviewedAt: new Date(),
           notes: reason
         }
       });
@@ -568,8 +767,8 @@ export class WorkflowEngine {
     await this.prisma.liftTokenEvent.create({
       data: {
         liftTokenId: data.liftTokenId,
-        eventType: 'VERIFICATION_REJECTED',
-        eventData: {
+        type: 'VERIFICATION_REJECTED',
+        payload: {
           reason,
           allowResubmission,
           automated: true,
@@ -584,11 +783,18 @@ export class WorkflowEngine {
   private async executeScheduleRecheck(action: WorkflowAction, data: any): Promise<any> {
     const { scope, checks } = action.parameters;
 
+    if (!this.options.queueService) {
+      throw new Error('Queue service not configured');
+    }
+
     // Queue recheck job
-    await queueService.addVerificationJob({
-      type: 'quality_recheck',
+    await this.options.queueService.addVerificationJob({
+      verificationResultId: data.verificationResultId ?? 0,
+      methodId: data.methodId ?? 'quality_recheck',
+      liftTokenId: data.liftTokenId ?? 0,
       priority: 'low',
-      data: {
+      metadata: {
+        type: 'quality_recheck',
         scope,
         checks,
         scheduledAt: new Date()
@@ -598,23 +804,42 @@ export class WorkflowEngine {
     return { success: true, recheckScheduled: true, scope, checks };
   }
 
-  getExecution(executionId: string): WorkflowExecution | undefined {
-    return this.executions.get(executionId);
+  async getExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+    const record = await this.prisma.workflowExecution.findUnique({ where: { id: executionId } });
+    return record ? this.toExecution(record) : undefined;
   }
 
-  getExecutionHistory(limit: number = 100): WorkflowExecution[] {
-    return Array.from(this.executions.values())
-      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
-      .slice(0, limit);
+  async getExecutionHistory(filter: ExecutionHistoryFilter = {}): Promise<{ executions: WorkflowExecution[]; total: number }> {
+    const where: Prisma.WorkflowExecutionWhereInput = {
+      ...(filter.triggerId && { triggerId: filter.triggerId }),
+      ...(filter.status && { status: filter.status }),
+      ...(filter.liftTokenId !== undefined && { liftTokenId: filter.liftTokenId })
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.workflowExecution.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        take: filter.limit ?? 100,
+        skip: filter.offset ?? 0
+      }),
+      this.prisma.workflowExecution.count({ where })
+    ]);
+
+    return { executions: records.map(record => this.toExecution(record)), total };
   }
 
-  startPeriodicTriggerCheck(intervalMinutes: number = 5): void {
+  startPeriodicTriggerCheck(intervalMinutes: number = 1): void {
     if (this.intervalId) {
       clearInterval(this.intervalId);
     }
 
     this.intervalId = setInterval(async () => {
-      await this.checkTimeBasedTriggers();
+      try {
+        await this.checkTimeBasedTriggers();
+      } catch (error) {
+        this.options.logger?.error({ error }, 'Scheduled workflow check failed');
+      }
     }, intervalMinutes * 60000);
   }
 
@@ -625,49 +850,177 @@ export class WorkflowEngine {
     }
   }
 
-  private async checkTimeBasedTriggers(): Promise<void> {
-    const now = new Date();
-    
-    for (const trigger of this.triggers.values()) {
-      if (!trigger.enabled) continue;
+  /**
+   * Try to take or renew the scheduler lease. Only the holder fires
+   * scheduled triggers; the lease lapses if the holder stops renewing.
+   */
+  async acquireSchedulerLease(now: Date = new Date()): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + this.leaseTtlMs);
+
+    const renewed = await this.prisma.workflowLease.updateMany({
+      where: {
+        name: SCHEDULER_LEASE,
+        OR: [
+          { holderId: this.instanceId },
+          { expiresAt: { lt: now } }
+        ]
+      },
+      data: { holderId: this.instanceId, expiresAt }
+    });
 
-      // Check for time-based conditions
-      const timeConditions = trigger.conditions.filter(c => c.type === 'time_based');
-      if (timeConditions.length === 0) continue;
+    if (renewed.count > 0) {
+      return true;
+    }
 
-      // Simple cron-like checking (would be replaced with proper cron implementation)
-      for (const condition of timeConditions) {
-        if (condition.field === 'schedule' && this.shouldTriggerSchedule(condition.value, now)) {
-          await this.executeTrigger(trigger, { liftTokenId: 0, scheduled: true });
-        }
-      }
+    try {
+      await this.prisma.workflowLease.create({
+        data: { name: SCHEDULER_LEASE, holderId: this.instanceId, expiresAt }
+      });
+      return true;
+    } catch (error) {
+      if (isUniqueViolation(error)) return false;
+      throw error;
     }
   }
 
-  private shouldTriggerSchedule(cronExpression: string, now: Date): boolean {
-    // Simplified cron checking - in production would use a proper cron library
-    // Format: minute hour day month dayOfWeek
-    // Example: "0 2 * * *" = daily at 2 AM
-    
-    if (cronExpression === '0 2 * * *') {
-      return now.getHours() === 2 && now.getMinutes() === 0;
+  async releaseSchedulerLease(): Promise<void> {
+    await this.prisma.workflowLease.deleteMany({
+      where: { name: SCHEDULER_LEASE, holderId: this.instanceId }
+    });
+  }
+
+  async checkTimeBasedTriggers(now: Date = new Date()): Promise<void> {
+    if (!(await this.acquireSchedulerLease(now))) {
+      return;
+    }
+
+    const records = await this.prisma.workflowTrigger.findMany({
+      where: {
+        enabled: true,
+        schedule: { not: null },
+        OR: [
+          { nextRunAt: null },
+          { nextRunAt: { lte: now } }
+        ]
+      },
+      include: triggerInclude
+    });
+
+    for (const record of records) {
+      const trigger = this.toTrigger(record);
+      const schedule = parseCron(record.schedule!);
+      const nextRunAt = nextCronRun(schedule, now, record.timezone);
+
+      // Advance the cursor first (compare-and-set on the previous value) so a
+      // slow execution can't be picked up again on the next tick
+      const advanced = await this.prisma.workflowTrigger.updateMany({
+        where: { id: record.id, nextRunAt: record.nextRunAt },
+        data: { nextRunAt }
+      });
+
+      // Newly scheduled triggers only get their first run time
+      if (advanced.count === 0 || !record.nextRunAt) continue;
+
+      const scheduledFor = record.nextRunAt;
+      const context = await this.buildEvaluationContext({ scheduled: true }, scheduledFor);
+
+      if (!this.evaluateConditions(trigger.conditions, context)) continue;
+
+      await this.executeTrigger(trigger, { scheduled: true }, {
+        source: 'schedule',
+        idempotencyKey: `${trigger.id}:schedule:${scheduledFor.toISOString()}`,
+        scheduledFor
+      });
     }
-    
-    return false;
   }
 
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     this.stopPeriodicTriggerCheck();
-    
-    // Clean up old executions (keep last 1000)
-    const executions = Array.from(this.executions.entries())
-      .sort(([,a], [,b]) => b.startedAt.getTime() - a.startedAt.getTime());
-    
-    if (executions.length > 1000) {
-      const toRemove = executions.slice(1000);
-      toRemove.forEach(([id]) => this.executions.delete(id));
+    await this.releaseSchedulerLease();
+  }
+
+  private resolveScheduling(conditions: WorkflowCondition[]): { schedule: string | null; timezone: string; nextRunAt: Date | null } {
+    const scheduling = getTriggerSchedule(conditions);
+    if (!scheduling) {
+      return { schedule: null, timezone: 'UTC', nextRunAt: null };
     }
+
+    // Throws CronParseError for invalid expressions
+    const schedule = parseCron(scheduling.schedule);
+
+    return {
+      schedule: scheduling.schedule,
+      timezone: scheduling.timezone,
+      nextRunAt: nextCronRun(schedule, new Date(), scheduling.timezone)
+    };
+  }
+
+  private toConditionRows(conditions: WorkflowCondition[]) {
+    return conditions.map((condition, position) => ({
+      position,
+      type: condition.type,
+      field: condition.field,
+      operator: condition.operator,
+      value: this.toJson(condition.value),
+      metadata: condition.metadata === undefined ? undefined : this.toJson(condition.metadata)
+    }));
+  }
+
+  private toActionRows(actions: WorkflowAction[]) {
+    return actions.map((action, position) => ({
+      position,
+      type: action.type,
+      parameters: this.toJson(action.parameters ?? {}),
+      delayMinutes: action.delay
+    }));
   }
-}
 
-export const workflowEngine = new WorkflowEngine(new PrismaClient());
\ No newline at end of file
+  private toTrigger(record: TriggerRecord): WorkflowTrigger {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description ?? '',
+      enabled: record.enabled,
+      priority: record.priority as WorkflowTrigger['priority'],
+      cooldown: record.cooldownMinutes,
+      lastTriggered: record.lastTriggeredAt ?? undefined,
+      schedule: record.schedule ?? undefined,
+      timezone: record.timezone,
+      nextRunAt: record.nextRunAt ?? undefined,
+      isDefault: record.isDefault,
+      conditions: record.conditions.map(condition => ({
+        type: condition.type as WorkflowCondition['type'],
+        field: condition.field,
+        operator: condition.operator as WorkflowCondition['operator'],
+        value: condition.value,
+        ...(condition.metadata !== null && { metadata: condition.metadata })
+      })),
+      actions: record.actions.map(action => ({
+        type: action.type as WorkflowAction['type'],
+        parameters: action.parameters,
+        ...(action.delayMinutes !== null && { delay: action.delayMinutes })
+      }))
+    };
+  }
+
+  private toExecution(record: Prisma.WorkflowExecutionGetPayload<{}>): WorkflowExecution {
+    return {
+      id: record.id,
+      workflowId: record.triggerId,
+      idempotencyKey: record.idempotencyKey,
+      source: record.source,
+      liftTokenId: record.liftTokenId ?? undefined,
+      verificationResultId: record.verificationResultId ?? undefined,
+      status: record.status as WorkflowExecution['status'],
+      scheduledFor: record.scheduledFor ?? undefined,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt ?? undefined,
+      error: record.error ?? undefined,
+      executedActions: record.executedActions as unknown as WorkflowExecution['executedActions']
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value ?? null));
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Minimal XML reader for the bank and sanctions list files we ingest:
+ * elements, attributes, text, CDATA and the predefined and numeric entities.
+ * These formats carry no mixed content, so element text is trimmed.
+ */
+
+export interface XmlElement {
+  name: string; // Local name, namespace prefix stripped
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export function child(node: XmlElement | null | undefined, name: string): XmlElement | undefined {
+  return node?.children.find(c => c.name === name);
+}
+
+export function children(node: XmlElement | null | undefined, name: string): XmlElement[] {
+  return node?.children.filter(c => c.name === name) ?? [];
+}
+
+export function text(node: XmlElement | null | undefined, ...path: string[]): string | undefined {
+  let current = node ?? undefined;
+  for (const name of path) {
+    current = child(current, name);
+  }
+  return current?.text || undefined;
+}
+
+export function parseXml(contents: string): XmlElement {
+  const root: XmlElement = { name: '#root', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tag = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = tag.exec(contents)) !== null) {
+    if (match.index !== consumed) break;
+    consumed = tag.lastIndex;
+
+    const [, cdata, closing, qualifiedName, attributeText, selfClosing, characters] = match;
+    const current = stack[stack.length - 1]!;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (characters !== undefined) {
+      current.text += decodeEntities(characters);
+    } else if (qualifiedName) {
+      const name = qualifiedName.replace(/^[\w.-]+:/, '');
+      if (closing) {
+        if (current.name !== name || stack.length === 1) {
+          throw new Error(`Malformed XML: unexpected </${qualifiedName}>`);
+        }
+        current.text = current.text.trim();
+        stack.pop();
+      } else {
+        const element: XmlElement = { name, attributes: parseAttributes(attributeText ?? ''), children: [], text: '' };
+        current.children.push(element);
+        if (!selfClosing) stack.push(element);
+      }
+    }
+  }
+
+  if (consumed !== contents.length) {
+    throw new Error(`Malformed XML near offset ${consumed}`);
+  }
+  if (stack.length !== 1 || root.children.length !== 1) {
+    throw new Error('Malformed XML: expected a single root element');
+  }
+  return root.children[0]!;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of source.matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name!] = decodeEntities(double ?? single ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+    }
+  });
+}
@@ -4,6 +4,16 @@ import rateLimit from "@fastify/rate-limit";
 import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from "fastify";
 import { getEnv } from "../types/env.js";
 import { redis } from "../lib/queue-service";
+import { ApiTokenService, ApiScope, allowsProject, isApiToken, missingScopes, scopePermissionsFor } from "../lib/api-tokens.js";
+import { RBACService } from "../lib/rbac.js";
+
+export interface RequireScopesOptions {
+  /**
+   * Project the request acts on, for tokens restricted to projects. Routes
+   * without one reject restricted tokens.
+   */
+  projectId?: (request: FastifyRequest) => number | undefined | Promise<number | undefined>;
+}
 
 async function securityPlugin(app: FastifyInstance, options: FastifyPluginOptions) {
   const env = getEnv();
@@ -75,48 +85,122 @@ async function securityPlugin(app: FastifyInstance, options: FastifyPluginOption
 
   // Enhanced verification-specific security features
   
-  // API Key validation middleware
-  app.decorate('requireApiKey', (requiredScopes: string[] = []) => {
+  // Scoped access for API tokens. Bearer values in API token format
+  // (orn_pat_..., orn_sk_...) must carry every required scope and, when
+  // restricted to projects, the route's project. Privileged scopes (admin,
+  // mint:approve, finance:pay) also need the wallet's RBAC permission, on the
+  // route's project when it has one: for sessions, which carry no scopes, and
+  // for token owners, whose roles may have changed since the token was made.
+  const apiTokens = new ApiTokenService(app);
+  const rbac = new RBACService(app);
+
+  app.decorate('requireScopes', (requiredScopes: ApiScope[] = [], options: RequireScopesOptions = {}) => {
+    const permissions = scopePermissionsFor(requiredScopes);
+
+    const missingPermission = async (userId: number, projectId: number | undefined) => {
+      for (const permission of permissions) {
+        if (!(await rbac.hasPermission(userId, permission, projectId))) {
+          return permission;
+        }
+      }
+      return undefined;
+    };
+
     return async (request: FastifyRequest, reply: FastifyReply) => {
       const authHeader = request.headers.authorization;
-      
-      if (!authHeader || !authHeader.startsWith('Bearer ')) {
-        return reply.code(401).send({ 
-          error: 'Unauthorized', 
-          message: 'Missing or invalid authorization header' 
-        });
+      const bearer = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+
+      if (!bearer || !isApiToken(bearer)) {
+        await (app as any).authenticate(request, reply);
+        if (reply.sent || !request.user) {
+          return;
+        }
+
+        const { userId } = request.user;
+        const projectId = permissions.length > 0 && options.projectId ? await options.projectId(request) : undefined;
+        const permission = await missingPermission(userId, projectId);
+        if (permission) {
+          await logSecurityEvent('scope_violation', getClientId(request), {
+            userId,
+            requiredScopes,
+            permission,
+            endpoint: request.url
+          });
+
+          return reply.code(403).send({
+            error: 'Forbidden',
+            message: `Insufficient permissions for scopes: ${requiredScopes.join(', ')}`
+          });
+        }
+        return;
       }
 
-      const token = authHeader.substring(7);
-      
-      // Basic token validation (would be enhanced with proper JWT validation)
-      if (token.length < 32) {
-        return reply.code(401).send({ 
-          error: 'Unauthorized', 
-          message: 'Invalid token format' 
+      const result = await apiTokens.authenticate(bearer, request.ip);
+      if (!result.valid) {
+        await logSecurityEvent('invalid_api_token', getClientId(request), {
+          reason: result.reason,
+          endpoint: request.url
+        });
+
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: result.reason === 'revoked' ? 'API token revoked' : 'API token expired or invalid'
         });
       }
 
-      // Extract scopes from token (simplified)
-      const tokenScopes = extractTokenScopes(token);
-      
-      // Check required scopes
-      const hasRequiredScopes = requiredScopes.every(scope => tokenScopes.includes(scope));
-      if (requiredScopes.length > 0 && !hasRequiredScopes) {
-        await logSecurityEvent('scope_violation', request.ip, {
+      const { token, user } = result;
+      request.user = { userId: user.id, address: user.address };
+      request.apiToken = token;
+
+      const missing = missingScopes(token.scopes, requiredScopes);
+      if (missing.length > 0) {
+        await logSecurityEvent('scope_violation', getClientId(request), {
+          tokenId: token.id,
           requiredScopes,
-          tokenScopes,
+          tokenScopes: token.scopes,
           endpoint: request.url
         });
-        
-        return reply.code(403).send({ 
-          error: 'Forbidden', 
-          message: `Missing required scopes: ${requiredScopes.filter(s => !tokenScopes.includes(s)).join(', ')}` 
+
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: `Missing required scopes: ${missing.join(', ')}`
         });
       }
 
-      // Add scopes to request for later use
-      (request as any).tokenScopes = tokenScopes;
+      const projectId = (token.projectIds.length > 0 || permissions.length > 0) && options.projectId
+        ? await options.projectId(request)
+        : undefined;
+
+      if (token.projectIds.length > 0) {
+        if (!allowsProject(token, projectId)) {
+          await logSecurityEvent('project_scope_violation', getClientId(request), {
+            tokenId: token.id,
+            projectId,
+            tokenProjectIds: token.projectIds,
+            endpoint: request.url
+          });
+
+          return reply.code(403).send({
+            error: 'Forbidden',
+            message: 'API token is not authorized for this project'
+          });
+        }
+      }
+
+      const permission = await missingPermission(user.id, projectId);
+      if (permission) {
+        await logSecurityEvent('scope_violation', getClientId(request), {
+          tokenId: token.id,
+          requiredScopes,
+          permission,
+          endpoint: request.url
+        });
+
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: `Token owner lacks the permissions for scopes: ${requiredScopes.join(', ')}`
+        });
+      }
     };
   });
 
@@ -191,7 +275,7 @@ async function securityPlugin(app: FastifyInstance, options: FastifyPluginOption
 
   // Security metrics endpoint
   app.get('/security/metrics', {
-    preHandler: app.requireApiKey(['admin'])
+    preHandler: app.requireScopes(['admin'])
   }, async (request, reply) => {
     const metrics = await getSecurityMetrics();
     return { success: true, metrics };
@@ -199,13 +283,6 @@ async function securityPlugin(app: FastifyInstance, options: FastifyPluginOption
 }
 
 // Helper functions
-function extractTokenScopes(token: string): string[] {
-  // Simplified scope extraction - in production would decode JWT properly
-  if (token.includes('admin')) return ['admin', 'verify', 'read', 'write'];
-  if (token.includes('verify')) return ['verify', 'read'];
-  return ['read'];
-}
-
 function getClientId(request: FastifyRequest): string {
   const ip = request.ip;
   const userAgent = request.headers['user-agent'] || '';
@@ -399,7 +476,7 @@ export default fp(securityPlugin, {
 // Type augmentation
 declare module 'fastify' {
   interface FastifyInstance {
-    requireApiKey: (requiredScopes?: string[]) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireScopes: (requiredScopes?: ApiScope[], options?: RequireScopesOptions) => (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     verificationRateLimit: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
     validateVerificationRequest: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
   }
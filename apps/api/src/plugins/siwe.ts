@@ -2,8 +2,8 @@
 import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify'
 import fp from 'fastify-plugin'
 import { SiweMessage } from 'siwe'
-import { randomBytes } from 'crypto'
 import { z } from 'zod'
+import { SessionService } from '../lib/session'
 
 // Validation schemas
 const NonceRequestSchema = z.object({})
@@ -23,44 +23,20 @@ interface SiwePluginOptions {
 }
 
 interface SessionData {
+  sid: string
+  userId: number
   address: string
   chainId: number
   iat: number
   exp: number
 }
 
-// Nonce storage (in production, use Redis)
-const nonceStore = new Map<string, { nonce: string; expires: number }>()
-
-// Clean expired nonces every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, value] of nonceStore.entries()) {
-    if (value.expires < now) {
-      nonceStore.delete(key)
-    }
-  }
-}, 5 * 60 * 1000)
-
-declare module 'fastify' {
-  interface FastifyRequest {
-    user?: {
-      address: string
-      chainId: number
-    }
-  }
-}
-
 async function siwePlugin(
   fastify: FastifyInstance,
   options: SiwePluginOptions
 ) {
   const { domain, origin, sessionTtl = 7 * 24 * 60 * 60 } = options // 7 days default
-
-  // Helper to generate secure nonce
-  function generateNonce(): string {
-    return randomBytes(16).toString('base64url')
-  }
+  const sessions = new SessionService(fastify)
 
   // Helper to get client IP
   function getClientIp(request: FastifyRequest): string {
@@ -77,14 +53,16 @@ async function siwePlugin(
     try {
       const token = await request.jwtVerify<SessionData>()
       
-      // Check if session is still valid
-      if (token.exp < Math.floor(Date.now() / 1000)) {
-        reply.code(401).send({ error: 'Session expired' })
+      // Check if session is still valid and hasn't been revoked
+      const result = await sessions.validateSession(token.sid)
+      if (!result.valid) {
+        reply.code(401).send({ error: result.reason === 'revoked' ? 'Session revoked' : 'Session expired' })
         return
       }
 
       // Populate user data
       request.user = {
+        userId: token.userId,
         address: token.address,
         chainId: token.chainId
       }
@@ -113,12 +91,8 @@ async function siwePlugin(
       }
     }
   }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const nonce = generateNonce()
     const clientIp = getClientIp(request)
-    const expires = Date.now() + (10 * 60 * 1000) // 10 minutes
-    
-    // Store nonce with client IP for verification
-    nonceStore.set(`${clientIp}:${nonce}`, { nonce, expires })
+    const { nonce } = await sessions.issueNonce(clientIp)
     
     fastify.log.info({ nonce, clientIp }, 'Generated SIWE nonce')
     
@@ -182,11 +156,8 @@ async function siwePlugin(
         return reply.code(400).send({ error: 'Invalid origin' })
       }
       
-      // Check nonce exists and hasn't expired
-      const nonceKey = `${clientIp}:${siweMessage.nonce}`
-      const storedNonce = nonceStore.get(nonceKey)
-      
-      if (!storedNonce || storedNonce.expires < Date.now()) {
+      // Consume the nonce so the message can't be replayed
+      if (!siweMessage.nonce || !(await sessions.consumeNonce(siweMessage.nonce))) {
         return reply.code(400).send({ error: 'Invalid or expired nonce' })
       }
       
@@ -201,9 +172,6 @@ async function siwePlugin(
         return reply.code(400).send({ error: 'Invalid signature' })
       }
       
-      // Clean up used nonce
-      nonceStore.delete(nonceKey)
-      
       // Get or create user in database
       let user = await fastify.prisma.user.findUnique({
         where: { address: siweMessage.address.toLowerCase() }
@@ -218,33 +186,17 @@ async function siwePlugin(
         fastify.log.info({ address: user.address }, 'Created new user')
       }
       
-      // Create session in database
-      const sessionToken = randomBytes(32).toString('hex')
-      const expiresAt = new Date(Date.now() + (sessionTtl * 1000))
-      
-      await fastify.prisma.session.create({
-        data: {
-          id: sessionToken,
-          userId: user.id,
-          token: sessionToken,
-          expiresAt,
-          metadata: {
-            chainId: siweMessage.chainId,
-            issuedAt: siweMessage.issuedAt,
-            clientIp
-          }
-        }
-      })
-      
-      // Create JWT token
-      const jwtPayload: SessionData = {
-        address: user.address,
-        chainId: siweMessage.chainId || 1,
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(expiresAt.getTime() / 1000)
-      }
-      
-      const token = await reply.jwtSign(jwtPayload)
+      // Create session in database and sign a JWT referencing it
+      const { token } = await sessions.createSession(
+        user,
+        sessionTtl,
+        {
+          chainId: siweMessage.chainId || 1,
+          clientIp,
+          userAgent: request.headers['user-agent']
+        },
+        (payload, expiresIn) => reply.jwtSign(payload, { expiresIn })
+      )
       
       fastify.log.info({ 
         address: user.address, 
@@ -297,17 +249,8 @@ async function siwePlugin(
     try {
       const decoded = await request.jwtVerify<SessionData>()
       
-      // Find and delete the session from database
-      await fastify.prisma.session.deleteMany({
-        where: {
-          user: {
-            address: decoded.address
-          },
-          expiresAt: {
-            gt: new Date()
-          }
-        }
-      })
+      // Revoke the current session
+      await sessions.revokeSession(decoded.userId, decoded.sid)
       
       fastify.log.info({ address: decoded.address }, 'User logged out')
       
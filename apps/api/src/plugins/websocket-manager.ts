@@ -0,0 +1,11 @@
+import fp from "fastify-plugin";
+import type { FastifyPluginAsync } from "fastify";
+import { WebSocketManager } from "../lib/websocket-manager";
+
+// Decorated at the root so services outside the websocket routes (e.g. the
+// indexer) can publish to subscribed clients
+const websocketManagerPlugin: FastifyPluginAsync = async (app) => {
+  app.decorate("wsManager", new WebSocketManager(app));
+};
+
+export default fp(websocketManagerPlugin);
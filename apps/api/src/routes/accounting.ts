@@ -0,0 +1,299 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { prisma } from '@orenna/db';
+import { AccountingExportService } from '../lib/accounting-export';
+import { requireAuth } from '../lib/authorization.js';
+import { logger } from '../utils/logger';
+
+// Request/Response schemas
+const AccountMappingInputSchema = Type.Object({
+  mappingType: Type.Union([Type.Literal('WBS'), Type.Literal('VENDOR'), Type.Literal('DEFAULT')]),
+  sourceKey: Type.String({ minLength: 1, maxLength: 50 }),
+  accountCode: Type.String({ minLength: 1, maxLength: 50 }),
+  accountName: Type.Optional(Type.String({ maxLength: 159 })),
+  subledger: Type.Optional(Type.String({ maxLength: 100 })),
+});
+
+const AccountMappingSchema = Type.Object({
+  id: Type.Number(),
+  projectId: Type.Number(),
+  mappingType: Type.String(),
+  sourceKey: Type.String(),
+  accountCode: Type.String(),
+  accountName: Type.Union([Type.String(), Type.Null()]),
+  subledger: Type.Union([Type.String(), Type.Null()]),
+  updatedBy: Type.String(),
+  updatedAt: Type.String(),
+});
+
+const ExportFormatSchema = Type.Union([
+  Type.Literal('QUICKBOOKS_IIF'),
+  Type.Literal('XERO_CSV'),
+  Type.Literal('GL_CSV'),
+]);
+
+const ExportRequestSchema = Type.Object({
+  projectId: Type.Number(),
+  format: ExportFormatSchema,
+  periodStart: Type.String({ format: 'date-time' }),
+  periodEnd: Type.String({ format: 'date-time' }),
+  dryRun: Type.Optional(Type.Boolean()),
+});
+
+const AccountingExportSchema = Type.Object({
+  id: Type.Number(),
+  projectId: Type.Number(),
+  format: Type.String(),
+  periodStart: Type.String(),
+  periodEnd: Type.String(),
+  fileName: Type.String(),
+  entryCount: Type.Number(),
+  exportedBy: Type.String(),
+  createdAt: Type.String(),
+});
+
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
+function formatMapping(mapping: any) {
+  return {
+    id: mapping.id,
+    projectId: mapping.projectId,
+    mappingType: mapping.mappingType,
+    sourceKey: mapping.sourceKey,
+    accountCode: mapping.accountCode,
+    accountName: mapping.accountName,
+    subledger: mapping.subledger,
+    updatedBy: mapping.updatedBy,
+    updatedAt: mapping.updatedAt.toISOString(),
+  };
+}
+
+function formatExport(accountingExport: any) {
+  return {
+    id: accountingExport.id,
+    projectId: accountingExport.projectId,
+    format: accountingExport.format,
+    periodStart: accountingExport.periodStart.toISOString(),
+    periodEnd: accountingExport.periodEnd.toISOString(),
+    fileName: accountingExport.fileName,
+    entryCount: accountingExport.entryCount,
+    exportedBy: accountingExport.exportedBy,
+    createdAt: accountingExport.createdAt.toISOString(),
+  };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function accountingRoutes(fastify: FastifyInstance) {
+  const exportService = new AccountingExportService(prisma);
+
+  // Register authentication requirement for all routes
+  fastify.addHook('preHandler', requireAuth);
+
+  /**
+   * Get a project's chart-of-accounts mapping
+   */
+  fastify.get('/projects/:projectId/account-mappings', {
+    schema: {
+      tags: ['Accounting'],
+      summary: 'Get the chart-of-accounts mapping for a project',
+      params: Type.Object({ projectId: Type.Number() }),
+      response: {
+        200: Type.Object({ mappings: Type.Array(AccountMappingSchema) }),
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { projectId: number } }>, reply: FastifyReply) => {
+    try {
+      const mappings = await exportService.listAccountMappings(request.params.projectId);
+      reply.send({ mappings: mappings.map(formatMapping) });
+    } catch (error) {
+      logger.error('Failed to get account mappings', { error: errorMessage(error), projectId: request.params.projectId });
+      reply.code(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to get account mappings',
+      });
+    }
+  });
+
+  /**
+   * Replace a project's chart-of-accounts mapping
+   */
+  fastify.put('/projects/:projectId/account-mappings', {
+    schema: {
+      tags: ['Accounting'],
+      summary: 'Replace the chart-of-accounts mapping for a project',
+      params: Type.Object({ projectId: Type.Number() }),
+      body: Type.Object({ mappings: Type.Array(AccountMappingInputSchema) }),
+      response: {
+        200: Type.Object({ mappings: Type.Array(AccountMappingSchema) }),
+        400: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { projectId: number };
+    Body: { mappings: (typeof AccountMappingInputSchema.static)[] };
+  }>, reply: FastifyReply) => {
+    try {
+      const mappings = await exportService.setAccountMappings(
+        request.params.projectId,
+        request.body.mappings,
+        request.user!.address
+      );
+      reply.send({ mappings: mappings.map(formatMapping) });
+    } catch (error) {
+      logger.error('Failed to update account mappings', { error: errorMessage(error), projectId: request.params.projectId });
+      reply.code(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * Export a period's journals in QuickBooks IIF, Xero manual journal CSV or generic GL CSV
+   */
+  fastify.post('/exports', {
+    schema: {
+      tags: ['Accounting'],
+      summary: 'Export period journals for the accounting system',
+      body: ExportRequestSchema,
+      response: {
+        201: Type.Object({
+          export: Type.Union([AccountingExportSchema, Type.Null()]),
+          fileName: Type.String(),
+          contentType: Type.String(),
+          content: Type.String(),
+          journalCount: Type.Number(),
+          skippedCount: Type.Number(),
+        }),
+        400: ErrorSchema,
+        409: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: typeof ExportRequestSchema.static }>, reply: FastifyReply) => {
+    try {
+      const { projectId, format, periodStart, periodEnd, dryRun } = request.body;
+
+      logger.info('Exporting accounting journals', { projectId, format, periodStart, periodEnd, dryRun });
+
+      const result = await exportService.createExport({
+        projectId,
+        format,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(periodEnd),
+        exportedBy: request.user!.address,
+        dryRun,
+      });
+
+      reply.code(201).send({
+        export: result.export ? formatExport(result.export) : null,
+        fileName: result.fileName,
+        contentType: result.contentType,
+        content: result.content,
+        journalCount: result.journals.length,
+        skippedCount: result.skippedCount,
+      });
+    } catch (error) {
+      const message = errorMessage(error);
+      logger.error('Failed to export accounting journals', { error: message, projectId: request.body.projectId });
+
+      if (message.includes('already been exported') || message.includes('No unexported entries')) {
+        reply.code(409).send({
+          statusCode: 409,
+          error: 'Conflict',
+          message,
+        });
+      } else {
+        reply.code(400).send({
+          statusCode: 400,
+          error: 'Bad Request',
+          message,
+        });
+      }
+    }
+  });
+
+  /**
+   * List a project's accounting exports
+   */
+  fastify.get('/exports', {
+    schema: {
+      tags: ['Accounting'],
+      summary: 'List accounting exports for a project',
+      querystring: Type.Object({
+        projectId: Type.Number(),
+        page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
+        limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
+      }),
+      response: {
+        200: Type.Object({
+          exports: Type.Array(AccountingExportSchema),
+          pagination: Type.Object({
+            page: Type.Number(),
+            limit: Type.Number(),
+            total: Type.Number(),
+            totalPages: Type.Number(),
+          }),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: { projectId: number; page?: number; limit?: number } }>, reply: FastifyReply) => {
+    try {
+      const { projectId, page = 1, limit = 20 } = request.query;
+      const { exports, total } = await exportService.listExports(projectId, {
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      reply.send({
+        exports: exports.map(formatExport),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to list accounting exports', { error: errorMessage(error) });
+      reply.code(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to list accounting exports',
+      });
+    }
+  });
+
+  /**
+   * Download a previously generated export file
+   */
+  fastify.get('/exports/:exportId/file', {
+    schema: {
+      tags: ['Accounting'],
+      summary: 'Download an accounting export file',
+      params: Type.Object({ exportId: Type.Number() }),
+    },
+  }, async (request: FastifyRequest<{ Params: { exportId: number } }>, reply: FastifyReply) => {
+    const accountingExport = await exportService.getExport(request.params.exportId);
+    if (!accountingExport) {
+      return reply.code(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: `Accounting export ${request.params.exportId} not found`,
+      });
+    }
+
+    reply
+      .header('Content-Type', accountingExport.format === 'QUICKBOOKS_IIF' ? 'text/plain' : 'text/csv')
+      .header('Content-Disposition', `attachment; filename="${accountingExport.fileName}"`)
+      .send(accountingExport.content);
+  });
+}
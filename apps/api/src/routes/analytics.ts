@@ -2,6 +2,9 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { AnalyticsService } from '../lib/analytics.js';
+import { AuditTrailService } from '../lib/audit-trail.js';
+import { renderPdfReport, sealReport } from '../lib/pdf/index.js';
+import { complianceReportPdf, ComplianceReportDocument } from '../lib/pdf/templates/compliance-report.js';
 
 // Validation schemas
 const AnalyticsQuerySchema = z.object({
@@ -17,6 +20,7 @@ const PaymentAnalyticsParamsSchema = z.object({
 
 export default async function analyticsRoutes(app: FastifyInstance) {
   const analyticsService = new AnalyticsService(app);
+  const auditTrail = new AuditTrailService(app);
 
   // Get payment analytics
   app.get('/analytics/payments', {
@@ -844,9 +848,11 @@ export default async function analyticsRoutes(app: FastifyInstance) {
       const filename = `${reportType}-compliance-${timestamp}`;
 
       if (format === 'pdf') {
+        const actor = (request.user as { address?: string } | undefined)?.address ?? 'anonymous';
+        const pdf = await generatePDFReport(auditTrail, report, actor);
         reply.header('Content-Type', 'application/pdf');
         reply.header('Content-Disposition', `attachment; filename="${filename}.pdf"`);
-        return generatePDFReport(report);
+        return reply.send(pdf);
       } else if (format === 'csv') {
         reply.header('Content-Type', 'text/csv');
         reply.header('Content-Disposition', `attachment; filename="${filename}.csv"`);
@@ -1591,9 +1597,18 @@ async function getEvidenceAppendices(app: FastifyInstance, reportData: any) {
   };
 }
 
-function generatePDFReport(report: any): string {
-  // This would use a PDF generation library
-  return JSON.stringify(report, null, 2); // Placeholder
+// The report is recorded in the audit chain first so its event hash can be
+// printed in every page footer
+async function generatePDFReport(audit: AuditTrailService, report: ComplianceReportDocument, actor: string): Promise<Buffer> {
+  const seal = await sealReport(audit, {
+    reportType: `compliance:${report.metadata.reportType}`,
+    reportId: report.metadata.reportId,
+    actor,
+    source: 'analytics',
+    content: report
+  });
+
+  return renderPdfReport(complianceReportPdf(report, seal));
 }
 
 function generateCSVReport(report: any, reportType: string): string {
@@ -0,0 +1,148 @@
+// apps/api/src/routes/api-tokens.ts
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { API_SCOPES, ApiScope, ApiTokenService, ApiTokenSummary, scopePermissionsFor } from '../lib/api-tokens.js';
+import { RBACService } from '../lib/rbac.js';
+
+// Validation schemas
+const CreateTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(['PERSONAL', 'SERVICE']).default('PERSONAL'),
+  scopes: z.array(z.enum(Object.keys(API_SCOPES) as [ApiScope, ...ApiScope[]])).min(1),
+  projectIds: z.array(z.number().int().positive()).max(50).default([]),
+  expiresInDays: z.number().int().positive().nullable().optional()
+});
+
+const TokenQuerySchema = z.object({
+  includeRevoked: z.enum(['true', 'false']).default('false').transform(value => value === 'true')
+});
+
+// Token management is limited to browser sessions so a leaked token cannot
+// mint or revoke others
+export default async function apiTokenRoutes(app: FastifyInstance) {
+  const apiTokens = new ApiTokenService(app);
+  const rbacService = new RBACService(app);
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.startsWith('Not authorized')) {
+      return reply.code(403).send({ error: message });
+    }
+    if (message.includes('scope') || message.includes('expir')) {
+      return reply.code(400).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: fallback });
+  }
+
+  function serialize(token: ApiTokenSummary) {
+    return {
+      id: token.id,
+      kind: token.kind,
+      name: token.name,
+      prefix: token.prefix,
+      scopes: token.scopes,
+      projectIds: token.projectIds,
+      createdAt: token.createdAt.toISOString(),
+      expiresAt: token.expiresAt?.toISOString() ?? null,
+      lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+      lastUsedIp: token.lastUsedIp,
+      revokedAt: token.revokedAt?.toISOString() ?? null
+    };
+  }
+
+  // Scopes a token can be granted
+  app.get('/auth/tokens/scopes', async () => {
+    return {
+      scopes: Object.entries(API_SCOPES).map(([scope, description]) => ({ scope, description }))
+    };
+  });
+
+  // The wallet's tokens; secrets are never returned after creation
+  app.get('/auth/tokens', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const parsed = TokenQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const tokens = await apiTokens.listTokens(request.user!.userId, parsed.data);
+      return { tokens: tokens.map(serialize) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list API tokens', {});
+    }
+  });
+
+  // Mint a personal access token, or a service key for platform admins
+  app.post('/auth/tokens', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const parsed = CreateTokenSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid token request', details: parsed.error.flatten() });
+    }
+
+    const { userId, address } = request.user!;
+    const { kind, scopes, projectIds } = parsed.data;
+
+    try {
+      if (kind === 'SERVICE' || scopes.includes('admin')) {
+        const allowed = await rbacService.hasPermission(userId, 'canManageServiceKeys');
+        if (!allowed) {
+          return reply.code(403).send({ error: 'Not authorized to create service keys or admin-scoped tokens' });
+        }
+      }
+
+      if (projectIds.length > 0) {
+        const found = await app.prisma.project.count({ where: { id: { in: projectIds } } });
+        if (found !== new Set(projectIds).size) {
+          return reply.code(404).send({ error: 'One or more projects not found' });
+        }
+      }
+
+      // A token can't carry a privileged scope its owner doesn't hold the
+      // permission for, on every project it is restricted to
+      for (const permission of scopePermissionsFor(scopes)) {
+        const held = projectIds.length > 0
+          ? (await Promise.all(projectIds.map(projectId => rbacService.hasPermission(userId, permission, projectId)))).every(Boolean)
+          : await rbacService.hasPermission(userId, permission);
+        if (!held) {
+          return reply.code(403).send({ error: `Not authorized to create tokens with scopes requiring ${permission}` });
+        }
+      }
+
+      const { token, apiToken } = await apiTokens.mintToken({ ...parsed.data, userId, createdBy: address });
+
+      // The plaintext token is only ever returned here
+      return reply.code(201).send({ token, apiToken: serialize(apiToken) });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create API token', { kind, scopes });
+    }
+  });
+
+  app.delete('/auth/tokens/:tokenId', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const tokenId = Number((request.params as { tokenId: string }).tokenId);
+    if (!Number.isInteger(tokenId) || tokenId <= 0) {
+      return reply.code(400).send({ error: 'Invalid token id' });
+    }
+
+    try {
+      const { userId, address } = request.user!;
+      const revoked = await apiTokens.revokeToken(userId, tokenId, address);
+      if (!revoked) {
+        return reply.code(404).send({ error: 'API token not found' });
+      }
+      return { success: true };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to revoke API token', { tokenId });
+    }
+  });
+}
@@ -25,11 +25,24 @@ const AnomalyDetectionSchema = z.object({
 export default async function auditRoutes(app: FastifyInstance) {
   const auditService = new AuditTrailService(app);
 
+  // Audit trails span every project, so they sit behind the platform admin scope
+  const adminOnly = app.requireScopes(['admin']);
+
+  app.addHook('onReady', async () => {
+    auditService.startPeriodicAnchoring();
+  });
+
+  app.addHook('onClose', async () => {
+    auditService.stopPeriodicAnchoring();
+  });
+
   // Get immutable audit trail for entity
   app.get('/audit/trail', {
+    preHandler: adminOnly,
     schema: {
       description: 'Get immutable audit trail with integrity verification',
       tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
         properties: {
@@ -117,9 +130,11 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Verify event integrity
   app.get('/audit/events/:eventId/verify', {
+    preHandler: adminOnly,
     schema: {
       description: 'Verify the integrity of a specific audit event',
       tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         required: ['eventId'],
@@ -139,8 +154,9 @@ export default async function auditRoutes(app: FastifyInstance) {
               properties: {
                 hashVerification: { type: 'object' },
                 chainLinkage: { type: 'object' },
-                ipfsBackup: { type: 'object' },
-                blockchainAnchor: { type: 'object' }
+                merkleInclusion: { type: 'object', additionalProperties: true },
+                ipfsBackup: { type: 'object', additionalProperties: true },
+                blockchainAnchor: { type: 'object', additionalProperties: true }
               }
             },
             verifiedAt: { type: 'string' }
@@ -167,9 +183,11 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Generate immutable chain proof
   app.get('/audit/entities/:entityType/:entityId/proof', {
+    preHandler: adminOnly,
     schema: {
       description: 'Generate cryptographic proof of audit chain integrity',
       tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
       params: {
         type: 'object',
         required: ['entityType', 'entityId'],
@@ -189,6 +207,34 @@ export default async function auditRoutes(app: FastifyInstance) {
             eventHashes: { type: 'array', items: { type: 'string' } },
             blockchainAnchors: { type: 'array', items: { type: 'string' } },
             ipfsBackups: { type: 'array', items: { type: 'string' } },
+            inclusionProofs: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  eventId: { type: 'string' },
+                  eventHash: { type: 'string' },
+                  batchId: { type: 'number' },
+                  status: { type: 'string' },
+                  merkleRoot: { type: 'string' },
+                  leafIndex: { type: 'number' },
+                  proof: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        position: { type: 'string', enum: ['left', 'right'] },
+                        hash: { type: 'string' }
+                      }
+                    }
+                  },
+                  ipfsCid: { type: 'string' },
+                  chainId: { type: 'number' },
+                  txHash: { type: 'string' },
+                  valid: { type: 'boolean' }
+                }
+              }
+            },
             generatedAt: { type: 'string' }
           }
         }
@@ -213,9 +259,11 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Detect audit anomalies
   app.post('/audit/anomalies/detect', {
+    preHandler: adminOnly,
     schema: {
       description: 'Detect anomalies and suspicious patterns in audit trails',
       tags: ['Audit', 'Security'],
+      security: [{ bearerAuth: [] }],
       body: {
         type: 'object',
         properties: {
@@ -308,7 +356,7 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Record audit event (for system use)
   app.post('/audit/events', {
-    preHandler: (app as any).authenticate,
+    preHandler: adminOnly,
     schema: {
       description: 'Record a new audit event (system use)',
       tags: ['Audit'],
@@ -321,7 +369,6 @@ export default async function auditRoutes(app: FastifyInstance) {
           action: { type: 'string' },
           entityType: { type: 'string' },
           entityId: { type: 'string' },
-          actor: { type: 'string' },
           source: { type: 'string' },
           details: { type: 'object' },
           blockchainTxHash: { type: 'string' },
@@ -355,7 +402,6 @@ export default async function auditRoutes(app: FastifyInstance) {
         action: string;
         entityType: string;
         entityId: string;
-        actor?: string;
         source?: string;
         details?: Record<string, any>;
         blockchainTxHash?: string;
@@ -369,7 +415,7 @@ export default async function auditRoutes(app: FastifyInstance) {
         action: body.action,
         entityType: body.entityType,
         entityId: body.entityId,
-        actor: body.actor || user.address,
+        actor: user.address,
         source: body.source || 'API',
         details: body.details || {},
         blockchainTxHash: body.blockchainTxHash,
@@ -395,9 +441,11 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Bulk integrity verification
   app.post('/audit/verify/bulk', {
+    preHandler: adminOnly,
     schema: {
       description: 'Verify integrity of multiple audit events in bulk',
       tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
       body: {
         type: 'object',
         required: ['eventIds'],
@@ -501,9 +549,11 @@ export default async function auditRoutes(app: FastifyInstance) {
 
   // Get audit statistics
   app.get('/audit/statistics', {
+    preHandler: adminOnly,
     schema: {
       description: 'Get audit trail statistics and health metrics',
       tags: ['Audit'],
+      security: [{ bearerAuth: [] }],
       querystring: {
         type: 'object',
         properties: {
@@ -1,34 +1,99 @@
-import { FastifyInstance } from "fastify";
-import { SiweMessage, generateNonce } from "siwe";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { SiweMessage, SiweError, SiweErrorType } from "siwe";
+import type { Address, Hex } from "viem";
 import { getEnv } from "../types/env.js";
+import { SessionService, SessionTokenPayload } from "../lib/session.js";
+import type { BlockchainService } from "../lib/blockchain.js";
+
+// The blockchain module builds its RPC clients from the environment when it
+// loads, so it is only pulled in once a login actually needs it
+function loadBlockchainService(): Promise<BlockchainService> {
+  return import("../lib/blockchain.js").then((module) => module.blockchainService);
+}
 
 export default async function authRoutes(app: FastifyInstance) {
   const env = getEnv();
+  const sessions = new SessionService(app);
 
-  // SIWE nonce endpoint
-  app.get("/auth/siwe/nonce", async (_req, reply) => {
-    const nonce = generateNonce();
-    const token = await reply.jwtSign({ nonce }, { expiresIn: "5m" });
-    reply.setCookie("nonce", token, {
+  function getClientIp(req: FastifyRequest): string {
+    return (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() || req.ip;
+  }
+
+  // EOA signatures are checked by siwe itself; if recovery doesn't match, the
+  // address may be a contract wallet (EIP-1271) or an undeployed one (EIP-6492)
+  async function verifySiweSignature(msg: SiweMessage, signature: string) {
+    await msg.verify(
+      {
+        signature,
+        nonce: msg.nonce,
+        domain: env.SIWE_DOMAIN
+      },
+      {
+        verificationFallback: async (_params, _opts, message) => {
+          const blockchainService = await loadBlockchainService();
+          const valid = await blockchainService.verifyContractWalletSignature(
+            message.address as Address,
+            message.prepareMessage(),
+            signature as Hex,
+            message.chainId || 1
+          ).catch((error) => {
+            app.log.warn({ error: error.message, address: message.address }, "Contract wallet signature check failed");
+            return false;
+          });
+
+          if (!valid) {
+            return {
+              success: false,
+              data: message,
+              error: new SiweError(SiweErrorType.INVALID_SIGNATURE, message.address)
+            };
+          }
+
+          app.log.info({ address: message.address, chainId: message.chainId }, "SIWE signature verified via contract wallet");
+          return { success: true, data: message };
+        }
+      }
+    );
+  }
+
+  async function issueSession(
+    req: FastifyRequest,
+    reply: FastifyReply,
+    user: { id: number; address: string },
+    chainId: number
+  ) {
+    const { token, session } = await sessions.createSession(
+      user,
+      parseInt(env.SIWE_SESSION_TTL),
+      {
+        chainId,
+        clientIp: getClientIp(req),
+        userAgent: req.headers["user-agent"]
+      },
+      (payload, expiresIn) => reply.jwtSign(payload, { expiresIn })
+    );
+
+    reply.setCookie("session", token, {
       path: "/",
       httpOnly: true,
       secure: env.NODE_ENV === 'production',
-      sameSite: env.NODE_ENV === 'production' ? 'none' : 'lax'
+      sameSite: env.NODE_ENV === 'production' ? 'none' : 'lax',
+      maxAge: parseInt(env.SIWE_SESSION_TTL) * 1000
     });
+
+    return session;
+  }
+
+  // SIWE nonce endpoint
+  app.get("/auth/siwe/nonce", async (req) => {
+    const { nonce } = await sessions.issueNonce(getClientIp(req));
     app.log.info({ nonce }, "Issued SIWE nonce");
     return { nonce };
   });
 
   // Legacy nonce endpoint (for backwards compatibility)
-  app.get("/auth/nonce", async (_req, reply) => {
-    const nonce = generateNonce();
-    const token = await reply.jwtSign({ nonce }, { expiresIn: "10m" });
-    reply.setCookie("nonce", token, { 
-      path: "/", 
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      sameSite: env.NODE_ENV === 'production' ? 'none' : 'lax'
-    });
+  app.get("/auth/nonce", async (req) => {
+    const { nonce } = await sessions.issueNonce(getClientIp(req));
     return { nonce };
   });
 
@@ -41,28 +106,13 @@ export default async function authRoutes(app: FastifyInstance) {
     }
 
     const { message, signature } = body;
-    const nonceToken = req.cookies["nonce"];
     app.log.info(
       {
-        hasNonceCookie: Boolean(nonceToken),
         signature: typeof signature === "string" ? signature.slice(0, 10) : undefined,
       },
       "Received SIWE verify request"
     );
 
-    if (!nonceToken) {
-      app.log.warn({ cookies: req.cookies }, "SIWE verify missing nonce");
-      return reply.code(401).send({ error: "Missing nonce" });
-    }
-
-    let decoded: any;
-    try {
-      decoded = await app.jwt.verify<{ nonce: string }>(nonceToken);
-    } catch (err) {
-      app.log.warn({ err }, "Failed to verify nonce token");
-      return reply.code(401).send({ error: "Invalid or expired nonce" });
-    }
-
     const msg = new SiweMessage(message);
     app.log.info(
       {
@@ -72,13 +122,12 @@ export default async function authRoutes(app: FastifyInstance) {
         uri: msg.uri,
         nonce: msg.nonce,
         issuedAt: msg.issuedAt,
-        decodedNonce: decoded.nonce,
       },
       "Parsed SIWE message"
     );
     
     // Chain allowlist validation
-    const allowedChains = [1, 11155111]; // Mainnet, Sepolia
+    const allowedChains = (await loadBlockchainService()).getSupportedChainIds();
     if (msg.chainId && !allowedChains.includes(msg.chainId)) {
       app.log.warn({ chainId: msg.chainId, allowedChains }, "SIWE chain not allowed");
       return reply.code(401).send({ error: "Chain not allowed" });
@@ -103,12 +152,14 @@ export default async function authRoutes(app: FastifyInstance) {
       return reply.code(401).send({ error: "Message too old" });
     }
 
+    // Nonces are single-use: a replayed message fails here even if the signature is valid
+    if (!msg.nonce || !(await sessions.consumeNonce(msg.nonce))) {
+      app.log.warn({ nonce: msg.nonce, address: msg.address }, "SIWE nonce unknown, expired or already used");
+      return reply.code(401).send({ error: "Invalid or expired nonce" });
+    }
+
     try {
-      await msg.verify({ 
-        signature, 
-        nonce: decoded.nonce,
-        domain: env.SIWE_DOMAIN 
-      });
+      await verifySiweSignature(msg, signature);
     } catch (error: any) {
       app.log.warn({ error: error.message, address: msg.address }, "SIWE verification failed");
       return reply.code(401).send({ error: "Invalid SIWE signature" });
@@ -130,28 +181,9 @@ export default async function authRoutes(app: FastifyInstance) {
       create: { address },
     });
 
-    // Create session with httpOnly cookie
-    const sessionDuration = `${env.SIWE_SESSION_TTL}s`;
-    const session = await reply.jwtSign(
-      { 
-        address: user.address,
-        userId: user.id,
-        chainId: msg.chainId || 1
-      }, 
-      { expiresIn: sessionDuration }
-    );
-
-    reply.setCookie("session", session, { 
-      path: "/", 
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      sameSite: env.NODE_ENV === 'production' ? 'none' : 'lax',
-      maxAge: parseInt(env.SIWE_SESSION_TTL) * 1000
-    });
-    
-    reply.clearCookie("nonce");
+    const session = await issueSession(req, reply, user, msg.chainId || 1);
 
-    app.log.info({ address: user.address, chainId: msg.chainId }, "User authenticated via SIWE");
+    app.log.info({ address: user.address, chainId: msg.chainId, sessionId: session.id }, "User authenticated via SIWE");
 
     return { 
       success: true,
@@ -161,6 +193,7 @@ export default async function authRoutes(app: FastifyInstance) {
         ensName: user.ensName,
         chainId: msg.chainId
       },
+      sessionId: session.id,
       isNewUser: !existingUser
     };
   });
@@ -174,28 +207,13 @@ export default async function authRoutes(app: FastifyInstance) {
     }
 
     const { message, signature } = body; // Only declare these ONCE
-    const nonceToken = req.cookies["nonce"];
     app.log.info(
       {
-        hasNonceCookie: Boolean(nonceToken),
         signature: typeof signature === "string" ? signature.slice(0, 10) : undefined,
       },
       "Received legacy SIWE verify request",
     );
 
-    if (!nonceToken) {
-      app.log.warn({ cookies: req.cookies }, "Legacy SIWE verify missing nonce");
-      return reply.code(401).send({ error: "Missing nonce" });
-    }
-
-    let decoded: any;
-    try {
-      decoded = await app.jwt.verify<{ nonce: string }>(nonceToken);
-    } catch (err) {
-      app.log.warn({ err }, "Failed to verify legacy nonce token");
-      return reply.code(401).send({ error: "Invalid or expired nonce" });
-    }
-
     const msg = new SiweMessage(message);
     app.log.info(
       {
@@ -203,7 +221,6 @@ export default async function authRoutes(app: FastifyInstance) {
         domain: msg.domain,
         uri: msg.uri,
         nonce: msg.nonce,
-        decodedNonce: decoded.nonce,
       },
       "Parsed legacy SIWE message",
     );
@@ -219,12 +236,13 @@ export default async function authRoutes(app: FastifyInstance) {
       return reply.code(401).send({ error: "Invalid origin" });
     }
 
+    if (!msg.nonce || !(await sessions.consumeNonce(msg.nonce))) {
+      app.log.warn({ nonce: msg.nonce, address: msg.address }, "Legacy SIWE nonce unknown, expired or already used");
+      return reply.code(401).send({ error: "Invalid or expired nonce" });
+    }
+
     try {
-      await msg.verify({ 
-        signature, 
-        nonce: decoded.nonce,
-        domain: env.SIWE_DOMAIN 
-      });
+      await verifySiweSignature(msg, signature);
     } catch (error: any) {
       app.log.warn({ error: error.message, address: msg.address }, "SIWE verification failed");
       return reply.code(401).send({ error: "Invalid SIWE signature" });
@@ -241,28 +259,9 @@ export default async function authRoutes(app: FastifyInstance) {
       create: { address },
     });
 
-    // Create session with longer duration
-    const sessionDuration = `${env.SIWE_SESSION_TTL}s`;
-    const session = await reply.jwtSign(
-      { 
-        address: user.address,
-        userId: user.id,
-        chainId: msg.chainId || 1
-      }, 
-      { expiresIn: sessionDuration }
-    );
-
-    reply.setCookie("session", session, { 
-      path: "/", 
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      sameSite: env.NODE_ENV === 'production' ? 'none' : 'lax',
-      maxAge: parseInt(env.SIWE_SESSION_TTL) * 1000
-    });
-    
-    reply.clearCookie("nonce");
+    const session = await issueSession(req, reply, user, msg.chainId || 1);
 
-    app.log.info({ address: user.address, chainId: msg.chainId }, "User authenticated via SIWE");
+    app.log.info({ address: user.address, chainId: msg.chainId, sessionId: session.id }, "User authenticated via SIWE");
 
     return { 
       success: true,
@@ -277,7 +276,12 @@ export default async function authRoutes(app: FastifyInstance) {
   // Session check endpoint
   app.get("/auth/session", async (req, reply) => {
     try {
-      const payload = await req.jwtVerify<{ address: string; userId: string; chainId?: number }>();
+      const payload = await req.jwtVerify<SessionTokenPayload>();
+      const result = await sessions.validateSession(payload.sid);
+      if (!result.valid) {
+        return reply.code(401).send({ error: "Not authenticated" });
+      }
+
       const user = await app.prisma.user.findUnique({ 
         where: { address: payload.address },
         select: {
@@ -297,19 +301,87 @@ export default async function authRoutes(app: FastifyInstance) {
         address: user.address,
         id: user.id,
         ensName: user.ensName,
-        chainId: payload.chainId
+        chainId: payload.chainId,
+        sessionId: payload.sid,
+        expiresAt: result.session.expiresAt.toISOString()
       };
     } catch {
       return reply.code(401).send({ error: "Not authenticated" });
     }
   });
 
-  app.post("/auth/logout", async (_req, reply) => {
+  app.post("/auth/logout", async (req, reply) => {
+    // Revoke the server-side session so the JWT can't be reused after logout
+    try {
+      const payload = await req.jwtVerify<SessionTokenPayload>();
+      if (payload.sid) {
+        await sessions.revokeSession(payload.userId, payload.sid);
+        app.log.info({ address: payload.address, sessionId: payload.sid }, "Session revoked on logout");
+      }
+    } catch {
+      // No valid session to revoke; still clear cookies
+    }
+
     reply.clearCookie("session");
     reply.clearCookie("nonce");
     return { success: true };
   });
 
+  // List the wallet's active sessions
+  app.get("/auth/sessions", { preHandler: (app as any).authenticate }, async (req) => {
+    const payload = req.user as SessionTokenPayload;
+    const active = await sessions.listActiveSessions(payload.userId);
+
+    return {
+      sessions: active.map(session => {
+        const metadata = (session.metadata ?? {}) as Record<string, any>;
+        return {
+          id: session.id,
+          current: session.id === payload.sid,
+          chainId: metadata.chainId,
+          clientIp: metadata.clientIp,
+          userAgent: metadata.userAgent,
+          createdAt: session.createdAt.toISOString(),
+          lastSeenAt: session.lastSeenAt?.toISOString() ?? null,
+          expiresAt: session.expiresAt.toISOString()
+        };
+      })
+    };
+  });
+
+  // Revoke a single session
+  app.delete("/auth/sessions/:sessionId", { preHandler: (app as any).authenticate }, async (req, reply) => {
+    const payload = req.user as SessionTokenPayload;
+    const { sessionId } = req.params as { sessionId: string };
+
+    const revoked = await sessions.revokeSession(payload.userId, sessionId);
+    if (!revoked) {
+      return reply.code(404).send({ error: "Session not found" });
+    }
+
+    if (sessionId === payload.sid) {
+      reply.clearCookie("session");
+    }
+
+    app.log.info({ address: payload.address, sessionId }, "Session revoked");
+    return { success: true };
+  });
+
+  // Sign out everywhere
+  app.post("/auth/sessions/revoke-all", { preHandler: (app as any).authenticate }, async (req, reply) => {
+    const payload = req.user as SessionTokenPayload;
+    const { keepCurrent = false } = (req.body ?? {}) as { keepCurrent?: boolean };
+
+    const revoked = await sessions.revokeAllSessions(payload.userId, keepCurrent ? payload.sid : undefined);
+
+    if (!keepCurrent) {
+      reply.clearCookie("session");
+    }
+
+    app.log.info({ address: payload.address, revoked, keepCurrent }, "Revoked all sessions");
+    return { success: true, revoked };
+  });
+
   app.get("/auth/profile", { preHandler: (app as any).authenticate }, async (req) => {
     const payload = await req.jwtVerify<{ address: string; userId: string; chainId?: number }>();
     const user = await app.prisma.user.findUnique({ 
@@ -1,170 +1,276 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@sinclair/typebox';
+import type { FinanceContract, ChangeOrder, ContractBudgetAllocation } from '@prisma/client';
 import { ContractService } from '../lib/contract';
 import { prisma } from '@orenna/db';
 import { requireAuth } from '../lib/authorization.js';
 import { logger } from '../utils/logger';
 
+// ChangeOrderReason and ChangeOrderCategory share the same values
+const ChangeOrderReasonSchema = Type.Union([
+  Type.Literal('SCOPE_CHANGE'),
+  Type.Literal('DESIGN_CHANGE'),
+  Type.Literal('FIELD_CONDITION'),
+  Type.Literal('OWNER_REQUEST'),
+  Type.Literal('REGULATORY'),
+  Type.Literal('EMERGENCY'),
+  Type.Literal('OTHER'),
+]);
+
 // Request/Response schemas
 const ContractCreateSchema = Type.Object({
   projectId: Type.Number(),
   vendorId: Type.Number(),
+  fundingBucketId: Type.Number(),
   contractNumber: Type.String({ minLength: 1, maxLength: 100 }),
+  contractType: Type.Union([
+    Type.Literal('FIXED_PRICE'),
+    Type.Literal('TIME_AND_MATERIALS'),
+    Type.Literal('COST_PLUS'),
+    Type.Literal('UNIT_PRICE'),
+    Type.Literal('GRANT'),
+  ]),
   title: Type.String({ minLength: 1, maxLength: 255 }),
   description: Type.Optional(Type.String({ maxLength: 2000 })),
-  amount: Type.String(), // BigInt as string
-  currency: Type.Union([Type.Literal('USD'), Type.Literal('EUR'), Type.Literal('GBP')], { default: 'USD' }),
-  startDate: Type.String({ format: 'date' }),
-  endDate: Type.String({ format: 'date' }),
-  retentionPercentage: Type.Optional(Type.Number({ minimum: 0, maximum: 100, default: 0 })),
-  terms: Type.Optional(Type.String({ maxLength: 5000 })),
-  workScope: Type.Optional(Type.String({ maxLength: 5000 })),
-  deliverables: Type.Optional(Type.Array(Type.String())),
+  originalAmount: Type.String(), // BigInt as string
+  notToExceed: Type.String(), // BigInt as string
+  paymentTerms: Type.Optional(Type.String({ maxLength: 255 })),
+  retentionPercent: Type.Optional(Type.Integer({ minimum: 0, maximum: 100 })),
+  startDate: Type.Optional(Type.String({ format: 'date' })),
+  endDate: Type.Optional(Type.String({ format: 'date' })),
   milestones: Type.Optional(Type.Array(Type.Object({
     name: Type.String({ maxLength: 255 }),
     description: Type.Optional(Type.String({ maxLength: 1000 })),
     dueDate: Type.String({ format: 'date' }),
     amount: Type.String(), // BigInt as string
-    dependencies: Type.Optional(Type.Array(Type.String())),
   }))),
 });
 
 const BudgetAllocationSchema = Type.Object({
-  fundingBucketId: Type.Number(),
-  amount: Type.String(), // BigInt as string
-  wbsCode: Type.String({ minLength: 1, maxLength: 50 }),
-  description: Type.String({ minLength: 1, maxLength: 255 }),
-  category: Type.Optional(Type.String({ maxLength: 100 })),
+  budgetLineId: Type.Number(),
+  allocatedAmount: Type.String(), // BigInt as string
+  percentage: Type.Optional(Type.Number({ minimum: 0, maximum: 100 })),
 });
 
 const ChangeOrderCreateSchema = Type.Object({
+  changeOrderNumber: Type.String({ minLength: 1, maxLength: 100 }),
   title: Type.String({ minLength: 1, maxLength: 255 }),
   description: Type.String({ minLength: 1, maxLength: 2000 }),
-  amountChange: Type.String(), // BigInt as string (can be negative)
-  timeChange: Type.Number(), // days (can be negative)
+  deltaAmount: Type.String(), // BigInt as string (can be negative)
+  deltaTimedays: Type.Optional(Type.Integer()), // can be negative
+  newEndDate: Type.Optional(Type.String({ format: 'date' })),
+  reason: ChangeOrderReasonSchema,
+  category: ChangeOrderReasonSchema,
   justification: Type.String({ minLength: 1, maxLength: 2000 }),
-  category: Type.Optional(Type.Union([
-    Type.Literal('SCOPE_CHANGE'),
-    Type.Literal('DESIGN_CHANGE'),
-    Type.Literal('FIELD_CONDITION'),
-    Type.Literal('OWNER_REQUEST'),
-    Type.Literal('REGULATORY'),
-    Type.Literal('EMERGENCY'),
-    Type.Literal('OTHER'),
-  ])),
-  urgency: Type.Optional(Type.Union([
-    Type.Literal('LOW'),
-    Type.Literal('MEDIUM'),
-    Type.Literal('HIGH'),
-    Type.Literal('CRITICAL'),
-  ])),
-  attachments: Type.Optional(Type.Array(Type.Object({
-    fileName: Type.String(),
-    originalFileName: Type.String(),
-    fileHash: Type.String(),
-    fileSize: Type.Number(),
-    mimeType: Type.Optional(Type.String()),
-  }))),
 });
 
 const ApprovalDataSchema = Type.Object({
-  approverRole: Type.Union([
-    Type.Literal('PROJECT_MANAGER'),
-    Type.Literal('FINANCE_MANAGER'),
-    Type.Literal('EXECUTIVE'),
-    Type.Literal('OWNER'),
-  ]),
   notes: Type.Optional(Type.String({ maxLength: 1000 })),
 });
 
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
 // Response schemas
 const ContractResponseSchema = Type.Object({
   id: Type.Number(),
   projectId: Type.Number(),
   vendorId: Type.Number(),
+  fundingBucketId: Type.Number(),
   contractNumber: Type.String(),
+  contractType: Type.String(),
   title: Type.String(),
   description: Type.Union([Type.String(), Type.Null()]),
-  amount: Type.String(),
+  originalAmount: Type.String(),
+  currentAmount: Type.String(),
+  notToExceed: Type.String(),
   currency: Type.String(),
+  paymentTerms: Type.Union([Type.String(), Type.Null()]),
+  retentionPercent: Type.Number(),
+  startDate: Type.Union([Type.String(), Type.Null()]),
+  endDate: Type.Union([Type.String(), Type.Null()]),
   status: Type.String(),
-  startDate: Type.String(),
-  endDate: Type.String(),
-  retentionPercentage: Type.Number(),
-  currentAmount: Type.String(),
-  paidAmount: Type.String(),
+  approvalStatus: Type.String(),
+  createdBy: Type.String(),
+  approvedBy: Type.Union([Type.String(), Type.Null()]),
+  approvedAt: Type.Union([Type.String(), Type.Null()]),
+  signedAt: Type.Union([Type.String(), Type.Null()]),
   createdAt: Type.String(),
   updatedAt: Type.String(),
-  project: Type.Object({
+  project: Type.Optional(Type.Object({
     id: Type.Number(),
     name: Type.String(),
-  }),
-  vendor: Type.Object({
+  })),
+  vendor: Type.Optional(Type.Object({
     id: Type.Number(),
     name: Type.String(),
     status: Type.String(),
-  }),
+  })),
 });
 
 const ChangeOrderResponseSchema = Type.Object({
   id: Type.Number(),
   contractId: Type.Number(),
+  changeOrderNumber: Type.String(),
   title: Type.String(),
   description: Type.String(),
-  amountChange: Type.String(),
-  timeChange: Type.Number(),
-  status: Type.String(),
+  deltaAmount: Type.String(),
+  newContractTotal: Type.String(),
+  deltaTimedays: Type.Union([Type.Number(), Type.Null()]),
+  newEndDate: Type.Union([Type.String(), Type.Null()]),
+  reason: Type.String(),
+  category: Type.String(),
   justification: Type.String(),
-  category: Type.Union([Type.String(), Type.Null()]),
-  urgency: Type.Union([Type.String(), Type.Null()]),
+  status: Type.String(),
+  approvalStatus: Type.String(),
+  requestedBy: Type.String(),
+  approvedBy: Type.Union([Type.String(), Type.Null()]),
+  implementedBy: Type.Union([Type.String(), Type.Null()]),
   createdAt: Type.String(),
   updatedAt: Type.String(),
-  requestedBy: Type.String(),
 });
 
 const BudgetAllocationResponseSchema = Type.Object({
   id: Type.Number(),
   contractId: Type.Number(),
-  fundingBucketId: Type.Number(),
-  amount: Type.String(),
-  wbsCode: Type.String(),
-  description: Type.String(),
-  category: Type.Union([Type.String(), Type.Null()]),
-  allocatedAt: Type.String(),
-  fundingBucket: Type.Object({
+  budgetLineId: Type.Number(),
+  allocatedAmount: Type.String(),
+  percentage: Type.Union([Type.Number(), Type.Null()]),
+  createdAt: Type.String(),
+  budgetLine: Type.Object({
     id: Type.Number(),
+    wbsCode: Type.String(),
     name: Type.String(),
-    balance: Type.String(),
+    revisedBudget: Type.String(),
+    committedAmount: Type.String(),
   }),
 });
 
 const ChangeOrderImpactSchema = Type.Object({
   changeOrderId: Type.Number(),
-  newContractAmount: Type.String(),
-  totalAmountChange: Type.String(),
-  totalTimeChange: Type.Number(),
-  percentageIncrease: Type.Number(),
-  newEndDate: Type.String(),
+  contractId: Type.Number(),
+  currentAmount: Type.String(),
+  newAmount: Type.String(),
+  deltaAmount: Type.String(),
+  currentEndDate: Type.Union([Type.String(), Type.Null()]),
+  newEndDate: Type.Union([Type.String(), Type.Null()]),
+  deltaTimedays: Type.Union([Type.Number(), Type.Null()]),
   budgetImpact: Type.Array(Type.Object({
-    fundingBucketId: Type.Number(),
-    bucketName: Type.String(),
-    additionalRequired: Type.String(),
-    available: Type.String(),
-    sufficient: Type.Boolean(),
-  })),
-  milestoneImpact: Type.Array(Type.Object({
-    milestoneName: Type.String(),
-    originalDate: Type.String(),
-    newDate: Type.String(),
-    daysDifference: Type.Number(),
+    budgetLineId: Type.Number(),
+    budgetLineName: Type.String(),
+    currentAllocation: Type.String(),
+    newAllocation: Type.String(),
+    deltaAllocation: Type.String(),
   })),
+  fundsAvailable: Type.Boolean(),
+  approvalRequired: Type.Array(Type.String()),
 });
 
+type ContractWithParties = FinanceContract & {
+  project?: { id: number; name: string };
+  vendor?: { id: number; name: string; status: string };
+};
+
+type AllocationWithBudgetLine = ContractBudgetAllocation & {
+  budgetLine: { id: number; wbsCode: string; name: string; revisedBudget: bigint; committedAmount: bigint };
+};
+
+const partiesInclude = {
+  project: { select: { id: true, name: true } },
+  vendor: { select: { id: true, name: true, status: true } },
+} as const;
+
+const budgetLineInclude = {
+  budgetLine: {
+    select: { id: true, wbsCode: true, name: true, revisedBudget: true, committedAmount: true },
+  },
+} as const;
+
+function formatContract(contract: ContractWithParties) {
+  return {
+    id: contract.id,
+    projectId: contract.projectId,
+    vendorId: contract.vendorId,
+    fundingBucketId: contract.fundingBucketId,
+    contractNumber: contract.contractNumber,
+    contractType: contract.contractType,
+    title: contract.title,
+    description: contract.description,
+    originalAmount: contract.originalAmount.toString(),
+    currentAmount: contract.currentAmount.toString(),
+    notToExceed: contract.notToExceed.toString(),
+    currency: contract.currency,
+    paymentTerms: contract.paymentTerms,
+    retentionPercent: contract.retentionPercent,
+    startDate: contract.startDate?.toISOString() ?? null,
+    endDate: contract.endDate?.toISOString() ?? null,
+    status: contract.status,
+    approvalStatus: contract.approvalStatus,
+    createdBy: contract.createdBy,
+    approvedBy: contract.approvedBy,
+    approvedAt: contract.approvedAt?.toISOString() ?? null,
+    signedAt: contract.signedAt?.toISOString() ?? null,
+    createdAt: contract.createdAt.toISOString(),
+    updatedAt: contract.updatedAt.toISOString(),
+    project: contract.project,
+    vendor: contract.vendor,
+  };
+}
+
+function formatChangeOrder(changeOrder: ChangeOrder) {
+  return {
+    id: changeOrder.id,
+    contractId: changeOrder.contractId,
+    changeOrderNumber: changeOrder.changeOrderNumber,
+    title: changeOrder.title,
+    description: changeOrder.description,
+    deltaAmount: changeOrder.deltaAmount.toString(),
+    newContractTotal: changeOrder.newContractTotal.toString(),
+    deltaTimedays: changeOrder.deltaTimedays,
+    newEndDate: changeOrder.newEndDate?.toISOString() ?? null,
+    reason: changeOrder.reason,
+    category: changeOrder.category,
+    justification: changeOrder.justification,
+    status: changeOrder.status,
+    approvalStatus: changeOrder.approvalStatus,
+    requestedBy: changeOrder.requestedBy,
+    approvedBy: changeOrder.approvedBy,
+    implementedBy: changeOrder.implementedBy,
+    createdAt: changeOrder.createdAt.toISOString(),
+    updatedAt: changeOrder.updatedAt.toISOString(),
+  };
+}
+
+function formatAllocation(allocation: AllocationWithBudgetLine) {
+  return {
+    id: allocation.id,
+    contractId: allocation.contractId,
+    budgetLineId: allocation.budgetLineId,
+    allocatedAmount: allocation.allocatedAmount.toString(),
+    percentage: allocation.percentage,
+    createdAt: allocation.createdAt.toISOString(),
+    budgetLine: {
+      id: allocation.budgetLine.id,
+      wbsCode: allocation.budgetLine.wbsCode,
+      name: allocation.budgetLine.name,
+      revisedBudget: allocation.budgetLine.revisedBudget.toString(),
+      committedAmount: allocation.budgetLine.committedAmount.toString(),
+    },
+  };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
 export async function contractRoutes(fastify: FastifyInstance) {
   const contractService = new ContractService(prisma);
 
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * Create a new contract
@@ -176,26 +282,19 @@ export async function contractRoutes(fastify: FastifyInstance) {
       body: ContractCreateSchema,
       response: {
         201: ContractResponseSchema,
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Body: typeof ContractCreateSchema.static }>, reply: FastifyReply) => {
     try {
+      const { body } = request;
       const contractData = {
-        ...request.body,
-        amount: BigInt(request.body.amount),
-        startDate: new Date(request.body.startDate),
-        endDate: new Date(request.body.endDate),
-        milestones: request.body.milestones?.map(m => ({
-          ...m,
-          amount: BigInt(m.amount),
-          dueDate: new Date(m.dueDate),
-        })),
-        createdBy: request.user.id,
+        ...body,
+        originalAmount: BigInt(body.originalAmount),
+        notToExceed: BigInt(body.notToExceed),
+        startDate: body.startDate ? new Date(body.startDate) : undefined,
+        endDate: body.endDate ? new Date(body.endDate) : undefined,
+        createdBy: request.user!.address,
       };
 
       logger.info('Creating contract', { 
@@ -207,39 +306,13 @@ export async function contractRoutes(fastify: FastifyInstance) {
 
       const contract = await contractService.createContract(contractData);
 
-      reply.code(201).send({
-        id: contract.id,
-        projectId: contract.projectId,
-        vendorId: contract.vendorId,
-        contractNumber: contract.contractNumber,
-        title: contract.title,
-        description: contract.description,
-        amount: contract.amount.toString(),
-        currency: contract.currency,
-        status: contract.status,
-        startDate: contract.startDate.toISOString(),
-        endDate: contract.endDate.toISOString(),
-        retentionPercentage: contract.retentionPercentage,
-        currentAmount: contract.currentAmount?.toString() || contract.amount.toString(),
-        paidAmount: contract.paidAmount?.toString() || '0',
-        createdAt: contract.createdAt.toISOString(),
-        updatedAt: contract.updatedAt.toISOString(),
-        project: {
-          id: contract.project.id,
-          name: contract.project.name,
-        },
-        vendor: {
-          id: contract.vendor.id,
-          name: contract.vendor.name,
-          status: contract.vendor.status,
-        },
-      });
+      reply.code(201).send(formatContract(contract));
     } catch (error) {
-      logger.error('Failed to create contract', { error: error.message });
+      logger.error('Failed to create contract', { error: errorMessage(error) });
       reply.code(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: error.message,
+        message: errorMessage(error),
       });
     }
   });
@@ -299,53 +372,20 @@ export async function contractRoutes(fastify: FastifyInstance) {
       }
 
       const [contracts, total] = await Promise.all([
-        db.financeContract.findMany({
+        prisma.financeContract.findMany({
           where: filters,
           skip: (page - 1) * limit,
           take: limit,
           orderBy: { createdAt: 'desc' },
-          include: {
-            project: {
-              select: { id: true, name: true },
-            },
-            vendor: {
-              select: { id: true, name: true, status: true },
-            },
-          },
+          include: partiesInclude,
         }),
-        db.financeContract.count({ where: filters }),
+        prisma.financeContract.count({ where: filters }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
 
       reply.send({
-        contracts: contracts.map(contract => ({
-          id: contract.id,
-          projectId: contract.projectId,
-          vendorId: contract.vendorId,
-          contractNumber: contract.contractNumber,
-          title: contract.title,
-          description: contract.description,
-          amount: contract.amount.toString(),
-          currency: contract.currency,
-          status: contract.status,
-          startDate: contract.startDate.toISOString(),
-          endDate: contract.endDate.toISOString(),
-          retentionPercentage: contract.retentionPercentage,
-          currentAmount: contract.currentAmount?.toString() || contract.amount.toString(),
-          paidAmount: contract.paidAmount?.toString() || '0',
-          createdAt: contract.createdAt.toISOString(),
-          updatedAt: contract.updatedAt.toISOString(),
-          project: {
-            id: contract.project.id,
-            name: contract.project.name,
-          },
-          vendor: {
-            id: contract.vendor.id,
-            name: contract.vendor.name,
-            status: contract.vendor.status,
-          },
-        })),
+        contracts: contracts.map(formatContract),
         pagination: {
           page,
           limit,
@@ -354,7 +394,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
-      logger.error('Failed to fetch contracts', { error: error.message });
+      logger.error('Failed to fetch contracts', { error: errorMessage(error) });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -375,11 +415,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
       }),
       response: {
         200: ContractResponseSchema,
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
@@ -388,26 +424,9 @@ export async function contractRoutes(fastify: FastifyInstance) {
 
       logger.info('Fetching contract', { contractId: id });
 
-      const contract = await db.financeContract.findUnique({
+      const contract = await prisma.financeContract.findUnique({
         where: { id },
-        include: {
-          project: {
-            select: { id: true, name: true },
-          },
-          vendor: {
-            select: { id: true, name: true, status: true },
-          },
-          budgetAllocations: {
-            include: {
-              fundingBucket: {
-                select: { id: true, name: true, balance: true },
-              },
-            },
-          },
-          changeOrders: {
-            orderBy: { createdAt: 'desc' },
-          },
-        },
+        include: partiesInclude,
       });
 
       if (!contract) {
@@ -419,35 +438,9 @@ export async function contractRoutes(fastify: FastifyInstance) {
         return;
       }
 
-      reply.send({
-        id: contract.id,
-        projectId: contract.projectId,
-        vendorId: contract.vendorId,
-        contractNumber: contract.contractNumber,
-        title: contract.title,
-        description: contract.description,
-        amount: contract.amount.toString(),
-        currency: contract.currency,
-        status: contract.status,
-        startDate: contract.startDate.toISOString(),
-        endDate: contract.endDate.toISOString(),
-        retentionPercentage: contract.retentionPercentage,
-        currentAmount: contract.currentAmount?.toString() || contract.amount.toString(),
-        paidAmount: contract.paidAmount?.toString() || '0',
-        createdAt: contract.createdAt.toISOString(),
-        updatedAt: contract.updatedAt.toISOString(),
-        project: {
-          id: contract.project.id,
-          name: contract.project.name,
-        },
-        vendor: {
-          id: contract.vendor.id,
-          name: contract.vendor.name,
-          status: contract.vendor.status,
-        },
-      });
+      reply.send(formatContract(contract));
     } catch (error) {
-      logger.error('Failed to fetch contract', { error: error.message, contractId: request.params.id });
+      logger.error('Failed to fetch contract', { error: errorMessage(error), contractId: request.params.id });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -472,16 +465,8 @@ export async function contractRoutes(fastify: FastifyInstance) {
           message: Type.String(),
           allocations: Type.Array(BudgetAllocationResponseSchema),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ 
@@ -492,61 +477,43 @@ export async function contractRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const allocations = request.body.map(allocation => ({
         ...allocation,
-        amount: BigInt(allocation.amount),
+        allocatedAmount: BigInt(allocation.allocatedAmount),
       }));
 
       logger.info('Allocating budget to contract', { 
         contractId: id, 
         allocationCount: allocations.length,
-        totalAmount: allocations.reduce((sum, a) => sum + a.amount, BigInt(0)).toString(),
+        totalAmount: allocations.reduce((sum, a) => sum + a.allocatedAmount, BigInt(0)).toString(),
       });
 
       await contractService.allocateBudget(id, allocations);
 
-      // Fetch the created allocations
-      const createdAllocations = await db.budgetAllocation.findMany({
+      // allocateBudget replaces the contract's allocations, so these are the new ones
+      const createdAllocations = await prisma.contractBudgetAllocation.findMany({
         where: { contractId: id },
-        include: {
-          fundingBucket: {
-            select: { id: true, name: true, balance: true },
-          },
-        },
-        orderBy: { allocatedAt: 'desc' },
-        take: allocations.length,
+        include: budgetLineInclude,
+        orderBy: { createdAt: 'desc' },
       });
 
       reply.code(201).send({
         message: 'Budget allocated successfully',
-        allocations: createdAllocations.map(allocation => ({
-          id: allocation.id,
-          contractId: allocation.contractId,
-          fundingBucketId: allocation.fundingBucketId,
-          amount: allocation.amount.toString(),
-          wbsCode: allocation.wbsCode,
-          description: allocation.description,
-          category: allocation.category,
-          allocatedAt: allocation.allocatedAt.toISOString(),
-          fundingBucket: {
-            id: allocation.fundingBucket.id,
-            name: allocation.fundingBucket.name,
-            balance: allocation.fundingBucket.balance.toString(),
-          },
-        })),
+        allocations: createdAllocations.map(formatAllocation),
       });
     } catch (error) {
-      logger.error('Failed to allocate budget', { error: error.message, contractId: request.params.id });
+      const message = errorMessage(error);
+      logger.error('Failed to allocate budget', { error: message, contractId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -564,11 +531,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
       }),
       response: {
         200: Type.Array(BudgetAllocationResponseSchema),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
@@ -577,7 +540,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
 
       logger.info('Fetching contract budget allocations', { contractId: id });
 
-      const contract = await db.financeContract.findUnique({
+      const contract = await prisma.financeContract.findUnique({
         where: { id },
       });
 
@@ -590,33 +553,15 @@ export async function contractRoutes(fastify: FastifyInstance) {
         return;
       }
 
-      const allocations = await db.budgetAllocation.findMany({
+      const allocations = await prisma.contractBudgetAllocation.findMany({
         where: { contractId: id },
-        include: {
-          fundingBucket: {
-            select: { id: true, name: true, balance: true },
-          },
-        },
-        orderBy: { allocatedAt: 'desc' },
+        include: budgetLineInclude,
+        orderBy: { createdAt: 'desc' },
       });
 
-      reply.send(allocations.map(allocation => ({
-        id: allocation.id,
-        contractId: allocation.contractId,
-        fundingBucketId: allocation.fundingBucketId,
-        amount: allocation.amount.toString(),
-        wbsCode: allocation.wbsCode,
-        description: allocation.description,
-        category: allocation.category,
-        allocatedAt: allocation.allocatedAt.toISOString(),
-        fundingBucket: {
-          id: allocation.fundingBucket.id,
-          name: allocation.fundingBucket.name,
-          balance: allocation.fundingBucket.balance.toString(),
-        },
-      })));
+      reply.send(allocations.map(formatAllocation));
     } catch (error) {
-      logger.error('Failed to fetch budget allocations', { error: error.message, contractId: request.params.id });
+      logger.error('Failed to fetch budget allocations', { error: errorMessage(error), contractId: request.params.id });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -640,23 +585,15 @@ export async function contractRoutes(fastify: FastifyInstance) {
           message: Type.String(),
           status: Type.String(),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
     try {
       const { id } = request.params;
 
-      logger.info('Submitting contract for approval', { contractId: id, submittedBy: request.user.id });
+      logger.info('Submitting contract for approval', { contractId: id, submittedBy: request.user!.address });
 
       await contractService.submitForApproval(id);
 
@@ -665,19 +602,20 @@ export async function contractRoutes(fastify: FastifyInstance) {
         status: 'PENDING_APPROVAL',
       });
     } catch (error) {
-      logger.error('Failed to submit contract for approval', { error: error.message, contractId: request.params.id });
+      const message = errorMessage(error);
+      logger.error('Failed to submit contract for approval', { error: message, contractId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -699,16 +637,8 @@ export async function contractRoutes(fastify: FastifyInstance) {
           message: Type.String(),
           status: Type.String(),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ 
@@ -719,13 +649,12 @@ export async function contractRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const approverData = {
         ...request.body,
-        approverId: request.user.id,
+        approvedBy: request.user!.address,
       };
 
       logger.info('Approving contract', { 
         contractId: id, 
-        approverId: approverData.approverId,
-        approverRole: approverData.approverRole,
+        approvedBy: approverData.approvedBy,
       });
 
       await contractService.approveContract(id, approverData);
@@ -735,19 +664,20 @@ export async function contractRoutes(fastify: FastifyInstance) {
         status: 'APPROVED',
       });
     } catch (error) {
-      logger.error('Failed to approve contract', { error: error.message, contractId: request.params.id });
+      const message = errorMessage(error);
+      logger.error('Failed to approve contract', { error: message, contractId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -768,44 +698,37 @@ export async function contractRoutes(fastify: FastifyInstance) {
           message: Type.String(),
           status: Type.String(),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
     try {
       const { id } = request.params;
 
-      logger.info('Executing contract', { contractId: id, executedBy: request.user.id });
+      logger.info('Executing contract', { contractId: id, executedBy: request.user!.address });
 
       await contractService.executeContract(id);
 
       reply.send({
         message: 'Contract executed successfully',
-        status: 'ACTIVE',
+        status: 'SIGNED',
       });
     } catch (error) {
-      logger.error('Failed to execute contract', { error: error.message, contractId: request.params.id });
+      const message = errorMessage(error);
+      logger.error('Failed to execute contract', { error: message, contractId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -824,16 +747,8 @@ export async function contractRoutes(fastify: FastifyInstance) {
       body: ChangeOrderCreateSchema,
       response: {
         201: ChangeOrderResponseSchema,
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ 
@@ -844,48 +759,36 @@ export async function contractRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const changeData = {
         ...request.body,
-        amountChange: BigInt(request.body.amountChange),
-        requestedBy: request.user.id,
+        deltaAmount: BigInt(request.body.deltaAmount),
+        newEndDate: request.body.newEndDate ? new Date(request.body.newEndDate) : undefined,
+        requestedBy: request.user!.address,
       };
 
       logger.info('Creating change order', { 
         contractId: id, 
-        title: changeData.title,
-        amountChange: changeData.amountChange.toString(),
+        changeOrderNumber: changeData.changeOrderNumber,
+        deltaAmount: changeData.deltaAmount.toString(),
         requestedBy: changeData.requestedBy,
       });
 
       const changeOrder = await contractService.createChangeOrder(id, changeData);
 
-      reply.code(201).send({
-        id: changeOrder.id,
-        contractId: changeOrder.contractId,
-        title: changeOrder.title,
-        description: changeOrder.description,
-        amountChange: changeOrder.amountChange.toString(),
-        timeChange: changeOrder.timeChange,
-        status: changeOrder.status,
-        justification: changeOrder.justification,
-        category: changeOrder.category,
-        urgency: changeOrder.urgency,
-        createdAt: changeOrder.createdAt.toISOString(),
-        updatedAt: changeOrder.updatedAt.toISOString(),
-        requestedBy: changeOrder.requestedBy,
-      });
+      reply.code(201).send(formatChangeOrder(changeOrder));
     } catch (error) {
-      logger.error('Failed to create change order', { error: error.message, contractId: request.params.id });
+      const message = errorMessage(error);
+      logger.error('Failed to create change order', { error: message, contractId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -903,11 +806,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
       }),
       response: {
         200: Type.Array(ChangeOrderResponseSchema),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
@@ -916,7 +815,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
 
       logger.info('Fetching contract change orders', { contractId: id });
 
-      const contract = await db.financeContract.findUnique({
+      const contract = await prisma.financeContract.findUnique({
         where: { id },
       });
 
@@ -929,28 +828,14 @@ export async function contractRoutes(fastify: FastifyInstance) {
         return;
       }
 
-      const changeOrders = await db.changeOrder.findMany({
+      const changeOrders = await prisma.changeOrder.findMany({
         where: { contractId: id },
         orderBy: { createdAt: 'desc' },
       });
 
-      reply.send(changeOrders.map(changeOrder => ({
-        id: changeOrder.id,
-        contractId: changeOrder.contractId,
-        title: changeOrder.title,
-        description: changeOrder.description,
-        amountChange: changeOrder.amountChange.toString(),
-        timeChange: changeOrder.timeChange,
-        status: changeOrder.status,
-        justification: changeOrder.justification,
-        category: changeOrder.category,
-        urgency: changeOrder.urgency,
-        createdAt: changeOrder.createdAt.toISOString(),
-        updatedAt: changeOrder.updatedAt.toISOString(),
-        requestedBy: changeOrder.requestedBy,
-      })));
+      reply.send(changeOrders.map(formatChangeOrder));
     } catch (error) {
-      logger.error('Failed to fetch change orders', { error: error.message, contractId: request.params.id });
+      logger.error('Failed to fetch change orders', { error: errorMessage(error), contractId: request.params.id });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -971,11 +856,7 @@ export async function contractRoutes(fastify: FastifyInstance) {
       }),
       response: {
         200: ChangeOrderImpactSchema,
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { changeOrderId: number } }>, reply: FastifyReply) => {
@@ -987,37 +868,36 @@ export async function contractRoutes(fastify: FastifyInstance) {
       const impact = await contractService.calculateImpact(changeOrderId);
 
       reply.send({
-        changeOrderId: impact.changeOrderId,
-        newContractAmount: impact.newContractAmount.toString(),
-        totalAmountChange: impact.totalAmountChange.toString(),
-        totalTimeChange: impact.totalTimeChange,
-        percentageIncrease: impact.percentageIncrease,
-        newEndDate: impact.newEndDate.toISOString(),
+        changeOrderId,
+        contractId: impact.contractId,
+        currentAmount: impact.currentAmount.toString(),
+        newAmount: impact.newAmount.toString(),
+        deltaAmount: impact.deltaAmount.toString(),
+        currentEndDate: impact.currentEndDate?.toISOString() ?? null,
+        newEndDate: impact.newEndDate?.toISOString() ?? null,
+        deltaTimedays: impact.deltaTimedays ?? null,
         budgetImpact: impact.budgetImpact.map(budget => ({
-          fundingBucketId: budget.fundingBucketId,
-          bucketName: budget.bucketName,
-          additionalRequired: budget.additionalRequired.toString(),
-          available: budget.available.toString(),
-          sufficient: budget.sufficient,
-        })),
-        milestoneImpact: impact.milestoneImpact.map(milestone => ({
-          milestoneName: milestone.milestoneName,
-          originalDate: milestone.originalDate.toISOString(),
-          newDate: milestone.newDate.toISOString(),
-          daysDifference: milestone.daysDifference,
+          budgetLineId: budget.budgetLineId,
+          budgetLineName: budget.budgetLineName,
+          currentAllocation: budget.currentAllocation.toString(),
+          newAllocation: budget.newAllocation.toString(),
+          deltaAllocation: budget.deltaAllocation.toString(),
         })),
+        fundsAvailable: impact.fundsAvailable,
+        approvalRequired: impact.approvalRequired,
       });
     } catch (error) {
+      const message = errorMessage(error);
       logger.error('Failed to calculate change order impact', { 
-        error: error.message, 
+        error: message, 
         changeOrderId: request.params.changeOrderId,
       });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(500).send({
@@ -1045,16 +925,8 @@ export async function contractRoutes(fastify: FastifyInstance) {
           message: Type.String(),
           status: Type.String(),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ 
@@ -1065,13 +937,12 @@ export async function contractRoutes(fastify: FastifyInstance) {
       const { changeOrderId } = request.params;
       const approval = {
         ...request.body,
-        approverId: request.user.id,
+        approvedBy: request.user!.address,
       };
 
       logger.info('Approving change order', { 
         changeOrderId, 
-        approverId: approval.approverId,
-        approverRole: approval.approverRole,
+        approvedBy: approval.approvedBy,
       });
 
       await contractService.approveChangeOrder(changeOrderId, approval);
@@ -1081,22 +952,23 @@ export async function contractRoutes(fastify: FastifyInstance) {
         status: 'APPROVED',
       });
     } catch (error) {
+      const message = errorMessage(error);
       logger.error('Failed to approve change order', { 
-        error: error.message, 
+        error: message, 
         changeOrderId: request.params.changeOrderId,
       });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
@@ -1118,50 +990,47 @@ export async function contractRoutes(fastify: FastifyInstance) {
           status: Type.String(),
           newContractAmount: Type.String(),
         }),
-        400: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
-        }),
+        400: ErrorSchema,
+        404: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { changeOrderId: number } }>, reply: FastifyReply) => {
     try {
       const { changeOrderId } = request.params;
 
-      logger.info('Implementing change order', { changeOrderId, implementedBy: request.user.id });
+      logger.info('Implementing change order', { changeOrderId, implementedBy: request.user!.address });
 
-      const result = await contractService.implementChangeOrder(changeOrderId);
+      await contractService.implementChangeOrder(changeOrderId);
+
+      const changeOrder = await prisma.changeOrder.findUniqueOrThrow({
+        where: { id: changeOrderId },
+      });
 
       reply.send({
         message: 'Change order implemented successfully',
-        status: 'IMPLEMENTED',
-        newContractAmount: result.newContractAmount.toString(),
+        status: changeOrder.status,
+        newContractAmount: changeOrder.newContractTotal.toString(),
       });
     } catch (error) {
+      const message = errorMessage(error);
       logger.error('Failed to implement change order', { 
-        error: error.message, 
+        error: message, 
         changeOrderId: request.params.changeOrderId,
       });
       
-      if (error.message.includes('not found')) {
+      if (message.includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message,
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message,
         });
       }
     }
   });
-}
\ No newline at end of file
+}
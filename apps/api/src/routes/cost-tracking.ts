@@ -21,7 +21,8 @@ export default async function costTrackingRoutes(app: FastifyInstance) {
         return reply.code(400).send({ error: 'Invalid project ID' });
       }
 
-      const summary = await costTrackingService.getProjectCostSummary(projectIdNum);
+      const { currency } = request.query as { currency?: string };
+      const summary = await costTrackingService.getProjectCostSummary(projectIdNum, { currency });
       return reply.send(summary);
     } catch (error: any) {
       app.log.warn('Failed to get project cost summary', { error: error.message });
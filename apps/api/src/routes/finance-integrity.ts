@@ -8,6 +8,7 @@ import {
   calculateFinancialSummary,
   getFinancialHealthScore,
 } from '../lib/financial-invariants';
+import { formatMoney } from '../adapters/finance';
 
 // Response schemas
 const FinancialSummarySchema = Type.Object({
@@ -51,7 +52,7 @@ const FinancialIntegrityReportSchema = Type.Object({
 
 export async function financeIntegrityRoutes(fastify: FastifyInstance) {
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * GET /api/finance/integrity/:projectId/summary
@@ -64,9 +65,13 @@ export async function financeIntegrityRoutes(fastify: FastifyInstance) {
       params: Type.Object({
         projectId: Type.Number(),
       }),
+      querystring: Type.Object({
+        currency: Type.Optional(Type.String({ pattern: '^[A-Z]{3,5}$' })),
+      }),
       response: {
         200: Type.Object({
           projectId: Type.Number(),
+          currency: Type.String(),
           depositsTotal: Type.String(),
           contractsTotal: Type.String(),
           invoicesTotal: Type.String(),
@@ -92,28 +97,30 @@ export async function financeIntegrityRoutes(fastify: FastifyInstance) {
         }),
       },
     },
-  }, async (request: FastifyRequest<{ Params: { projectId: number } }>, reply: FastifyReply) => {
+  }, async (request: FastifyRequest<{ Params: { projectId: number }; Querystring: { currency?: string } }>, reply: FastifyReply) => {
     try {
       const { projectId } = request.params;
+      const { currency } = request.query;
       const userId = request.user.id;
 
-      fastify.log.info('Getting financial summary', { projectId, requestedBy: userId });
+      fastify.log.info('Getting financial summary', { projectId, currency, requestedBy: userId });
 
-      const summary = await calculateFinancialSummary(projectId);
+      const summary = await calculateFinancialSummary(projectId, { currency });
 
       const response = {
         projectId: summary.projectId,
-        depositsTotal: `$${(Number(summary.depositsTotal.cents) / 100).toFixed(2)}`,
-        contractsTotal: `$${(Number(summary.contractsTotal.cents) / 100).toFixed(2)}`,
-        invoicesTotal: `$${(Number(summary.invoicesTotal.cents) / 100).toFixed(2)}`,
-        disbursementsTotal: `$${(Number(summary.disbursementsTotal.cents) / 100).toFixed(2)}`,
+        currency: summary.currency,
+        depositsTotal: formatMoney(summary.depositsTotal),
+        contractsTotal: formatMoney(summary.contractsTotal),
+        invoicesTotal: formatMoney(summary.invoicesTotal),
+        disbursementsTotal: formatMoney(summary.disbursementsTotal),
         liftTokensIssued: summary.liftTokensIssued,
         liftTokensRetired: summary.liftTokensRetired,
         balances: {
-          available: `$${(Number(summary.balanceAvailable.cents) / 100).toFixed(2)}`,
-          committed: `$${(Number(summary.balanceCommitted.cents) / 100).toFixed(2)}`,
-          encumbered: `$${(Number(summary.balanceEncumbered.cents) / 100).toFixed(2)}`,
-          disbursed: `$${(Number(summary.balanceDisbursed.cents) / 100).toFixed(2)}`,
+          available: formatMoney(summary.balanceAvailable),
+          committed: formatMoney(summary.balanceCommitted),
+          encumbered: formatMoney(summary.balanceEncumbered),
+          disbursed: formatMoney(summary.balanceDisbursed),
         },
       };
 
@@ -2,14 +2,20 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { prisma } from '@orenna/db';
 import { requireAuth } from '../lib/authorization.js';
+import { LedgerService } from '../lib/ledger';
+import { FxRateService } from '../lib/fx-rates';
+import { getEnv } from '../types/env.js';
+import { AuditTrailService } from '../lib/audit-trail.js';
+import { renderPdfReport, sealReport } from '../lib/pdf/index.js';
+import { retirementReceiptPdf } from '../lib/pdf/templates/retirement-receipt.js';
 // Uses fastify.log for logging
-import { fromDollars, formatMoney, memoTag, generateReceiptId } from '../adapters/finance';
+import { fromDollars, fromCents, formatMoney, memoTag, generateReceiptId } from '../adapters/finance';
 
 // Request/Response schemas
 const DepositRequestSchema = Type.Object({
   projectId: Type.Number(),
   amountCents: Type.Number({ minimum: 1 }),
-  currency: Type.Union([Type.Literal('USD'), Type.Literal('USDC')]),
+  currency: Type.String({ pattern: '^[A-Z]{3,5}$', default: 'USD' }),
   sourceRef: Type.Optional(Type.String({ maxLength: 255 })),
   txHash: Type.Optional(Type.String({ pattern: '^0x[a-fA-F0-9]{64}$' })),
   memo: Type.Optional(Type.String({ maxLength: 500 })),
@@ -49,6 +55,8 @@ const DepositResponseSchema = Type.Object({
   projectId: Type.Number(),
   amountCents: Type.Number(),
   currency: Type.String(),
+  fxRate: Type.Union([Type.String(), Type.Null()]),
+  fxBaseCurrency: Type.Union([Type.String(), Type.Null()]),
   sourceRef: Type.Union([Type.String(), Type.Null()]),
   txHash: Type.Union([Type.String(), Type.Null()]),
   memo: Type.Union([Type.String(), Type.Null()]),
@@ -92,7 +100,9 @@ const RetireResponseSchema = Type.Object({
 
 export async function financeLoopRoutes(fastify: FastifyInstance) {
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
+
+  const auditTrail = new AuditTrailService(fastify);
 
   /**
    * 1. Funds In — credit Lift Forward
@@ -127,7 +137,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Verify project exists
-      const project = await db.project.findUnique({
+      const project = await prisma.project.findUnique({
         where: { id: projectId },
       });
 
@@ -136,7 +146,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       }
 
       // Create or get Lift Forward funding bucket
-      let liftForwardBucket = await db.fundingBucket.findFirst({
+      let liftForwardBucket = await prisma.fundingBucket.findFirst({
         where: {
           projectId,
           type: 'LIFT_FORWARD',
@@ -144,13 +154,12 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       if (!liftForwardBucket) {
-        liftForwardBucket = await db.fundingBucket.create({
+        liftForwardBucket = await prisma.fundingBucket.create({
           data: {
             projectId,
             type: 'LIFT_FORWARD',
             name: 'Lift Forward',
             description: 'Funds allocated for lift token generation',
-            availableCents: BigInt(0),
             currency: currency,
             active: true,
             createdBy: userId,
@@ -158,52 +167,53 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
         });
       }
 
+      // Snapshot the rate into the finance base currency, and into the bucket's
+      // currency when the deposit is in a different one
+      const fx = new FxRateService(prisma);
+      const depositedAt = new Date();
+      const fxSnapshot = await fx.snapshot(currency, getEnv().FINANCE_BASE_CURRENCY, depositedAt);
+      const bucketAmount = await fx.convert(
+        fromCents(BigInt(amountCents), currency),
+        liftForwardBucket.currency,
+        depositedAt
+      );
+
       // Create deposit record
-      const deposit = await db.deposit.create({
+      const deposit = await prisma.deposit.create({
         data: {
           projectId,
           fundingBucketId: liftForwardBucket.id,
           amountCents: BigInt(amountCents),
           currency,
+          ...fxSnapshot,
           sourceRef,
           txHash,
           memo,
           status: 'COMPLETED',
           depositedBy: userId,
-          depositedAt: new Date(),
+          depositedAt,
         },
       });
 
-      // Create CREDIT ledger entry
-      await db.ledgerEntry.create({
-        data: {
-          fundingBucketId: liftForwardBucket.id,
-          type: 'CREDIT',
-          amountCents: BigInt(amountCents),
-          currency,
-          description: `Deposit: ${memo || sourceRef || 'Lift Forward funding'}`,
-          referenceType: 'DEPOSIT',
-          referenceId: deposit.id.toString(),
-          txHash,
-          createdBy: userId,
-        },
-      });
+      // Post the deposit to the journal: Dr bucket available, Cr bucket funding
+      const posting = await new LedgerService(prisma).recordDeposit(
+        deposit.id,
+        liftForwardBucket.id,
+        bucketAmount.amount,
+        userId
+      );
 
-      // Update bucket balances
-      await db.fundingBucket.update({
-        where: { id: liftForwardBucket.id },
-        data: {
-          availableCents: {
-            increment: BigInt(amountCents),
-          },
-        },
-      });
+      if (!posting.success) {
+        throw new Error(`Failed to post deposit ${deposit.id}: ${posting.error}`);
+      }
 
       reply.code(201).send({
         id: deposit.id,
         projectId: deposit.projectId,
         amountCents: Number(deposit.amountCents),
         currency: deposit.currency,
+        fxRate: deposit.fxRate?.toString() ?? null,
+        fxBaseCurrency: deposit.fxBaseCurrency ?? null,
         sourceRef: deposit.sourceRef,
         txHash: deposit.txHash,
         memo: deposit.memo,
@@ -263,7 +273,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Find verification gate
-      const verificationGate = await db.verificationGate.findUnique({
+      const verificationGate = await prisma.verificationGate.findUnique({
         where: { id: gateId },
         include: {
           project: true,
@@ -279,7 +289,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       }
 
       // Create attestation record
-      const attestation = await db.verificationAttestation.create({
+      const attestation = await prisma.verificationAttestation.create({
         data: {
           verificationGateId: gateId,
           attestorId,
@@ -296,7 +306,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       // If verification passed, create retention release invoice
       if (passed) {
         // Find any invoices with retention for this project
-        const invoicesWithRetention = await db.invoice.findMany({
+        const invoicesWithRetention = await prisma.invoice.findMany({
           where: {
             projectId: verificationGate.projectId,
             retentionAmountCents: { gt: BigInt(0) },
@@ -314,7 +324,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
           );
 
           // Create retention release invoice
-          const retentionInvoice = await db.invoice.create({
+          const retentionInvoice = await prisma.invoice.create({
             data: {
               invoiceNumber: `RET-${gateId}-${Date.now()}`,
               vendorId: invoicesWithRetention[0].vendorId, // Use first vendor for simplicity
@@ -343,7 +353,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
         }
 
         // Update verification gate status
-        await db.verificationGate.update({
+        await prisma.verificationGate.update({
           where: { id: gateId },
           data: {
             status: 'PASSED',
@@ -352,7 +362,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
         });
       } else {
         // Update verification gate status to failed
-        await db.verificationGate.update({
+        await prisma.verificationGate.update({
           where: { id: gateId },
           data: {
             status: 'FAILED',
@@ -425,7 +435,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Verify project exists
-      const project = await db.project.findUnique({
+      const project = await prisma.project.findUnique({
         where: { id: projectId },
       });
 
@@ -439,7 +449,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
 
       // Verify invoice exists if provided
       if (financeRefs.invoiceId) {
-        const invoice = await db.invoice.findUnique({
+        const invoice = await prisma.invoice.findUnique({
           where: { id: financeRefs.invoiceId },
         });
 
@@ -456,7 +466,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       );
 
       // Create lift token
-      const liftToken = await db.liftToken.create({
+      const liftToken = await prisma.liftToken.create({
         data: {
           projectId,
           quantity: BigInt(quantity),
@@ -472,7 +482,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Create lift token event
-      const event = await db.liftTokenEvent.create({
+      const event = await prisma.liftTokenEvent.create({
         data: {
           liftTokenId: liftToken.id,
           type: 'ISSUED',
@@ -489,7 +499,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
 
       // If invoice provided, create finance link
       if (financeRefs.invoiceId) {
-        await db.financeLink.create({
+        await prisma.financeLink.create({
           data: {
             sourceType: 'INVOICE',
             sourceId: financeRefs.invoiceId.toString(),
@@ -566,7 +576,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Verify lift token exists and can be retired
-      const liftToken = await db.liftToken.findUnique({
+      const liftToken = await prisma.liftToken.findUnique({
         where: { id: liftId },
         include: {
           project: true,
@@ -589,7 +599,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       const receiptId = generateReceiptId(liftToken.projectId!, beneficiaryId);
 
       // Create retirement event
-      const retirementEvent = await db.liftTokenEvent.create({
+      const retirementEvent = await prisma.liftTokenEvent.create({
         data: {
           liftTokenId: liftId,
           type: 'RETIRED',
@@ -606,7 +616,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Update lift token status
-      await db.liftToken.update({
+      await prisma.liftToken.update({
         where: { id: liftId },
         data: {
           status: 'RETIRED',
@@ -615,7 +625,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Create receipt record
-      const receipt = await db.receipt.create({
+      const receipt = await prisma.receipt.create({
         data: {
           receiptId,
           liftTokenId: liftId,
@@ -731,7 +741,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       fastify.log.info('Fetching receipt', { receiptId: id, format });
 
       // Find receipt with all related data
-      const receipt = await db.receipt.findUnique({
+      const receipt = await prisma.receipt.findUnique({
         where: { receiptId: id },
         include: {
           project: {
@@ -760,13 +770,13 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       const projectId = receipt.projectId;
 
       // Get deposits for the project
-      const deposits = await db.deposit.findMany({
+      const deposits = await prisma.deposit.findMany({
         where: { projectId },
         orderBy: { depositedAt: 'asc' },
       });
 
       // Get disbursements for the project
-      const disbursements = await db.disbursement.findMany({
+      const disbursements = await prisma.disbursement.findMany({
         where: {
           invoice: {
             contract: {
@@ -783,7 +793,7 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
       });
 
       // Get verifications for the project
-      const verifications = await db.verificationAttestation.findMany({
+      const verifications = await prisma.verificationAttestation.findMany({
         where: {
           verificationGate: {
             projectId,
@@ -847,12 +857,16 @@ export async function financeLoopRoutes(fastify: FastifyInstance) {
         reply.type('text/html');
         return html;
       } else if (format === 'pdf') {
-        // For PDF, we'd need a PDF generation library
-        // For now, return JSON with a note
-        return {
-          ...receiptData,
-          note: 'PDF generation not implemented yet',
-        };
+        const seal = await sealReport(auditTrail, {
+          reportType: 'retirement-receipt',
+          reportId: receiptData.receiptId,
+          actor: (request.user as { address?: string } | undefined)?.address ?? 'system',
+          source: 'finance-loop',
+          content: receiptData,
+        });
+        reply.header('Content-Type', 'application/pdf');
+        reply.header('Content-Disposition', `attachment; filename="receipt-${receiptData.receiptId}.pdf"`);
+        return reply.send(renderPdfReport(retirementReceiptPdf(receiptData, seal)));
       }
 
       return receiptData;
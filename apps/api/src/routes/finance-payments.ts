@@ -1,13 +1,17 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@sinclair/typebox';
+import { PaymentMethod, type Disbursement } from '@prisma/client';
 import { DisbursementService } from '../lib/disbursement';
+import { SanctionsScreeningService } from '../lib/sanctions';
+import { createSafePaymentContext, SafeProposalDetails, SafeProposalTracker } from '../lib/safe-proposals';
+import { createNotificationService } from '../lib/notifications';
 import { prisma } from '@orenna/db';
 import { requireAuth } from '../lib/authorization.js';
 import { logger } from '../utils/logger';
 
 // Request/Response schemas
 const PaymentDataSchema = Type.Object({
-  method: Type.Union([
+  paymentMethod: Type.Union([
     Type.Literal('ACH'),
     Type.Literal('USDC'),
     Type.Literal('SAFE_MULTISIG'),
@@ -52,34 +56,23 @@ const DateRangeSchema = Type.Object({
 const DisbursementResponseSchema = Type.Object({
   id: Type.Number(),
   invoiceId: Type.Number(),
-  amount: Type.String(),
+  vendorId: Type.Number(),
+  paymentRunId: Type.Union([Type.String(), Type.Null()]),
+  disbursementNumber: Type.String(),
+  amountCents: Type.String(),
   currency: Type.String(),
-  method: Type.String(),
+  paymentMethod: Type.String(),
   status: Type.String(),
-  type: Type.String(),
-  recipientAddress: Type.Union([Type.String(), Type.Null()]),
-  bankRoutingNumber: Type.Union([Type.String(), Type.Null()]),
-  bankAccountNumber: Type.Union([Type.String(), Type.Null()]),
-  bankAccountType: Type.Union([Type.String(), Type.Null()]),
-  bankName: Type.Union([Type.String(), Type.Null()]),
-  safeAddress: Type.Union([Type.String(), Type.Null()]),
-  safeChainId: Type.Union([Type.Number(), Type.Null()]),
-  safeThreshold: Type.Union([Type.Number(), Type.Null()]),
-  memo: Type.Union([Type.String(), Type.Null()]),
-  reference: Type.Union([Type.String(), Type.Null()]),
-  transactionHash: Type.Union([Type.String(), Type.Null()]),
+  scheduledDate: Type.Union([Type.String(), Type.Null()]),
+  executedDate: Type.Union([Type.String(), Type.Null()]),
+  txHash: Type.Union([Type.String(), Type.Null()]),
   bankReference: Type.Union([Type.String(), Type.Null()]),
   blockNumber: Type.Union([Type.Number(), Type.Null()]),
-  gasUsed: Type.Union([Type.String(), Type.Null()]),
   confirmations: Type.Union([Type.Number(), Type.Null()]),
-  signatures: Type.Union([Type.Number(), Type.Null()]),
-  retryCount: Type.Union([Type.Number(), Type.Null()]),
-  error: Type.Union([Type.String(), Type.Null()]),
-  scheduledAt: Type.Union([Type.String(), Type.Null()]),
-  processedAt: Type.Union([Type.String(), Type.Null()]),
-  confirmedAt: Type.Union([Type.String(), Type.Null()]),
-  reconciledAt: Type.Union([Type.String(), Type.Null()]),
-  notificationSentAt: Type.Union([Type.String(), Type.Null()]),
+  reconciledDate: Type.Union([Type.String(), Type.Null()]),
+  failureReason: Type.Union([Type.String(), Type.Null()]),
+  retryCount: Type.Number(),
+  initiatedBy: Type.String(),
   createdAt: Type.String(),
   updatedAt: Type.String(),
   invoice: Type.Object({
@@ -94,24 +87,24 @@ const BatchResultSchema = Type.Object({
   totalDisbursements: Type.Number(),
   successfulPayments: Type.Number(),
   failedPayments: Type.Number(),
-  totalAmount: Type.String(),
+  totalAmountCents: Type.String(),
   results: Type.Array(Type.Object({
     disbursementId: Type.Number(),
     success: Type.Boolean(),
-    transactionHash: Type.Union([Type.String(), Type.Null()]),
+    txHash: Type.Union([Type.String(), Type.Null()]),
     bankReference: Type.Union([Type.String(), Type.Null()]),
     error: Type.Union([Type.String(), Type.Null()]),
-    processedAt: Type.String(),
+    executedAt: Type.String(),
   })),
 });
 
 const PaymentStatusSchema = Type.Object({
   disbursementId: Type.Number(),
   status: Type.String(),
-  method: Type.String(),
-  amount: Type.String(),
+  paymentMethod: Type.String(),
+  amountCents: Type.String(),
   recipient: Type.String(),
-  transactionHash: Type.Union([Type.String(), Type.Null()]),
+  txHash: Type.Union([Type.String(), Type.Null()]),
   bankReference: Type.Union([Type.String(), Type.Null()]),
   confirmations: Type.Union([Type.Number(), Type.Null()]),
   lastChecked: Type.String(),
@@ -131,17 +124,124 @@ const ReconciliationReportSchema = Type.Object({
   unreconciledDisbursements: Type.Array(Type.Object({
     id: Type.Number(),
     amount: Type.String(),
-    method: Type.String(),
+    paymentMethod: Type.String(),
     status: Type.String(),
     createdAt: Type.String(),
   })),
 });
 
+const SafeProposalSchema = Type.Object({
+  id: Type.Number(),
+  chainId: Type.Number(),
+  safeAddress: Type.String(),
+  safeTxHash: Type.String(),
+  nonce: Type.Number(),
+  reference: Type.String(),
+  disbursementIds: Type.Array(Type.Number()),
+  status: Type.String(),
+  threshold: Type.Number(),
+  owners: Type.Array(Type.String()),
+  confirmations: Type.Array(Type.Object({
+    signer: Type.String(),
+    source: Type.String(),
+    confirmedAt: Type.String(),
+  })),
+  pendingSigners: Type.Array(Type.String()),
+  executionTxHash: Type.Union([Type.String(), Type.Null()]),
+  executedAt: Type.Union([Type.String(), Type.Null()]),
+  lastNotifiedAt: Type.Union([Type.String(), Type.Null()]),
+  createdAt: Type.String(),
+});
+
+const SafeConfirmationSchema = Type.Object({
+  signer: Type.String({ pattern: '^0x[a-fA-F0-9]{40}$' }),
+  signature: Type.String({ pattern: '^0x[a-fA-F0-9]+$' }),
+});
+
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type DisbursementWithInvoice = Disbursement & {
+  invoice: { id: number; invoiceNumber: string; netPayableCents: bigint };
+};
+
+const invoiceSummaryInclude = {
+  invoice: {
+    select: { id: true, invoiceNumber: true, netPayableCents: true },
+  },
+} as const;
+
+function formatDisbursement(disbursement: DisbursementWithInvoice) {
+  return {
+    id: disbursement.id,
+    invoiceId: disbursement.invoiceId,
+    vendorId: disbursement.vendorId,
+    paymentRunId: disbursement.paymentRunId,
+    disbursementNumber: disbursement.disbursementNumber,
+    amountCents: disbursement.amountCents.toString(),
+    currency: disbursement.currency,
+    paymentMethod: disbursement.paymentMethod,
+    status: disbursement.status,
+    scheduledDate: disbursement.scheduledDate?.toISOString() || null,
+    executedDate: disbursement.executedDate?.toISOString() || null,
+    txHash: disbursement.txHash,
+    bankReference: disbursement.bankReference,
+    blockNumber: disbursement.blockNumber,
+    confirmations: disbursement.confirmations,
+    reconciledDate: disbursement.reconciledDate?.toISOString() || null,
+    failureReason: disbursement.failureReason,
+    retryCount: disbursement.retryCount,
+    initiatedBy: disbursement.initiatedBy,
+    createdAt: disbursement.createdAt.toISOString(),
+    updatedAt: disbursement.updatedAt.toISOString(),
+    invoice: {
+      id: disbursement.invoice.id,
+      invoiceNumber: disbursement.invoice.invoiceNumber,
+      netPayableCents: disbursement.invoice.netPayableCents.toString(),
+    },
+  };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatSafeProposal(proposal: SafeProposalDetails) {
+  return {
+    id: proposal.id,
+    chainId: proposal.chainId,
+    safeAddress: proposal.safeAddress,
+    safeTxHash: proposal.safeTxHash,
+    nonce: proposal.nonce,
+    reference: proposal.reference,
+    disbursementIds: proposal.disbursementIds,
+    status: proposal.status,
+    threshold: proposal.threshold,
+    owners: proposal.owners,
+    confirmations: proposal.confirmations.map(c => ({
+      signer: c.signer,
+      source: c.source,
+      confirmedAt: c.confirmedAt.toISOString(),
+    })),
+    pendingSigners: proposal.pendingSigners,
+    executionTxHash: proposal.executionTxHash,
+    executedAt: proposal.executedAt?.toISOString() || null,
+    lastNotifiedAt: proposal.lastNotifiedAt?.toISOString() || null,
+    createdAt: proposal.createdAt.toISOString(),
+  };
+}
+
 export async function financePaymentRoutes(fastify: FastifyInstance) {
-  const disbursementService = new DisbursementService(prisma);
+  const disbursementService = new DisbursementService(prisma, { screening: new SanctionsScreeningService(fastify) });
+  const notificationService = createNotificationService(fastify);
+  const safe = createSafePaymentContext(prisma, notificationService);
+  const safeProposals = safe?.tracker ?? new SafeProposalTracker(prisma, { notifier: notificationService });
 
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * Create payment run
@@ -177,11 +277,11 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         name,
         invoiceCount: invoiceIds.length,
         scheduledDate,
-        createdBy: request.user.id,
+        createdBy: request.user!.address,
       });
 
       // Validate invoices are approved and ready for payment
-      const invoices = await db.invoice.findMany({
+      const invoices = await prisma.invoice.findMany({
         where: {
           id: { in: invoiceIds },
           status: { in: ['APPROVED', 'SCHEDULED'] },
@@ -195,7 +295,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       const totalAmount = invoices.reduce((sum, inv) => sum + inv.netPayableCents, BigInt(0));
 
       // Create payment run
-      const paymentRun = await db.paymentRun.create({
+      const paymentRun = await prisma.paymentRun.create({
         data: {
           id: `PR-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`.toUpperCase(),
           name,
@@ -204,7 +304,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
           totalInvoices: invoices.length,
           totalAmount,
           scheduledDate: scheduledDate ? new Date(scheduledDate) : new Date(),
-          createdBy: request.user.id,
+          createdBy: request.user!.address,
         },
       });
 
@@ -212,7 +312,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       const disbursements = [];
       for (const invoice of invoices) {
         // Get vendor payment preferences
-        const vendor = await db.vendor.findUnique({
+        const vendor = await prisma.vendor.findUnique({
           where: { id: invoice.vendorId },
         });
 
@@ -220,28 +320,21 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
           throw new Error(`Vendor ${invoice.vendorId} not found`);
         }
 
-        const disbursement = await db.disbursement.create({
+        // Vendors store the method as free text; fall back to ACH when it isn't one we can pay with
+        const paymentMethod = Object.values(PaymentMethod).find(method => method === vendor.paymentMethod) ?? PaymentMethod.ACH;
+
+        const disbursement = await prisma.disbursement.create({
           data: {
             invoiceId: invoice.id,
+            vendorId: invoice.vendorId,
             paymentRunId: paymentRun.id,
-            amount: invoice.netPayableCents,
+            disbursementNumber: `${paymentRun.id}-INV-${invoice.id}`,
+            amountCents: invoice.netPayableCents,
             currency: invoice.currency || 'USD',
-            method: vendor.preferredPaymentMethod || 'ACH',
-            recipientAddress: vendor.cryptoAddress,
-            bankRoutingNumber: vendor.bankRoutingNumber,
-            bankAccountNumber: vendor.bankAccountNumber,
-            bankAccountType: vendor.bankAccountType,
-            bankName: vendor.bankName,
-            safeAddress: vendor.safeAddress,
-            safeChainId: vendor.safeChainId,
-            safeThreshold: vendor.safeThreshold,
-            memo: `Payment for invoice ${invoice.invoiceNumber}`,
-            reference: `PR-${paymentRun.id}-INV-${invoice.id}`,
+            paymentMethod,
             status: 'PENDING',
-            type: vendor.preferredPaymentMethod === 'ACH' ? 'ACH' :
-                  vendor.preferredPaymentMethod === 'USDC' ? 'CRYPTO' :
-                  vendor.preferredPaymentMethod === 'SAFE_MULTISIG' ? 'MULTISIG' : 'OTHER',
-            scheduledAt: paymentRun.scheduledDate,
+            scheduledDate: paymentRun.scheduledDate,
+            initiatedBy: request.user!.address,
           },
         });
 
@@ -259,11 +352,11 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         createdAt: paymentRun.createdAt.toISOString(),
       });
     } catch (error) {
-      logger.error('Failed to create payment run', { error: error.message });
+      logger.error('Failed to create payment run', { error: errorMessage(error) });
       reply.code(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: error.message,
+        message: errorMessage(error),
       });
     }
   });
@@ -296,17 +389,17 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
     try {
       const { id } = request.params;
 
-      logger.info('Executing payment run', { paymentRunId: id, executedBy: request.user.id });
+      logger.info('Executing payment run', { paymentRunId: id, executedBy: request.user!.address });
 
-      const result = await disbursementService.executeBatchPayments(id);
+      const result = await disbursementService.executeBatchPayments(id, { safe });
 
       // Update payment run status
-      await db.paymentRun.update({
+      await prisma.paymentRun.update({
         where: { id },
         data: {
           status: result.failedPayments > 0 ? 'PARTIALLY_EXECUTED' : 'EXECUTED',
           executedAt: new Date(),
-          executedBy: request.user.id,
+          executedBy: request.user!.address,
         },
       });
 
@@ -315,30 +408,30 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         totalDisbursements: result.totalDisbursements,
         successfulPayments: result.successfulPayments,
         failedPayments: result.failedPayments,
-        totalAmount: result.totalAmount.toString(),
+        totalAmountCents: result.totalAmountCents.toString(),
         results: result.results.map(r => ({
           disbursementId: r.disbursementId,
           success: r.success,
-          transactionHash: r.transactionHash || null,
+          txHash: r.txHash || null,
           bankReference: r.bankReference || null,
           error: r.error || null,
-          processedAt: r.processedAt.toISOString(),
+          executedAt: r.executedAt.toISOString(),
         })),
       });
     } catch (error) {
-      logger.error('Failed to execute payment run', { error: error.message, paymentRunId: request.params.id });
+      logger.error('Failed to execute payment run', { error: errorMessage(error), paymentRunId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -375,67 +468,25 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
 
       logger.info('Creating disbursement', { 
         invoiceId,
-        method: paymentData.method,
-        createdBy: request.user.id,
+        paymentMethod: paymentData.paymentMethod,
+        createdBy: request.user!.address,
       });
 
       const disbursement = await disbursementService.createDisbursement(invoiceId, paymentData);
 
       // Fetch disbursement with relations
-      const disbursementWithRelations = await db.disbursement.findUnique({
+      const disbursementWithRelations = await prisma.disbursement.findUniqueOrThrow({
         where: { id: disbursement.id },
-        include: {
-          invoice: {
-            select: { id: true, invoiceNumber: true, netPayableCents: true },
-          },
-        },
+        include: invoiceSummaryInclude,
       });
 
-      reply.code(201).send({
-        id: disbursementWithRelations!.id,
-        invoiceId: disbursementWithRelations!.invoiceId,
-        amount: disbursementWithRelations!.amount.toString(),
-        currency: disbursementWithRelations!.currency,
-        method: disbursementWithRelations!.method,
-        status: disbursementWithRelations!.status,
-        type: disbursementWithRelations!.type,
-        recipientAddress: disbursementWithRelations!.recipientAddress,
-        bankRoutingNumber: disbursementWithRelations!.bankRoutingNumber,
-        bankAccountNumber: disbursementWithRelations!.bankAccountNumber,
-        bankAccountType: disbursementWithRelations!.bankAccountType,
-        bankName: disbursementWithRelations!.bankName,
-        safeAddress: disbursementWithRelations!.safeAddress,
-        safeChainId: disbursementWithRelations!.safeChainId,
-        safeThreshold: disbursementWithRelations!.safeThreshold,
-        memo: disbursementWithRelations!.memo,
-        reference: disbursementWithRelations!.reference,
-        transactionHash: disbursementWithRelations!.transactionHash,
-        bankReference: disbursementWithRelations!.bankReference,
-        blockNumber: disbursementWithRelations!.blockNumber,
-        gasUsed: disbursementWithRelations!.gasUsed?.toString() || null,
-        confirmations: disbursementWithRelations!.confirmations,
-        signatures: disbursementWithRelations!.signatures,
-        retryCount: disbursementWithRelations!.retryCount,
-        error: disbursementWithRelations!.error,
-        scheduledAt: disbursementWithRelations!.scheduledAt?.toISOString() || null,
-        processedAt: disbursementWithRelations!.processedAt?.toISOString() || null,
-        confirmedAt: disbursementWithRelations!.confirmedAt?.toISOString() || null,
-        reconciledAt: disbursementWithRelations!.reconciledAt?.toISOString() || null,
-        notificationSentAt: disbursementWithRelations!.notificationSentAt?.toISOString() || null,
-        createdAt: disbursementWithRelations!.createdAt.toISOString(),
-        updatedAt: disbursementWithRelations!.updatedAt.toISOString(),
-        invoice: {
-          id: disbursementWithRelations!.invoice.id,
-          invoiceNumber: disbursementWithRelations!.invoice.invoiceNumber,
-          netPayableCents: disbursementWithRelations!.invoice.netPayableCents.toString(),
-        },
-      });
+      reply.code(201).send(formatDisbursement(disbursementWithRelations));
     } catch (error) {
-      logger.error('Failed to create disbursement', { error: error.message });
+      logger.error('Failed to create disbursement', { error: errorMessage(error) });
       reply.code(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: error.message,
+        message: errorMessage(error),
       });
     }
   });
@@ -470,23 +521,23 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       reply.send({
         disbursementId: status.disbursementId,
         status: status.status,
-        method: status.method,
-        amount: status.amount.toString(),
+        paymentMethod: status.paymentMethod,
+        amountCents: status.amountCents.toString(),
         recipient: status.recipient,
-        transactionHash: status.transactionHash,
+        txHash: status.txHash,
         bankReference: status.bankReference,
         confirmations: status.confirmations,
         lastChecked: status.lastChecked.toISOString(),
         error: status.error,
       });
     } catch (error) {
-      logger.error('Failed to check disbursement status', { error: error.message, disbursementId: request.params.id });
+      logger.error('Failed to check disbursement status', { error: errorMessage(error), disbursementId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -537,7 +588,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       logger.info('Reconciling payment', { 
         disbursementId: id, 
         bankReference,
-        reconciledBy: request.user.id,
+        reconciledBy: request.user!.address,
       });
 
       await disbursementService.reconcilePayment(id, bankReference);
@@ -547,19 +598,19 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         status: 'RECONCILED',
       });
     } catch (error) {
-      logger.error('Failed to reconcile payment', { error: error.message, disbursementId: request.params.id });
+      logger.error('Failed to reconcile payment', { error: errorMessage(error), disbursementId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -604,7 +655,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       logger.info('Matching blockchain transaction', { 
         disbursementId: id, 
         transactionHash,
-        matchedBy: request.user.id,
+        matchedBy: request.user!.address,
       });
 
       await disbursementService.matchBlockchainTransaction(id, transactionHash);
@@ -614,19 +665,19 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         status: 'RECONCILED',
       });
     } catch (error) {
-      logger.error('Failed to match blockchain transaction', { error: error.message, disbursementId: request.params.id });
+      logger.error('Failed to match blockchain transaction', { error: errorMessage(error), disbursementId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -656,7 +707,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       logger.info('Generating reconciliation report', { 
         startDate, 
         endDate,
-        requestedBy: request.user.id,
+        requestedBy: request.user!.address,
       });
 
       const dateRange = {
@@ -679,17 +730,17 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         unreconciledDisbursements: report.unreconciledDisbursements.map(d => ({
           id: d.id,
           amount: d.amount.toString(),
-          method: d.method,
+          paymentMethod: d.paymentMethod,
           status: d.status,
           createdAt: d.createdAt.toISOString(),
         })),
       });
     } catch (error) {
-      logger.error('Failed to generate reconciliation report', { error: error.message });
+      logger.error('Failed to generate reconciliation report', { error: errorMessage(error) });
       reply.code(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: error.message,
+        message: errorMessage(error),
       });
     }
   });
@@ -716,7 +767,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      logger.info('Retrying failed payments', { requestedBy: request.user.id });
+      logger.info('Retrying failed payments', { requestedBy: request.user!.address });
 
       const results = await disbursementService.retryFailedPayments();
 
@@ -731,7 +782,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         })),
       });
     } catch (error) {
-      logger.error('Failed to retry failed payments', { error: error.message });
+      logger.error('Failed to retry failed payments', { error: errorMessage(error) });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -767,7 +818,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
 
       logger.info('Sending payment notifications', { 
         disbursementId: id,
-        requestedBy: request.user.id,
+        requestedBy: request.user!.address,
       });
 
       await disbursementService.sendPaymentNotifications(id);
@@ -776,13 +827,13 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         message: 'Payment notifications sent successfully',
       });
     } catch (error) {
-      logger.error('Failed to send payment notifications', { error: error.message, disbursementId: request.params.id });
+      logger.error('Failed to send payment notifications', { error: errorMessage(error), disbursementId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -845,13 +896,13 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       if (status) filters.status = status;
 
       const [paymentRuns, total] = await Promise.all([
-        db.paymentRun.findMany({
+        prisma.paymentRun.findMany({
           where: filters,
           skip: (page - 1) * limit,
           take: limit,
           orderBy: { createdAt: 'desc' },
         }),
-        db.paymentRun.count({ where: filters }),
+        prisma.paymentRun.count({ where: filters }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
@@ -877,7 +928,7 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
-      logger.error('Failed to fetch payment runs', { error: error.message });
+      logger.error('Failed to fetch payment runs', { error: errorMessage(error) });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -911,57 +962,15 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
 
       logger.info('Fetching disbursements for payment run', { paymentRunId: id });
 
-      const disbursements = await db.disbursement.findMany({
+      const disbursements = await prisma.disbursement.findMany({
         where: { paymentRunId: id },
-        include: {
-          invoice: {
-            select: { id: true, invoiceNumber: true, netPayableCents: true },
-          },
-        },
+        include: invoiceSummaryInclude,
         orderBy: { createdAt: 'desc' },
       });
 
-      reply.send(disbursements.map(d => ({
-        id: d.id,
-        invoiceId: d.invoiceId,
-        amount: d.amount.toString(),
-        currency: d.currency,
-        method: d.method,
-        status: d.status,
-        type: d.type,
-        recipientAddress: d.recipientAddress,
-        bankRoutingNumber: d.bankRoutingNumber,
-        bankAccountNumber: d.bankAccountNumber,
-        bankAccountType: d.bankAccountType,
-        bankName: d.bankName,
-        safeAddress: d.safeAddress,
-        safeChainId: d.safeChainId,
-        safeThreshold: d.safeThreshold,
-        memo: d.memo,
-        reference: d.reference,
-        transactionHash: d.transactionHash,
-        bankReference: d.bankReference,
-        blockNumber: d.blockNumber,
-        gasUsed: d.gasUsed?.toString() || null,
-        confirmations: d.confirmations,
-        signatures: d.signatures,
-        retryCount: d.retryCount,
-        error: d.error,
-        scheduledAt: d.scheduledAt?.toISOString() || null,
-        processedAt: d.processedAt?.toISOString() || null,
-        confirmedAt: d.confirmedAt?.toISOString() || null,
-        reconciledAt: d.reconciledAt?.toISOString() || null,
-        notificationSentAt: d.notificationSentAt?.toISOString() || null,
-        createdAt: d.createdAt.toISOString(),
-        updatedAt: d.updatedAt.toISOString(),
-        invoice: {
-          id: d.invoice.id,
-          invoiceNumber: d.invoice.invoiceNumber,
-          netPayableCents: d.invoice.netPayableCents.toString(),
-        },
-      })));
+      reply.send(disbursements.map(formatDisbursement));
     } catch (error) {
-      logger.error('Failed to fetch disbursements for payment run', { error: error.message, paymentRunId: request.params.id });
+      logger.error('Failed to fetch disbursements for payment run', { error: errorMessage(error), paymentRunId: request.params.id });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -969,4 +978,213 @@ export async function financePaymentRoutes(fastify: FastifyInstance) {
       });
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * List Safe multisig proposals with the signatures each is waiting on
+   */
+  fastify.get('/safe-proposals', {
+    schema: {
+      tags: ['Finance Payments'],
+      summary: 'List Safe multisig proposals',
+      querystring: Type.Object({
+        page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
+        limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
+        status: Type.Optional(Type.Union([
+          Type.Literal('PENDING_SIGNATURES'),
+          Type.Literal('EXECUTABLE'),
+          Type.Literal('EXECUTED'),
+          Type.Literal('FAILED'),
+        ])),
+        safeAddress: Type.Optional(Type.String()),
+      }),
+      response: {
+        200: Type.Object({
+          proposals: Type.Array(SafeProposalSchema),
+          pagination: Type.Object({
+            page: Type.Number(),
+            limit: Type.Number(),
+            total: Type.Number(),
+            totalPages: Type.Number(),
+          }),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Querystring: {
+      page?: number;
+      limit?: number;
+      status?: 'PENDING_SIGNATURES' | 'EXECUTABLE' | 'EXECUTED' | 'FAILED';
+      safeAddress?: string;
+    }
+  }>, reply: FastifyReply) => {
+    try {
+      const { page = 1, limit = 20, status, safeAddress } = request.query;
+
+      const { proposals, total } = await safeProposals.listProposals({
+        status,
+        safeAddress,
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      reply.send({
+        proposals: proposals.map(formatSafeProposal),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch Safe proposals', { error: errorMessage(error) });
+      reply.code(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch Safe proposals',
+      });
+    }
+  });
+
+  /**
+   * Get a Safe multisig proposal
+   */
+  fastify.get('/safe-proposals/:safeTxHash', {
+    schema: {
+      tags: ['Finance Payments'],
+      summary: 'Get a Safe multisig proposal',
+      params: Type.Object({
+        safeTxHash: Type.String(),
+      }),
+      response: {
+        200: SafeProposalSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { safeTxHash: string } }>, reply: FastifyReply) => {
+    const proposal = await safeProposals.getProposal(request.params.safeTxHash);
+
+    if (!proposal) {
+      return reply.code(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: `Safe proposal ${request.params.safeTxHash} not found`,
+      });
+    }
+
+    reply.send(formatSafeProposal(proposal));
+  });
+
+  /**
+   * Submit an owner's signature for a Safe multisig proposal
+   */
+  fastify.post('/safe-proposals/:safeTxHash/confirmations', {
+    schema: {
+      tags: ['Finance Payments'],
+      summary: 'Confirm a Safe multisig proposal',
+      params: Type.Object({
+        safeTxHash: Type.String(),
+      }),
+      body: SafeConfirmationSchema,
+      response: {
+        200: SafeProposalSchema,
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { safeTxHash: string };
+    Body: typeof SafeConfirmationSchema.static;
+  }>, reply: FastifyReply) => {
+    try {
+      const { safeTxHash } = request.params;
+
+      logger.info('Confirming Safe proposal', {
+        safeTxHash,
+        signer: request.body.signer,
+        submittedBy: request.user!.address,
+      });
+
+      const proposal = await safeProposals.confirm(safeTxHash, {
+        signer: request.body.signer as `0x${string}`,
+        data: request.body.signature as `0x${string}`,
+        dynamic: false,
+      });
+
+      reply.send(formatSafeProposal(proposal));
+    } catch (error) {
+      logger.error('Failed to confirm Safe proposal', { error: errorMessage(error), safeTxHash: request.params.safeTxHash });
+
+      const statusCode = errorMessage(error).includes('not found') ? 404 : 400;
+      reply.code(statusCode).send({
+        statusCode,
+        error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * Pull confirmations collected by the Safe Transaction Service
+   */
+  fastify.post('/safe-proposals/:safeTxHash/sync', {
+    schema: {
+      tags: ['Finance Payments'],
+      summary: 'Sync Safe proposal confirmations',
+      params: Type.Object({
+        safeTxHash: Type.String(),
+      }),
+      response: {
+        200: SafeProposalSchema,
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { safeTxHash: string } }>, reply: FastifyReply) => {
+    try {
+      const proposal = await safeProposals.syncConfirmations(request.params.safeTxHash);
+      reply.send(formatSafeProposal(proposal));
+    } catch (error) {
+      logger.error('Failed to sync Safe proposal', { error: errorMessage(error), safeTxHash: request.params.safeTxHash });
+
+      const statusCode = errorMessage(error).includes('not found') ? 404 : 400;
+      reply.code(statusCode).send({
+        statusCode,
+        error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * Remind the owners who have not signed a Safe multisig proposal
+   */
+  fastify.post('/safe-proposals/:safeTxHash/notify', {
+    schema: {
+      tags: ['Finance Payments'],
+      summary: 'Notify pending Safe signers',
+      params: Type.Object({
+        safeTxHash: Type.String(),
+      }),
+      response: {
+        200: SafeProposalSchema,
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Params: { safeTxHash: string } }>, reply: FastifyReply) => {
+    try {
+      const proposal = await safeProposals.notifyPendingSigners(request.params.safeTxHash);
+      reply.send(formatSafeProposal(proposal));
+    } catch (error) {
+      logger.error('Failed to notify Safe signers', { error: errorMessage(error), safeTxHash: request.params.safeTxHash });
+
+      const statusCode = errorMessage(error).includes('not found') ? 404 : 400;
+      reply.code(statusCode).send({
+        statusCode,
+        error: statusCode === 404 ? 'Not Found' : 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+}
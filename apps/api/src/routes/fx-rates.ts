@@ -0,0 +1,163 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { prisma } from '@orenna/db';
+import { FxRateService } from '../lib/fx-rates';
+import { requireAuth } from '../lib/authorization.js';
+import { logger } from '../utils/logger';
+
+// Request/Response schemas
+const CurrencySchema = Type.String({ pattern: '^[A-Z]{3,5}$' });
+
+const FxRateInputSchema = Type.Object({
+  baseCurrency: CurrencySchema,
+  quoteCurrency: CurrencySchema,
+  rate: Type.String({ pattern: '^\\d+(\\.\\d{1,12})?$' }),
+  effectiveDate: Type.String({ format: 'date' }),
+});
+
+const FxRateSchema = Type.Object({
+  id: Type.Number(),
+  baseCurrency: Type.String(),
+  quoteCurrency: Type.String(),
+  rate: Type.String(),
+  effectiveDate: Type.String(),
+  source: Type.String(),
+  createdBy: Type.String(),
+  createdAt: Type.String(),
+});
+
+const FxRateFileSchema = Type.Object({
+  content: Type.String({ minLength: 1 }),
+  encoding: Type.Optional(Type.Union([Type.Literal('utf8'), Type.Literal('base64')])),
+});
+
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
+function formatRate(rate: any) {
+  return {
+    id: rate.id,
+    baseCurrency: rate.baseCurrency,
+    quoteCurrency: rate.quoteCurrency,
+    rate: rate.rate.toString(),
+    effectiveDate: rate.effectiveDate.toISOString().slice(0, 10),
+    source: rate.source,
+    createdBy: rate.createdBy,
+    createdAt: rate.createdAt.toISOString(),
+  };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function fxRateRoutes(fastify: FastifyInstance) {
+  const fxRateService = new FxRateService(prisma);
+
+  // Register authentication requirement for all routes
+  fastify.addHook('preHandler', requireAuth);
+
+  /**
+   * List FX rates, most recent first
+   */
+  fastify.get('/fx-rates', {
+    schema: {
+      tags: ['FX Rates'],
+      summary: 'List FX rates',
+      querystring: Type.Object({
+        baseCurrency: Type.Optional(CurrencySchema),
+        quoteCurrency: Type.Optional(CurrencySchema),
+        limit: Type.Optional(Type.Number({ minimum: 1, maximum: 500, default: 100 })),
+      }),
+      response: {
+        200: Type.Object({ rates: Type.Array(FxRateSchema) }),
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: { baseCurrency?: string; quoteCurrency?: string; limit?: number } }>, reply: FastifyReply) => {
+    try {
+      const rates = await fxRateService.listRates(request.query);
+      reply.send({ rates: rates.map(formatRate) });
+    } catch (error) {
+      logger.error('Failed to list FX rates', { error: errorMessage(error) });
+      reply.code(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to list FX rates',
+      });
+    }
+  });
+
+  /**
+   * Enter a rate manually; replaces the rate already entered for that pair and date
+   */
+  fastify.post('/fx-rates', {
+    schema: {
+      tags: ['FX Rates'],
+      summary: 'Enter an FX rate',
+      body: FxRateInputSchema,
+      response: {
+        201: FxRateSchema,
+        400: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: typeof FxRateInputSchema.static }>, reply: FastifyReply) => {
+    try {
+      const { effectiveDate, ...input } = request.body;
+      const rate = await fxRateService.setRate(
+        { ...input, effectiveDate: new Date(`${effectiveDate}T00:00:00Z`) },
+        { source: 'MANUAL', createdBy: request.user!.address }
+      );
+
+      logger.info('Entered FX rate', {
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        effectiveDate,
+        createdBy: request.user!.address,
+      });
+
+      reply.code(201).send(formatRate(rate));
+    } catch (error) {
+      logger.error('Failed to enter FX rate', { error: errorMessage(error) });
+      reply.code(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * Import rates from a CSV with date, base, quote and rate columns
+   */
+  fastify.post('/fx-rates/import', {
+    schema: {
+      tags: ['FX Rates'],
+      summary: 'Import FX rates from CSV',
+      body: FxRateFileSchema,
+      response: {
+        201: Type.Object({ imported: Type.Number(), rates: Type.Array(FxRateSchema) }),
+        400: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: typeof FxRateFileSchema.static }>, reply: FastifyReply) => {
+    try {
+      const { content, encoding } = request.body;
+      const rates = await fxRateService.importRatesCsv(
+        encoding === 'base64' ? Buffer.from(content, 'base64').toString('utf8') : content,
+        request.user!.address
+      );
+
+      reply.code(201).send({ imported: rates.length, rates: rates.map(formatRate) });
+    } catch (error) {
+      logger.error('Failed to import FX rates', { error: errorMessage(error) });
+      reply.code(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errorMessage(error),
+      });
+    }
+  });
+}
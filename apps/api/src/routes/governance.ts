@@ -1,7 +1,7 @@
 // apps/api/src/routes/governance.ts
 import { Type } from '@sinclair/typebox';
 import { Value } from '@sinclair/typebox/value';
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { createGovernanceService } from '../lib/governance.js';
 import { requireAuth } from '../lib/authorization.js';
 import { PrismaClient } from '@orenna/db';
@@ -74,6 +74,10 @@ const AntiSpamDepositSchema = Type.Object({
   chainId: Type.Optional(Type.Integer({ minimum: 1, default: 1 })),
 });
 
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
 export async function governanceRoutes(fastify: FastifyInstance) {
   const prisma = fastify.prisma as PrismaClient;
   const governanceService = createGovernanceService(fastify, prisma);
@@ -86,9 +90,9 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Querystring: { chainId?: number } }>, reply: FastifyReply) => {
     const { chainId = 1 } = request.query;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       const tokenInfo = await governanceService.getGovernanceToken(userAddress as any, chainId);
@@ -119,7 +123,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Querystring: { chainId?: number; limit?: number; offset?: number; status?: string; proposalType?: string } }>, reply: FastifyReply) => {
     const { chainId = 1, limit = 20, offset = 0, status, proposalType } = request.query;
 
     try {
@@ -147,7 +151,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
 
     try {
@@ -158,7 +162,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
         data: proposal,
       };
     } catch (error) {
-      if (error.message === 'Proposal not found') {
+      if (errorMessage(error) === 'Proposal not found') {
         reply.code(404);
         return {
           success: false,
@@ -181,9 +185,9 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       body: ProposalCreateSchema,
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Body: typeof ProposalCreateSchema.static }>, reply: FastifyReply) => {
     const proposalData = request.body;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       // Validate proposal data
@@ -223,11 +227,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to create proposal');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -248,10 +252,10 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       body: VoteRequestSchema,
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Body: typeof VoteRequestSchema.static }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const voteData = request.body;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       // Validate vote data
@@ -280,11 +284,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to record vote');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -302,9 +306,9 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       body: DelegationRequestSchema,
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Body: typeof DelegationRequestSchema.static }>, reply: FastifyReply) => {
     const delegationData = request.body;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       // Validate delegation data
@@ -349,7 +353,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Querystring: { category?: string } }>, reply: FastifyReply) => {
     const { category } = request.query;
 
     try {
@@ -379,7 +383,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Querystring: { chainId?: number; periodStart: string; periodEnd: string } }>, reply: FastifyReply) => {
     const { chainId = 1, periodStart, periodEnd } = request.query;
 
     try {
@@ -421,7 +425,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Body: { title: string; description: string; proposalType: string; metadata: unknown } }>, reply: FastifyReply) => {
     const { title, description, proposalType, metadata } = request.body;
 
     try {
@@ -455,10 +459,10 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       body: SponsorshipRequestSchema,
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Body: typeof SponsorshipRequestSchema.static }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const sponsorshipData = request.body;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       const chainId = sponsorshipData.chainId || 1;
@@ -476,11 +480,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to submit sponsorship');
       
-      if (error.message.includes('not found') || error.message.includes('not accepting')) {
+      if (errorMessage(error).includes('not found') || errorMessage(error).includes('not accepting')) {
         reply.code(400);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -501,10 +505,10 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       body: AntiSpamDepositSchema,
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Body: typeof AntiSpamDepositSchema.static }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const depositData = request.body;
-    const userAddress = request.user.address;
+    const userAddress = request.user!.address;
 
     try {
       const result = await governanceService.recordAntiSpamDeposit(
@@ -522,11 +526,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to record anti-spam deposit');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -546,7 +550,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
 
     try {
@@ -559,11 +563,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to get proposal sponsorships');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -583,7 +587,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
 
     try {
@@ -621,7 +625,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
 
     try {
@@ -652,7 +656,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Body: { chainId?: number } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const { chainId = 1 } = request.body;
 
@@ -666,11 +670,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to start voting period');
       
-      if (error.message.includes('not found') || error.message.includes('requirements') || error.message.includes('not in pending')) {
+      if (errorMessage(error).includes('not found') || errorMessage(error).includes('requirements') || errorMessage(error).includes('not in pending')) {
         reply.code(400);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -693,7 +697,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Querystring: { chainId?: number } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const { chainId = 1 } = request.query;
 
@@ -707,11 +711,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to check quorum');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -731,7 +735,7 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
 
     try {
@@ -744,11 +748,11 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to finalize voting');
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -768,9 +772,9 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
-    const executorAddress = request.user.address;
+    const executorAddress = request.user!.address;
 
     try {
       const result = await governanceService.executeProposal(proposalId, executorAddress as any);
@@ -782,14 +786,14 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to execute proposal');
       
-      if (error.message.includes('not found') || 
-          error.message.includes('not queued') || 
-          error.message.includes('Timelock not ready') ||
-          error.message.includes('expired')) {
+      if (errorMessage(error).includes('not found') || 
+          errorMessage(error).includes('not queued') || 
+          errorMessage(error).includes('Timelock not ready') ||
+          errorMessage(error).includes('expired')) {
         reply.code(400);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
@@ -812,10 +816,10 @@ export async function governanceRoutes(fastify: FastifyInstance) {
       }),
     },
     preHandler: [requireAuth],
-  }, async (request, reply) => {
+  }, async (request: FastifyRequest<{ Params: { proposalId: string }; Body: { reason: string } }>, reply: FastifyReply) => {
     const { proposalId } = request.params;
     const { reason } = request.body;
-    const cancellerAddress = request.user.address;
+    const cancellerAddress = request.user!.address;
 
     try {
       const result = await governanceService.cancelQueuedProposal(
@@ -831,13 +835,13 @@ export async function governanceRoutes(fastify: FastifyInstance) {
     } catch (error) {
       fastify.log.error(error, 'Failed to cancel proposal');
       
-      if (error.message.includes('not found') || 
-          error.message.includes('not queued') || 
-          error.message.includes('Insufficient permissions')) {
+      if (errorMessage(error).includes('not found') || 
+          errorMessage(error).includes('not queued') || 
+          errorMessage(error).includes('Insufficient permissions')) {
         reply.code(400);
         return {
           success: false,
-          error: error.message,
+          error: errorMessage(error),
         };
       }
       
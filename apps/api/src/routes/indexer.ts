@@ -2,16 +2,20 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { BlockchainIndexer } from '../lib/indexer.js';
+import { createNotificationService } from '../lib/notifications.js';
+import { RBACService } from '../lib/rbac.js';
+import { getEnv } from '../types/env.js';
 
 // Validation schemas
 const StartIndexerSchema = z.object({
   configs: z.array(z.object({
     chainId: z.number().int().positive(),
     contractAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid contract address'),
-    indexerType: z.enum(['RepaymentEscrow', 'AllocationEscrow', 'LiftTokens']),
+    indexerType: z.enum(['RepaymentEscrow', 'AllocationEscrow', 'LiftTokens', 'SafeMultisig']),
     startBlock: z.number().int().min(0).optional(),
     confirmations: z.number().int().min(1).max(100).optional(),
-    batchSize: z.number().int().min(1).max(10000).optional()
+    batchSize: z.number().int().min(1).max(10000).optional(),
+    maxReorgDepth: z.number().int().min(1).max(10000).optional()
   })).min(1)
 });
 
@@ -19,9 +23,33 @@ const RetryFailedEventsSchema = z.object({
   limit: z.number().int().min(1).max(1000).default(100)
 });
 
+const BackfillSchema = z.object({
+  chainId: z.number().int().positive(),
+  contractAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid contract address'),
+  indexerType: z.enum(['RepaymentEscrow', 'AllocationEscrow', 'LiftTokens', 'SafeMultisig']),
+  fromBlock: z.number().int().min(0),
+  toBlock: z.number().int().min(0),
+  chunkSize: z.number().int().min(1).max(10000).optional(),
+  concurrency: z.number().int().min(1).max(16).optional()
+}).refine(data => data.toBlock >= data.fromBlock, {
+  message: 'toBlock must be greater than or equal to fromBlock',
+  path: ['toBlock']
+});
+
+const ReplaySchema = z.object({
+  chainId: z.number().int().positive(),
+  contractAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid contract address'),
+  indexerType: z.enum(['RepaymentEscrow', 'AllocationEscrow', 'LiftTokens', 'SafeMultisig']),
+  fromBlock: z.number().int().min(0).optional(),
+  toBlock: z.number().int().min(0).optional(),
+  eventName: z.string().optional()
+});
+
 export default async function indexerRoutes(app: FastifyInstance) {
   // Global indexer instance
   let indexer: BlockchainIndexer | null = null;
+  const createIndexer = () => new BlockchainIndexer(app, { safeProposalNotifier: createNotificationService(app) });
+  const rbacService = new RBACService(app);
 
   // Get indexer status
   app.get('/indexer/status', {
@@ -79,10 +107,13 @@ export default async function indexerRoutes(app: FastifyInstance) {
 
     try {
       if (!indexer) {
-        indexer = new BlockchainIndexer(app);
+        indexer = createIndexer();
       }
 
-      await indexer.startIndexing(configs);
+      await indexer.startIndexing(configs.map(config => ({
+        ...config,
+        contractAddress: config.contractAddress as `0x${string}`
+      })));
 
       app.log.info({ configs }, 'Blockchain indexing started');
 
@@ -146,7 +177,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
 
     try {
       if (!indexer) {
-        indexer = new BlockchainIndexer(app);
+        indexer = createIndexer();
       }
 
       const result = await indexer.retryFailedEvents(limit);
@@ -166,6 +197,140 @@ export default async function indexerRoutes(app: FastifyInstance) {
     }
   });
 
+  // Backfill a historical block range
+  app.post('/indexer/backfill', {
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canConfigureGlobalSettings')
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const parsed = BackfillSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid backfill request', details: parsed.error.flatten() });
+    }
+
+    const maxBlocks = getEnv().INDEXER_BACKFILL_MAX_BLOCKS;
+    if (parsed.data.toBlock - parsed.data.fromBlock > maxBlocks) {
+      return reply.code(400).send({
+        error: 'Backfill range too large',
+        message: `A single backfill may cover at most ${maxBlocks} blocks`
+      });
+    }
+
+    try {
+      if (!indexer) {
+        indexer = createIndexer();
+      }
+
+      const job = indexer.startBackfill({
+        ...parsed.data,
+        contractAddress: parsed.data.contractAddress as `0x${string}`
+      });
+
+      return reply.code(202).send({ success: true, jobId: job.id, job });
+    } catch (error) {
+      app.log.error({ error, body: parsed.data }, 'Failed to start backfill');
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to start backfill'
+      });
+    }
+  });
+
+  // Replay business handlers over stored events. Replays revert recorded
+  // effects (including deleting payments), so only platform admins may run them
+  app.post('/indexer/replay', {
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canConfigureGlobalSettings')
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const parsed = ReplaySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid replay request', details: parsed.error.flatten() });
+    }
+
+    try {
+      if (!indexer) {
+        indexer = createIndexer();
+      }
+
+      const job = indexer.startReplay({
+        ...parsed.data,
+        contractAddress: parsed.data.contractAddress as `0x${string}`
+      });
+
+      return reply.code(202).send({ success: true, jobId: job.id, job });
+    } catch (error) {
+      app.log.error({ error, body: parsed.data }, 'Failed to start replay');
+      return reply.code(500).send({
+        success: false,
+        error: 'Failed to start replay'
+      });
+    }
+  });
+
+  // List backfill and replay jobs
+  app.get('/indexer/jobs', {
+    schema: {
+      description: 'List indexer backfill and replay jobs',
+      tags: ['Indexer']
+    }
+  }, async () => {
+    return { jobs: indexer ? indexer.getJobs() : [] };
+  });
+
+  // Get a backfill or replay job
+  app.get('/indexer/jobs/:jobId', {
+    schema: {
+      description: 'Get indexer job progress',
+      tags: ['Indexer'],
+      params: {
+        type: 'object',
+        required: ['jobId'],
+        properties: {
+          jobId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply) => {
+    const { jobId } = request.params as { jobId: string };
+    const job = indexer?.getJob(jobId);
+
+    if (!job) {
+      return reply.code(404).send({ error: 'Job not found' });
+    }
+
+    return job;
+  });
+
+  // Cancel a running job
+  app.post('/indexer/jobs/:jobId/cancel', {
+    schema: {
+      description: 'Cancel a running indexer job',
+      tags: ['Indexer'],
+      params: {
+        type: 'object',
+        required: ['jobId'],
+        properties: {
+          jobId: { type: 'string' }
+        }
+      }
+    }
+  }, async (request: FastifyRequest, reply) => {
+    const { jobId } = request.params as { jobId: string };
+
+    if (!indexer?.getJob(jobId)) {
+      return reply.code(404).send({ error: 'Job not found' });
+    }
+
+    if (!indexer.cancelJob(jobId)) {
+      return reply.code(409).send({ error: 'Job is not running' });
+    }
+
+    return { success: true, message: 'Job cancellation requested' };
+  });
+
   // Get indexed events
   app.get('/indexer/events', {
     schema: {
@@ -179,6 +344,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
           eventName: { type: 'string' },
           processed: { type: 'boolean' },
           hasError: { type: 'boolean' },
+          orphaned: { type: 'boolean' },
           limit: { type: 'number', default: 50 },
           offset: { type: 'number', default: 0 }
         }
@@ -191,6 +357,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
       eventName,
       processed,
       hasError,
+      orphaned,
       limit = 50,
       offset = 0
     } = request.query as {
@@ -199,6 +366,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
       eventName?: string;
       processed?: boolean;
       hasError?: boolean;
+      orphaned?: boolean;
       limit?: number;
       offset?: number;
     };
@@ -212,6 +380,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
       if (hasError !== undefined) {
         where.processingError = hasError ? { not: null } : null;
       }
+      if (orphaned !== undefined) where.orphaned = orphaned;
 
       const [events, total] = await Promise.all([
         app.prisma.indexedEvent.findMany({
@@ -307,7 +476,7 @@ export default async function indexerRoutes(app: FastifyInstance) {
       ];
 
       if (!indexer) {
-        indexer = new BlockchainIndexer(app);
+        indexer = createIndexer();
       }
 
       await indexer.startIndexing(defaultConfigs);
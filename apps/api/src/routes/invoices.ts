@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@sinclair/typebox';
 import { InvoiceService } from '../lib/invoice';
+import { RBACService } from '../lib/rbac.js';
 import { prisma } from '@orenna/db';
 import { requireAuth } from '../lib/authorization.js';
 import { logger } from '../utils/logger';
@@ -41,9 +42,9 @@ const InvoiceCodingSchema = Type.Object({
 const ApprovalDataSchema = Type.Object({
   approverRole: Type.Union([
     Type.Literal('PROJECT_MANAGER'),
-    Type.Literal('FINANCE_MANAGER'),
-    Type.Literal('EXECUTIVE'),
-    Type.Literal('OWNER'),
+    Type.Literal('FINANCE_REVIEWER'),
+    Type.Literal('TREASURER'),
+    Type.Literal('DAO_MULTISIG'),
   ]),
   decision: Type.Union([
     Type.Literal('APPROVED'),
@@ -167,11 +168,15 @@ const PaymentAuthSchema = Type.Object({
   })),
 });
 
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
 export async function invoiceRoutes(fastify: FastifyInstance) {
-  const invoiceService = new InvoiceService(prisma);
+  const invoiceService = new InvoiceService(prisma, { authority: new RBACService(fastify) });
 
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * Create a new invoice
@@ -203,7 +208,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         periodEnd: request.body.periodEnd ? new Date(request.body.periodEnd) : undefined,
         billingDate: request.body.billingDate ? new Date(request.body.billingDate) : undefined,
         dueDate: request.body.dueDate ? new Date(request.body.dueDate) : undefined,
-        submittedBy: request.user.id,
+        submittedBy: request.user!.address,
       };
 
       logger.info('Creating invoice', { 
@@ -216,7 +221,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       const invoice = await invoiceService.createInvoice(invoiceData);
 
       // Fetch invoice with relations
-      const invoiceWithRelations = await db.invoice.findUnique({
+      const invoiceWithRelations = await prisma.invoice.findUnique({
         where: { id: invoice.id },
         include: {
           contract: {
@@ -264,11 +269,11 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
-      logger.error('Failed to create invoice', { error: error.message });
+      logger.error('Failed to create invoice', { error: errorMessage(error) });
       reply.code(400).send({
         statusCode: 400,
         error: 'Bad Request',
-        message: error.message,
+        message: errorMessage(error),
       });
     }
   });
@@ -331,7 +336,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       }
 
       const [invoices, total] = await Promise.all([
-        db.invoice.findMany({
+        prisma.invoice.findMany({
           where: filters,
           skip: (page - 1) * limit,
           take: limit,
@@ -345,7 +350,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
             },
           },
         }),
-        db.invoice.count({ where: filters }),
+        prisma.invoice.count({ where: filters }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
@@ -394,7 +399,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
-      logger.error('Failed to fetch invoices', { error: error.message });
+      logger.error('Failed to fetch invoices', { error: errorMessage(error) });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -428,7 +433,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
       logger.info('Fetching invoice', { invoiceId: id });
 
-      const invoice = await db.invoice.findUnique({
+      const invoice = await prisma.invoice.findUnique({
         where: { id },
         include: {
           contract: {
@@ -485,7 +490,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         },
       });
     } catch (error) {
-      logger.error('Failed to fetch invoice', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to fetch invoice', { error: errorMessage(error), invoiceId: request.params.id });
       reply.code(500).send({
         statusCode: 500,
         error: 'Internal Server Error',
@@ -525,7 +530,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
     try {
       const { id } = request.params;
 
-      logger.info('Submitting invoice for approval', { invoiceId: id, submittedBy: request.user.id });
+      logger.info('Submitting invoice for approval', { invoiceId: id, submittedBy: request.user!.address });
 
       await invoiceService.submitInvoice(id);
 
@@ -534,19 +539,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         status: 'SUBMITTED',
       });
     } catch (error) {
-      logger.error('Failed to submit invoice for approval', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to submit invoice for approval', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -581,13 +586,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
 
       reply.send(validation);
     } catch (error) {
-      logger.error('Failed to validate invoice', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to validate invoice', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -649,19 +654,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         message: 'Invoice coded to WBS successfully',
       });
     } catch (error) {
-      logger.error('Failed to code invoice to WBS', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to code invoice to WBS', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -704,13 +709,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         estimatedApprovalDate: routing.estimatedApprovalDate.toISOString(),
       });
     } catch (error) {
-      logger.error('Failed to get invoice approval routing', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to get invoice approval routing', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -743,6 +748,11 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
           error: Type.String(),
           message: Type.String(),
         }),
+        403: Type.Object({
+          statusCode: Type.Number(),
+          error: Type.String(),
+          message: Type.String(),
+        }),
         404: Type.Object({
           statusCode: Type.Number(),
           error: Type.String(),
@@ -758,7 +768,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const approval = {
         ...request.body,
-        approverAddress: request.user.id,
+        approverAddress: request.user!.address,
         approvalAmount: request.body.approvalAmount ? BigInt(request.body.approvalAmount) : undefined,
       };
 
@@ -776,19 +786,25 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         status: 'APPROVED',
       });
     } catch (error) {
-      logger.error('Failed to approve invoice', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to approve invoice', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
+        });
+      } else if (errorMessage(error).includes('authority to approve')) {
+        reply.code(403).send({
+          statusCode: 403,
+          error: 'Forbidden',
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -830,7 +846,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       const { id } = request.params;
       const rejection = {
         ...request.body,
-        rejectedBy: request.user.id,
+        rejectedBy: request.user!.address,
       };
 
       logger.info('Rejecting invoice', { 
@@ -846,19 +862,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         status: 'REJECTED',
       });
     } catch (error) {
-      logger.error('Failed to reject invoice', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to reject invoice', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -904,7 +920,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
       logger.info('Scheduling invoice for payment', { 
         invoiceId: id, 
         paymentDate: paymentDate.toISOString(),
-        scheduledBy: request.user.id,
+        scheduledBy: request.user!.address,
       });
 
       await invoiceService.scheduleForPayment(id, paymentDate);
@@ -915,19 +931,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         scheduledDate: paymentDate.toISOString(),
       });
     } catch (error) {
-      logger.error('Failed to schedule invoice for payment', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to schedule invoice for payment', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       }
     }
@@ -975,13 +991,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         })),
       });
     } catch (error) {
-      logger.error('Failed to check funds availability', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to check funds availability', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -1028,13 +1044,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         netPayableAmount: retention.netPayableAmount.toString(),
       });
     } catch (error) {
-      logger.error('Failed to calculate retention', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to calculate retention', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -1087,13 +1103,13 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         warnings: validation.warnings,
       });
     } catch (error) {
-      logger.error('Failed to validate invoice against contract', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to validate invoice against contract', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
@@ -1133,7 +1149,7 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
     try {
       const { id } = request.params;
 
-      logger.info('Generating payment authorization for invoice', { invoiceId: id, authorizedBy: request.user.id });
+      logger.info('Generating payment authorization for invoice', { invoiceId: id, authorizedBy: request.user!.address });
 
       const paymentAuth = await invoiceService.generatePaymentAuthorization(id);
 
@@ -1150,19 +1166,19 @@ export async function invoiceRoutes(fastify: FastifyInstance) {
         })),
       });
     } catch (error) {
-      logger.error('Failed to generate payment authorization', { error: error.message, invoiceId: request.params.id });
+      logger.error('Failed to generate payment authorization', { error: errorMessage(error), invoiceId: request.params.id });
       
-      if (error.message.includes('not found')) {
+      if (errorMessage(error).includes('not found')) {
         reply.code(404).send({
           statusCode: 404,
           error: 'Not Found',
-          message: error.message,
+          message: errorMessage(error),
         });
-      } else if (error.message.includes('not approved')) {
+      } else if (errorMessage(error).includes('not approved')) {
         reply.code(400).send({
           statusCode: 400,
           error: 'Bad Request',
-          message: error.message,
+          message: errorMessage(error),
         });
       } else {
         reply.code(500).send({
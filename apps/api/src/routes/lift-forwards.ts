@@ -0,0 +1,425 @@
+// apps/api/src/routes/lift-forwards.ts
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { Hash } from 'viem';
+import { LiftForwardService } from '../lib/lift-forwards.js';
+import { RBACService } from '../lib/rbac.js';
+
+// Validation schemas
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address');
+const units = z.string().regex(/^[1-9]\d*$/, 'Must be a positive integer string');
+const futureDate = z.string().datetime()
+  .transform(value => new Date(value))
+  .refine(date => date > new Date(), 'Date must be in the future');
+
+const CreateForwardSchema = z.object({
+  projectId: z.number().int().positive(),
+  liftTokenId: z.number().int().positive(),
+  paymentToken: address,
+  unitPrice: units,
+  challengeWindowDays: z.number().int().min(1).max(90).optional(),
+  saleEndsAt: futureDate.optional(),
+  projectNftId: z.number().int().nonnegative().optional(),
+  projectNftChainId: z.number().int().positive().optional(),
+  milestones: z.array(z.object({
+    name: z.string().min(1).max(200),
+    description: z.string().max(2000).optional(),
+    deliveryUnits: units,
+    deadline: futureDate,
+    evidenceTypes: z.array(z.string().min(1)).default([])
+  })).min(1).max(20)
+});
+
+const PurchaseSchema = z.object({
+  units
+});
+
+const ConfirmPurchaseSchema = z.object({
+  txHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid transaction hash')
+});
+
+const EvidenceSchema = z.object({
+  evidenceFiles: z.array(z.object({
+    type: z.string().min(1),
+    hash: z.string().min(1),
+    ipfsCid: z.string().min(1),
+    description: z.string().optional()
+  })).min(1),
+  mrvBundle: z.object({
+    hash: z.string().min(1),
+    ipfsCid: z.string().min(1),
+    methodology: z.string().min(1)
+  }).optional(),
+  notes: z.string().max(2000).optional()
+});
+
+const ChallengeSchema = z.object({
+  reason: z.string().min(1).max(2000),
+  evidenceHash: z.string().optional(),
+  evidenceIpfs: z.string().optional(),
+  bondAmount: units
+});
+
+const VerifierNotesSchema = z.object({
+  notes: z.string().max(2000).optional()
+});
+
+const FailMilestoneSchema = z.object({
+  reason: z.string().min(1).max(2000)
+});
+
+const ResolveChallengeSchema = z.object({
+  upheld: z.boolean(),
+  notes: z.string().max(2000).optional()
+});
+
+const ForwardQuerySchema = z.object({
+  projectId: z.coerce.number().int().positive().optional(),
+  status: z.enum(['DRAFT', 'OPEN', 'ACTIVE', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const PositionQuerySchema = z.object({
+  liftForwardId: z.coerce.number().int().positive().optional(),
+  buyer: address.optional(),
+  status: z.enum(['PENDING', 'ACTIVE', 'SETTLED', 'CANCELLED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Forward and milestone state errors the caller can resolve
+const CONFLICT_ERRORS = [
+  'has not been issued',
+  'not accepted by this project',
+  'not offered for sale',
+  'sale has ended',
+  'units remaining',
+  'no longer a draft',
+  'cannot be cancelled',
+  'status changed',
+  'already used for another payment',
+  'less than the payment amount',
+  'Transfer transaction failed',
+  'Missing required evidence',
+  'deadline has passed',
+  'Challenge window',
+  'cannot be accepted',
+  ' is '
+];
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export default async function liftForwardRoutes(app: FastifyInstance) {
+  const liftForwardService = new LiftForwardService(app);
+  const rbacService = new RBACService(app);
+
+  const canVerify = [(app as any).authenticate, rbacService.requirePermission('canVerifyForwardMilestones')];
+
+  app.addHook('onReady', async () => {
+    liftForwardService.startSettlementProcessing();
+  });
+
+  app.addHook('onClose', async () => {
+    liftForwardService.stopSettlementProcessing();
+  });
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.startsWith('Not authorized')) {
+      return reply.code(403).send({ error: message });
+    }
+    if (CONFLICT_ERRORS.some(fragment => message.includes(fragment))) {
+      return reply.code(409).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: fallback });
+  }
+
+  // Browse forwards (defaults to open and active offers)
+  app.get('/lift-forwards', async (request, reply) => {
+    const parsed = ForwardQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { limit, offset, ...filters } = parsed.data;
+      const { forwards, total } = await liftForwardService.listForwards({ ...filters, limit, offset });
+      return { forwards, total, limit, offset };
+    } catch (error) {
+      app.log.error({ error, query: parsed.data }, 'Failed to list lift forwards');
+      return reply.code(500).send({ error: 'Failed to list lift forwards' });
+    }
+  });
+
+  // Buyer positions and their settlements
+  app.get('/lift-forwards/positions', async (request, reply) => {
+    const parsed = PositionQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { buyer, limit, offset, ...filters } = parsed.data;
+      const { positions, total } = await liftForwardService.listPositions({ ...filters, buyerAddress: buyer, limit, offset });
+      return { positions, total, limit, offset };
+    } catch (error) {
+      app.log.error({ error, query: parsed.data }, 'Failed to list lift forward positions');
+      return reply.code(500).send({ error: 'Failed to list lift forward positions' });
+    }
+  });
+
+  app.get('/lift-forwards/positions/:positionId', async (request, reply) => {
+    const { positionId } = request.params as { positionId: string };
+
+    try {
+      const position = await liftForwardService.getPosition(positionId);
+      if (!position) {
+        return reply.code(404).send({ error: 'Position not found' });
+      }
+      return { position };
+    } catch (error) {
+      app.log.error({ error, positionId }, 'Failed to get lift forward position');
+      return reply.code(500).send({ error: 'Failed to get lift forward position' });
+    }
+  });
+
+  // Get a forward with its milestones, challenges and recent events
+  app.get('/lift-forwards/:liftForwardId', async (request, reply) => {
+    const liftForwardId = parseId((request.params as { liftForwardId: string }).liftForwardId);
+    if (!liftForwardId) {
+      return reply.code(400).send({ error: 'Invalid forward id' });
+    }
+
+    try {
+      const forward = await liftForwardService.getForward(liftForwardId);
+      if (!forward) {
+        return reply.code(404).send({ error: 'Forward not found' });
+      }
+      return { forward };
+    } catch (error) {
+      app.log.error({ error, liftForwardId }, 'Failed to get lift forward');
+      return reply.code(500).send({ error: 'Failed to get lift forward' });
+    }
+  });
+
+  // Create a draft forward offer for a project's lift token
+  app.post('/lift-forwards', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const parsed = CreateForwardSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid forward', details: parsed.error.flatten() });
+    }
+
+    try {
+      const forward = await liftForwardService.createForward(parsed.data, request.user!.address);
+      return reply.code(201).send({ forward });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create lift forward', { body: parsed.data });
+    }
+  });
+
+  // Open a draft forward to buyers
+  app.post('/lift-forwards/:liftForwardId/publish', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const liftForwardId = parseId((request.params as { liftForwardId: string }).liftForwardId);
+    if (!liftForwardId) {
+      return reply.code(400).send({ error: 'Invalid forward id' });
+    }
+
+    try {
+      const forward = await liftForwardService.publishForward(liftForwardId, request.user!.address);
+      return { forward };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to publish lift forward', { liftForwardId });
+    }
+  });
+
+  // Cancel a forward no buyer has funded
+  app.delete('/lift-forwards/:liftForwardId', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const liftForwardId = parseId((request.params as { liftForwardId: string }).liftForwardId);
+    if (!liftForwardId) {
+      return reply.code(400).send({ error: 'Invalid forward id' });
+    }
+
+    try {
+      const forward = await liftForwardService.cancelForward(liftForwardId, request.user!.address);
+      return { forward };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to cancel lift forward', { liftForwardId });
+    }
+  });
+
+  // Reserve units; the buyer then pays the returned payment and confirms it
+  app.post('/lift-forwards/:liftForwardId/purchases', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const liftForwardId = parseId((request.params as { liftForwardId: string }).liftForwardId);
+    if (!liftForwardId) {
+      return reply.code(400).send({ error: 'Invalid forward id' });
+    }
+    const parsed = PurchaseSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid purchase', details: parsed.error.flatten() });
+    }
+
+    try {
+      const position = await liftForwardService.purchase(liftForwardId, parsed.data.units, request.user!.address);
+      return reply.code(201).send({ position });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to purchase lift forward', { liftForwardId });
+    }
+  });
+
+  // Confirm the buyer's payment token transfer and activate the position
+  app.post('/lift-forwards/positions/:positionId/confirm', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { positionId } = request.params as { positionId: string };
+    const parsed = ConfirmPurchaseSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid confirmation', details: parsed.error.flatten() });
+    }
+
+    try {
+      const position = await liftForwardService.confirmPurchase(positionId, parsed.data.txHash as Hash, request.user!.address);
+      return { position };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to confirm lift forward purchase', { positionId });
+    }
+  });
+
+  // Cancel an unfunded position
+  app.delete('/lift-forwards/positions/:positionId', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { positionId } = request.params as { positionId: string };
+
+    try {
+      const position = await liftForwardService.cancelPurchase(positionId, request.user!.address);
+      return { position };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to cancel lift forward purchase', { positionId });
+    }
+  });
+
+  // Project owner submits milestone evidence, opening the challenge window
+  app.post('/lift-forwards/milestones/:milestoneId/evidence', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const milestoneId = parseId((request.params as { milestoneId: string }).milestoneId);
+    if (!milestoneId) {
+      return reply.code(400).send({ error: 'Invalid milestone id' });
+    }
+    const parsed = EvidenceSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid evidence', details: parsed.error.flatten() });
+    }
+
+    try {
+      const result = await liftForwardService.submitMilestoneEvidence(milestoneId, request.user!.address, parsed.data);
+      return reply.code(201).send(result);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to submit milestone evidence', { milestoneId });
+    }
+  });
+
+  // Challenge submitted evidence during the challenge window
+  app.post('/lift-forwards/milestones/:milestoneId/challenges', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const milestoneId = parseId((request.params as { milestoneId: string }).milestoneId);
+    if (!milestoneId) {
+      return reply.code(400).send({ error: 'Invalid milestone id' });
+    }
+    const parsed = ChallengeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid challenge', details: parsed.error.flatten() });
+    }
+
+    try {
+      const result = await liftForwardService.challengeMilestone(milestoneId, request.user!.address, parsed.data);
+      return reply.code(201).send(result);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to challenge milestone', { milestoneId });
+    }
+  });
+
+  // Accept a milestone and deliver newly minted units to funded positions
+  app.post('/lift-forwards/milestones/:milestoneId/accept', {
+    preHandler: canVerify
+  }, async (request, reply) => {
+    const milestoneId = parseId((request.params as { milestoneId: string }).milestoneId);
+    if (!milestoneId) {
+      return reply.code(400).send({ error: 'Invalid milestone id' });
+    }
+    const parsed = VerifierNotesSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: parsed.error.flatten() });
+    }
+
+    try {
+      return await liftForwardService.acceptMilestone(milestoneId, request.user!.address, parsed.data.notes);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to accept milestone', { milestoneId });
+    }
+  });
+
+  // Fail a milestone and refund its share to funded positions
+  app.post('/lift-forwards/milestones/:milestoneId/fail', {
+    preHandler: canVerify
+  }, async (request, reply) => {
+    const milestoneId = parseId((request.params as { milestoneId: string }).milestoneId);
+    if (!milestoneId) {
+      return reply.code(400).send({ error: 'Invalid milestone id' });
+    }
+    const parsed = FailMilestoneSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid request', details: parsed.error.flatten() });
+    }
+
+    try {
+      const settlements = await liftForwardService.failMilestone(milestoneId, parsed.data.reason, request.user!.address);
+      return { milestoneId, status: 'FAILED', settlements };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to fail milestone', { milestoneId });
+    }
+  });
+
+  // Resolve a challenge; an upheld challenge fails the milestone
+  app.post('/lift-forwards/challenges/:challengeId/resolve', {
+    preHandler: canVerify
+  }, async (request, reply) => {
+    const challengeId = parseId((request.params as { challengeId: string }).challengeId);
+    if (!challengeId) {
+      return reply.code(400).send({ error: 'Invalid challenge id' });
+    }
+    const parsed = ResolveChallengeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid resolution', details: parsed.error.flatten() });
+    }
+
+    try {
+      return await liftForwardService.resolveChallenge(
+        challengeId,
+        request.user!.address,
+        parsed.data.upheld,
+        parsed.data.notes
+      );
+    } catch (error) {
+      return sendError(reply, error, 'Failed to resolve challenge', { challengeId });
+    }
+  });
+}
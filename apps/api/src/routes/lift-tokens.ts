@@ -1,9 +1,10 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import { blockchainService } from '../lib/blockchain.js';
 import { getEnv } from '../types/env.js';
 import { VerificationService } from '../lib/verification.js';
 import { VWBAMethodologyHandler } from '../lib/verification/vwba.js';
+import { CarbonSequestrationMethodologyHandler } from '../lib/verification/carbon.js';
 import { EvidenceValidationPipeline } from '../lib/verification/evidence-pipeline.js';
 import { MRVProtocolManager } from '../lib/verification/mrv.js';
 import { createIPFSClient } from '../lib/ipfs-client.js';
@@ -115,7 +116,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
   );
 
   const evidencePipeline = new EvidenceValidationPipeline(app.prisma, app.log, ipfsClient);
-  const mrvManager = new MRVProtocolManager(app.log);
+  const mrvManager = new MRVProtocolManager(app.log, { prisma: app.prisma });
 
   // Initialize queue processors for background tasks
   const queueProcessors = createQueueProcessors({
@@ -127,6 +128,34 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Register methodology handlers
   verificationService.registerMethodology(new VWBAMethodologyHandler());
+  verificationService.registerMethodology(new CarbonSequestrationMethodologyHandler());
+
+  // Project each route acts on, for API tokens restricted to projects
+  const liftTokenProject = async (request: FastifyRequest) => {
+    const id = Number((request.params as { id: string }).id);
+    if (!Number.isInteger(id)) return undefined;
+    const liftToken = await app.prisma.liftToken.findUnique({ where: { id }, select: { projectId: true } });
+    return liftToken?.projectId ?? undefined;
+  };
+
+  const verificationResultProject = async (request: FastifyRequest) => {
+    const id = Number((request.params as { id: string }).id);
+    if (!Number.isInteger(id)) return undefined;
+    const result = await app.prisma.verificationResult.findUnique({
+      where: { id },
+      select: { liftToken: { select: { projectId: true } } }
+    });
+    return result?.liftToken.projectId ?? undefined;
+  };
+
+  // A batch only resolves to a project when every lift token belongs to it
+  const batchProject = async (request: FastifyRequest) => {
+    const ids = ((request.body as { liftTokenIds?: string[] })?.liftTokenIds ?? []).map(Number);
+    if (ids.length === 0 || ids.some(id => !Number.isInteger(id))) return undefined;
+    const liftTokens = await app.prisma.liftToken.findMany({ where: { id: { in: ids } }, select: { projectId: true } });
+    const projectIds = new Set(liftTokens.map(liftToken => liftToken.projectId));
+    return liftTokens.length === new Set(ids).size && projectIds.size === 1 ? [...projectIds][0] ?? undefined : undefined;
+  };
 
   // Cleanup handler for graceful shutdown
   app.addHook('onClose', async () => {
@@ -348,7 +377,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Create new lift token (requires authentication)
   app.post('/lift-tokens', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['write'], { projectId: (request) => (request.body as { projectId?: number })?.projectId }),
     schema: {
       description: 'Create new lift token',
       tags: ['Lift Tokens'],
@@ -478,7 +507,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Issue lift tokens (mint tokens)
   app.post('/lift-tokens/:id/issue', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['mint:approve'], { projectId: liftTokenProject }),
     schema: {
       description: 'Issue (mint) lift tokens to an address',
       tags: ['Lift Tokens'],
@@ -510,6 +539,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
             status: { type: 'string' },
             eventId: { type: 'number' },
             txHash: { type: 'string', nullable: true },
+            pending: { type: 'boolean', default: false },
             idempotent: { type: 'boolean', default: false }
           }
         }
@@ -572,6 +602,33 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
         }
       }
 
+      // On-chain mints are confirmed by the LiftTokens indexer, which moves the
+      // token to ISSUED once the transfer is seen in a confirmed block
+      if (txHash) {
+        const event = await app.prisma.liftTokenEvent.create({
+          data: {
+            liftTokenId,
+            type: 'ISSUE_SUBMITTED',
+            txHash,
+            payload: {
+              ...body,
+              issuedBy: user.address
+            },
+            meta: body.meta || {},
+            eventAt
+          }
+        });
+
+        return {
+          ok: true,
+          id: liftToken.id,
+          status: liftToken.status,
+          eventId: event.id,
+          txHash,
+          pending: true
+        };
+      }
+
       // Create event record (idempotent via unique constraint)
       const event = await app.prisma.liftTokenEvent.create({
         data: {
@@ -639,7 +696,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Retire lift tokens
   app.post('/lift-tokens/:id/retire', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['write'], { projectId: liftTokenProject }),
     schema: {
       description: 'Retire lift tokens',
       tags: ['Lift Tokens'],
@@ -693,6 +750,16 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
         return reply.code(404).send({ error: 'Lift unit not found' });
       }
 
+      // Retirement burns the holder's tokens, so on-chain tokens can only be
+      // retired through the contract; the indexer records the Retired event
+      if (liftToken.tokenId && liftToken.chainId && env.LIFT_TOKENS_ADDRESS) {
+        return reply.code(409).send({
+          error: 'On-chain lift tokens must be retired through the LiftTokens contract',
+          tokenId: liftToken.tokenId,
+          contractAddress: env.LIFT_TOKENS_ADDRESS
+        });
+      }
+
       if (liftToken.status !== 'ISSUED') {
         return reply.code(409).send({ 
           error: 'Invalid state transition',
@@ -862,7 +929,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Submit verification request
   app.post('/lift-tokens/:id/verify', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify'], { projectId: liftTokenProject }),
     schema: {
       description: 'Submit verification request for lift token',
       tags: ['Verification'],
@@ -1038,7 +1105,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Perform verification calculation
   app.post('/verification-results/:id/calculate', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify'], { projectId: verificationResultProject }),
     schema: {
       description: 'Perform verification calculation',
       tags: ['Verification'],
@@ -1085,7 +1152,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Process evidence for verification
   app.post('/verification-results/:id/process-evidence', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify'], { projectId: verificationResultProject }),
     schema: {
       description: 'Process evidence files for verification',
       tags: ['Verification'],
@@ -1145,13 +1212,24 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
       querystring: {
         type: 'object',
         properties: {
-          protocolName: { type: 'string', default: 'Water Conservation MRV' }
+          protocolName: { type: 'string' },
+          version: { type: 'string' }
         }
       },
       response: {
         200: {
           type: 'object',
           properties: {
+            protocol: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                version: { type: 'string' },
+                contentHash: { type: 'string' }
+              }
+            },
+            assessedAt: { type: 'string' },
             overallScore: { type: 'number' },
             measurementCompliance: { type: 'object' },
             reportingCompliance: { type: 'object' },
@@ -1166,28 +1244,42 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
     }
   }, async (request, reply) => {
     const { id } = request.params as { id: string };
-    const { protocolName = 'Water Conservation MRV' } = request.query as { protocolName?: string };
+    const { protocolName, version } = request.query as { protocolName?: string; version?: string };
 
     try {
-      // Get verification result with evidence
       const verificationResult = await app.prisma.verificationResult.findUnique({
         where: { id: Number(id) },
-        include: { evidenceFiles: true }
+        select: { mrvProtocolVersionId: true }
       });
 
       if (!verificationResult) {
         return reply.code(404).send({ error: 'Verification result not found' });
       }
 
-      const assessment = await mrvManager.assessMRVCompliance(
-        protocolName,
-        verificationResult.evidenceFiles,
-        verificationResult
-      );
+      // Results already assessed stay on their pinned protocol version
+      const protocolRef = protocolName || version
+        ? { idOrName: protocolName ?? 'Water Conservation MRV', version }
+        : verificationResult.mrvProtocolVersionId ? undefined : { idOrName: 'Water Conservation MRV' };
 
-      return assessment;
+      const result = await mrvManager.assessVerificationResult(Number(id), protocolRef);
+      if (!result) {
+        return reply.code(404).send({ error: 'Verification result not found' });
+      }
+
+      return {
+        protocol: result.protocol,
+        assessedAt: result.assessedAt.toISOString(),
+        ...result.assessment
+      };
+
+    } catch (error: any) {
+      if (error?.message?.includes('already pinned')) {
+        return reply.code(409).send({ error: error.message });
+      }
+      if (error?.message?.includes('not found')) {
+        return reply.code(404).send({ error: error.message });
+      }
 
-    } catch (error) {
       app.log.error({ error, verificationResultId: id }, 'Failed to assess MRV compliance');
       return reply.code(500).send({ error: 'Failed to assess MRV compliance' });
     }
@@ -1263,7 +1355,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Register new verification method
   app.post('/verification-methods', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify']),
     schema: {
       description: 'Register new verification method',
       tags: ['Verification'],
@@ -1340,8 +1432,11 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
               items: {
                 type: 'object',
                 properties: {
+                  id: { type: 'string' },
                   name: { type: 'string' },
                   version: { type: 'string' },
+                  status: { type: 'string' },
+                  effectiveFrom: { type: 'string' },
                   measurementRequirements: { type: 'array' },
                   reportingRequirements: { type: 'array' },
                   verificationRequirements: { type: 'array' }
@@ -1362,13 +1457,94 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
     }
   });
 
+  // Get MRV protocol version history
+  app.get('/mrv-protocols/:protocolId/versions', {
+    schema: {
+      description: 'Get version history for an MRV protocol',
+      tags: ['Verification'],
+      params: {
+        type: 'object',
+        required: ['protocolId'],
+        properties: {
+          protocolId: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            versions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  version: { type: 'string' },
+                  status: { type: 'string' },
+                  effectiveFrom: { type: 'string' },
+                  changelog: { type: 'string' },
+                  contentHash: { type: 'string' }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { protocolId } = request.params as { protocolId: string };
+
+    try {
+      const versions = mrvManager.getProtocolVersions(protocolId);
+      if (versions.length === 0) {
+        return reply.code(404).send({ error: 'MRV protocol not found' });
+      }
+
+      return { versions };
+    } catch (error) {
+      app.log.error({ error, protocolId }, 'Failed to get MRV protocol versions');
+      return reply.code(500).send({ error: 'Failed to get MRV protocol versions' });
+    }
+  });
+
+  // Get a specific MRV protocol version
+  app.get('/mrv-protocols/:protocolId/versions/:version', {
+    schema: {
+      description: 'Get a specific version of an MRV protocol',
+      tags: ['Verification'],
+      params: {
+        type: 'object',
+        required: ['protocolId', 'version'],
+        properties: {
+          protocolId: { type: 'string' },
+          version: { type: 'string' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const { protocolId, version } = request.params as { protocolId: string; version: string };
+
+    try {
+      const protocol = mrvManager.getProtocol(protocolId, version);
+      if (!protocol) {
+        return reply.code(404).send({ error: 'MRV protocol version not found' });
+      }
+
+      return { protocol };
+    } catch (error) {
+      app.log.error({ error, protocolId, version }, 'Failed to get MRV protocol version');
+      return reply.code(500).send({ error: 'Failed to get MRV protocol version' });
+    }
+  });
+
   // ================================
   // BATCH VERIFICATION ENDPOINTS
   // ================================
 
   // Submit batch verification request
   app.post('/lift-tokens/batch/verify', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify'], { projectId: batchProject }),
     schema: {
       description: 'Submit batch verification request for multiple lift tokens',
       tags: ['Verification', 'Batch'],
@@ -1527,7 +1703,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Cancel batch verification
   app.delete('/lift-tokens/batch/:batchId', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify']),
     schema: {
       description: 'Cancel ongoing batch verification operation',
       tags: ['Verification', 'Batch'],
@@ -1638,7 +1814,7 @@ export default async function liftTokenRoutes(app: FastifyInstance) {
 
   // Batch re-verification endpoint
   app.post('/lift-tokens/batch/re-verify', {
-    preHandler: (app as any).authenticate,
+    preHandler: app.requireScopes(['verify'], { projectId: (request) => (request.body as { criteria?: { projectId?: number } })?.criteria?.projectId }),
     schema: {
       description: 'Re-verify failed or expired verifications in batch',
       tags: ['Verification', 'Batch'],
@@ -0,0 +1,263 @@
+// apps/api/src/routes/marketplace.ts
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { MarketplaceService } from '../lib/marketplace.js';
+import { SanctionsScreeningError } from '../lib/sanctions/index.js';
+
+// Validation schemas
+const address = z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid address');
+const units = z.string().regex(/^[1-9]\d*$/, 'Must be a positive integer string');
+const futureDate = z.string().datetime()
+  .transform(value => new Date(value))
+  .refine(date => date > new Date(), 'Expiry must be in the future');
+
+const CreateListingSchema = z.object({
+  liftTokenId: z.number().int().positive(),
+  quantity: units,
+  unitPrice: units,
+  paymentToken: address,
+  expiresAt: futureDate.optional()
+});
+
+const PlaceBidSchema = CreateListingSchema;
+
+const BuyListingSchema = z.object({
+  quantity: units
+});
+
+const AcceptBidSchema = z.object({
+  listingId: z.string().min(1),
+  quantity: units.optional()
+});
+
+const ListingQuerySchema = z.object({
+  liftTokenId: z.coerce.number().int().positive().optional(),
+  projectId: z.coerce.number().int().positive().optional(),
+  seller: address.optional(),
+  status: z.enum(['OPEN', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const FillQuerySchema = z.object({
+  listingId: z.string().optional(),
+  bidId: z.string().optional(),
+  buyer: address.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// Order-state errors raised by MarketplaceService that the caller can resolve
+const CONFLICT_ERRORS = [
+  'has not been issued',
+  'No allocation escrow',
+  'not accepted by this project',
+  'Insufficient on-chain balance',
+  'different lift token',
+  'does not match the listing',
+  'units remaining',
+  ' is '
+];
+
+export default async function marketplaceRoutes(app: FastifyInstance) {
+  const marketplaceService = new MarketplaceService(app);
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.startsWith('Not authorized')) {
+      return reply.code(403).send({ error: message });
+    }
+    if (error instanceof SanctionsScreeningError) {
+      return reply.code(403).send({ error: message, hitIds: error.hitIds });
+    }
+    if (message.startsWith('Sanctions screening unavailable')) {
+      return reply.code(503).send({ error: message });
+    }
+    if (CONFLICT_ERRORS.some(fragment => message.includes(fragment))) {
+      return reply.code(409).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: fallback });
+  }
+
+  // Browse listings (defaults to open, unexpired asks)
+  app.get('/marketplace/listings', async (request, reply) => {
+    const parsed = ListingQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { seller, limit, offset, ...filters } = parsed.data;
+      const { listings, total } = await marketplaceService.listListings({ ...filters, sellerAddress: seller, limit, offset });
+      return { listings, total, limit, offset };
+    } catch (error) {
+      app.log.error({ error, query: parsed.data }, 'Failed to list marketplace listings');
+      return reply.code(500).send({ error: 'Failed to list marketplace listings' });
+    }
+  });
+
+  // Get a listing with its fills
+  app.get('/marketplace/listings/:listingId', async (request, reply) => {
+    const { listingId } = request.params as { listingId: string };
+
+    try {
+      const listing = await marketplaceService.getListing(listingId);
+      if (!listing) {
+        return reply.code(404).send({ error: 'Listing not found' });
+      }
+
+      const { fills } = await marketplaceService.listFills({ listingId });
+      return { listing, fills };
+    } catch (error) {
+      app.log.error({ error, listingId }, 'Failed to get marketplace listing');
+      return reply.code(500).send({ error: 'Failed to get marketplace listing' });
+    }
+  });
+
+  // Create a listing for escrow-held units of a lift token
+  app.post('/marketplace/listings', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const parsed = CreateListingSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid listing', details: parsed.error.flatten() });
+    }
+
+    try {
+      const listing = await marketplaceService.createListing(parsed.data, request.user!.address);
+      return reply.code(201).send({ listing });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create marketplace listing', { body: parsed.data });
+    }
+  });
+
+  // Cancel a listing
+  app.delete('/marketplace/listings/:listingId', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { listingId } = request.params as { listingId: string };
+
+    try {
+      const listing = await marketplaceService.cancelListing(listingId, request.user!.address);
+      return { listing };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to cancel marketplace listing', { listingId });
+    }
+  });
+
+  // Buy units at the listing price; settles through the project's AllocationEscrow
+  app.post('/marketplace/listings/:listingId/buy', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { listingId } = request.params as { listingId: string };
+    const parsed = BuyListingSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid purchase', details: parsed.error.flatten() });
+    }
+
+    try {
+      const fill = await marketplaceService.buyListing(listingId, parsed.data.quantity, request.user!.address);
+      if (fill.status === 'FAILED') {
+        return reply.code(400).send({ error: fill.error, fill });
+      }
+      return reply.code(201).send({ fill });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to buy from marketplace listing', { listingId });
+    }
+  });
+
+  // Order book for a lift token
+  app.get('/marketplace/lift-tokens/:liftTokenId/order-book', async (request, reply) => {
+    const liftTokenId = Number((request.params as { liftTokenId: string }).liftTokenId);
+    if (!Number.isInteger(liftTokenId) || liftTokenId <= 0) {
+      return reply.code(400).send({ error: 'Invalid lift token id' });
+    }
+
+    try {
+      const orderBook = await marketplaceService.getOrderBook(liftTokenId);
+      return { liftTokenId, ...orderBook };
+    } catch (error) {
+      app.log.error({ error, liftTokenId }, 'Failed to get order book');
+      return reply.code(500).send({ error: 'Failed to get order book' });
+    }
+  });
+
+  // Place a bid
+  app.post('/marketplace/bids', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const parsed = PlaceBidSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid bid', details: parsed.error.flatten() });
+    }
+
+    try {
+      const bid = await marketplaceService.placeBid(parsed.data, request.user!.address);
+      return reply.code(201).send({ bid });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to place marketplace bid', { body: parsed.data });
+    }
+  });
+
+  // Cancel a bid
+  app.delete('/marketplace/bids/:bidId', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { bidId } = request.params as { bidId: string };
+
+    try {
+      const bid = await marketplaceService.cancelBid(bidId, request.user!.address);
+      return { bid };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to cancel marketplace bid', { bidId });
+    }
+  });
+
+  // Seller accepts a bid against one of their listings
+  app.post('/marketplace/bids/:bidId/accept', {
+    preHandler: (app as any).authenticate
+  }, async (request, reply) => {
+    const { bidId } = request.params as { bidId: string };
+    const parsed = AcceptBidSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid bid acceptance', details: parsed.error.flatten() });
+    }
+
+    try {
+      const fill = await marketplaceService.acceptBid(
+        bidId,
+        parsed.data.listingId,
+        request.user!.address,
+        parsed.data.quantity
+      );
+      if (fill.status === 'FAILED') {
+        return reply.code(400).send({ error: fill.error, fill });
+      }
+      return reply.code(201).send({ fill });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to accept marketplace bid', { bidId });
+    }
+  });
+
+  // Fill history
+  app.get('/marketplace/fills', async (request, reply) => {
+    const parsed = FillQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { buyer, limit, offset, ...filters } = parsed.data;
+      const { fills, total } = await marketplaceService.listFills({ ...filters, buyerAddress: buyer, limit, offset });
+      return { fills, total, limit, offset };
+    } catch (error) {
+      app.log.error({ error, query: parsed.data }, 'Failed to list marketplace fills');
+      return reply.code(500).send({ error: 'Failed to list marketplace fills' });
+    }
+  });
+}
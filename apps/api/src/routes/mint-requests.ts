@@ -1,7 +1,10 @@
 // apps/api/src/routes/mint-requests.ts
-import { FastifyInstance, FastifyRequest } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FinanceRole } from '@prisma/client';
 import { MintAuthorizationService } from '../lib/authorization.js';
 import { MintingExecutionService } from '../lib/minting.js';
+import { MintApprovalService, MintActor } from '../lib/mint-approvals.js';
+import { RBACService } from '../lib/rbac.js';
 import { z } from 'zod';
 
 // Validation schemas
@@ -16,15 +19,68 @@ const SubmitMintRequestSchema = z.object({
   verificationHash: z.string().optional(),
 });
 
-const UpdateMintRequestSchema = z.object({
-  status: z.enum(['APPROVED', 'REJECTED']),
-  approvalNotes: z.string().max(1000).optional(),
+const ApproveMintRequestSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+const RejectMintRequestSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+const CancelMintRequestSchema = z.object({
+  reason: z.string().max(1000).optional(),
+});
+
+const MintApprovalPolicySchema = z.object({
+  requiredApprovals: z.number().int().min(1),
+  approverRoles: z.array(z.nativeEnum(FinanceRole)).default([]),
+  approverAddresses: z.array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid Ethereum address')).default([]),
+  thresholds: z.array(z.object({
+    minAmount: z.string().regex(/^\d+$/, 'Amount must be numeric string'),
+    requiredApprovals: z.number().int().min(1),
+  })).default([]),
 });
 
 export default async function mintRequestRoutes(app: FastifyInstance) {
   // Create services inside the function where app is available
   const authService = new MintAuthorizationService(app);
   const mintingService = new MintingExecutionService(app);
+  const rbacService = new RBACService(app);
+  const approvalService = new MintApprovalService(app, { rbac: rbacService });
+
+  const mintRequestProject = async (request: FastifyRequest) => {
+    const { id } = request.params as { id: string };
+    const mintRequest = await app.prisma.mintRequest.findUnique({ where: { id }, select: { projectId: true } });
+    return mintRequest?.projectId ?? undefined;
+  };
+
+  const actor = (request: FastifyRequest): MintActor => ({
+    userId: request.user!.userId,
+    address: request.user!.address,
+  });
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    if (error instanceof z.ZodError) {
+      return reply.code(400).send({ error: 'Validation error', details: error.errors });
+    }
+
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.startsWith('Requesters cannot') || message.includes('is not an approver') || message.startsWith('Only the requester')) {
+      return reply.code(403).send({ error: message });
+    }
+    if (message.includes('already approved') || message.includes('is not pending') || message.includes('no longer pending') || message.includes('cannot be cancelled')) {
+      return reply.code(409).send({ error: message });
+    }
+    if (message.startsWith('Policy') || message.startsWith('Approval counts') || message.startsWith('Threshold')) {
+      return reply.code(400).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: fallback });
+  }
 
   // Test endpoint for authorization
   app.get('/mint-requests/auth-test/:address/:projectId', async (request: FastifyRequest, reply) => {
@@ -122,72 +178,6 @@ export default async function mintRequestRoutes(app: FastifyInstance) {
     }
   });
 
-  // Test endpoint to create a mint request without auth (for testing)
-  app.post('/mint-requests/create-test-request', async (request, reply) => {
-    try {
-      // Get the test project we created earlier
-      const project = await app.prisma.project.findFirst({
-        where: { name: 'Test Regenerative Project' }
-      });
-
-      if (!project) {
-        return reply.code(404).send({ 
-          error: 'Test project not found. Run create-test-project first.' 
-        });
-      }
-
-      const mintRequest = await app.prisma.mintRequest.create({
-        data: {
-          projectId: project.id,
-          tokenId: '1001', // Test token ID
-          amount: '100', // 100 lift units
-          recipient: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', // Vitalik's address
-          title: 'Forest Carbon Sequestration Verification',
-          description: 'Verified carbon sequestration from 50 hectares of reforested land. Measurements show 2.5 tons CO2/hectare sequestered over 6 months.',
-          requestedBy: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
-          verificationData: {
-            carbonSequestered: '125 tons CO2',
-            areaSize: '50 hectares',
-            measurementPeriod: '6 months',
-            verificationMethod: 'Soil sampling + satellite imagery',
-            biodiversityIndex: 'Increased by 15%',
-            waterQuality: 'Improved - pH 7.2, turbidity reduced 30%'
-          },
-          verificationHash: 'QmX4B9K2nE8F7H3L5M9N0P2Q6R8S1T4U7V0W3X6Y9Z2A5B8C1',
-          status: 'PENDING'
-        }
-      });
-
-      // Create submission event
-      await app.prisma.mintRequestEvent.create({
-        data: {
-          mintRequestId: mintRequest.id,
-          type: 'SUBMITTED',
-          performedBy: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
-          notes: 'Test mint request for forest carbon sequestration',
-          metadata: {
-            testRequest: true,
-            authorizationReason: 'Project owner'
-          }
-        }
-      });
-
-      return {
-        message: 'Test mint request created',
-        mintRequest: {
-          id: mintRequest.id,
-          status: mintRequest.status,
-          title: mintRequest.title,
-          tokenId: mintRequest.tokenId,
-          amount: mintRequest.amount
-        }
-      };
-    } catch (error) {
-      app.log.error({ error }, 'Failed to create test mint request');
-      return reply.code(500).send({ error: 'Failed to create test mint request' });
-    }
-  });
-
   // Get mint requests (with filtering)
   app.get('/mint-requests', {
     schema: {
@@ -307,73 +297,242 @@ export default async function mintRequestRoutes(app: FastifyInstance) {
     }
   });
 
-  // Test approval endpoint (bypasses auth for testing)
-  app.put('/mint-requests/:id/approve-test', async (request: FastifyRequest, reply) => {
+  // Submit a mint request
+  app.post('/mint-requests', {
+    schema: {
+      description: 'Submit a mint request for approval',
+      tags: ['Mint Requests'],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['projectId', 'tokenId', 'amount', 'recipient', 'title'],
+        properties: {
+          projectId: { type: 'number' },
+          tokenId: { type: 'string' },
+          amount: { type: 'string' },
+          recipient: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          verificationData: { type: 'object' },
+          verificationHash: { type: 'string' }
+        }
+      }
+    },
+    preHandler: [
+      app.requireScopes(['mint:request'], { projectId: (request) => (request.body as { projectId?: number })?.projectId }),
+      authService.requireMintAuthorization()
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    try {
+      const body = SubmitMintRequestSchema.parse(request.body);
+      const mintRequest = await approvalService.submit(body, actor(request));
+
+      return reply.code(201).send(mintRequest);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to submit mint request', { body: request.body });
+    }
+  });
+
+  // Record an approval; the request is APPROVED once the policy's count is reached
+  app.post('/mint-requests/:id/approve', {
+    schema: {
+      description: 'Approve a pending mint request',
+      tags: ['Mint Requests'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          notes: { type: 'string' }
+        }
+      }
+    },
+    preHandler: app.requireScopes(['mint:approve'], { projectId: mintRequestProject })
+  }, async (request: FastifyRequest, reply) => {
     const { id } = request.params as { id: string };
-    const { status, approvalNotes } = request.body as { status: 'APPROVED' | 'REJECTED'; approvalNotes?: string };
 
     try {
-      // Get current mint request
-      const currentRequest = await app.prisma.mintRequest.findUnique({
-        where: { id }
-      });
+      const { notes } = ApproveMintRequestSchema.parse(request.body ?? {});
+      const result = await approvalService.approve(id, actor(request), notes);
 
-      if (!currentRequest) {
-        return reply.code(404).send({ error: 'Mint request not found' });
+      return {
+        id,
+        status: result.mintRequest.status,
+        approvals: result.approvals,
+        requiredApprovals: result.requiredApprovals
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to approve mint request', { mintRequestId: id });
+    }
+  });
+
+  app.post('/mint-requests/:id/reject', {
+    schema: {
+      description: 'Reject a pending mint request',
+      tags: ['Mint Requests'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+          reason: { type: 'string' }
+        }
       }
+    },
+    preHandler: app.requireScopes(['mint:approve'], { projectId: mintRequestProject })
+  }, async (request: FastifyRequest, reply) => {
+    const { id } = request.params as { id: string };
 
-      if (currentRequest.status !== 'PENDING') {
-        return reply.code(400).send({
-          error: 'Can only approve/reject pending requests',
-          currentStatus: currentRequest.status
-        });
+    try {
+      const { reason } = RejectMintRequestSchema.parse(request.body);
+      const mintRequest = await approvalService.reject(id, actor(request), reason);
+
+      return { id, status: mintRequest.status };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to reject mint request', { mintRequestId: id });
+    }
+  });
+
+  app.post('/mint-requests/:id/cancel', {
+    schema: {
+      description: 'Cancel a mint request while it is still pending approval',
+      tags: ['Mint Requests'],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string' }
+        }
       }
+    },
+    preHandler: app.requireScopes(['mint:request'], { projectId: mintRequestProject })
+  }, async (request: FastifyRequest, reply) => {
+    const { id } = request.params as { id: string };
 
-      // Update the mint request
-      const updatedRequest = await app.prisma.mintRequest.update({
-        where: { id },
-        data: {
-          status: status || 'APPROVED',
-          reviewedBy: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045', // Test admin
-          reviewedAt: new Date(),
-          approvalNotes: approvalNotes || 'Test approval - verification data looks good'
+    try {
+      const { reason } = CancelMintRequestSchema.parse(request.body ?? {});
+      const mintRequest = await approvalService.cancel(id, actor(request), reason);
+
+      return { id, status: mintRequest.status };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to cancel mint request', { mintRequestId: id });
+    }
+  });
+
+  // Approval policy for a project's mint requests
+  app.get('/projects/:projectId/mint-approval-policy', {
+    schema: {
+      description: 'Get the mint request approval policy for a project',
+      tags: ['Mint Requests'],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'number' }
         }
-      });
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canViewProjectFinance', { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId } = request.params as { projectId: number };
 
-      // Create approval event
-      await app.prisma.mintRequestEvent.create({
-        data: {
-          mintRequestId: id,
-          type: status || 'APPROVED',
-          performedBy: '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045',
-          notes: approvalNotes || 'Test approval - verification data looks good',
-          metadata: {
-            testApproval: true,
-            previousStatus: currentRequest.status
+    try {
+      return {
+        projectId: Number(projectId),
+        ...(await approvalService.getPolicy(Number(projectId)))
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to get mint approval policy', { projectId });
+    }
+  });
+
+  app.put('/projects/:projectId/mint-approval-policy', {
+    schema: {
+      description: 'Configure N-of-M approvers and amount thresholds for mint requests',
+      tags: ['Mint Requests'],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'number' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['requiredApprovals'],
+        properties: {
+          requiredApprovals: { type: 'number' },
+          approverRoles: { type: 'array', items: { type: 'string', enum: Object.values(FinanceRole) } },
+          approverAddresses: { type: 'array', items: { type: 'string' } },
+          thresholds: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['minAmount', 'requiredApprovals'],
+              properties: {
+                minAmount: { type: 'string' },
+                requiredApprovals: { type: 'number' }
+              }
+            }
           }
         }
-      });
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canConfigureApprovalMatrix', { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId } = request.params as { projectId: number };
+
+    try {
+      const rules = MintApprovalPolicySchema.parse(request.body);
+      const policy = await approvalService.setPolicy(Number(projectId), rules, request.roleContext!.userAddress);
 
       return {
-        id: updatedRequest.id,
-        status: updatedRequest.status,
-        message: `Mint request ${status?.toLowerCase() || 'approved'} successfully`,
-        approvedAt: updatedRequest.reviewedAt
+        success: true,
+        message: 'Mint approval policy updated successfully',
+        policy
       };
-
     } catch (error) {
-      app.log.error({ error, mintRequestId: id }, 'Failed to approve mint request');
-      return reply.code(500).send({ error: 'Failed to approve mint request' });
+      return sendError(reply, error, 'Failed to update mint approval policy', { projectId, body: request.body });
     }
   });
-// Execute minting for a specific approved request
-  app.post('/mint-requests/:id/execute-mint', async (request: FastifyRequest, reply) => {
+
+  // Execute minting for a specific approved request
+  app.post('/mint-requests/:id/execute-mint', {
+    preHandler: [
+      app.requireScopes(['mint:approve'], { projectId: mintRequestProject }),
+      rbacService.requirePermission('canExecuteMints')
+    ]
+  }, async (request: FastifyRequest, reply) => {
     const { id } = request.params as { id: string };
 
     try {
-      // For testing, use a default executor address
-      // In production, this would require admin authentication
-      const executorAddress = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+      const executorAddress = actor(request).address;
 
       const result = await mintingService.executeMinting(id, executorAddress);
 
@@ -403,10 +562,15 @@ export default async function mintRequestRoutes(app: FastifyInstance) {
   });
 
   // Process all approved requests (batch minting)
-  app.post('/mint-requests/process-approved', async (request: FastifyRequest, reply) => {
+  app.post('/mint-requests/process-approved', {
+    preHandler: [
+      app.requireScopes(['mint:approve']),
+      rbacService.requirePermission('canExecuteMints')
+    ]
+  }, async (request: FastifyRequest, reply) => {
     try {
-      const { limit = 10 } = request.body as { limit?: number };
-      const executorAddress = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+      const { limit = 10 } = (request.body ?? {}) as { limit?: number };
+      const executorAddress = actor(request).address;
 
       const results = await mintingService.processApprovedRequests(executorAddress, limit);
 
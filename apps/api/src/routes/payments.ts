@@ -8,6 +8,8 @@ const InitiatePaymentSchema = z.object({
   projectId: z.number().int().positive(),
   paymentType: z.enum(['LIFT_UNIT_PURCHASE', 'PROJECT_FUNDING', 'REPAYMENT', 'PLATFORM_FEE', 'STEWARD_PAYMENT']),
   amount: z.string().regex(/^\d+$/, 'Amount must be numeric string'),
+  currency: z.string().regex(/^[A-Za-z]{3,5}$/, 'Invalid currency').optional(),
+  decimals: z.number().int().min(0).max(36).optional(),
   paymentToken: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid payment token address'),
   payerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid payer address'),
   recipientAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid recipient address'),
@@ -73,6 +75,8 @@ export default async function paymentRoutes(app: FastifyInstance) {
           projectId: { type: 'number' },
           paymentType: { type: 'string', enum: ['LIFT_UNIT_PURCHASE', 'PROJECT_FUNDING', 'REPAYMENT', 'PLATFORM_FEE', 'STEWARD_PAYMENT'] },
           amount: { type: 'string', pattern: '^\\d+$' },
+          currency: { type: 'string', pattern: '^[A-Za-z]{3,5}$' },
+          decimals: { type: 'number', minimum: 0, maximum: 36 },
           paymentToken: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
           payerAddress: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
           recipientAddress: { type: 'string', pattern: '^0x[a-fA-F0-9]{40}$' },
@@ -110,6 +114,8 @@ export default async function paymentRoutes(app: FastifyInstance) {
         projectId: body.projectId,
         paymentType: body.paymentType,
         amount: body.amount,
+        currency: body.currency,
+        decimals: body.decimals,
         paymentToken: body.paymentToken as `0x${string}`,
         payerAddress: body.payerAddress as `0x${string}`,
         recipientAddress: body.recipientAddress as `0x${string}`,
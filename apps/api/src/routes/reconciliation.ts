@@ -18,6 +18,51 @@ const BankStatementSchema = Type.Object({
   status: Type.Union([Type.Literal('PENDING'), Type.Literal('CLEARED'), Type.Literal('RETURNED')]),
 });
 
+const CsvMappingSchema = Type.Object({
+  delimiter: Type.Optional(Type.String({ minLength: 1, maxLength: 1 })),
+  decimalSeparator: Type.Optional(Type.Union([Type.Literal('.'), Type.Literal(',')])),
+  dateColumn: Type.String({ minLength: 1 }),
+  dateFormat: Type.Optional(Type.Union([
+    Type.Literal('YYYY-MM-DD'),
+    Type.Literal('MM/DD/YYYY'),
+    Type.Literal('DD/MM/YYYY'),
+  ])),
+  descriptionColumn: Type.String({ minLength: 1 }),
+  amountColumn: Type.Optional(Type.String({ minLength: 1 })),
+  debitColumn: Type.Optional(Type.String({ minLength: 1 })),
+  creditColumn: Type.Optional(Type.String({ minLength: 1 })),
+  typeColumn: Type.Optional(Type.String({ minLength: 1 })),
+  debitIndicators: Type.Optional(Type.Array(Type.String())),
+  referenceColumn: Type.Optional(Type.String({ minLength: 1 })),
+  transactionIdColumn: Type.Optional(Type.String({ minLength: 1 })),
+  accountNumberColumn: Type.Optional(Type.String({ minLength: 1 })),
+  accountNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 34 })),
+  statusColumn: Type.Optional(Type.String({ minLength: 1 })),
+});
+
+const StatementFileSchema = Type.Object({
+  fileName: Type.String({ minLength: 1, maxLength: 255 }),
+  format: Type.Union([Type.Literal('BAI2'), Type.Literal('CAMT053'), Type.Literal('CSV')]),
+  content: Type.String({ minLength: 1 }),
+  encoding: Type.Optional(Type.Union([Type.Literal('utf8'), Type.Literal('base64')])),
+  csvMapping: Type.Optional(CsvMappingSchema),
+});
+
+const StatementImportSchema = Type.Object({
+  id: Type.Number(),
+  fileName: Type.String(),
+  format: Type.String(),
+  fileHash: Type.String(),
+  status: Type.String(),
+  statementCount: Type.Number(),
+  reconciledCount: Type.Number(),
+  reviewCount: Type.Number(),
+  error: Type.Union([Type.String(), Type.Null()]),
+  importedBy: Type.String(),
+  createdAt: Type.String(),
+  completedAt: Type.Union([Type.String(), Type.Null()]),
+});
+
 const TokenTransferSchema = Type.Object({
   from: Type.String({ pattern: '^0x[a-fA-F0-9]{40}$' }),
   to: Type.String({ pattern: '^0x[a-fA-F0-9]{40}$' }),
@@ -71,7 +116,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
   const reconciliationService = new ReconciliationService(prisma);
 
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * Upload and process bank statements for reconciliation
@@ -137,6 +182,137 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * Import a bank statement file (BAI2, camt.053 or mapped CSV) and reconcile it
+   */
+  fastify.post('/bank-statements/import', {
+    bodyLimit: 10 * 1024 * 1024,
+    schema: {
+      tags: ['Reconciliation'],
+      summary: 'Import a bank statement file and reconcile its entries',
+      body: StatementFileSchema,
+      response: {
+        201: Type.Object({
+          statementImport: StatementImportSchema,
+          summary: ReconciliationSummarySchema,
+        }),
+        400: Type.Object({
+          statusCode: Type.Number(),
+          error: Type.String(),
+          message: Type.String(),
+        }),
+        409: Type.Object({
+          statusCode: Type.Number(),
+          error: Type.String(),
+          message: Type.String(),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{ Body: typeof StatementFileSchema.static }>, reply: FastifyReply) => {
+    try {
+      const { fileName, format, content, encoding, csvMapping } = request.body;
+
+      logger.info('Importing bank statement file', {
+        fileName,
+        format,
+        processedBy: request.user.id,
+      });
+
+      const { statementImport, summary } = await reconciliationService.importBankStatementFile({
+        fileName,
+        format,
+        contents: encoding === 'base64' ? Buffer.from(content, 'base64').toString('utf8') : content,
+        csvMapping,
+        importedBy: String(request.user.id),
+      });
+
+      reply.code(201).send({
+        statementImport: {
+          ...statementImport,
+          createdAt: statementImport.createdAt.toISOString(),
+          completedAt: statementImport.completedAt?.toISOString() ?? null,
+        },
+        summary: {
+          ...summary,
+          totalAmount: summary.totalAmount.toString(),
+          reconciledAmount: summary.reconciledAmount.toString(),
+          processingStartTime: summary.processingStartTime.toISOString(),
+          processingEndTime: summary.processingEndTime.toISOString(),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to import bank statement file', { error: error.message, fileName: request.body.fileName });
+
+      if (error.message.includes('already been imported')) {
+        reply.code(409).send({
+          statusCode: 409,
+          error: 'Conflict',
+          message: error.message,
+        });
+      } else {
+        reply.code(400).send({
+          statusCode: 400,
+          error: 'Bad Request',
+          message: error.message,
+        });
+      }
+    }
+  });
+
+  /**
+   * List imported bank statement files
+   */
+  fastify.get('/bank-statements/imports', {
+    schema: {
+      tags: ['Reconciliation'],
+      summary: 'List imported bank statement files',
+      querystring: Type.Object({
+        page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
+        limit: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
+      }),
+      response: {
+        200: Type.Object({
+          imports: Type.Array(StatementImportSchema),
+          pagination: Type.Object({
+            page: Type.Number(),
+            limit: Type.Number(),
+            total: Type.Number(),
+            totalPages: Type.Number(),
+          }),
+        }),
+      },
+    },
+  }, async (request: FastifyRequest<{ Querystring: { page?: number; limit?: number } }>, reply: FastifyReply) => {
+    try {
+      const { page = 1, limit = 20 } = request.query;
+      const { imports, total } = await reconciliationService.listBankStatementImports({
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      reply.send({
+        imports: imports.map(statementImport => ({
+          ...statementImport,
+          createdAt: statementImport.createdAt.toISOString(),
+          completedAt: statementImport.completedAt?.toISOString() ?? null,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to list bank statement imports', { error: error.message });
+      reply.code(500).send({
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: 'Failed to list bank statement imports',
+      });
+    }
+  });
+
   /**
    * Upload and process blockchain transactions for reconciliation
    */
@@ -270,7 +446,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
       if (minConfidence !== undefined) filters.matchConfidence = { gte: minConfidence };
 
       const [reviews, total] = await Promise.all([
-        db.reconciliationReview.findMany({
+        prisma.reconciliationReview.findMany({
           where: filters,
           skip: (page - 1) * limit,
           take: limit,
@@ -293,7 +469,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
             },
           },
         }),
-        db.reconciliationReview.count({ where: filters }),
+        prisma.reconciliationReview.count({ where: filters }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
@@ -482,13 +658,13 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
     try {
       logger.info('Processing pending reconciliation reviews', { requestedBy: request.user.id });
 
-      const beforeCount = await db.reconciliationReview.count({
+      const beforeCount = await prisma.reconciliationReview.count({
         where: { status: 'PENDING_REVIEW' },
       });
 
       await reconciliationService.processPendingReviews();
 
-      const afterCount = await db.reconciliationReview.count({
+      const afterCount = await prisma.reconciliationReview.count({
         where: { status: 'PENDING_REVIEW' },
       });
 
@@ -576,7 +752,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
         pendingReviews,
         reconciliationLogs,
       ] = await Promise.all([
-        db.disbursement.findMany({
+        prisma.disbursement.findMany({
           where: filters,
           select: {
             id: true,
@@ -587,7 +763,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
             reconciliationConfidence: true,
           },
         }),
-        db.disbursement.findMany({
+        prisma.disbursement.findMany({
           where: {
             ...filters,
             status: 'RECONCILED',
@@ -600,10 +776,10 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
             reconciliationConfidence: true,
           },
         }),
-        db.reconciliationReview.count({
+        prisma.reconciliationReview.count({
           where: { status: 'PENDING_REVIEW' },
         }),
-        db.reconciliationLog.findMany({
+        prisma.reconciliationLog.findMany({
           where: filters,
           select: {
             matchConfidence: true,
@@ -749,7 +925,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
       }
 
       const [logs, total] = await Promise.all([
-        db.reconciliationLog.findMany({
+        prisma.reconciliationLog.findMany({
           where: filters,
           skip: (page - 1) * limit,
           take: limit,
@@ -772,7 +948,7 @@ export async function reconciliationRoutes(fastify: FastifyInstance) {
             },
           },
         }),
-        db.reconciliationLog.count({ where: filters }),
+        prisma.reconciliationLog.count({ where: filters }),
       ]);
 
       const totalPages = Math.ceil(total / limit);
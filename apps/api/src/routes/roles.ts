@@ -1,14 +1,34 @@
 // apps/api/src/routes/roles.ts
-import { FastifyInstance, FastifyRequest } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { RBACService, FinanceRole, SystemRoleType } from '../lib/rbac.js';
+import { RBACService, FinanceRole, SystemRoleType, APPROVAL_ROLES } from '../lib/rbac.js';
 
 // Validation schemas
 const AssignProjectRoleSchema = z.object({
   targetUserAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid user address'),
   role: z.nativeEnum(FinanceRole),
   approvalLimit: z.string().regex(/^\d+$/, 'Approval limit must be numeric string').optional(),
-  notes: z.string().max(500).optional()
+  notes: z.string().max(500).optional(),
+  startsAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime().optional()
+});
+
+const DelegateApprovalSchema = z.object({
+  delegateAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid user address'),
+  role: z.nativeEnum(FinanceRole),
+  maxAmount: z.string().regex(/^\d+$/, 'Max amount must be numeric string'),
+  startsAt: z.string().datetime().optional(),
+  expiresAt: z.string().datetime(),
+  reason: z.string().max(500).optional()
+});
+
+const RevokeDelegationSchema = z.object({
+  reason: z.string().max(500).optional()
+});
+
+const RoleHistoryQuerySchema = z.object({
+  userAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid user address').optional(),
+  at: z.string().datetime().optional()
 });
 
 const RevokeProjectRoleSchema = z.object({
@@ -38,6 +58,37 @@ const UpdateApprovalMatrixSchema = z.object({
 export default async function rolesRoutes(app: FastifyInstance) {
   const rbacService = new RBACService(app);
 
+  app.addHook('onReady', async () => {
+    rbacService.startExpirySweep();
+  });
+
+  app.addHook('onClose', async () => {
+    rbacService.stopExpirySweep();
+  });
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    if (error instanceof z.ZodError) {
+      return reply.code(400).send({
+        error: 'Validation error',
+        details: error.errors
+      });
+    }
+
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.includes('no longer active')) {
+      return reply.code(409).send({ error: message });
+    }
+    if (/cannot|must|exceeds|does not/.test(message)) {
+      return reply.code(400).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: 'Internal server error' });
+  }
+
   // Get user's roles for a project
   app.get('/projects/:projectId/roles/user/:userAddress', {
     schema: {
@@ -106,7 +157,9 @@ export default async function rolesRoutes(app: FastifyInstance) {
           targetUserAddress: { type: 'string' },
           role: { type: 'string', enum: Object.values(FinanceRole) },
           approvalLimit: { type: 'string' },
-          notes: { type: 'string' }
+          notes: { type: 'string' },
+          startsAt: { type: 'string', format: 'date-time' },
+          expiresAt: { type: 'string', format: 'date-time' }
         }
       }
     },
@@ -143,13 +196,17 @@ export default async function rolesRoutes(app: FastifyInstance) {
       }
 
       // Assign role
-      await rbacService.assignProjectRole(
+      const assignment = await rbacService.assignProjectRole(
         targetUser.id,
         Number(projectId),
         validatedBody.role,
         assignerContext.userAddress,
         validatedBody.approvalLimit,
-        validatedBody.notes
+        validatedBody.notes,
+        {
+          startsAt: validatedBody.startsAt ? new Date(validatedBody.startsAt) : undefined,
+          expiresAt: validatedBody.expiresAt ? new Date(validatedBody.expiresAt) : undefined
+        }
       );
 
       return {
@@ -157,18 +214,13 @@ export default async function rolesRoutes(app: FastifyInstance) {
         message: `Role ${validatedBody.role} assigned to user ${validatedBody.targetUserAddress}`,
         projectId: Number(projectId),
         targetUserId: targetUser.id,
-        role: validatedBody.role
+        role: validatedBody.role,
+        assignmentId: assignment.id,
+        startsAt: assignment.startsAt,
+        expiresAt: assignment.expiresAt
       };
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return reply.code(400).send({ 
-          error: 'Validation error',
-          details: error.errors 
-        });
-      }
-      
-      app.log.error({ error, projectId, body }, 'Failed to assign project role');
-      return reply.code(500).send({ error: 'Internal server error' });
+      return sendError(reply, error, 'Failed to assign project role', { projectId, body });
     }
   });
 
@@ -243,15 +295,7 @@ export default async function rolesRoutes(app: FastifyInstance) {
         role: validatedBody.role
       };
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return reply.code(400).send({ 
-          error: 'Validation error',
-          details: error.errors 
-        });
-      }
-      
-      app.log.error({ error, projectId, body }, 'Failed to revoke project role');
-      return reply.code(500).send({ error: 'Internal server error' });
+      return sendError(reply, error, 'Failed to revoke project role', { projectId, body });
     }
   });
 
@@ -456,6 +500,8 @@ export default async function rolesRoutes(app: FastifyInstance) {
           approvalLimit: pr.approvalLimit,
           assignedBy: pr.assignedBy,
           assignedAt: pr.assignedAt,
+          startsAt: pr.startsAt,
+          expiresAt: pr.expiresAt,
           notes: pr.notes
         }))
       };
@@ -465,6 +511,235 @@ export default async function rolesRoutes(app: FastifyInstance) {
     }
   });
 
+  // Role assignments and delegations on a project, optionally as of a moment
+  app.get('/projects/:projectId/roles/history', {
+    schema: {
+      description: 'Get who held which finance role on a project, and when',
+      tags: ['Roles'],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'number' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          userAddress: { type: 'string' },
+          at: { type: 'string', format: 'date-time' }
+        }
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canViewProjectFinance', { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId } = request.params as { projectId: number };
+
+    try {
+      const query = RoleHistoryQuerySchema.parse(request.query);
+
+      let userId: number | undefined;
+      if (query.userAddress) {
+        const user = await app.prisma.user.findUnique({
+          where: { address: query.userAddress.toLowerCase() }
+        });
+        if (!user) {
+          return reply.code(404).send({ error: 'User not found' });
+        }
+        userId = user.id;
+      }
+
+      const history = await rbacService.getRoleHistory(Number(projectId), {
+        userId,
+        at: query.at ? new Date(query.at) : undefined
+      });
+
+      return {
+        projectId: Number(projectId),
+        at: query.at ?? null,
+        ...history
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to get role history', { projectId });
+    }
+  });
+
+  // Delegate the caller's approval authority to another user for a limited time
+  app.post('/projects/:projectId/delegations', {
+    schema: {
+      description: 'Temporarily delegate approval authority, capped at an amount',
+      tags: ['Roles'],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'number' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['delegateAddress', 'role', 'maxAmount', 'expiresAt'],
+        properties: {
+          delegateAddress: { type: 'string' },
+          role: { type: 'string', enum: APPROVAL_ROLES },
+          maxAmount: { type: 'string' },
+          startsAt: { type: 'string', format: 'date-time' },
+          expiresAt: { type: 'string', format: 'date-time' },
+          reason: { type: 'string' }
+        }
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requireRole(APPROVAL_ROLES, { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId } = request.params as { projectId: number };
+    const body = request.body as z.infer<typeof DelegateApprovalSchema>;
+
+    try {
+      const validatedBody = DelegateApprovalSchema.parse(body);
+      const delegatorContext = request.roleContext!;
+
+      const delegate = await app.prisma.user.findUnique({
+        where: { address: validatedBody.delegateAddress.toLowerCase() }
+      });
+
+      if (!delegate) {
+        return reply.code(404).send({ error: 'Delegate user not found' });
+      }
+
+      const delegation = await rbacService.delegateApprovalAuthority({
+        projectId: Number(projectId),
+        delegatorId: delegatorContext.userId,
+        delegateId: delegate.id,
+        role: validatedBody.role,
+        maxAmount: validatedBody.maxAmount,
+        startsAt: validatedBody.startsAt ? new Date(validatedBody.startsAt) : undefined,
+        expiresAt: new Date(validatedBody.expiresAt),
+        reason: validatedBody.reason,
+        createdBy: delegatorContext.userAddress
+      });
+
+      return reply.code(201).send({
+        success: true,
+        message: `${validatedBody.role} approval authority delegated to ${validatedBody.delegateAddress}`,
+        delegation
+      });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to delegate approval authority', { projectId, body });
+    }
+  });
+
+  // Delegations on a project
+  app.get('/projects/:projectId/delegations', {
+    schema: {
+      description: 'Get approval delegations for a project',
+      tags: ['Roles'],
+      params: {
+        type: 'object',
+        required: ['projectId'],
+        properties: {
+          projectId: { type: 'number' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          active: { type: 'boolean', default: true }
+        }
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requirePermission('canViewProjectFinance', { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId } = request.params as { projectId: number };
+    const { active = true } = request.query as { active?: boolean };
+
+    try {
+      const delegations = await app.prisma.approvalDelegation.findMany({
+        where: { projectId: Number(projectId), active },
+        include: {
+          delegator: { select: { id: true, address: true, ensName: true } },
+          delegate: { select: { id: true, address: true, ensName: true } }
+        },
+        orderBy: { expiresAt: 'asc' }
+      });
+
+      return {
+        projectId: Number(projectId),
+        delegations
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to get delegations', { projectId });
+    }
+  });
+
+  // End a delegation early; open to the delegator and to approvers who could assign the role
+  app.post('/projects/:projectId/delegations/:delegationId/revoke', {
+    schema: {
+      description: 'Revoke an approval delegation before it expires',
+      tags: ['Roles'],
+      params: {
+        type: 'object',
+        required: ['projectId', 'delegationId'],
+        properties: {
+          projectId: { type: 'number' },
+          delegationId: { type: 'number' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          reason: { type: 'string' }
+        }
+      }
+    },
+    preHandler: [
+      (app as any).authenticate,
+      rbacService.requireRole(APPROVAL_ROLES, { projectIdParam: 'projectId' })
+    ]
+  }, async (request: FastifyRequest, reply) => {
+    const { projectId, delegationId } = request.params as { projectId: number; delegationId: number };
+
+    try {
+      const validatedBody = RevokeDelegationSchema.parse(request.body ?? {});
+      const callerContext = request.roleContext!;
+
+      const delegation = await app.prisma.approvalDelegation.findFirst({
+        where: { id: Number(delegationId), projectId: Number(projectId) }
+      });
+
+      if (!delegation) {
+        return reply.code(404).send({ error: 'Delegation not found' });
+      }
+
+      const isDelegator = delegation.delegatorId === callerContext.userId;
+      if (!isDelegator && !(await canAssignRole(callerContext, delegation.role))) {
+        return reply.code(403).send({ error: 'Insufficient permissions to revoke this delegation' });
+      }
+
+      const revoked = await rbacService.revokeDelegation(
+        delegation.id,
+        callerContext.userAddress,
+        validatedBody.reason
+      );
+
+      return {
+        success: true,
+        message: `Delegation ${delegation.id} revoked`,
+        delegation: revoked
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to revoke delegation', { projectId, delegationId });
+    }
+  });
+
   // Helper function to check if user can assign a specific role
   async function canAssignRole(assignerContext: any, targetRole: FinanceRole): Promise<boolean> {
     // Platform admins can assign any role
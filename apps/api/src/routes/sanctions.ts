@@ -0,0 +1,166 @@
+// apps/api/src/routes/sanctions.ts
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { SanctionsScreeningService } from '../lib/sanctions/index.js';
+import { RBACService } from '../lib/rbac.js';
+
+// Validation schemas
+const ImportListSchema = z.object({
+  source: z.enum(['SDN', 'CONSOLIDATED']),
+  fileName: z.string().min(1).max(200),
+  contents: z.string().min(1)
+});
+
+const ScreenSchema = z.object({
+  subjectType: z.enum(['VENDOR', 'PAYMENT', 'DISBURSEMENT', 'MARKETPLACE_FILL']),
+  subjectRef: z.string().min(1).max(200),
+  names: z.array(z.string().min(1).max(500)).max(20).default([]),
+  addresses: z.array(z.string().min(1).max(200)).max(20).default([])
+}).refine(value => value.names.length + value.addresses.length > 0, 'Provide at least one name or address');
+
+const ReviewHitSchema = z.object({
+  decision: z.enum(['CLEARED', 'CONFIRMED']),
+  notes: z.string().max(2000).optional()
+});
+
+const HitQuerySchema = z.object({
+  status: z.enum(['OPEN', 'CLEARED', 'CONFIRMED']).optional(),
+  subjectType: z.enum(['VENDOR', 'PAYMENT', 'DISBURSEMENT', 'MARKETPLACE_FILL']).optional(),
+  subjectRef: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+// OFAC list files run to tens of megabytes
+const LIST_UPLOAD_LIMIT = 64 * 1024 * 1024;
+
+export default async function sanctionsRoutes(app: FastifyInstance) {
+  const screeningService = new SanctionsScreeningService(app);
+  const rbacService = new RBACService(app);
+
+  const canManageLists = [(app as any).authenticate, rbacService.requirePermission('canManageSanctionsLists')];
+  const canReviewHits = [(app as any).authenticate, rbacService.requirePermission('canReviewSanctionsHits')];
+
+  app.addHook('onReady', async () => {
+    screeningService.startPeriodicImport();
+  });
+
+  app.addHook('onClose', async () => {
+    screeningService.stopPeriodicImport();
+  });
+
+  function sendError(reply: FastifyReply, error: any, fallback: string, context: Record<string, any>) {
+    const message: string = error?.message ?? '';
+    if (message.includes('not found')) {
+      return reply.code(404).send({ error: message });
+    }
+    if (message.startsWith('Sanctions screening unavailable')) {
+      return reply.code(503).send({ error: message });
+    }
+    if (message.includes('already') || message.includes('reason is required')) {
+      return reply.code(409).send({ error: message });
+    }
+    if (message.startsWith('Not an OFAC list') || message.startsWith('Malformed OFAC list') || message.includes('contains no entries') || message.includes('may be truncated')) {
+      return reply.code(400).send({ error: message });
+    }
+
+    app.log.error({ error, ...context }, fallback);
+    return reply.code(500).send({ error: fallback });
+  }
+
+  // Imported lists, newest first
+  app.get('/sanctions/lists', {
+    preHandler: canManageLists
+  }, async (request, reply) => {
+    try {
+      const lists = await screeningService.listLists();
+      return { lists };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list sanctions lists', {});
+    }
+  });
+
+  // Upload an OFAC XML file, or re-scan the list directory when no file is given
+  app.post('/sanctions/lists/import', {
+    preHandler: canManageLists,
+    bodyLimit: LIST_UPLOAD_LIMIT
+  }, async (request, reply) => {
+    const importedBy = request.user!.address;
+
+    if (!request.body) {
+      try {
+        const results = await screeningService.importFromDirectory(importedBy);
+        return { results };
+      } catch (error) {
+        return sendError(reply, error, 'Failed to import sanctions lists', {});
+      }
+    }
+
+    const parsed = ImportListSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid list upload', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { contents, ...options } = parsed.data;
+      const { list, imported } = await screeningService.importList(contents, { ...options, importedBy });
+      return reply.code(imported ? 201 : 200).send({ list, imported });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to import sanctions list', { fileName: parsed.data.fileName });
+    }
+  });
+
+  // Ad hoc screening of names and wallet addresses
+  app.post('/sanctions/screen', {
+    preHandler: canReviewHits
+  }, async (request, reply) => {
+    const parsed = ScreenSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid screening request', details: parsed.error.flatten() });
+    }
+
+    try {
+      const result = await screeningService.screen({ ...parsed.data, actor: request.user!.address });
+      return result;
+    } catch (error) {
+      return sendError(reply, error, 'Failed to screen', { subjectRef: parsed.data.subjectRef });
+    }
+  });
+
+  app.get('/sanctions/hits', {
+    preHandler: canReviewHits
+  }, async (request, reply) => {
+    const parsed = HitQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { hits, total } = await screeningService.listHits(parsed.data);
+      return { hits, total, limit: parsed.data.limit, offset: parsed.data.offset };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list sanctions hits', { query: parsed.data });
+    }
+  });
+
+  // Clear a false positive (override, reason required) or confirm a match
+  app.put('/sanctions/hits/:hitId/review', {
+    preHandler: canReviewHits
+  }, async (request, reply) => {
+    const hitId = Number((request.params as { hitId: string }).hitId);
+    if (!Number.isInteger(hitId) || hitId <= 0) {
+      return reply.code(400).send({ error: 'Invalid hit id' });
+    }
+    const parsed = ReviewHitSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid review', details: parsed.error.flatten() });
+    }
+
+    try {
+      const hit = await screeningService.reviewHit(hitId, { ...parsed.data, reviewedBy: request.user!.address });
+      return { hit };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to review sanctions hit', { hitId });
+    }
+  });
+}
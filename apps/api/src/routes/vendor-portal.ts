@@ -0,0 +1,218 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Type } from '@sinclair/typebox';
+import { prisma } from '@orenna/db';
+import { VendorPortalService } from '../lib/vendor-portal';
+import { createIPFSClient } from '../lib/ipfs-client';
+import { logger } from '../utils/logger';
+
+// Request/Response schemas
+const AddressSchema = Type.Object({
+  street: Type.String({ minLength: 1, maxLength: 255 }),
+  city: Type.String({ minLength: 1, maxLength: 100 }),
+  state: Type.String({ maxLength: 100 }),
+  zip: Type.String({ maxLength: 20 }),
+  country: Type.String({ minLength: 2, maxLength: 2 }),
+});
+
+const TaxFormSubmissionSchema = Type.Object({
+  formType: Type.Union([Type.Literal('W9'), Type.Literal('W8BEN')]),
+  legalName: Type.String({ minLength: 1, maxLength: 255 }),
+  businessName: Type.Optional(Type.String({ maxLength: 255 })),
+  taxClassification: Type.Union([
+    Type.Literal('INDIVIDUAL'),
+    Type.Literal('C_CORPORATION'),
+    Type.Literal('S_CORPORATION'),
+    Type.Literal('PARTNERSHIP'),
+    Type.Literal('TRUST_ESTATE'),
+    Type.Literal('LLC_C'),
+    Type.Literal('LLC_S'),
+    Type.Literal('LLC_P'),
+    Type.Literal('OTHER'),
+  ]),
+  tinType: Type.Optional(Type.Union([Type.Literal('SSN'), Type.Literal('EIN'), Type.Literal('ITIN')])),
+  tin: Type.Optional(Type.String({ maxLength: 20 })),
+  foreignTin: Type.Optional(Type.String({ maxLength: 50 })),
+  exemptPayeeCode: Type.Optional(Type.String({ maxLength: 2 })),
+  fatcaExemptionCode: Type.Optional(Type.String({ maxLength: 2 })),
+  subjectToBackupWithholding: Type.Optional(Type.Boolean()),
+  countryOfCitizenship: Type.Optional(Type.String({ minLength: 2, maxLength: 2 })),
+  address: AddressSchema,
+  signatureName: Type.String({ minLength: 1, maxLength: 255 }),
+  certified: Type.Boolean(),
+});
+
+const BankDetailsSchema = Type.Object({
+  routingNumber: Type.String({ pattern: '^\\d{9}$' }),
+  accountNumber: Type.String({ pattern: '^\\d{4,17}$' }),
+  accountType: Type.Union([Type.Literal('CHECKING'), Type.Literal('SAVINGS')]),
+  bankName: Type.Optional(Type.String({ maxLength: 255 })),
+  accountHolderName: Type.Optional(Type.String({ maxLength: 255 })),
+});
+
+const DocumentUploadSchema = Type.Object({
+  fileName: Type.String({ minLength: 1, maxLength: 255 }),
+  mimeType: Type.Union([Type.Literal('application/pdf'), Type.Literal('image/png'), Type.Literal('image/jpeg')]),
+  documentType: Type.Union([
+    Type.Literal('BUSINESS_LICENSE'),
+    Type.Literal('TAX_FORM'),
+    Type.Literal('INSURANCE_COI'),
+    Type.Literal('BOND_CERTIFICATE'),
+    Type.Literal('BANK_VERIFICATION'),
+    Type.Literal('IDENTITY_DOCUMENT'),
+    Type.Literal('OTHER'),
+  ]),
+  content: Type.String({ minLength: 1 }), // Base64
+  issueDate: Type.Optional(Type.String({ format: 'date' })),
+  expiryDate: Type.Optional(Type.String({ format: 'date' })),
+  issuingAuthority: Type.Optional(Type.String({ maxLength: 255 })),
+});
+
+const TokenParamsSchema = Type.Object({
+  token: Type.String({ minLength: 32, maxLength: 64 }),
+});
+
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
+type TokenRequest<Body = unknown> = FastifyRequest<{ Params: { token: string }; Body: Body }>;
+
+// Unknown, expired, revoked and used invites all read as 404 to the caller
+function sendError(reply: FastifyReply, error: any) {
+  if (error.message.startsWith('Invite')) {
+    reply.code(404).send({ statusCode: 404, error: 'Not Found', message: error.message });
+  } else {
+    reply.code(400).send({ statusCode: 400, error: 'Bad Request', message: error.message });
+  }
+}
+
+/**
+ * Vendor self-service onboarding. These routes are not behind user auth;
+ * the invite token in the path is the credential.
+ */
+export async function vendorPortalRoutes(fastify: FastifyInstance) {
+  const portalService = new VendorPortalService(prisma, createIPFSClient(fastify.log, {
+    url: process.env.IPFS_API_URL || 'http://localhost:5001',
+    timeout: 30000,
+  }));
+
+  /**
+   * Onboarding progress for an invite
+   */
+  fastify.get('/:token', {
+    schema: {
+      tags: ['Vendor Portal'],
+      summary: 'Get onboarding status',
+      params: TokenParamsSchema,
+      response: {
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: TokenRequest, reply: FastifyReply) => {
+    try {
+      reply.send(await portalService.getOnboardingStatus(request.params.token));
+    } catch (error: any) {
+      sendError(reply, error);
+    }
+  });
+
+  /**
+   * Submit a signed W-9 or W-8BEN
+   */
+  fastify.post('/:token/tax-form', {
+    schema: {
+      tags: ['Vendor Portal'],
+      summary: 'Submit a W-9 or W-8BEN',
+      params: TokenParamsSchema,
+      body: TaxFormSubmissionSchema,
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: TokenRequest<typeof TaxFormSubmissionSchema.static>, reply: FastifyReply) => {
+    try {
+      const form = await portalService.submitTaxForm(request.params.token, request.body, request.ip);
+      reply.code(201).send(form);
+    } catch (error: any) {
+      logger.warn('Vendor tax form rejected', { error: error.message, formType: request.body.formType });
+      sendError(reply, error);
+    }
+  });
+
+  /**
+   * Set the bank account used for ACH payments
+   */
+  fastify.put('/:token/bank-details', {
+    schema: {
+      tags: ['Vendor Portal'],
+      summary: 'Set bank details',
+      params: TokenParamsSchema,
+      body: BankDetailsSchema,
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: TokenRequest<typeof BankDetailsSchema.static>, reply: FastifyReply) => {
+    try {
+      reply.send(await portalService.setBankDetails(request.params.token, request.body));
+    } catch (error: any) {
+      sendError(reply, error);
+    }
+  });
+
+  /**
+   * Upload a KYC document
+   */
+  fastify.post('/:token/documents', {
+    bodyLimit: 15 * 1024 * 1024,
+    schema: {
+      tags: ['Vendor Portal'],
+      summary: 'Upload a KYC document',
+      params: TokenParamsSchema,
+      body: DocumentUploadSchema,
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: TokenRequest<typeof DocumentUploadSchema.static>, reply: FastifyReply) => {
+    try {
+      const { content, issueDate, expiryDate, ...upload } = request.body;
+      const document = await portalService.uploadDocument(request.params.token, {
+        ...upload,
+        content: Buffer.from(content, 'base64'),
+        issueDate: issueDate ? new Date(issueDate) : undefined,
+        expiryDate: expiryDate ? new Date(expiryDate) : undefined,
+      });
+      reply.code(201).send(document);
+    } catch (error: any) {
+      logger.error('Failed to upload vendor document', { error: error.message });
+      sendError(reply, error);
+    }
+  });
+
+  /**
+   * Submit the application for compliance review
+   */
+  fastify.post('/:token/complete', {
+    schema: {
+      tags: ['Vendor Portal'],
+      summary: 'Complete onboarding',
+      params: TokenParamsSchema,
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: TokenRequest, reply: FastifyReply) => {
+    try {
+      reply.send(await portalService.completeOnboarding(request.params.token));
+    } catch (error: any) {
+      sendError(reply, error);
+    }
+  });
+}
@@ -1,6 +1,9 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { Type } from '@sinclair/typebox';
-import { VendorService } from '../lib/vendor';
+import { VendorService, maskTaxForm } from '../lib/vendor';
+import { VendorPortalService } from '../lib/vendor-portal';
+import { Form1099Service } from '../lib/tax-forms';
+import { SanctionsScreeningService } from '../lib/sanctions';
 import { prisma } from '@orenna/db';
 import { requireAuth } from '../lib/authorization.js';
 import { logger } from '../utils/logger';
@@ -132,11 +135,56 @@ const DocumentResponseSchema = Type.Object({
   uploadedAt: Type.String(),
 });
 
+const ErrorSchema = Type.Object({
+  statusCode: Type.Number(),
+  error: Type.String(),
+  message: Type.String(),
+});
+
+const InviteCreateSchema = Type.Object({
+  email: Type.String({ format: 'email' }),
+});
+
+const FirePayerSchema = Type.Object({
+  tin: Type.String({ pattern: '^\\d{2}-?\\d{7}$' }),
+  nameControl: Type.Optional(Type.String({ maxLength: 4 })),
+  name: Type.String({ minLength: 1, maxLength: 40 }),
+  secondName: Type.Optional(Type.String({ maxLength: 40 })),
+  address: Type.String({ minLength: 1, maxLength: 40 }),
+  city: Type.String({ minLength: 1, maxLength: 40 }),
+  state: Type.String({ minLength: 2, maxLength: 2 }),
+  zip: Type.String({ pattern: '^\\d{5}(-?\\d{4})?$' }),
+  phone: Type.String({ maxLength: 20 }),
+});
+
+const FireTransmitterSchema = Type.Object({
+  tin: Type.String({ pattern: '^\\d{2}-?\\d{7}$' }),
+  tcc: Type.String({ pattern: '^[A-Za-z0-9]{5}$' }),
+  name: Type.String({ minLength: 1, maxLength: 80 }),
+  companyName: Type.Optional(Type.String({ maxLength: 80 })),
+  address: Type.String({ minLength: 1, maxLength: 40 }),
+  city: Type.String({ minLength: 1, maxLength: 40 }),
+  state: Type.String({ minLength: 2, maxLength: 2 }),
+  zip: Type.String({ pattern: '^\\d{5}(-?\\d{4})?$' }),
+  contactName: Type.String({ minLength: 1, maxLength: 40 }),
+  contactPhone: Type.String({ maxLength: 20 }),
+  contactEmail: Type.String({ format: 'email', maxLength: 50 }),
+});
+
+const FireFileRequestSchema = Type.Object({
+  transmitter: FireTransmitterSchema,
+  payer: FirePayerSchema,
+  testFile: Type.Optional(Type.Boolean()),
+  lastFiling: Type.Optional(Type.Boolean()),
+});
+
 export async function vendorRoutes(fastify: FastifyInstance) {
-  const vendorService = new VendorService(prisma);
+  const vendorService = new VendorService(prisma, new SanctionsScreeningService(fastify));
+  const portalService = new VendorPortalService(prisma);
+  const form1099Service = new Form1099Service(prisma);
 
   // Register authentication requirement for all routes
-  await fastify.register(requireAuth);
+  fastify.addHook('preHandler', requireAuth);
 
   /**
    * Create a new vendor
@@ -707,17 +755,22 @@ export async function vendorRoutes(fastify: FastifyInstance) {
         200: Type.Object({
           sanctionsStatus: Type.String(),
           checkedAt: Type.String(),
-          results: Type.Object({
-            ofacMatches: Type.Number(),
-            euMatches: Type.Number(),
-            unMatches: Type.Number(),
-          }),
-        }),
-        404: Type.Object({
-          statusCode: Type.Number(),
-          error: Type.String(),
-          message: Type.String(),
+          hits: Type.Array(Type.Object({
+            id: Type.Number(),
+            source: Type.String(),
+            entryUid: Type.Number(),
+            entryName: Type.String(),
+            programs: Type.Array(Type.String()),
+            matchType: Type.String(),
+            screenedValue: Type.String(),
+            matchedValue: Type.String(),
+            score: Type.Number(),
+            action: Type.String(),
+            status: Type.String(),
+          })),
         }),
+        404: ErrorSchema,
+        503: ErrorSchema,
       },
     },
   }, async (request: FastifyRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
@@ -726,12 +779,12 @@ export async function vendorRoutes(fastify: FastifyInstance) {
 
       logger.info('Running sanctions check', { vendorId: id });
 
-      const result = await vendorService.runSanctionsCheck(id);
+      const result = await vendorService.runSanctionsCheck(id, request.user?.userId);
 
       reply.send({
-        sanctionsStatus: result.status,
+        sanctionsStatus: result.sanctionsStatus,
         checkedAt: result.checkedAt.toISOString(),
-        results: result.details || 'No additional details available',
+        hits: result.hits,
       });
     } catch (error: any) {
       logger.error('Failed to run sanctions check', { error: error.message, vendorId: request.params.id });
@@ -742,6 +795,12 @@ export async function vendorRoutes(fastify: FastifyInstance) {
           error: 'Not Found',
           message: error.message,
         });
+      } else if (error.message.startsWith('Sanctions screening unavailable')) {
+        reply.code(503).send({
+          statusCode: 503,
+          error: 'Service Unavailable',
+          message: error.message,
+        });
       } else {
         reply.code(500).send({
           statusCode: 500,
@@ -828,6 +887,7 @@ export async function vendorRoutes(fastify: FastifyInstance) {
           totalPayments: Type.String(),
           paymentCount: Type.Number(),
           requires1099: Type.Boolean(),
+          reason: Type.Optional(Type.String()),
           form1099Data: Type.Optional(Type.Object({
             recipientTin: Type.String(),
             recipientName: Type.String(),
@@ -858,14 +918,15 @@ export async function vendorRoutes(fastify: FastifyInstance) {
         taxYear: data.taxYear,
         totalPayments: data.totalPaid.toString(),
         paymentCount: data.payments.length,
-        requires1099: data.totalPaid > BigInt(600), // Standard 1099 threshold
-        form1099Data: {
+        requires1099: data.requires1099,
+        reason: data.reason,
+        form1099Data: data.requires1099 ? {
           recipientTin: data.taxId,
           recipientName: data.vendorName,
           recipientAddress: JSON.stringify(data.vendorAddress),
           totalPayments: data.totalPaid.toString(),
-          backupWithholding: '0',
-        },
+          backupWithholding: data.backupWithholding ? 'YES' : 'NO',
+        } : undefined,
       });
     } catch (error: any) {
       logger.error('Failed to generate 1099 data', { 
@@ -889,4 +950,220 @@ export async function vendorRoutes(fastify: FastifyInstance) {
       }
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * Invite the vendor to complete onboarding through the vendor portal
+   */
+  fastify.post('/:id/invites', {
+    schema: {
+      tags: ['Vendors'],
+      summary: 'Send a vendor portal invite',
+      params: Type.Object({
+        id: Type.Number(),
+      }),
+      body: InviteCreateSchema,
+      response: {
+        201: Type.Object({
+          id: Type.Number(),
+          email: Type.String(),
+          inviteUrl: Type.String(),
+          expiresAt: Type.String(),
+        }),
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: number };
+    Body: typeof InviteCreateSchema.static
+  }>, reply: FastifyReply) => {
+    try {
+      const { id } = request.params;
+      const { invite, inviteUrl, expiresAt } = await portalService.createInvite(
+        id,
+        request.body.email,
+        request.user?.userId || 0
+      );
+
+      reply.code(201).send({
+        id: invite.id,
+        email: invite.email,
+        inviteUrl,
+        expiresAt: expiresAt.toISOString(),
+      });
+    } catch (error: any) {
+      logger.error('Failed to create vendor invite', { error: error.message, vendorId: request.params.id });
+
+      if (error.message.includes('not found')) {
+        reply.code(404).send({
+          statusCode: 404,
+          error: 'Not Found',
+          message: error.message,
+        });
+      } else {
+        reply.code(400).send({
+          statusCode: 400,
+          error: 'Bad Request',
+          message: error.message,
+        });
+      }
+    }
+  });
+
+  /**
+   * Revoke an unused invite link
+   */
+  fastify.delete('/:id/invites/:inviteId', {
+    schema: {
+      tags: ['Vendors'],
+      summary: 'Revoke a vendor portal invite',
+      params: Type.Object({
+        id: Type.Number(),
+        inviteId: Type.Number(),
+      }),
+      response: {
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: number; inviteId: number }
+  }>, reply: FastifyReply) => {
+    try {
+      await portalService.revokeInvite(request.params.id, request.params.inviteId);
+      reply.code(204).send();
+    } catch (error: any) {
+      reply.code(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * Current W-9 or W-8BEN with the TIN masked
+   */
+  fastify.get('/:id/tax-form', {
+    schema: {
+      tags: ['Vendors'],
+      summary: 'Get vendor tax form',
+      params: Type.Object({
+        id: Type.Number(),
+      }),
+      response: {
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: number }
+  }>, reply: FastifyReply) => {
+    try {
+      const form = await vendorService.getTaxForm(request.params.id);
+      if (!form) {
+        return reply.code(404).send({
+          statusCode: 404,
+          error: 'Not Found',
+          message: `Vendor ${request.params.id} has no tax form on file`,
+        });
+      }
+      reply.send(maskTaxForm(form));
+    } catch (error: any) {
+      reply.code(404).send({
+        statusCode: 404,
+        error: 'Not Found',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * Recipient copy of a vendor's 1099-NEC as PDF
+   */
+  fastify.post('/:id/1099/:taxYear/pdf', {
+    schema: {
+      tags: ['Vendors'],
+      summary: 'Render 1099-NEC recipient copy',
+      params: Type.Object({
+        id: Type.Number(),
+        taxYear: Type.Number({ minimum: 2020, maximum: 2030 }),
+      }),
+      body: Type.Object({
+        payer: FirePayerSchema,
+      }),
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { id: number; taxYear: number };
+    Body: { payer: typeof FirePayerSchema.static }
+  }>, reply: FastifyReply) => {
+    try {
+      const { id, taxYear } = request.params;
+      const pdf = await form1099Service.renderRecipientCopy(id, taxYear, request.body.payer);
+
+      logger.info('Rendered 1099-NEC recipient copy', { vendorId: id, taxYear, renderedBy: request.user?.userId });
+
+      reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `attachment; filename="1099-NEC_${taxYear}_vendor_${id}.pdf"`)
+        .send(pdf);
+    } catch (error: any) {
+      logger.error('Failed to render 1099-NEC', { error: error.message, vendorId: request.params.id });
+
+      if (error.message.includes('not found')) {
+        reply.code(404).send({
+          statusCode: 404,
+          error: 'Not Found',
+          message: error.message,
+        });
+      } else {
+        reply.code(400).send({
+          statusCode: 400,
+          error: 'Bad Request',
+          message: error.message,
+        });
+      }
+    }
+  });
+
+  /**
+   * IRS FIRE e-file with a 1099-NEC for every reportable vendor
+   */
+  fastify.post('/1099/:taxYear/fire', {
+    schema: {
+      tags: ['Vendors'],
+      summary: 'Generate 1099-NEC FIRE file',
+      params: Type.Object({
+        taxYear: Type.Number({ minimum: 2020, maximum: 2030 }),
+      }),
+      body: FireFileRequestSchema,
+      response: {
+        400: ErrorSchema,
+      },
+    },
+  }, async (request: FastifyRequest<{
+    Params: { taxYear: number };
+    Body: typeof FireFileRequestSchema.static
+  }>, reply: FastifyReply) => {
+    try {
+      const { taxYear } = request.params;
+      const { transmitter, payer, testFile, lastFiling } = request.body;
+      const file = await form1099Service.generateFireFile(taxYear, transmitter, payer, { testFile, lastFiling });
+
+      reply
+        .header('Content-Type', 'text/plain; charset=us-ascii')
+        .header('Content-Disposition', `attachment; filename="${file.fileName}"`)
+        .header('X-Payee-Count', String(file.payeeCount))
+        .header('X-Missing-Tin-Vendors', file.missingTin.join(','))
+        .send(file.contents);
+    } catch (error: any) {
+      logger.error('Failed to generate FIRE file', { error: error.message, taxYear: request.params.taxYear });
+      reply.code(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: error.message,
+      });
+    }
+  });
+}
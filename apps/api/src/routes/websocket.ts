@@ -1,13 +1,9 @@
 // apps/api/src/routes/websocket.ts
 import { FastifyInstance, FastifyRequest } from 'fastify';
-import { WebSocketManager } from '../lib/websocket-manager.js';
 
 export default async function websocketRoutes(app: FastifyInstance) {
-  // Create global WebSocket manager instance
-  const wsManager = new WebSocketManager(app);
-  
-  // Make it available to other parts of the application
-  app.decorate('wsManager', wsManager);
+  // Global WebSocket manager instance, decorated by plugins/websocket-manager
+  const wsManager = app.wsManager;
 
   // WebSocket endpoint for real-time updates
   app.register(async function (app) {
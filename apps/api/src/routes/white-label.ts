@@ -270,7 +270,7 @@ export default async function whiteLabelRoutes(app: FastifyInstance) {
   app.post('/white-label/reports/generate', {
     preHandler: authenticateWhiteLabel,
     schema: {
-      description: 'Generate custom branded report',
+      description: 'Generate custom branded report; PDF reports are returned as the response body',
       tags: ['White Label', 'Reports'],
       body: {
         type: 'object',
@@ -313,10 +313,18 @@ export default async function whiteLabelRoutes(app: FastifyInstance) {
         { ...body.parameters, format: body.format }
       );
 
+      const reportId = `${organization.id}-${report.reportType}-${report.generatedAt.getTime()}`;
+
+      if (report.document) {
+        reply.header('Content-Type', 'application/pdf');
+        reply.header('Content-Disposition', `attachment; filename="${reportId}.pdf"`);
+        return reply.code(201).send(report.document);
+      }
+
       const downloadUrl = `/white-label/reports/${organization.id}/${report.reportType}/${report.generatedAt.getTime()}`;
 
       return reply.code(201).send({
-        reportId: `${organization.id}-${report.reportType}-${report.generatedAt.getTime()}`,
+        reportId,
         reportType: report.reportType,
         format: report.format,
         downloadUrl,
@@ -0,0 +1,209 @@
+// apps/api/src/routes/workflows.ts
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import { WorkflowEngine, WorkflowTriggerInput } from '../lib/workflows.js';
+import { isValidCron } from '../lib/cron.js';
+
+// Validation schemas
+const ConditionSchema = z.object({
+  type: z.enum(['data_threshold', 'time_based', 'evidence_count', 'confidence_score', 'external_signal']),
+  field: z.string().min(1).max(100),
+  operator: z.enum(['>', '<', '=', '>=', '<=', '!=', 'contains', 'matches']),
+  value: z.any(),
+  metadata: z.record(z.any()).optional()
+}).refine(
+  condition => condition.type !== 'time_based' || condition.field !== 'schedule' ||
+    (typeof condition.value === 'string' && isValidCron(condition.value)),
+  { message: 'Schedule must be a valid five-field cron expression', path: ['value'] }
+);
+
+const ActionSchema = z.object({
+  type: z.enum(['auto_verify', 'require_review', 'notify_validators', 'escalate', 'reject', 'schedule_recheck']),
+  parameters: z.record(z.any()).default({}),
+  delay: z.number().int().min(0).max(1440).optional()
+});
+
+const TriggerFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).default(''),
+  enabled: z.boolean().default(true),
+  priority: z.enum(['low', 'normal', 'high', 'critical']).default('normal'),
+  cooldown: z.number().int().min(0).default(0),
+  conditions: z.array(ConditionSchema).min(1),
+  actions: z.array(ActionSchema).min(1)
+});
+
+const CreateTriggerSchema = TriggerFieldsSchema.extend({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{1,62}$/, 'Trigger id must be lowercase kebab-case')
+});
+
+const UpdateTriggerSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(1000).optional(),
+  enabled: z.boolean().optional(),
+  priority: z.enum(['low', 'normal', 'high', 'critical']).optional(),
+  cooldown: z.number().int().min(0).optional(),
+  conditions: z.array(ConditionSchema).min(1).optional(),
+  actions: z.array(ActionSchema).min(1).optional()
+});
+
+const ExecutionQuerySchema = z.object({
+  triggerId: z.string().optional(),
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  liftTokenId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export default async function workflowRoutes(app: FastifyInstance) {
+  const workflowEngine = new WorkflowEngine(app.prisma, {
+    wsManager: app.wsManager,
+    logger: app.log
+  });
+
+  // Workflows act across every project, so they sit behind the platform admin scope
+  const adminOnly = app.requireScopes(['admin']);
+
+  app.addHook('onReady', async () => {
+    try {
+      const seeded = await workflowEngine.seedDefaultTriggers();
+      if (seeded > 0) {
+        app.log.info({ seeded }, 'Seeded default workflow triggers');
+      }
+      workflowEngine.startPeriodicTriggerCheck();
+    } catch (error) {
+      app.log.error({ error }, 'Failed to start workflow scheduler');
+    }
+  });
+
+  // List triggers
+  app.get('/workflows/triggers', { preHandler: adminOnly }, async (_request, reply) => {
+    try {
+      const triggers = await workflowEngine.getAllTriggers();
+      return { triggers };
+    } catch (error) {
+      app.log.error({ error }, 'Failed to list workflow triggers');
+      return reply.code(500).send({ error: 'Failed to list workflow triggers' });
+    }
+  });
+
+  // Get a trigger
+  app.get('/workflows/triggers/:triggerId', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const { triggerId } = request.params as { triggerId: string };
+
+    try {
+      const trigger = await workflowEngine.getTrigger(triggerId);
+      if (!trigger) {
+        return reply.code(404).send({ error: 'Workflow trigger not found' });
+      }
+
+      return { trigger };
+    } catch (error) {
+      app.log.error({ error, triggerId }, 'Failed to get workflow trigger');
+      return reply.code(500).send({ error: 'Failed to get workflow trigger' });
+    }
+  });
+
+  // Create a trigger
+  app.post('/workflows/triggers', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const parsed = CreateTriggerSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid workflow trigger', details: parsed.error.flatten() });
+    }
+
+    try {
+      const trigger = await workflowEngine.addTrigger(parsed.data as WorkflowTriggerInput, request.roleContext?.userId);
+      return reply.code(201).send({ trigger });
+    } catch (error: any) {
+      if (error?.code === 'P2002') {
+        return reply.code(409).send({ error: 'Workflow trigger already exists' });
+      }
+
+      app.log.error({ error, triggerId: parsed.data.id }, 'Failed to create workflow trigger');
+      return reply.code(500).send({ error: 'Failed to create workflow trigger' });
+    }
+  });
+
+  // Update a trigger
+  app.patch('/workflows/triggers/:triggerId', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const { triggerId } = request.params as { triggerId: string };
+    const parsed = UpdateTriggerSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid workflow trigger update', details: parsed.error.flatten() });
+    }
+
+    try {
+      const trigger = await workflowEngine.updateTrigger(triggerId, parsed.data as Partial<WorkflowTriggerInput>);
+      if (!trigger) {
+        return reply.code(404).send({ error: 'Workflow trigger not found' });
+      }
+
+      return { trigger };
+    } catch (error) {
+      app.log.error({ error, triggerId }, 'Failed to update workflow trigger');
+      return reply.code(500).send({ error: 'Failed to update workflow trigger' });
+    }
+  });
+
+  // Delete a trigger
+  app.delete('/workflows/triggers/:triggerId', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const { triggerId } = request.params as { triggerId: string };
+
+    try {
+      const removed = await workflowEngine.removeTrigger(triggerId);
+      if (!removed) {
+        return reply.code(404).send({ error: 'Workflow trigger not found' });
+      }
+
+      return reply.code(204).send();
+    } catch (error) {
+      app.log.error({ error, triggerId }, 'Failed to delete workflow trigger');
+      return reply.code(500).send({ error: 'Failed to delete workflow trigger' });
+    }
+  });
+
+  // Execution history
+  app.get('/workflows/executions', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const parsed = ExecutionQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.flatten() });
+    }
+
+    try {
+      const { executions, total } = await workflowEngine.getExecutionHistory(parsed.data);
+      return {
+        executions,
+        pagination: {
+          total,
+          limit: parsed.data.limit,
+          offset: parsed.data.offset,
+          hasMore: parsed.data.offset + executions.length < total
+        }
+      };
+    } catch (error) {
+      app.log.error({ error }, 'Failed to list workflow executions');
+      return reply.code(500).send({ error: 'Failed to list workflow executions' });
+    }
+  });
+
+  // Get an execution
+  app.get('/workflows/executions/:executionId', { preHandler: adminOnly }, async (request: FastifyRequest, reply) => {
+    const { executionId } = request.params as { executionId: string };
+
+    try {
+      const execution = await workflowEngine.getExecution(executionId);
+      if (!execution) {
+        return reply.code(404).send({ error: 'Workflow execution not found' });
+      }
+
+      return { execution };
+    } catch (error) {
+      app.log.error({ error, executionId }, 'Failed to get workflow execution');
+      return reply.code(500).send({ error: 'Failed to get workflow execution' });
+    }
+  });
+
+  app.addHook('onClose', async () => {
+    await workflowEngine.cleanup();
+  });
+}
@@ -12,6 +12,8 @@ import prismaPlugin from "./plugins/prisma";
 import readiness from "./plugins/readiness";
 import securityPlugin from "./plugins/security";
 import validationPlugin from "./plugins/validation";
+import websocketManagerPlugin from "./plugins/websocket-manager";
+import { SessionService } from "./lib/session";
 import healthRoutes from "./routes/health";
 import echoRoutes from "./routes/echo";
 import authRoutes from "./routes/auth";
@@ -24,16 +26,24 @@ import paymentRoutes from './routes/payments';
 import indexerRoutes from './routes/indexer';
 import websocketRoutes from './routes/websocket';
 import analyticsRoutes from './routes/analytics';
-// import rolesRoutes from './routes/roles'; // Commented out - depends on FinanceRole model
-// Comprehensive finance routes (commented out - models not implemented in current schema)
-// import { vendorRoutes } from './routes/vendors';
-// import { contractRoutes } from './routes/contracts';
-// import { invoiceRoutes } from './routes/invoices';
-// import { financePaymentRoutes } from './routes/finance-payments';
-// import { reconciliationRoutes } from './routes/reconciliation';
-// import { governanceRoutes } from './routes/governance';
-// import { financeLoopRoutes } from './routes/finance-loop';
-// import { financeIntegrityRoutes } from './routes/finance-integrity';
+import workflowRoutes from './routes/workflows';
+import auditRoutes from './routes/audit';
+import marketplaceRoutes from './routes/marketplace';
+import liftForwardRoutes from './routes/lift-forwards';
+import apiTokenRoutes from './routes/api-tokens';
+import sanctionsRoutes from './routes/sanctions';
+import rolesRoutes from './routes/roles';
+import { vendorRoutes } from './routes/vendors';
+import { vendorPortalRoutes } from './routes/vendor-portal';
+import { contractRoutes } from './routes/contracts';
+import { invoiceRoutes } from './routes/invoices';
+import { financePaymentRoutes } from './routes/finance-payments';
+import { reconciliationRoutes } from './routes/reconciliation';
+import { governanceRoutes } from './routes/governance';
+import { financeLoopRoutes } from './routes/finance-loop';
+import { financeIntegrityRoutes } from './routes/finance-integrity';
+import { accountingRoutes } from './routes/accounting';
+import { fxRateRoutes } from './routes/fx-rates';
 
 
 // Simple Fastify instance without Zod type provider
@@ -117,10 +127,23 @@ await app.register(jwt, {
   cookie: { cookieName: "session", signed: false },
 });
 await app.register(websocket);
+await app.register(websocketManagerPlugin);
+
+const sessionService = new SessionService(app);
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
 
 app.decorate("authenticate", async function (req: any, reply: any) {
   try {
-    await req.jwtVerify();
+    const payload = await req.jwtVerify();
+    const result = await sessionService.validateSession(payload.sid);
+    if (!result.valid) {
+      return reply.code(401).send({ error: result.reason === "revoked" ? "Session revoked" : "Session expired or invalid" });
+    }
+
+    const lastSeenAt = result.session.lastSeenAt?.getTime() ?? 0;
+    if (Date.now() - lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+      await sessionService.touchSession(result.session.id);
+    }
   } catch (err) {
     return reply.send(err);
   }
@@ -136,6 +159,7 @@ await app.register(readiness);
 await app.register(healthRoutes);
 //await app.register(echoRoutes);
 await app.register(authRoutes, { prefix: '/api' });
+await app.register(apiTokenRoutes, { prefix: '/api' });
 await app.register(projectsRoutes, { prefix: '/api' });
 await app.register(liftTokenRoutes, { prefix: '/api' });
 await app.register(blockchainRoutes, { prefix: '/api' });
@@ -144,16 +168,28 @@ await app.register(paymentRoutes, { prefix: '/api' });
 await app.register(indexerRoutes, { prefix: '/api' });
 await app.register(websocketRoutes, { prefix: '/api' });
 await app.register(analyticsRoutes, { prefix: '/api' });
-// await app.register(rolesRoutes, { prefix: '/api' }); // Commented out - depends on FinanceRole model
-// Comprehensive finance routes (commented out - models not implemented in current schema)
-// await app.register(vendorRoutes, { prefix: '/api/vendors' });
-// await app.register(contractRoutes, { prefix: '/api/contracts' });
-// await app.register(invoiceRoutes, { prefix: '/api/invoices' });
-// await app.register(financePaymentRoutes, { prefix: '/api/finance' });
-// await app.register(reconciliationRoutes, { prefix: '/api/reconciliation' });
-// await app.register(governanceRoutes, { prefix: '/api' });
-// await app.register(financeLoopRoutes, { prefix: '/api/finance' });
-// await app.register(financeIntegrityRoutes, { prefix: '/api/finance' });
+await app.register(workflowRoutes, { prefix: '/api' });
+await app.register(auditRoutes, { prefix: '/api' });
+await app.register(marketplaceRoutes, { prefix: '/api' });
+await app.register(liftForwardRoutes, { prefix: '/api' });
+await app.register(sanctionsRoutes, { prefix: '/api' });
+
+// Finance routes (roles, vendors, contracts, invoices, payments, reconciliation,
+// governance) stay off until the finance migrations have been applied
+if (env.FINANCE_ROUTES_ENABLED) {
+  await app.register(rolesRoutes, { prefix: '/api' });
+  await app.register(vendorRoutes, { prefix: '/api/vendors' });
+  await app.register(vendorPortalRoutes, { prefix: '/api/vendor-portal' });
+  await app.register(contractRoutes, { prefix: '/api/contracts' });
+  await app.register(invoiceRoutes, { prefix: '/api/invoices' });
+  await app.register(financePaymentRoutes, { prefix: '/api/finance' });
+  await app.register(reconciliationRoutes, { prefix: '/api/reconciliation' });
+  await app.register(governanceRoutes, { prefix: '/api' });
+  await app.register(financeLoopRoutes, { prefix: '/api/finance' });
+  await app.register(financeIntegrityRoutes, { prefix: '/api/finance' });
+  await app.register(accountingRoutes, { prefix: '/api/accounting' });
+  await app.register(fxRateRoutes, { prefix: '/api/finance' });
+}
 
 // Cost tracking routes
 import costTrackingRoutes from './routes/cost-tracking.js';
@@ -23,16 +23,22 @@ export function getEnv() {
     SIWE_ORIGIN: process.env.SIWE_ORIGIN ?? 'http://localhost:3000',
     SIWE_SESSION_TTL: process.env.SIWE_SESSION_TTL ?? '604800',
     
+    // Personal access tokens and service API keys
+    API_TOKEN_DEFAULT_TTL_DAYS: Number(process.env.API_TOKEN_DEFAULT_TTL_DAYS ?? 90),
+    API_TOKEN_MAX_TTL_DAYS: Number(process.env.API_TOKEN_MAX_TTL_DAYS ?? 365),
+    
     // Blockchain Configuration
     DEFAULT_CHAIN_ID: Number(process.env.DEFAULT_CHAIN_ID ?? 1), // Ethereum mainnet
     RPC_URL_MAINNET: process.env.RPC_URL_MAINNET,
     RPC_URL_SEPOLIA: process.env.RPC_URL_SEPOLIA,
     RPC_URL_POLYGON: process.env.RPC_URL_POLYGON,
     RPC_URL_ARBITRUM: process.env.RPC_URL_ARBITRUM,
+    RPC_URL_LOCAL: process.env.RPC_URL_LOCAL, // e.g. anvil at http://127.0.0.1:8545 (chain 31337)
     
     // Contract Addresses
     ORNA_TOKEN_ADDRESS: process.env.ORNA_TOKEN_ADDRESS,
     LIFT_TOKENS_ADDRESS: process.env.LIFT_TOKENS_ADDRESS,
+    PROJECT_NFT_ADDRESS: process.env.PROJECT_NFT_ADDRESS,
     
     // Escrow Contract Addresses
     REPAYMENT_ESCROW_ADDRESS: process.env.REPAYMENT_ESCROW_ADDRESS,
@@ -59,6 +65,7 @@ export function getEnv() {
     INDEXER_BATCH_SIZE: Number(process.env.INDEXER_BATCH_SIZE ?? 1000),
     INDEXER_POLL_INTERVAL: Number(process.env.INDEXER_POLL_INTERVAL ?? 30000), // 30 seconds
     INDEXER_CONFIRMATION_BLOCKS: Number(process.env.INDEXER_CONFIRMATION_BLOCKS ?? 12),
+    INDEXER_BACKFILL_MAX_BLOCKS: Number(process.env.INDEXER_BACKFILL_MAX_BLOCKS ?? 1000000),
     
     // Notification Configuration
     EMAIL_NOTIFICATIONS_ENABLED: process.env.EMAIL_NOTIFICATIONS_ENABLED === 'true',
@@ -89,6 +96,40 @@ export function getEnv() {
     RATE_LIMIT_WINDOW_MS: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 900000), // 15 minutes
     RATE_LIMIT_MAX_REQUESTS: Number(process.env.RATE_LIMIT_MAX_REQUESTS ?? 100),
     
+    // Audit Trail Anchoring
+    AUDIT_ANCHOR_CHAIN_ID: Number(process.env.AUDIT_ANCHOR_CHAIN_ID ?? process.env.DEFAULT_CHAIN_ID ?? 1),
+    AUDIT_ANCHOR_INTERVAL_MS: Number(process.env.AUDIT_ANCHOR_INTERVAL_MS ?? 600000), // 10 minutes
+    AUDIT_ANCHOR_BATCH_SIZE: Number(process.env.AUDIT_ANCHOR_BATCH_SIZE ?? 1024),
+    
+    // Treasury Safe used for SAFE_MULTISIG disbursements
+    TREASURY_SAFE_ADDRESS: process.env.TREASURY_SAFE_ADDRESS,
+    TREASURY_SAFE_CHAIN_ID: Number(process.env.TREASURY_SAFE_CHAIN_ID ?? process.env.DEFAULT_CHAIN_ID ?? 1),
+    TREASURY_SAFE_TOKEN_ADDRESS: process.env.TREASURY_SAFE_TOKEN_ADDRESS, // USDC on the Safe's chain
+    SAFE_PROPOSER_PRIVATE_KEY: process.env.SAFE_PROPOSER_PRIVATE_KEY, // Owner key that proposes and signs first
+    
+    // Finance, vendor and governance routes (requires the finance migrations)
+    FINANCE_ROUTES_ENABLED: process.env.FINANCE_ROUTES_ENABLED === 'true',
+    ROLE_EXPIRY_SWEEP_INTERVAL_MS: Number(process.env.ROLE_EXPIRY_SWEEP_INTERVAL_MS ?? 300000), // 5 minutes
+    
+    // Currency that deposits, invoices and disbursements snapshot FX rates into
+    FINANCE_BASE_CURRENCY: (process.env.FINANCE_BASE_CURRENCY ?? 'USD').toUpperCase(),
+    
+    // AES-256-GCM key (32 bytes, base64) for TINs and bank account numbers
+    FIELD_ENCRYPTION_KEY: process.env.FIELD_ENCRYPTION_KEY,
+    
+    // Vendor Portal
+    VENDOR_PORTAL_URL: process.env.VENDOR_PORTAL_URL ?? 'http://localhost:3000/vendor-portal',
+    VENDOR_INVITE_TTL_DAYS: Number(process.env.VENDOR_INVITE_TTL_DAYS ?? 14),
+
+    // Sanctions Screening (OFAC SDN and consolidated XML dropped into a local directory)
+    SANCTIONS_LIST_DIR: process.env.SANCTIONS_LIST_DIR,
+    SANCTIONS_IMPORT_INTERVAL_MS: Number(process.env.SANCTIONS_IMPORT_INTERVAL_MS ?? 3600000), // 1 hour
+    SANCTIONS_NAME_THRESHOLD: Number(process.env.SANCTIONS_NAME_THRESHOLD ?? 0.9),
+    SANCTIONS_MAX_LIST_AGE_DAYS: Number(process.env.SANCTIONS_MAX_LIST_AGE_DAYS ?? 7), // 0 disables the staleness check
+
+    // Lift Forward Settlement
+    LIFT_FORWARD_SETTLEMENT_INTERVAL_MS: Number(process.env.LIFT_FORWARD_SETTLEMENT_INTERVAL_MS ?? 300000), // 5 minutes
+    
     // Monitoring and Logging
     LOG_LEVEL: process.env.LOG_LEVEL ?? 'info',
     SENTRY_DSN: process.env.SENTRY_DSN,
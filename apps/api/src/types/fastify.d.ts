@@ -1,4 +1,5 @@
 import { WebSocketManager } from '../lib/websocket-manager';
+import type { ApiTokenSummary } from '../lib/api-tokens';
 // import { RoleContext } from '../lib/rbac'; // Commented out - finance system not implemented
 
 declare module 'fastify' {
@@ -7,11 +8,19 @@ declare module 'fastify' {
   }
 
   interface FastifyRequest {
-    user?: {
+    apiToken?: ApiTokenSummary; // Set when authenticated with an API token rather than a session
+    // roleContext?: RoleContext; // Commented out - finance system not implemented
+  }
+}
+
+// request.user is owned by @fastify/jwt; sessions and API tokens both fill it
+// with the wallet's user id and address
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    user: {
       userId: number;
       address: string;
       chainId?: number;
     };
-    // roleContext?: RoleContext; // Commented out - finance system not implemented
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+// apps/api/tests/unit/accounting-export.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountingExportService, renderAccountingExport, ExportJournal } from '../../src/lib/accounting-export';
+
+const journal: ExportJournal = {
+  journalId: 'INV-7',
+  sourceType: 'INVOICE',
+  sourceId: 7,
+  date: new Date('2026-10-05T15:00:00Z'),
+  reference: 'INV-2026-007',
+  memo: 'Invoice INV-2026-007 from Acme, Inc.',
+  lines: [
+    { accountCode: '6100', accountName: 'Site Work', debitCents: 125050n, creditCents: 0n, description: '1.2 Grading' },
+    { accountCode: '2000', accountName: 'Accounts Payable', subledger: 'Acme, Inc.', debitCents: 0n, creditCents: 125050n, description: 'Invoice INV-2026-007' },
+  ],
+};
+
+describe('accounting export formats', () => {
+  it('writes QuickBooks IIF general journal transactions', () => {
+    const { content } = renderAccountingExport('QUICKBOOKS_IIF', [journal]);
+
+    expect(content.split('\r\n')).toEqual([
+      '!TRNS\tTRNSID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+      '!SPL\tSPLID\tTRNSTYPE\tDATE\tACCNT\tNAME\tAMOUNT\tDOCNUM\tMEMO',
+      '!ENDTRNS',
+      'TRNS\t\tGENERAL JOURNAL\t10/05/2026\tSite Work\t\t1250.50\tINV-2026-007\t1.2 Grading',
+      'SPL\t\tGENERAL JOURNAL\t10/05/2026\tAccounts Payable\tAcme, Inc.\t-1250.50\tINV-2026-007\tInvoice INV-2026-007',
+      'ENDTRNS',
+      '',
+    ]);
+  });
+
+  it('writes Xero manual journal and generic GL CSV with quoting', () => {
+    const xero = renderAccountingExport('XERO_CSV', [journal]).content.split('\r\n');
+    expect(xero[0]).toBe('*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount');
+    expect(xero[2]).toBe('"INV-7 Invoice INV-2026-007 from Acme, Inc.",10/05/2026,"Invoice INV-2026-007 (Acme, Inc.)",2000,Tax Exempt,-1250.50');
+
+    const gl = renderAccountingExport('GL_CSV', [journal]).content.split('\r\n');
+    expect(gl[1]).toBe('INV-7,2026-10-05,6100,Site Work,,1250.50,,1.2 Grading,INV-2026-007,INVOICE,7');
+    expect(gl[2]).toBe('INV-7,2026-10-05,2000,Accounts Payable,"Acme, Inc.",,1250.50,Invoice INV-2026-007,INV-2026-007,INVOICE,7');
+  });
+});
+
+describe('AccountingExportService', () => {
+  const vendor = { id: 3, name: 'Acme, Inc.' };
+  let items: any[];
+  let prisma: any;
+  let service: AccountingExportService;
+
+  beforeEach(() => {
+    items = [];
+    prisma = {
+      accountMapping: {
+        findMany: vi.fn(async () => [
+          { mappingType: 'WBS', sourceKey: '1.2', accountCode: '6100', accountName: 'Site Work' },
+          { mappingType: 'VENDOR', sourceKey: '3', accountCode: '2010', accountName: 'AP - Contractors', subledger: 'ACME' },
+          { mappingType: 'DEFAULT', sourceKey: 'CASH', accountCode: '1000', accountName: 'Operating Cash' },
+        ]),
+      },
+      invoice: {
+        findMany: vi.fn(async () => [{
+          id: 7,
+          invoiceNumber: 'INV-2026-007',
+          approvedAt: new Date('2026-10-05T00:00:00Z'),
+          vendor,
+          invoiceCoding: [{ amountCents: 100000n, accountCode: null, description: null, budgetLine: { wbsCode: '1.2', description: 'Grading' } }],
+        }]),
+      },
+      disbursement: {
+        findMany: vi.fn(async () => [{
+          id: 11,
+          disbursementNumber: 'DISB-11',
+          amountCents: 95000n,
+          reconciledDate: new Date('2026-10-20T00:00:00Z'),
+          invoice: { invoiceNumber: 'INV-2026-007', vendor },
+        }]),
+      },
+      accountingExportItem: {
+        findMany: vi.fn(async () => items),
+      },
+      accountingExport: {
+        create: vi.fn(async ({ data }: any) => {
+          items.push(...data.items.create);
+          return { id: 1, createdAt: new Date(), ...data };
+        }),
+      },
+    };
+    service = new AccountingExportService(prisma);
+  });
+
+  const request = {
+    projectId: 1,
+    format: 'GL_CSV' as const,
+    periodStart: new Date('2026-10-01T00:00:00Z'),
+    periodEnd: new Date('2026-10-31T23:59:59Z'),
+    exportedBy: 'controller',
+  };
+
+  it('maps WBS and vendor accounts and marks entries as exported', async () => {
+    const result = await service.createExport(request);
+
+    expect(result.journals.map(j => j.lines.map(l => [l.accountCode, l.subledger, l.debitCents, l.creditCents]))).toEqual([
+      [['6100', undefined, 100000n, 0n], ['2010', 'ACME', 0n, 100000n]],
+      [['2010', 'ACME', 95000n, 0n], ['1000', undefined, 0n, 95000n]],
+    ]);
+    expect(items.map(i => [i.sourceType, i.sourceId, i.amountCents])).toEqual([
+      ['INVOICE', 7, 100000n],
+      ['DISBURSEMENT', 11, 95000n],
+    ]);
+    expect(result.fileName).toBe('project-1-2026-10-01-2026-10-31-gl_csv.csv');
+  });
+
+  it('never exports the same entries twice', async () => {
+    await service.createExport(request);
+
+    await expect(service.createExport({ ...request, format: 'XERO_CSV' }))
+      .rejects.toThrow('No unexported entries for project 1 between 2026-10-01 and 2026-10-31 (2 already exported)');
+    expect(prisma.accountingExport.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports every missing mapping at once', async () => {
+    prisma.accountMapping.findMany.mockResolvedValue([]);
+
+    await expect(service.createExport({ ...request, dryRun: true }))
+      .rejects.toThrow('Missing account mappings for project 1: DEFAULT ACCOUNTS_PAYABLE, WBS 1.2, DEFAULT CASH');
+  });
+});
@@ -0,0 +1,167 @@
+// apps/api/tests/unit/bank-statements.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseBankStatementFile } from '../../src/lib/bank-statements';
+
+describe('bank statement parsers', () => {
+  it('parses BAI2 transaction details with funds types and continuations', async () => {
+    const bai2 = [
+      '01,021000021,ORENNA,261020,0600,1,,,2/',
+      '02,ORENNA,021000021,1,261019,2400,USD,2/',
+      '03,000123456789,USD,010,5000000,,,040,4865050,,/',
+      '16,475,125050,Z,ACH0001,PAY-101,VENDOR 101 PAYMENT/',
+      '16,195,10000,V,261018,1200,WIRE77,,INCOMING WIRE, REF/',
+      '88,ACME CORP/',
+      '16,555,9900,D,2,0,4900,1,5000,RET9,PAY-102,RETURNED ITEM/',
+      '16,890,100,Z,INFO1,,MEMO ONLY/',
+      '49,9965050,6/',
+      '98,9965050,1,8/',
+      '99,9965050,1,10/',
+    ].join('\n');
+
+    const statements = await parseBankStatementFile('BAI2', bai2);
+
+    expect(statements).toHaveLength(3);
+    expect(statements[0]).toEqual({
+      transactionId: 'ACH0001',
+      date: new Date(Date.UTC(2026, 9, 19)),
+      amount: 1250.5,
+      description: 'VENDOR 101 PAYMENT',
+      reference: 'PAY-101',
+      accountNumber: '000123456789',
+      type: 'DEBIT',
+      status: 'CLEARED',
+    });
+    expect(statements[1]).toMatchObject({
+      transactionId: 'WIRE77',
+      date: new Date(Date.UTC(2026, 9, 18, 12)),
+      description: 'INCOMING WIRE, REF,ACME CORP',
+      reference: undefined,
+      type: 'CREDIT',
+    });
+    expect(statements[2]).toMatchObject({ transactionId: 'RET9', amount: 99, reference: 'PAY-102', status: 'RETURNED' });
+  });
+
+  it('rejects BAI2 details outside an account', async () => {
+    await expect(parseBankStatementFile('BAI2', '01,A,B,261020,0600,1,,,2/\n16,475,100,Z,X,Y/'))
+      .rejects.toThrow('Transaction detail outside an account at line 2');
+  });
+
+  it('parses camt.053 entries and splits batched transaction details', async () => {
+    const camt = `<?xml version="1.0" encoding="UTF-8"?>
+      <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+        <BkToCstmrStmt>
+          <GrpHdr><MsgId>MSG1</MsgId></GrpHdr>
+          <Stmt>
+            <Id>STMT-20261019</Id>
+            <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+            <Ntry>
+              <NtryRef>E1</NtryRef>
+              <Amt Ccy="USD">1250.50</Amt>
+              <CdtDbtInd>DBIT</CdtDbtInd>
+              <Sts><Cd>BOOK</Cd></Sts>
+              <BookgDt><Dt>2026-10-19</Dt></BookgDt>
+              <AcctSvcrRef>BANK-E1</AcctSvcrRef>
+              <NtryDtls><TxDtls>
+                <Refs><EndToEndId>PAY-101</EndToEndId></Refs>
+                <RmtInf><Ustrd>Invoice 101 &amp; fees</Ustrd></RmtInf>
+              </TxDtls></NtryDtls>
+            </Ntry>
+            <Ntry>
+              <Amt Ccy="USD">300.00</Amt>
+              <CdtDbtInd>DBIT</CdtDbtInd>
+              <Sts><Cd>BOOK</Cd></Sts>
+              <BookgDt><DtTm>2026-10-19T15:30:00Z</DtTm></BookgDt>
+              <NtryDtls>
+                <TxDtls>
+                  <Refs><AcctSvcrRef>BANK-B1</AcctSvcrRef><EndToEndId>NOTPROVIDED</EndToEndId><InstrId>INSTR-1</InstrId></Refs>
+                  <AmtDtls><TxAmt><Amt Ccy="USD">100.00</Amt></TxAmt></AmtDtls>
+                </TxDtls>
+                <TxDtls>
+                  <Refs><EndToEndId>PAY-103</EndToEndId></Refs>
+                  <Amt Ccy="USD">200.00</Amt>
+                  <RtrInf><Rsn><Cd>AC04</Cd></Rsn></RtrInf>
+                </TxDtls>
+              </NtryDtls>
+            </Ntry>
+            <Ntry>
+              <Amt Ccy="USD">50.00</Amt>
+              <CdtDbtInd>CRDT</CdtDbtInd>
+              <Sts>PDNG</Sts>
+              <ValDt><Dt>2026-10-20</Dt></ValDt>
+              <AddtlNtryInf><![CDATA[Interest <Q4>]]></AddtlNtryInf>
+            </Ntry>
+          </Stmt>
+        </BkToCstmrStmt>
+      </Document>`;
+
+    const statements = await parseBankStatementFile('CAMT053', camt);
+
+    expect(statements.map(s => [s.transactionId, s.amount, s.reference, s.type, s.status])).toEqual([
+      ['BANK-E1', 1250.5, 'PAY-101', 'DEBIT', 'CLEARED'],
+      ['BANK-B1', 100, 'INSTR-1', 'DEBIT', 'CLEARED'],
+      ['STMT-20261019-2-2', 200, 'PAY-103', 'DEBIT', 'RETURNED'],
+      ['STMT-20261019-3', 50, undefined, 'CREDIT', 'PENDING'],
+    ]);
+    expect(statements[0]).toMatchObject({
+      date: new Date(Date.UTC(2026, 9, 19)),
+      description: 'Invoice 101 & fees',
+      accountNumber: 'DE89370400440532013000',
+    });
+    expect(statements[3].description).toBe('Interest <Q4>');
+  });
+
+  it('rejects XML that is not a camt.053 statement', async () => {
+    await expect(parseBankStatementFile('CAMT053', '<Document><Other/></Document>')).rejects.toThrow('Not a camt.053 file');
+    await expect(parseBankStatementFile('CAMT053', '<Document><BkToCstmrStmt></Document>')).rejects.toThrow('Malformed XML');
+  });
+
+  it('maps CSV columns with signed or split amounts', async () => {
+    const signed = [
+      'Posted,Details,Amount,Ref,Status',
+      '10/19/2026,VENDOR 101,"-1,250.50",PAY-101,Posted',
+      '10/19/2026,Refund,(99.00),PAY-102,Returned',
+      '10/20/2026,Deposit,$500.00,,Pending',
+    ].join('\n');
+
+    const statements = await parseBankStatementFile('CSV', signed, {
+      csvMapping: {
+        dateColumn: 'Posted',
+        dateFormat: 'MM/DD/YYYY',
+        descriptionColumn: 'Details',
+        amountColumn: 'Amount',
+        referenceColumn: 'Ref',
+        statusColumn: 'Status',
+        accountNumber: '000123456789',
+      },
+    });
+
+    expect(statements.map(s => [s.amount, s.type, s.status, s.reference])).toEqual([
+      [1250.5, 'DEBIT', 'CLEARED', 'PAY-101'],
+      [99, 'DEBIT', 'RETURNED', 'PAY-102'],
+      [500, 'CREDIT', 'PENDING', undefined],
+    ]);
+    expect(statements[0]).toMatchObject({
+      transactionId: '000123456789-2026-10-19-2',
+      date: new Date(Date.UTC(2026, 9, 19)),
+      accountNumber: '000123456789',
+    });
+
+    const split = await parseBankStatementFile('CSV', 'Date;Memo;Debit;Credit;Account\n19/10/2026;Fee;1.012,00;;42\n', {
+      csvMapping: {
+        delimiter: ';',
+        decimalSeparator: ',',
+        dateColumn: 'Date',
+        dateFormat: 'DD/MM/YYYY',
+        descriptionColumn: 'Memo',
+        debitColumn: 'Debit',
+        creditColumn: 'Credit',
+        accountNumberColumn: 'Account',
+      },
+    });
+    expect(split[0]).toMatchObject({ amount: 1012, type: 'DEBIT', accountNumber: '42' });
+
+    await expect(parseBankStatementFile('CSV', 'Date,Memo,Amount\n2026-13-01,x,1\n', {
+      csvMapping: { dateColumn: 'Date', descriptionColumn: 'Memo', amountColumn: 'Amount', accountNumber: '1' },
+    })).rejects.toThrow('Invalid date "2026-13-01" at line 2');
+  });
+});
@@ -0,0 +1,115 @@
+// apps/api/tests/unit/carbon-methodology.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import { CarbonSequestrationMethodologyHandler } from '../../src/lib/verification/carbon';
+import { VWBAMethodologyHandler } from '../../src/lib/verification/vwba';
+import { VerificationService } from '../../src/lib/verification';
+
+const request = {
+  liftTokenId: 1,
+  methodId: 'carbon-sequestration-v1',
+  validatorAddress: '0x1234567890123456789012345678901234567890'
+};
+
+function evidenceFile(id: number, evidenceType: string, metadata: Record<string, any>): any {
+  return { id, evidenceType, fileName: `${evidenceType.toLowerCase()}.json`, fileHash: `hash${id}`, metadata };
+}
+
+const plot = (plotId: string, dbh: number) => ({
+  plotId,
+  plotArea: 0.1,
+  trees: Array.from({ length: 40 }, () => ({ dbh, height: 18, woodDensity: 0.55 }))
+});
+
+function carbonEvidence(overrides: Record<string, Record<string, any>> = {}): any[] {
+  return [
+    evidenceFile(1, 'FOREST_INVENTORY_DATA', {
+      projectArea: 100,
+      plots: [plot('p1', 24), plot('p2', 25), plot('p3', 26)],
+      ...overrides.inventory
+    }),
+    evidenceFile(2, 'SOIL_SAMPLE_DATA', {
+      samples: [
+        { organicCarbonPercent: 2.0, bulkDensity: 1.3, depth: 30 },
+        { organicCarbonPercent: 2.2, bulkDensity: 1.25, depth: 30 },
+        { organicCarbonPercent: 1.9, bulkDensity: 1.35, depth: 30, coarseFragmentPercent: 5 }
+      ],
+      ...overrides.soil
+    }),
+    evidenceFile(3, 'BASELINE_ASSESSMENT', {
+      baselineBiomassCarbon: 5000,
+      baselineSoilCarbon: 25000,
+      ...overrides.baseline
+    }),
+    evidenceFile(4, 'LEAKAGE_ASSESSMENT', { leakageRate: 0.1, ...overrides.leakage }),
+    evidenceFile(5, 'GPS_COORDINATES', { latitude: -3.4, longitude: -62.2 })
+  ];
+}
+
+describe('CarbonSequestrationMethodologyHandler', () => {
+  const handler = new CarbonSequestrationMethodologyHandler();
+
+  it('applies the Chave 2014 allometry and fixed-depth soil carbon', () => {
+    expect(handler.calculateTreeBiomass({ dbh: 25, height: 18, woodDensity: 0.55 }, 0.6))
+      .toBeCloseTo(0.0673 * Math.pow(0.55 * 25 * 25 * 18, 0.976), 6);
+    expect(handler.calculateSoilCarbon({ organicCarbonPercent: 2, bulkDensity: 1.3, depth: 30 })).toBeCloseTo(78, 6);
+    expect(handler.calculateSoilCarbon({ organicCarbonPercent: 2, bulkDensity: 1.3, depth: 30, coarseFragmentPercent: 10 }))
+      .toBeCloseTo(70.2, 6);
+  });
+
+  it('rejects submissions missing required evidence', async () => {
+    const result = await handler.validate(request, carbonEvidence().slice(0, 3));
+
+    expect(result.verified).toBe(false);
+    expect(result.notes).toContain('LEAKAGE_ASSESSMENT');
+  });
+
+  it('computes net removals with leakage and buffer deductions', async () => {
+    const result = await handler.validate(request, carbonEvidence());
+    const calc = result.calculationData.calculation;
+
+    expect(result.verified).toBe(true);
+    expect(result.calculationData.units).toBe('tCO2e');
+    expect(calc.netRemovals).toBeCloseTo(calc.biomassCarbonStock + calc.soilCarbonStock - 30000, 6);
+    expect(calc.leakageDeduction).toBeCloseTo(calc.netRemovals * 0.1, 6);
+    // Default 20% buffer applies after leakage
+    expect(calc.bufferContribution).toBeCloseTo(calc.netRemovals * 0.9 * 0.2, 6);
+    expect(calc.issuableRemovals).toBeCloseTo(calc.netRemovals * 0.9 * 0.8, 6);
+    expect(result.calculationData.carbonRemovals).toBe(calc.issuableRemovals);
+  });
+
+  it('does not verify when stocks do not exceed the baseline', async () => {
+    const result = await handler.validate(request, carbonEvidence({ baseline: { baselineSoilCarbon: 10_000_000 } }));
+
+    expect(result.verified).toBe(false);
+    expect(result.calculationData.calculation.issuableRemovals).toBe(0);
+  });
+
+  it('reports invalid inventory data as validation errors', async () => {
+    const result = await handler.validate(request, carbonEvidence({
+      inventory: { plots: [{ plotArea: 0.1, trees: [{ dbh: 0 }] }] },
+      leakage: { leakageRate: 0.9 }
+    }));
+
+    expect(result.verified).toBe(false);
+    expect(result.calculationData.validationErrors).toHaveLength(2);
+  });
+});
+
+describe('VerificationService methodology selection', () => {
+  const logger: any = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  const service = new VerificationService({} as any, logger, {
+    maxFileSize: 1024,
+    allowedMimeTypes: [],
+    confidenceThreshold: 0.8
+  });
+  service.registerMethodology(new VWBAMethodologyHandler());
+  service.registerMethodology(new CarbonSequestrationMethodologyHandler());
+
+  it('selects the handler from the method\'s methodologyType', () => {
+    expect(service.getMethodologyHandler({ methodId: 'acme-reforestation', methodologyType: 'carbon' }))
+      .toBeInstanceOf(CarbonSequestrationMethodologyHandler);
+    expect(service.getMethodologyHandler({ methodId: 'vwba-v2', methodologyType: 'CARBON' }))
+      .toBeInstanceOf(VWBAMethodologyHandler);
+    expect(service.getMethodologyHandler({ methodId: 'custom', methodologyType: 'CUSTOM' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+// apps/api/tests/unit/cron.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseCron, isValidCron, matchesCron, nextCronRun, CronParseError } from '../../src/lib/cron';
+
+describe('cron', () => {
+  it('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17 * jan,jul mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 2 * *')).toThrow(CronParseError);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('0 5-1 * * *')).toBe(false);
+    expect(isValidCron('0 2 * * *')).toBe(true);
+  });
+
+  it('matches the daily 2 AM schedule in the configured timezone', () => {
+    const schedule = parseCron('0 2 * * *');
+
+    expect(matchesCron(schedule, new Date('2026-10-19T02:00:30Z'))).toBe(true);
+    expect(matchesCron(schedule, new Date('2026-10-19T02:01:00Z'))).toBe(false);
+    // 02:00 in New York is 06:00 UTC during daylight saving time
+    expect(matchesCron(schedule, new Date('2026-10-19T06:00:00Z'), 'America/New_York')).toBe(true);
+  });
+
+  it('treats restricted day-of-month and day-of-week as either-or', () => {
+    const schedule = parseCron('0 0 1 * sun');
+
+    expect(matchesCron(schedule, new Date('2026-10-01T00:00:00Z'))).toBe(true); // Thursday the 1st
+    expect(matchesCron(schedule, new Date('2026-10-18T00:00:00Z'))).toBe(true); // Sunday
+    expect(matchesCron(schedule, new Date('2026-10-19T00:00:00Z'))).toBe(false);
+  });
+
+  it('computes the next run strictly after the given time', () => {
+    const schedule = parseCron('0 2 * * *');
+
+    expect(nextCronRun(schedule, new Date('2026-10-19T01:59:00Z'))).toEqual(new Date('2026-10-19T02:00:00Z'));
+    expect(nextCronRun(schedule, new Date('2026-10-19T02:00:00Z'))).toEqual(new Date('2026-10-20T02:00:00Z'));
+    expect(nextCronRun(parseCron('0 0 29 2 *'), new Date('2026-10-19T00:00:00Z'))).toEqual(new Date('2028-02-29T00:00:00Z'));
+  });
+});
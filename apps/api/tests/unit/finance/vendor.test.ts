@@ -210,6 +210,13 @@ describe('VendorService', () => {
   });
 
   describe('runSanctionsCheck', () => {
+    const screening = { screen: vi.fn() };
+
+    beforeEach(() => {
+      vendorService = new VendorService(prismaMock, screening as any);
+      prismaMock.vendorTaxForm.findFirst.mockResolvedValue(null);
+    });
+
     it('should perform sanctions check and update compliance status', async () => {
       const vendorId = 1;
 
@@ -219,13 +226,7 @@ describe('VendorService', () => {
         legalName: 'Test Vendor LLC',
       } as any);
 
-      // Mock external sanctions API response
-      const mockSanctionsResult = {
-        vendorId,
-        sanctionsStatus: 'CLEAR' as const,
-        checkedAt: new Date(),
-        results: { ofacMatches: 0, euMatches: 0, unMatches: 0 },
-      };
+      screening.screen.mockResolvedValue({ decision: 'CLEAR', hits: [], screenedAt: new Date() });
 
       prismaMock.vendor.update.mockResolvedValue({
         id: vendorId,
@@ -235,6 +236,11 @@ describe('VendorService', () => {
       const result = await vendorService.runSanctionsCheck(vendorId);
 
       expect(result.sanctionsStatus).toBe('CLEAR');
+      expect(screening.screen).toHaveBeenCalledWith(expect.objectContaining({
+        subjectType: 'VENDOR',
+        subjectRef: '1',
+        names: expect.arrayContaining(['Test Vendor', 'Test Vendor LLC']),
+      }));
       expect(prismaMock.vendor.update).toHaveBeenCalledWith({
         where: { id: vendorId },
         data: {
@@ -251,14 +257,14 @@ describe('VendorService', () => {
         id: vendorId,
         name: 'Flagged Vendor',
         legalName: 'Flagged Vendor LLC',
+        cryptoAddress: '0x7f367cc41522ce07553e823bf3be79a889debe1b',
       } as any);
 
-      // Mock sanctions API with matches
-      vi.spyOn(vendorService as any, 'checkSanctionsLists').mockResolvedValue({
-        ofacMatches: 1,
-        euMatches: 0,
-        unMatches: 0,
-        details: ['OFAC SDN List match found'],
+      // Listed wallet address
+      screening.screen.mockResolvedValue({
+        decision: 'BLOCK',
+        hits: [{ id: 3, source: 'SDN', matchType: 'ADDRESS', action: 'BLOCK' }],
+        screenedAt: new Date(),
       });
 
       prismaMock.vendor.update.mockResolvedValue({
@@ -269,6 +275,7 @@ describe('VendorService', () => {
       const result = await vendorService.runSanctionsCheck(vendorId);
 
       expect(result.sanctionsStatus).toBe('FLAGGED');
+      expect(result.hits).toHaveLength(1);
       expect(prismaMock.vendor.update).toHaveBeenCalledWith({
         where: { id: vendorId },
         data: {
@@ -277,6 +284,10 @@ describe('VendorService', () => {
         },
       });
     });
+
+    it('should refuse to report clear without a screening service', async () => {
+      await expect(new VendorService(prismaMock).runSanctionsCheck(1)).rejects.toThrow('Sanctions screening is not configured');
+    });
   });
 
   describe('checkDocumentExpiry', () => {
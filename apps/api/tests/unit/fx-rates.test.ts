@@ -0,0 +1,105 @@
+// apps/api/tests/unit/fx-rates.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { FxRateService } from '../../src/lib/fx-rates';
+import { add, convert, formatMoney, fromCents, parseMoney, rescale, toDecimalString } from '../../src/adapters/finance';
+
+describe('money amounts', () => {
+  it('parses and formats exactly at the currency scale', () => {
+    expect(parseMoney('1234.5', 'EUR')).toEqual({ amount: 123450n, currency: 'EUR', decimals: 2 });
+    expect(toDecimalString(parseMoney('0.000001', 'USDC'))).toBe('0.000001');
+    expect(formatMoney(parseMoney('12.345678', 'USDC'))).toBe('12.35 USDC');
+    expect(formatMoney(fromCents(-5n))).toBe('$-0.05');
+    expect(() => parseMoney('1.001', 'USD')).toThrow('more than 2 decimals');
+  });
+
+  it('converts with a decimal rate and rounds half away from zero', () => {
+    expect(convert(fromCents(10000n, 'EUR'), '1.0825', 'USD')).toEqual(fromCents(10825n, 'USD'));
+    expect(convert(fromCents(100n, 'BRL'), '0.185', 'USD', 2).amount).toBe(19n);
+    expect(convert(parseMoney('1', 'USD'), '149.5', 'JPY')).toEqual({ amount: 150n, currency: 'JPY', decimals: 0 });
+    expect(rescale(parseMoney('-0.005', 'USDC'), 2).amount).toBe(-1n);
+  });
+
+  it('aligns decimals when adding and refuses different currencies', () => {
+    expect(add(fromCents(150n, 'USDC'), parseMoney('1.5', 'USDC'))).toEqual({ amount: 3000000n, currency: 'USDC', decimals: 6 });
+    expect(() => add(fromCents(1n, 'EUR'), fromCents(1n, 'USD'))).toThrow('Currency mismatch: EUR and USD');
+  });
+});
+
+describe('FxRateService', () => {
+  let rates: any[];
+  let prisma: any;
+  let service: FxRateService;
+
+  const matches = (rate: any, where: any) =>
+    rate.baseCurrency === where.baseCurrency &&
+    rate.quoteCurrency === where.quoteCurrency &&
+    rate.effectiveDate <= where.effectiveDate.lte;
+
+  beforeEach(() => {
+    rates = [
+      { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: new Prisma.Decimal('1.08'), effectiveDate: new Date('2026-10-01') },
+      { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: new Prisma.Decimal('1.1'), effectiveDate: new Date('2026-10-15') },
+      { baseCurrency: 'USD', quoteCurrency: 'BRL', rate: new Prisma.Decimal('5'), effectiveDate: new Date('2026-10-10') },
+    ];
+    prisma = {
+      fxRate: {
+        findFirst: vi.fn(async ({ where }: any) => rates
+          .filter(rate => matches(rate, where))
+          .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0] ?? null),
+        upsert: vi.fn(async ({ create }: any) => {
+          rates.push(create);
+          return create;
+        }),
+      },
+    };
+    prisma.$transaction = vi.fn(async (fn: any) => fn(prisma));
+    service = new FxRateService(prisma);
+  });
+
+  it('uses the latest rate effective on or before the date', async () => {
+    expect(await service.findRate('EUR', 'USD', new Date('2026-10-14'))).toEqual({
+      rate: '1.08',
+      effectiveDate: new Date('2026-10-01'),
+    });
+    expect((await service.getRate('eur', 'usd', new Date('2026-10-20'))).rate).toBe('1.1');
+    await expect(service.getRate('EUR', 'USD', new Date('2026-09-30')))
+      .rejects.toThrow('No FX rate from EUR to USD on or before 2026-09-30');
+  });
+
+  it('inverts the opposite pair when only that one was entered', async () => {
+    const snapshot = await service.snapshot('BRL', 'usd', new Date('2026-10-19'));
+
+    expect(snapshot).toEqual({ fxRate: '0.2', fxBaseCurrency: 'USD', fxRateDate: new Date('2026-10-10') });
+  });
+
+  it('converts with a document snapshot before looking up rates', async () => {
+    const booked = await service.convert(fromCents(10000n, 'EUR'), 'USD', new Date('2026-10-20'), {
+      fxRate: new Prisma.Decimal('1.05'),
+      fxBaseCurrency: 'USD',
+    });
+    const current = await service.convert(fromCents(10000n, 'EUR'), 'USD', new Date('2026-10-20'));
+
+    expect(booked).toEqual(fromCents(10500n, 'USD'));
+    expect(current).toEqual(fromCents(11000n, 'USD'));
+    expect(prisma.fxRate.findFirst).toHaveBeenCalledTimes(2);
+  });
+
+  it('imports CSV rates and reports the offending line', async () => {
+    const imported = await service.importRatesCsv(
+      'Date,Base,Quote,Rate\n2026-10-16,gbp,USD,1.27\n2026-10-16,USD,JPY,149.25\n',
+      'treasurer'
+    );
+
+    expect(imported.map(rate => [rate.baseCurrency, rate.quoteCurrency, rate.rate.toString()])).toEqual([
+      ['GBP', 'USD', '1.27'],
+      ['USD', 'JPY', '149.25'],
+    ]);
+    expect(imported[0]).toMatchObject({ source: 'CSV', createdBy: 'treasurer' });
+
+    await expect(service.importRatesCsv('date,base,quote,rate\n2026-10-16,USD,USD,1\n', 'treasurer'))
+      .rejects.toThrow('FX rate needs two different currencies, got USD at line 2');
+    await expect(service.importRatesCsv('date,base,quote,rate\n16/10/2026,EUR,USD,1.1\n', 'treasurer'))
+      .rejects.toThrow('Invalid date "16/10/2026" at line 2');
+  });
+});
@@ -0,0 +1,200 @@
+// apps/api/tests/unit/indexer-backfill.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const publicClient = {
+  getLogs: vi.fn(),
+  getBlock: vi.fn()
+};
+
+vi.mock('../../src/lib/blockchain.js', () => ({
+  blockchainService: { getPublicClient: () => publicClient },
+  LIFT_TOKENS_ABI: []
+}));
+
+vi.mock('../../src/lib/payment.js', () => ({
+  REPAYMENT_ESCROW_ABI: [],
+  ALLOCATION_ESCROW_ABI: []
+}));
+
+import { BlockchainIndexer } from '../../src/lib/indexer';
+
+const contractAddress = '0x0987654321098765432109876543210987654321' as const;
+
+function createPrismaMock() {
+  const prisma: any = {
+    indexerState: { update: vi.fn(), upsert: vi.fn(), findFirst: vi.fn() },
+    indexedEvent: { count: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    payment: { deleteMany: vi.fn(), updateMany: vi.fn() },
+    paymentEvent: { deleteMany: vi.fn() }
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return prisma;
+}
+
+async function waitForJob(indexer: BlockchainIndexer, jobId: string) {
+  await vi.waitFor(() => {
+    expect(indexer.getJob(jobId)?.status).not.toBe('running');
+  });
+  return indexer.getJob(jobId)!;
+}
+
+describe('BlockchainIndexer backfill and replay jobs', () => {
+  let prisma: any;
+  let wsManager: { emitIndexerJobEvent: ReturnType<typeof vi.fn> };
+  let indexer: BlockchainIndexer;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    wsManager = { emitIndexerJobEvent: vi.fn() };
+    const app: any = {
+      prisma,
+      wsManager,
+      hasDecorator: (name: string) => name === 'wsManager',
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+    };
+    indexer = new BlockchainIndexer(app);
+
+    publicClient.getLogs.mockReset().mockResolvedValue([]);
+  });
+
+  it('splits a backfill range into chunks without moving the live cursor', async () => {
+    const job = indexer.startBackfill({
+      chainId: 1,
+      contractAddress,
+      indexerType: 'AllocationEscrow',
+      fromBlock: 1000,
+      toBlock: 1249,
+      chunkSize: 100,
+      concurrency: 2
+    });
+
+    const finished = await waitForJob(indexer, job.id);
+
+    expect(finished.status).toBe('completed');
+    expect(finished.total).toBe(3);
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 1000n, toBlock: 1099n }));
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 1100n, toBlock: 1199n }));
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 1200n, toBlock: 1249n }));
+    expect(prisma.indexerState.update).not.toHaveBeenCalled();
+    expect(prisma.indexerState.upsert).not.toHaveBeenCalled();
+
+    expect(wsManager.emitIndexerJobEvent).toHaveBeenLastCalledWith('job_completed', expect.objectContaining({
+      jobId: job.id,
+      jobType: 'backfill',
+      chainId: 1,
+      progress: 100
+    }));
+  });
+
+  it('applies chunks in block order even when later chunks are fetched first', async () => {
+    const log = (blockNumber: bigint, logIndex: number) => ({ blockNumber, logIndex, transactionHash: `0x${blockNumber}-${logIndex}` });
+    publicClient.getLogs.mockImplementation(({ fromBlock }: { fromBlock: bigint }) => fromBlock === 1000n
+      ? new Promise(resolve => setTimeout(() => resolve([log(1050n, 3), log(1050n, 1)]), 20))
+      : Promise.resolve([log(1150n, 0)]));
+
+    const applied: string[] = [];
+    (indexer as any).processSingleEvent = vi.fn(async (_config: unknown, event: any) => {
+      applied.push(event.transactionHash);
+    });
+
+    const job = indexer.startBackfill({
+      chainId: 1,
+      contractAddress,
+      indexerType: 'LiftTokens',
+      fromBlock: 1000,
+      toBlock: 1199,
+      chunkSize: 100,
+      concurrency: 2
+    });
+
+    const finished = await waitForJob(indexer, job.id);
+
+    expect(finished.processed).toBe(3);
+    expect(applied).toEqual(['0x1050-1', '0x1050-3', '0x1150-0']);
+  });
+
+  it('replays stored events by reverting their effects first', async () => {
+    const storedEvent = {
+      id: 'evt-1',
+      txHash: '0xtx',
+      logIndex: 0,
+      topics: ['0xdeadbeef'],
+      data: '0x',
+      metadata: { effects: [{ kind: 'payment.created', paymentId: 'pay-1' }] }
+    };
+
+    prisma.indexedEvent.count.mockResolvedValue(1);
+    prisma.indexedEvent.findMany.mockResolvedValueOnce([storedEvent]).mockResolvedValueOnce([]);
+
+    const job = indexer.startReplay({
+      chainId: 1,
+      contractAddress,
+      indexerType: 'AllocationEscrow',
+      fromBlock: 100
+    });
+
+    const finished = await waitForJob(indexer, job.id);
+
+    expect(finished.status).toBe('completed');
+    expect(finished.processed).toBe(1);
+    expect(publicClient.getLogs).not.toHaveBeenCalled();
+    expect(prisma.indexedEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        contractAddress: contractAddress.toLowerCase(),
+        orphaned: false,
+        blockNumber: { gte: 100 }
+      })
+    }));
+    expect(prisma.payment.deleteMany).toHaveBeenCalledWith({ where: { id: 'pay-1' } });
+    expect(prisma.indexedEvent.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({ processed: false, processingError: null })
+    }));
+  });
+
+  it('reverts the effects of a failed event before retrying it', async () => {
+    prisma.indexedEvent.findMany.mockResolvedValue([{
+      id: 'evt-2',
+      chainId: 1,
+      contractAddress: contractAddress.toLowerCase(),
+      txHash: '0xtx',
+      logIndex: 0,
+      topics: ['0xdeadbeef'],
+      data: '0x',
+      processingError: 'boom',
+      metadata: { effects: [{ kind: 'payment.created', paymentId: 'pay-2' }] }
+    }]);
+    prisma.indexerState.findFirst.mockResolvedValue({ indexerType: 'AllocationEscrow' });
+
+    const result = await indexer.retryFailedEvents(10);
+
+    expect(result).toEqual({ processed: 1, failed: 0 });
+    expect(prisma.payment.deleteMany).toHaveBeenCalledWith({ where: { id: 'pay-2' } });
+    expect(prisma.indexedEvent.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'evt-2' },
+      data: expect.objectContaining({ processed: false, processingError: null })
+    }));
+  });
+
+  it('stops a running job when cancelled', async () => {
+    publicClient.getLogs.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve([]), 10)));
+
+    const job = indexer.startBackfill({
+      chainId: 1,
+      contractAddress,
+      indexerType: 'AllocationEscrow',
+      fromBlock: 0,
+      toBlock: 9999,
+      chunkSize: 100,
+      concurrency: 1
+    });
+
+    expect(indexer.cancelJob(job.id)).toBe(true);
+
+    const finished = await waitForJob(indexer, job.id);
+
+    expect(finished.status).toBe('cancelled');
+    expect(finished.completed).toBeLessThan(finished.total);
+    expect(indexer.cancelJob(job.id)).toBe(false);
+  });
+});
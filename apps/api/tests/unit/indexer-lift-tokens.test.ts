@@ -0,0 +1,188 @@
+// apps/api/tests/unit/indexer-lift-tokens.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const publicClient = {
+  readContract: vi.fn()
+};
+
+vi.mock('../../src/lib/blockchain.js', () => ({
+  blockchainService: { getPublicClient: () => publicClient },
+  LIFT_TOKENS_ABI: []
+}));
+
+vi.mock('../../src/lib/payment.js', () => ({
+  REPAYMENT_ESCROW_ABI: [],
+  ALLOCATION_ESCROW_ABI: []
+}));
+
+import { BlockchainIndexer } from '../../src/lib/indexer';
+
+const config = {
+  chainId: 11155111,
+  contractAddress: '0x1111111111111111111111111111111111111111' as const,
+  indexerType: 'LiftTokens' as const
+};
+
+const indexedEvent = {
+  id: 'evt-1',
+  chainId: 11155111,
+  contractAddress: '0x1111111111111111111111111111111111111111',
+  txHash: '0xtx',
+  blockNumber: 500,
+  logIndex: 2,
+  blockTimestamp: new Date('2025-09-01T00:00:00Z'),
+  metadata: null
+};
+
+function createPrismaMock() {
+  return {
+    indexedEvent: { findUnique: vi.fn().mockResolvedValue(indexedEvent), update: vi.fn() },
+    liftToken: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn() },
+    liftTokenEvent: { findUnique: vi.fn().mockResolvedValue(null), create: vi.fn().mockResolvedValue({ id: 99 }) },
+    project: { findUnique: vi.fn(), update: vi.fn() }
+  } as any;
+}
+
+describe('BlockchainIndexer LiftTokens events', () => {
+  let prisma: any;
+  let indexer: BlockchainIndexer;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    const app: any = {
+      prisma,
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+    };
+    indexer = new BlockchainIndexer(app);
+
+    publicClient.readContract.mockReset();
+  });
+
+  it('creates an ISSUED lift token from a mint transfer', async () => {
+    prisma.liftToken.findUnique.mockResolvedValue(null);
+    prisma.liftToken.create.mockResolvedValue({ id: 5 });
+
+    await (indexer as any).handleEventBusinessLogic(config, {
+      eventName: 'TransferSingle',
+      args: {
+        operator: '0xAdmin',
+        from: '0x0000000000000000000000000000000000000000',
+        to: '0xABCDEF0000000000000000000000000000000001',
+        id: 42n,
+        value: 1000n
+      }
+    }, 'evt-1');
+
+    expect(prisma.liftToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ tokenId: '42', status: 'ISSUED', quantity: '1000', chainId: 11155111 })
+    });
+    expect(prisma.liftTokenEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ liftTokenId: 5, type: 'ISSUED', txHash: '0xtx', logIndex: 2 })
+    });
+    expect(prisma.indexedEvent.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        processed: true,
+        metadata: {
+          effects: [
+            { kind: 'liftToken.created', liftTokenId: 5 },
+            { kind: 'liftTokenEvent.created', liftTokenEventId: 99 }
+          ]
+        }
+      })
+    }));
+  });
+
+  it('marks a token RETIRED once the full supply is retired', async () => {
+    prisma.liftToken.findUnique.mockResolvedValue({
+      id: 5,
+      tokenId: '42',
+      status: 'ISSUED',
+      quantity: new Prisma.Decimal(1000),
+      projectId: 3,
+      issuedAt: new Date('2025-08-01T00:00:00Z'),
+      retiredAt: null,
+      meta: { retiredAmount: '400' }
+    });
+
+    await (indexer as any).handleEventBusinessLogic(config, {
+      eventName: 'Retired',
+      args: {
+        tokenId: 42n,
+        amount: 600n,
+        retiree: '0xABCDEF0000000000000000000000000000000001',
+        retirementNoteCid: '0x01'
+      }
+    }, 'evt-1');
+
+    expect(prisma.liftToken.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: {
+        status: 'RETIRED',
+        retiredAt: indexedEvent.blockTimestamp,
+        meta: { retiredAmount: '1000' }
+      }
+    });
+    expect(prisma.liftTokenEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'RETIRED', payload: expect.objectContaining({ amount: '600' }) })
+    });
+  });
+
+  it('skips events that were already recorded for the transaction', async () => {
+    prisma.liftToken.findUnique.mockResolvedValue({ id: 5, tokenId: '42', status: 'ISSUED', quantity: null, meta: {} });
+    prisma.liftTokenEvent.findUnique.mockResolvedValue({ id: 12 });
+
+    await (indexer as any).handleEventBusinessLogic(config, {
+      eventName: 'Retired',
+      args: { tokenId: 42n, amount: 1n, retiree: '0xabc', retirementNoteCid: '0x01' }
+    }, 'evt-1');
+
+    expect(prisma.liftToken.update).not.toHaveBeenCalled();
+    expect(prisma.liftTokenEvent.create).not.toHaveBeenCalled();
+  });
+
+  it('reads the issuance config from the contract on the first verification submission', async () => {
+    prisma.project.findUnique.mockResolvedValue({ id: 3, meta: {} });
+    prisma.liftToken.findMany.mockResolvedValue([]);
+    publicClient.readContract.mockResolvedValue([
+      '0xmethod', '0xhash', 100000n, 80000n, 120000n, '0xEscrow000000000000000000000000000000000001', 0n, false, true
+    ]);
+
+    await (indexer as any).handleEventBusinessLogic(config, {
+      eventName: 'VerificationSubmitted',
+      args: { projectId: 3n, methodId: '0xmethod', validator: '0xValidator', evidenceHash: '0xevidence' }
+    }, 'evt-1');
+
+    expect(publicClient.readContract).toHaveBeenCalledWith(expect.objectContaining({
+      address: config.contractAddress,
+      functionName: 'issuanceConfigs',
+      args: [3n]
+    }));
+    expect(prisma.project.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        meta: {
+          issuanceConfig: expect.objectContaining({
+            targetTokens: '100000',
+            minTokens: '80000',
+            maxTokens: '120000',
+            allocationEscrow: '0xescrow000000000000000000000000000000000001'
+          })
+        }
+      }
+    });
+  });
+
+  it('does not read the issuance config again once it is recorded', async () => {
+    prisma.project.findUnique.mockResolvedValue({ id: 3, meta: { issuanceConfig: { methodId: '0xmethod' } } });
+    prisma.liftToken.findMany.mockResolvedValue([]);
+
+    await (indexer as any).handleEventBusinessLogic(config, {
+      eventName: 'VerificationSubmitted',
+      args: { projectId: 3n, methodId: '0xmethod', validator: '0xValidator', evidenceHash: '0xevidence' }
+    }, 'evt-1');
+
+    expect(publicClient.readContract).not.toHaveBeenCalled();
+    expect(prisma.project.update).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,199 @@
+// apps/api/tests/unit/indexer-reorg.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const publicClient = {
+  getBlockNumber: vi.fn(),
+  getBlock: vi.fn(),
+  getLogs: vi.fn()
+};
+
+vi.mock('../../src/lib/blockchain.js', () => ({
+  blockchainService: { getPublicClient: () => publicClient },
+  LIFT_TOKENS_ABI: []
+}));
+
+vi.mock('../../src/lib/payment.js', () => ({
+  REPAYMENT_ESCROW_ABI: [],
+  ALLOCATION_ESCROW_ABI: []
+}));
+
+import { BlockchainIndexer } from '../../src/lib/indexer';
+
+const config = {
+  chainId: 10,
+  contractAddress: '0x0987654321098765432109876543210987654321' as const,
+  indexerType: 'AllocationEscrow' as const,
+  confirmations: 12,
+  batchSize: 1000
+};
+
+function createPrismaMock() {
+  const prisma: any = {
+    indexerState: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    indexedEvent: { findMany: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    payment: { deleteMany: vi.fn(), updateMany: vi.fn() },
+    paymentEvent: { deleteMany: vi.fn() },
+    liftToken: { deleteMany: vi.fn(), updateMany: vi.fn() }
+  };
+  prisma.$transaction = vi.fn(async (fn: (tx: any) => Promise<unknown>) => fn(prisma));
+  return prisma;
+}
+
+describe('BlockchainIndexer reorg handling', () => {
+  let prisma: any;
+  let indexer: BlockchainIndexer;
+  const canonicalHashes: Record<number, string> = {
+    100: '0xhash100',
+    103: '0xnew103',
+    105: '0xnew105',
+    108: '0xnew108'
+  };
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    const app: any = {
+      prisma,
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+    };
+    indexer = new BlockchainIndexer(app);
+
+    publicClient.getBlockNumber.mockReset().mockResolvedValue(120n);
+    publicClient.getLogs.mockReset().mockResolvedValue([]);
+    publicClient.getBlock.mockReset().mockImplementation(async ({ blockNumber }: { blockNumber: bigint }) => ({
+      hash: canonicalHashes[Number(blockNumber)] ?? `0xcanonical${blockNumber}`
+    }));
+  });
+
+  it('does not rewind when the last indexed block is still canonical', async () => {
+    prisma.indexerState.findUnique.mockResolvedValue({
+      isActive: true,
+      startBlock: 0,
+      confirmations: 12,
+      lastBlockNumber: 105,
+      lastBlockHash: '0xnew105'
+    });
+
+    await (indexer as any).processEvents(config);
+
+    expect(prisma.indexedEvent.findMany).not.toHaveBeenCalled();
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 106n, toBlock: 108n }));
+    expect(prisma.indexerState.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ lastBlockNumber: 108, lastBlockHash: '0xnew108' })
+    }));
+  });
+
+  it('orphans events above the common ancestor and reverts their effects', async () => {
+    prisma.indexerState.findUnique.mockResolvedValue({
+      isActive: true,
+      startBlock: 0,
+      confirmations: 12,
+      lastBlockNumber: 105,
+      lastBlockHash: '0xold105'
+    });
+
+    const orphanedEvent = {
+      id: 'evt-103',
+      blockNumber: 103,
+      blockHash: '0xold103',
+      metadata: {
+        effects: [
+          { kind: 'payment.created', paymentId: 'pay-1' },
+          { kind: 'liftToken.updated', liftTokenId: 7, previous: { status: 'ISSUED', meta: { batch: 1 } } }
+        ]
+      }
+    };
+
+    prisma.indexedEvent.findMany
+      .mockResolvedValueOnce([
+        { blockNumber: 103, blockHash: '0xold103' },
+        { blockNumber: 100, blockHash: '0xhash100' }
+      ])
+      .mockResolvedValueOnce([orphanedEvent]);
+
+    await (indexer as any).processEvents(config);
+
+    // Effects are reverted newest first
+    expect(prisma.liftToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { status: 'ISSUED', meta: { batch: 1 } }
+    });
+    expect(prisma.payment.deleteMany).toHaveBeenCalledWith({ where: { id: 'pay-1' } });
+    expect(prisma.liftToken.updateMany.mock.invocationCallOrder[0])
+      .toBeLessThan(prisma.payment.deleteMany.mock.invocationCallOrder[0]);
+
+    expect(prisma.indexedEvent.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'evt-103' },
+      data: expect.objectContaining({ orphaned: true, processed: false })
+    }));
+
+    // Cursor is moved back to the ancestor, then indexing resumes from there
+    expect(prisma.indexerState.update).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: { lastBlockNumber: 100, lastBlockHash: '0xhash100' }
+    }));
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 101n, toBlock: 108n }));
+  });
+
+  it('rolls back only the reorged block when no events are stored in the window', async () => {
+    prisma.indexerState.findUnique.mockResolvedValue({
+      isActive: true,
+      startBlock: 0,
+      confirmations: 12,
+      lastBlockNumber: 105,
+      lastBlockHash: '0xold105'
+    });
+    prisma.indexedEvent.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([]);
+
+    await (indexer as any).processEvents({ ...config, maxReorgDepth: 4 });
+
+    expect(prisma.indexedEvent.findFirst).not.toHaveBeenCalled();
+    expect(prisma.indexerState.updateMany).not.toHaveBeenCalled();
+    expect(prisma.indexerState.update).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: { lastBlockNumber: 104, lastBlockHash: '0xcanonical104' }
+    }));
+    expect(publicClient.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 105n, toBlock: 108n }));
+  });
+
+  it('rolls back to just below the oldest changed block when the blocks under it are unverified', async () => {
+    prisma.indexerState.findUnique.mockResolvedValue({
+      isActive: true,
+      startBlock: 0,
+      confirmations: 12,
+      lastBlockNumber: 105,
+      lastBlockHash: '0xold105'
+    });
+    prisma.indexedEvent.findMany
+      .mockResolvedValueOnce([{ blockNumber: 103, blockHash: '0xold103' }])
+      .mockResolvedValueOnce([]);
+    prisma.indexedEvent.findFirst.mockResolvedValue(null);
+
+    await (indexer as any).processEvents({ ...config, maxReorgDepth: 4 });
+
+    expect(prisma.indexerState.updateMany).not.toHaveBeenCalled();
+    expect(prisma.indexerState.update).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: { lastBlockNumber: 102, lastBlockHash: '0xcanonical102' }
+    }));
+  });
+
+  it('records a reorg deeper than the max depth only when stored hashes keep mismatching past it', async () => {
+    prisma.indexerState.findUnique.mockResolvedValue({
+      isActive: true,
+      startBlock: 0,
+      confirmations: 12,
+      lastBlockNumber: 105,
+      lastBlockHash: '0xold105'
+    });
+    prisma.indexedEvent.findMany
+      .mockResolvedValueOnce([{ blockNumber: 103, blockHash: '0xold103' }])
+      .mockResolvedValueOnce([]);
+    prisma.indexedEvent.findFirst.mockResolvedValue({ blockNumber: 100, blockHash: '0xold100' });
+
+    await (indexer as any).processEvents({ ...config, maxReorgDepth: 4 });
+
+    expect(prisma.indexerState.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ lastError: 'Reorg deeper than 4 blocks, events below block 101 were not re-verified' })
+    }));
+    expect(prisma.indexerState.update).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: { lastBlockNumber: 101, lastBlockHash: '0xcanonical101' }
+    }));
+  });
+});
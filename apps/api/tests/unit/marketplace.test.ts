@@ -0,0 +1,201 @@
+// apps/api/tests/unit/marketplace.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('../../src/lib/blockchain.js', () => ({
+  blockchainService: { getLiftTokenBalance: vi.fn() }
+}));
+
+vi.mock('../../src/lib/payment.js', () => ({
+  PaymentService: vi.fn()
+}));
+
+import { MarketplaceService } from '../../src/lib/marketplace';
+
+const logger: any = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+const owner = '0x1111111111111111111111111111111111111111';
+const buyer = '0x2222222222222222222222222222222222222222';
+const escrow = '0x3333333333333333333333333333333333333333';
+const usdc = '0x4444444444444444444444444444444444444444';
+
+const liftToken = {
+  id: 5,
+  tokenId: '42',
+  chainId: 11155111,
+  project: {
+    id: 9,
+    ownerAddress: owner,
+    paymentConfig: { allocationEscrow: escrow, paymentTokens: [usdc] }
+  }
+};
+
+const decimal = (value: string | number) => new Prisma.Decimal(value);
+
+function listingRow(overrides: Record<string, any> = {}) {
+  return {
+    id: 'listing-1',
+    liftTokenId: 5,
+    projectId: 9,
+    chainId: 11155111,
+    tokenId: '42',
+    sellerAddress: escrow,
+    paymentToken: usdc,
+    quantity: decimal(100),
+    remainingQuantity: decimal(100),
+    unitPrice: decimal(2_000_000),
+    status: 'OPEN',
+    expiresAt: null,
+    createdBy: owner,
+    ...overrides
+  };
+}
+
+describe('MarketplaceService', () => {
+  let prisma: any;
+  let paymentService: any;
+  let blockchain: any;
+  let screening: any;
+  let service: MarketplaceService;
+
+  beforeEach(() => {
+    const fills = new Map<string, any>();
+    prisma = {
+      liftToken: { findUnique: vi.fn().mockResolvedValue(liftToken) },
+      marketplaceListing: {
+        aggregate: vi.fn().mockResolvedValue({ _sum: { remainingQuantity: decimal(60) } }),
+        create: vi.fn(async ({ data }: any) => ({ id: 'listing-1', status: 'OPEN', ...data })),
+        findUnique: vi.fn().mockResolvedValue(listingRow()),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn().mockResolvedValue({})
+      },
+      marketplaceBid: {
+        findUnique: vi.fn(),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn().mockResolvedValue({})
+      },
+      marketplaceFill: {
+        create: vi.fn(async ({ data }: any) => {
+          fills.set('fill-1', { id: 'fill-1', status: 'PENDING', ...data });
+          return fills.get('fill-1');
+        }),
+        update: vi.fn(async ({ where, data }: any) => ({ ...fills.get(where.id), ...data }))
+      }
+    };
+    paymentService = {
+      initializePayment: vi.fn().mockResolvedValue({ success: true, paymentId: 'pay-1' }),
+      processLiftTokenPurchase: vi.fn().mockResolvedValue({ success: true, paymentId: 'pay-1', txHash: '0xabc' })
+    };
+    blockchain = { getLiftTokenBalance: vi.fn().mockResolvedValue('100') };
+    screening = { screen: vi.fn(), assertClear: vi.fn().mockResolvedValue({ decision: 'CLEAR', hits: [] }) };
+    service = new MarketplaceService({ prisma, log: logger } as any, { paymentService, blockchain, screening });
+  });
+
+  describe('createListing', () => {
+    const input = { liftTokenId: 5, quantity: '40', unitPrice: '2000000', paymentToken: usdc };
+
+    it('lists escrow-held units up to the uncommitted on-chain balance', async () => {
+      const listing = await service.createListing(input, owner.toUpperCase().replace('0X', '0x'));
+
+      expect(blockchain.getLiftTokenBalance).toHaveBeenCalledWith(escrow, '42', 11155111);
+      expect(listing).toMatchObject({ sellerAddress: escrow, projectId: 9, tokenId: '42', createdBy: owner });
+      expect(listing.remainingQuantity.toString()).toBe('40');
+
+      await expect(service.createListing({ ...input, quantity: '41' }, owner))
+        .rejects.toThrow('Insufficient on-chain balance: 40 units available to list');
+    });
+
+    it('only lets the project owner list, in an accepted payment token', async () => {
+      await expect(service.createListing(input, buyer)).rejects.toThrow(/Not authorized/);
+      await expect(service.createListing({ ...input, paymentToken: buyer }, owner)).rejects.toThrow(/not accepted/);
+      expect(prisma.marketplaceListing.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fills', () => {
+    it('reserves quantity and settles a partial fill through the allocation escrow', async () => {
+      const fill = await service.buyListing('listing-1', '30', buyer);
+
+      expect(prisma.marketplaceListing.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: 'listing-1', remainingQuantity: { gte: decimal(30) } }),
+        data: { remainingQuantity: { decrement: decimal(30) } }
+      }));
+      expect(paymentService.initializePayment).toHaveBeenCalledWith(expect.objectContaining({
+        projectId: 9,
+        paymentType: 'LIFT_UNIT_PURCHASE',
+        amount: '60000000',
+        payerAddress: buyer,
+        recipientAddress: buyer,
+        tokenIds: ['42'],
+        tokenAmounts: ['30']
+      }));
+      expect(paymentService.processLiftTokenPurchase).toHaveBeenCalledWith('pay-1', ['42'], ['30']);
+      expect(fill).toMatchObject({ status: 'SETTLED', txHash: '0xabc' });
+      expect(prisma.marketplaceListing.updateMany).toHaveBeenCalledWith({
+        where: { id: 'listing-1', status: 'OPEN', remainingQuantity: { gt: decimal(0) } },
+        data: { status: 'PARTIALLY_FILLED' }
+      });
+    });
+
+    it('returns reserved quantity when settlement fails', async () => {
+      paymentService.processLiftTokenPurchase.mockResolvedValue({ success: false, error: 'Market window is not active for this project' });
+
+      const fill = await service.buyListing('listing-1', '30', buyer);
+
+      expect(fill).toMatchObject({ status: 'FAILED', error: 'Market window is not active for this project' });
+      expect(prisma.marketplaceListing.update).toHaveBeenCalledWith({
+        where: { id: 'listing-1' },
+        data: { remainingQuantity: { increment: decimal(30) } }
+      });
+    });
+
+    it('refuses to oversell when the reservation loses a race', async () => {
+      prisma.marketplaceListing.updateMany.mockResolvedValueOnce({ count: 0 });
+      prisma.marketplaceListing.findUnique
+        .mockResolvedValueOnce(listingRow())
+        .mockResolvedValueOnce(listingRow({ remainingQuantity: decimal(10), status: 'PARTIALLY_FILLED' }));
+
+      await expect(service.buyListing('listing-1', '30', buyer)).rejects.toThrow('Listing has only 10 units remaining');
+      expect(paymentService.initializePayment).not.toHaveBeenCalled();
+    });
+
+    it('screens the buyer before reserving quantity', async () => {
+      screening.assertClear.mockRejectedValue(new Error('Sanctions screening blocked MARKETPLACE_FILL'));
+
+      await expect(service.buyListing('listing-1', '30', buyer)).rejects.toThrow('Sanctions screening blocked');
+      expect(screening.assertClear).toHaveBeenCalledWith(expect.objectContaining({
+        subjectType: 'MARKETPLACE_FILL',
+        addresses: expect.arrayContaining([buyer])
+      }));
+      expect(prisma.marketplaceListing.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('fills an accepted bid at the bid price for what both sides can cover', async () => {
+      prisma.marketplaceListing.findUnique.mockResolvedValue(listingRow({ remainingQuantity: decimal(25) }));
+      prisma.marketplaceBid.findUnique.mockResolvedValue({
+        id: 'bid-1',
+        liftTokenId: 5,
+        bidderAddress: buyer,
+        paymentToken: usdc,
+        quantity: decimal(50),
+        remainingQuantity: decimal(50),
+        unitPrice: decimal(1_500_000),
+        status: 'OPEN',
+        expiresAt: null
+      });
+
+      const fill = await service.acceptBid('bid-1', 'listing-1', owner);
+
+      expect(prisma.marketplaceBid.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { remainingQuantity: { decrement: decimal(25) } }
+      }));
+      expect(paymentService.initializePayment).toHaveBeenCalledWith(expect.objectContaining({
+        amount: '37500000',
+        payerAddress: buyer,
+        metadata: { listingId: 'listing-1', bidId: 'bid-1' }
+      }));
+      expect(fill).toMatchObject({ status: 'SETTLED', bidId: 'bid-1' });
+
+      await expect(service.acceptBid('bid-1', 'listing-1', buyer)).rejects.toThrow(/Not authorized/);
+    });
+  });
+});
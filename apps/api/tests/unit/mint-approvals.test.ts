@@ -0,0 +1,188 @@
+// apps/api/tests/unit/mint-approvals.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MintApprovalService,
+  DEFAULT_MINT_APPROVAL_POLICY,
+  requiredApprovalsFor,
+  validateMintApprovalPolicy,
+} from '../../src/lib/mint-approvals';
+
+const requester = { userId: 1, address: '0x1111111111111111111111111111111111111111' };
+const alice = { userId: 2, address: '0x2222222222222222222222222222222222222222' };
+const bob = { userId: 3, address: '0x3333333333333333333333333333333333333333' };
+const mallory = { userId: 4, address: '0x4444444444444444444444444444444444444444' };
+
+const request = {
+  projectId: 7,
+  tokenId: '1',
+  amount: '5000',
+  recipient: '0x5555555555555555555555555555555555555555',
+  title: 'Q3 restoration credits',
+};
+
+// Minimal in-memory stand-in for the Prisma queries the service issues
+function createPrisma() {
+  const mintRequests: any[] = [];
+  const events: any[] = [];
+  const policies: any[] = [];
+
+  const prisma: any = {
+    mintRequests,
+    events,
+    mintRequest: {
+      findUnique: vi.fn(async ({ where }: any) => mintRequests.find(row => row.id === where.id) ?? null),
+      create: vi.fn(async ({ data }: any) => {
+        const row = { id: `mr-${mintRequests.length + 1}`, ...data };
+        mintRequests.push(row);
+        return row;
+      }),
+      findUniqueOrThrow: vi.fn(async ({ where }: any) => {
+        const row = mintRequests.find(row => row.id === where.id);
+        if (!row) throw new Error('No MintRequest found');
+        return row;
+      }),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        const rows = mintRequests.filter(row => row.id === where.id && (!where.status || row.status === where.status));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      }),
+    },
+    mintRequestEvent: {
+      findMany: vi.fn(async ({ where }: any) => events.filter(event => event.mintRequestId === where.mintRequestId && event.type === where.type)),
+      create: vi.fn(async ({ data }: any) => {
+        events.push(data);
+        return data;
+      }),
+    },
+    mintApprovalPolicy: {
+      findUnique: vi.fn(async ({ where }: any) => policies.find(row => row.projectId === where.projectId) ?? null),
+      upsert: vi.fn(async ({ where, create, update }: any) => {
+        const existing = policies.find(row => row.projectId === where.projectId);
+        if (existing) return Object.assign(existing, update);
+        policies.push(create);
+        return create;
+      }),
+    },
+  };
+  prisma.$queryRaw = vi.fn(async () => []);
+  prisma.$transaction = vi.fn(async (callback: any) => callback(prisma));
+
+  return prisma;
+}
+
+describe('mint approval policy rules', () => {
+  it('raises the approval count at amount thresholds', () => {
+    const policy = {
+      ...DEFAULT_MINT_APPROVAL_POLICY,
+      requiredApprovals: 1,
+      thresholds: [
+        { minAmount: '1000', requiredApprovals: 2 },
+        { minAmount: '100000', requiredApprovals: 3 },
+      ],
+    };
+
+    expect(requiredApprovalsFor(policy, '999')).toBe(1);
+    expect(requiredApprovalsFor(policy, '1000')).toBe(2);
+    expect(requiredApprovalsFor(policy, '250000')).toBe(3);
+  });
+
+  it('rejects policies that cannot be satisfied', () => {
+    expect(() => validateMintApprovalPolicy({
+      requiredApprovals: 3,
+      approverRoles: [],
+      approverAddresses: [alice.address, bob.address],
+      thresholds: [],
+    })).toThrow('requires 3 approvals but lists only 2 approvers');
+    expect(() => validateMintApprovalPolicy({ requiredApprovals: 1, approverRoles: [], approverAddresses: [], thresholds: [] }))
+      .toThrow('must name approver roles or approver addresses');
+    expect(() => validateMintApprovalPolicy({ ...DEFAULT_MINT_APPROVAL_POLICY, requiredApprovals: 0 }))
+      .toThrow('positive integers');
+  });
+});
+
+describe('MintApprovalService', () => {
+  let prisma: any;
+  let rbac: { getUserProjectRoles: ReturnType<typeof vi.fn> };
+  let service: MintApprovalService;
+
+  beforeEach(() => {
+    prisma = createPrisma();
+    rbac = {
+      getUserProjectRoles: vi.fn(async (userId: number) => (userId === mallory.userId ? ['VENDOR'] : ['TREASURER'])),
+    };
+    service = new MintApprovalService({ prisma } as any, { rbac: rbac as any });
+  });
+
+  it('approves under the default policy after one approver other than the requester', async () => {
+    const mintRequest = await service.submit(request, requester);
+    expect(mintRequest).toMatchObject({ status: 'PENDING', requiredApprovals: 1, requestedBy: requester.address });
+
+    await expect(service.approve(mintRequest.id, requester)).rejects.toThrow('cannot approve or reject their own');
+    await expect(service.approve(mintRequest.id, mallory)).rejects.toThrow('is not an approver');
+
+    const result = await service.approve(mintRequest.id, alice, 'Evidence checked');
+    expect(result).toMatchObject({ approvals: 1, requiredApprovals: 1 });
+    expect(result.mintRequest).toMatchObject({ status: 'APPROVED', reviewedBy: alice.address });
+    expect(prisma.events.map((event: any) => event.type)).toEqual(['SUBMITTED', 'APPROVED']);
+  });
+
+  it('needs distinct approvals up to the threshold count before a request is approved', async () => {
+    await service.setPolicy(7, {
+      requiredApprovals: 1,
+      approverRoles: [],
+      approverAddresses: [alice.address, bob.address],
+      thresholds: [{ minAmount: '1000', requiredApprovals: 2 }],
+    }, requester.address);
+
+    const mintRequest = await service.submit(request, requester);
+    expect(mintRequest.requiredApprovals).toBe(2);
+
+    const first = await service.approve(mintRequest.id, alice);
+    expect(first).toMatchObject({ approvals: 1, requiredApprovals: 2 });
+    expect(first.mintRequest.status).toBe('PENDING');
+
+    await expect(service.approve(mintRequest.id, alice)).rejects.toThrow('has already approved');
+    await expect(service.approve(mintRequest.id, mallory)).rejects.toThrow('is not an approver');
+
+    const second = await service.approve(mintRequest.id, bob);
+    expect(second.mintRequest.status).toBe('APPROVED');
+    expect(prisma.events.at(-1)).toMatchObject({
+      type: 'APPROVED',
+      performedBy: bob.address,
+      metadata: { approvals: 2, requiredApprovals: 2, final: true, authority: { address: true } },
+    });
+    expect(rbac.getUserProjectRoles).not.toHaveBeenCalledWith(alice.userId, 7);
+
+    await expect(service.approve(mintRequest.id, requester)).rejects.toThrow('is not pending');
+  });
+
+  it('lets a single approver reject and only the requester cancel', async () => {
+    const rejected = await service.submit(request, requester);
+    await expect(service.reject(rejected.id, requester, 'Self review')).rejects.toThrow('cannot approve or reject their own');
+    expect((await service.reject(rejected.id, alice, 'Missing evidence')).status).toBe('REJECTED');
+    await expect(service.cancel(rejected.id, requester)).rejects.toThrow('cannot be cancelled in status REJECTED');
+
+    const cancelled = await service.submit(request, requester);
+    await expect(service.cancel(cancelled.id, alice)).rejects.toThrow('Only the requester can cancel');
+    expect((await service.cancel(cancelled.id, requester, 'Duplicate')).status).toBe('CANCELLED');
+    expect(prisma.events.at(-1)).toMatchObject({ type: 'CANCELLED', metadata: { previousStatus: 'PENDING' } });
+  });
+
+  it('locks the request row and will not cancel an approved request', async () => {
+    const mintRequest = await service.submit(request, requester);
+    await service.approve(mintRequest.id, alice);
+
+    expect(prisma.$queryRaw).toHaveBeenCalled();
+    expect(prisma.$queryRaw.mock.calls[0][0].join('?')).toContain('FOR UPDATE');
+
+    await expect(service.cancel(mintRequest.id, requester)).rejects.toThrow('cannot be cancelled in status APPROVED');
+    expect(prisma.mintRequests[0].status).toBe('APPROVED');
+  });
+
+  it('does not move a request that left PENDING after it was read', async () => {
+    const mintRequest = await service.submit(request, requester);
+    prisma.mintRequest.updateMany.mockImplementationOnce(async () => ({ count: 0 }));
+
+    await expect(service.reject(mintRequest.id, alice, 'Missing evidence')).rejects.toThrow('is no longer pending');
+  });
+});
@@ -0,0 +1,142 @@
+// apps/api/tests/unit/mrv-protocols.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MRVProtocolManager, hashMRVProtocol, parseMRVProtocol } from '../../src/lib/verification/mrv';
+
+const logger: any = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+function protocolDocument(overrides: Record<string, any> = {}) {
+  return {
+    id: 'wetland-restoration',
+    name: 'Wetland Restoration MRV',
+    version: '1.0',
+    measurementRequirements: [
+      { parameter: 'water_level', unit: 'cm', frequency: 'daily', accuracy: 0.9, method: 'piezometer' }
+    ],
+    reportingRequirements: [],
+    verificationRequirements: [],
+    ...overrides
+  };
+}
+
+describe('MRVProtocolManager', () => {
+  it('loads the bundled water and carbon protocols', () => {
+    const manager = new MRVProtocolManager(logger);
+
+    const water = manager.getProtocol('Water Conservation MRV');
+    expect(water).toMatchObject({ id: 'water-conservation', version: '1.0', status: 'active' });
+    expect(water!.measurementRequirements[0]!.calibration?.standard).toBe('ISO_4064');
+    expect(manager.getProtocol('carbon-sequestration')?.name).toBe('Carbon Sequestration MRV');
+  });
+
+  it('loads YAML and JSON versions from a directory and keeps history ordered', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'mrv-'));
+    mkdirSync(path.join(dir, 'wetland'));
+    writeFileSync(path.join(dir, 'wetland', '1.10.json'), JSON.stringify(protocolDocument({ version: '1.10' })));
+    writeFileSync(path.join(dir, 'wetland', '1.2.yaml'), 'id: wetland-restoration\nname: Wetland Restoration MRV\nversion: "1.2"\n' +
+      'measurementRequirements:\n  - { parameter: water_level, unit: cm, frequency: weekly, accuracy: 0.9, method: piezometer }\n' +
+      'reportingRequirements: []\nverificationRequirements: []\n');
+
+    const manager = new MRVProtocolManager(logger, { protocolDir: dir });
+
+    expect(manager.getProtocolVersions('wetland-restoration').map(v => v.version)).toEqual(['1.2', '1.10']);
+    expect(manager.getProtocol('Wetland Restoration MRV')?.version).toBe('1.10');
+    expect(manager.getProtocol('wetland-restoration', '1.2')?.measurementRequirements[0]!.frequency).toBe('weekly');
+  });
+
+  it('rejects documents that fail schema validation', () => {
+    expect(() => parseMRVProtocol(protocolDocument({ version: 'latest' }), 'bad.yaml')).toThrow(/bad\.yaml: version/);
+    expect(() => parseMRVProtocol(protocolDocument({ measurementRequirements: [] }))).toThrow(/measurementRequirements/);
+    expect(() => parseMRVProtocol(protocolDocument({ unexpected: true }))).toThrow(/Unrecognized key/);
+  });
+
+  it('refuses to redefine a published version with different content', () => {
+    const manager = new MRVProtocolManager(logger, { protocolDir: '/nonexistent' });
+    manager.registerProtocol(parseMRVProtocol(protocolDocument()));
+
+    expect(() => manager.registerProtocol(parseMRVProtocol(protocolDocument()))).not.toThrow();
+    expect(() => manager.registerProtocol(parseMRVProtocol(protocolDocument({ changelog: 'edited' }))))
+      .toThrow(/already registered with different content/);
+  });
+
+  it('hashes protocol content independent of key order', () => {
+    const protocol = parseMRVProtocol(protocolDocument());
+    const reordered = parseMRVProtocol(Object.fromEntries(Object.entries(protocolDocument()).reverse()));
+
+    expect(hashMRVProtocol(reordered)).toBe(hashMRVProtocol(protocol));
+  });
+
+  describe('assessVerificationResult', () => {
+    let prisma: any;
+    let manager: MRVProtocolManager;
+    const verificationResult = {
+      id: 7,
+      confidenceScore: 0.9,
+      metadata: null,
+      evidenceFiles: [],
+      mrvProtocolVersion: null as any
+    };
+
+    beforeEach(() => {
+      prisma = {
+        verificationResult: {
+          findUnique: vi.fn().mockResolvedValue(verificationResult),
+          update: vi.fn().mockResolvedValue({})
+        },
+        mRVProtocolVersion: {
+          findUnique: vi.fn().mockResolvedValue(null),
+          create: vi.fn().mockImplementation(({ data }) => Promise.resolve({ id: 3, ...data }))
+        }
+      };
+      manager = new MRVProtocolManager(logger, { protocolDir: '/nonexistent', prisma });
+      manager.registerProtocol(parseMRVProtocol(protocolDocument()));
+    });
+
+    it('pins the protocol version on first assessment', async () => {
+      const result = await manager.assessVerificationResult(7, { idOrName: 'Wetland Restoration MRV' });
+
+      expect(result?.protocol).toMatchObject({ id: 'wetland-restoration', version: '1.0' });
+      expect(prisma.mRVProtocolVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          protocolId: 'wetland-restoration',
+          version: '1.0',
+          contentHash: hashMRVProtocol(parseMRVProtocol(protocolDocument()))
+        })
+      });
+      expect(prisma.verificationResult.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ mrvProtocolVersionId: 3 })
+      });
+    });
+
+    it('keeps assessing pinned results against the stored snapshot', async () => {
+      manager.registerProtocol(parseMRVProtocol(protocolDocument({ version: '2.0', verificationRequirements: [
+        { verifierQualifications: [], documentationRequired: ['hydrology_report'], siteVisitRequired: true, samplingSize: 0.1, confidenceLevel: 0.9 }
+      ] })));
+      const snapshot = parseMRVProtocol(protocolDocument());
+      prisma.verificationResult.findUnique.mockResolvedValue({
+        ...verificationResult,
+        mrvProtocolVersion: { id: 3, protocolId: 'wetland-restoration', version: '1.0', contentHash: hashMRVProtocol(snapshot), definition: snapshot }
+      });
+
+      const result = await manager.assessVerificationResult(7);
+
+      expect(result?.protocol.version).toBe('1.0');
+      expect(result?.assessment.verificationCompliance.issues).toEqual([]);
+      expect(prisma.mRVProtocolVersion.create).not.toHaveBeenCalled();
+
+      await expect(manager.assessVerificationResult(7, { idOrName: 'wetland-restoration', version: '2.0' }))
+        .rejects.toThrow(/already pinned/);
+    });
+
+    it('refuses a version whose published snapshot has different content', async () => {
+      prisma.mRVProtocolVersion.findUnique.mockResolvedValue({ id: 3, contentHash: 'something-else' });
+
+      await expect(manager.assessVerificationResult(7, { idOrName: 'wetland-restoration' }))
+        .rejects.toThrow(/bump the version/);
+      expect(prisma.verificationResult.update).not.toHaveBeenCalled();
+    });
+  });
+});
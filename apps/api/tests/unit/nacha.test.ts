@@ -0,0 +1,111 @@
+// apps/api/tests/unit/nacha.test.ts
+import { describe, it, expect } from 'vitest';
+import { ACHProvider, ACHTransferRequest } from '../../src/lib/payment-rails/ach-provider';
+import { NACHA_RECORD_LENGTH, parseNachaReturnFile } from '../../src/lib/payment-rails/nacha';
+
+const originator = {
+  immediateDestination: '091000019',
+  immediateDestinationName: 'Wells Fargo',
+  immediateOrigin: '1234567890',
+  immediateOriginName: 'Orenna',
+  companyName: 'Orenna',
+  companyIdentification: '1234567890',
+  originatingDfi: '09100001',
+};
+
+function transfer(reference: string, routingNumber: string, amount: number, accountType: 'CHECKING' | 'SAVINGS' = 'CHECKING'): ACHTransferRequest {
+  return {
+    recipientName: `Vendor ${reference}`,
+    bankDetails: { routingNumber, accountNumber: `00${reference}789`, accountType, bankName: 'Test Bank' },
+    amount: BigInt(amount),
+    currency: 'USD',
+    reference,
+  };
+}
+
+// Fixed-width record from [text, width] pairs, padded to 94 characters
+function fixed(...fields: [string, number][]): string {
+  return fields.map(([text, width]) => text.padEnd(width, ' ')).join('').padEnd(NACHA_RECORD_LENGTH, ' ');
+}
+
+describe('ACHProvider NACHA files', () => {
+  const provider = new ACHProvider(originator);
+  const batch = {
+    batchId: 'RUN-7',
+    transactions: [transfer('101', '021000021', 125050), transfer('102', '011000015', 9900, 'SAVINGS')],
+    totalAmount: BigInt(134950),
+    effectiveDate: new Date(Date.UTC(2026, 9, 21)),
+    status: 'CREATED' as const,
+  };
+
+  it('writes a blocked CCD credit file with matching control totals', async () => {
+    const response = await provider.submitBatch(batch, { createdAt: new Date(Date.UTC(2026, 9, 20, 14, 5)) });
+    const records = response.file!.contents.trimEnd().split('\n');
+
+    expect(records.every(record => record.length === NACHA_RECORD_LENGTH)).toBe(true);
+    expect(records).toHaveLength(10);
+    expect(records[0]).toMatch(/^101 09100001912345678902610201405A094101WELLS FARGO {12}ORENNA {17}RUN-7 {3}$/);
+    expect(records[1]).toMatch(/^5220ORENNA {30}1234567890CCDPAYMENT {9}261021 {3}1091000010000001$/);
+
+    // Entries carry the credit transaction code for the account type and sequential trace numbers
+    expect(records[2]).toBe(
+      '622021000021' + '00101789'.padEnd(17) + '0000125050' + '101'.padEnd(15) + 'VENDOR 101'.padEnd(22) + '  0' + '091000010000001'
+    );
+    expect(records[3].slice(0, 3)).toBe('632');
+    expect(response.transactions).toEqual([
+      { reference: '101', transactionId: '091000010000001', status: 'PENDING' },
+      { reference: '102', transactionId: '091000010000002', status: 'PENDING' },
+    ]);
+
+    // Entry hash is the sum of the 8-digit RDFI identifiers: 02100002 + 01100001
+    expect(records[4]).toMatch(/^822000000200032000030000000000000000001349501234567890 {25}091000010000001$/);
+    expect(records[5]).toMatch(/^9000001000001000000020003200003000000000000000000134950 {39}$/);
+    expect(records.slice(6)).toEqual(Array(4).fill('9'.repeat(NACHA_RECORD_LENGTH)));
+  });
+
+  it('rejects a batch with an invalid routing number or a non-USD transfer', async () => {
+    await expect(provider.submitBatch({ ...batch, transactions: [transfer('101', '021000022', 134950)] }))
+      .rejects.toThrow('Invalid bank routing number');
+    await expect(provider.submitTransfer({ ...transfer('101', '021000021', 100), currency: 'EUR' }))
+      .rejects.toThrow('ACH transfers must be in USD');
+  });
+
+  it('parses returns and notifications of change into status updates', () => {
+    const contents = [
+      fixed(['101 091000019 1234567890261023', 0]),
+      fixed(['5220ORENNA', 40], ['1234567890PPDPAYMENT   ', 29], ['261021', 6]),
+      fixed(['621021000021', 12], ['00101789', 17], ['0000125050', 10], ['101', 15], ['VENDOR 101', 22], ['  1', 3], ['021000020000004', 15]),
+      fixed(['799R03091000010000001', 21], ['', 6], ['02100002', 8], ['', 44], ['021000020000004', 15]),
+      fixed(['621011000015', 12], ['00102789', 17], ['0000000000', 10], ['102', 15], ['VENDOR 102', 22], ['  1', 3], ['011000010000009', 15]),
+      fixed(['798C07091000010000002', 21], ['', 6], ['01100001', 8], ['011000015' + '0000009876543210'.padEnd(17) + '22', 29], ['', 15], ['011000010000009', 15]),
+      fixed(['8220', 0]),
+      fixed(['9000001', 0]),
+    ].join('\r\n');
+
+    expect(parseNachaReturnFile(contents)[1]).toMatchObject({
+      kind: 'NOTIFICATION_OF_CHANGE',
+      code: 'C07',
+      secCode: 'PPD',
+      correction: { routingNumber: '011000015', accountNumber: '0000009876543210', accountType: 'CHECKING' },
+    });
+
+    const [returned, corrected] = provider.parseReturnFile(contents);
+    expect(returned).toMatchObject({
+      transactionId: '091000010000001',
+      traceNumber: '091000010000001',
+      status: 'RETURNED',
+      amount: BigInt(125050),
+      reference: '101',
+      effectiveDate: new Date(Date.UTC(2026, 9, 21)),
+      returnCode: 'R03',
+      returnReason: 'No Account/Unable to Locate Account',
+    });
+    expect(corrected).toMatchObject({ traceNumber: '091000010000002', status: 'CONFIRMED', changeCode: 'C07' });
+    expect(corrected.returnCode).toBeUndefined();
+  });
+
+  it('refuses addenda that do not follow an entry', () => {
+    const contents = [fixed(['101', 0]), fixed(['5220', 0]), fixed(['799R01091000010000001', 0])].join('\n');
+    expect(() => parseNachaReturnFile(contents)).toThrow('Addenda record without an entry detail record at line 3');
+  });
+});
@@ -0,0 +1,198 @@
+// apps/api/tests/unit/pdf-reports.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import {
+  hashReportContent,
+  measureText,
+  niceScale,
+  renderPdfReport,
+  sealReport,
+  wrapText,
+} from '../../src/lib/pdf';
+import { complianceReportPdf } from '../../src/lib/pdf/templates/compliance-report';
+import { retirementReceiptPdf } from '../../src/lib/pdf/templates/retirement-receipt';
+
+const seal = {
+  eventId: 'AE-1760000000000-0123456789abcdef',
+  eventHash: 'a'.repeat(64),
+  contentHash: 'b'.repeat(64),
+};
+
+// Every cross-reference entry must point at the object it names
+function expectValidXref(pdf: string) {
+  expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+  expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+  expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+  const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+  offsets.forEach((offset, index) => {
+    expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+  });
+}
+
+function pageCount(pdf: string): number {
+  return Number(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+}
+
+describe('PDF text metrics', () => {
+  it('measures Helvetica widths and wraps to fit', () => {
+    expect(measureText('Hello', 10)).toBeCloseTo(22.78, 2);
+    expect(measureText('Hello', 10, 'bold')).toBeGreaterThan(measureText('Hello', 10));
+
+    const lines = wrapText('The quick brown fox jumps over the lazy dog', 100, 10);
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(measureText(line, 10)).toBeLessThanOrEqual(100));
+    expect(lines.join(' ')).toBe('The quick brown fox jumps over the lazy dog');
+
+    // A single unbreakable token is split rather than overflowing
+    expect(wrapText('0x'.padEnd(66, 'f'), 80, 8).length).toBeGreaterThan(1);
+  });
+
+  it('picks round axis ticks that include zero', () => {
+    expect(niceScale([3, 17, 38])).toEqual({ min: 0, max: 40, ticks: [0, 10, 20, 30, 40] });
+    expect(niceScale([3, 17, 42])).toEqual({ min: 0, max: 60, ticks: [0, 20, 40, 60] });
+    expect(niceScale([-120, 80]).ticks).toContain(0);
+    expect(niceScale([])).toMatchObject({ min: 0, max: 1 });
+  });
+});
+
+describe('renderPdfReport', () => {
+  it('lays out a cover, long tables and charts with numbered, hashed footers', () => {
+    const rows = Array.from({ length: 120 }, (_, index) => [index + 1, `Project ${index + 1}`, index * 12.5, index % 2 === 0]);
+
+    const pdf = renderPdfReport({
+      title: 'Quarterly Report',
+      cover: { title: 'Quarterly Report', organization: 'Orenna', fields: [['Report ID', 'RPT-1']] },
+      blocks: [
+        { type: 'heading', text: 'Outcomes' },
+        {
+          type: 'chart',
+          chart: { kind: 'bar', labels: ['a', 'b'], series: [{ name: 'Ok', values: [3, 5] }, { name: 'Failed', values: [1, 0] }] },
+        },
+        { type: 'chart', chart: { kind: 'line', labels: ['d1', 'd2', 'd3'], series: [{ name: 'Events', values: [1, 4, 2] }] } },
+        {
+          type: 'table',
+          columns: [{ header: 'ID' }, { header: 'Project Name', weight: 3 }, { header: 'Benefit', align: 'right' }, { header: 'Verified' }],
+          rows,
+        },
+      ],
+      footer: { auditHash: seal.eventHash, auditEventId: seal.eventId },
+    }).toString('latin1');
+
+    expectValidXref(pdf);
+
+    const pages = pageCount(pdf);
+    expect(pages).toBeGreaterThan(3);
+    for (let page = 1; page <= pages; page++) {
+      expect(pdf).toContain(`(Page ${page} of ${pages})`);
+    }
+    expect(pdf.split(`(Audit chain hash: ${seal.eventHash})`).length - 1).toBe(pages);
+
+    // The header row is repeated on every page the table spans
+    expect(pdf.split('(Project Name)').length - 1).toBeGreaterThan(2);
+    expect(pdf).toContain('(Project 120)');
+    expect(pdf).toContain('(1,487.5)');
+    expect(pdf).toContain('(Yes)');
+
+    // Charts are vector paths, not images
+    expect(pdf).not.toContain('/Image');
+    expect(pdf).toMatch(/ re f/);
+    expect(pdf).toMatch(/ l S/);
+  });
+
+  it('renders an empty report as a single page', () => {
+    const pdf = renderPdfReport({ title: 'Empty', blocks: [] }).toString('latin1');
+
+    expectValidXref(pdf);
+    expect(pageCount(pdf)).toBe(1);
+    expect(pdf).toContain('(Page 1 of 1)');
+  });
+});
+
+describe('report templates', () => {
+  it('renders compliance reports from the analytics report shape', () => {
+    const report = {
+      metadata: {
+        reportId: 'RPT-1760000000000',
+        generatedAt: '2026-10-19T12:00:00.000Z',
+        reportType: 'verification-summary',
+        period: { startDate: new Date('2026-07-01T00:00:00Z') },
+        standard: 'wri-vwba',
+        confidentialityLevel: 'restricted',
+        version: '1.0',
+      },
+      executive_summary: 'Verification summary shows 3 successful verifications out of 4 total attempts.',
+      data: {
+        summary: { totalVerifications: 4, successfulVerifications: 3, overallSuccessRate: 75 },
+        methodBreakdown: [
+          { methodId: 'vwba-v2', total: 3, successful: 3, failed: 0, pending: 0, averageConfidence: 0.91, successRate: 100 },
+          { methodId: 'carbon-v1', total: 1, successful: 0, failed: 1, pending: 0, averageConfidence: 0.4, successRate: 0 },
+        ],
+        qualityMetrics: { averageConfidence: 0.78, evidenceCompleteness: 50 },
+        recommendations: ['Improve verification methods: carbon-v1'],
+      },
+      compliance_attestation: { standard: 'wri-vwba', certifyingBody: 'Orenna Verification System' },
+    };
+
+    const definition = complianceReportPdf(report, seal);
+    expect(definition.cover?.fields).toContainEqual(['Reporting period', '2026-07-01 to present']);
+
+    const pdf = renderPdfReport(definition).toString('latin1');
+    expectValidXref(pdf);
+    expect(pdf).toContain('(Verification Summary Report)');
+    expect(pdf).toContain('(vwba-v2)');
+    expect(pdf).toContain('(91.0%)');
+    expect(pdf).toContain('(- Improve verification methods: carbon-v1)');
+    expect(pdf).toContain(`(Audit chain hash: ${seal.eventHash})`);
+  });
+
+  it('renders retirement receipts with their finance trail', () => {
+    const pdf = renderPdfReport(retirementReceiptPdf({
+      receiptId: 'RCPT-42',
+      status: 'ISSUED',
+      beneficiaryId: 'acme-water',
+      project: { id: 7, name: 'Upper Basin Restoration', slug: 'upper-basin' },
+      liftToken: { id: 3, quantity: '250', unit: 'LU', issuedAt: '2026-01-05T00:00:00Z', retiredAt: '2026-10-01T00:00:00Z' },
+      financeTraceability: {
+        deposits: [{ id: 1, amountCents: 1250050, currency: 'USD', sourceRef: 'wire-88', txHash: null, depositedAt: '2026-01-02T00:00:00Z' }],
+        disbursements: [],
+        verifications: [{ id: 9, gateId: 2, phase: 'Baseline survey', passed: true, attestedAt: '2026-03-01T00:00:00Z' }],
+      },
+      generatedAt: '2026-10-19T12:00:00Z',
+    }, seal)).toString('latin1');
+
+    expectValidXref(pdf);
+    expect(pdf).toContain('(250 LU)');
+    expect(pdf).toContain('($12500.50)');
+    expect(pdf).toContain('(No disbursements recorded for this project.)');
+    expect(pdf).toContain('(Passed)');
+  });
+});
+
+describe('sealReport', () => {
+  it('records the content hash in the audit chain and returns the event hash', async () => {
+    const audit = {
+      recordEvent: vi.fn(async (event: any) => ({ ...event, id: 'AE-1', eventHash: 'c'.repeat(64), timestamp: new Date() })),
+    };
+
+    const result = await sealReport(audit as any, {
+      reportType: 'retirement-receipt',
+      reportId: 'RCPT-42',
+      actor: '0xabc',
+      source: 'finance-loop',
+      content: { b: 2n, a: new Date('2026-10-19T00:00:00Z') },
+    });
+
+    expect(result).toEqual({ eventId: 'AE-1', eventHash: 'c'.repeat(64), contentHash: result.contentHash });
+    expect(audit.recordEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: 'REPORT_RENDERED',
+      entityType: 'Report',
+      entityId: 'RCPT-42',
+      details: { reportType: 'retirement-receipt', format: 'pdf', contentHash: result.contentHash },
+    }));
+  });
+
+  it('hashes content independently of key order', () => {
+    expect(hashReportContent({ a: 1, b: [1, { c: 2, d: 3 }] })).toBe(hashReportContent({ b: [1, { d: 3, c: 2 }], a: 1 }));
+    expect(hashReportContent({ a: 1 })).not.toBe(hashReportContent({ a: 2 }));
+  });
+});
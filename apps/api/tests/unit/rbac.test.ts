@@ -1,6 +1,6 @@
 // apps/api/tests/unit/rbac.test.ts
-import { describe, test, expect } from 'vitest';
-import { ROLE_PERMISSIONS, SYSTEM_ROLE_PERMISSIONS } from '../../src/lib/rbac.js';
+import { describe, test, expect, vi } from 'vitest';
+import { RBACService, ROLE_PERMISSIONS, SYSTEM_ROLE_PERMISSIONS } from '../../src/lib/rbac.js';
 import { FinanceRole, SystemRoleType } from '@prisma/client';
 
 describe('RBAC Configuration', () => {
@@ -119,4 +119,174 @@ describe('Role Hierarchies', () => {
     expect(multisigPerms.canOverrideApprovals).toBe(true);
     expect((treasurerPerms as any).canOverrideApprovals).toBeUndefined();
   });
-});
\ No newline at end of file
+});
+
+const HOUR = 60 * 60 * 1000;
+const PROJECT_ID = 3;
+
+function assignment(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    userId: 10,
+    projectId: PROJECT_ID,
+    role: 'PROJECT_MANAGER',
+    active: true,
+    approvalLimit: '500000',
+    startsAt: new Date(Date.now() - HOUR),
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides
+  };
+}
+
+function delegation(overrides: Record<string, any> = {}) {
+  return {
+    id: 50,
+    projectId: PROJECT_ID,
+    delegatorId: 10,
+    delegateId: 20,
+    role: 'PROJECT_MANAGER',
+    maxAmount: '200000',
+    startsAt: new Date(Date.now() - HOUR),
+    expiresAt: new Date(Date.now() + HOUR),
+    active: true,
+    ...overrides
+  };
+}
+
+// Role assignments are looked up by user; the where clause's date filters are
+// assumed to have been applied by the database
+function createApp(options: { assignments?: any[]; delegations?: any[] } = {}) {
+  const assignments = options.assignments ?? [];
+  const delegations = options.delegations ?? [];
+  const tx = {
+    projectRole: {
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      create: vi.fn(async ({ data }: any) => ({ id: 99, ...data }))
+    },
+    approvalDelegation: {
+      create: vi.fn(async ({ data }: any) => ({ id: 51, active: true, ...data })),
+      update: vi.fn(async ({ where, data }: any) => ({ ...delegations.find(d => d.id === where.id), ...data })),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 })
+    },
+    roleChangeEvent: {
+      create: vi.fn().mockResolvedValue({}),
+      createMany: vi.fn().mockResolvedValue({ count: 0 })
+    }
+  };
+  const prisma = {
+    projectRole: {
+      findMany: vi.fn(async ({ where }: any) => assignments.filter(a => where.userId === undefined || a.userId === where.userId)),
+      findFirst: vi.fn(async ({ where }: any) => assignments.find(a => a.userId === where.userId && a.role === where.role) ?? null)
+    },
+    approvalDelegation: {
+      findMany: vi.fn(async ({ where }: any) => delegations.filter(d => where.delegateId === undefined || d.delegateId === where.delegateId)),
+      findUnique: vi.fn(async ({ where }: any) => delegations.find(d => d.id === where.id) ?? null)
+    },
+    approvalMatrix: {
+      findUnique: vi.fn().mockResolvedValue(null)
+    },
+    $transaction: vi.fn(async (fn: any) => fn(tx))
+  };
+
+  return { app: { prisma, log: { info: vi.fn(), error: vi.fn() } } as any, prisma, tx };
+}
+
+describe('Time-boxed project roles', () => {
+  test('only counts assignments that have started and not yet expired', async () => {
+    const { app } = createApp({
+      assignments: [
+        assignment({ userId: 101, role: 'PROJECT_MANAGER' }),
+        assignment({ userId: 101, role: 'TREASURER', startsAt: new Date(Date.now() + HOUR) }),
+        assignment({ userId: 101, role: 'FINANCE_REVIEWER', expiresAt: new Date(Date.now() - 1000) })
+      ]
+    });
+
+    expect(await new RBACService(app).getUserProjectRoles(101, PROJECT_ID)).toEqual(['PROJECT_MANAGER']);
+  });
+
+  test('a new assignment ends the current one when it starts', async () => {
+    const { app, tx } = createApp();
+    tx.projectRole.updateMany.mockResolvedValueOnce({ count: 1 });
+    const startsAt = new Date(Date.now() + HOUR);
+    const expiresAt = new Date(Date.now() + 48 * HOUR);
+
+    await new RBACService(app).assignProjectRole(102, PROJECT_ID, 'PROJECT_MANAGER', '0xadmin', '500000', 'Cover', { startsAt, expiresAt });
+
+    expect(tx.projectRole.updateMany).toHaveBeenCalledWith(expect.objectContaining({ data: { expiresAt: startsAt } }));
+    expect(tx.projectRole.create).toHaveBeenCalledWith({ data: expect.objectContaining({ startsAt, expiresAt }) });
+    expect(tx.roleChangeEvent.create).toHaveBeenCalledWith({ data: expect.objectContaining({ eventType: 'ROLE_UPDATED' }) });
+
+    await expect(new RBACService(app).assignProjectRole(102, PROJECT_ID, 'PROJECT_MANAGER', '0xadmin', undefined, undefined, { startsAt, expiresAt: startsAt }))
+      .rejects.toThrow('must expire after it starts');
+  });
+
+  test('deactivates lapsed assignments and delegations and logs the expiry', async () => {
+    const { app, tx } = createApp({
+      assignments: [assignment({ id: 7, userId: 103, expiresAt: new Date(Date.now() - 1000) })],
+      delegations: [delegation({ id: 8, expiresAt: new Date(Date.now() - 1000) })]
+    });
+
+    expect(await new RBACService(app).expireLapsedAssignments()).toEqual({ roles: 1, delegations: 1 });
+    expect(tx.projectRole.updateMany).toHaveBeenCalledWith({ where: { id: { in: [7] } }, data: { active: false } });
+    expect(tx.approvalDelegation.updateMany).toHaveBeenCalledWith({ where: { id: { in: [8] } }, data: { active: false } });
+    expect(tx.roleChangeEvent.createMany.mock.calls[0][0].data.map((event: any) => event.eventType))
+      .toEqual(['ROLE_EXPIRED', 'DELEGATION_EXPIRED']);
+  });
+});
+
+describe('Approval delegation', () => {
+  const expiresAt = () => new Date(Date.now() + 7 * 24 * HOUR);
+
+  test('caps the delegated amount at the delegator\'s own limit', async () => {
+    const { app, tx } = createApp({ assignments: [assignment()] });
+    const service = new RBACService(app);
+    const request = { projectId: PROJECT_ID, delegatorId: 10, delegateId: 20, role: 'PROJECT_MANAGER' as const, expiresAt: expiresAt(), createdBy: '0xpm' };
+
+    await expect(service.delegateApprovalAuthority({ ...request, maxAmount: '600000' })).rejects.toThrow('exceeds');
+    await expect(service.delegateApprovalAuthority({ ...request, maxAmount: '1000', delegateId: 10 })).rejects.toThrow('cannot be delegated');
+    await expect(service.delegateApprovalAuthority({ ...request, maxAmount: '1000', role: 'TREASURER' })).rejects.toThrow('does not hold');
+    await expect(service.delegateApprovalAuthority({ ...request, maxAmount: '1000', expiresAt: new Date(Date.now() + 120 * 24 * HOUR) }))
+      .rejects.toThrow('90 days');
+
+    const granted = await service.delegateApprovalAuthority({ ...request, maxAmount: '200000' });
+    expect(granted).toMatchObject({ delegatorId: 10, delegateId: 20, maxAmount: '200000' });
+    expect(tx.roleChangeEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ targetUserId: 20, eventType: 'DELEGATION_GRANTED', roleType: 'DELEGATION' })
+    });
+  });
+
+  test('attributes approvals to the role held, or else to a delegation covering the amount', async () => {
+    const { app } = createApp({ assignments: [assignment()], delegations: [delegation()] });
+    const service = new RBACService(app);
+
+    expect(await service.resolveApprovalAuthority({ userId: 10, projectId: PROJECT_ID, role: 'PROJECT_MANAGER', amount: '400000' }))
+      .toEqual({ type: 'ROLE', role: 'PROJECT_MANAGER', projectRoleId: 1 });
+    expect(await service.resolveApprovalAuthority({ userId: 20, projectId: PROJECT_ID, role: 'PROJECT_MANAGER', amount: '150000' }))
+      .toEqual({ type: 'DELEGATION', role: 'PROJECT_MANAGER', delegationId: 50, delegatorId: 10 });
+
+    // Over the delegated cap
+    expect(await service.resolveApprovalAuthority({ userId: 20, projectId: PROJECT_ID, role: 'PROJECT_MANAGER', amount: '250000' })).toBeNull();
+    expect(await service.canApproveAmount(20, PROJECT_ID, '250000')).toBe(false);
+  });
+
+  test('a delegation lapses with the delegator\'s role', async () => {
+    const { app } = createApp({ delegations: [delegation()] });
+
+    expect(await new RBACService(app).resolveApprovalAuthority({ userId: 20, projectId: PROJECT_ID, role: 'PROJECT_MANAGER', amount: '1000' })).toBeNull();
+  });
+
+  test('only active delegations can be revoked', async () => {
+    const { app, tx } = createApp({ delegations: [delegation(), delegation({ id: 60, active: false })] });
+    const service = new RBACService(app);
+
+    await expect(service.revokeDelegation(60, '0xpm')).rejects.toThrow('no longer active');
+    await expect(service.revokeDelegation(61, '0xpm')).rejects.toThrow('not found');
+
+    const revoked = await service.revokeDelegation(50, '0xpm', 'Back from leave');
+    expect(revoked).toMatchObject({ id: 50, active: false, revokedBy: '0xpm' });
+    expect(tx.roleChangeEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ targetUserId: 20, eventType: 'DELEGATION_REVOKED', reason: 'Back from leave' })
+    });
+  });
+});
@@ -0,0 +1,161 @@
+// apps/api/tests/unit/safe-proposals.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { privateKeyToAccount } from 'viem/accounts';
+
+const completeSafeMultisigPayment = vi.fn();
+
+vi.mock('../../src/lib/disbursement', () => ({
+  DisbursementService: vi.fn().mockImplementation(() => ({ completeSafeMultisigPayment }))
+}));
+
+import { SafeProposalTracker } from '../../src/lib/safe-proposals';
+
+const owner1 = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const owner2 = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const owner3 = privateKeyToAccount('0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6');
+
+const safeTxHash = '0x' + 'ab'.repeat(32);
+
+const safeInfo = {
+  address: '0x5AFE000000000000000000000000000000000001' as const,
+  chainId: 8453,
+  threshold: 2,
+  owners: [owner1.address, owner2.address, owner3.address],
+  nonce: 7,
+  version: '1.3.0'
+};
+
+// Stateful stand-in for the SafeProposal/SafeConfirmation tables
+function createPrismaMock() {
+  const proposals: any[] = [];
+  const confirmations: any[] = [];
+  const withConfirmations = (proposal: any) =>
+    proposal && { ...proposal, confirmations: confirmations.filter(c => c.proposalId === proposal.id) };
+
+  return {
+    proposals,
+    confirmations,
+    safeProposal: {
+      create: vi.fn(async ({ data }: any) => {
+        const { confirmations: nested, ...fields } = data;
+        const proposal = {
+          id: proposals.length + 1,
+          status: 'PENDING_SIGNATURES',
+          executionTxHash: null,
+          executedAt: null,
+          lastNotifiedAt: null,
+          createdAt: new Date(),
+          ...fields
+        };
+        proposals.push(proposal);
+        if (nested) {
+          confirmations.push({ id: confirmations.length + 1, proposalId: proposal.id, confirmedAt: new Date(), ...nested.create });
+        }
+        return withConfirmations(proposal);
+      }),
+      findUnique: vi.fn(async ({ where, include }: any) => {
+        const proposal = proposals.find(p => p.safeTxHash === where.safeTxHash);
+        return include ? withConfirmations(proposal) ?? null : proposal ?? null;
+      }),
+      update: vi.fn(async ({ where, data }: any) => {
+        const proposal = proposals.find(p => p.id === where.id);
+        Object.assign(proposal, data);
+        return { ...proposal };
+      })
+    },
+    safeConfirmation: {
+      create: vi.fn(async ({ data }: any) => {
+        const confirmation = { id: confirmations.length + 1, confirmedAt: new Date(), ...data };
+        confirmations.push(confirmation);
+        return confirmation;
+      })
+    }
+  } as any;
+}
+
+describe('SafeProposalTracker', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let adapter: any;
+  let notifier: { notifySafeProposalEvent: ReturnType<typeof vi.fn> };
+  let tracker: SafeProposalTracker;
+
+  beforeEach(async () => {
+    completeSafeMultisigPayment.mockReset();
+    prisma = createPrismaMock();
+    adapter = {
+      getSafeInfo: vi.fn(),
+      submitTransfer: vi.fn(),
+      submitBatch: vi.fn(),
+      getConfirmations: vi.fn(),
+      confirmTransaction: vi.fn()
+    };
+    notifier = { notifySafeProposalEvent: vi.fn() };
+    tracker = new SafeProposalTracker(prisma, { adapter, notifier });
+
+    await tracker.trackProposal({
+      safeInfo,
+      safeTransactionHash: safeTxHash,
+      nonce: 7,
+      reference: 'DISB-1',
+      disbursementIds: [11],
+      proposer: owner1.address
+    });
+  });
+
+  it('records the proposer and asks the remaining owners to sign', () => {
+    expect(prisma.confirmations).toEqual([
+      expect.objectContaining({ signer: owner1.address.toLowerCase(), source: 'PROPOSER' })
+    ]);
+    expect(notifier.notifySafeProposalEvent).toHaveBeenCalledWith('signatures_requested', expect.objectContaining({
+      safeTxHash,
+      confirmations: 1,
+      threshold: 2,
+      pendingSigners: [owner2.address.toLowerCase(), owner3.address.toLowerCase()],
+      disbursementIds: [11]
+    }));
+    expect(prisma.proposals[0].lastNotifiedAt).toBeInstanceOf(Date);
+  });
+
+  it('becomes executable once a verified owner signature meets the threshold', async () => {
+    const signature = await owner2.sign({ hash: safeTxHash as `0x${string}` });
+
+    const proposal = await tracker.confirm(safeTxHash, { signer: owner2.address, data: signature, dynamic: false });
+
+    expect(adapter.confirmTransaction).toHaveBeenCalledWith(safeTxHash, 8453, expect.objectContaining({ data: signature }));
+    expect(proposal.status).toBe('EXECUTABLE');
+    expect(proposal.pendingSigners).toEqual([owner3.address.toLowerCase()]);
+    expect(notifier.notifySafeProposalEvent).toHaveBeenCalledWith('ready_to_execute', expect.objectContaining({ status: 'EXECUTABLE' }));
+
+    // Confirming again changes nothing
+    await tracker.recordConfirmation(safeTxHash, { signer: owner2.address, source: 'SERVICE' });
+    expect(prisma.confirmations).toHaveLength(2);
+  });
+
+  it('rejects signatures from someone else or from non-owners', async () => {
+    const forged = await owner3.sign({ hash: safeTxHash as `0x${string}` });
+    await expect(tracker.confirm(safeTxHash, { signer: owner2.address, data: forged, dynamic: false }))
+      .rejects.toThrow(`Signature does not belong to ${owner2.address}`);
+
+    await expect(tracker.recordConfirmation(safeTxHash, { signer: '0x000000000000000000000000000000000000dEaD', source: 'ONCHAIN' }))
+      .rejects.toThrow('is not an owner of Safe');
+    expect(adapter.confirmTransaction).not.toHaveBeenCalled();
+  });
+
+  it('records execution once and advances the paid disbursements', async () => {
+    await tracker.recordExecution(safeTxHash.toUpperCase().replace('0X', '0x'), {
+      success: true,
+      transactionHash: '0xexec',
+      executedAt: new Date('2026-10-19T12:00:00Z')
+    });
+    await tracker.recordExecution(safeTxHash, { success: true, transactionHash: '0xexec' });
+
+    expect(prisma.proposals[0]).toMatchObject({ status: 'EXECUTED', executionTxHash: '0xexec' });
+    expect(completeSafeMultisigPayment).toHaveBeenCalledTimes(1);
+    expect(completeSafeMultisigPayment).toHaveBeenCalledWith(11, expect.objectContaining({ success: true, transactionHash: '0xexec' }));
+    expect(notifier.notifySafeProposalEvent).toHaveBeenCalledWith('executed', expect.objectContaining({ executionTxHash: '0xexec' }));
+
+    await expect(tracker.recordConfirmation(safeTxHash, { signer: owner3.address, source: 'SIGNER' }))
+      .rejects.toThrow('is already executed');
+    expect(await tracker.recordExecution('0x' + 'cd'.repeat(32), { success: false, transactionHash: '0x1' })).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+// apps/api/tests/unit/session.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionService, hashSessionToken } from '../../src/lib/session';
+
+function createPrismaMock() {
+  return {
+    authNonce: {
+      create: vi.fn(),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      updateMany: vi.fn()
+    },
+    session: {
+      create: vi.fn(async ({ data }: any) => ({ ...data, createdAt: new Date() })),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn()
+    }
+  } as any;
+}
+
+describe('SessionService', () => {
+  let prisma: any;
+  let sessions: SessionService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    const app: any = {
+      prisma,
+      log: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+    };
+    sessions = new SessionService(app);
+  });
+
+  it('persists issued nonces', async () => {
+    const { nonce, expiresAt } = await sessions.issueNonce('10.0.0.1');
+
+    expect(nonce).toBeTruthy();
+    expect(prisma.authNonce.create).toHaveBeenCalledWith({
+      data: { nonce, clientIp: '10.0.0.1', expiresAt }
+    });
+  });
+
+  it('consumes a nonce only once', async () => {
+    prisma.authNonce.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    expect(await sessions.consumeNonce('abc')).toBe(true);
+    expect(await sessions.consumeNonce('abc')).toBe(false);
+
+    expect(prisma.authNonce.updateMany).toHaveBeenCalledWith({
+      where: { nonce: 'abc', consumedAt: null, expiresAt: { gt: expect.any(Date) } },
+      data: { consumedAt: expect.any(Date) }
+    });
+  });
+
+  it('stores a hash of the signed token and embeds the session id', async () => {
+    const sign = vi.fn().mockResolvedValue('signed.jwt.token');
+
+    const { token, session } = await sessions.createSession(
+      { id: 7, address: '0xabc' },
+      3600,
+      { chainId: 1, clientIp: '10.0.0.1' },
+      sign
+    );
+
+    expect(token).toBe('signed.jwt.token');
+    expect(sign).toHaveBeenCalledWith({ sid: session.id, userId: 7, address: '0xabc', chainId: 1 }, '3600s');
+    expect(prisma.session.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        id: session.id,
+        userId: 7,
+        token: hashSessionToken('signed.jwt.token')
+      })
+    });
+  });
+
+  it('rejects revoked and expired sessions', async () => {
+    const future = new Date(Date.now() + 60_000);
+
+    prisma.session.findUnique.mockResolvedValueOnce({ id: 's1', revokedAt: new Date(), expiresAt: future });
+    expect(await sessions.validateSession('s1')).toEqual({ valid: false, reason: 'revoked' });
+
+    prisma.session.findUnique.mockResolvedValueOnce({ id: 's1', revokedAt: null, expiresAt: new Date(Date.now() - 1) });
+    expect(await sessions.validateSession('s1')).toEqual({ valid: false, reason: 'expired' });
+
+    expect(await sessions.validateSession(undefined)).toEqual({ valid: false, reason: 'missing' });
+
+    prisma.session.findUnique.mockResolvedValueOnce({ id: 's1', revokedAt: null, expiresAt: future });
+    expect(await sessions.validateSession('s1')).toMatchObject({ valid: true });
+  });
+
+  it('revokes every other session when signing out everywhere', async () => {
+    prisma.session.updateMany.mockResolvedValue({ count: 3 });
+
+    const revoked = await sessions.revokeAllSessions(7, 'current');
+
+    expect(revoked).toBe(3);
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 7, revokedAt: null, id: { not: 'current' } },
+      data: { revokedAt: expect.any(Date) }
+    });
+  });
+});
@@ -0,0 +1,168 @@
+// apps/api/tests/unit/tax-forms.test.ts
+import { describe, it, expect } from 'vitest';
+import { buildFireFile, FIRE_RECORD_LENGTH, FirePayee } from '../../src/lib/tax-forms/fire';
+import { maskTin, nameControl, validateTin } from '../../src/lib/tax-forms/tin';
+import { renderForm1099NecPdf } from '../../src/lib/tax-forms/form-1099-pdf';
+import { necReportingThreshold } from '../../src/lib/tax-forms';
+
+const transmitter = {
+  tin: '12-3456789',
+  tcc: '5a123',
+  name: 'Orenna Inc',
+  address: '1 Market St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip: '94105',
+  contactName: 'Jane Filer',
+  contactPhone: '(415) 555-0100',
+  contactEmail: 'tax@orenna.example',
+};
+
+const payer = {
+  tin: '12-3456789',
+  name: 'Orenna Inc',
+  address: '1 Market St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip: '94105-1234',
+  phone: '415-555-0100',
+};
+
+const payee: FirePayee = {
+  tinType: 'SSN',
+  tin: '234-56-7890',
+  nameControl: 'RIVE',
+  name: 'Ana Rivera',
+  secondName: 'Rivera Surveying',
+  address: '22 Oak Ave',
+  city: 'Fresno',
+  state: 'CA',
+  zip: '93701',
+  accountNumber: 'V7',
+  nonemployeeCompensation: 1250050n,
+};
+
+// 1-based positions as listed in Publication 1220
+const field = (record: string, from: number, to: number) => record.slice(from - 1, to);
+
+describe('TIN validation', () => {
+  it('accepts well-formed numbers and strips separators', () => {
+    expect(validateTin('234-56-7890', 'SSN')).toEqual({ valid: true, tin: '234567890' });
+    expect(validateTin('12-3456780', 'EIN').valid).toBe(true);
+    expect(validateTin('912-70-1234', 'ITIN').valid).toBe(true);
+  });
+
+  it('rejects numbers the IRS never issues', () => {
+    expect(validateTin('666-12-3456', 'SSN').reason).toBe('SSN area number is never issued');
+    expect(validateTin('234-00-7890', 'SSN').valid).toBe(false);
+    expect(validateTin('123-45-6789', 'SSN').reason).toContain('placeholder');
+    expect(validateTin('07-1234567', 'EIN').reason).toBe('EIN prefix 07 is not assigned by the IRS');
+    expect(validateTin('912-45-1234', 'ITIN').valid).toBe(false);
+    expect(validateTin('12345', 'EIN').reason).toBe('EIN must be 9 digits');
+  });
+
+  it('masks all but the last four digits', () => {
+    expect(maskTin('234567890', 'SSN')).toBe('***-**-7890');
+    expect(maskTin('123456789', 'EIN')).toBe('**-***6789');
+  });
+
+  it('derives the IRS name control', () => {
+    expect(nameControl('Ana Rivera Jr', true)).toBe('RIVE');
+    expect(nameControl('The Green Acre Co', false)).toBe('GREE');
+    expect(nameControl('O\'Neil', true)).toBe('ONEI');
+  });
+});
+
+describe('1099-NEC reporting threshold', () => {
+  it('rises to $2,000 for payments made after 2025', () => {
+    expect(necReportingThreshold(2025)).toBe(60000n);
+    expect(necReportingThreshold(2026)).toBe(200000n);
+  });
+});
+
+describe('FIRE file', () => {
+  const file = buildFireFile(transmitter, payer, [payee, { ...payee, tin: undefined, tinType: undefined, name: 'No Tin LLC', accountNumber: 'V8', nonemployeeCompensation: 300000n }], {
+    taxYear: 2026,
+    testFile: true,
+  });
+  const records = file.contents.split('\r\n').slice(0, -1);
+
+  it('writes T, A, B, C and F records of 750 bytes', () => {
+    expect(records.map(record => record[0]).join('')).toBe('TABBCF');
+    for (const record of records) {
+      expect(record.length + 2).toBe(FIRE_RECORD_LENGTH);
+    }
+    expect(file.contents.endsWith('\r\n')).toBe(true);
+  });
+
+  it('numbers records sequentially', () => {
+    expect(records.map(record => field(record, 500, 507))).toEqual([
+      '00000001', '00000002', '00000003', '00000004', '00000005', '00000006',
+    ]);
+  });
+
+  it('marks the transmitter record as a test file', () => {
+    const [t] = records;
+    expect(field(t!, 2, 5)).toBe('2026');
+    expect(field(t!, 7, 15)).toBe('123456789');
+    expect(field(t!, 16, 20)).toBe('5A123');
+    expect(field(t!, 28, 28)).toBe('T');
+    expect(field(t!, 296, 303)).toBe('00000002');
+  });
+
+  it('declares form type NE and amount code 1 on the payer record', () => {
+    const a = records[1]!;
+    expect(field(a, 26, 27)).toBe('NE');
+    expect(field(a, 28, 45).trim()).toBe('1');
+  });
+
+  it('places the payee TIN, name and box 1 amount', () => {
+    const [, , b1, b2] = records;
+    expect(field(b1!, 7, 10)).toBe('RIVE');
+    expect(field(b1!, 11, 11)).toBe('2');
+    expect(field(b1!, 12, 20)).toBe('234567890');
+    expect(field(b1!, 21, 40).trim()).toBe('V7');
+    expect(field(b1!, 55, 66)).toBe('000001250050');
+    expect(field(b1!, 288, 327).trim()).toBe('ANA RIVERA');
+    expect(field(b1!, 328, 367).trim()).toBe('RIVERA SURVEYING');
+    expect(field(b1!, 490, 498).trim()).toBe('93701');
+    // A payee without a TIN is still reported
+    expect(field(b2!, 11, 20).trim()).toBe('');
+  });
+
+  it('totals payees and box 1 in the end of payer and end of transmission records', () => {
+    const c = records[4]!;
+    const f = records[5]!;
+    expect(field(c, 2, 9)).toBe('00000002');
+    expect(field(c, 16, 33)).toBe('000000000001550050');
+    expect(field(f, 2, 9)).toBe('00000001');
+    expect(file.totalCompensation).toBe(1550050n);
+    expect(file.payeeCount).toBe(2);
+  });
+
+  it('rejects malformed TINs rather than writing a bad record', () => {
+    expect(() => buildFireFile(transmitter, payer, [{ ...payee, tin: '1234' }], { taxYear: 2026 }))
+      .toThrow('Payee Ana Rivera TIN must be 9 digits');
+    expect(() => buildFireFile({ ...transmitter, tcc: 'ABC' }, payer, [payee], { taxYear: 2026 }))
+      .toThrow('Transmitter Control Code must be 5 characters');
+  });
+});
+
+describe('1099-NEC recipient copy', () => {
+  it('renders a PDF with a valid cross-reference table and masked TIN', () => {
+    const pdf = renderForm1099NecPdf(payer, payee, { taxYear: 2026, copy: 'B' }).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(***-**-7890)');
+    expect(pdf).not.toContain('234567890');
+    expect(pdf).toContain('($ 12500.50)');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
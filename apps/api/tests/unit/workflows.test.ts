@@ -0,0 +1,189 @@
+// apps/api/tests/unit/workflows.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WorkflowEngine } from '../../src/lib/workflows';
+
+function uniqueViolation() {
+  return Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+}
+
+function scheduledTrigger(overrides: Record<string, any> = {}) {
+  return {
+    id: 'nightly',
+    name: 'Nightly',
+    description: null,
+    enabled: true,
+    priority: 'low',
+    cooldownMinutes: 0,
+    schedule: '0 2 * * *',
+    timezone: 'UTC',
+    nextRunAt: new Date('2026-10-19T02:00:00Z'),
+    lastTriggeredAt: null,
+    isDefault: false,
+    conditions: [
+      { type: 'time_based', field: 'schedule', operator: '=', value: '0 2 * * *', metadata: { timezone: 'UTC' } }
+    ],
+    actions: [
+      { type: 'require_review', parameters: { reviewType: 'manual' }, delayMinutes: null }
+    ],
+    ...overrides
+  };
+}
+
+describe('WorkflowEngine', () => {
+  let prisma: any;
+  let engine: WorkflowEngine;
+
+  beforeEach(() => {
+    prisma = {
+      workflowTrigger: {
+        findMany: vi.fn().mockResolvedValue([]),
+        update: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 })
+      },
+      workflowExecution: {
+        create: vi.fn().mockResolvedValue({ id: 'exec-1', startedAt: new Date() }),
+        update: vi.fn().mockResolvedValue({})
+      },
+      workflowLease: {
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        create: vi.fn(),
+        deleteMany: vi.fn().mockResolvedValue({ count: 1 })
+      },
+      verificationResult: { findMany: vi.fn().mockResolvedValue([]) },
+      evidenceFile: { count: vi.fn().mockResolvedValue(0) }
+    };
+    engine = new WorkflowEngine(prisma, { instanceId: 'replica-a' });
+  });
+
+  describe('scheduler lease', () => {
+    it('creates the lease when none exists', async () => {
+      prisma.workflowLease.updateMany.mockResolvedValue({ count: 0 });
+      prisma.workflowLease.create.mockResolvedValue({});
+
+      expect(await engine.acquireSchedulerLease()).toBe(true);
+      expect(prisma.workflowLease.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ name: 'workflow-scheduler', holderId: 'replica-a' })
+      });
+    });
+
+    it('backs off while another replica holds an unexpired lease', async () => {
+      prisma.workflowLease.updateMany.mockResolvedValue({ count: 0 });
+      prisma.workflowLease.create.mockRejectedValue(uniqueViolation());
+
+      expect(await engine.acquireSchedulerLease()).toBe(false);
+    });
+
+    it('does not evaluate schedules without the lease', async () => {
+      prisma.workflowLease.updateMany.mockResolvedValue({ count: 0 });
+      prisma.workflowLease.create.mockRejectedValue(uniqueViolation());
+
+      await engine.checkTimeBasedTriggers(new Date('2026-10-19T02:00:10Z'));
+
+      expect(prisma.workflowTrigger.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduled triggers', () => {
+    it('fires due triggers once and advances nextRunAt', async () => {
+      const trigger = scheduledTrigger();
+      prisma.workflowTrigger.findMany.mockResolvedValue([trigger]);
+
+      await engine.checkTimeBasedTriggers(new Date('2026-10-19T02:00:10Z'));
+
+      expect(prisma.workflowTrigger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'nightly', nextRunAt: trigger.nextRunAt },
+        data: { nextRunAt: new Date('2026-10-20T02:00:00Z') }
+      });
+      expect(prisma.workflowExecution.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          triggerId: 'nightly',
+          source: 'schedule',
+          idempotencyKey: 'nightly:schedule:2026-10-19T02:00:00.000Z'
+        })
+      });
+      expect(prisma.workflowExecution.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'exec-1' },
+        data: expect.objectContaining({ status: 'completed' })
+      }));
+    });
+
+    it('skips when another replica already advanced the schedule', async () => {
+      prisma.workflowTrigger.findMany.mockResolvedValue([scheduledTrigger()]);
+      prisma.workflowTrigger.updateMany.mockResolvedValue({ count: 0 });
+
+      await engine.checkTimeBasedTriggers(new Date('2026-10-19T02:00:10Z'));
+
+      expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    });
+
+    it('only initialises nextRunAt for newly scheduled triggers', async () => {
+      prisma.workflowTrigger.findMany.mockResolvedValue([scheduledTrigger({ nextRunAt: null })]);
+
+      await engine.checkTimeBasedTriggers(new Date('2026-10-19T12:00:00Z'));
+
+      expect(prisma.workflowTrigger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'nightly', nextRunAt: null },
+        data: { nextRunAt: new Date('2026-10-20T02:00:00Z') }
+      });
+      expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('event triggers', () => {
+    const lowConfidence = scheduledTrigger({
+      id: 'low-confidence-review',
+      schedule: null,
+      nextRunAt: null,
+      conditions: [{ type: 'confidence_score', field: 'confidenceScore', operator: '<', value: 0.6, metadata: null }]
+    });
+
+    it('records an execution keyed by trigger, event and verification result', async () => {
+      prisma.workflowTrigger.findMany.mockResolvedValue([lowConfidence]);
+
+      await engine.processVerificationEvent('verification_completed', {
+        liftTokenId: 7,
+        verificationResultId: 42,
+        confidenceScore: 0.4
+      });
+
+      expect(prisma.workflowTrigger.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { enabled: true, schedule: null }
+      }));
+      expect(prisma.workflowExecution.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          idempotencyKey: 'low-confidence-review:verification_completed:42',
+          liftTokenId: 7,
+          verificationResultId: 42
+        })
+      });
+    });
+
+    it('skips actions when the execution was already recorded', async () => {
+      prisma.workflowTrigger.findMany.mockResolvedValue([lowConfidence]);
+      prisma.workflowExecution.create.mockRejectedValue(uniqueViolation());
+
+      await engine.processVerificationEvent('verification_completed', {
+        liftTokenId: 7,
+        verificationResultId: 42,
+        confidenceScore: 0.4
+      });
+
+      expect(prisma.workflowTrigger.update).not.toHaveBeenCalled();
+      expect(prisma.workflowExecution.update).not.toHaveBeenCalled();
+    });
+
+    it('respects the cooldown window', async () => {
+      prisma.workflowTrigger.findMany.mockResolvedValue([
+        { ...lowConfidence, cooldownMinutes: 60, lastTriggeredAt: new Date() }
+      ]);
+
+      await engine.processVerificationEvent('verification_completed', {
+        liftTokenId: 7,
+        verificationResultId: 43,
+        confidenceScore: 0.4
+      });
+
+      expect(prisma.workflowExecution.create).not.toHaveBeenCalled();
+    });
+  });
+});
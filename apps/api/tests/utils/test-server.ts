@@ -87,6 +87,18 @@ export class TestServer {
         upsert: vi.fn(),
         delete: vi.fn(),
       },
+      session: {
+        findUnique: vi.fn(),
+        findMany: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      authNonce: {
+        create: vi.fn(),
+        deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
       liftToken: {
         findUnique: vi.fn(),
         findMany: vi.fn(),
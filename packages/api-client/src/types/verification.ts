@@ -230,6 +230,17 @@ export const VWBA_EVIDENCE_TYPES = [
 
 export type VWBAEvidenceType = typeof VWBA_EVIDENCE_TYPES[number];
 
+// Evidence Types for Carbon Sequestration
+export const CARBON_EVIDENCE_TYPES = [
+  'FOREST_INVENTORY_DATA',
+  'SOIL_SAMPLE_DATA',
+  'BASELINE_ASSESSMENT',
+  'LEAKAGE_ASSESSMENT',
+  'GPS_COORDINATES'
+] as const;
+
+export type CarbonEvidenceType = typeof CARBON_EVIDENCE_TYPES[number];
+
 // WebSocket Update Types
 export interface VerificationUpdate {
   type: 'status_change' | 'processing_complete' | 'evidence_processed' | 'error';
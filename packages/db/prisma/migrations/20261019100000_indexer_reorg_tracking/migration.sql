@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "IndexedEvent" ADD COLUMN     "orphaned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "orphanedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "IndexedEvent_chainId_contractAddress_orphaned_blockNumber_idx" ON "IndexedEvent"("chainId", "contractAddress", "orphaned", "blockNumber");
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AuthNonce" (
+    "nonce" TEXT NOT NULL,
+    "clientIp" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthNonce_pkey" PRIMARY KEY ("nonce")
+);
+
+-- CreateIndex
+CREATE INDEX "Session_userId_revokedAt_idx" ON "Session"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "AuthNonce_expiresAt_idx" ON "AuthNonce"("expiresAt");
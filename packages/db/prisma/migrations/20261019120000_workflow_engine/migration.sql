@@ -0,0 +1,107 @@
+-- CreateTable
+CREATE TABLE "WorkflowTrigger" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "cooldownMinutes" INTEGER NOT NULL DEFAULT 0,
+    "schedule" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "nextRunAt" TIMESTAMP(3),
+    "lastTriggeredAt" TIMESTAMP(3),
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowTrigger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowCondition" (
+    "id" SERIAL NOT NULL,
+    "triggerId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "operator" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "metadata" JSONB,
+
+    CONSTRAINT "WorkflowCondition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowAction" (
+    "id" SERIAL NOT NULL,
+    "triggerId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "delayMinutes" INTEGER,
+
+    CONSTRAINT "WorkflowAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowExecution" (
+    "id" TEXT NOT NULL,
+    "triggerId" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "liftTokenId" INTEGER,
+    "verificationResultId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "executedActions" JSONB NOT NULL,
+    "context" JSONB,
+    "error" TEXT,
+    "scheduledFor" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WorkflowExecution_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowLease" (
+    "name" TEXT NOT NULL,
+    "holderId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkflowLease_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkflowTrigger_enabled_idx" ON "WorkflowTrigger"("enabled");
+
+-- CreateIndex
+CREATE INDEX "WorkflowTrigger_enabled_nextRunAt_idx" ON "WorkflowTrigger"("enabled", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "WorkflowCondition_triggerId_position_idx" ON "WorkflowCondition"("triggerId", "position");
+
+-- CreateIndex
+CREATE INDEX "WorkflowAction_triggerId_position_idx" ON "WorkflowAction"("triggerId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowExecution_idempotencyKey_key" ON "WorkflowExecution"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_triggerId_startedAt_idx" ON "WorkflowExecution"("triggerId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_status_idx" ON "WorkflowExecution"("status");
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_liftTokenId_idx" ON "WorkflowExecution"("liftTokenId");
+
+-- AddForeignKey
+ALTER TABLE "WorkflowCondition" ADD CONSTRAINT "WorkflowCondition_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "WorkflowTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowAction" ADD CONSTRAINT "WorkflowAction_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "WorkflowTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowExecution" ADD CONSTRAINT "WorkflowExecution_triggerId_fkey" FOREIGN KEY ("triggerId") REFERENCES "WorkflowTrigger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
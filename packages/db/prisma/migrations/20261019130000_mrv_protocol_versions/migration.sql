@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "VerificationResult" ADD COLUMN     "mrvAssessedAt" TIMESTAMP(3),
+ADD COLUMN     "mrvAssessment" JSONB,
+ADD COLUMN     "mrvProtocolVersionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "MRVProtocolVersion" (
+    "id" SERIAL NOT NULL,
+    "protocolId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "definition" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "effectiveFrom" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MRVProtocolVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MRVProtocolVersion_protocolId_idx" ON "MRVProtocolVersion"("protocolId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MRVProtocolVersion_protocolId_version_key" ON "MRVProtocolVersion"("protocolId", "version");
+
+-- AddForeignKey
+ALTER TABLE "VerificationResult" ADD CONSTRAINT "VerificationResult_mrvProtocolVersionId_fkey" FOREIGN KEY ("mrvProtocolVersionId") REFERENCES "MRVProtocolVersion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
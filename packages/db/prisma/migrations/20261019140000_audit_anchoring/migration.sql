@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "AuditAnchorBatch" (
+    "id" SERIAL NOT NULL,
+    "merkleRoot" TEXT,
+    "leafCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "ipfsCid" TEXT,
+    "chainId" INTEGER,
+    "txHash" TEXT,
+    "blockNumber" BIGINT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "anchoredAt" TIMESTAMP(3),
+
+    CONSTRAINT "AuditAnchorBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AuditEventAnchor" (
+    "id" SERIAL NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "eventHash" TEXT NOT NULL,
+    "batchId" INTEGER,
+    "leafIndex" INTEGER,
+    "merkleProof" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEventAnchor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditAnchorBatch_status_idx" ON "AuditAnchorBatch"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEventAnchor_eventId_key" ON "AuditEventAnchor"("eventId");
+
+-- CreateIndex
+CREATE INDEX "AuditEventAnchor_batchId_idx" ON "AuditEventAnchor"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "AuditEventAnchor" ADD CONSTRAINT "AuditEventAnchor_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "AuditAnchorBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" SERIAL NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "details" JSONB NOT NULL,
+    "eventHash" TEXT NOT NULL,
+    "previousEventHash" TEXT,
+    "signature" TEXT,
+    "blockchainTxHash" TEXT,
+    "ipfsHash" TEXT,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEvent_eventId_key" ON "AuditEvent"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEvent_eventHash_key" ON "AuditEvent"("eventHash");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_actor_idx" ON "AuditEvent"("actor");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_eventType_idx" ON "AuditEvent"("eventType");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_timestamp_idx" ON "AuditEvent"("timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEvent_entityType_entityId_sequence_key" ON "AuditEvent"("entityType", "entityId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "AuditEventAnchor" ADD CONSTRAINT "AuditEventAnchor_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "AuditEvent"("eventId") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Audit events are write-once
+CREATE FUNCTION "audit_event_reject_modification"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditEvent is write-once: % is not permitted', TG_OP
+        USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_reject_update_delete"
+    BEFORE UPDATE OR DELETE ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "audit_event_reject_modification"();
+
+CREATE TRIGGER "AuditEvent_reject_truncate"
+    BEFORE TRUNCATE ON "AuditEvent"
+    FOR EACH STATEMENT EXECUTE FUNCTION "audit_event_reject_modification"();
+
+-- New events must extend the head of their entity's hash chain
+CREATE FUNCTION "audit_event_check_chain"() RETURNS trigger AS $$
+DECLARE
+    head RECORD;
+BEGIN
+    SELECT "sequence", "eventHash" INTO head
+    FROM "AuditEvent"
+    WHERE "entityType" = NEW."entityType" AND "entityId" = NEW."entityId"
+    ORDER BY "sequence" DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        IF NEW."sequence" <> 0 OR NEW."previousEventHash" IS NOT NULL THEN
+            RAISE EXCEPTION 'First audit event for %/% must have sequence 0 and no previous hash',
+                NEW."entityType", NEW."entityId";
+        END IF;
+    ELSIF NEW."sequence" <> head."sequence" + 1
+        OR NEW."previousEventHash" IS DISTINCT FROM head."eventHash" THEN
+        RAISE EXCEPTION 'Audit event does not extend the hash chain for %/%',
+            NEW."entityType", NEW."entityId";
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditEvent_check_chain"
+    BEFORE INSERT ON "AuditEvent"
+    FOR EACH ROW EXECUTE FUNCTION "audit_event_check_chain"();
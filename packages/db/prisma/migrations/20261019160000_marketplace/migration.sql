@@ -0,0 +1,100 @@
+-- CreateTable
+CREATE TABLE "MarketplaceListing" (
+    "id" TEXT NOT NULL,
+    "liftTokenId" INTEGER NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "sellerAddress" TEXT NOT NULL,
+    "paymentToken" TEXT NOT NULL,
+    "quantity" DECIMAL(78,0) NOT NULL,
+    "remainingQuantity" DECIMAL(78,0) NOT NULL,
+    "unitPrice" DECIMAL(78,0) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "expiresAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "MarketplaceListing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceBid" (
+    "id" TEXT NOT NULL,
+    "liftTokenId" INTEGER NOT NULL,
+    "bidderAddress" TEXT NOT NULL,
+    "paymentToken" TEXT NOT NULL,
+    "quantity" DECIMAL(78,0) NOT NULL,
+    "remainingQuantity" DECIMAL(78,0) NOT NULL,
+    "unitPrice" DECIMAL(78,0) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+
+    CONSTRAINT "MarketplaceBid_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceFill" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "bidId" TEXT,
+    "buyerAddress" TEXT NOT NULL,
+    "quantity" DECIMAL(78,0) NOT NULL,
+    "unitPrice" DECIMAL(78,0) NOT NULL,
+    "totalPrice" DECIMAL(78,0) NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "txHash" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "MarketplaceFill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MarketplaceListing_liftTokenId_status_idx" ON "MarketplaceListing"("liftTokenId", "status");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceListing_projectId_idx" ON "MarketplaceListing"("projectId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceListing_sellerAddress_idx" ON "MarketplaceListing"("sellerAddress");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceBid_liftTokenId_status_idx" ON "MarketplaceBid"("liftTokenId", "status");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceBid_bidderAddress_idx" ON "MarketplaceBid"("bidderAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketplaceFill_paymentId_key" ON "MarketplaceFill"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceFill_listingId_idx" ON "MarketplaceFill"("listingId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceFill_bidId_idx" ON "MarketplaceFill"("bidId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceFill_buyerAddress_idx" ON "MarketplaceFill"("buyerAddress");
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceListing" ADD CONSTRAINT "MarketplaceListing_liftTokenId_fkey" FOREIGN KEY ("liftTokenId") REFERENCES "LiftToken"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceBid" ADD CONSTRAINT "MarketplaceBid_liftTokenId_fkey" FOREIGN KEY ("liftTokenId") REFERENCES "LiftToken"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceFill" ADD CONSTRAINT "MarketplaceFill_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "MarketplaceListing"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceFill" ADD CONSTRAINT "MarketplaceFill_bidId_fkey" FOREIGN KEY ("bidId") REFERENCES "MarketplaceBid"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceFill" ADD CONSTRAINT "MarketplaceFill_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,202 @@
+-- CreateTable
+CREATE TABLE "LiftForward" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER,
+    "proposalId" INTEGER,
+    "projectNftId" INTEGER,
+    "projectNftChainId" INTEGER,
+    "liftTokenId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "totalAmount" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "chainId" INTEGER,
+    "paymentToken" TEXT,
+    "escrowAddress" TEXT,
+    "unitPrice" DECIMAL(78,0),
+    "totalUnits" DECIMAL(78,0),
+    "availableUnits" DECIMAL(78,0),
+    "saleEndsAt" TIMESTAMP(3),
+    "funderAddress" TEXT,
+    "funderUserId" INTEGER,
+    "template" TEXT,
+    "challengeWindow" INTEGER NOT NULL DEFAULT 14,
+    "forwardRef" TEXT,
+    "linkTxHash" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LiftForward_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiftForwardMilestone" (
+    "id" SERIAL NOT NULL,
+    "liftForwardId" INTEGER NOT NULL,
+    "milestoneNumber" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "amount" TEXT NOT NULL DEFAULT '0',
+    "deliveryUnits" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "evidenceTypes" TEXT NOT NULL DEFAULT '[]',
+    "deadline" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "evidenceSubmitted" JSONB,
+    "mrvBundleHash" TEXT,
+    "mrvBundleIpfs" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "challengeWindowEnd" TIMESTAMP(3),
+    "challengedAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "failureReason" TEXT,
+    "verifierAddress" TEXT,
+    "verifierNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LiftForwardMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MilestoneChallenge" (
+    "id" SERIAL NOT NULL,
+    "milestoneId" INTEGER NOT NULL,
+    "challengerAddress" TEXT NOT NULL,
+    "challengerUserId" INTEGER,
+    "challengeReason" TEXT NOT NULL,
+    "evidenceHash" TEXT,
+    "evidenceIpfs" TEXT,
+    "bondAmount" TEXT NOT NULL,
+    "bondPaid" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "resolverAddress" TEXT,
+    "resolutionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "MilestoneChallenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiftForwardEvent" (
+    "id" SERIAL NOT NULL,
+    "liftForwardId" INTEGER NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "eventData" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LiftForwardEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiftForwardPosition" (
+    "id" TEXT NOT NULL,
+    "liftForwardId" INTEGER NOT NULL,
+    "buyerAddress" TEXT NOT NULL,
+    "units" DECIMAL(78,0) NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "deliveredUnits" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "refundedAmount" DECIMAL(78,0) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "fundedAt" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "LiftForwardPosition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LiftForwardSettlement" (
+    "id" TEXT NOT NULL,
+    "positionId" TEXT NOT NULL,
+    "milestoneId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "units" DECIMAL(78,0) NOT NULL,
+    "amount" DECIMAL(78,0) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "txHash" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "LiftForwardSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiftForward_forwardRef_key" ON "LiftForward"("forwardRef");
+
+-- CreateIndex
+CREATE INDEX "LiftForward_projectId_idx" ON "LiftForward"("projectId");
+
+-- CreateIndex
+CREATE INDEX "LiftForward_status_idx" ON "LiftForward"("status");
+
+-- CreateIndex
+CREATE INDEX "LiftForward_funderAddress_idx" ON "LiftForward"("funderAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiftForwardMilestone_liftForwardId_milestoneNumber_key" ON "LiftForwardMilestone"("liftForwardId", "milestoneNumber");
+
+-- CreateIndex
+CREATE INDEX "LiftForwardMilestone_status_idx" ON "LiftForwardMilestone"("status");
+
+-- CreateIndex
+CREATE INDEX "MilestoneChallenge_milestoneId_status_idx" ON "MilestoneChallenge"("milestoneId", "status");
+
+-- CreateIndex
+CREATE INDEX "LiftForwardEvent_liftForwardId_createdAt_idx" ON "LiftForwardEvent"("liftForwardId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiftForwardPosition_paymentId_key" ON "LiftForwardPosition"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "LiftForwardPosition_liftForwardId_status_idx" ON "LiftForwardPosition"("liftForwardId", "status");
+
+-- CreateIndex
+CREATE INDEX "LiftForwardPosition_buyerAddress_idx" ON "LiftForwardPosition"("buyerAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiftForwardSettlement_positionId_milestoneId_key" ON "LiftForwardSettlement"("positionId", "milestoneId");
+
+-- CreateIndex
+CREATE INDEX "LiftForwardSettlement_status_idx" ON "LiftForwardSettlement"("status");
+
+-- AddForeignKey
+ALTER TABLE "LiftForward" ADD CONSTRAINT "LiftForward_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForward" ADD CONSTRAINT "LiftForward_liftTokenId_fkey" FOREIGN KEY ("liftTokenId") REFERENCES "LiftToken"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForward" ADD CONSTRAINT "LiftForward_funderUserId_fkey" FOREIGN KEY ("funderUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardMilestone" ADD CONSTRAINT "LiftForwardMilestone_liftForwardId_fkey" FOREIGN KEY ("liftForwardId") REFERENCES "LiftForward"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MilestoneChallenge" ADD CONSTRAINT "MilestoneChallenge_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "LiftForwardMilestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MilestoneChallenge" ADD CONSTRAINT "MilestoneChallenge_challengerUserId_fkey" FOREIGN KEY ("challengerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardEvent" ADD CONSTRAINT "LiftForwardEvent_liftForwardId_fkey" FOREIGN KEY ("liftForwardId") REFERENCES "LiftForward"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardPosition" ADD CONSTRAINT "LiftForwardPosition_liftForwardId_fkey" FOREIGN KEY ("liftForwardId") REFERENCES "LiftForward"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardPosition" ADD CONSTRAINT "LiftForwardPosition_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardSettlement" ADD CONSTRAINT "LiftForwardSettlement_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "LiftForwardPosition"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForwardSettlement" ADD CONSTRAINT "LiftForwardSettlement_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "LiftForwardMilestone"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "BankStatementImport" (
+    "id" SERIAL NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PROCESSING',
+    "statementCount" INTEGER NOT NULL DEFAULT 0,
+    "reconciledCount" INTEGER NOT NULL DEFAULT 0,
+    "reviewCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "importedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BankStatementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementImport_fileHash_key" ON "BankStatementImport"("fileHash");
+
+-- CreateIndex
+CREATE INDEX "BankStatementImport_status_idx" ON "BankStatementImport"("status");
+
+-- CreateIndex
+CREATE INDEX "BankStatementImport_createdAt_idx" ON "BankStatementImport"("createdAt");
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "SafeProposal" (
+    "id" SERIAL NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "safeAddress" TEXT NOT NULL,
+    "safeTxHash" TEXT NOT NULL,
+    "nonce" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "owners" TEXT[],
+    "reference" TEXT NOT NULL,
+    "disbursementIds" INTEGER[],
+    "status" TEXT NOT NULL DEFAULT 'PENDING_SIGNATURES',
+    "executionTxHash" TEXT,
+    "executedAt" TIMESTAMP(3),
+    "lastNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SafeProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SafeConfirmation" (
+    "id" SERIAL NOT NULL,
+    "proposalId" INTEGER NOT NULL,
+    "signer" TEXT NOT NULL,
+    "signature" TEXT,
+    "source" TEXT NOT NULL,
+    "confirmedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SafeConfirmation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SafeProposal_safeTxHash_key" ON "SafeProposal"("safeTxHash");
+
+-- CreateIndex
+CREATE INDEX "SafeProposal_status_idx" ON "SafeProposal"("status");
+
+-- CreateIndex
+CREATE INDEX "SafeProposal_chainId_safeAddress_idx" ON "SafeProposal"("chainId", "safeAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SafeConfirmation_proposalId_signer_key" ON "SafeConfirmation"("proposalId", "signer");
+
+-- AddForeignKey
+ALTER TABLE "SafeConfirmation" ADD CONSTRAINT "SafeConfirmation_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "SafeProposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
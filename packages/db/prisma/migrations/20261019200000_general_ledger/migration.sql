@@ -0,0 +1,137 @@
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "fundingBucketId" INTEGER,
+    "bucketBalance" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" SERIAL NOT NULL,
+    "entryNumber" TEXT NOT NULL,
+    "entryType" TEXT NOT NULL,
+    "referenceType" TEXT NOT NULL,
+    "referenceId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "reversesEntryId" INTEGER,
+    "postedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" SERIAL NOT NULL,
+    "journalEntryId" INTEGER NOT NULL,
+    "accountId" INTEGER NOT NULL,
+    "debitCents" BIGINT NOT NULL DEFAULT 0,
+    "creditCents" BIGINT NOT NULL DEFAULT 0,
+
+    CONSTRAINT "JournalLine_pkey" PRIMARY KEY ("id"),
+    -- Each line is either a debit or a credit of a positive amount
+    CONSTRAINT "JournalLine_one_sided" CHECK (
+        ("debitCents" > 0 AND "creditCents" = 0) OR ("debitCents" = 0 AND "creditCents" > 0)
+    )
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_fundingBucketId_bucketBalance_key" ON "LedgerAccount"("fundingBucketId", "bucketBalance");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_entryNumber_key" ON "JournalEntry"("entryNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_reversesEntryId_key" ON "JournalEntry"("reversesEntryId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_referenceType_referenceId_idx" ON "JournalEntry"("referenceType", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_postedAt_idx" ON "JournalEntry"("postedAt");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_journalEntryId_idx" ON "JournalLine"("journalEntryId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountId_idx" ON "JournalLine"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "JournalEntry" ADD CONSTRAINT "JournalEntry_reversesEntryId_fkey" FOREIGN KEY ("reversesEntryId") REFERENCES "JournalEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "JournalLine" ADD CONSTRAINT "JournalLine_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Journal entries and lines are write-once
+CREATE FUNCTION "journal_reject_modification"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION '% is write-once: % is not permitted', TG_TABLE_NAME, TG_OP
+        USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "JournalEntry_reject_update_delete"
+    BEFORE UPDATE OR DELETE ON "JournalEntry"
+    FOR EACH ROW EXECUTE FUNCTION "journal_reject_modification"();
+
+CREATE TRIGGER "JournalEntry_reject_truncate"
+    BEFORE TRUNCATE ON "JournalEntry"
+    FOR EACH STATEMENT EXECUTE FUNCTION "journal_reject_modification"();
+
+CREATE TRIGGER "JournalLine_reject_update_delete"
+    BEFORE UPDATE OR DELETE ON "JournalLine"
+    FOR EACH ROW EXECUTE FUNCTION "journal_reject_modification"();
+
+CREATE TRIGGER "JournalLine_reject_truncate"
+    BEFORE TRUNCATE ON "JournalLine"
+    FOR EACH STATEMENT EXECUTE FUNCTION "journal_reject_modification"();
+
+-- Debits and credits of an entry must be equal when its transaction commits.
+-- Checking at commit lets the entry and its lines be inserted separately.
+CREATE FUNCTION "journal_entry_check_balanced"() RETURNS trigger AS $$
+DECLARE
+    entry_id INTEGER;
+    debits BIGINT;
+    credits BIGINT;
+BEGIN
+    IF TG_TABLE_NAME = 'JournalEntry' THEN
+        entry_id := NEW."id";
+    ELSE
+        entry_id := NEW."journalEntryId";
+    END IF;
+
+    SELECT COALESCE(SUM("debitCents"), 0), COALESCE(SUM("creditCents"), 0)
+    INTO debits, credits
+    FROM "JournalLine"
+    WHERE "journalEntryId" = entry_id;
+
+    IF debits = 0 OR debits <> credits THEN
+        RAISE EXCEPTION 'Journal entry % is not balanced: debits %, credits %', entry_id, debits, credits;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER "JournalEntry_check_balanced"
+    AFTER INSERT ON "JournalEntry"
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION "journal_entry_check_balanced"();
+
+CREATE CONSTRAINT TRIGGER "JournalLine_check_balanced"
+    AFTER INSERT ON "JournalLine"
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION "journal_entry_check_balanced"();
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "AccountMapping" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "mappingType" TEXT NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "accountName" TEXT,
+    "subledger" TEXT,
+    "updatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountMapping_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AccountingExport" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "format" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "entryCount" INTEGER NOT NULL,
+    "exportedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountingExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AccountingExportItem" (
+    "id" SERIAL NOT NULL,
+    "exportId" INTEGER NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" INTEGER NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "amountCents" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountingExportItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountMapping_projectId_mappingType_sourceKey_key" ON "AccountMapping"("projectId", "mappingType", "sourceKey");
+
+-- CreateIndex
+CREATE INDEX "AccountingExport_projectId_createdAt_idx" ON "AccountingExport"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountingExportItem_sourceType_sourceId_key" ON "AccountingExportItem"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "AccountingExportItem_exportId_idx" ON "AccountingExportItem"("exportId");
+
+-- AddForeignKey
+ALTER TABLE "AccountingExportItem" ADD CONSTRAINT "AccountingExportItem_exportId_fkey" FOREIGN KEY ("exportId") REFERENCES "AccountingExport"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "currency" TEXT,
+ADD COLUMN "decimals" INTEGER;
+
+-- CreateTable
+CREATE TABLE "FxRate" (
+    "id" SERIAL NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(30,12) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FxRate_baseCurrency_quoteCurrency_effectiveDate_key" ON "FxRate"("baseCurrency", "quoteCurrency", "effectiveDate");
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "VendorInvite" (
+    "id" SERIAL NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VendorTaxForm" (
+    "id" SERIAL NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "formType" TEXT NOT NULL,
+    "legalName" TEXT NOT NULL,
+    "businessName" TEXT,
+    "taxClassification" TEXT NOT NULL,
+    "tinType" TEXT,
+    "tinEncrypted" TEXT,
+    "tinLast4" TEXT,
+    "exemptPayeeCode" TEXT,
+    "fatcaExemptionCode" TEXT,
+    "backupWithholding" BOOLEAN NOT NULL DEFAULT false,
+    "countryOfCitizenship" TEXT,
+    "address" JSONB NOT NULL,
+    "signatureName" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+    "signerIp" TEXT,
+    "submittedVia" TEXT NOT NULL,
+    "inviteId" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "supersededAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorTaxForm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VendorInvite_tokenHash_key" ON "VendorInvite"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "VendorInvite_vendorId_idx" ON "VendorInvite"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "VendorTaxForm_vendorId_status_idx" ON "VendorTaxForm"("vendorId", "status");
+
+-- AddForeignKey
+ALTER TABLE "VendorTaxForm" ADD CONSTRAINT "VendorTaxForm_inviteId_fkey" FOREIGN KEY ("inviteId") REFERENCES "VendorInvite"("id") ON DELETE SET NULL ON UPDATE CASCADE;
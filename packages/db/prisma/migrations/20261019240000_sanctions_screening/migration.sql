@@ -0,0 +1,91 @@
+-- CreateTable
+CREATE TABLE "SanctionsList" (
+    "id" SERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+    "entryCount" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT false,
+    "importedBy" TEXT NOT NULL,
+    "importedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SanctionsList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SanctionsEntry" (
+    "id" SERIAL NOT NULL,
+    "listId" INTEGER NOT NULL,
+    "uid" INTEGER NOT NULL,
+    "entryType" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "weakAliases" TEXT[],
+    "programs" TEXT[],
+    "addresses" JSONB NOT NULL DEFAULT '[]',
+    "remarks" TEXT,
+
+    CONSTRAINT "SanctionsEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SanctionsDigitalAddress" (
+    "id" SERIAL NOT NULL,
+    "entryId" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+
+    CONSTRAINT "SanctionsDigitalAddress_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SanctionsHit" (
+    "id" SERIAL NOT NULL,
+    "subjectType" TEXT NOT NULL,
+    "subjectRef" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "entryUid" INTEGER NOT NULL,
+    "entryName" TEXT NOT NULL,
+    "programs" TEXT[],
+    "matchType" TEXT NOT NULL,
+    "screenedValue" TEXT NOT NULL,
+    "matchedValue" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "action" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SanctionsHit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SanctionsList_source_active_idx" ON "SanctionsList"("source", "active");
+
+-- CreateIndex
+CREATE INDEX "SanctionsEntry_listId_idx" ON "SanctionsEntry"("listId");
+
+-- CreateIndex
+CREATE INDEX "SanctionsDigitalAddress_address_idx" ON "SanctionsDigitalAddress"("address");
+
+-- CreateIndex
+CREATE INDEX "SanctionsDigitalAddress_entryId_idx" ON "SanctionsDigitalAddress"("entryId");
+
+-- CreateIndex
+CREATE INDEX "SanctionsHit_subjectType_subjectRef_idx" ON "SanctionsHit"("subjectType", "subjectRef");
+
+-- CreateIndex
+CREATE INDEX "SanctionsHit_screenedValue_source_entryUid_idx" ON "SanctionsHit"("screenedValue", "source", "entryUid");
+
+-- CreateIndex
+CREATE INDEX "SanctionsHit_status_idx" ON "SanctionsHit"("status");
+
+-- AddForeignKey
+ALTER TABLE "SanctionsEntry" ADD CONSTRAINT "SanctionsEntry_listId_fkey" FOREIGN KEY ("listId") REFERENCES "SanctionsList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SanctionsDigitalAddress" ADD CONSTRAINT "SanctionsDigitalAddress_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "SanctionsEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,948 @@
+-- CreateEnum
+CREATE TYPE "FinanceRole" AS ENUM ('VENDOR', 'PROJECT_MANAGER', 'FINANCE_REVIEWER', 'TREASURER', 'DAO_MULTISIG', 'AUDITOR', 'BENEFICIARY');
+
+-- CreateEnum
+CREATE TYPE "SystemRoleType" AS ENUM ('PLATFORM_ADMIN', 'SYSTEM_AUDITOR', 'TREASURY_MANAGER');
+
+-- CreateEnum
+CREATE TYPE "RoleChangeType" AS ENUM ('ROLE_ASSIGNED', 'ROLE_REVOKED', 'ROLE_UPDATED');
+
+-- CreateEnum
+CREATE TYPE "ContractType" AS ENUM ('FIXED_PRICE', 'TIME_AND_MATERIALS', 'COST_PLUS', 'UNIT_PRICE', 'GRANT');
+
+-- CreateEnum
+CREATE TYPE "ContractStatus" AS ENUM ('DRAFT', 'PENDING_APPROVAL', 'APPROVED', 'SIGNED', 'ACTIVE', 'COMPLETED', 'TERMINATED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "ChangeOrderReason" AS ENUM ('SCOPE_CHANGE', 'DESIGN_CHANGE', 'FIELD_CONDITION', 'OWNER_REQUEST', 'REGULATORY', 'EMERGENCY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ChangeOrderCategory" AS ENUM ('SCOPE_CHANGE', 'DESIGN_CHANGE', 'FIELD_CONDITION', 'OWNER_REQUEST', 'REGULATORY', 'EMERGENCY', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ChangeOrderStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED', 'IMPLEMENTED');
+
+-- CreateEnum
+CREATE TYPE "InvoiceType" AS ENUM ('PROGRESS', 'COMPLETION', 'FINAL', 'CHANGE_ORDER', 'RETENTION');
+
+-- CreateEnum
+CREATE TYPE "InvoiceStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'UNDER_REVIEW', 'APPROVED', 'SCHEDULED', 'PAID', 'REJECTED', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "ApprovalDecision" AS ENUM ('APPROVED', 'REJECTED', 'CONDITIONAL');
+
+-- CreateEnum
+CREATE TYPE "DisbursementStatus" AS ENUM ('PENDING', 'PROCESSING', 'CONFIRMED', 'FAILED', 'RECONCILED', 'ON_HOLD', 'BLOCKED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('ACH', 'WIRE', 'CHECK', 'USDC', 'SAFE_MULTISIG');
+
+-- CreateTable
+CREATE TABLE "ProjectRole" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "role" "FinanceRole" NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "approvalLimit" TEXT,
+    "assignedBy" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "revokedBy" TEXT,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ProjectRole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SystemRole" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" "SystemRoleType" NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "assignedBy" TEXT NOT NULL,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedBy" TEXT,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SystemRole_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoleChangeEvent" (
+    "id" SERIAL NOT NULL,
+    "targetUserId" INTEGER NOT NULL,
+    "projectId" INTEGER,
+    "eventType" "RoleChangeType" NOT NULL,
+    "oldRole" TEXT,
+    "newRole" TEXT,
+    "roleType" TEXT NOT NULL,
+    "performedBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoleChangeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalMatrix" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "tier1MaxAmount" TEXT NOT NULL DEFAULT '1000000',
+    "tier2MaxAmount" TEXT NOT NULL DEFAULT '5000000',
+    "tier3RequiresMultisig" BOOLEAN NOT NULL DEFAULT true,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "tier1RequiredRoles" TEXT NOT NULL DEFAULT '["PROJECT_MANAGER","FINANCE_REVIEWER"]',
+    "tier2RequiredRoles" TEXT NOT NULL DEFAULT '["PROJECT_MANAGER","FINANCE_REVIEWER","TREASURER"]',
+    "tier3RequiredRoles" TEXT NOT NULL DEFAULT '["PROJECT_MANAGER","FINANCE_REVIEWER","TREASURER","DAO_MULTISIG"]',
+    "requiresDualApproval" BOOLEAN NOT NULL DEFAULT true,
+    "allowSelfApproval" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalMatrix_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Vendor" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "legalName" TEXT,
+    "email" TEXT,
+    "phone" TEXT,
+    "website" TEXT,
+    "address" JSONB,
+    "taxStatus" TEXT,
+    "taxId" TEXT,
+    "paymentMethod" TEXT,
+    "bankDetails" JSONB,
+    "cryptoAddress" TEXT,
+    "safeAddress" TEXT,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "kycStatus" TEXT NOT NULL DEFAULT 'PENDING',
+    "kycApprovedAt" TIMESTAMP(3),
+    "kycApprovedBy" TEXT,
+    "kycRejectedAt" TIMESTAMP(3),
+    "kycRejectedBy" TEXT,
+    "sanctionsStatus" TEXT,
+    "sanctionsCheckedAt" TIMESTAMP(3),
+    "debarmentStatus" TEXT,
+    "debarmentCheckedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "invites" "VendorInvite" NOT NULL,
+    "taxForms" "VendorTaxForm" NOT NULL,
+
+    CONSTRAINT "Vendor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VendorDocument" (
+    "id" SERIAL NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "originalFileName" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "ipfsCid" TEXT,
+    "fileSize" BIGINT NOT NULL,
+    "mimeType" TEXT,
+    "documentType" TEXT NOT NULL,
+    "issueDate" TIMESTAMP(3),
+    "expiryDate" TIMESTAMP(3),
+    "issuingAuthority" TEXT,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VendorDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FundingBucket" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "ledgerAccounts" "LedgerAccount" NOT NULL,
+
+    CONSTRAINT "FundingBucket_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BudgetLine" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "wbsCode" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "originalBudget" BIGINT NOT NULL DEFAULT 0,
+    "revisedBudget" BIGINT NOT NULL DEFAULT 0,
+    "committedAmount" BIGINT NOT NULL DEFAULT 0,
+    "spentAmount" BIGINT NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BudgetLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Deposit" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "fundingBucketId" INTEGER NOT NULL,
+    "amountCents" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "fxRate" DECIMAL(30,12),
+    "fxBaseCurrency" TEXT,
+    "fxRateDate" TIMESTAMP(3),
+    "sourceRef" TEXT,
+    "txHash" TEXT,
+    "memo" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'COMPLETED',
+    "depositedBy" TEXT NOT NULL,
+    "depositedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Deposit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FinanceContract" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "fundingBucketId" INTEGER NOT NULL,
+    "contractNumber" TEXT NOT NULL,
+    "contractType" "ContractType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "originalAmount" BIGINT NOT NULL,
+    "currentAmount" BIGINT NOT NULL,
+    "notToExceed" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "paymentTerms" TEXT,
+    "retentionPercent" INTEGER NOT NULL DEFAULT 10,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "milestones" JSONB,
+    "status" "ContractStatus" NOT NULL DEFAULT 'DRAFT',
+    "approvalStatus" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "createdBy" TEXT NOT NULL,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "signedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FinanceContract_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContractBudgetAllocation" (
+    "id" SERIAL NOT NULL,
+    "contractId" INTEGER NOT NULL,
+    "budgetLineId" INTEGER NOT NULL,
+    "allocatedAmount" BIGINT NOT NULL,
+    "percentage" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractBudgetAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ChangeOrder" (
+    "id" SERIAL NOT NULL,
+    "contractId" INTEGER NOT NULL,
+    "changeOrderNumber" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "deltaAmount" BIGINT NOT NULL,
+    "newContractTotal" BIGINT NOT NULL,
+    "deltaTimedays" INTEGER,
+    "newEndDate" TIMESTAMP(3),
+    "reason" "ChangeOrderReason" NOT NULL,
+    "category" "ChangeOrderCategory" NOT NULL,
+    "justification" TEXT NOT NULL,
+    "status" "ChangeOrderStatus" NOT NULL DEFAULT 'DRAFT',
+    "approvalStatus" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedBy" TEXT NOT NULL,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "implementedBy" TEXT,
+    "implementedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChangeOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" SERIAL NOT NULL,
+    "contractId" INTEGER NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "invoiceType" "InvoiceType" NOT NULL DEFAULT 'PROGRESS',
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "billingDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dueDate" TIMESTAMP(3),
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "fxRate" DECIMAL(30,12),
+    "fxBaseCurrency" TEXT,
+    "fxRateDate" TIMESTAMP(3),
+    "subtotalCents" BIGINT NOT NULL,
+    "taxesCents" BIGINT NOT NULL DEFAULT 0,
+    "retentionCents" BIGINT NOT NULL DEFAULT 0,
+    "witholdingsCents" BIGINT NOT NULL DEFAULT 0,
+    "totalCents" BIGINT NOT NULL,
+    "netPayableCents" BIGINT NOT NULL,
+    "percentComplete" DOUBLE PRECISION,
+    "cumulativeAmount" BIGINT,
+    "previousAmountPaid" BIGINT,
+    "status" "InvoiceStatus" NOT NULL DEFAULT 'DRAFT',
+    "approvalStatus" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "attachments" JSONB,
+    "submittedBy" TEXT NOT NULL,
+    "submittedAt" TIMESTAMP(3),
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNotes" TEXT,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "scheduledPayDate" TIMESTAMP(3),
+    "paidDate" TIMESTAMP(3),
+    "paidAmount" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceCoding" (
+    "id" SERIAL NOT NULL,
+    "invoiceId" INTEGER NOT NULL,
+    "budgetLineId" INTEGER NOT NULL,
+    "amountCents" BIGINT NOT NULL,
+    "percentage" DOUBLE PRECISION,
+    "description" TEXT,
+    "accountCode" TEXT,
+    "costCenter" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InvoiceCoding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FinanceApproval" (
+    "id" SERIAL NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "invoiceId" INTEGER,
+    "approverRole" "FinanceRole" NOT NULL,
+    "approverAddress" TEXT NOT NULL,
+    "decision" "ApprovalDecision" NOT NULL,
+    "approvalAmount" BIGINT,
+    "notes" TEXT,
+    "conditions" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FinanceApproval_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentRun" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "totalInvoices" INTEGER NOT NULL,
+    "totalAmount" BIGINT NOT NULL,
+    "scheduledDate" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "executedAt" TIMESTAMP(3),
+    "executedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Disbursement" (
+    "id" SERIAL NOT NULL,
+    "invoiceId" INTEGER NOT NULL,
+    "vendorId" INTEGER NOT NULL,
+    "paymentRunId" TEXT,
+    "disbursementNumber" TEXT NOT NULL,
+    "amountCents" BIGINT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "fxRate" DECIMAL(30,12),
+    "fxBaseCurrency" TEXT,
+    "fxRateDate" TIMESTAMP(3),
+    "paymentMethod" "PaymentMethod" NOT NULL,
+    "status" "DisbursementStatus" NOT NULL DEFAULT 'PENDING',
+    "scheduledDate" TIMESTAMP(3),
+    "executedDate" TIMESTAMP(3),
+    "txHash" TEXT,
+    "bankReference" TEXT,
+    "blockNumber" INTEGER,
+    "confirmations" INTEGER,
+    "reconciledDate" TIMESTAMP(3),
+    "reconciliationType" TEXT,
+    "reconciliationConfidence" DOUBLE PRECISION,
+    "failureReason" TEXT,
+    "retryCount" INTEGER NOT NULL DEFAULT 0,
+    "initiatedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Disbursement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VerificationGate" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "gateName" TEXT NOT NULL,
+    "phase" TEXT,
+    "requirement" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "passedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VerificationGate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VerificationAttestation" (
+    "id" SERIAL NOT NULL,
+    "verificationGateId" INTEGER NOT NULL,
+    "attestorId" TEXT NOT NULL,
+    "passed" BOOLEAN NOT NULL,
+    "note" TEXT,
+    "evidenceUrl" TEXT,
+    "attestedBy" TEXT NOT NULL,
+    "attestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VerificationAttestation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Receipt" (
+    "id" SERIAL NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "liftTokenId" INTEGER NOT NULL,
+    "beneficiaryId" TEXT NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "quantity" BIGINT NOT NULL,
+    "reason" TEXT,
+    "memo" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'GENERATED',
+    "generatedBy" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "metadata" JSONB,
+
+    CONSTRAINT "Receipt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FinanceLink" (
+    "id" SERIAL NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "linkType" TEXT NOT NULL,
+    "memo" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FinanceLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationLog" (
+    "id" SERIAL NOT NULL,
+    "disbursementId" INTEGER NOT NULL,
+    "matchType" TEXT NOT NULL,
+    "matchConfidence" DOUBLE PRECISION NOT NULL,
+    "externalReference" TEXT NOT NULL,
+    "statementImportId" INTEGER,
+    "matchedAmount" DOUBLE PRECISION NOT NULL,
+    "amountDifference" DOUBLE PRECISION NOT NULL,
+    "autoReconciled" BOOLEAN NOT NULL DEFAULT false,
+    "approvedBy" TEXT,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationReview" (
+    "id" SERIAL NOT NULL,
+    "disbursementId" INTEGER NOT NULL,
+    "matchType" TEXT NOT NULL,
+    "matchConfidence" DOUBLE PRECISION NOT NULL,
+    "externalReference" TEXT NOT NULL,
+    "statementImportId" INTEGER,
+    "externalAmount" DOUBLE PRECISION NOT NULL,
+    "amountDifference" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING_REVIEW',
+    "reviewReason" TEXT NOT NULL,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectedBy" TEXT,
+    "rejectedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceToken" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "tokenAddress" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "balance" TEXT NOT NULL,
+    "votingPower" TEXT NOT NULL,
+    "delegatedTo" TEXT,
+    "delegatedAmount" TEXT,
+    "lastSyncAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GovernanceToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceDelegation" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "delegatorAddress" TEXT NOT NULL,
+    "delegateeAddress" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "txHash" TEXT,
+    "blockNumber" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "GovernanceDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceProposal" (
+    "id" SERIAL NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "proposalType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "targets" TEXT NOT NULL,
+    "values" TEXT NOT NULL,
+    "calldatas" TEXT NOT NULL,
+    "ecosystemData" JSONB,
+    "methodRegistryData" JSONB,
+    "financeData" JSONB,
+    "liftTokenData" JSONB,
+    "ipfsHash" TEXT,
+    "metadataUri" TEXT,
+    "proposerAddress" TEXT NOT NULL,
+    "proposerUserId" INTEGER,
+    "forVotes" TEXT NOT NULL DEFAULT '0',
+    "againstVotes" TEXT NOT NULL DEFAULT '0',
+    "abstainVotes" TEXT NOT NULL DEFAULT '0',
+    "antispamDeposit" TEXT,
+    "depositPaid" BOOLEAN NOT NULL DEFAULT false,
+    "depositRefunded" BOOLEAN NOT NULL DEFAULT false,
+    "startBlock" INTEGER,
+    "endBlock" INTEGER,
+    "snapshotBlock" INTEGER,
+    "queuedAt" TIMESTAMP(3),
+    "timelockEta" TIMESTAMP(3),
+    "timelockDelay" INTEGER,
+    "executedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GovernanceProposal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceSponsorship" (
+    "id" SERIAL NOT NULL,
+    "proposalId" INTEGER NOT NULL,
+    "sponsorAddress" TEXT NOT NULL,
+    "sponsorUserId" INTEGER,
+    "votingPower" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GovernanceSponsorship_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceVote" (
+    "id" SERIAL NOT NULL,
+    "proposalId" INTEGER NOT NULL,
+    "voterAddress" TEXT NOT NULL,
+    "voterUserId" INTEGER,
+    "support" TEXT NOT NULL,
+    "votingPower" DECIMAL(78,0) NOT NULL,
+    "reason" TEXT,
+    "txHash" TEXT,
+    "blockNumber" INTEGER,
+    "votedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GovernanceVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceEvent" (
+    "id" SERIAL NOT NULL,
+    "proposalId" INTEGER NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "txHash" TEXT,
+    "blockNumber" INTEGER,
+    "eventData" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GovernanceEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceParameter" (
+    "id" SERIAL NOT NULL,
+    "parameterKey" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "currentValue" TEXT NOT NULL,
+    "previousValue" TEXT,
+    "lastChangedBy" TEXT,
+    "lastChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GovernanceParameter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GovernanceParameterChange" (
+    "id" SERIAL NOT NULL,
+    "parameterId" INTEGER NOT NULL,
+    "proposalId" TEXT,
+    "oldValue" TEXT NOT NULL,
+    "newValue" TEXT NOT NULL,
+    "implementedBy" TEXT,
+    "emergencyOverride" BOOLEAN NOT NULL DEFAULT false,
+    "emergencyReason" TEXT,
+    "implementedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GovernanceParameterChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectRole_userId_projectId_role_key" ON "ProjectRole"("userId", "projectId", "role");
+
+-- CreateIndex
+CREATE INDEX "ProjectRole_projectId_active_idx" ON "ProjectRole"("projectId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SystemRole_userId_role_key" ON "SystemRole"("userId", "role");
+
+-- CreateIndex
+CREATE INDEX "RoleChangeEvent_targetUserId_idx" ON "RoleChangeEvent"("targetUserId");
+
+-- CreateIndex
+CREATE INDEX "RoleChangeEvent_projectId_idx" ON "RoleChangeEvent"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalMatrix_projectId_key" ON "ApprovalMatrix"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Vendor_name_idx" ON "Vendor"("name");
+
+-- CreateIndex
+CREATE INDEX "Vendor_status_idx" ON "Vendor"("status");
+
+-- CreateIndex
+CREATE INDEX "Vendor_kycStatus_idx" ON "Vendor"("kycStatus");
+
+-- CreateIndex
+CREATE INDEX "VendorDocument_vendorId_idx" ON "VendorDocument"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "FundingBucket_projectId_type_idx" ON "FundingBucket"("projectId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetLine_projectId_wbsCode_key" ON "BudgetLine"("projectId", "wbsCode");
+
+-- CreateIndex
+CREATE INDEX "Deposit_projectId_idx" ON "Deposit"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Deposit_fundingBucketId_idx" ON "Deposit"("fundingBucketId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FinanceContract_contractNumber_key" ON "FinanceContract"("contractNumber");
+
+-- CreateIndex
+CREATE INDEX "FinanceContract_projectId_idx" ON "FinanceContract"("projectId");
+
+-- CreateIndex
+CREATE INDEX "FinanceContract_vendorId_idx" ON "FinanceContract"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "FinanceContract_status_idx" ON "FinanceContract"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractBudgetAllocation_contractId_budgetLineId_key" ON "ContractBudgetAllocation"("contractId", "budgetLineId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChangeOrder_contractId_changeOrderNumber_key" ON "ChangeOrder"("contractId", "changeOrderNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_vendorId_invoiceNumber_key" ON "Invoice"("vendorId", "invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "Invoice_contractId_idx" ON "Invoice"("contractId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_status_idx" ON "Invoice"("status");
+
+-- CreateIndex
+CREATE INDEX "InvoiceCoding_invoiceId_idx" ON "InvoiceCoding"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "FinanceApproval_targetType_targetId_idx" ON "FinanceApproval"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "FinanceApproval_invoiceId_idx" ON "FinanceApproval"("invoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Disbursement_disbursementNumber_key" ON "Disbursement"("disbursementNumber");
+
+-- CreateIndex
+CREATE INDEX "Disbursement_invoiceId_idx" ON "Disbursement"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "Disbursement_paymentRunId_idx" ON "Disbursement"("paymentRunId");
+
+-- CreateIndex
+CREATE INDEX "Disbursement_status_idx" ON "Disbursement"("status");
+
+-- CreateIndex
+CREATE INDEX "VerificationGate_projectId_idx" ON "VerificationGate"("projectId");
+
+-- CreateIndex
+CREATE INDEX "VerificationAttestation_verificationGateId_idx" ON "VerificationAttestation"("verificationGateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Receipt_receiptId_key" ON "Receipt"("receiptId");
+
+-- CreateIndex
+CREATE INDEX "Receipt_projectId_idx" ON "Receipt"("projectId");
+
+-- CreateIndex
+CREATE INDEX "FinanceLink_sourceType_sourceId_idx" ON "FinanceLink"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "FinanceLink_targetType_targetId_idx" ON "FinanceLink"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationLog_disbursementId_idx" ON "ReconciliationLog"("disbursementId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationLog_statementImportId_idx" ON "ReconciliationLog"("statementImportId");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationReview_status_idx" ON "ReconciliationReview"("status");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationReview_disbursementId_idx" ON "ReconciliationReview"("disbursementId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceToken_userId_tokenAddress_chainId_key" ON "GovernanceToken"("userId", "tokenAddress", "chainId");
+
+-- CreateIndex
+CREATE INDEX "GovernanceDelegation_tokenId_active_idx" ON "GovernanceDelegation"("tokenId", "active");
+
+-- CreateIndex
+CREATE INDEX "GovernanceDelegation_delegateeAddress_idx" ON "GovernanceDelegation"("delegateeAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceProposal_proposalId_key" ON "GovernanceProposal"("proposalId");
+
+-- CreateIndex
+CREATE INDEX "GovernanceProposal_chainId_status_idx" ON "GovernanceProposal"("chainId", "status");
+
+-- CreateIndex
+CREATE INDEX "GovernanceProposal_proposerAddress_idx" ON "GovernanceProposal"("proposerAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceSponsorship_proposalId_sponsorAddress_key" ON "GovernanceSponsorship"("proposalId", "sponsorAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceVote_proposalId_voterAddress_key" ON "GovernanceVote"("proposalId", "voterAddress");
+
+-- CreateIndex
+CREATE INDEX "GovernanceEvent_proposalId_createdAt_idx" ON "GovernanceEvent"("proposalId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceParameter_parameterKey_key" ON "GovernanceParameter"("parameterKey");
+
+-- CreateIndex
+CREATE INDEX "GovernanceParameterChange_parameterId_createdAt_idx" ON "GovernanceParameterChange"("parameterId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProjectRole" ADD CONSTRAINT "ProjectRole_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectRole" ADD CONSTRAINT "ProjectRole_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SystemRole" ADD CONSTRAINT "SystemRole_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalMatrix" ADD CONSTRAINT "ApprovalMatrix_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorDocument" ADD CONSTRAINT "VendorDocument_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundingBucket" ADD CONSTRAINT "FundingBucket_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetLine" ADD CONSTRAINT "BudgetLine_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Deposit" ADD CONSTRAINT "Deposit_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Deposit" ADD CONSTRAINT "Deposit_fundingBucketId_fkey" FOREIGN KEY ("fundingBucketId") REFERENCES "FundingBucket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceContract" ADD CONSTRAINT "FinanceContract_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceContract" ADD CONSTRAINT "FinanceContract_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceContract" ADD CONSTRAINT "FinanceContract_fundingBucketId_fkey" FOREIGN KEY ("fundingBucketId") REFERENCES "FundingBucket"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContractBudgetAllocation" ADD CONSTRAINT "ContractBudgetAllocation_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "FinanceContract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContractBudgetAllocation" ADD CONSTRAINT "ContractBudgetAllocation_budgetLineId_fkey" FOREIGN KEY ("budgetLineId") REFERENCES "BudgetLine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChangeOrder" ADD CONSTRAINT "ChangeOrder_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "FinanceContract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "FinanceContract"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceCoding" ADD CONSTRAINT "InvoiceCoding_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InvoiceCoding" ADD CONSTRAINT "InvoiceCoding_budgetLineId_fkey" FOREIGN KEY ("budgetLineId") REFERENCES "BudgetLine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceApproval" ADD CONSTRAINT "FinanceApproval_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Disbursement" ADD CONSTRAINT "Disbursement_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Disbursement" ADD CONSTRAINT "Disbursement_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Disbursement" ADD CONSTRAINT "Disbursement_paymentRunId_fkey" FOREIGN KEY ("paymentRunId") REFERENCES "PaymentRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VerificationGate" ADD CONSTRAINT "VerificationGate_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VerificationAttestation" ADD CONSTRAINT "VerificationAttestation_verificationGateId_fkey" FOREIGN KEY ("verificationGateId") REFERENCES "VerificationGate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_liftTokenId_fkey" FOREIGN KEY ("liftTokenId") REFERENCES "LiftToken"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationLog" ADD CONSTRAINT "ReconciliationLog_disbursementId_fkey" FOREIGN KEY ("disbursementId") REFERENCES "Disbursement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationLog" ADD CONSTRAINT "ReconciliationLog_statementImportId_fkey" FOREIGN KEY ("statementImportId") REFERENCES "BankStatementImport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationReview" ADD CONSTRAINT "ReconciliationReview_disbursementId_fkey" FOREIGN KEY ("disbursementId") REFERENCES "Disbursement"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationReview" ADD CONSTRAINT "ReconciliationReview_statementImportId_fkey" FOREIGN KEY ("statementImportId") REFERENCES "BankStatementImport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceToken" ADD CONSTRAINT "GovernanceToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceDelegation" ADD CONSTRAINT "GovernanceDelegation_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "GovernanceToken"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceProposal" ADD CONSTRAINT "GovernanceProposal_proposerUserId_fkey" FOREIGN KEY ("proposerUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceSponsorship" ADD CONSTRAINT "GovernanceSponsorship_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "GovernanceProposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceSponsorship" ADD CONSTRAINT "GovernanceSponsorship_sponsorUserId_fkey" FOREIGN KEY ("sponsorUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceVote" ADD CONSTRAINT "GovernanceVote_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "GovernanceProposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceVote" ADD CONSTRAINT "GovernanceVote_voterUserId_fkey" FOREIGN KEY ("voterUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceEvent" ADD CONSTRAINT "GovernanceEvent_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "GovernanceProposal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceParameterChange" ADD CONSTRAINT "GovernanceParameterChange_parameterId_fkey" FOREIGN KEY ("parameterId") REFERENCES "GovernanceParameter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_fundingBucketId_fkey" FOREIGN KEY ("fundingBucketId") REFERENCES "FundingBucket"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorInvite" ADD CONSTRAINT "VendorInvite_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VendorTaxForm" ADD CONSTRAINT "VendorTaxForm_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "Vendor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LiftForward" ADD CONSTRAINT "LiftForward_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "GovernanceProposal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- AlterEnum
+ALTER TYPE "RoleChangeType" ADD VALUE 'ROLE_EXPIRED';
+ALTER TYPE "RoleChangeType" ADD VALUE 'DELEGATION_GRANTED';
+ALTER TYPE "RoleChangeType" ADD VALUE 'DELEGATION_REVOKED';
+ALTER TYPE "RoleChangeType" ADD VALUE 'DELEGATION_EXPIRED';
+
+-- DropIndex
+DROP INDEX "ProjectRole_userId_projectId_role_key";
+
+-- AlterTable
+ALTER TABLE "ProjectRole" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing assignments took effect when they were made
+UPDATE "ProjectRole" SET "startsAt" = "assignedAt";
+
+-- AlterTable
+ALTER TABLE "FinanceApproval" ADD COLUMN     "authorityType" TEXT,
+ADD COLUMN     "delegationId" INTEGER,
+ADD COLUMN     "projectRoleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ApprovalDelegation" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "delegatorId" INTEGER NOT NULL,
+    "delegateId" INTEGER NOT NULL,
+    "role" "FinanceRole" NOT NULL,
+    "maxAmount" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "reason" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedBy" TEXT,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ApprovalDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectRole_userId_projectId_role_idx" ON "ProjectRole"("userId", "projectId", "role");
+
+-- CreateIndex
+CREATE INDEX "ProjectRole_active_expiresAt_idx" ON "ProjectRole"("active", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_projectId_delegateId_active_idx" ON "ApprovalDelegation"("projectId", "delegateId", "active");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_delegatorId_idx" ON "ApprovalDelegation"("delegatorId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_active_expiresAt_idx" ON "ApprovalDelegation"("active", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegatorId_fkey" FOREIGN KEY ("delegatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceApproval" ADD CONSTRAINT "FinanceApproval_projectRoleId_fkey" FOREIGN KEY ("projectRoleId") REFERENCES "ProjectRole"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FinanceApproval" ADD CONSTRAINT "FinanceApproval_delegationId_fkey" FOREIGN KEY ("delegationId") REFERENCES "ApprovalDelegation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "MintRequest" ADD COLUMN     "executedBy" TEXT,
+ADD COLUMN     "requiredApprovals" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "MintApprovalPolicy" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "requiredApprovals" INTEGER NOT NULL DEFAULT 1,
+    "approverRoles" "FinanceRole"[],
+    "approverAddresses" TEXT[],
+    "thresholds" JSONB NOT NULL DEFAULT '[]',
+    "createdBy" TEXT NOT NULL,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MintApprovalPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MintApprovalPolicy_projectId_key" ON "MintApprovalPolicy"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "MintApprovalPolicy" ADD CONSTRAINT "MintApprovalPolicy_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
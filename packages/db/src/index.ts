@@ -23,12 +23,15 @@ export type {
   // Models that exist in the schema
   User,
   Session,
+  AuthNonce,
+  ApiToken,
   Project,
   LiftToken,
   LiftTokenEvent,
   Contract,
   MintRequest,
   MintRequestEvent,
+  MintApprovalPolicy,
   Payment,
   PaymentEvent,
   IndexedEvent,
@@ -39,7 +42,109 @@ export type {
   VerificationMethod,
   VerificationResult,
   EvidenceFile,
-  
+  MRVProtocolVersion,
+
+  // Workflow models
+  WorkflowTrigger,
+  WorkflowCondition,
+  WorkflowAction,
+  WorkflowExecution,
+  WorkflowLease,
+
+  // Audit trail models
+  AuditEvent,
+  AuditAnchorBatch,
+  AuditEventAnchor,
+
+  // Marketplace models
+  MarketplaceListing,
+  MarketplaceBid,
+  MarketplaceFill,
+
+  // Lift Forward models
+  LiftForward,
+  LiftForwardMilestone,
+  MilestoneChallenge,
+  LiftForwardEvent,
+  LiftForwardPosition,
+  LiftForwardSettlement,
+
+  // Finance role models
+  ProjectRole,
+  SystemRole,
+  RoleChangeEvent,
+  ApprovalDelegation,
+  ApprovalMatrix,
+
+  // Vendor models
+  Vendor,
+  VendorDocument,
+
+  // Funding and budget models
+  FundingBucket,
+  BudgetLine,
+  Deposit,
+
+  // Contract and invoice models
+  FinanceContract,
+  ContractBudgetAllocation,
+  ChangeOrder,
+  Invoice,
+  InvoiceCoding,
+  FinanceApproval,
+
+  // Disbursement models
+  PaymentRun,
+  Disbursement,
+
+  // Verification gate and receipt models
+  VerificationGate,
+  VerificationAttestation,
+  Receipt,
+  FinanceLink,
+
+  // Bank reconciliation models
+  BankStatementImport,
+  ReconciliationLog,
+  ReconciliationReview,
+
+  // Safe multisig models
+  SafeProposal,
+  SafeConfirmation,
+
+  // General ledger models
+  LedgerAccount,
+  JournalEntry,
+  JournalLine,
+
+  // Accounting export models
+  AccountMapping,
+  AccountingExport,
+  AccountingExportItem,
+
+  // Foreign exchange models
+  FxRate,
+
+  // Vendor portal models
+  VendorInvite,
+  VendorTaxForm,
+
+  // Sanctions screening models
+  SanctionsList,
+  SanctionsEntry,
+  SanctionsDigitalAddress,
+  SanctionsHit,
+
+  // Governance models
+  GovernanceToken,
+  GovernanceDelegation,
+  GovernanceProposal,
+  GovernanceSponsorship,
+  GovernanceVote,
+  GovernanceEvent,
+  GovernanceParameter,
+  GovernanceParameterChange,
+
   // Note: Only export types that actually exist in schema.prisma
 } from '@prisma/client';
 
@@ -50,7 +155,21 @@ import {
   PaymentEventType,
   VerificationStatus,
   MintRequestStatus,
-  MintRequestEventType
+  MintRequestEventType,
+  FinanceRole,
+  SystemRoleType,
+  RoleChangeType,
+  ContractType,
+  ContractStatus,
+  ApprovalStatus,
+  ChangeOrderReason,
+  ChangeOrderCategory,
+  ChangeOrderStatus,
+  InvoiceType,
+  InvoiceStatus,
+  ApprovalDecision,
+  DisbursementStatus,
+  PaymentMethod
 } from '@prisma/client';
 
 // Re-export enums that actually exist in the generated client
@@ -60,6 +179,20 @@ export {
   PaymentEventType,
   VerificationStatus,
   MintRequestStatus,
-  MintRequestEventType
+  MintRequestEventType,
+  FinanceRole,
+  SystemRoleType,
+  RoleChangeType,
+  ContractType,
+  ContractStatus,
+  ApprovalStatus,
+  ChangeOrderReason,
+  ChangeOrderCategory,
+  ChangeOrderStatus,
+  InvoiceType,
+  InvoiceStatus,
+  ApprovalDecision,
+  DisbursementStatus,
+  PaymentMethod
 };
 